@@ -19,12 +19,15 @@ import {
 } from '@/components/ui/select';
 import { BOQ_CATEGORIES, getDefaultBOQUnit, ALL_BOQ_FIELDS } from '@/data/boqCategories';
 import type { BOQItem } from '@/lib/types/boq';
+import { formatMoney } from '@/lib/currency/fx';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
 
 interface BOQAddItemDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onAdd: (item: Omit<BOQItem, 'id' | 'totalPrice'>) => void;
   defaultCategory?: string;
+  currency?: string;
 }
 
 export function BOQAddItemDialog({
@@ -32,6 +35,7 @@ export function BOQAddItemDialog({
   onOpenChange,
   onAdd,
   defaultCategory = 'PV Equipment',
+  currency = DEFAULT_CURRENCY,
 }: BOQAddItemDialogProps) {
   const [name, setName] = useState('');
   const [category, setCategory] = useState(defaultCategory);
@@ -147,7 +151,7 @@ export function BOQAddItemDialog({
           </div>
 
           <div className="grid gap-2">
-            <Label htmlFor="unit-price">Unit Price (EUR)</Label>
+            <Label htmlFor="unit-price">Unit Price ({currency})</Label>
             <Input
               id="unit-price"
               type="number"
@@ -162,12 +166,7 @@ export function BOQAddItemDialog({
             <div className="flex justify-between text-sm">
               <span>Total:</span>
               <span className="font-semibold">
-                {new Intl.NumberFormat('en-US', {
-                  style: 'currency',
-                  currency: 'EUR',
-                  minimumFractionDigits: 0,
-                  maximumFractionDigits: 0,
-                }).format(quantity * unitPrice)}
+                {formatMoney(quantity * unitPrice, currency)}
               </span>
             </div>
           </div>
@@ -19,6 +19,7 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { AlertTriangle, ArrowRight, CheckCircle2 } from 'lucide-react';
 import type { BOQExportPreview } from '@/lib/types/boq';
+import { formatMoney } from '@/lib/currency/fx';
 
 interface BOQExportDialogProps {
   open: boolean;
@@ -35,13 +36,8 @@ export function BOQExportDialog({
 }: BOQExportDialogProps) {
   if (!preview) return null;
 
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const formatCurrency = (value: number, currency: string = preview.currency): string => {
+    return formatMoney(value, currency);
   };
 
   const newItems = preview.items.filter((i) => i.isNew);
@@ -112,7 +108,7 @@ export function BOQExportDialog({
                       )}
                     </TableCell>
                     <TableCell className="text-right font-mono">
-                      {formatCurrency(item.boqItem.totalPrice)}
+                      {formatCurrency(item.boqItem.totalPrice, item.boqItem.currency)}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -98,6 +98,42 @@ export function BOQGenerateDialog({
                 }
               />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="include-cables" className="cursor-pointer">
+                  Include Cables
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  DC and AC cable meters sized from the design's cable routes
+                </p>
+              </div>
+              <Switch
+                id="include-cables"
+                checked={options.includeCables}
+                onCheckedChange={(checked) =>
+                  setOptions({ ...options, includeCables: checked })
+                }
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="include-earthworks" className="cursor-pointer">
+                  Include Earthworks
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Cut and fill volumes for generated layouts on sites with terrain
+                </p>
+              </div>
+              <Switch
+                id="include-earthworks"
+                checked={options.includeEarthworks}
+                onCheckedChange={(checked) =>
+                  setOptions({ ...options, includeEarthworks: checked })
+                }
+              />
+            </div>
           </div>
 
           {/* Pricing Options */}
@@ -176,7 +212,13 @@ export function BOQGenerateDialog({
           </Button>
           <Button
             onClick={handleGenerate}
-            disabled={isGenerating || (!options.includeModules && !options.includeInverters)}
+            disabled={
+              isGenerating ||
+              (!options.includeModules &&
+                !options.includeInverters &&
+                !options.includeCables &&
+                !options.includeEarthworks)
+            }
           >
             {isGenerating ? (
               <>
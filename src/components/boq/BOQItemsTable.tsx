@@ -16,9 +16,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { ChevronDown, ChevronRight, Plus, Trash2, Package, Sun, Zap } from 'lucide-react';
+import { ChevronDown, ChevronRight, Plus, Trash2, Package, Sun, Zap, AlertTriangle } from 'lucide-react';
 import type { BOQItem, BOQItemSource } from '@/lib/types/boq';
 import { BOQ_CATEGORIES } from '@/data/boqCategories';
+import { useFxStore } from '@/stores/fxStore';
+import { formatMoney, sumInCurrency } from '@/lib/currency/fx';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
 
 type ComponentType = 'module' | 'inverter' | null;
 
@@ -39,6 +42,7 @@ interface BOQItemsTableProps {
   onDeleteItem: (itemId: string) => void;
   onAddItem: (category: string) => void;
   readOnly?: boolean;
+  currency?: string; // BOQ currency, used for items without their own
 }
 
 export function BOQItemsTable({
@@ -47,7 +51,9 @@ export function BOQItemsTable({
   onDeleteItem,
   onAddItem,
   readOnly = false,
+  currency = DEFAULT_CURRENCY,
 }: BOQItemsTableProps) {
+  const rates = useFxStore((state) => state.rates);
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
 
   // Get predefined category order
@@ -79,13 +85,8 @@ export function BOQItemsTable({
     });
   }, [predefinedCategoryOrder, groupedItems]);
 
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const formatCurrency = (value: number, valueCurrency: string = currency): string => {
+    return formatMoney(value, valueCurrency);
   };
 
   const toggleCategory = (category: string) => {
@@ -100,8 +101,12 @@ export function BOQItemsTable({
     });
   };
 
-  const getCategoryTotal = (categoryItems: BOQItem[]): number => {
-    return categoryItems.reduce((sum, item) => sum + item.totalPrice, 0);
+  const getCategoryTotal = (categoryItems: BOQItem[]) => {
+    return sumInCurrency(
+      categoryItems.map((item) => ({ amount: item.totalPrice, currency: item.currency ?? currency })),
+      currency,
+      rates
+    );
   };
 
   const getSourceBadge = (source: BOQItemSource) => {
@@ -184,8 +189,15 @@ export function BOQItemsTable({
                     ({categoryItems.length} {categoryItems.length === 1 ? 'item' : 'items'})
                   </span>
                 </div>
-                <span className="font-semibold text-sm">
-                  {formatCurrency(categoryTotal)}
+                <span className="font-semibold text-sm flex items-center gap-1">
+                  {categoryTotal.missingRates.length > 0 && (
+                    <span
+                      title={`No FX rate to ${currency} for ${categoryTotal.missingRates.join(', ')}; added 1:1`}
+                    >
+                      <AlertTriangle className="h-3 w-3 text-amber-500" />
+                    </span>
+                  )}
+                  {formatCurrency(categoryTotal.total)}
                 </span>
               </CollapsibleTrigger>
 
@@ -238,7 +250,7 @@ export function BOQItemsTable({
                             </TableCell>
                             <TableCell className="text-right pr-1">
                               {readOnly ? (
-                                <span className="font-mono text-sm">{formatCurrency(item.unitPrice)}</span>
+                                <span className="font-mono text-sm">{formatCurrency(item.unitPrice, item.currency)}</span>
                               ) : (
                                 <Input
                                   type="number"
@@ -258,7 +270,7 @@ export function BOQItemsTable({
                               {item.unit}
                             </TableCell>
                             <TableCell className="text-right font-mono text-sm font-semibold pr-3">
-                              {formatCurrency(item.totalPrice)}
+                              {formatCurrency(item.totalPrice, item.currency)}
                             </TableCell>
                             {!readOnly && (
                               <TableCell className="text-center">
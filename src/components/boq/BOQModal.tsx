@@ -202,6 +202,7 @@ export function BOQModal({
                     onDeleteItem={handleDeleteItem}
                     onAddItem={handleOpenAddDialog}
                     readOnly={!canUpdate}
+                    currency={boq.currency}
                   />
                 </>
               )}
@@ -215,6 +216,7 @@ export function BOQModal({
         open={addDialogOpen}
         onOpenChange={setAddDialogOpen}
         onAdd={handleAddItem}
+        currency={boq?.currency}
         defaultCategory={addDialogCategory}
       />
       <BOQGenerateDialog
@@ -175,6 +175,7 @@ export function BOQPanel({
                   onDeleteItem={handleDeleteItem}
                   onAddItem={handleOpenAddDialog}
                   readOnly={!canUpdate}
+                  currency={boq.currency}
                 />
 
                 {/* Link to Financials */}
@@ -199,6 +200,7 @@ export function BOQPanel({
           open={addDialogOpen}
           onOpenChange={setAddDialogOpen}
           onAdd={handleAddItem}
+          currency={boq?.currency}
           defaultCategory={addDialogCategory}
         />
         <BOQGenerateDialog
@@ -266,6 +268,7 @@ export function BOQPanel({
               onDeleteItem={handleDeleteItem}
               onAddItem={handleOpenAddDialog}
               readOnly={!canUpdate}
+              currency={boq.currency}
             />
           </div>
         )}
@@ -276,6 +279,7 @@ export function BOQPanel({
         open={addDialogOpen}
         onOpenChange={setAddDialogOpen}
         onAdd={handleAddItem}
+        currency={boq?.currency}
         defaultCategory={addDialogCategory}
       />
       <BOQGenerateDialog
@@ -1,7 +1,9 @@
 import { Card, CardContent } from '@/components/ui/card';
-import { Package, Calendar, Upload } from 'lucide-react';
+import { Package, Calendar, Upload, AlertTriangle } from 'lucide-react';
 import type { BOQ } from '@/lib/types/boq';
 import { formatDistanceToNow } from 'date-fns';
+import { formatMoney } from '@/lib/currency/fx';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
 
 interface BOQSummaryCardProps {
   boq: BOQ;
@@ -9,12 +11,7 @@ interface BOQSummaryCardProps {
 
 export function BOQSummaryCard({ boq }: BOQSummaryCardProps) {
   const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+    return formatMoney(value, boq.currency);
   };
 
   return (
@@ -37,6 +34,13 @@ export function BOQSummaryCard({ boq }: BOQSummaryCardProps) {
             </p>
           </div>
         </div>
+        {boq.missingFxRates && boq.missingFxRates.length > 0 && (
+          <div className="mt-3 flex items-start gap-2 text-xs text-amber-600">
+            <AlertTriangle className="h-3 w-3 flex-shrink-0 mt-0.5" />
+            No FX rate to {boq.currency ?? DEFAULT_CURRENCY} for {boq.missingFxRates.join(', ')}; those items are
+            added 1:1.
+          </div>
+        )}
         <div className="mt-4 pt-4 border-t space-y-2 text-xs text-muted-foreground">
           <div className="flex items-center gap-2">
             <Calendar className="h-3 w-3" />
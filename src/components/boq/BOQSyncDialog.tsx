@@ -0,0 +1,153 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle } from 'lucide-react';
+import type { CapexSyncChange, CapexSyncDiff, CapexSyncValues } from '@/lib/boq/capexSync';
+import { formatMoney } from '@/lib/currency/fx';
+
+interface BOQSyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  diff: CapexSyncDiff | null;
+  onSync: () => void;
+}
+
+const KIND_LABELS: Record<CapexSyncChange['kind'], string> = {
+  added: 'New',
+  updated: 'Update',
+  removed: 'Remove',
+};
+
+const REASON_LABELS: Record<CapexSyncChange['reasons'][number], string> = {
+  boq: 'BOQ',
+  component_price: 'Component price',
+};
+
+export function BOQSyncDialog({ open, onOpenChange, diff, onSync }: BOQSyncDialogProps) {
+  if (!diff) return null;
+
+  const formatCurrency = (value: number, currency: string = diff.currency): string => {
+    return formatMoney(value, currency);
+  };
+
+  const formatValues = (values?: CapexSyncValues) =>
+    values ? `${values.quantity.toLocaleString()} × ${formatCurrency(values.unitPrice, values.currency)}` : '—';
+
+  const handleSync = () => {
+    onSync();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Re-sync CAPEX from {diff.boqName}</DialogTitle>
+          <DialogDescription>
+            The BOQ or component prices changed since the CAPEX items were exported. Review the
+            changes below before updating the financial model.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {diff.designChanged && (
+            <div className="flex items-start gap-3 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+              <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-amber-600">Design changed since the BOQ was generated</p>
+                <p className="text-muted-foreground mt-1">
+                  Regenerate the BOQ from the design first to pick up layout changes.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <ScrollArea className="h-[300px] rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-center">Change</TableHead>
+                  <TableHead className="text-right">Before</TableHead>
+                  <TableHead className="text-right">After</TableHead>
+                  <TableHead className="text-right">Delta</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.changes.map((change) => {
+                  const delta = (change.after?.amount ?? 0) - (change.before?.amount ?? 0);
+                  // A per-row delta only makes sense when both sides share a currency
+                  const deltaCurrency = change.after?.currency ?? change.before?.currency ?? diff.currency;
+                  const comparable =
+                    !change.before || !change.after || change.before.currency === change.after.currency;
+                  return (
+                    <TableRow key={change.capexItemId ?? change.boqItemId}>
+                      <TableCell>
+                        <div>
+                          <p className="font-medium">{change.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {change.category} · {change.reasons.map((r) => REASON_LABELS[r]).join(', ')}
+                          </p>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={change.kind === 'removed' ? 'destructive' : change.kind === 'added' ? 'default' : 'secondary'}>
+                          {KIND_LABELS[change.kind]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">{formatValues(change.before)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{formatValues(change.after)}</TableCell>
+                      {comparable ? (
+                        <TableCell className={`text-right font-mono ${delta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {delta > 0 ? '+' : ''}
+                          {formatCurrency(delta, deltaCurrency)}
+                        </TableCell>
+                      ) : (
+                        <TableCell className="text-right text-xs text-muted-foreground">Currency changed</TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <div className="flex justify-between text-base">
+              <span className="font-semibold">CAPEX change (before margins):</span>
+              <span className={`font-bold ${diff.amountDelta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {diff.amountDelta > 0 ? '+' : ''}
+                {formatCurrency(diff.amountDelta)}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSync} disabled={diff.changes.length === 0}>
+            Re-sync CAPEX
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { useBOQStore } from '@/stores/boqStore';
+import { useComponentStore } from '@/stores/componentStore';
+import { useDesignStore } from '@/stores/designStore';
+import { useFxStore } from '@/stores/fxStore';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { BOQSyncDialog } from './BOQSyncDialog';
+import { buildCapexSyncDiff, isLinkedToBOQ } from '@/lib/boq/capexSync';
+import type { CostLineItem } from '@/lib/types/financial';
+
+interface CapexSyncBannerProps {
+  projectId: string;
+  capexItems: CostLineItem[];
+  canEdit: boolean;
+}
+
+/**
+ * Flags a financial model whose BOQ-linked CAPEX items are out of date with
+ * the BOQ, component prices or design layout they came from
+ */
+export function CapexSyncBanner({ projectId, capexItems, canEdit }: CapexSyncBannerProps) {
+  const boqs = useBOQStore((state) => state.boqs);
+  const syncToCapex = useBOQStore((state) => state.syncToCapex);
+  const generateFromDesign = useBOQStore((state) => state.generateFromDesign);
+  const components = useComponentStore((state) => state.components);
+  const designs = useDesignStore((state) => state.designs);
+  const rates = useFxStore((state) => state.rates);
+  const [reviewBoqId, setReviewBoqId] = useState<string | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+
+  const staleDiffs = useMemo(
+    () =>
+      boqs
+        .filter((boq) => boq.projectId === projectId && isLinkedToBOQ(capexItems, boq.id))
+        .map((boq) =>
+          buildCapexSyncDiff(
+            capexItems,
+            boq,
+            components,
+            designs.find((d) => d.id === boq.designId),
+            rates
+          )
+        )
+        .filter((diff) => diff.changes.length > 0 || diff.designChanged),
+    [boqs, projectId, capexItems, components, designs, rates]
+  );
+
+  if (staleDiffs.length === 0) return null;
+
+  const reviewDiff = staleDiffs.find((diff) => diff.boqId === reviewBoqId) ?? null;
+
+  const handleRegenerate = async (boqId: string) => {
+    setRegenerating(true);
+    await generateFromDesign(boqId);
+    setRegenerating(false);
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      {staleDiffs.map((diff) => (
+        <div
+          key={diff.boqId}
+          className="flex items-start gap-3 p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg"
+        >
+          <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 text-sm">
+            <p className="font-medium text-amber-600">CAPEX is out of date with {diff.boqName}</p>
+            <p className="text-muted-foreground mt-1">
+              {diff.changes.length > 0 &&
+                `${diff.changes.length} item(s) changed in the BOQ or component library. `}
+              {diff.designChanged && 'The design layout changed since the BOQ was generated.'}
+            </p>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              {diff.designChanged && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={regenerating}
+                  onClick={() => handleRegenerate(diff.boqId)}
+                >
+                  Regenerate BOQ
+                </Button>
+              )}
+              {diff.changes.length > 0 && (
+                <Button size="sm" onClick={() => setReviewBoqId(diff.boqId)}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Review & Re-sync
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <BOQSyncDialog
+        open={reviewDiff !== null}
+        onOpenChange={(open) => !open && setReviewBoqId(null)}
+        diff={reviewDiff}
+        onSync={() => reviewDiff && syncToCapex(reviewDiff.boqId)}
+      />
+    </div>
+  );
+}
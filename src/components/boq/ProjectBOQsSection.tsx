@@ -18,12 +18,17 @@ import {
   Package,
   Upload,
   ArrowRight,
+  AlertTriangle,
 } from 'lucide-react';
 import { useBOQStore } from '@/stores/boqStore';
 import { useDesignStore } from '@/stores/designStore';
+import { useFinancialStore } from '@/stores/financialStore';
+import { useFxStore } from '@/stores/fxStore';
 import { useUserStore } from '@/stores/userStore';
 import { resolvePermissions } from '@/lib/permissions/permissionResolver';
 import { formatDistanceToNow } from 'date-fns';
+import { formatMoney, sumInCurrency } from '@/lib/currency/fx';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
 
 import { BOQExportDialog } from './BOQExportDialog';
 
@@ -38,6 +43,8 @@ export function ProjectBOQsSection({ projectId }: ProjectBOQsSectionProps) {
   const boqStore = useBOQStore();
   const designStore = useDesignStore();
   const userStore = useUserStore();
+  const financialModel = useFinancialStore((state) => state.getModelByProject(projectId));
+  const rates = useFxStore((state) => state.rates);
 
   const projectBOQs = boqStore.getBOQsByProject(projectId);
   const projectDesigns = designStore.designs.filter((d) => d.projectId === projectId);
@@ -55,13 +62,20 @@ export function ProjectBOQsSection({ projectId }: ProjectBOQsSectionProps) {
 
   const canUpdate = permissions.update;
 
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  // Totals across BOQs are shown in the project's reporting currency
+  const reportingCurrency = financialModel?.inputs.currency ?? DEFAULT_CURRENCY;
+  const projectTotal = sumInCurrency(
+    projectBOQs.map((b) => ({ amount: b.totalValue, currency: b.currency ?? DEFAULT_CURRENCY })),
+    reportingCurrency,
+    rates
+  );
+  // Currencies added 1:1 within a BOQ or when converting its total
+  const missingRates = [
+    ...new Set([...projectTotal.missingRates, ...projectBOQs.flatMap((b) => b.missingFxRates ?? [])]),
+  ].sort();
+
+  const formatCurrency = (value: number, currency: string = reportingCurrency): string => {
+    return formatMoney(value, currency);
   };
 
   const getDesignForBOQ = (designId: string) => {
@@ -141,7 +155,7 @@ export function ProjectBOQsSection({ projectId }: ProjectBOQsSectionProps) {
                           <Badge variant="secondary">{boq.items.length}</Badge>
                         </TableCell>
                         <TableCell className="text-right font-mono font-semibold text-green-600">
-                          {formatCurrency(boq.totalValue)}
+                          {formatCurrency(boq.totalValue, boq.currency)}
                         </TableCell>
                         <TableCell className="text-center text-sm text-muted-foreground">
                           {formatDistanceToNow(new Date(boq.updatedAt), { addSuffix: true })}
@@ -182,9 +196,15 @@ export function ProjectBOQsSection({ projectId }: ProjectBOQsSectionProps) {
                 Total across all BOQs:
               </span>
               <span className="text-lg font-bold text-green-600">
-                {formatCurrency(projectBOQs.reduce((sum, b) => sum + b.totalValue, 0))}
+                {formatCurrency(projectTotal.total)}
               </span>
             </div>
+            {missingRates.length > 0 && (
+              <div className="mt-2 flex items-start gap-2 text-xs text-amber-600">
+                <AlertTriangle className="h-3 w-3 flex-shrink-0 mt-0.5" />
+                No FX rate for {missingRates.join(', ')}; those amounts are added 1:1.
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
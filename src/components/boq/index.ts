@@ -7,3 +7,5 @@ export { BOQAddItemDialog } from './BOQAddItemDialog';
 export { BOQGenerateDialog } from './BOQGenerateDialog';
 export { BOQExportDialog } from './BOQExportDialog';
 export { ProjectBOQsSection } from './ProjectBOQsSection';
+export { BOQSyncDialog } from './BOQSyncDialog';
+export { CapexSyncBanner } from './CapexSyncBanner';
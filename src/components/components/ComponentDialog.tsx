@@ -184,6 +184,11 @@ export function ComponentDialog({ open, onOpenChange, component, prefilledData }
               tempCoeffPmax: undefined,
               tempCoeffVoc: undefined,
               tempCoeffIsc: undefined,
+              lid: undefined,
+              letid: undefined,
+              firstYearDegradation: undefined,
+              annualDegradation: undefined,
+              warrantyYears: undefined,
             });
           }
         } else {
@@ -509,11 +514,12 @@ interface ModuleSpecsFormProps {
 function ModuleSpecsForm({ specs, onUpdate }: ModuleSpecsFormProps) {
   return (
     <Tabs defaultValue="electrical" className="w-full">
-      <TabsList className="grid w-full grid-cols-4">
+      <TabsList className="grid w-full grid-cols-5">
         <TabsTrigger value="electrical">Electrical</TabsTrigger>
         <TabsTrigger value="physical">Physical</TabsTrigger>
         <TabsTrigger value="cell">Cell Info</TabsTrigger>
         <TabsTrigger value="temperature">Temperature</TabsTrigger>
+        <TabsTrigger value="degradation">Degradation</TabsTrigger>
       </TabsList>
 
       <TabsContent value="electrical" className="space-y-4 pt-4">
@@ -719,6 +725,72 @@ function ModuleSpecsForm({ specs, onUpdate }: ModuleSpecsFormProps) {
           Negative values for Pmax and Voc indicate power/voltage decreases as temperature rises.
         </p>
       </TabsContent>
+
+      <TabsContent value="degradation" className="space-y-4 pt-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="lid">LID (%)</Label>
+            <Input
+              id="lid"
+              type="number"
+              min={0}
+              step={0.1}
+              value={specs.lid || ''}
+              onChange={(e) => onUpdate('lid', parseFloat(e.target.value) || undefined)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="letid">LeTID (%)</Label>
+            <Input
+              id="letid"
+              type="number"
+              min={0}
+              step={0.1}
+              value={specs.letid || ''}
+              onChange={(e) => onUpdate('letid', parseFloat(e.target.value) || undefined)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="firstYearDegradation">Year 1 Loss (%)</Label>
+            <Input
+              id="firstYearDegradation"
+              type="number"
+              min={0}
+              step={0.1}
+              value={specs.firstYearDegradation || ''}
+              onChange={(e) => onUpdate('firstYearDegradation', parseFloat(e.target.value) || undefined)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="annualDegradation">Annual Loss (%/yr)</Label>
+            <Input
+              id="annualDegradation"
+              type="number"
+              min={0}
+              step={0.01}
+              value={specs.annualDegradation || ''}
+              onChange={(e) => onUpdate('annualDegradation', parseFloat(e.target.value) || undefined)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="warrantyYears">Warranty (years)</Label>
+            <Input
+              id="warrantyYears"
+              type="number"
+              min={0}
+              step={1}
+              value={specs.warrantyYears || ''}
+              onChange={(e) => onUpdate('warrantyYears', parseInt(e.target.value) || undefined)}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          LID and LeTID are the expected initial losses. The year 1 and annual losses are the
+          limits of the manufacturer's linear power warranty, checked in the financial model.
+        </p>
+      </TabsContent>
     </Tabs>
   );
 }
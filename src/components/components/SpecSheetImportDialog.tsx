@@ -422,6 +422,13 @@ function ModulePreview({
               <SpecRow label="Voc" field={result.shared.tempCoeffVoc} unit="%/°C" />
               <SpecRow label="Isc" field={result.shared.tempCoeffIsc} unit="%/°C" />
             </SpecSection>
+            <SpecSection title="Degradation & Warranty">
+              <SpecRow label="LID" field={result.shared.lid} unit="%" />
+              <SpecRow label="LeTID" field={result.shared.letid} unit="%" />
+              <SpecRow label="Year 1" field={result.shared.firstYearDegradation} unit="%" />
+              <SpecRow label="Annual" field={result.shared.annualDegradation} unit="%/yr" />
+              <SpecRow label="Warranty" field={result.shared.warrantyYears} unit="years" />
+            </SpecSection>
           </div>
         </CollapsibleContent>
       </Collapsible>
@@ -0,0 +1,418 @@
+import { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Cable, AlertTriangle, CheckCircle2, Save, Gauge } from 'lucide-react';
+import { useComponentStore } from '@/stores/componentStore';
+import { useDesignStore } from '@/stores/designStore';
+import { useUserStore } from '@/stores/userStore';
+import type { Design } from '@/lib/types';
+import type { Site } from '@/lib/types/site';
+import type { ModuleComponent, InverterComponent } from '@/lib/types/component';
+import {
+  sizeStrings,
+  DEFAULT_DESIGN_TEMPERATURES,
+  DEFAULT_TARGET_DC_AC_RATIO,
+} from '@/lib/electrical';
+
+interface DesignStringingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  design: Design;
+  site?: Site;                    // Source site with record temperatures
+}
+
+/** Parse an optional positive integer input; empty means "use recommended" */
+function parseOptionalInt(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export function DesignStringingDialog({ open, onOpenChange, design, site }: DesignStringingDialogProps) {
+  const components = useComponentStore((state) => state.components);
+  const updateDesign = useDesignStore((state) => state.updateDesign);
+  const currentUser = useUserStore((state) => state.currentUser);
+
+  const modules = useMemo(
+    () => components.filter((c): c is ModuleComponent => c.type === 'module'),
+    [components]
+  );
+  const inverters = useMemo(
+    () => components.filter((c): c is InverterComponent => c.type === 'inverter'),
+    [components]
+  );
+
+  // Form state, prefilled from the saved configuration (the dialog mounts when opened).
+  // Temperatures come from the site records unless overridden and saved on the design.
+  const saved = design.stringing;
+  const siteTemperatures = site?.recordTemperatures;
+  const savedTemperatures = saved?.temperatures ?? siteTemperatures ?? DEFAULT_DESIGN_TEMPERATURES;
+  const [moduleId, setModuleId] = useState(saved?.moduleComponentId ?? modules[0]?.id ?? '');
+  const [inverterId, setInverterId] = useState(saved?.inverterComponentId ?? inverters[0]?.id ?? '');
+  const [recordLow, setRecordLow] = useState(savedTemperatures.recordLowC.toString());
+  const [recordHigh, setRecordHigh] = useState(savedTemperatures.recordHighC.toString());
+  const [modulesPerString, setModulesPerString] = useState(saved?.modulesPerString.toString() ?? '');
+  const [stringsPerInverter, setStringsPerInverter] = useState(
+    saved?.stringsPerInverter.toString() ?? ''
+  );
+  const [targetRatio, setTargetRatio] = useState(DEFAULT_TARGET_DC_AC_RATIO.toString());
+  const [totalModules, setTotalModules] = useState(design.generatedLayout ? '' : '1000');
+
+  const selectedModule = modules.find((m) => m.id === moduleId);
+  const selectedInverter = inverters.find((i) => i.id === inverterId);
+
+  const result = useMemo(() => {
+    if (!selectedModule || !selectedInverter) return null;
+    const low = parseFloat(recordLow);
+    const high = parseFloat(recordHigh);
+    if (!Number.isFinite(low) || !Number.isFinite(high)) return null;
+
+    const ratio = parseFloat(targetRatio);
+    return sizeStrings({
+      module: selectedModule.specs,
+      inverter: selectedInverter.specs,
+      temperatures: { recordLowC: low, recordHighC: high },
+      layout: design.generatedLayout,
+      totalModules: design.generatedLayout ? undefined : parseOptionalInt(totalModules),
+      modulesPerString: parseOptionalInt(modulesPerString),
+      stringsPerInverter: parseOptionalInt(stringsPerInverter),
+      targetDcAcRatio: Number.isFinite(ratio) && ratio > 0 ? ratio : undefined,
+    });
+  }, [
+    selectedModule,
+    selectedInverter,
+    recordLow,
+    recordHigh,
+    targetRatio,
+    totalModules,
+    modulesPerString,
+    stringsPerInverter,
+    design.generatedLayout,
+  ]);
+
+  const handleSave = () => {
+    if (!result || !selectedModule || !selectedInverter || !currentUser) return;
+
+    updateDesign(design.id, {
+      stringing: {
+        moduleComponentId: selectedModule.id,
+        inverterComponentId: selectedInverter.id,
+        moduleName: `${selectedModule.manufacturer} ${selectedModule.model}`,
+        inverterName: `${selectedInverter.manufacturer} ${selectedInverter.model}`,
+        temperatures: {
+          recordLowC: parseFloat(recordLow),
+          recordHighC: parseFloat(recordHigh),
+        },
+        modulesPerString: result.modulesPerString,
+        stringsPerMppt: result.stringsPerMppt,
+        stringsPerInverter: result.stringsPerInverter,
+        totalStrings: result.totalStrings,
+        inverterCount: result.inverterCount,
+        dcCapacityKw: result.dcCapacityKw,
+        acCapacityKw: result.acCapacityKw,
+        dcAcRatio: result.dcAcRatio,
+        stringColdVoc: result.stringColdVoc,
+        issueCount: result.issues.length,
+        savedAt: new Date().toISOString(),
+        savedBy: `${currentUser.firstName} ${currentUser.lastName}`,
+      },
+    });
+    onOpenChange(false);
+  };
+
+  const hasComponents = modules.length > 0 && inverters.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Cable className="h-5 w-5" />
+            String Sizing
+          </DialogTitle>
+          <DialogDescription>
+            Size strings and inverters for <span className="font-medium">{design.name}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex flex-wrap gap-2">
+            {design.generatedLayout && (
+              <Badge variant="secondary" className="gap-1">
+                <Gauge className="h-3 w-3" />
+                {design.generatedLayout.summary.totalPanels.toLocaleString()} modules from layout
+              </Badge>
+            )}
+            {design.stringing && (
+              <Badge variant="secondary" className="gap-1">
+                <Save className="h-3 w-3" />
+                Saved {new Date(design.stringing.savedAt).toLocaleDateString()} by{' '}
+                {design.stringing.savedBy}
+              </Badge>
+            )}
+          </div>
+
+          {!hasComponents && (
+            <div className="p-3 rounded-md bg-muted text-sm text-muted-foreground">
+              Add at least one module and one inverter to the component library to size strings.
+            </div>
+          )}
+
+          {/* Components */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Module</Label>
+              <Select value={moduleId} onValueChange={setModuleId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select module" />
+                </SelectTrigger>
+                <SelectContent>
+                  {modules.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.manufacturer} {m.model} ({m.specs.powerRating} W)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Inverter</Label>
+              <Select value={inverterId} onValueChange={setInverterId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select inverter" />
+                </SelectTrigger>
+                <SelectContent>
+                  {inverters.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.manufacturer} {i.model} ({i.specs.acPowerRating} kW)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Temperatures */}
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {siteTemperatures
+                ? `Site records: ${siteTemperatures.recordLowC} °C / ${siteTemperatures.recordHighC} °C`
+                : 'No record temperatures on the site - defaults used'}
+            </span>
+            {siteTemperatures &&
+              (parseFloat(recordLow) !== siteTemperatures.recordLowC ||
+                parseFloat(recordHigh) !== siteTemperatures.recordHighC) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setRecordLow(siteTemperatures.recordLowC.toString());
+                    setRecordHigh(siteTemperatures.recordHighC.toString());
+                  }}
+                >
+                  Use site records
+                </Button>
+              )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="record-low">Record Low (°C)</Label>
+              <Input
+                id="record-low"
+                type="number"
+                step="1"
+                value={recordLow}
+                onChange={(e) => setRecordLow(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="record-high">Record High (°C)</Label>
+              <Input
+                id="record-high"
+                type="number"
+                step="1"
+                value={recordHigh}
+                onChange={(e) => setRecordHigh(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Configuration */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="modules-per-string">Modules / String</Label>
+              <Input
+                id="modules-per-string"
+                type="number"
+                step="1"
+                placeholder="Recommended"
+                value={modulesPerString}
+                onChange={(e) => setModulesPerString(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="strings-per-inverter">Strings / Inverter</Label>
+              <Input
+                id="strings-per-inverter"
+                type="number"
+                step="1"
+                placeholder="Recommended"
+                value={stringsPerInverter}
+                onChange={(e) => setStringsPerInverter(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target-ratio">Target DC/AC</Label>
+              <Input
+                id="target-ratio"
+                type="number"
+                step="0.05"
+                value={targetRatio}
+                onChange={(e) => setTargetRatio(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {!design.generatedLayout && (
+            <div className="space-y-2">
+              <Label htmlFor="total-modules">Total Modules</Label>
+              <Input
+                id="total-modules"
+                type="number"
+                step="1"
+                value={totalModules}
+                onChange={(e) => setTotalModules(e.target.value)}
+              />
+            </div>
+          )}
+
+          {/* Results */}
+          {result && (
+            <>
+              <Separator />
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Configuration</span>
+                  {result.isValid ? (
+                    <Badge variant="outline" className="gap-1 text-green-600">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Within inverter limits
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive" className="gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Violates inverter limits
+                    </Badge>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 text-sm">
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Modules / String</div>
+                    <div className="font-medium">
+                      {result.modulesPerString}{' '}
+                      <span className="text-xs text-muted-foreground">
+                        ({result.minModulesPerString}–{result.maxModulesPerString})
+                      </span>
+                    </div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Strings / MPPT</div>
+                    <div className="font-medium">
+                      {result.stringsPerMppt}{' '}
+                      <span className="text-xs text-muted-foreground">
+                        (max {result.maxStringsPerMppt})
+                      </span>
+                    </div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Strings / Inverter</div>
+                    <div className="font-medium">{result.stringsPerInverter}</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Cold Voc</div>
+                    <div className="font-medium">{result.stringColdVoc.toFixed(0)} V</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Hot Vmp</div>
+                    <div className="font-medium">{result.stringHotVmp.toFixed(0)} V</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Cold Vmp</div>
+                    <div className="font-medium">{result.stringColdVmp.toFixed(0)} V</div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-3 text-sm">
+                  <div className="p-3 rounded-lg bg-muted/50 text-center">
+                    <div className="text-muted-foreground">Strings</div>
+                    <div className="text-lg font-bold">{result.totalStrings.toLocaleString()}</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50 text-center">
+                    <div className="text-muted-foreground">Inverters</div>
+                    <div className="text-lg font-bold">{result.inverterCount}</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50 text-center">
+                    <div className="text-muted-foreground">DC / AC</div>
+                    <div className="text-lg font-bold">
+                      {(result.dcCapacityKw / 1000).toFixed(2)} / {(result.acCapacityKw / 1000).toFixed(2)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">MW</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50 text-center">
+                    <div className="text-muted-foreground">DC/AC Ratio</div>
+                    <div className="text-lg font-bold">{result.dcAcRatio.toFixed(2)}</div>
+                  </div>
+                </div>
+
+                {result.issues.length > 0 && (
+                  <div className="space-y-1">
+                    {result.issues.map((issue) => (
+                      <div
+                        key={issue.code}
+                        className={
+                          issue.severity === 'error'
+                            ? 'p-2 rounded-md bg-destructive/10 text-destructive text-xs'
+                            : 'p-2 rounded-md bg-yellow-500/10 text-yellow-700 dark:text-yellow-400 text-xs'
+                        }
+                      >
+                        {issue.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!result || !result.isValid}>
+            <Save className="mr-2 h-4 w-4" />
+            Save to Design
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,10 +12,21 @@ import { PV3DCanvas } from './viewer3d/PV3DCanvas';
 import type { PV3DCanvasRef, EquipmentCounts } from './viewer3d/PV3DCanvas';
 import { ImageGenerationModal } from './ImageGenerationModal';
 import { DesignYieldModal } from './DesignYieldModal';
+import { DesignStringingDialog } from './DesignStringingDialog';
 import { BOQModal } from '@/components/boq';
 import { DigitalTwinPanel } from '@/components/digital-twin';
 import { useSiteStore } from '@/stores/siteStore';
 import { generatedLayoutToParsedData } from '@/lib/layout/toParsedData';
+import {
+    getPlanOptionsFromStringing,
+    calculateDesignCableSchedule,
+    resolveDesignElectricalSpecs,
+} from '@/lib/electrical';
+import type { CableScheduleResult } from '@/lib/electrical';
+import { sizeInverters, type InverterSizing } from '@/lib/yield';
+import { useComponentStore } from '@/stores/componentStore';
+import { useMaintenanceStore } from '@/stores/maintenanceStore';
+import { usePerformanceLogStore } from '@/stores/performanceLogStore';
 import { toast } from 'sonner';
 import type { DesignContext } from '@/lib/gemini';
 import type { DXFGeoData } from '@/lib/dxf/types';
@@ -30,6 +41,7 @@ import {
     ClipboardList,
     Sun,
     Radio,
+    Cable,
 } from 'lucide-react';
 
 interface DesignViewerProps {
@@ -46,6 +58,9 @@ export function DesignViewer({ designId, onClose, initialHighlightCommentId, ini
     const addVersion = useDesignStore((state) => state.addVersion);
     const updateDesign = useDesignStore((state) => state.updateDesign);
     const sites = useSiteStore((state) => state.sites);
+    const components = useComponentStore((state) => state.components);
+    const maintenanceSchedules = useMaintenanceStore((state) => state.schedules);
+    const performanceLogs = usePerformanceLogStore((state) => state.logs);
 
     const design = designs.find((d) => d.id === designId);
     const versionId = design?.currentVersionId;
@@ -60,17 +75,25 @@ export function DesignViewer({ designId, onClose, initialHighlightCommentId, ini
     const generatedParsedData = useMemo(() => {
         if (!design?.generatedLayout || !sourceSite) return undefined;
         try {
-            return generatedLayoutToParsedData(design.generatedLayout, sourceSite);
+            return generatedLayoutToParsedData(
+                design.generatedLayout,
+                sourceSite,
+                getPlanOptionsFromStringing(design.stringing)
+            );
         } catch (err) {
             console.error('Failed to convert generated layout:', err);
             return undefined;
         }
-    }, [design?.generatedLayout, sourceSite]);
+    }, [design?.generatedLayout, design?.stringing, sourceSite]);
 
     // Sidebars - ensure comments tab is active if we have an initial highlight
     const [activeTab, setActiveTab] = useState<'comments' | 'history' | 'workflow' | 'digitaltwin' | null>('comments');
     const [boqModalOpen, setBOQModalOpen] = useState(false);
     const [yieldModalOpen, setYieldModalOpen] = useState(false);
+    const [yieldCableSchedule, setYieldCableSchedule] = useState<CableScheduleResult | null>(null);
+    const [yieldInverterSizing, setYieldInverterSizing] = useState<InverterSizing | null>(null);
+    const [yieldBifaciality, setYieldBifaciality] = useState<number | null>(null);
+    const [stringingDialogOpen, setStringingDialogOpen] = useState(false);
     const [digitalTwinActive, setDigitalTwinActive] = useState(false);
     const [equipmentCounts, setEquipmentCounts] = useState<EquipmentCounts | null>(null);
 
@@ -91,6 +114,35 @@ export function DesignViewer({ designId, onClose, initialHighlightCommentId, ini
     // AI image generation modal
     const [showImageModal, setShowImageModal] = useState(false);
 
+    // Size the cables of the current layout so the yield uses the computed wiring loss,
+    // the inverters so it includes clipping at the design's DC/AC ratio, and pick up
+    // the module's bifaciality for the rear-side gain
+    const handleOpenYield = useCallback(() => {
+        const parsedData = generatedParsedData ?? pv3DCanvasRef.current?.parsedData;
+        const specs = design ? resolveDesignElectricalSpecs(design, components) : null;
+        if (specs && parsedData) {
+            setYieldCableSchedule(
+                calculateDesignCableSchedule(parsedData, specs.module, specs.inverter, specs.modulesPerString)
+            );
+        } else {
+            setYieldCableSchedule(null);
+        }
+        const dcCapacityKw = design?.generatedLayout?.summary.dcCapacityKw ?? design?.stringing?.dcCapacityKw;
+        setYieldInverterSizing(
+            specs && dcCapacityKw
+                ? sizeInverters(dcCapacityKw, specs.inverter, design?.stringing?.inverterCount)
+                : null
+        );
+        const layoutModule = components.find(
+            (c) => c.type === 'module' && c.id === design?.generatedLayout?.module.componentId
+        );
+        const moduleSpecs = layoutModule?.type === 'module' ? layoutModule.specs : specs?.module;
+        setYieldBifaciality(
+            moduleSpecs?.bifacial && moduleSpecs.bifacialityFactor ? moduleSpecs.bifacialityFactor : null
+        );
+        setYieldModalOpen(true);
+    }, [design, components, generatedParsedData]);
+
     // Handle badge click in 3D view → highlight comment in panel
     const handleBadgeClick = useCallback((elementType: string, elementId: string) => {
         setHighlightedElementKey(`${elementType}:${elementId}`);
@@ -358,11 +410,20 @@ export function DesignViewer({ designId, onClose, initialHighlightCommentId, ini
                             variant={yieldModalOpen ? 'secondary' : 'ghost'}
                             size="sm"
                             className="gap-2"
-                            onClick={() => setYieldModalOpen(true)}
+                            onClick={handleOpenYield}
                         >
                             <Sun className="h-4 w-4" />
                             Yield
                         </Button>
+                        <Button
+                            variant={stringingDialogOpen ? 'secondary' : 'ghost'}
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setStringingDialogOpen(true)}
+                        >
+                            <Cable className="h-4 w-4" />
+                            Strings
+                        </Button>
                         <Button
                             variant={activeTab === 'digitaltwin' ? 'secondary' : 'ghost'}
                             size="sm"
@@ -514,7 +575,24 @@ export function DesignViewer({ designId, onClose, initialHighlightCommentId, ini
                 designName={design.name}
                 gpsCoordinates={design.gpsCoordinates}
                 parsedData={pv3DCanvasRef.current?.parsedData ?? undefined}
+                generatedLayout={design.generatedLayout}
+                site={sourceSite}
+                cableSchedule={yieldCableSchedule}
+                inverterSizing={yieldInverterSizing}
+                bifacialityFactor={yieldBifaciality}
+                maintenanceSchedules={maintenanceSchedules.filter((s) => s.projectId === design.projectId)}
+                performanceLogs={performanceLogs.filter((l) => l.projectId === design.projectId)}
             />
+
+            {/* String Sizing Dialog */}
+            {stringingDialogOpen && (
+                <DesignStringingDialog
+                    open={stringingDialogOpen}
+                    onOpenChange={setStringingDialogOpen}
+                    design={design}
+                    site={sourceSite}
+                />
+            )}
         </div>
     );
 }
@@ -12,10 +12,27 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Sun, MapPin, Gauge, Loader2, Info, Calculator, Zap } from 'lucide-react';
+import { Sun, MapPin, Gauge, Loader2, Info, Calculator, Zap, Cable, Scissors, Layers, CloudRain } from 'lucide-react';
 import type { GPSCoordinates } from '@/lib/types';
+import type { GeneratedLayout } from '@/lib/types/layout';
+import type { BoundingBox, TreeGeometry } from '@/lib/dxf/types';
+import type { Site } from '@/lib/types/site';
+import type { MaintenanceSchedule } from '@/lib/types/maintenance';
+import type { PerformanceLog } from '@/lib/types/performanceLog';
 import type { YieldEstimate } from '@/lib/yield/types';
-import { calculateYield } from '@/lib/yield';
+import type { ShadingAnalysisResult, InverterSizing } from '@/lib/yield';
+import type { CableScheduleResult } from '@/lib/electrical';
+import { useShadingAnalysis } from '@/hooks/useShadingAnalysis';
+import {
+  calculateYield,
+  formatLossBreakdown,
+  bifacialGeometryFromLayout,
+  monthlyEffectiveAlbedo,
+  buildSoilingProfile,
+  cleaningEnergyGain,
+  getOptimalTilt,
+  projectTreesToSite,
+} from '@/lib/yield';
 import { formatYield, getSourceDescription } from '@/lib/yield/yieldCalculator';
 
 interface DesignYieldModalProps {
@@ -29,7 +46,22 @@ interface DesignYieldModalProps {
       tableWidth?: number;
       tableHeight?: number;
     }>;
+    /** DXF trees (drawing frame), placed on the site for shading */
+    trees?: TreeGeometry[];
+    bounds?: BoundingBox;
   };
+  /** Generated layout and its site, used for ray-traced shading losses */
+  generatedLayout?: GeneratedLayout;
+  site?: Site;
+  /** Cable schedule of the layout, replaces the flat wiring loss */
+  cableSchedule?: CableScheduleResult | null;
+  /** Inverters of the design, for clipping at its DC/AC ratio */
+  inverterSizing?: InverterSizing | null;
+  /** Bifaciality of the design's module, for the rear-side gain */
+  bifacialityFactor?: number | null;
+  /** Project maintenance schedules and performance logs, for soiling and snow losses */
+  maintenanceSchedules?: MaintenanceSchedule[];
+  performanceLogs?: PerformanceLog[];
 }
 
 export function DesignYieldModal({
@@ -38,22 +70,35 @@ export function DesignYieldModal({
   designName,
   gpsCoordinates,
   parsedData,
+  generatedLayout,
+  site,
+  cableSchedule,
+  inverterSizing,
+  bifacialityFactor,
+  maintenanceSchedules,
+  performanceLogs,
 }: DesignYieldModalProps) {
   // Form state
   const [latitude, setLatitude] = useState('');
   const [longitude, setLongitude] = useState('');
   const [capacityKwp, setCapacityKwp] = useState('');
   const [tiltAngle, setTiltAngle] = useState('');
+  const [acCapacityKw, setAcCapacityKw] = useState('');
+  const [exportLimitKw, setExportLimitKw] = useState('');
+  const [bifaciality, setBifaciality] = useState('');
 
   // Calculation state
   const [isCalculating, setIsCalculating] = useState(false);
   const [result, setResult] = useState<YieldEstimate | null>(null);
+  const [shading, setShading] = useState<ShadingAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const { status: shadingStatus, progress: shadingProgress, run: runShading } = useShadingAnalysis();
 
   // Auto-fill from design data when dialog opens
   useEffect(() => {
     if (open) {
       setResult(null);
+      setShading(null);
       setError(null);
 
       // Auto-fill GPS coordinates
@@ -87,12 +132,24 @@ export function DesignYieldModal({
         setTiltAngle('');
         setCapacityKwp('');
       }
+
+      // Generated layouts know their DC capacity
+      if (generatedLayout?.summary.dcCapacityKw) {
+        setCapacityKwp(generatedLayout.summary.dcCapacityKw.toFixed(1));
+      }
+      setAcCapacityKw(inverterSizing ? inverterSizing.acCapacityKw.toFixed(1) : '');
+      setExportLimitKw('');
+      setBifaciality(bifacialityFactor ? bifacialityFactor.toString() : '');
     }
-  }, [open, gpsCoordinates, parsedData]);
+  }, [open, gpsCoordinates, parsedData, generatedLayout, inverterSizing, bifacialityFactor]);
 
   const panelCount = parsedData?.panels?.length ?? 0;
   const hasGPS = !!gpsCoordinates;
   const hasTilt = parsedData?.panels?.[0]?.tiltAngle !== undefined;
+  const canAnalyzeShading = !!generatedLayout && !!site?.centroid;
+  // Rear-side gain needs the row geometry of a generated layout
+  const monthlyAlbedo = monthlyEffectiveAlbedo(site?.albedo);
+  const meanAlbedo = monthlyAlbedo.reduce((a, b) => a + b, 0) / 12;
 
   const handleCalculate = async () => {
     setError(null);
@@ -103,6 +160,9 @@ export function DesignYieldModal({
       const lon = parseFloat(longitude);
       const capacity = parseFloat(capacityKwp);
       const tilt = tiltAngle ? parseFloat(tiltAngle) : undefined;
+      const acCapacity = parseFloat(acCapacityKw) > 0 ? parseFloat(acCapacityKw) : undefined;
+      const exportLimit = parseFloat(exportLimitKw) > 0 ? parseFloat(exportLimitKw) : undefined;
+      const bifacialFactor = parseFloat(bifaciality) > 0 ? Math.min(1, parseFloat(bifaciality)) : undefined;
 
       if (isNaN(lat) || isNaN(lon)) {
         throw new Error('Invalid coordinates. Please enter valid latitude and longitude.');
@@ -112,11 +172,44 @@ export function DesignYieldModal({
         throw new Error('Please enter a valid system capacity (kWp).');
       }
 
+      // Ray-traced shading replaces the flat shading loss for generated layouts
+      // (in a worker, large layouts take seconds)
+      let shadingResult: ShadingAnalysisResult | null = null;
+      if (generatedLayout && site?.centroid) {
+        const trees =
+          parsedData?.trees && parsedData.bounds && gpsCoordinates
+            ? projectTreesToSite({ trees: parsedData.trees, bounds: parsedData.bounds }, gpsCoordinates, site)
+            : undefined;
+        shadingResult = await runShading({ layout: generatedLayout, site, trees });
+      }
+      setShading(shadingResult);
+
+      // Monthly soiling and snow from the site climate and the cleaning schedules
+      const soilingProfile = site?.climate
+        ? buildSoilingProfile({
+            climate: site.climate,
+            tiltAngle: tilt ?? getOptimalTilt(lat),
+            tracker: generatedLayout?.tracker,
+            schedules: maintenanceSchedules,
+            performanceLogs,
+          })
+        : undefined;
+
       const calcResult = await calculateYield({
         latitude: lat,
         longitude: lon,
         capacityKwp: capacity,
         tiltAngle: tilt,
+        monthlyShadingLoss: shadingResult?.monthlyLoss,
+        soilingProfile,
+        tracker: generatedLayout?.tracker,
+        wiringLoss: cableSchedule?.wiringLoss,
+        acCapacityKw: acCapacity,
+        exportLimitKw: exportLimit,
+        bifacial: generatedLayout && bifacialFactor
+          ? bifacialGeometryFromLayout(generatedLayout, bifacialFactor)
+          : undefined,
+        monthlyAlbedo,
       });
 
       if (calcResult.success && calcResult.estimate) {
@@ -171,6 +264,42 @@ export function DesignYieldModal({
                 Tilt from design
               </Badge>
             )}
+            {generatedLayout?.tracker && (
+              <Badge variant="secondary" className="gap-1">
+                <Sun className="h-3 w-3" />
+                Single-axis tracker
+              </Badge>
+            )}
+            {canAnalyzeShading && (
+              <Badge variant="secondary" className="gap-1">
+                <Sun className="h-3 w-3" />
+                Shading from layout
+              </Badge>
+            )}
+            {cableSchedule && (
+              <Badge variant="secondary" className="gap-1">
+                <Cable className="h-3 w-3" />
+                Wiring from cable schedule
+              </Badge>
+            )}
+            {inverterSizing && (
+              <Badge variant="secondary" className="gap-1">
+                <Scissors className="h-3 w-3" />
+                {inverterSizing.inverterCount} inverters, DC/AC {inverterSizing.dcAcRatio.toFixed(2)}
+              </Badge>
+            )}
+            {!!bifacialityFactor && (
+              <Badge variant="secondary" className="gap-1">
+                <Layers className="h-3 w-3" />
+                Bifacial module
+              </Badge>
+            )}
+            {site?.climate && (
+              <Badge variant="secondary" className="gap-1">
+                <CloudRain className="h-3 w-3" />
+                Soiling and snow from site climate
+              </Badge>
+            )}
           </div>
 
           {/* Input fields */}
@@ -210,7 +339,9 @@ export function DesignYieldModal({
                 value={capacityKwp}
                 onChange={(e) => setCapacityKwp(e.target.value)}
               />
-              {panelCount > 0 && (
+              {generatedLayout?.summary.dcCapacityKw ? (
+                <p className="text-xs text-muted-foreground">From generated layout</p>
+              ) : panelCount > 0 && (
                 <p className="text-xs text-muted-foreground">
                   Estimated from {panelCount} panels @ 500W
                 </p>
@@ -229,6 +360,62 @@ export function DesignYieldModal({
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="acCapacity">Inverter AC Capacity (kW)</Label>
+              <Input
+                id="acCapacity"
+                type="number"
+                step="0.1"
+                placeholder="No clipping"
+                value={acCapacityKw}
+                onChange={(e) => setAcCapacityKw(e.target.value)}
+              />
+              {parseFloat(acCapacityKw) > 0 && parseFloat(capacityKwp) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  DC/AC ratio {(parseFloat(capacityKwp) / parseFloat(acCapacityKw)).toFixed(2)}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exportLimit">Grid Export Limit (kW)</Label>
+              <Input
+                id="exportLimit"
+                type="number"
+                step="0.1"
+                placeholder="None"
+                value={exportLimitKw}
+                onChange={(e) => setExportLimitKw(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">At the point of interconnection</p>
+            </div>
+          </div>
+
+          {generatedLayout && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bifaciality">Bifaciality Factor (0-1)</Label>
+                <Input
+                  id="bifaciality"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  placeholder="Monofacial"
+                  value={bifaciality}
+                  onChange={(e) => setBifaciality(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Ground Albedo</Label>
+                <div className="h-9 flex items-center text-sm">{meanAlbedo.toFixed(2)} annual mean</div>
+                <p className="text-xs text-muted-foreground">
+                  {site?.albedo ? 'From site, monthly with snow' : 'Default grass (set on the site)'}
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Error message */}
           {error && (
             <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
@@ -293,6 +480,52 @@ export function DesignYieldModal({
                     <div className="font-medium">{result.azimuth}°</div>
                   </div>
                 </div>
+
+                {/* Loss breakdown */}
+                <div className="space-y-1 text-xs">
+                  <div className="text-sm font-medium">
+                    {result.losses.bifacialGain ? 'Losses and gains' : 'Losses'}
+                  </div>
+                  {formatLossBreakdown(result.losses).map((loss) => (
+                    <div key={loss.name} className="flex justify-between">
+                      <span className="text-muted-foreground">{loss.name}</span>
+                      <span>{loss.formatted}</span>
+                    </div>
+                  ))}
+                  {result.trackerGain !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Tracker gain vs fixed tilt</span>
+                      <span>+{result.trackerGain.toFixed(1)}%</span>
+                    </div>
+                  )}
+                  {shading && (
+                    <p className="pt-1 text-muted-foreground">
+                      Shading from layout: {shading.horizonLoss.toFixed(1)}% horizon,{' '}
+                      {shading.nearShadingLoss.toFixed(1)}% near (rows and trees)
+                    </p>
+                  )}
+                  {cableSchedule && (
+                    <p className="pt-1 text-muted-foreground">
+                      Wiring from cable schedule: {cableSchedule.dcLossPercent.toFixed(2)}% DC,{' '}
+                      {cableSchedule.acLossPercent.toFixed(2)}% AC at STC
+                    </p>
+                  )}
+                  {result.soilingProfile && result.soilingProfile.cleaningsPerYear > 0 && (
+                    <p className="pt-1 text-muted-foreground">
+                      Cleaning: {result.soilingProfile.cleaningsPerYear} scheduled/year recover{' '}
+                      {formatYield(cleaningEnergyGain(result))}/year vs rain alone
+                    </p>
+                  )}
+                  {result.clippedEnergy !== undefined && (
+                    <p className="pt-1 text-muted-foreground">
+                      Clipped energy: {formatYield(result.clippedEnergy)}/year at inverters
+                      {result.dcAcRatio !== undefined && ` (DC/AC ${result.dcAcRatio.toFixed(2)})`}
+                      {result.exportLimitedEnergy
+                        ? `, ${formatYield(result.exportLimitedEnergy)}/year at the export limit`
+                        : ''}
+                    </p>
+                  )}
+                </div>
               </div>
             </>
           )}
@@ -306,7 +539,9 @@ export function DesignYieldModal({
             {isCalculating ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Calculating...
+                {shadingStatus === 'running'
+                  ? `Analyzing shading (${shadingProgress.evaluated} / ${shadingProgress.total} frames)...`
+                  : 'Calculating...'}
               </>
             ) : (
               <>
@@ -185,7 +185,7 @@ function EquipmentCommentMarker({
   const height = equipment.height || defaultHeight;
 
   // Apply transformer offset (same as in Equipment3D)
-  const isTransformer = equipment.type === 'transformer';
+  const isTransformer = equipment.type === 'transformer' && !equipment.centered;
   const position: [number, number, number] = [
     equipment.position[0] + (isTransformer ? 4.5 : 0),
     height + 1.5, // Above equipment
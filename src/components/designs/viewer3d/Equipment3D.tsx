@@ -96,7 +96,7 @@ function EquipmentBox({
   // Position: DXF X,Y -> Three.js X,Z (Y negated), height centered
   // Transformers need an offset because their INSERT point is offset from center
   // Based on analysis: transformer INSERT is ~4.5m left and ~7m behind cable connection point
-  const isTransformer = equipment.type === 'transformer';
+  const isTransformer = equipment.type === 'transformer' && !equipment.centered;
   const position: [number, number, number] = [
     equipment.position[0] + (isTransformer ? 4.5 : 0),
     dims.height / 2, // Center height
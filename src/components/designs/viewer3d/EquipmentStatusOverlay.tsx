@@ -137,7 +137,7 @@ function EquipmentStatusIndicator({
     DEFAULT_DIMS.default;
 
   // Position: match Equipment3D positioning
-  const isTransformer = equipment.type === 'transformer';
+  const isTransformer = equipment.type === 'transformer' && !equipment.centered;
   const position: [number, number, number] = [
     equipment.position[0] + (isTransformer ? 4.5 : 0),
     dims.height + 0.5, // Above equipment
@@ -185,6 +185,11 @@ export const PV3DCanvas = forwardRef<PV3DCanvasRef, PV3DCanvasProps>(function PV
   // Sun position (hour of day, 6 = sunrise, 12 = noon, 18 = sunset)
   const [sunTime, setSunTime] = useState(10.5);
   const sunPos = useMemo(() => computeSunPosition(sunTime), [sunTime]);
+  // Plain tuple for tracker rows that follow the sun
+  const sunDirection = useMemo<[number, number, number]>(
+    () => [sunPos.x, sunPos.y, sunPos.z],
+    [sunPos]
+  );
   // Dim the sun as it approaches the horizon (phi = 0 at noon, π/2 at horizon)
   const sunIntensity = useMemo(() => {
     const phi = THREE.MathUtils.degToRad(Math.abs(sunTime - 12) * 15);
@@ -446,6 +451,7 @@ export const PV3DCanvas = forwardRef<PV3DCanvasRef, PV3DCanvasProps>(function PV
             showDigitalTwinMetrics={digitalTwinActive && visibility.digitalTwinMetrics}
             showPerformanceHeatmap={digitalTwinActive && visibility.performanceHeatmap}
             cameraMode={cameraMode}
+            sunDirection={sunDirection}
           />
         )}
 
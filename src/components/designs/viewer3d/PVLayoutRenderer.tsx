@@ -44,6 +44,8 @@ interface PVLayoutRendererProps {
   showPerformanceHeatmap?: boolean;
   // Camera mode (affects how overlays render)
   cameraMode?: '3d' | '2d';
+  // Sun direction in scene coordinates (drives tracker rotation)
+  sunDirection?: [number, number, number];
 }
 
 export function PVLayoutRenderer({
@@ -65,6 +67,7 @@ export function PVLayoutRenderer({
   showDigitalTwinMetrics = false,
   showPerformanceHeatmap = false,
   cameraMode = '3d',
+  sunDirection,
 }: PVLayoutRendererProps) {
   // Center offset to position layout at origin
   const centerOffset = useMemo(() => ({
@@ -84,6 +87,7 @@ export function PVLayoutRenderer({
           onElementSelected={onElementSelected}
           panelFrames={telemetry?.panelFrames}
           showPerformanceColors={showPerformanceHeatmap}
+          sunDirection={sunDirection}
         />
       )}
 
@@ -12,6 +12,7 @@ import { createPanelTexture } from './proceduralTextures';
 import type { PanelGeometry } from '@/lib/dxf/types';
 import type { ElementAnchor } from '@/lib/types';
 import type { PanelFramePerformance, PanelFaultType } from '@/lib/digitaltwin/types';
+import { calculateTrackerRotation } from '@/lib/layout/tracker';
 
 interface PanelInstancesProps {
   panels: PanelGeometry[];
@@ -23,6 +24,8 @@ interface PanelInstancesProps {
   // Digital Twin performance data (individual panel frames)
   panelFrames?: PanelFramePerformance[];
   showPerformanceColors?: boolean;
+  // Sun direction in scene coordinates (x east, y up, z south) - rotates tracker rows
+  sunDirection?: [number, number, number];
 }
 
 // Default panel table dimensions (in meters) - fallback if not in extended data
@@ -46,6 +49,75 @@ const performanceColorCache = new Map<number, Color>();
 // Fault colors (cached)
 const faultColorCache = new Map<PanelFaultType, Color>();
 
+/**
+ * World transform of a panel table.
+ * Fixed tables are tilted about their lower edge; tracker tables rotate about
+ * their centre line (at mountingHeight) to follow the sun.
+ */
+interface TableTransform {
+  tableWidth: number;
+  tableHeight: number;
+  tiltRad: number; // Rotation about the row axis
+  azimuth: number; // Rotation about the vertical axis (radians)
+  centerX: number;
+  centerY: number;
+  centerZ: number;
+}
+
+function getTableTransform(
+  panel: PanelGeometry,
+  sunDirection?: [number, number, number]
+): TableTransform {
+  const tableWidth = panel.tableWidth || DEFAULT_TABLE_WIDTH;
+  const tableHeight = panel.tableHeight || DEFAULT_TABLE_HEIGHT;
+  const mountingHeight = panel.mountingHeight || panel.position[2] || 0.8;
+  const azimuth = panel.rotation; // Already in radians
+
+  let tiltRad: number;
+  let centerHeight: number;
+  let halfDepth: number;
+
+  if (panel.tracker) {
+    // Convert scene direction to compass azimuth / altitude
+    let rotationDeg = 0;
+    if (sunDirection) {
+      const [east, up, south] = sunDirection;
+      const altitude = (Math.asin(Math.max(-1, Math.min(1, up))) * 180) / Math.PI;
+      const sunAzimuth = (Math.atan2(east, -south) * 180) / Math.PI;
+      rotationDeg = calculateTrackerRotation(sunAzimuth, altitude, {
+        axisAzimuth: 0,
+        ...panel.tracker,
+      });
+    }
+    // A positive table tilt lifts the side the row's perpendicular points to,
+    // so flip the sign for rows whose perpendicular points west
+    const sideSign = Math.sign(-Math.sin(azimuth)) || 1;
+    tiltRad = (rotationDeg * sideSign * Math.PI) / 180;
+    centerHeight = mountingHeight;
+    halfDepth = tableHeight / 2;
+  } else {
+    const tiltAngle = panel.tiltAngle || DEFAULT_TILT_ANGLE;
+    tiltRad = (tiltAngle * Math.PI) / 180;
+    centerHeight = mountingHeight + (tableHeight / 2) * Math.sin(tiltRad);
+    halfDepth = (tableHeight / 2) * Math.cos(tiltRad);
+  }
+
+  // Calculate table center position
+  const halfWidth = tableWidth / 2;
+  const offsetX = halfWidth * Math.cos(azimuth) + halfDepth * Math.sin(azimuth);
+  const offsetY = halfWidth * Math.sin(azimuth) - halfDepth * Math.cos(azimuth);
+
+  return {
+    tableWidth,
+    tableHeight,
+    tiltRad,
+    azimuth,
+    centerX: panel.position[0] + offsetX,
+    centerY: centerHeight,
+    centerZ: -(panel.position[1] + offsetY),
+  };
+}
+
 /**
  * Get color based on performance index using HSL interpolation
  * 1.0 = green (excellent), 0.7 = yellow (moderate), 0.5 = red (poor)
@@ -115,6 +187,7 @@ export function PanelInstances({
   onElementSelected,
   panelFrames,
   showPerformanceColors = false,
+  sunDirection,
 }: PanelInstancesProps) {
   const moduleRef = useRef<InstancedMesh>(null);
   const moduleMaterialRef = useRef<MeshStandardMaterial>(null);
@@ -166,6 +239,10 @@ export function PanelInstances({
     return { panelToPerformance: perfMapping, panelToFault: faultMapping };
   }, [panelFrames]);
 
+  // Only tracker layouts need to re-render when the sun moves
+  const hasTrackers = useMemo(() => panels.some((p) => p.tracker), [panels]);
+  const trackerSun = hasTrackers ? sunDirection : undefined;
+
   // Trigger re-render after mount to ensure refs are available
   useEffect(() => {
     setMounted(true);
@@ -187,30 +264,19 @@ export function PanelInstances({
     let moduleIndex = 0;
 
     panels.forEach((panel) => {
-      // Get actual table dimensions from extended data or use defaults
-      const tableWidth = panel.tableWidth || DEFAULT_TABLE_WIDTH;
-      const tableHeight = panel.tableHeight || DEFAULT_TABLE_HEIGHT;
-      const mountingHeight = panel.mountingHeight || panel.position[2] || 0.8;
-      const tiltAngle = panel.tiltAngle || DEFAULT_TILT_ANGLE;
+      // Get actual table dimensions, tilt and world center
+      const {
+        tableWidth,
+        tableHeight,
+        tiltRad,
+        azimuth,
+        centerX: tableCenterX,
+        centerY: tableCenterY,
+        centerZ: tableCenterZ,
+      } = getTableTransform(panel, trackerSun);
       const rows = panel.moduleRows || DEFAULT_MODULE_ROWS;
       const cols = panel.moduleColumns || DEFAULT_MODULE_COLS;
 
-      // Convert tilt angle to radians
-      const tiltRad = (tiltAngle * Math.PI) / 180;
-      const azimuth = panel.rotation; // Already in radians
-
-      // Calculate table center position
-      const centerHeight = mountingHeight + (tableHeight / 2) * Math.sin(tiltRad);
-      const halfWidth = tableWidth / 2;
-      const halfDepth = (tableHeight / 2) * Math.cos(tiltRad);
-      const offsetX = halfWidth * Math.cos(azimuth) + halfDepth * Math.sin(azimuth);
-      const offsetY = halfWidth * Math.sin(azimuth) - halfDepth * Math.cos(azimuth);
-
-      // Table center in world coordinates
-      const tableCenterX = panel.position[0] + offsetX;
-      const tableCenterY = centerHeight;
-      const tableCenterZ = -(panel.position[1] + offsetY);
-
       // Calculate module dimensions with gaps in BOTH directions
       const totalGapWidth = (cols - 1) * MODULE_GAP;
       const totalGapHeight = (rows - 1) * MODULE_GAP;
@@ -252,7 +318,7 @@ export function PanelInstances({
 
     modules.instanceMatrix.needsUpdate = true;
     modules.computeBoundingSphere();
-  }, [panels, tempObject, mounted, totalModules]);
+  }, [panels, tempObject, mounted, totalModules, trackerSun]);
 
   // Apply colors and swap texture map.
   // Using useLayoutEffect to avoid the grey flash when toggling performance colors.
@@ -364,19 +430,19 @@ export function PanelInstances({
       {/* One invisible plane per table casts the aggregate shadow.
           Individual modules have castShadow disabled so shadows come from
           a single correctly-sized table rectangle rather than 24 tiny boxes. */}
-      <TableShadowCasters panels={panels} />
+      <TableShadowCasters panels={panels} sunDirection={trackerSun} />
 
       {/* Table outlines - Line-based for clean rectangles (no diagonals) */}
-      <TableOutlines panels={panels} />
+      <TableOutlines panels={panels} sunDirection={trackerSun} />
 
       {/* Selection highlight */}
       {selectedIndex !== null && selectedIndex !== undefined && panels[selectedIndex] && (
-        <SelectionHighlight panel={panels[selectedIndex]} />
+        <SelectionHighlight panel={panels[selectedIndex]} sunDirection={trackerSun} />
       )}
 
       {/* Hover highlight in comment mode */}
       {elementCommentMode && hoveredIndex !== null && panels[hoveredIndex] && (
-        <HoverHighlight panel={panels[hoveredIndex]} />
+        <HoverHighlight panel={panels[hoveredIndex]} sunDirection={trackerSun} />
       )}
     </group>
   );
@@ -385,27 +451,23 @@ export function PanelInstances({
 /**
  * Selection highlight - Shows a glowing outline around selected panel
  */
-function SelectionHighlight({ panel }: { panel: PanelGeometry }) {
-  const tableWidth = panel.tableWidth || DEFAULT_TABLE_WIDTH;
-  const tableHeight = panel.tableHeight || DEFAULT_TABLE_HEIGHT;
-  const mountingHeight = panel.mountingHeight || panel.position[2] || 0.8;
-  const tiltAngle = panel.tiltAngle || DEFAULT_TILT_ANGLE;
-  const tiltRad = (tiltAngle * Math.PI) / 180;
-  const centerHeight = mountingHeight + (tableHeight / 2) * Math.sin(tiltRad);
-
-  // Calculate the offset to center (same as in the matrix update)
-  const halfWidth = tableWidth / 2;
-  const halfDepth = (tableHeight / 2) * Math.cos(tiltRad);
-  const azimuth = panel.rotation;
-  const offsetX = halfWidth * Math.cos(azimuth) + halfDepth * Math.sin(azimuth);
-  const offsetY = halfWidth * Math.sin(azimuth) - halfDepth * Math.cos(azimuth);
+function SelectionHighlight({
+  panel,
+  sunDirection,
+}: {
+  panel: PanelGeometry;
+  sunDirection?: [number, number, number];
+}) {
+  // Same center and tilt as in the matrix update
+  const { tableWidth, tableHeight, tiltRad, centerX, centerY, centerZ } =
+    getTableTransform(panel, sunDirection);
 
   return (
     <mesh
       position={[
-        panel.position[0] + offsetX,
-        centerHeight + 0.1, // Slightly above panel
-        -(panel.position[1] + offsetY)
+        centerX,
+        centerY + 0.1, // Slightly above panel
+        centerZ,
       ]}
       rotation-order="YXZ"
       rotation={[tiltRad, panel.rotation, 0]}
@@ -429,27 +491,23 @@ function SelectionHighlight({ panel }: { panel: PanelGeometry }) {
 /**
  * Hover highlight - Shows a glow when hovering over panel in comment mode
  */
-function HoverHighlight({ panel }: { panel: PanelGeometry }) {
-  const tableWidth = panel.tableWidth || DEFAULT_TABLE_WIDTH;
-  const tableHeight = panel.tableHeight || DEFAULT_TABLE_HEIGHT;
-  const mountingHeight = panel.mountingHeight || panel.position[2] || 0.8;
-  const tiltAngle = panel.tiltAngle || DEFAULT_TILT_ANGLE;
-  const tiltRad = (tiltAngle * Math.PI) / 180;
-  const centerHeight = mountingHeight + (tableHeight / 2) * Math.sin(tiltRad);
-
-  // Calculate the offset to center (same as in the matrix update)
-  const halfWidth = tableWidth / 2;
-  const halfDepth = (tableHeight / 2) * Math.cos(tiltRad);
-  const azimuth = panel.rotation;
-  const offsetX = halfWidth * Math.cos(azimuth) + halfDepth * Math.sin(azimuth);
-  const offsetY = halfWidth * Math.sin(azimuth) - halfDepth * Math.cos(azimuth);
+function HoverHighlight({
+  panel,
+  sunDirection,
+}: {
+  panel: PanelGeometry;
+  sunDirection?: [number, number, number];
+}) {
+  // Same center and tilt as in the matrix update
+  const { tableWidth, tableHeight, tiltRad, centerX, centerY, centerZ } =
+    getTableTransform(panel, sunDirection);
 
   return (
     <mesh
       position={[
-        panel.position[0] + offsetX,
-        centerHeight + 0.15, // Slightly above panel
-        -(panel.position[1] + offsetY)
+        centerX,
+        centerY + 0.15, // Slightly above panel
+        centerZ,
       ]}
       rotation-order="YXZ"
       rotation={[tiltRad, panel.rotation, 0]}
@@ -489,27 +547,26 @@ function HoverHighlight({ panel }: { panel: PanelGeometry }) {
  *   The InstancedMesh keeps receiveShadow so inter-row shading (front row
  *   casting on the rear row) is still resolved correctly.
  */
-function TableShadowCasters({ panels }: { panels: PanelGeometry[] }) {
+function TableShadowCasters({
+  panels,
+  sunDirection,
+}: {
+  panels: PanelGeometry[];
+  sunDirection?: [number, number, number];
+}) {
   return (
     <group>
       {panels.map((panel, index) => {
-        const tableWidth = panel.tableWidth || DEFAULT_TABLE_WIDTH;
-        const tableHeight = panel.tableHeight || DEFAULT_TABLE_HEIGHT;
-        const mountingHeight = panel.mountingHeight || panel.position[2] || 0.8;
-        const tiltAngle = panel.tiltAngle || DEFAULT_TILT_ANGLE;
-        const tiltRad = (tiltAngle * Math.PI) / 180;
-        const azimuth = panel.rotation;
-
         // Replicate the same table-centre calculation used for modules
-        const centerHeight = mountingHeight + (tableHeight / 2) * Math.sin(tiltRad);
-        const halfWidth = tableWidth / 2;
-        const halfDepth = (tableHeight / 2) * Math.cos(tiltRad);
-        const offsetX = halfWidth * Math.cos(azimuth) + halfDepth * Math.sin(azimuth);
-        const offsetY = halfWidth * Math.sin(azimuth) - halfDepth * Math.cos(azimuth);
-
-        const cx = panel.position[0] + offsetX;
-        const cy = centerHeight;
-        const cz = -(panel.position[1] + offsetY);
+        const {
+          tableWidth,
+          tableHeight,
+          tiltRad,
+          azimuth,
+          centerX: cx,
+          centerY: cy,
+          centerZ: cz,
+        } = getTableTransform(panel, sunDirection);
 
         // PlaneGeometry lies in XY (normal = +Z). Rotating by -PI/2 around X
         // brings the plane into XZ (normal = +Y, i.e. face-up). Adding tiltRad
@@ -540,11 +597,17 @@ function TableShadowCasters({ panels }: { panels: PanelGeometry[] }) {
  * TableOutlines - Renders Line-based outlines for each panel table
  * Uses Line component from @react-three/drei for clean rectangles (no diagonals)
  */
-function TableOutlines({ panels }: { panels: PanelGeometry[] }) {
+function TableOutlines({
+  panels,
+  sunDirection,
+}: {
+  panels: PanelGeometry[];
+  sunDirection?: [number, number, number];
+}) {
   return (
     <group>
       {panels.map((panel, index) => (
-        <TableOutline key={index} panel={panel} />
+        <TableOutline key={index} panel={panel} sunDirection={sunDirection} />
       ))}
     </group>
   );
@@ -553,24 +616,24 @@ function TableOutlines({ panels }: { panels: PanelGeometry[] }) {
 /**
  * TableOutline - Renders a single panel table perimeter using Line
  */
-function TableOutline({ panel }: { panel: PanelGeometry }) {
+function TableOutline({
+  panel,
+  sunDirection,
+}: {
+  panel: PanelGeometry;
+  sunDirection?: [number, number, number];
+}) {
   const points = useMemo(() => {
-    const tableWidth = panel.tableWidth || DEFAULT_TABLE_WIDTH;
-    const tableHeight = panel.tableHeight || DEFAULT_TABLE_HEIGHT;
-    const mountingHeight = panel.mountingHeight || panel.position[2] || 0.8;
-    const tiltAngle = panel.tiltAngle || DEFAULT_TILT_ANGLE;
-    const tiltRad = (tiltAngle * Math.PI) / 180;
-    const azimuth = panel.rotation;
-
     // Calculate center position (same logic as main matrix calculation)
-    const centerHeight = mountingHeight + (tableHeight / 2) * Math.sin(tiltRad);
-    const halfWidth = tableWidth / 2;
-    const halfDepth = (tableHeight / 2) * Math.cos(tiltRad);
-    const offsetX = halfWidth * Math.cos(azimuth) + halfDepth * Math.sin(azimuth);
-    const offsetY = halfWidth * Math.sin(azimuth) - halfDepth * Math.cos(azimuth);
-    const tableCenterX = panel.position[0] + offsetX;
-    const tableCenterY = centerHeight;
-    const tableCenterZ = -(panel.position[1] + offsetY);
+    const {
+      tableWidth,
+      tableHeight,
+      tiltRad,
+      azimuth,
+      centerX: tableCenterX,
+      centerY: tableCenterY,
+      centerZ: tableCenterZ,
+    } = getTableTransform(panel, sunDirection);
 
     // 4 corners in local table coordinates (before tilt/rotation)
     const localCorners: [number, number][] = [
@@ -599,7 +662,7 @@ function TableOutline({ panel }: { panel: PanelGeometry }) {
 
     // Close the rectangle by returning to first point
     return [...worldPoints, worldPoints[0]];
-  }, [panel]);
+  }, [panel, sunDirection]);
 
   return (
     <Line
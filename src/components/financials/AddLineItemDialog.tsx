@@ -10,6 +10,13 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Command,
   CommandEmpty,
@@ -29,6 +36,8 @@ import type { CostLineItem } from '@/lib/types/financial';
 import { CAPEX_FIELDS, getCapexItemCategory } from '@/data/capexFields';
 import { OPEX_FIELDS, getOpexItemCategory } from '@/data/opexFields';
 import { DEFAULT_CAPEX_UNITS, DEFAULT_OPEX_UNITS } from '@/data/defaultUnits';
+import { CURRENCIES } from '@/lib/types/component';
+import { currencySymbol, formatMoney } from '@/lib/currency/fx';
 
 interface AddLineItemDialogProps {
   open: boolean;
@@ -36,6 +45,7 @@ interface AddLineItemDialogProps {
   onAdd: (item: CostLineItem) => void;
   category: string;
   isCapex: boolean;
+  currency: string; // Reporting currency, the default for new items
 }
 
 export function AddLineItemDialog({
@@ -44,12 +54,14 @@ export function AddLineItemDialog({
   onAdd,
   category,
   isCapex,
+  currency,
 }: AddLineItemDialogProps) {
   const [itemName, setItemName] = useState('');
   const [itemUnit, setItemUnit] = useState('');
   const [unitPrice, setUnitPrice] = useState('');
   const [quantity, setQuantity] = useState('');
   const [amount, setAmount] = useState('');
+  const [itemCurrency, setItemCurrency] = useState(currency);
   const [comboboxOpen, setComboboxOpen] = useState(false);
 
   const categorizedFields = isCapex ? CAPEX_FIELDS : OPEX_FIELDS;
@@ -76,9 +88,10 @@ export function AddLineItemDialog({
       setUnitPrice('');
       setQuantity('');
       setAmount('');
+      setItemCurrency(currency);
       setComboboxOpen(false);
     }
-  }, [open]);
+  }, [open, currency]);
 
   // Auto-fill unit when item name changes
   const handleItemNameChange = (name: string) => {
@@ -97,14 +110,7 @@ export function AddLineItemDialog({
     return price * qty;
   }, [isCapex, unitPrice, quantity]);
 
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+  const formatCurrency = (value: number): string => formatMoney(value, itemCurrency);
 
   const handleSubmit = () => {
     if (!itemName.trim()) return;
@@ -132,6 +138,7 @@ export function AddLineItemDialog({
         unit: itemUnit.trim() || undefined,
         unit_price: price,
         quantity: qty,
+        currency: itemCurrency,
       };
     } else {
       const amt = parseFloat(amount);
@@ -151,6 +158,7 @@ export function AddLineItemDialog({
         is_capex: false,
         category: finalCategory,
         unit: itemUnit.trim() || undefined,
+        currency: itemCurrency,
       };
     }
 
@@ -249,11 +257,33 @@ export function AddLineItemDialog({
             />
           </div>
 
+          {/* Currency of the entered amounts */}
+          <div className="grid gap-2">
+            <Label htmlFor="item-currency">Currency</Label>
+            <Select value={itemCurrency} onValueChange={setItemCurrency}>
+              <SelectTrigger id="item-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((c) => (
+                  <SelectItem key={c.value} value={c.value}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {itemCurrency !== currency && (
+              <span className="text-xs text-muted-foreground">
+                Converted to {currency} at the FX table rate
+              </span>
+            )}
+          </div>
+
           {isCapex ? (
             <>
               {/* Price per Item */}
               <div className="grid gap-2">
-                <Label htmlFor="unit-price">Price per Item (€)</Label>
+                <Label htmlFor="unit-price">Price per Item ({currencySymbol(itemCurrency)})</Label>
                 <Input
                   id="unit-price"
                   type="number"
@@ -290,7 +320,7 @@ export function AddLineItemDialog({
           ) : (
             /* OPEX: Just amount */
             <div className="grid gap-2">
-              <Label htmlFor="amount">Annual Amount (€)</Label>
+              <Label htmlFor="amount">Annual Amount ({currencySymbol(itemCurrency)})</Label>
               <Input
                 id="amount"
                 type="number"
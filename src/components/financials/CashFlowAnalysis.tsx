@@ -12,12 +12,14 @@ interface CashFlowAnalysisProps {
   yearlyData: YearlyData;
   monthlyData: MonthlyDataPoint[];
   equityPaybackYears: number | null;
+  currency: string;
 }
 
 export function CashFlowAnalysis({
   yearlyData,
   monthlyData,
   equityPaybackYears,
+  currency,
 }: CashFlowAnalysisProps) {
   const [viewMode, setViewMode] = useState<'yearly' | 'monthly'>('yearly');
 
@@ -47,14 +49,14 @@ export function CashFlowAnalysis({
         {/* Charts Section */}
         <div className="space-y-4">
           <h3 className="text-sm font-medium text-muted-foreground">
-            {viewMode === 'yearly' ? 'Annual' : 'Monthly'} Revenue & Costs
+            {viewMode === 'yearly' ? 'Annual' : 'Monthly'} Revenue & Costs ({currency})
           </h3>
           <RevenueChart yearlyData={yearlyData} viewMode={viewMode} monthlyData={monthlyData} />
         </div>
 
         <div className="space-y-4">
           <h3 className="text-sm font-medium text-muted-foreground">
-            Cumulative Free Cash Flow
+            Cumulative Free Cash Flow ({currency})
           </h3>
           <CumulativeFCFChart
             yearlyData={yearlyData}
@@ -67,7 +69,7 @@ export function CashFlowAnalysis({
         {/* Tables Section */}
         <div className="space-y-4">
           <h3 className="text-sm font-medium text-muted-foreground">
-            {viewMode === 'yearly' ? 'Yearly' : 'Monthly'} Projections
+            {viewMode === 'yearly' ? 'Yearly' : 'Monthly'} Projections ({currency})
           </h3>
           {viewMode === 'yearly' ? (
             <YearlyDataTable yearlyData={yearlyData} />
@@ -11,13 +11,16 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { FileDown, Loader2 } from 'lucide-react';
-import type { ProjectResults } from '@/lib/types/financial';
+import type { FinancialInputs, ProjectResults } from '@/lib/types/financial';
 import { downloadFinancialReport, type PDFExportOptions } from '@/lib/pdf/financialReport';
+import { runSensitivityAnalysis, type SensitivitySettings } from '@/lib/calculator/sensitivity';
 
 interface ExportPDFDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   results: ProjectResults;
+  inputs?: FinancialInputs;                   // Needed for the sensitivity section
+  sensitivitySettings?: SensitivitySettings;
   globalMargin: number;
   projectName?: string;
 }
@@ -26,6 +29,8 @@ export function ExportPDFDialog({
   open,
   onOpenChange,
   results,
+  inputs,
+  sensitivitySettings,
   globalMargin,
   projectName,
 }: ExportPDFDialogProps) {
@@ -36,6 +41,8 @@ export function ExportPDFDialog({
     includeYearlyTable: true,
     includeMonthlyView: false,
   });
+  const [includeSensitivity, setIncludeSensitivity] = useState(true);
+  const canIncludeSensitivity = !!inputs && !!sensitivitySettings;
 
   const handleOptionChange = (key: keyof PDFExportOptions, value: boolean) => {
     setOptions((prev) => ({ ...prev, [key]: value }));
@@ -48,7 +55,12 @@ export function ExportPDFDialog({
         ? `PV_Finance_${projectName.replace(/\s+/g, '_')}_${new Date().toISOString().slice(0, 10)}.pdf`
         : undefined;
 
-      await downloadFinancialReport(results, options, globalMargin, filename);
+      const sensitivity =
+        includeSensitivity && inputs && sensitivitySettings
+          ? runSensitivityAnalysis(inputs, sensitivitySettings)
+          : undefined;
+
+      await downloadFinancialReport(results, { ...options, sensitivity }, globalMargin, filename);
       onOpenChange(false);
     } catch (error) {
       console.error('Failed to export PDF:', error);
@@ -122,6 +134,19 @@ export function ExportPDFDialog({
                 Use Monthly View (instead of Yearly)
               </Label>
             </div>
+
+            {canIncludeSensitivity && (
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="sensitivity"
+                  checked={includeSensitivity}
+                  onCheckedChange={(checked) => setIncludeSensitivity(checked === true)}
+                />
+                <Label htmlFor="sensitivity" className="cursor-pointer">
+                  Sensitivity Tornado & Two-Way Tables
+                </Label>
+              </div>
+            )}
           </div>
 
           <p className="text-sm text-muted-foreground">
@@ -1,20 +1,65 @@
 import { useState } from 'react';
 import { useFinancialStore } from '@/stores/financialStore';
-import type { FinancialInputs, CostLineItem } from '@/lib/types/financial';
-import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type {
+  FinancialInputs,
+  CostLineItem,
+  DebtTerms,
+  DebtRepaymentProfile,
+  DrawdownCurve,
+  ExceedanceLevel,
+  YieldUncertainty,
+  TaxTerms,
+  DepreciationMethod,
+  TaxCreditType,
+  PartnershipFlipTerms,
+  RevenueContract,
+  RevenueStack,
+  CostEvent,
+  CostEventRecurrence,
+  DecommissioningTerms,
+  DegradationCurve,
+  DegradationProfile,
+  PowerWarranty,
+} from '@/lib/types/financial';
+import {
+  DEFAULT_DEBT_TERMS,
+  DEFAULT_DEGRADATION_PROFILE,
+  DEFAULT_FINANCIAL_INPUTS,
+  DEFAULT_PARTNERSHIP_FLIP,
+  DEFAULT_TAX_TERMS,
+  DEFAULT_YIELD_UNCERTAINTY,
+} from '@/lib/types/financial';
+import { EXCEEDANCE_LEVELS } from '@/lib/calculator/uncertainty';
+import { createRevenueStack, dailyProductionProfile, hourlyShapeFactor } from '@/lib/calculator/revenue';
+import { calculateCleaningValue } from '@/lib/calculator/cleaningValue';
+import { checkPowerWarranty, degradationProfileFromSpecs, LETID_YEARS } from '@/lib/calculator/degradation';
+import { useComponentStore } from '@/stores/componentStore';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { HelpCircle, RotateCcw, MapPin, X } from 'lucide-react';
+import { HelpCircle, RotateCcw, MapPin, X, Plus, Trash2, ArrowLeftRight } from 'lucide-react';
 import { LineItemsManager } from './LineItemsManager';
+import { FxRatesDialog } from './FxRatesDialog';
+import { CURRENCIES } from '@/lib/types/component';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import { currencySymbol } from '@/lib/currency/fx';
+import { usePermission } from '@/hooks/usePermission';
 import { YieldCalculatorDialog } from './YieldCalculatorDialog';
 import { formatYield } from '@/lib/yield';
 
@@ -73,9 +118,62 @@ function FormField({ label, hint, tooltip, value, onChange, step = '1', min, max
   );
 }
 
+interface NumberListFieldProps {
+  label: string;
+  tooltip: string;
+  values: number[] | undefined;
+  length?: number; // Required number of values (any length if not set)
+  onChange: (values: number[] | undefined) => void;
+}
+
+/**
+ * Comma-separated list of numbers; cleared when empty, ignored when the
+ * length does not match
+ */
+function NumberListField({ label, tooltip, values, length, onChange }: NumberListFieldProps) {
+  const text = values?.join(', ') ?? '';
+
+  const handleBlur = (value: string) => {
+    if (value.trim() === '') {
+      onChange(undefined);
+      return;
+    }
+    const parsed = value.split(',').map((v) => parseFloat(v.trim()));
+    if (parsed.some((v) => isNaN(v)) || (length !== undefined && parsed.length !== length)) return;
+    onChange(parsed);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Label className="text-sm font-medium">{label}</Label>
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              <p className="text-sm">{tooltip}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </div>
+      <Input
+        key={text}
+        defaultValue={text}
+        placeholder={length ? `${length} comma-separated values` : 'Comma-separated values'}
+        onBlur={(e) => handleBlur(e.target.value)}
+      />
+    </div>
+  );
+}
+
 export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, isCalculating }: FinancialInputFormProps) {
   const updateInputs = useFinancialStore((state) => state.updateInputs);
   const clearYieldEstimate = useFinancialStore((state) => state.clearYieldEstimate);
+  const refreshFxRates = useFinancialStore((state) => state.refreshFxRates);
+  const canUpdateFinancials = usePermission('financials', 'update');
+  const modules = useComponentStore((state) => state.components).filter((c) => c.type === 'module');
 
   // Determine if line items mode is enabled based on whether there are items
   const [lineItemsEnabled, setLineItemsEnabled] = useState(
@@ -84,13 +182,149 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
 
   // Yield calculator dialog state
   const [yieldDialogOpen, setYieldDialogOpen] = useState(false);
+  const [fxDialogOpen, setFxDialogOpen] = useState(false);
+
+  const currency = inputs.currency ?? DEFAULT_CURRENCY;
+  const symbol = currencySymbol(currency);
+  const foreignItems = [...inputs.capex_items, ...inputs.opex_items].filter((item) => item.fx);
+  const missingFx = foreignItems.filter((item) => item.fx?.missing).length;
+  const cleaningValue = calculateCleaningValue(inputs);
 
   const handleChange = (field: keyof FinancialInputs, value: number) => {
     updateInputs(modelId, { [field]: value });
   };
 
+  const uncertainty = inputs.yield_uncertainty ?? DEFAULT_YIELD_UNCERTAINTY;
+
+  const handleUncertaintyChange = (field: keyof YieldUncertainty, value: number) => {
+    updateInputs(modelId, { yield_uncertainty: { ...uncertainty, [field]: value } });
+  };
+
+  const degradationProfile = inputs.degradation_profile;
+  const warrantyCheck = checkPowerWarranty(inputs);
+  const claimYears = warrantyCheck.filter((y) => y.claim);
+  const maxShortfall = Math.max(0, ...claimYears.map((y) => y.warrantedPower - y.expectedPower));
+
+  const handleDegradationChange = <K extends keyof DegradationProfile>(field: K, value: DegradationProfile[K]) => {
+    if (!degradationProfile) return;
+    updateInputs(modelId, { degradation_profile: { ...degradationProfile, [field]: value } });
+  };
+
+  const handleWarrantyChange = (field: keyof PowerWarranty, value: number) => {
+    const warranty = degradationProfile?.warranty;
+    if (!warranty) return;
+    handleDegradationChange('warranty', { ...warranty, [field]: value });
+  };
+
+  const handleApplyModule = (componentId: string) => {
+    const module = modules.find((c) => c.id === componentId);
+    if (!module || module.type !== 'module') return;
+    const { profile, rate } = degradationProfileFromSpecs(
+      module.specs,
+      `${module.manufacturer} ${module.model}`,
+      degradationProfile
+    );
+    updateInputs(modelId, {
+      degradation_profile: profile,
+      ...(rate !== undefined && { degradation_rate: rate }),
+    });
+  };
+
+  const debtTerms = inputs.debt_terms ?? DEFAULT_DEBT_TERMS;
+
+  const handleDebtTermsChange = <K extends keyof DebtTerms>(field: K, value: DebtTerms[K]) => {
+    updateInputs(modelId, { debt_terms: { ...debtTerms, [field]: value } });
+  };
+
+  const taxTerms = inputs.tax_terms;
+
+  const handleTaxTermsChange = <K extends keyof TaxTerms>(field: K, value: TaxTerms[K]) => {
+    updateInputs(modelId, { tax_terms: { ...(taxTerms ?? DEFAULT_TAX_TERMS), [field]: value } });
+  };
+
+  const flipTerms = taxTerms?.partnership_flip;
+
+  const handleFlipChange = (field: keyof PartnershipFlipTerms, value: number) => {
+    handleTaxTermsChange('partnership_flip', { ...(flipTerms ?? DEFAULT_PARTNERSHIP_FLIP), [field]: value });
+  };
+
+  const revenueStack = inputs.revenue_stack;
+
+  const handleRevenueStackChange = <K extends keyof RevenueStack>(field: K, value: RevenueStack[K]) => {
+    if (!revenueStack) return;
+    updateInputs(modelId, { revenue_stack: { ...revenueStack, [field]: value } });
+  };
+
+  const handleContractChange = <K extends keyof RevenueContract>(id: string, field: K, value: RevenueContract[K]) => {
+    if (!revenueStack) return;
+    handleRevenueStackChange(
+      'contracts',
+      revenueStack.contracts.map((c) => (c.id === id ? { ...c, [field]: value } : c))
+    );
+  };
+
+  const handleAddContract = () => {
+    if (!revenueStack) return;
+    const contracted = revenueStack.contracts.reduce((sum, c) => sum + c.share, 0);
+    handleRevenueStackChange('contracts', [
+      ...revenueStack.contracts,
+      {
+        id: crypto.randomUUID(),
+        name: `Contract ${revenueStack.contracts.length + 1}`,
+        share: Math.max(0, 1 - contracted),
+        price: inputs.ppa_price,
+        escalation: 0,
+        start_year: 1,
+        term_years: 10,
+      },
+    ]);
+  };
+
+  const costEvents = inputs.cost_events ?? [];
+
+  const handleCostEventChange = <K extends keyof CostEvent>(id: string, field: K, value: CostEvent[K]) => {
+    updateInputs(modelId, {
+      cost_events: costEvents.map((e) => (e.id === id ? { ...e, [field]: value } : e)),
+    });
+  };
+
+  const handleAddCostEvent = () => {
+    updateInputs(modelId, {
+      cost_events: [
+        ...costEvents,
+        {
+          id: crypto.randomUUID(),
+          name: 'Inverter replacement',
+          amount: 0,
+          recurrence: 'once',
+          year: Math.min(13, inputs.project_lifetime),
+          interval_years: 10,
+        },
+      ],
+    });
+  };
+
+  const handleDecommissioningChange = (field: keyof DecommissioningTerms, value: number) => {
+    const current = inputs.decommissioning ?? { cost: 0, salvage_value: 0 };
+    const next = { ...current, [field]: value };
+    updateInputs(modelId, { decommissioning: next.cost === 0 && next.salvage_value === 0 ? undefined : next });
+  };
+
+  const costReserve = inputs.cost_reserve;
+
   const handleReset = () => {
-    updateInputs(modelId, DEFAULT_FINANCIAL_INPUTS);
+    updateInputs(modelId, {
+      ...DEFAULT_FINANCIAL_INPUTS,
+      yield_uncertainty: undefined,
+      debt_sizing_case: undefined,
+      debt_terms: undefined,
+      tax_terms: undefined,
+      revenue_stack: undefined,
+      cost_events: undefined,
+      decommissioning: undefined,
+      cost_reserve: undefined,
+      degradation_profile: undefined,
+    });
     setLineItemsEnabled(false);
   };
 
@@ -187,10 +421,16 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
               <div className="flex items-center gap-2">
                 <Badge variant="secondary" className="text-xs gap-1">
                   <MapPin className="h-3 w-3" />
-                  {inputs.yieldEstimate.source === 'pvgis' ? 'PVGIS' : 'Estimated'}
+                  {inputs.yieldEstimate.source === 'pvgis'
+                    ? 'PVGIS'
+                    : inputs.yieldEstimate.source === 'tmy'
+                      ? 'Hourly (TMY)'
+                      : 'Estimated'}
                 </Badge>
                 <span className="text-xs text-muted-foreground">
                   {formatYield(inputs.yieldEstimate.annualYield)} • PR {(inputs.yieldEstimate.performanceRatio * 100).toFixed(0)}%
+                  {inputs.yieldEstimate.losses.bifacialGain !== undefined &&
+                    ` • Bifacial +${inputs.yieldEstimate.losses.bifacialGain.toFixed(1)}%`}
                 </span>
                 <Button
                   variant="ghost"
@@ -202,10 +442,29 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
                 </Button>
               </div>
             )}
+            {/* Energy recovered by the cleaning schedules against the cleaning O&M */}
+            {cleaningValue && cleaningValue.cleaningsPerYear > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {cleaningValue.cleaningsPerYear} cleanings/year recover{' '}
+                {cleaningValue.recoveredMwh.toLocaleString(undefined, { maximumFractionDigits: 0 })} MWh
+                ({symbol}{cleaningValue.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}) in year 1
+                {cleaningValue.cost > 0 ? (
+                  <>
+                    {' '}vs {symbol}{cleaningValue.cost.toLocaleString(undefined, { maximumFractionDigits: 0 })} panel cleaning O&M:{' '}
+                    <span className={cleaningValue.net >= 0 ? 'text-green-600' : 'text-destructive'}>
+                      {cleaningValue.net >= 0 ? '+' : '-'}{symbol}
+                      {Math.abs(cleaningValue.net).toLocaleString(undefined, { maximumFractionDigits: 0 })} net
+                    </span>
+                  </>
+                ) : (
+                  ' (no panel cleaning O&M item)'
+                )}
+              </p>
+            )}
           </div>
           <FormField
             label="PPA Price"
-            hint="/MWh"
+            hint={`${symbol}/MWh`}
             tooltip="Power Purchase Agreement price - the contracted price per MWh for electricity sold."
             value={inputs.ppa_price}
             onChange={(v) => handleChange('ppa_price', v)}
@@ -235,6 +494,55 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
               />
             </>
           )}
+          {/* Reporting currency: foreign-currency costs convert at pinned FX rates */}
+          <div className="space-y-2">
+            <Label htmlFor="reporting-currency" className="text-sm font-medium">Reporting Currency</Label>
+            <div className="flex gap-2">
+              <Select
+                value={currency}
+                onValueChange={(value) => updateInputs(modelId, { currency: value })}
+              >
+                <SelectTrigger id="reporting-currency" className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" onClick={() => setFxDialogOpen(true)}>
+                      <ArrowLeftRight className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="text-sm">FX rates</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+            {foreignItems.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className={`text-xs ${missingFx > 0 ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                  {foreignItems.length} item(s) in other currencies
+                  {missingFx > 0 && `, ${missingFx} without an FX rate`}
+                </span>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => refreshFxRates(modelId)}
+                >
+                  Update FX rates
+                </Button>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -249,6 +557,7 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
         globalMargin={inputs.global_margin}
         onGlobalMarginChange={handleGlobalMarginChange}
         capacity={inputs.capacity}
+        currency={currency}
       />
 
       {/* Technical Parameters */}
@@ -261,7 +570,7 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
           <FormField
             label="Degradation Rate"
             hint="/year"
-            tooltip="Annual rate of production decline due to panel aging. Typical value: 0.004 (0.4% per year)."
+            tooltip="Annual rate of production decline due to panel aging, from year 2 with a degradation profile. Typical value: 0.004 (0.4% per year)."
             value={inputs.degradation_rate}
             onChange={(v) => handleChange('degradation_rate', v)}
             step="0.001"
@@ -271,6 +580,199 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
         </CardContent>
       </Card>
 
+      {/* Module Degradation */}
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle className="text-base">Module Degradation</CardTitle>
+            <CardDescription>
+              LID, LeTID and a linear or nonlinear ageing curve, checked against the module&apos;s
+              power warranty. When off, energy declines geometrically at the degradation rate.
+            </CardDescription>
+          </div>
+          <Switch
+            checked={degradationProfile !== undefined}
+            onCheckedChange={(checked) =>
+              updateInputs(modelId, { degradation_profile: checked ? DEFAULT_DEGRADATION_PROFILE : undefined })
+            }
+          />
+        </CardHeader>
+        {degradationProfile && (
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Module Datasheet</Label>
+                <Select value="" onValueChange={handleApplyModule} disabled={modules.length === 0}>
+                  <SelectTrigger>
+                    <SelectValue
+                      placeholder={
+                        degradationProfile.module_name ??
+                        (modules.length === 0 ? 'No modules in library' : 'Apply from module...')
+                      }
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {modules.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.manufacturer} {c.model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <FormField
+                label="LID"
+                hint="ratio"
+                tooltip="Light-induced degradation in the first days of operation. Typical value: 0.01-0.02 for PERC, under 0.005 for n-type."
+                value={degradationProfile.lid}
+                onChange={(v) => handleDegradationChange('lid', v)}
+                step="0.001"
+                min={0}
+                max={0.1}
+              />
+              <FormField
+                label="LeTID"
+                hint="ratio"
+                tooltip={`Light and elevated temperature induced degradation, reached over the first ${LETID_YEARS} operating years. Typical value: 0-0.02.`}
+                value={degradationProfile.letid}
+                onChange={(v) => handleDegradationChange('letid', v)}
+                step="0.001"
+                min={0}
+                max={0.1}
+              />
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Ageing Curve</Label>
+                <Select
+                  value={degradationProfile.curve}
+                  onValueChange={(v) => handleDegradationChange('curve', v as DegradationCurve)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="linear">Linear (constant rate)</SelectItem>
+                    <SelectItem value="nonlinear">Nonlinear (accelerating)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {degradationProfile.curve === 'nonlinear' && (
+                <FormField
+                  label="Rate Acceleration"
+                  hint="/year"
+                  tooltip="Growth of the annual degradation rate every year. For example, 0.03 means a 0.4% rate becomes 0.8% after about 24 years."
+                  value={degradationProfile.rate_acceleration}
+                  onChange={(v) => handleDegradationChange('rate_acceleration', v)}
+                  step="0.005"
+                  min={0}
+                  max={0.5}
+                />
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={degradationProfile.warranty !== undefined}
+                  onCheckedChange={(checked) =>
+                    handleDegradationChange(
+                      'warranty',
+                      checked ? { first_year_power: 0.98, annual_decline: 0.0055, years: 25 } : undefined
+                    )
+                  }
+                />
+                <Label className="text-sm font-medium">Linear Power Warranty</Label>
+              </div>
+              {degradationProfile.warranty && (
+                <>
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    <FormField
+                      label="Year 1 Power"
+                      hint="ratio"
+                      tooltip="Guaranteed share of nameplate power at the end of the first year. For example, 0.98 means at most 2% loss."
+                      value={degradationProfile.warranty.first_year_power}
+                      onChange={(v) => handleWarrantyChange('first_year_power', v)}
+                      step="0.005"
+                      min={0}
+                      max={1}
+                    />
+                    <FormField
+                      label="Annual Decline"
+                      hint="/year"
+                      tooltip="Guaranteed maximum power loss per year after the first year. Typical value: 0.004-0.0055."
+                      value={degradationProfile.warranty.annual_decline}
+                      onChange={(v) => handleWarrantyChange('annual_decline', v)}
+                      step="0.0005"
+                      min={0}
+                      max={0.05}
+                    />
+                    <FormField
+                      label="Warranty Term"
+                      hint="years"
+                      value={degradationProfile.warranty.years}
+                      onChange={(v) => handleWarrantyChange('years', v)}
+                      min={1}
+                      max={50}
+                    />
+                  </div>
+                  {claimYears.length > 0 ? (
+                    <p className="text-sm text-amber-600">
+                      Warranty claim in {claimYears.length} of {warrantyCheck.length} years, from year{' '}
+                      {claimYears[0].year}: expected power up to {(maxShortfall * 100).toFixed(1)}% below the
+                      warranty.
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Expected power stays above the warranty for all {warrantyCheck.length} years of its
+                      term within the project lifetime.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Yield Uncertainty */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-base">Yield Uncertainty</CardTitle>
+          <CardDescription>Standard deviations for P-value cases and Monte Carlo simulation</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          <FormField
+            label="Inter-annual Variability"
+            hint="σ"
+            tooltip="Year-to-year variation of the solar resource as a fraction of P50. Averages out over longer periods. Typical value: 0.03-0.05."
+            value={uncertainty.interannual_variability}
+            onChange={(v) => handleUncertaintyChange('interannual_variability', v)}
+            step="0.005"
+            min={0}
+            max={0.5}
+          />
+          <FormField
+            label="Model Uncertainty"
+            hint="σ"
+            tooltip="Long-term resource data, simulation model and loss assumptions combined, as a fraction of P50. Does not average out. Typical value: 0.04-0.07."
+            value={uncertainty.model_uncertainty}
+            onChange={(v) => handleUncertaintyChange('model_uncertainty', v)}
+            step="0.005"
+            min={0}
+            max={0.5}
+          />
+          <FormField
+            label="Degradation Uncertainty"
+            hint="σ/year"
+            tooltip="Uncertainty of the annual degradation rate. For example, 0.001 means the rate is 0.4% ± 0.1% per year."
+            value={uncertainty.degradation_uncertainty}
+            onChange={(v) => handleUncertaintyChange('degradation_uncertainty', v)}
+            step="0.0005"
+            min={0}
+            max={0.05}
+          />
+        </CardContent>
+      </Card>
+
       {/* Economic Parameters */}
       <Card>
         <CardHeader className="pb-4">
@@ -301,6 +803,392 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
         </CardContent>
       </Card>
 
+      {/* Revenue Stack */}
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle className="text-base">Revenue Stack</CardTitle>
+            <CardDescription>
+              Offtake contracts, merchant tail, curtailment, capacity and REC revenues. When off, all
+              energy is sold at the PPA price for the whole lifetime.
+            </CardDescription>
+          </div>
+          <Switch
+            checked={revenueStack !== undefined}
+            onCheckedChange={(checked) =>
+              updateInputs(modelId, { revenue_stack: checked ? createRevenueStack(inputs) : undefined })
+            }
+          />
+        </CardHeader>
+        {revenueStack && (
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Contracts</Label>
+                <Button variant="outline" size="sm" onClick={handleAddContract}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Contract
+                </Button>
+              </div>
+              {revenueStack.contracts.length === 0 && (
+                <p className="text-sm text-muted-foreground">No contracts: all energy is sold merchant.</p>
+              )}
+              {revenueStack.contracts.map((contract) => (
+                <div key={contract.id} className="grid gap-2 grid-cols-2 md:grid-cols-7 items-end rounded-md border p-3">
+                  <div className="space-y-1 col-span-2 md:col-span-2">
+                    <Label className="text-xs text-muted-foreground">Name</Label>
+                    <Input
+                      value={contract.name}
+                      onChange={(e) => handleContractChange(contract.id, 'name', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Share</Label>
+                    <Input
+                      type="number"
+                      step="0.05"
+                      min={0}
+                      max={1}
+                      value={contract.share}
+                      onChange={(e) => handleContractChange(contract.id, 'share', parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Price /MWh</Label>
+                    <Input
+                      type="number"
+                      step="0.5"
+                      min={0}
+                      value={contract.price}
+                      onChange={(e) => handleContractChange(contract.id, 'price', parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Escalation</Label>
+                    <Input
+                      type="number"
+                      step="0.005"
+                      value={contract.escalation}
+                      onChange={(e) => handleContractChange(contract.id, 'escalation', parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Start / Term (years)</Label>
+                    <div className="flex gap-1">
+                      <Input
+                        type="number"
+                        step="1"
+                        min={1}
+                        value={contract.start_year}
+                        onChange={(e) => handleContractChange(contract.id, 'start_year', parseInt(e.target.value) || 1)}
+                      />
+                      <Input
+                        type="number"
+                        step="1"
+                        min={0}
+                        value={contract.term_years}
+                        onChange={(e) => handleContractChange(contract.id, 'term_years', parseInt(e.target.value) || 0)}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        handleRevenueStackChange(
+                          'contracts',
+                          revenueStack.contracts.filter((c) => c.id !== contract.id)
+                        )
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <FormField
+                label="Merchant Price"
+                hint="/MWh"
+                tooltip="Baseload wholesale price in year 1 for energy not under contract."
+                value={revenueStack.merchant_price}
+                onChange={(v) => handleRevenueStackChange('merchant_price', v)}
+                step="0.5"
+                min={0}
+              />
+              <FormField
+                label="Merchant Escalation"
+                hint="/year"
+                tooltip="Annual change in the merchant price, or beyond the end of the price curve when one is entered."
+                value={revenueStack.merchant_escalation}
+                onChange={(v) => handleRevenueStackChange('merchant_escalation', v)}
+                step="0.005"
+                min={-0.1}
+                max={0.1}
+              />
+              <FormField
+                label="Capture Discount"
+                hint=""
+                tooltip="Discount of the solar capture price to the baseload price. For example, 0.1 means solar sells at 90% of baseload."
+                value={revenueStack.capture_discount}
+                onChange={(v) => handleRevenueStackChange('capture_discount', v)}
+                step="0.01"
+                min={0}
+                max={1}
+              />
+              <FormField
+                label="Curtailment"
+                hint=""
+                tooltip="Share of energy curtailed and not sold. For example, 0.02 means 2%."
+                value={revenueStack.curtailment}
+                onChange={(v) => handleRevenueStackChange('curtailment', v)}
+                step="0.005"
+                min={0}
+                max={1}
+              />
+              <FormField
+                label="Capacity Payment"
+                hint="/MW/yr"
+                tooltip="Capacity market or availability revenue per MW per year."
+                value={revenueStack.capacity_payment}
+                onChange={(v) => handleRevenueStackChange('capacity_payment', v)}
+                step="100"
+                min={0}
+              />
+              <FormField
+                label="Capacity Period"
+                hint="years"
+                tooltip="Operating years that earn the capacity payment."
+                value={revenueStack.capacity_years}
+                onChange={(v) => handleRevenueStackChange('capacity_years', v)}
+                step="1"
+                min={0}
+                max={50}
+              />
+              <FormField
+                label="REC Price"
+                hint="/MWh"
+                tooltip="Renewable energy certificate or guarantee of origin price per MWh sold."
+                value={revenueStack.rec_price}
+                onChange={(v) => handleRevenueStackChange('rec_price', v)}
+                step="0.5"
+                min={0}
+              />
+              <FormField
+                label="REC Escalation"
+                hint="/year"
+                tooltip="Annual change in the REC price."
+                value={revenueStack.rec_escalation}
+                onChange={(v) => handleRevenueStackChange('rec_escalation', v)}
+                step="0.005"
+                min={-0.1}
+                max={0.1}
+              />
+              <FormField
+                label="REC Period"
+                hint="years"
+                tooltip="Operating years that earn RECs."
+                value={revenueStack.rec_years}
+                onChange={(v) => handleRevenueStackChange('rec_years', v)}
+                step="1"
+                min={0}
+                max={50}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <NumberListField
+                label="Merchant Price Curve"
+                tooltip="Optional baseload price per MWh for each operating year, starting in year 1. Replaces the merchant price; escalation applies after its last year."
+                values={revenueStack.merchant_price_curve}
+                onChange={(v) => handleRevenueStackChange('merchant_price_curve', v)}
+              />
+              <NumberListField
+                label="Hourly Price Shape"
+                tooltip="Optional 24 hourly prices relative to the daily average (midnight first). The solar-weighted average further discounts the capture price."
+                values={revenueStack.hourly_price_shape}
+                length={24}
+                onChange={(v) => handleRevenueStackChange('hourly_price_shape', v)}
+              />
+              <NumberListField
+                label="Monthly Capture Discounts"
+                tooltip="Optional 12 capture discounts, January first. Replace the annual capture discount."
+                values={revenueStack.monthly_capture_discounts}
+                length={12}
+                onChange={(v) => handleRevenueStackChange('monthly_capture_discounts', v)}
+              />
+              <NumberListField
+                label="Monthly Curtailment"
+                tooltip="Optional 12 curtailment shares, January first. Replace the annual curtailment."
+                values={revenueStack.monthly_curtailment}
+                length={12}
+                onChange={(v) => handleRevenueStackChange('monthly_curtailment', v)}
+              />
+            </div>
+            {revenueStack.hourly_price_shape && (
+              <p className="text-sm text-muted-foreground">
+                Hourly shape capture factor: {(hourlyShapeFactor(revenueStack.hourly_price_shape, dailyProductionProfile(inputs)) * 100).toFixed(1)}% of
+                the average price
+              </p>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Scheduled Costs & Reserves */}
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle className="text-base">Scheduled Costs &amp; Reserves</CardTitle>
+            <CardDescription>
+              Replacements, major maintenance and decommissioning in year-1 money, escalated with O&amp;M
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleAddCostEvent}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Cost Event
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {costEvents.map((event) => (
+            <div key={event.id} className="grid gap-2 grid-cols-2 md:grid-cols-6 items-end rounded-md border p-3">
+              <div className="space-y-1 col-span-2">
+                <Label className="text-xs text-muted-foreground">Name</Label>
+                <Input
+                  value={event.name}
+                  onChange={(e) => handleCostEventChange(event.id, 'name', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Amount</Label>
+                <Input
+                  type="number"
+                  step="1000"
+                  min={0}
+                  value={event.amount}
+                  onChange={(e) => handleCostEventChange(event.id, 'amount', parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Recurrence</Label>
+                <Select
+                  value={event.recurrence}
+                  onValueChange={(v) => handleCostEventChange(event.id, 'recurrence', v as CostEventRecurrence)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="once">Once</SelectItem>
+                    <SelectItem value="periodic">Every K years</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">
+                  {event.recurrence === 'periodic' ? 'First Year / Every' : 'Year'}
+                </Label>
+                <div className="flex gap-1">
+                  <Input
+                    type="number"
+                    step="1"
+                    min={1}
+                    value={event.year}
+                    onChange={(e) => handleCostEventChange(event.id, 'year', parseInt(e.target.value) || 1)}
+                  />
+                  {event.recurrence === 'periodic' && (
+                    <Input
+                      type="number"
+                      step="1"
+                      min={1}
+                      value={event.interval_years}
+                      onChange={(e) => handleCostEventChange(event.id, 'interval_years', parseInt(e.target.value) || 1)}
+                    />
+                  )}
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    updateInputs(modelId, { cost_events: costEvents.filter((e) => e.id !== event.id) })
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            <FormField
+              label="Decommissioning Cost"
+              hint=""
+              tooltip="End-of-life removal and site restoration cost in year-1 money, incurred in the final operating year."
+              value={inputs.decommissioning?.cost ?? 0}
+              onChange={(v) => handleDecommissioningChange('cost', v)}
+              step="1000"
+              min={0}
+            />
+            <FormField
+              label="Salvage Value"
+              hint=""
+              tooltip="Value recovered from equipment at end of life, netted against the decommissioning cost."
+              value={inputs.decommissioning?.salvage_value ?? 0}
+              onChange={(v) => handleDecommissioningChange('salvage_value', v)}
+              step="1000"
+              min={0}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <Label>Maintenance Reserve Account</Label>
+                <p className="text-sm text-muted-foreground">
+                  Pre-fund each scheduled cost from CFADS in the years before it falls due
+                </p>
+              </div>
+              <Switch
+                checked={costReserve !== undefined}
+                onCheckedChange={(checked) =>
+                  updateInputs(modelId, {
+                    cost_reserve: checked ? { funding_years: 5, include_decommissioning: true } : undefined,
+                  })
+                }
+              />
+            </div>
+            {costReserve && (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                <FormField
+                  label="Funding Period"
+                  hint="years"
+                  tooltip="Years before each cost over which the reserve is built up in equal contributions."
+                  value={costReserve.funding_years}
+                  onChange={(v) => updateInputs(modelId, { cost_reserve: { ...costReserve, funding_years: v } })}
+                  step="1"
+                  min={1}
+                  max={20}
+                />
+                <div className="flex items-center justify-between gap-2 pt-7">
+                  <Label className="text-sm font-medium">Reserve for decommissioning</Label>
+                  <Switch
+                    checked={costReserve.include_decommissioning}
+                    onCheckedChange={(checked) =>
+                      updateInputs(modelId, { cost_reserve: { ...costReserve, include_decommissioning: checked } })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Financing Parameters */}
       <Card>
         <CardHeader className="pb-4">
@@ -347,6 +1235,129 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
             step="0.01"
             min={1}
           />
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-sm font-medium">Debt Sizing Case</Label>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-xs">
+                    <p className="text-sm">Yield case the DSCR constraint is sized on. Lenders typically use the 1-year P90 or P99 yield.</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+            <Select
+              value={inputs.debt_sizing_case ?? 'P50'}
+              onValueChange={(v) => updateInputs(modelId, { debt_sizing_case: v as ExceedanceLevel })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXCEEDANCE_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {level} (1-year)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Debt Terms */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-base">Debt Terms</CardTitle>
+          <CardDescription>Repayment profile, construction financing and reserves</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Repayment Profile</Label>
+            <Select
+              value={debtTerms.repayment_profile}
+              onValueChange={(v) => handleDebtTermsChange('repayment_profile', v as DebtRepaymentProfile)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="annuity">Annuity (level payments)</SelectItem>
+                <SelectItem value="sculpted">Sculpted to target DSCR</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <FormField
+            label="Grace Period"
+            hint="years"
+            tooltip="Interest-only years after commercial operation before principal repayment starts. Counted within the debt tenor."
+            value={debtTerms.grace_period_years}
+            onChange={(v) => handleDebtTermsChange('grace_period_years', v)}
+            step="1"
+            min={0}
+            max={10}
+          />
+          <FormField
+            label="DSRA"
+            hint="months"
+            tooltip="Debt service reserve account sized as months of next year's debt service. Funded at COD and released as the debt amortises. Typical value: 6 months."
+            value={debtTerms.dsra_months}
+            onChange={(v) => handleDebtTermsChange('dsra_months', v)}
+            step="1"
+            min={0}
+            max={12}
+          />
+          <FormField
+            label="Construction Period"
+            hint="months"
+            tooltip="Months between financial close and COD. Interest on drawn debt is capitalised (IDC) into the funding requirement. 0 means debt is drawn at COD."
+            value={debtTerms.construction_months}
+            onChange={(v) => handleDebtTermsChange('construction_months', v)}
+            step="1"
+            min={0}
+            max={48}
+          />
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">CAPEX Drawdown</Label>
+            <Select
+              value={debtTerms.drawdown_curve}
+              onValueChange={(v) => handleDebtTermsChange('drawdown_curve', v as DrawdownCurve)}
+              disabled={debtTerms.construction_months <= 0}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="s_curve">S-curve</SelectItem>
+                <SelectItem value="linear">Linear</SelectItem>
+                <SelectItem value="front_loaded">Front-loaded</SelectItem>
+                <SelectItem value="back_loaded">Back-loaded</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <FormField
+            label="Upfront Fee"
+            hint=""
+            tooltip="Arrangement fee paid at financial close as a fraction of the debt. For example, 0.015 means 1.5%."
+            value={debtTerms.upfront_fee}
+            onChange={(v) => handleDebtTermsChange('upfront_fee', v)}
+            step="0.001"
+            min={0}
+            max={0.1}
+          />
+          <FormField
+            label="Commitment Fee"
+            hint="/year"
+            tooltip="Annual fee on the undrawn debt during construction. For example, 0.005 means 0.5% per year."
+            value={debtTerms.commitment_fee}
+            onChange={(v) => handleDebtTermsChange('commitment_fee', v)}
+            step="0.001"
+            min={0}
+            max={0.05}
+          />
         </CardContent>
       </Card>
 
@@ -390,6 +1401,238 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
         </CardContent>
       </Card>
 
+      {/* Tax & Incentives */}
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle className="text-base">Tax &amp; Incentives</CardTitle>
+            <CardDescription>
+              Tax depreciation, ITC/PTC credits, loss carry-forward and tax equity. When off, tax is
+              charged on EBITDA at the tax rate.
+            </CardDescription>
+          </div>
+          <Switch
+            checked={taxTerms !== undefined}
+            onCheckedChange={(checked) =>
+              updateInputs(modelId, { tax_terms: checked ? DEFAULT_TAX_TERMS : undefined })
+            }
+          />
+        </CardHeader>
+        {taxTerms && (
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Depreciation</Label>
+                <Select
+                  value={taxTerms.depreciation_method}
+                  onValueChange={(v) => handleTaxTermsChange('depreciation_method', v as DepreciationMethod)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="macrs_5">MACRS 5-year</SelectItem>
+                    <SelectItem value="straight_line">Straight-line</SelectItem>
+                    <SelectItem value="none">None</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <FormField
+                label="Straight-line Period"
+                hint="years"
+                tooltip="Recovery period when depreciating straight-line."
+                value={taxTerms.straight_line_years}
+                onChange={(v) => handleTaxTermsChange('straight_line_years', v)}
+                step="1"
+                min={1}
+                max={40}
+              />
+              <FormField
+                label="Bonus Depreciation"
+                hint=""
+                tooltip="Fraction of the depreciable basis expensed in year 1; the rest follows the selected method. For example, 0.6 means 60%."
+                value={taxTerms.bonus_depreciation}
+                onChange={(v) => handleTaxTermsChange('bonus_depreciation', v)}
+                step="0.1"
+                min={0}
+                max={1}
+              />
+              <FormField
+                label="Eligible Share of CAPEX"
+                hint=""
+                tooltip="Fraction of CAPEX that is depreciable and qualifies for the ITC (excludes land, interconnection etc.). Typical value: 0.95."
+                value={taxTerms.depreciable_share}
+                onChange={(v) => handleTaxTermsChange('depreciable_share', v)}
+                step="0.01"
+                min={0}
+                max={1}
+              />
+              <FormField
+                label="NOL Utilisation Limit"
+                hint=""
+                tooltip="Maximum share of a year's taxable income that carried-forward losses can offset. US federal: 0.8."
+                value={taxTerms.nol_utilisation_limit}
+                onChange={(v) => handleTaxTermsChange('nol_utilisation_limit', v)}
+                step="0.05"
+                min={0}
+                max={1}
+              />
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-sm font-medium">Carry losses forward</Label>
+                  <Switch
+                    checked={taxTerms.nol_carryforward}
+                    onCheckedChange={(checked) => handleTaxTermsChange('nol_carryforward', checked)}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-sm font-medium">Deduct interest</Label>
+                  <Switch
+                    checked={taxTerms.interest_deductible}
+                    onCheckedChange={(checked) => handleTaxTermsChange('interest_deductible', checked)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Tax Credit</Label>
+                <Select
+                  value={taxTerms.tax_credit}
+                  onValueChange={(v) => handleTaxTermsChange('tax_credit', v as TaxCreditType)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="itc">Investment Tax Credit (ITC)</SelectItem>
+                    <SelectItem value="ptc">Production Tax Credit (PTC)</SelectItem>
+                    <SelectItem value="none">None</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {taxTerms.tax_credit === 'itc' && (
+                <FormField
+                  label="ITC Rate"
+                  hint=""
+                  tooltip="Credit as a fraction of the eligible basis, claimed in year 1. The depreciable basis is reduced by half the credit. For example, 0.3 means 30%."
+                  value={taxTerms.itc_rate}
+                  onChange={(v) => handleTaxTermsChange('itc_rate', v)}
+                  step="0.01"
+                  min={0}
+                  max={1}
+                />
+              )}
+              {taxTerms.tax_credit === 'ptc' && (
+                <>
+                  <FormField
+                    label="PTC Rate"
+                    hint="/MWh"
+                    tooltip="Credit per MWh generated in year 1."
+                    value={taxTerms.ptc_rate}
+                    onChange={(v) => handleTaxTermsChange('ptc_rate', v)}
+                    step="0.5"
+                    min={0}
+                  />
+                  <FormField
+                    label="PTC Escalation"
+                    hint="/year"
+                    tooltip="Annual inflation adjustment of the PTC rate. For example, 0.02 means 2% per year."
+                    value={taxTerms.ptc_escalation}
+                    onChange={(v) => handleTaxTermsChange('ptc_escalation', v)}
+                    step="0.005"
+                    min={0}
+                    max={0.1}
+                  />
+                  <FormField
+                    label="PTC Period"
+                    hint="years"
+                    tooltip="Number of operating years the PTC is earned. US federal: 10 years."
+                    value={taxTerms.ptc_years}
+                    onChange={(v) => handleTaxTermsChange('ptc_years', v)}
+                    step="1"
+                    min={0}
+                    max={30}
+                  />
+                </>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <Label>Partnership Flip</Label>
+                  <p className="text-sm text-muted-foreground">
+                    A tax equity investor takes most tax benefits until the flip year
+                  </p>
+                </div>
+                <Switch
+                  checked={flipTerms !== undefined}
+                  onCheckedChange={(checked) =>
+                    handleTaxTermsChange('partnership_flip', checked ? DEFAULT_PARTNERSHIP_FLIP : undefined)
+                  }
+                />
+              </div>
+              {flipTerms && (
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  <FormField
+                    label="Tax Equity Investment"
+                    hint=""
+                    tooltip="Tax equity investor's share of the equity contributed at COD. For example, 0.4 means 40%."
+                    value={flipTerms.investment_share}
+                    onChange={(v) => handleFlipChange('investment_share', v)}
+                    step="0.05"
+                    min={0}
+                    max={1}
+                  />
+                  <FormField
+                    label="Flip Year"
+                    hint="year"
+                    tooltip="Last operating year with pre-flip allocations."
+                    value={flipTerms.flip_year}
+                    onChange={(v) => handleFlipChange('flip_year', v)}
+                    step="1"
+                    min={1}
+                    max={30}
+                  />
+                  <FormField
+                    label="Pre-flip Tax Allocation"
+                    hint=""
+                    tooltip="Tax equity share of taxable income, losses and credits before the flip. Typical value: 0.99."
+                    value={flipTerms.pre_flip_tax_allocation}
+                    onChange={(v) => handleFlipChange('pre_flip_tax_allocation', v)}
+                    step="0.01"
+                    min={0}
+                    max={1}
+                  />
+                  <FormField
+                    label="Pre-flip Cash Allocation"
+                    hint=""
+                    tooltip="Tax equity share of distributable cash before the flip."
+                    value={flipTerms.pre_flip_cash_allocation}
+                    onChange={(v) => handleFlipChange('pre_flip_cash_allocation', v)}
+                    step="0.05"
+                    min={0}
+                    max={1}
+                  />
+                  <FormField
+                    label="Post-flip Allocation"
+                    hint=""
+                    tooltip="Tax equity share of tax items and cash after the flip. Typical value: 0.05."
+                    value={flipTerms.post_flip_allocation}
+                    onChange={(v) => handleFlipChange('post_flip_allocation', v)}
+                    step="0.01"
+                    min={0}
+                    max={1}
+                  />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
       {/* Actions */}
       <div className="flex gap-3">
         {onCalculate && (
@@ -410,6 +1653,8 @@ export function FinancialInputForm({ modelId, projectId, inputs, onCalculate, is
         modelId={modelId}
         projectId={projectId}
       />
+
+      <FxRatesDialog open={fxDialogOpen} onOpenChange={setFxDialogOpen} canEdit={canUpdateFinancials} />
     </div>
   );
 }
@@ -3,21 +3,26 @@ import { Badge } from '@/components/ui/badge';
 import { KeyMetricsCard } from './KeyMetricsCard';
 import { FinancingStructureCard } from './FinancingStructureCard';
 import { CashFlowAnalysis } from './CashFlowAnalysis';
-import type { ProjectResults } from '@/lib/types/financial';
+import { YieldRiskAnalysis } from './YieldRiskAnalysis';
+import type { FinancialInputs, ProjectResults } from '@/lib/types/financial';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import { currencySymbol } from '@/lib/currency/fx';
 import { CheckCircle2, AlertTriangle, XCircle, Zap } from 'lucide-react';
 
 interface FinancialResultsProps {
   results: ProjectResults;
+  inputs?: FinancialInputs; // Enables the yield risk (Monte Carlo) section
 }
 
-function formatCurrency(value: number): string {
+function formatCurrency(value: number, currency: string): string {
+  const symbol = currencySymbol(currency);
   if (Math.abs(value) >= 1_000_000) {
-    return `${(value / 1_000_000).toFixed(2)}M`;
+    return `${symbol}${(value / 1_000_000).toFixed(2)}M`;
   }
   if (Math.abs(value) >= 1_000) {
-    return `${(value / 1_000).toFixed(0)}k`;
+    return `${symbol}${(value / 1_000).toFixed(0)}k`;
   }
-  return value.toFixed(0);
+  return `${symbol}${value.toFixed(0)}`;
 }
 
 function getAssessmentIcon(assessment: string) {
@@ -40,8 +45,9 @@ function getAssessmentVariant(assessment: string): 'default' | 'secondary' | 'de
   return 'destructive';
 }
 
-export function FinancialResults({ results }: FinancialResultsProps) {
+export function FinancialResults({ results, inputs }: FinancialResultsProps) {
   const { project_summary, first_year_operations, assessment } = results;
+  const currency = results.currency ?? DEFAULT_CURRENCY;
 
   return (
     <div className="space-y-6">
@@ -100,11 +106,11 @@ export function FinancialResults({ results }: FinancialResultsProps) {
             </div>
             <div className="text-center p-3 rounded-lg bg-muted/50">
               <p className="text-xs text-muted-foreground">Total CapEx</p>
-              <p className="font-semibold">{formatCurrency(project_summary.total_capex)}</p>
+              <p className="font-semibold">{formatCurrency(project_summary.total_capex, currency)}</p>
             </div>
             <div className="text-center p-3 rounded-lg bg-muted/50">
               <p className="text-xs text-muted-foreground">CapEx/MW</p>
-              <p className="font-semibold">{formatCurrency(project_summary.capex_per_mw)}</p>
+              <p className="font-semibold">{formatCurrency(project_summary.capex_per_mw, currency)}</p>
             </div>
           </div>
         </CardContent>
@@ -123,31 +129,32 @@ export function FinancialResults({ results }: FinancialResultsProps) {
             </div>
             <div className="text-center p-3 rounded-lg bg-muted/50">
               <p className="text-xs text-muted-foreground">Revenue</p>
-              <p className="font-semibold text-green-600">{formatCurrency(first_year_operations.revenue)}</p>
+              <p className="font-semibold text-green-600">{formatCurrency(first_year_operations.revenue, currency)}</p>
             </div>
             <div className="text-center p-3 rounded-lg bg-muted/50">
               <p className="text-xs text-muted-foreground">O&M Costs</p>
-              <p className="font-semibold text-red-600">{formatCurrency(first_year_operations.om_costs)}</p>
+              <p className="font-semibold text-red-600">{formatCurrency(first_year_operations.om_costs, currency)}</p>
             </div>
             <div className="text-center p-3 rounded-lg bg-muted/50">
               <p className="text-xs text-muted-foreground">EBITDA</p>
-              <p className="font-semibold">{formatCurrency(first_year_operations.ebitda)}</p>
+              <p className="font-semibold">{formatCurrency(first_year_operations.ebitda, currency)}</p>
             </div>
             <div className="text-center p-3 rounded-lg bg-muted/50">
               <p className="text-xs text-muted-foreground">CFADS</p>
-              <p className="font-semibold">{formatCurrency(first_year_operations.cfads)}</p>
+              <p className="font-semibold">{formatCurrency(first_year_operations.cfads, currency)}</p>
             </div>
           </div>
         </CardContent>
       </Card>
 
       {/* Key Metrics */}
-      <KeyMetricsCard metrics={results.key_metrics} />
+      <KeyMetricsCard metrics={results.key_metrics} currency={currency} />
 
       {/* Financing Structure */}
       <FinancingStructureCard
         structure={results.financing_structure}
         summary={results.project_summary}
+        currency={currency}
       />
 
       {/* Cash Flow Analysis (Charts + Tables with unified toggle) */}
@@ -156,8 +163,12 @@ export function FinancialResults({ results }: FinancialResultsProps) {
           yearlyData={results.yearly_data}
           monthlyData={results.monthly_data}
           equityPaybackYears={results.key_metrics.equity_payback_years}
+          currency={currency}
         />
       )}
+
+      {/* Yield Risk (exceedance yields + Monte Carlo) */}
+      {inputs && <YieldRiskAnalysis inputs={inputs} />}
     </div>
   );
 }
@@ -1,30 +1,35 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import type { FinancingStructure, ProjectSummary } from '@/lib/types/financial';
+import { currencySymbol } from '@/lib/currency/fx';
 import { Building2, Percent, Calendar, AlertCircle } from 'lucide-react';
 
 interface FinancingStructureCardProps {
   structure: FinancingStructure;
   summary: ProjectSummary;
+  currency: string;
 }
 
-function formatCurrency(value: number): string {
+function formatCurrency(value: number, currency: string): string {
+  const symbol = currencySymbol(currency);
   if (Math.abs(value) >= 1_000_000) {
-    return `${(value / 1_000_000).toFixed(2)}M`;
+    return `${symbol}${(value / 1_000_000).toFixed(2)}M`;
   }
   if (Math.abs(value) >= 1_000) {
-    return `${(value / 1_000).toFixed(0)}k`;
+    return `${symbol}${(value / 1_000).toFixed(0)}k`;
   }
-  return value.toFixed(0);
+  return `${symbol}${value.toFixed(0)}`;
 }
 
 function formatPercent(value: number): string {
   return `${(value * 100).toFixed(1)}%`;
 }
 
-export function FinancingStructureCard({ structure, summary }: FinancingStructureCardProps) {
+export function FinancingStructureCard({ structure, summary, currency }: FinancingStructureCardProps) {
   const debtPercent = structure.actual_gearing * 100;
   const equityPercent = (1 - structure.actual_gearing) * 100;
+  const financingCosts = (structure.idc ?? 0) + (structure.financing_fees ?? 0) + (structure.dsra_initial_balance ?? 0);
+  const isSculpted = structure.repayment_profile === 'sculpted';
 
   return (
     <Card>
@@ -43,8 +48,13 @@ export function FinancingStructureCard({ structure, summary }: FinancingStructur
         {/* Capital Structure Bar */}
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
-            <span>Total CapEx: {formatCurrency(summary.total_capex)}</span>
-            <span className="text-muted-foreground">{formatCurrency(summary.capex_per_mw)}/MW</span>
+            <span>
+              Total CapEx: {formatCurrency(summary.total_capex, currency)}
+              {financingCosts > 0 && structure.total_funding !== undefined && (
+                <span className="text-muted-foreground"> (funding {formatCurrency(structure.total_funding, currency)})</span>
+              )}
+            </span>
+            <span className="text-muted-foreground">{formatCurrency(summary.capex_per_mw, currency)}/MW</span>
           </div>
           <div className="h-8 rounded-lg overflow-hidden flex">
             <div
@@ -61,8 +71,8 @@ export function FinancingStructureCard({ structure, summary }: FinancingStructur
             </div>
           </div>
           <div className="flex justify-between text-sm text-muted-foreground">
-            <span>Debt: {formatCurrency(structure.final_debt)}</span>
-            <span>Equity: {formatCurrency(structure.equity)}</span>
+            <span>Debt: {formatCurrency(structure.final_debt, currency)}</span>
+            <span>Equity: {formatCurrency(structure.equity, currency)}</span>
           </div>
         </div>
 
@@ -74,15 +84,17 @@ export function FinancingStructureCard({ structure, summary }: FinancingStructur
           </h4>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div className={`p-3 rounded-lg ${structure.binding_constraint === 'DSCR' ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'}`}>
-              <p className="text-muted-foreground">Max by DSCR</p>
-              <p className="font-semibold">{formatCurrency(structure.max_debt_by_dscr)}</p>
+              <p className="text-muted-foreground">
+                Max by DSCR{structure.debt_sizing_case && ` (${structure.debt_sizing_case} yield)`}
+              </p>
+              <p className="font-semibold">{formatCurrency(structure.max_debt_by_dscr, currency)}</p>
               {structure.binding_constraint === 'DSCR' && (
                 <Badge variant="outline" className="mt-1 text-xs">Binding</Badge>
               )}
             </div>
             <div className={`p-3 rounded-lg ${structure.binding_constraint === 'Gearing' ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'}`}>
               <p className="text-muted-foreground">Max by Gearing</p>
-              <p className="font-semibold">{formatCurrency(structure.max_debt_by_gearing)}</p>
+              <p className="font-semibold">{formatCurrency(structure.max_debt_by_gearing, currency)}</p>
               {structure.binding_constraint === 'Gearing' && (
                 <Badge variant="outline" className="mt-1 text-xs">Binding</Badge>
               )}
@@ -90,6 +102,26 @@ export function FinancingStructureCard({ structure, summary }: FinancingStructur
           </div>
         </div>
 
+        {/* Financing Costs (construction interest, fees, reserve) */}
+        {financingCosts > 0 && (
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-muted-foreground">
+                IDC{structure.construction_months ? ` (${structure.construction_months} mo build)` : ''}
+              </p>
+              <p className="font-semibold">{formatCurrency(structure.idc ?? 0, currency)}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-muted-foreground">Financing Fees</p>
+              <p className="font-semibold">{formatCurrency(structure.financing_fees ?? 0, currency)}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-muted/50">
+              <p className="text-muted-foreground">Initial DSRA</p>
+              <p className="font-semibold">{formatCurrency(structure.dsra_initial_balance ?? 0, currency)}</p>
+            </div>
+          </div>
+        )}
+
         {/* Debt Terms */}
         <div className="grid grid-cols-3 gap-4">
           <div className="text-center p-3 rounded-lg bg-muted/50">
@@ -101,11 +133,17 @@ export function FinancingStructureCard({ structure, summary }: FinancingStructur
             <Calendar className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
             <p className="text-xs text-muted-foreground">Debt Tenor</p>
             <p className="font-semibold">{structure.debt_tenor} years</p>
+            {(isSculpted || (structure.grace_period_years ?? 0) > 0) && (
+              <p className="text-xs text-muted-foreground">
+                {isSculpted ? 'Sculpted' : 'Annuity'}
+                {(structure.grace_period_years ?? 0) > 0 && `, ${structure.grace_period_years}y grace`}
+              </p>
+            )}
           </div>
           <div className="text-center p-3 rounded-lg bg-muted/50">
             <Building2 className="h-4 w-4 mx-auto mb-1 text-muted-foreground" />
-            <p className="text-xs text-muted-foreground">Annual DS</p>
-            <p className="font-semibold">{formatCurrency(structure.annual_debt_service)}</p>
+            <p className="text-xs text-muted-foreground">{isSculpted ? 'Avg Annual DS' : 'Annual DS'}</p>
+            <p className="font-semibold">{formatCurrency(structure.annual_debt_service, currency)}</p>
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Plus, Trash2 } from 'lucide-react';
+import { useFxStore } from '@/stores/fxStore';
+import { CURRENCIES } from '@/lib/types/component';
+
+interface FxRatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+}
+
+function CurrencySelect({ id, value, onChange }: { id: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.map((c) => (
+          <SelectItem key={c.value} value={c.value}>
+            {c.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Maintain the FX rate table shared by all financial models
+ */
+export function FxRatesDialog({ open, onOpenChange, canEdit }: FxRatesDialogProps) {
+  const rates = useFxStore((state) => state.rates);
+  const addRate = useFxStore((state) => state.addRate);
+  const deleteRate = useFxStore((state) => state.deleteRate);
+
+  const [from, setFrom] = useState('USD');
+  const [to, setTo] = useState('EUR');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [notes, setNotes] = useState('');
+
+  const sortedRates = [...rates].sort(
+    (a, b) =>
+      `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`) ||
+      b.effectiveDate.localeCompare(a.effectiveDate)
+  );
+
+  const parsedRate = parseFloat(rate);
+  const isValid = from !== to && parsedRate > 0 && effectiveDate !== '';
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    const id = addRate({ from, to, rate: parsedRate, effectiveDate, notes: notes.trim() || undefined });
+    if (id) {
+      setRate('');
+      setNotes('');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px]">
+        <DialogHeader>
+          <DialogTitle>FX Rates</DialogTitle>
+          <DialogDescription>
+            Each rate applies from its effective date until a later one supersedes it. Inverse and
+            cross rates are derived automatically. Models keep the rates pinned on their cost items
+            until you update them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[260px] rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pair</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-sm text-muted-foreground py-8">
+                    No FX rates yet. Amounts in other currencies are converted 1:1.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedRates.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell className="font-medium">
+                      {r.from}/{r.to}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{r.rate.toFixed(4)}</TableCell>
+                    <TableCell>{r.effectiveDate}</TableCell>
+                    <TableCell className="text-muted-foreground text-sm truncate max-w-[160px]" title={r.notes}>
+                      {r.notes || '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => deleteRate(r.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        {canEdit && (
+          <div className="grid gap-3 sm:grid-cols-5 items-end">
+            <div className="grid gap-2">
+              <Label htmlFor="fx-from">From</Label>
+              <CurrencySelect id="fx-from" value={from} onChange={setFrom} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="fx-to">To</Label>
+              <CurrencySelect id="fx-to" value={to} onChange={setTo} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="fx-rate">Rate</Label>
+              <Input
+                id="fx-rate"
+                type="number"
+                min="0"
+                step="0.0001"
+                placeholder={`${to} per ${from}`}
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="fx-date">Effective</Label>
+              <Input
+                id="fx-date"
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={!isValid} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+            <div className="grid gap-2 sm:col-span-5">
+              <Input
+                placeholder="Notes (optional), e.g. ECB reference rate"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,11 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import type { KeyMetrics } from '@/lib/types/financial';
+import { currencySymbol } from '@/lib/currency/fx';
 import { TrendingUp, TrendingDown, DollarSign, Clock, Activity } from 'lucide-react';
 
 interface KeyMetricsCardProps {
   metrics: KeyMetrics;
+  currency: string;
 }
 
 interface MetricItemProps {
@@ -41,14 +43,15 @@ function formatPercent(value: number): string {
   return `${(value * 100).toFixed(2)}%`;
 }
 
-function formatCurrency(value: number): string {
+function formatCurrency(value: number, currency: string): string {
+  const symbol = currencySymbol(currency);
   if (Math.abs(value) >= 1_000_000) {
-    return `${(value / 1_000_000).toFixed(2)}M`;
+    return `${symbol}${(value / 1_000_000).toFixed(2)}M`;
   }
   if (Math.abs(value) >= 1_000) {
-    return `${(value / 1_000).toFixed(0)}k`;
+    return `${symbol}${(value / 1_000).toFixed(0)}k`;
   }
-  return value.toFixed(0);
+  return `${symbol}${value.toFixed(0)}`;
 }
 
 function formatYears(value: number | null): string {
@@ -68,7 +71,7 @@ function getDSCRStatus(dscr: number): 'positive' | 'neutral' | 'negative' {
   return 'negative';
 }
 
-export function KeyMetricsCard({ metrics }: KeyMetricsCardProps) {
+export function KeyMetricsCard({ metrics, currency }: KeyMetricsCardProps) {
   return (
     <Card>
       <CardHeader className="pb-4">
@@ -87,12 +90,20 @@ export function KeyMetricsCard({ metrics }: KeyMetricsCardProps) {
             status={getIRRStatus(metrics.project_irr, 0.08)}
           />
           <MetricItem
-            label="Equity IRR"
+            label={metrics.tax_equity_irr !== undefined ? 'Sponsor Equity IRR' : 'Equity IRR'}
             value={formatPercent(metrics.equity_irr)}
             subValue="Target: >12%"
             icon={<TrendingUp className="h-4 w-4 text-blue-500" />}
             status={getIRRStatus(metrics.equity_irr, 0.12)}
           />
+          {metrics.tax_equity_irr !== undefined && (
+            <MetricItem
+              label="Tax Equity IRR"
+              value={formatPercent(metrics.tax_equity_irr)}
+              subValue="Partnership flip investor"
+              icon={<TrendingUp className="h-4 w-4 text-purple-500" />}
+            />
+          )}
           <MetricItem
             label="LCOE"
             value={`${metrics.lcoe.toFixed(2)} /MWh`}
@@ -115,7 +126,7 @@ export function KeyMetricsCard({ metrics }: KeyMetricsCardProps) {
           />
           <MetricItem
             label="Project NPV"
-            value={formatCurrency(metrics.project_npv)}
+            value={formatCurrency(metrics.project_npv, currency)}
             icon={metrics.project_npv >= 0 ?
               <TrendingUp className="h-4 w-4 text-green-500" /> :
               <TrendingDown className="h-4 w-4 text-red-500" />
@@ -40,6 +40,7 @@ import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { ChevronDown, ChevronRight, Plus, Trash2, Sparkles, Package, FolderPlus, X } from 'lucide-react';
 import type { CostLineItem } from '@/lib/types/financial';
 import { AddLineItemDialog } from './AddLineItemDialog';
+import { formatMoney, reportingAmount } from '@/lib/currency/fx';
 import { generateCapexItems, generateOpexItems } from '@/lib/calculator/designGenerator';
 import { CAPEX_FIELDS } from '@/data/capexFields';
 import { OPEX_FIELDS } from '@/data/opexFields';
@@ -54,6 +55,7 @@ interface LineItemsManagerProps {
   globalMargin: number;
   onGlobalMarginChange: (margin: number) => void;
   capacity: number;
+  currency: string; // Reporting currency of the model
 }
 
 export function LineItemsManager({
@@ -66,6 +68,7 @@ export function LineItemsManager({
   globalMargin,
   onGlobalMarginChange,
   capacity,
+  currency,
 }: LineItemsManagerProps) {
   const [activeTab, setActiveTab] = useState<'capex' | 'opex'>('capex');
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
@@ -118,9 +121,9 @@ export function LineItemsManager({
     });
   }, [predefinedCategoryOrder, customCategories, groupedItems]);
 
-  // Calculate item total with margin (CAPEX only)
+  // Calculate item total with margin (CAPEX only), in the reporting currency
   const calculateItemTotal = (item: CostLineItem): number => {
-    const subtotal = item.amount;
+    const subtotal = reportingAmount(item);
     if (!item.is_capex) return subtotal;
     const marginPercent = item.margin_percent ?? globalMargin;
     return subtotal * (1 + marginPercent / 100);
@@ -128,23 +131,25 @@ export function LineItemsManager({
 
   // Calculate totals
   const capexTotals = useMemo(() => {
-    const beforeMargin = capexItems.reduce((sum, item) => sum + item.amount, 0);
+    const beforeMargin = capexItems.reduce((sum, item) => sum + reportingAmount(item), 0);
     const withMargin = capexItems.reduce((sum, item) => sum + calculateItemTotal(item), 0);
     const effectiveMargin = beforeMargin > 0 ? ((withMargin - beforeMargin) / beforeMargin) * 100 : 0;
     return { beforeMargin, withMargin, effectiveMargin };
   }, [capexItems, globalMargin]);
 
   const totalOpex = useMemo(() => {
-    return opexItems.reduce((sum, item) => sum + item.amount, 0);
+    return opexItems.reduce((sum, item) => sum + reportingAmount(item), 0);
   }, [opexItems]);
 
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const formatCurrency = (value: number, valueCurrency: string = currency): string => {
+    return formatMoney(value, valueCurrency);
+  };
+
+  // Conversion note for items entered in another currency
+  const fxTitle = (item: CostLineItem): string | undefined => {
+    if (!item.fx) return undefined;
+    if (item.fx.missing) return `No ${item.fx.from}/${item.fx.to} rate in the FX table: converted 1:1`;
+    return `${formatCurrency(reportingAmount(item))} at ${item.fx.rate.toFixed(4)} ${item.fx.from}/${item.fx.to} (${item.fx.effective_date})`;
   };
 
   const toggleCategory = (category: string) => {
@@ -224,7 +229,7 @@ export function LineItemsManager({
     if (isCapexTab) {
       return items.reduce((sum, item) => sum + calculateItemTotal(item), 0);
     }
-    return items.reduce((sum, item) => sum + item.amount, 0);
+    return items.reduce((sum, item) => sum + reportingAmount(item), 0);
   };
 
   const handleAddCategory = () => {
@@ -381,6 +386,7 @@ export function LineItemsManager({
         onAdd={handleAddItem}
         category={dialogCategory}
         isCapex={isCapexTab}
+        currency={currency}
       />
 
       {/* Confirm Replace Dialog */}
@@ -573,7 +579,7 @@ export function LineItemsManager({
                                   {isCapexTab ? (
                                     <>
                                       <TableCell className="text-right font-mono text-sm pr-3">
-                                        {formatCurrency(item.unit_price || 0)}
+                                        {formatCurrency(item.unit_price || 0, item.currency ?? currency)}
                                       </TableCell>
                                       <TableCell className="text-right pr-1">
                                         <Input
@@ -593,8 +599,11 @@ export function LineItemsManager({
                                       <TableCell className="text-left text-muted-foreground text-sm truncate" title={item.unit || '-'}>
                                         {item.unit || '-'}
                                       </TableCell>
-                                      <TableCell className="text-right font-mono text-sm pr-3">
-                                        {formatCurrency(item.amount)}
+                                      <TableCell
+                                        className={`text-right font-mono text-sm pr-3 ${item.fx?.missing ? 'text-amber-600' : ''}`}
+                                        title={fxTitle(item)}
+                                      >
+                                        {formatCurrency(item.amount, item.currency ?? currency)}
                                       </TableCell>
                                       <TableCell className="text-right pr-1">
                                         <Input
@@ -624,8 +633,11 @@ export function LineItemsManager({
                                       <TableCell className="text-left text-muted-foreground text-sm truncate" title={item.unit || '-'}>
                                         {item.unit || '-'}
                                       </TableCell>
-                                      <TableCell className="text-right font-mono text-sm pr-3">
-                                        {formatCurrency(item.amount)}
+                                      <TableCell
+                                        className={`text-right font-mono text-sm pr-3 ${item.fx?.missing ? 'text-amber-600' : ''}`}
+                                        title={fxTitle(item)}
+                                      >
+                                        {formatCurrency(item.amount, item.currency ?? currency)}
                                       </TableCell>
                                     </>
                                   )}
@@ -54,6 +54,8 @@ function calculateYearlyTotal(months: MonthlyDataPoint[]) {
     ebitda: months.reduce((sum, m) => sum + m.ebitda, 0),
     cfads: totalCfads,
     debtService: totalDebtService,
+    interest: months.reduce((sum, m) => sum + (m.interest_payment ?? 0), 0),
+    principal: months.reduce((sum, m) => sum + (m.principal_repayment ?? 0), 0),
     avgDscr,
     fcf: months.reduce((sum, m) => sum + m.fcf_to_equity, 0),
   };
@@ -62,6 +64,8 @@ function calculateYearlyTotal(months: MonthlyDataPoint[]) {
 export function MonthlyDataTable({ monthlyData }: MonthlyDataTableProps) {
   const groupedData = groupByYear(monthlyData);
   const years = Array.from(groupedData.keys()).sort((a, b) => a - b);
+  // Debt schedule lines (missing on results calculated before debt schedules)
+  const hasDebtLines = monthlyData[0]?.interest_payment !== undefined;
 
   // Only first 3 years expanded by default
   const [openYears, setOpenYears] = useState<Set<number>>(
@@ -93,6 +97,12 @@ export function MonthlyDataTable({ monthlyData }: MonthlyDataTableProps) {
               <TableHead className="text-right min-w-[100px]">EBITDA</TableHead>
               <TableHead className="text-right min-w-[100px]">CFADS</TableHead>
               <TableHead className="text-right min-w-[100px]">Debt Service</TableHead>
+              {hasDebtLines && (
+                <>
+                  <TableHead className="text-right min-w-[100px]">Interest</TableHead>
+                  <TableHead className="text-right min-w-[100px]">Principal</TableHead>
+                </>
+              )}
               <TableHead className="text-right min-w-[80px]">DSCR</TableHead>
               <TableHead className="text-right min-w-[100px]">FCF to Equity</TableHead>
               <TableHead className="text-right min-w-[110px]">Cumulative FCF</TableHead>
@@ -142,6 +152,16 @@ export function MonthlyDataTable({ monthlyData }: MonthlyDataTableProps) {
                     <TableCell className="text-right font-mono text-sm font-semibold text-orange-600">
                       {totals.debtService > 0 ? formatCurrency(totals.debtService) : '—'}
                     </TableCell>
+                    {hasDebtLines && (
+                      <>
+                        <TableCell className="text-right font-mono text-sm font-semibold">
+                          {totals.interest > 0 ? formatCurrency(totals.interest) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm font-semibold">
+                          {totals.principal > 0 ? formatCurrency(totals.principal) : '—'}
+                        </TableCell>
+                      </>
+                    )}
                     <TableCell className="text-right font-mono text-sm font-semibold">
                       {totals.avgDscr !== null ? `${totals.avgDscr.toFixed(2)}x` : '—'}
                     </TableCell>
@@ -185,6 +205,16 @@ export function MonthlyDataTable({ monthlyData }: MonthlyDataTableProps) {
                         <TableCell className="text-right font-mono text-sm">
                           {month.debt_service > 0 ? formatCurrency(month.debt_service) : '—'}
                         </TableCell>
+                        {hasDebtLines && (
+                          <>
+                            <TableCell className="text-right font-mono text-sm">
+                              {month.interest_payment! > 0 ? formatCurrency(month.interest_payment!) : '—'}
+                            </TableCell>
+                            <TableCell className="text-right font-mono text-sm">
+                              {month.principal_repayment! > 0 ? formatCurrency(month.principal_repayment!) : '—'}
+                            </TableCell>
+                          </>
+                        )}
                         <TableCell className="text-right font-mono text-sm">
                           {month.dscr != null ? `${month.dscr.toFixed(2)}x` : '—'}
                         </TableCell>
@@ -16,6 +16,13 @@ interface RevenueChartProps {
   monthlyData?: MonthlyDataPoint[];
 }
 
+const SERIES_LABELS: Record<string, string> = {
+  revenue: 'Revenue',
+  omCosts: 'O&M Costs',
+  scheduledCosts: 'Scheduled Costs',
+  ebitda: 'EBITDA',
+};
+
 function formatCurrency(value: number): string {
   if (Math.abs(value) >= 1_000_000) {
     return `${(value / 1_000_000).toFixed(1)}M`;
@@ -33,15 +40,20 @@ export function RevenueChart({ yearlyData, viewMode = 'yearly', monthlyData }: R
         label: `Y${year}`,
         revenue: yearlyData.revenue[index],
         omCosts: yearlyData.om_costs[index],
+        scheduledCosts: yearlyData.scheduled_costs?.[index] ?? 0,
         ebitda: yearlyData.ebitda[index],
       }))
     : (monthlyData || []).map((point) => ({
         label: `${point.year}-${String(point.month).padStart(2, '0')}`,
         revenue: point.revenue,
         omCosts: point.om_costs,
+        scheduledCosts: point.scheduled_costs ?? 0,
         ebitda: point.ebitda,
       }));
 
+  // Replacements, major maintenance and decommissioning (only when modelled)
+  const hasScheduledCosts = yearlyData.scheduled_costs !== undefined;
+
   // For monthly view, only show every 12th label to avoid crowding
   const interval = viewMode === 'yearly' ? 4 : 11;
 
@@ -64,6 +76,10 @@ export function RevenueChart({ yearlyData, viewMode = 'yearly', monthlyData }: R
               <stop offset="5%" stopColor="#ef4444" stopOpacity={0.8} />
               <stop offset="95%" stopColor="#ef4444" stopOpacity={0.1} />
             </linearGradient>
+            <linearGradient id="colorScheduled" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#f97316" stopOpacity={0.8} />
+              <stop offset="95%" stopColor="#f97316" stopOpacity={0.1} />
+            </linearGradient>
             <linearGradient id="colorEBITDA" x1="0" y1="0" x2="0" y2="1">
               <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8} />
               <stop offset="95%" stopColor="#3b82f6" stopOpacity={0.1} />
@@ -86,7 +102,7 @@ export function RevenueChart({ yearlyData, viewMode = 'yearly', monthlyData }: R
           <Tooltip
             formatter={(value, name) => [
               formatCurrency(Number(value) || 0),
-              name === 'revenue' ? 'Revenue' : name === 'omCosts' ? 'O&M Costs' : 'EBITDA',
+              SERIES_LABELS[String(name)] ?? String(name),
             ]}
             contentStyle={{
               backgroundColor: 'hsl(var(--background))',
@@ -95,9 +111,7 @@ export function RevenueChart({ yearlyData, viewMode = 'yearly', monthlyData }: R
             }}
           />
           <Legend
-            formatter={(value: string) =>
-              value === 'revenue' ? 'Revenue' : value === 'omCosts' ? 'O&M Costs' : 'EBITDA'
-            }
+            formatter={(value: string) => SERIES_LABELS[value] ?? value}
           />
           <Area
             type="monotone"
@@ -113,6 +127,15 @@ export function RevenueChart({ yearlyData, viewMode = 'yearly', monthlyData }: R
             fillOpacity={1}
             fill="url(#colorOM)"
           />
+          {hasScheduledCosts && (
+            <Area
+              type="monotone"
+              dataKey="scheduledCosts"
+              stroke="#f97316"
+              fillOpacity={1}
+              fill="url(#colorScheduled)"
+            />
+          )}
           <Area
             type="monotone"
             dataKey="ebitda"
@@ -0,0 +1,287 @@
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { compareScenarios } from '@/lib/calculator/scenarios';
+import type {
+  ScenarioCase,
+  ComparisonRow,
+  ScenarioValueFormat,
+  ScenarioDeltaDirection,
+} from '@/lib/calculator/scenarios';
+import type { YearlyData } from '@/lib/types/financial';
+import { Activity, Landmark, TrendingUp } from 'lucide-react';
+
+interface ScenarioComparisonProps {
+  cases: ScenarioCase[]; // Base case first
+}
+
+const CASE_COLORS = ['#0f172a', '#3b82f6', '#f59e0b', '#ef4444', '#22c55e', '#8b5cf6', '#ec4899'];
+
+function formatCurrency(value: number): string {
+  if (Math.abs(value) >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(2)}M`;
+  }
+  if (Math.abs(value) >= 1_000) {
+    return `${(value / 1_000).toFixed(0)}k`;
+  }
+  return value.toFixed(0);
+}
+
+function formatValue(value: number | null, format: ScenarioValueFormat): string {
+  if (value === null) return '—';
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return `${(value * 100).toFixed(2)}%`;
+    case 'ratio':
+      return `${value.toFixed(2)}x`;
+    case 'years':
+      return `${value.toFixed(1)} yrs`;
+    case 'price':
+      return `${value.toFixed(2)}/MWh`;
+    default:
+      return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+}
+
+function formatDelta(delta: number, format: ScenarioValueFormat): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+  const magnitude = Math.abs(delta);
+  // Percentages are compared in percentage points
+  const text = format === 'percent' ? `${(magnitude * 100).toFixed(2)} pp` : formatValue(magnitude, format);
+  return `${sign}${text}`;
+}
+
+function deltaClass(delta: number, better: ScenarioDeltaDirection): string {
+  if (Math.abs(delta) < 1e-9 || better === null) return 'text-muted-foreground';
+  const improved = better === 'higher' ? delta > 0 : delta < 0;
+  return improved ? 'text-green-600' : 'text-red-600';
+}
+
+function ComparisonTable({
+  title,
+  icon,
+  caseNames,
+  rows,
+}: {
+  title: string;
+  icon: React.ReactNode;
+  caseNames: string[];
+  rows: ComparisonRow[];
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base flex items-center gap-2">
+          {icon}
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="w-full whitespace-nowrap rounded-md border">
+          <div className="w-max min-w-full">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead className="sticky left-0 bg-muted/50 z-10">Metric</TableHead>
+                  {caseNames.map((name, i) => (
+                    <TableHead key={i} className="text-right">
+                      {name}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="sticky left-0 bg-background z-10 font-medium">
+                      {row.label}
+                    </TableCell>
+                    {row.values.map((value, i) => {
+                      const delta = row.deltas[i];
+                      return (
+                        <TableCell key={i} className="text-right tabular-nums">
+                          <div>{formatValue(value, row.format)}</div>
+                          {delta !== null && (
+                            <div className={`text-xs ${deltaClass(delta, row.better)}`}>
+                              {formatDelta(delta, row.format)}
+                            </div>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ScenarioComparison({ cases }: ScenarioComparisonProps) {
+  const comparison = useMemo(() => compareScenarios(cases), [cases]);
+  const [seriesKey, setSeriesKey] = useState<keyof YearlyData>('cumulative_fcf_to_equity');
+
+  const caseNames = comparison.cases.map((c) => c.name);
+  const series =
+    comparison.yearly.series.find((s) => s.key === seriesKey) ?? comparison.yearly.series[0];
+
+  const chartData = comparison.yearly.years.map((year, yearIndex) => {
+    const point: Record<string, number | string | null> = { label: `Y${year}` };
+    comparison.cases.forEach((c, caseIndex) => {
+      point[c.id] = series.values[caseIndex][yearIndex];
+    });
+    return point;
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ComparisonTable
+          title="Key Metrics"
+          icon={<Activity className="h-5 w-5 text-primary" />}
+          caseNames={caseNames}
+          rows={comparison.keyMetrics}
+        />
+        <ComparisonTable
+          title="Financing Structure"
+          icon={<Landmark className="h-5 w-5 text-primary" />}
+          caseNames={caseNames}
+          rows={comparison.financing}
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            Yearly Cash Flows
+          </CardTitle>
+          <Select value={series.key} onValueChange={(v) => setSeriesKey(v as keyof YearlyData)}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {comparison.yearly.series.map((s) => (
+                <SelectItem key={s.key} value={s.key}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="h-[300px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} interval={4} />
+                <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} tickFormatter={formatCurrency} />
+                <Tooltip
+                  formatter={(value, name) => [
+                    formatCurrency(Number(value) || 0),
+                    comparison.cases.find((c) => c.id === name)?.name ?? name,
+                  ]}
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px',
+                  }}
+                />
+                <Legend
+                  formatter={(value: string) => comparison.cases.find((c) => c.id === value)?.name ?? value}
+                />
+                {comparison.cases.map((c, i) => (
+                  <Line
+                    key={c.id}
+                    type="monotone"
+                    dataKey={c.id}
+                    stroke={CASE_COLORS[i % CASE_COLORS.length]}
+                    strokeWidth={i === 0 ? 2.5 : 1.5}
+                    strokeDasharray={i === 0 ? undefined : '5 3'}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <ScrollArea className="w-full whitespace-nowrap rounded-md border">
+            <div className="w-max min-w-full">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead className="sticky left-0 bg-muted/50 z-10 w-[60px]">Year</TableHead>
+                    {caseNames.map((name, i) => (
+                      <TableHead key={i} className="text-right">
+                        {name}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.yearly.years.map((year, yearIndex) => {
+                    const base = series.values[0][yearIndex];
+                    return (
+                      <TableRow key={year}>
+                        <TableCell className="sticky left-0 bg-background z-10 font-medium">
+                          {year}
+                        </TableCell>
+                        {series.values.map((values, caseIndex) => {
+                          const value = values[yearIndex];
+                          const delta =
+                            caseIndex > 0 && value !== null && base !== null ? value - base : null;
+                          return (
+                            <TableCell key={caseIndex} className="text-right tabular-nums">
+                              <div>{formatValue(value, 'currency')}</div>
+                              {delta !== null && (
+                                <div className={`text-xs ${deltaClass(delta, series.better)}`}>
+                                  {formatDelta(delta, 'currency')}
+                                </div>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useMemo, useState } from 'react';
+import { useFinancialStore } from '@/stores/financialStore';
+import type { FinancialModel, FinancialInputs, FinancialScenario, ProjectResults } from '@/lib/types/financial';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import {
+  BASE_CASE_ID,
+  SCENARIO_OVERRIDE_FIELDS,
+  calculateScenario,
+  type ScenarioCase,
+} from '@/lib/calculator/scenarios';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Calculator, GitCompare, Layers, Plus, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ScenarioComparison } from './ScenarioComparison';
+
+interface ScenarioManagerProps {
+  model: FinancialModel;
+  canEdit: boolean;
+}
+
+function formatInput(value: FinancialInputs[keyof FinancialInputs]): string {
+  return typeof value === 'number' ? value.toLocaleString('en-US', { maximumFractionDigits: 4 }) : '—';
+}
+
+/**
+ * Override editor for one scenario. Empty fields inherit the base case;
+ * values are saved when a field loses focus.
+ */
+function ScenarioEditor({
+  model,
+  scenario,
+  canEdit,
+}: {
+  model: FinancialModel;
+  scenario: FinancialScenario;
+  canEdit: boolean;
+}) {
+  const updateScenario = useFinancialStore((state) => state.updateScenario);
+  const deleteScenario = useFinancialStore((state) => state.deleteScenario);
+
+  const usesLineItems = model.inputs.capex_items.length > 0;
+
+  const handleOverrideBlur = (key: keyof FinancialInputs, raw: string) => {
+    const current = scenario.overrides[key];
+    const value = raw.trim() === '' ? undefined : parseFloat(raw);
+    if (value !== undefined && !isFinite(value)) return;
+    if (value === current) return;
+
+    const overrides = { ...scenario.overrides };
+    if (value === undefined) {
+      delete overrides[key];
+    } else {
+      (overrides as Record<string, number>)[key] = value;
+    }
+    updateScenario(model.id, scenario.id, { overrides });
+  };
+
+  const handleNameBlur = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === scenario.name) return;
+    updateScenario(model.id, scenario.id, { name: trimmed });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="flex-1 space-y-2">
+          <Input
+            key={`name-${scenario.id}-${scenario.name}`}
+            defaultValue={scenario.name}
+            disabled={!canEdit}
+            onBlur={(e) => handleNameBlur(e.target.value)}
+            className="text-base font-semibold max-w-sm"
+          />
+          <CardDescription>
+            Leave a field empty to use the base case value.
+            {usesLineItems &&
+              ' The base case is costed from line items; a CAPEX or O&M per MW value replaces them in this scenario.'}
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => deleteScenario(model.id, scenario.id)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {SCENARIO_OVERRIDE_FIELDS.map((field) => {
+          const override = scenario.overrides[field.key];
+          const baseValue = model.inputs[field.key];
+          return (
+            <div key={field.key} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label className="text-sm font-medium">{field.label}</Label>
+                {override !== undefined && (
+                  <Badge variant="secondary" className="text-xs">
+                    Override
+                  </Badge>
+                )}
+              </div>
+              <div className="relative">
+                <Input
+                  key={`${scenario.id}-${field.key}-${override ?? ''}`}
+                  type="number"
+                  step={field.step}
+                  defaultValue={typeof override === 'number' ? override : ''}
+                  placeholder={formatInput(baseValue)}
+                  disabled={!canEdit}
+                  onBlur={(e) => handleOverrideBlur(field.key, e.target.value)}
+                  className="pr-16"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                  {field.unit}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ScenarioManager({ model, canEdit }: ScenarioManagerProps) {
+  const addScenario = useFinancialStore((state) => state.addScenario);
+  const updateResults = useFinancialStore((state) => state.updateResults);
+  const updateScenarioResults = useFinancialStore((state) => state.updateScenarioResults);
+
+  const scenarios = model.scenarios ?? [];
+  const [selectedId, setSelectedId] = useState<string | null>(scenarios[0]?.id ?? null);
+  const [newName, setNewName] = useState('');
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  const selected = scenarios.find((s) => s.id === selectedId) ?? scenarios[0];
+
+  const handleAdd = () => {
+    const name = newName.trim() || `Scenario ${scenarios.length + 1}`;
+    const id = addScenario(model.id, name);
+    if (id) {
+      setSelectedId(id);
+      setNewName('');
+    }
+  };
+
+  const handleCalculateAll = () => {
+    setIsCalculating(true);
+    try {
+      if (!model.results) {
+        updateResults(model.id, new SolarFinanceCalculator(model.inputs).calculate());
+      }
+      for (const scenario of scenarios) {
+        if (!scenario.results) {
+          updateScenarioResults(model.id, scenario.id, calculateScenario(model.inputs, scenario));
+        }
+      }
+      toast.success('Scenarios calculated');
+    } catch (error) {
+      console.error('Scenario calculation error:', error);
+      toast.error('Calculation failed', {
+        description: error instanceof Error ? error.message : 'An error occurred during calculation.',
+      });
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  // Base case first, then every scenario that has results (kept stable for
+  // the memoised comparison)
+  const cases = useMemo<ScenarioCase[]>(
+    () =>
+      model.results
+        ? [
+            { id: BASE_CASE_ID, name: 'Base Case', results: model.results },
+            ...(model.scenarios ?? [])
+              .filter((s): s is FinancialScenario & { results: ProjectResults } => !!s.results)
+              .map((s) => ({ id: s.id, name: s.name, results: s.results })),
+          ]
+        : [],
+    [model.results, model.scenarios]
+  );
+  const needsCalculation = !model.results || scenarios.some((s) => !s.results);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Layers className="h-5 w-5 text-primary" />
+              Scenarios
+            </CardTitle>
+            <CardDescription>
+              Cases that override selected base case inputs, compared side by side
+            </CardDescription>
+          </div>
+          <Button onClick={handleCalculateAll} disabled={isCalculating || !needsCalculation}>
+            {isCalculating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Calculator className="mr-2 h-4 w-4" />
+            )}
+            Calculate All
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="py-1.5 px-3">
+              Base Case
+              {model.results ? '' : ' (not calculated)'}
+            </Badge>
+            {scenarios.map((scenario) => (
+              <Button
+                key={scenario.id}
+                variant={selected?.id === scenario.id ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setSelectedId(scenario.id)}
+              >
+                {scenario.name}
+                {!scenario.results && (
+                  <span className="text-xs text-muted-foreground ml-1">(not calculated)</span>
+                )}
+              </Button>
+            ))}
+          </div>
+          {canEdit && (
+            <div className="flex gap-2 max-w-md">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="e.g. High CAPEX, Low PPA"
+              />
+              <Button variant="outline" onClick={handleAdd}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Scenario
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <ScenarioEditor model={model} scenario={selected} canEdit={canEdit} />}
+
+      {cases.length > 1 ? (
+        <ScenarioComparison cases={cases} />
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <GitCompare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Nothing to Compare Yet</h3>
+            <p className="text-muted-foreground">
+              Add a scenario and click Calculate All to compare it with the base case.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
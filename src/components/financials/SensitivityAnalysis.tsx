@@ -0,0 +1,462 @@
+import { useEffect, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import {
+  SENSITIVITY_INPUT_LABELS,
+  SENSITIVITY_METRICS,
+  formatSensitivityInput,
+  runSensitivityAnalysis,
+  tornadoSwing,
+  type SensitivityInputKey,
+  type SensitivityReport,
+  type SensitivityMetric,
+  type SensitivitySettings,
+} from '@/lib/calculator/sensitivity';
+import type { FinancialInputs } from '@/lib/types/financial';
+import { Grid3x3, Loader2, SlidersHorizontal, Wind } from 'lucide-react';
+
+interface SensitivityAnalysisProps {
+  inputs: FinancialInputs;
+  settings: SensitivitySettings;
+  onSettingsChange: (settings: SensitivitySettings) => void;
+}
+
+const INPUT_KEYS = Object.keys(SENSITIVITY_INPUT_LABELS) as SensitivityInputKey[];
+
+const LOW_COLOR = '#3b82f6';
+const HIGH_COLOR = '#f59e0b';
+
+function metricDefinition(metric: SensitivityMetric) {
+  return SENSITIVITY_METRICS.find((m) => m.key === metric)!;
+}
+
+function formatMetric(value: number | null, metric: SensitivityMetric): string {
+  if (value === null) return '—';
+  switch (metricDefinition(metric).format) {
+    case 'percent':
+      return `${(value * 100).toFixed(2)}%`;
+    case 'price':
+      return `${value.toFixed(2)}/MWh`;
+    case 'ratio':
+      return `${value.toFixed(2)}x`;
+  }
+}
+
+function formatMetricDelta(delta: number, metric: SensitivityMetric): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+  const magnitude = Math.abs(delta);
+  // Percentages move in percentage points
+  const text =
+    metricDefinition(metric).format === 'percent'
+      ? `${(magnitude * 100).toFixed(2)} pp`
+      : formatMetric(magnitude, metric);
+  return `${sign}${text}`;
+}
+
+function formatStep(step: number): string {
+  return step === 0 ? 'Base' : `${step > 0 ? '+' : ''}${step}%`;
+}
+
+/**
+ * Cell shading for the two-way table: green where the metric improves on the
+ * base case, red where it worsens, stronger with the size of the change
+ */
+function cellStyle(
+  value: number | null,
+  base: number | null,
+  maxDelta: number,
+  metric: SensitivityMetric
+): React.CSSProperties | undefined {
+  if (value === null || base === null || maxDelta === 0) return undefined;
+  const delta = value - base;
+  if (Math.abs(delta) < 1e-12) return undefined;
+  const improved = metricDefinition(metric).better === 'higher' ? delta > 0 : delta < 0;
+  const alpha = 0.08 + 0.32 * Math.min(1, Math.abs(delta) / maxDelta);
+  return {
+    backgroundColor: improved ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})`,
+  };
+}
+
+export function SensitivityAnalysis({ inputs, settings, onSettingsChange }: SensitivityAnalysisProps) {
+  const [tornadoMetric, setTornadoMetric] = useState<SensitivityMetric>('project_irr');
+  const [tableMetric, setTableMetric] = useState<SensitivityMetric>('project_irr');
+
+  // Analysis together with the inputs and settings it ran on
+  const [run, setRun] = useState<{
+    inputs: FinancialInputs;
+    settings: SensitivitySettings;
+    report: SensitivityReport;
+  } | null>(null);
+  const isStale = run !== null && (run.inputs !== inputs || run.settings !== settings);
+
+  // Dozens of cases are calculated: run after the render (the previous report
+  // stays on screen meanwhile), and only for the latest inputs and settings
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setRun({ inputs, settings, report: runSensitivityAnalysis(inputs, settings) });
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [inputs, settings]);
+
+  const handleVariationBlur = (raw: string) => {
+    const value = parseFloat(raw);
+    if (!isFinite(value) || value <= 0 || value >= 100 || value === settings.variationPercent) return;
+    onSettingsChange({ ...settings, variationPercent: value });
+  };
+
+  const toggleVariable = (key: SensitivityInputKey, checked: boolean) => {
+    const variables = checked
+      ? INPUT_KEYS.filter((k) => k === key || settings.variables.includes(k))
+      : settings.variables.filter((k) => k !== key);
+    onSettingsChange({ ...settings, variables });
+  };
+
+  const setTwoWayKey = (axis: 'rowKey' | 'colKey', key: SensitivityInputKey) => {
+    onSettingsChange({ ...settings, twoWay: { ...settings.twoWay, [axis]: key } });
+  };
+
+  if (!run) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Calculating sensitivities...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { tornado, twoWay } = run.report;
+
+  // Widest swing on top
+  const tornadoData = [...tornado.bars]
+    .sort((a, b) => tornadoSwing(b, tornadoMetric) - tornadoSwing(a, tornadoMetric))
+    .map((bar) => {
+      const base = tornado.base[tornadoMetric];
+      const low = bar.low[tornadoMetric];
+      const high = bar.high[tornadoMetric];
+      return {
+        label: bar.label,
+        low: low !== null && base !== null ? low - base : 0,
+        high: high !== null && base !== null ? high - base : 0,
+        lowValue: low,
+        highValue: high,
+        lowInput: formatSensitivityInput(bar.key, bar.lowInput),
+        highInput: formatSensitivityInput(bar.key, bar.highInput),
+      };
+    });
+
+  const tableBase = tornado.base[tableMetric];
+  const maxTableDelta = Math.max(
+    0,
+    ...twoWay.cells.flat().map((cell) => {
+      const value = cell[tableMetric];
+      return value !== null && tableBase !== null ? Math.abs(value - tableBase) : 0;
+    })
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-base flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-primary" />
+            Sensitivity Settings
+          </CardTitle>
+          <CardDescription>
+            Inputs are varied one at a time around the current base case inputs; other
+            inputs stay unchanged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-[200px]">
+            <Label className="text-sm font-medium">Variation</Label>
+            <div className="relative">
+              <Input
+                key={`variation-${settings.variationPercent}`}
+                type="number"
+                min="1"
+                max="99"
+                step="1"
+                defaultValue={settings.variationPercent}
+                onBlur={(e) => handleVariationBlur(e.target.value)}
+                className="pr-8"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                ±%
+              </span>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Tornado Inputs</Label>
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+              {INPUT_KEYS.map((key) => (
+                <div key={key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`sensitivity-${key}`}
+                    checked={settings.variables.includes(key)}
+                    onCheckedChange={(checked) => toggleVariable(key, checked === true)}
+                  />
+                  <Label htmlFor={`sensitivity-${key}`} className="cursor-pointer font-normal">
+                    {SENSITIVITY_INPUT_LABELS[key]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-4 flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Wind className="h-5 w-5 text-primary" />
+              Tornado (±{tornado.variationPercent}%)
+              {isStale && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </CardTitle>
+            <CardDescription>
+              Base case {metricDefinition(tornadoMetric).label}: {formatMetric(tornado.base[tornadoMetric], tornadoMetric)}
+            </CardDescription>
+          </div>
+          <Select value={tornadoMetric} onValueChange={(v) => setTornadoMetric(v as SensitivityMetric)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SENSITIVITY_METRICS.map((m) => (
+                <SelectItem key={m.key} value={m.key}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {tornadoData.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              Select at least one input to build the tornado.
+            </p>
+          ) : (
+            <>
+              <div id="sensitivity-tornado-chart" style={{ height: 80 + tornadoData.length * 44 }} className="w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={tornadoData}
+                    layout="vertical"
+                    barGap={-18}
+                    margin={{ top: 10, right: 30, left: 20, bottom: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" horizontal={false} />
+                    <XAxis
+                      type="number"
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(v: number) => formatMetricDelta(v, tornadoMetric)}
+                    />
+                    <YAxis
+                      type="category"
+                      dataKey="label"
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                      width={110}
+                    />
+                    <Tooltip
+                      formatter={(value, name, item) => {
+                        const point = item.payload as (typeof tornadoData)[number];
+                        const isLow = name === 'low';
+                        return [
+                          `${formatMetric(isLow ? point.lowValue : point.highValue, tornadoMetric)} (${formatMetricDelta(Number(value) || 0, tornadoMetric)})`,
+                          `${isLow ? '−' : '+'}${tornado.variationPercent}% → ${isLow ? point.lowInput : point.highInput}`,
+                        ];
+                      }}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--background))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '6px',
+                      }}
+                    />
+                    <Legend
+                      formatter={(value: string) =>
+                        `${value === 'low' ? '−' : '+'}${tornado.variationPercent}% input`
+                      }
+                    />
+                    <ReferenceLine x={0} stroke="#64748b" />
+                    <Bar dataKey="low" fill={LOW_COLOR} barSize={18} />
+                    <Bar dataKey="high" fill={HIGH_COLOR} barSize={18} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>Input</TableHead>
+                      <TableHead className="text-right">−{tornado.variationPercent}%</TableHead>
+                      <TableHead className="text-right">+{tornado.variationPercent}%</TableHead>
+                      {SENSITIVITY_METRICS.map((m) => (
+                        <TableHead key={m.key} className="text-right">
+                          {m.label} (− / +)
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tornado.bars.map((bar) => (
+                      <TableRow key={bar.key}>
+                        <TableCell className="font-medium">{bar.label}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatSensitivityInput(bar.key, bar.lowInput)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatSensitivityInput(bar.key, bar.highInput)}
+                        </TableCell>
+                        {SENSITIVITY_METRICS.map((m) => (
+                          <TableCell key={m.key} className="text-right tabular-nums">
+                            {formatMetric(bar.low[m.key], m.key)} / {formatMetric(bar.high[m.key], m.key)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5 text-primary" />
+            Two-Way Table
+            {isStale && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </CardTitle>
+          <CardDescription>
+            {metricDefinition(tableMetric).label} for every combination of the two inputs
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Rows</Label>
+              <Select value={settings.twoWay.rowKey} onValueChange={(v) => setTwoWayKey('rowKey', v as SensitivityInputKey)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INPUT_KEYS.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {SENSITIVITY_INPUT_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Columns</Label>
+              <Select value={settings.twoWay.colKey} onValueChange={(v) => setTwoWayKey('colKey', v as SensitivityInputKey)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INPUT_KEYS.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {SENSITIVITY_INPUT_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-1">
+              {SENSITIVITY_METRICS.map((m) => (
+                <Button
+                  key={m.key}
+                  variant={tableMetric === m.key ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setTableMetric(m.key)}
+                >
+                  {m.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>
+                    {SENSITIVITY_INPUT_LABELS[twoWay.rowKey]} ↓ / {SENSITIVITY_INPUT_LABELS[twoWay.colKey]} →
+                  </TableHead>
+                  {twoWay.stepsPercent.map((step, i) => (
+                    <TableHead key={i} className="text-right">
+                      <div>{formatStep(step)}</div>
+                      <div className="text-xs font-normal">
+                        {formatSensitivityInput(twoWay.colKey, twoWay.colInputs[i])}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {twoWay.cells.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    <TableCell className="font-medium">
+                      <div>{formatStep(twoWay.stepsPercent[rowIndex])}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatSensitivityInput(twoWay.rowKey, twoWay.rowInputs[rowIndex])}
+                      </div>
+                    </TableCell>
+                    {row.map((cell, colIndex) => (
+                      <TableCell
+                        key={colIndex}
+                        className="text-right tabular-nums"
+                        style={cellStyle(cell[tableMetric], tableBase, maxTableDelta, tableMetric)}
+                      >
+                        {formatMetric(cell[tableMetric], tableMetric)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -27,12 +27,29 @@ function formatEnergy(value: number): string {
   });
 }
 
+function formatPower(value: number | null): string {
+  if (value === null) return '—';
+  return (value * 100).toFixed(1) + '%';
+}
+
 function formatDSCR(value: number | null): string {
   if (value === null) return '—';
   return value.toFixed(2) + 'x';
 }
 
 export function YearlyDataTable({ yearlyData }: YearlyDataTableProps) {
+  // Debt schedule lines (missing on results calculated before debt schedules)
+  const hasDebtLines = yearlyData.interest_payment !== undefined;
+  const hasDSRA = (yearlyData.dsra_movement ?? []).some((v) => Math.abs(v) > 0.5);
+  // Tax lines only add information beyond CFADS with depreciation or credits
+  const hasTaxLines = [...(yearlyData.depreciation ?? []), ...(yearlyData.tax_credits ?? [])].some((v) => v > 0.5);
+  const hasFlip = yearlyData.tax_equity_cash_flow !== undefined;
+  const hasRevenueStack = yearlyData.revenue_contracted !== undefined;
+  const hasScheduledCosts = yearlyData.scheduled_costs !== undefined;
+  const hasReserve = (yearlyData.reserve_movement ?? []).some((v) => Math.abs(v) > 0.5);
+  const hasModulePower = yearlyData.module_power !== undefined;
+  const hasWarranty = yearlyData.warranted_power !== undefined;
+
   return (
     <ScrollArea className="w-full whitespace-nowrap rounded-md border">
       <div className="w-max min-w-full">
@@ -41,11 +58,45 @@ export function YearlyDataTable({ yearlyData }: YearlyDataTableProps) {
             <TableRow className="bg-muted/50">
               <TableHead className="sticky left-0 bg-muted/50 z-10 w-[60px]">Year</TableHead>
               <TableHead className="text-right">Energy (MWh)</TableHead>
+              {hasModulePower && <TableHead className="text-right">Module Power</TableHead>}
+              {hasWarranty && <TableHead className="text-right">Warranted</TableHead>}
               <TableHead className="text-right">Revenue</TableHead>
+              {hasRevenueStack && (
+                <>
+                  <TableHead className="text-right">Contracted</TableHead>
+                  <TableHead className="text-right">Merchant</TableHead>
+                  <TableHead className="text-right">Capacity + REC</TableHead>
+                  <TableHead className="text-right">Curtailed (MWh)</TableHead>
+                </>
+              )}
               <TableHead className="text-right">O&M</TableHead>
+              {hasScheduledCosts && <TableHead className="text-right">Scheduled Costs</TableHead>}
               <TableHead className="text-right">EBITDA</TableHead>
+              {hasReserve && <TableHead className="text-right">Reserve +/−</TableHead>}
               <TableHead className="text-right">CFADS</TableHead>
               <TableHead className="text-right">Debt Service</TableHead>
+              {hasDebtLines && (
+                <>
+                  <TableHead className="text-right">Interest</TableHead>
+                  <TableHead className="text-right">Principal</TableHead>
+                  <TableHead className="text-right">Debt Balance</TableHead>
+                </>
+              )}
+              {hasDSRA && <TableHead className="text-right">DSRA +/−</TableHead>}
+              {hasTaxLines && (
+                <>
+                  <TableHead className="text-right">Depreciation</TableHead>
+                  <TableHead className="text-right">Tax Paid</TableHead>
+                  <TableHead className="text-right">Tax Credits</TableHead>
+                  <TableHead className="text-right">NOL Balance</TableHead>
+                </>
+              )}
+              {hasFlip && (
+                <>
+                  <TableHead className="text-right">Tax Equity</TableHead>
+                  <TableHead className="text-right">Sponsor</TableHead>
+                </>
+              )}
               <TableHead className="text-right">FCF to Equity</TableHead>
               <TableHead className="text-right">DSCR</TableHead>
               <TableHead className="text-right">Cumulative FCF</TableHead>
@@ -57,6 +108,9 @@ export function YearlyDataTable({ yearlyData }: YearlyDataTableProps) {
               const isPaybackYear = index > 0 &&
                 yearlyData.cumulative_fcf_to_equity[index - 1] < 0 &&
                 cumFCF >= 0;
+              const warranted = yearlyData.warranted_power?.[index] ?? null;
+              // Expected power below the warranty would trigger a claim
+              const isClaimYear = warranted !== null && yearlyData.module_power![index] < warranted - 1e-9;
 
               return (
                 <TableRow
@@ -69,15 +123,56 @@ export function YearlyDataTable({ yearlyData }: YearlyDataTableProps) {
                   <TableCell className="text-right font-mono text-sm">
                     {formatEnergy(yearlyData.energy_production_mwh[index])}
                   </TableCell>
+                  {hasModulePower && (
+                    <TableCell
+                      className={`text-right font-mono text-sm ${isClaimYear ? 'text-amber-600 font-semibold' : ''}`}
+                      title={isClaimYear ? 'Below the power warranty: warranty claim' : undefined}
+                    >
+                      {formatPower(yearlyData.module_power![index])}
+                    </TableCell>
+                  )}
+                  {hasWarranty && (
+                    <TableCell className="text-right font-mono text-sm">
+                      {formatPower(warranted)}
+                    </TableCell>
+                  )}
                   <TableCell className="text-right font-mono text-sm text-green-600">
                     {formatCurrency(yearlyData.revenue[index])}
                   </TableCell>
+                  {hasRevenueStack && (
+                    <>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatCurrency(yearlyData.revenue_contracted![index])}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatCurrency(yearlyData.revenue_merchant![index])}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatCurrency(yearlyData.revenue_capacity![index] + yearlyData.revenue_rec![index])}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatEnergy(yearlyData.curtailed_mwh![index])}
+                      </TableCell>
+                    </>
+                  )}
                   <TableCell className="text-right font-mono text-sm text-red-600">
                     {formatCurrency(yearlyData.om_costs[index])}
                   </TableCell>
+                  {hasScheduledCosts && (
+                    <TableCell className="text-right font-mono text-sm text-red-600">
+                      {Math.abs(yearlyData.scheduled_costs![index]) > 0.5
+                        ? formatCurrency(yearlyData.scheduled_costs![index])
+                        : '—'}
+                    </TableCell>
+                  )}
                   <TableCell className="text-right font-mono text-sm">
                     {formatCurrency(yearlyData.ebitda[index])}
                   </TableCell>
+                  {hasReserve && (
+                    <TableCell className="text-right font-mono text-sm">
+                      {formatCurrency(yearlyData.reserve_movement![index])}
+                    </TableCell>
+                  )}
                   <TableCell className="text-right font-mono text-sm">
                     {formatCurrency(yearlyData.cfads[index])}
                   </TableCell>
@@ -86,6 +181,62 @@ export function YearlyDataTable({ yearlyData }: YearlyDataTableProps) {
                       ? formatCurrency(yearlyData.debt_service[index])
                       : '—'}
                   </TableCell>
+                  {hasDebtLines && (
+                    <>
+                      <TableCell className="text-right font-mono text-sm">
+                        {yearlyData.interest_payment![index] > 0
+                          ? formatCurrency(yearlyData.interest_payment![index])
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {yearlyData.principal_repayment![index] > 0
+                          ? formatCurrency(yearlyData.principal_repayment![index])
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {yearlyData.debt_balance![index] > 0.5
+                          ? formatCurrency(yearlyData.debt_balance![index])
+                          : '—'}
+                      </TableCell>
+                    </>
+                  )}
+                  {hasDSRA && (
+                    <TableCell className="text-right font-mono text-sm">
+                      {formatCurrency(yearlyData.dsra_movement![index])}
+                    </TableCell>
+                  )}
+                  {hasTaxLines && (
+                    <>
+                      <TableCell className="text-right font-mono text-sm">
+                        {yearlyData.depreciation![index] > 0.5
+                          ? formatCurrency(yearlyData.depreciation![index])
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm text-red-600">
+                        {formatCurrency(yearlyData.tax_paid![index])}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm text-green-600">
+                        {yearlyData.tax_credits![index] > 0.5
+                          ? formatCurrency(yearlyData.tax_credits![index])
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {yearlyData.nol_balance![index] > 0.5
+                          ? formatCurrency(yearlyData.nol_balance![index])
+                          : '—'}
+                      </TableCell>
+                    </>
+                  )}
+                  {hasFlip && (
+                    <>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatCurrency(yearlyData.tax_equity_cash_flow![index])}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatCurrency(yearlyData.sponsor_cash_flow![index])}
+                      </TableCell>
+                    </>
+                  )}
                   <TableCell className="text-right font-mono text-sm">
                     {formatCurrency(yearlyData.fcf_to_equity[index])}
                   </TableCell>
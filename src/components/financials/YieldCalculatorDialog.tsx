@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -39,18 +39,33 @@ import {
   Sun,
   Thermometer,
   Zap,
+  CloudSun,
+  Upload,
+  X,
 } from 'lucide-react';
 import { useFinancialStore } from '@/stores/financialStore';
 import { useDesignStore } from '@/stores/designStore';
 import { useSiteStore } from '@/stores/siteStore';
 import { useComponentStore } from '@/stores/componentStore';
-import type { YieldEstimate } from '@/lib/yield/types';
+import { useMaintenanceStore } from '@/stores/maintenanceStore';
+import { usePerformanceLogStore } from '@/stores/performanceLogStore';
+import type { YieldEstimate, TMYData } from '@/lib/yield/types';
 import {
   getOptimalTilt,
   getOptimalAzimuth,
   getSourceDescription,
   formatLossBreakdown,
+  parseTMYFile,
+  getTMYFormatLabel,
+  bifacialGeometryFromLayout,
+  monthlyEffectiveAlbedo,
+  buildSoilingProfile,
+  cleaningEnergyGain,
+  projectTreesToSite,
 } from '@/lib/yield';
+import type { TreeGeometry } from '@/lib/dxf/types';
+import { loadDesignVersionDXF } from '@/lib/dxf/componentExtractor';
+import { useShadingAnalysis } from '@/hooks/useShadingAnalysis';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -74,6 +89,8 @@ export function YieldCalculatorDialog({
   const designs = useDesignStore((s) => s.designs);
   const sites = useSiteStore((s) => s.sites);
   const components = useComponentStore((s) => s.components);
+  const schedules = useMaintenanceStore((s) => s.schedules);
+  const performanceLogs = usePerformanceLogStore((s) => s.logs);
 
   // Form state
   const [latitude, setLatitude] = useState('');
@@ -85,11 +102,16 @@ export function YieldCalculatorDialog({
   const [selectedDesignId, setSelectedDesignId] = useState<string>('');
   const [selectedSiteId, setSelectedSiteId] = useState<string>('');
   const [advancedOpen, setAdvancedOpen] = useState(false);
+  const [dcAcRatio, setDcAcRatio] = useState('');
+  const [exportLimit, setExportLimit] = useState('');
+  const [weather, setWeather] = useState<{ data: TMYData; fileName: string } | null>(null);
+  const weatherInputRef = useRef<HTMLInputElement>(null);
 
   // Calculation state
   const [isCalculating, setIsCalculating] = useState(false);
   const [result, setResult] = useState<YieldEstimate | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const { status: shadingStatus, progress: shadingProgress, run: runShading } = useShadingAnalysis();
 
   // Debug: log when result changes
   useEffect(() => {
@@ -150,6 +172,9 @@ export function YieldCalculatorDialog({
 
       setSystemLosses('14');
       setSelectedComponentId('');
+      setDcAcRatio('');
+      setExportLimit('');
+      setWeather(null);
     } else if (!open) {
       // Reset initialized flag when dialog closes
       setInitialized(false);
@@ -169,6 +194,32 @@ export function YieldCalculatorDialog({
     }
   }, [latitude]);
 
+  const handleWeatherFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = parseTMYFile(await file.text());
+      setWeather({ data, fileName: file.name });
+      setResult(null);
+      setError(null);
+
+      // Fill in the location from the weather file when none is set yet
+      if (!latitude && !longitude && data.latitude !== undefined && data.longitude !== undefined &&
+          !isNaN(data.latitude) && !isNaN(data.longitude)) {
+        setLatitude(data.latitude.toString());
+        setLongitude(data.longitude.toString());
+      }
+      toast.success('Weather file loaded', {
+        description: `${getTMYFormatLabel(data.format)} - ${data.hours.length} hours`,
+      });
+    } catch (err) {
+      console.error('[YieldCalc] Weather file import failed:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to read weather file');
+    }
+  };
+
   const handleCalculate = async () => {
     console.log('[YieldCalc] Starting calculation...');
     setIsCalculating(true);
@@ -198,19 +249,83 @@ export function YieldCalculatorDialog({
       };
     }
 
+    // Use a ray-traced shading profile when the selected design has a generated layout
+    let monthlyShadingLoss: number[] | undefined;
+    const selectedDesign = selectedDesignId
+      ? projectDesigns.find((d) => d.id === selectedDesignId)
+      : undefined;
+    const layoutSite = selectedDesign?.siteId
+      ? sites.find((s) => s.id === selectedDesign.siteId)
+      : undefined;
+    if (selectedDesign?.generatedLayout && layoutSite?.centroid) {
+      try {
+        // Trees come from the design's DXF drawing, placed at its GPS coordinates
+        let trees: TreeGeometry[] | undefined;
+        if (selectedDesign.currentVersionId && selectedDesign.gpsCoordinates) {
+          const loaded = await loadDesignVersionDXF(selectedDesign.currentVersionId);
+          if ('parsedData' in loaded) {
+            trees = projectTreesToSite(loaded.parsedData, selectedDesign.gpsCoordinates, layoutSite);
+          }
+        }
+        monthlyShadingLoss = (
+          await runShading({
+            layout: selectedDesign.generatedLayout,
+            site: layoutSite,
+            trees,
+          })
+        ).monthlyLoss;
+      } catch (err) {
+        console.error('[YieldCalc] Shading analysis failed:', err);
+      }
+    }
+
+    // Bifacial gain from the selected module (or the layout's module) and the layout rows
+    const layoutModule = selectedDesign?.generatedLayout?.module.componentId
+      ? components.find((c) => c.id === selectedDesign.generatedLayout?.module.componentId)
+      : undefined;
+    const bifacialModule = selectedComponent ?? layoutModule;
+    const bifacialityFactor =
+      bifacialModule?.type === 'module' && bifacialModule.specs.bifacial
+        ? bifacialModule.specs.bifacialityFactor
+        : undefined;
+    const albedoSite = layoutSite ?? sites.find((s) => s.id === selectedSiteId);
+    const tilt = tiltAngle ? parseFloat(tiltAngle) : undefined;
+
+    // Monthly soiling and snow from the site climate and the project's cleaning schedules
+    const soilingProfile = albedoSite?.climate
+      ? buildSoilingProfile({
+          climate: albedoSite.climate,
+          tiltAngle: tilt ?? getOptimalTilt(lat),
+          tracker: selectedDesign?.generatedLayout?.tracker,
+          schedules: schedules.filter((s) => s.projectId === projectId),
+          performanceLogs: performanceLogs.filter((l) => l.projectId === projectId),
+        })
+      : undefined;
+
     const inputParams = {
       latitude: lat,
       longitude: lon,
-      tiltAngle: tiltAngle ? parseFloat(tiltAngle) : undefined,
+      tiltAngle: tilt,
       azimuth: azimuth ? parseFloat(azimuth) : undefined,
       systemLosses: systemLosses ? parseFloat(systemLosses) : undefined,
       moduleSpecs,
+      monthlyShadingLoss,
+      soilingProfile,
+      tracker: selectedDesign?.generatedLayout?.tracker,
+      acCapacityKw: model && parseFloat(dcAcRatio) > 0
+        ? (model.inputs.capacity * 1000) / parseFloat(dcAcRatio)
+        : undefined,
+      exportLimitKw: parseFloat(exportLimit) > 0 ? parseFloat(exportLimit) * 1000 : undefined,
+      bifacial: selectedDesign?.generatedLayout && bifacialityFactor
+        ? bifacialGeometryFromLayout(selectedDesign.generatedLayout, bifacialityFactor)
+        : undefined,
+      monthlyAlbedo: albedoSite?.albedo ? monthlyEffectiveAlbedo(albedoSite.albedo) : undefined,
     };
     console.log('[YieldCalc] Input params:', inputParams);
     console.log('[YieldCalc] Model ID:', modelId);
 
     try {
-      const estimate = await calculateYieldForModel(modelId, inputParams);
+      const estimate = await calculateYieldForModel(modelId, inputParams, weather ?? undefined);
       console.log('[YieldCalc] Result from store:', estimate);
 
       if (estimate) {
@@ -438,6 +553,57 @@ export function YieldCalculatorDialog({
             </div>
           </div>
 
+          {/* Weather Data */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CloudSun className="h-4 w-4" />
+              Weather Data
+            </div>
+            <input
+              ref={weatherInputRef}
+              type="file"
+              accept=".json,.csv,.epw"
+              onChange={handleWeatherFile}
+              className="hidden"
+            />
+            {weather ? (
+              <div className="flex items-center justify-between gap-2 p-2 text-sm bg-muted/50 rounded-md">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{weather.fileName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {getTMYFormatLabel(weather.data.format)} · hourly simulation
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 flex-shrink-0"
+                  onClick={() => {
+                    setWeather(null);
+                    setResult(null);
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => weatherInputRef.current?.click()}
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import TMY File
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  PVGIS TMY (JSON/CSV), NSRDB/SAM CSV or EPW. Without a file, PVGIS monthly data is used.
+                </p>
+              </div>
+            )}
+          </div>
+
           {/* Advanced Options */}
           <Collapsible open={advancedOpen} onOpenChange={setAdvancedOpen}>
             <CollapsibleTrigger asChild>
@@ -472,7 +638,7 @@ export function YieldCalculatorDialog({
                   </div>
                 </div>
                 <div className="space-y-1.5">
-                  <Label>Module (for temp. coeff.)</Label>
+                  <Label>Module (temp. coeff., bifaciality)</Label>
                   <Select
                     value={selectedComponentId || '__default__'}
                     onValueChange={(v) => setSelectedComponentId(v === '__default__' ? '' : v)}
@@ -490,6 +656,49 @@ export function YieldCalculatorDialog({
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-1.5">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="dcAcRatio">DC/AC Ratio</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <HelpCircle className="h-3.5 w-3.5 text-muted-foreground" />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="text-sm">DC/AC ratio for inverter clipping (blank = no clipping)</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Input
+                    id="dcAcRatio"
+                    type="number"
+                    placeholder="1.00"
+                    value={dcAcRatio}
+                    onChange={(e) => setDcAcRatio(e.target.value)}
+                    step="0.01"
+                    min={0.5}
+                    max={2}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="exportLimit">Grid Export Limit</Label>
+                  <div className="relative">
+                    <Input
+                      id="exportLimit"
+                      type="number"
+                      placeholder="None"
+                      value={exportLimit}
+                      onChange={(e) => setExportLimit(e.target.value)}
+                      step="0.1"
+                      min={0}
+                      className="pr-10"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                      MW
+                    </span>
+                  </div>
+                </div>
               </div>
             </CollapsibleContent>
           </Collapsible>
@@ -503,12 +712,14 @@ export function YieldCalculatorDialog({
             {isCalculating ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Calculating...
+                {shadingStatus === 'running'
+                  ? `Analyzing shading (${shadingProgress.evaluated} / ${shadingProgress.total} frames)...`
+                  : 'Calculating...'}
               </>
             ) : (
               <>
                 <Calculator className="mr-2 h-4 w-4" />
-                Calculate Yield
+                {weather ? 'Run Hourly Simulation' : 'Calculate Yield'}
               </>
             )}
           </Button>
@@ -614,8 +825,38 @@ export function YieldCalculatorDialog({
                 </Collapsible>
               )}
 
+              {result.trackerGain !== undefined && (
+                <div className="text-xs text-muted-foreground">
+                  Single-axis tracker: +{result.trackerGain.toFixed(1)}% vs fixed tilt
+                </div>
+              )}
+
+              {result.losses.bifacialGain !== undefined && (
+                <div className="text-xs text-muted-foreground">
+                  Bifacial modules: +{result.losses.bifacialGain.toFixed(1)}% rear-side gain
+                  {result.bifacialityFactor !== undefined && ` (bifaciality ${result.bifacialityFactor.toFixed(2)})`}
+                </div>
+              )}
+
+              {result.soilingProfile && result.soilingProfile.cleaningsPerYear > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Cleaning: {result.soilingProfile.cleaningsPerYear} scheduled/year recover{' '}
+                  {(cleaningEnergyGain(result) / 1000).toLocaleString(undefined, { maximumFractionDigits: 0 })} MWh vs rain alone
+                </div>
+              )}
+
+              {(result.clippedEnergy ?? 0) + (result.exportLimitedEnergy ?? 0) > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Clipped: {((result.clippedEnergy ?? 0) / 1000).toLocaleString(undefined, { maximumFractionDigits: 0 })} MWh at inverters
+                  {result.exportLimitedEnergy
+                    ? `, ${(result.exportLimitedEnergy / 1000).toLocaleString(undefined, { maximumFractionDigits: 0 })} MWh at the export limit`
+                    : ''}
+                </div>
+              )}
+
               <div className="text-xs text-muted-foreground">
                 Data source: {getSourceDescription(result.source)}
+                {result.weatherFile && ` (${result.weatherFile})`}
               </div>
             </div>
           )}
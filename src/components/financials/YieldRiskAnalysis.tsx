@@ -0,0 +1,328 @@
+import { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DEFAULT_YIELD_UNCERTAINTY } from '@/lib/types/financial';
+import type { FinancialInputs } from '@/lib/types/financial';
+import { EXCEEDANCE_LEVELS, calcExceedanceYields } from '@/lib/calculator/uncertainty';
+import {
+  MONTE_CARLO_METRICS,
+  buildExceedanceCurve,
+  buildHistogram,
+  runMonteCarlo,
+  type MonteCarloMetric,
+  type MonteCarloResult,
+} from '@/lib/calculator/monteCarlo';
+import { Dices, Loader2, Sigma } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface YieldRiskAnalysisProps {
+  inputs: FinancialInputs;
+}
+
+const ITERATION_OPTIONS = [500, 1000, 2500, 5000];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'hsl(var(--background))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '6px',
+};
+
+function formatMetricValue(value: number, metric: MonteCarloMetric): string {
+  if (!isFinite(value)) return '—';
+  switch (MONTE_CARLO_METRICS.find((m) => m.key === metric)!.format) {
+    case 'energy':
+      return `${Math.round(value).toLocaleString()} MWh`;
+    case 'percent':
+      return `${(value * 100).toFixed(2)}%`;
+    case 'ratio':
+      return `${value.toFixed(2)}x`;
+  }
+}
+
+function formatAxisValue(value: number, metric: MonteCarloMetric): string {
+  if (metric === 'energy_year_1' || metric === 'avg_energy') {
+    return `${(value / 1000).toFixed(0)}k`;
+  }
+  return formatMetricValue(value, metric);
+}
+
+export function YieldRiskAnalysis({ inputs }: YieldRiskAnalysisProps) {
+  const [iterations, setIterations] = useState(1000);
+  const [metric, setMetric] = useState<MonteCarloMetric>('equity_irr');
+  const [isRunning, setIsRunning] = useState(false);
+  // Simulation together with the inputs it ran on (stale once inputs change)
+  const [run, setRun] = useState<{ inputs: FinancialInputs; result: MonteCarloResult } | null>(null);
+
+  const uncertainty = inputs.yield_uncertainty ?? DEFAULT_YIELD_UNCERTAINTY;
+  const exceedanceYields = calcExceedanceYields(inputs.p50_year_0_yield, uncertainty);
+  const sizingCase = inputs.debt_sizing_case ?? 'P50';
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // Let the spinner render before the (synchronous) simulation
+    setTimeout(() => {
+      try {
+        setRun({ inputs, result: runMonteCarlo(inputs, { iterations, seed: 1 }) });
+      } catch (error) {
+        console.error('Monte Carlo error:', error);
+        toast.error('Simulation failed', {
+          description: error instanceof Error ? error.message : 'An error occurred during simulation.',
+        });
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const result = run?.result;
+  const isStale = run !== null && run.inputs !== inputs;
+  const distribution = result?.distributions[metric];
+
+  const histogramData = distribution
+    ? buildHistogram(distribution.values, 25).map((bin) => ({
+        label: formatAxisValue((bin.from + bin.to) / 2, metric),
+        range: `${formatMetricValue(bin.from, metric)} – ${formatMetricValue(bin.to, metric)}`,
+        count: bin.count,
+      }))
+    : [];
+  const curveData = distribution
+    ? buildExceedanceCurve(distribution.values).map((point) => ({
+        probability: Math.round(point.probability * 100),
+        value: point.value,
+      }))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Sigma className="h-5 w-5 text-primary" />
+            Yield Risk (P50 / P90)
+          </CardTitle>
+          <CardDescription>
+            Exceedance yields and Monte Carlo distribution of returns. Debt is sized on the{' '}
+            {sizingCase} case.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(iterations)} onValueChange={(v) => setIterations(Number(v))}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ITERATION_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n.toLocaleString()} runs
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleRun} disabled={isRunning}>
+            {isRunning ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Dices className="mr-2 h-4 w-4" />
+            )}
+            Run Simulation
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Analytical exceedance yields */}
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Year 0 Yield</TableHead>
+                {exceedanceYields.map((row) => (
+                  <TableHead key={row.level} className="text-right">
+                    {row.level}
+                    {row.level === sizingCase && (
+                      <Badge variant="outline" className="ml-2 text-xs">
+                        Debt sizing
+                      </Badge>
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-medium">1-year</TableCell>
+                {exceedanceYields.map((row) => (
+                  <TableCell key={row.level} className="text-right tabular-nums">
+                    {Math.round(row.oneYear).toLocaleString()} MWh
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">10-year average</TableCell>
+                {exceedanceYields.map((row) => (
+                  <TableCell key={row.level} className="text-right tabular-nums">
+                    {Math.round(row.tenYear).toLocaleString()} MWh
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        {!result ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Run the simulation to see IRR and DSCR distributions.
+          </p>
+        ) : (
+          <>
+            {isStale && (
+              <p className="text-sm text-yellow-600">
+                Inputs have changed since this simulation ran. Run it again to update.
+              </p>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead>Metric ({result.iterations.toLocaleString()} runs)</TableHead>
+                    <TableHead className="text-right">Mean</TableHead>
+                    {EXCEEDANCE_LEVELS.map((level) => (
+                      <TableHead key={level} className="text-right">
+                        {level}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {MONTE_CARLO_METRICS.map((m) => {
+                    const d = result.distributions[m.key];
+                    return (
+                      <TableRow key={m.key}>
+                        <TableCell className="font-medium">{m.label}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatMetricValue(d.mean, m.key)}
+                        </TableCell>
+                        {EXCEEDANCE_LEVELS.map((level) => (
+                          <TableCell key={level} className="text-right tabular-nums">
+                            {formatMetricValue(d.exceedance[level], m.key)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={result.dscrBelowTarget > 0.1 ? 'destructive' : 'secondary'}>
+                Min DSCR below {inputs.target_dscr.toFixed(2)}x: {(result.dscrBelowTarget * 100).toFixed(1)}% of runs
+              </Badge>
+              <Badge variant={result.dscrBelowOne > 0.01 ? 'destructive' : 'secondary'}>
+                Min DSCR below 1.00x: {(result.dscrBelowOne * 100).toFixed(1)}% of runs
+              </Badge>
+            </div>
+
+            <div className="flex justify-end">
+              <Select value={metric} onValueChange={(v) => setMetric(v as MonteCarloMetric)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTE_CARLO_METRICS.map((m) => (
+                    <SelectItem key={m.key} value={m.key}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Histogram</h4>
+                <div className="h-[260px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={histogramData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                      <XAxis dataKey="label" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} interval={4} />
+                      <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} allowDecimals={false} />
+                      <Tooltip
+                        formatter={(value) => [value, 'Runs']}
+                        labelFormatter={(_, payload) => payload?.[0]?.payload?.range ?? ''}
+                        contentStyle={TOOLTIP_STYLE}
+                      />
+                      <Bar dataKey="count" fill="#3b82f6" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Exceedance Curve</h4>
+                <div className="h-[260px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={curveData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis
+                        dataKey="probability"
+                        type="number"
+                        domain={[0, 100]}
+                        tick={{ fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(v: number) => `P${v}`}
+                      />
+                      <YAxis
+                        tick={{ fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                        domain={['auto', 'auto']}
+                        tickFormatter={(v: number) => formatAxisValue(v, metric)}
+                      />
+                      <Tooltip
+                        formatter={(value) => [formatMetricValue(Number(value), metric), 'Value']}
+                        labelFormatter={(label) => `Exceeded with ${label}% probability`}
+                        contentStyle={TOOLTIP_STYLE}
+                      />
+                      <ReferenceLine x={50} stroke="#64748b" strokeDasharray="4 4" label={{ value: 'P50', fontSize: 11 }} />
+                      <ReferenceLine x={90} stroke="#ef4444" strokeDasharray="4 4" label={{ value: 'P90', fontSize: 11 }} />
+                      <Line type="monotone" dataKey="value" stroke="#0f172a" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
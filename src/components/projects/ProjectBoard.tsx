@@ -5,6 +5,7 @@ import { useDisplayStore } from '@/stores/displayStore';
 import { BoardColumn } from './BoardColumn';
 import { PRIORITY_LABELS, PRIORITY_COLORS } from '@/lib/constants';
 import type { Project, Priority } from '@/lib/types';
+import { matchesProjectFilters } from '@/lib/projectFilters';
 import {
   DndContext,
   DragOverlay,
@@ -91,25 +92,7 @@ export function ProjectBoard({ onProjectHover }: ProjectBoardProps) {
   }, [columnBy, rowBy]);
 
   // Apply filters
-  const filteredProjects = projects.filter((project) => {
-    if (filters.stages.length > 0 && !filters.stages.includes(project.currentStageId)) {
-      return false;
-    }
-    if (filters.priorities.length > 0 && !filters.priorities.includes(project.priority)) {
-      return false;
-    }
-    if (filters.owners.length > 0 && !filters.owners.includes(project.owner)) {
-      return false;
-    }
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      return (
-        project.name.toLowerCase().includes(searchLower) ||
-        project.location.toLowerCase().includes(searchLower)
-      );
-    }
-    return true;
-  });
+  const filteredProjects = projects.filter((project) => matchesProjectFilters(project, filters));
 
   const getStageName = (stageId: string): string => {
     const stage = workflow.stages.find((s) => s.id === stageId);
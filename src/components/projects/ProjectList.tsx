@@ -13,6 +13,7 @@ import { getUserDisplayName } from '@/lib/userUtils';
 import { getNextMilestone, formatMilestoneDate } from '@/lib/milestoneUtils';
 import { PRIORITY_LABELS } from '@/lib/constants';
 import type { Priority, Project } from '@/lib/types';
+import { matchesProjectFilters } from '@/lib/projectFilters';
 
 interface ProjectListProps {
   onProjectHover?: (projectId: string | null) => void;
@@ -49,25 +50,7 @@ export function ProjectList({ onProjectHover }: ProjectListProps) {
   };
 
   // Apply filters
-  const filteredProjects = projects.filter((project) => {
-    if (filters.stages.length > 0 && !filters.stages.includes(project.currentStageId)) {
-      return false;
-    }
-    if (filters.priorities.length > 0 && !filters.priorities.includes(project.priority)) {
-      return false;
-    }
-    if (filters.owners.length > 0 && !filters.owners.includes(project.owner)) {
-      return false;
-    }
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      return (
-        project.name.toLowerCase().includes(searchLower) ||
-        project.location.toLowerCase().includes(searchLower)
-      );
-    }
-    return true;
-  });
+  const filteredProjects = projects.filter((project) => matchesProjectFilters(project, filters));
 
   // Apply sorting
   const sortedProjects = [...filteredProjects].sort((a, b) => {
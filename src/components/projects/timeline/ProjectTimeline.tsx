@@ -9,6 +9,7 @@ import { TimelineGrid } from './TimelineGrid';
 import { MilestoneDialog } from '../milestones/MilestoneDialog';
 import { differenceInDays } from 'date-fns';
 import type { Milestone, Task } from '@/lib/types';
+import { matchesProjectFilters } from '@/lib/projectFilters';
 
 export function ProjectTimeline() {
   const navigate = useNavigate();
@@ -50,25 +51,7 @@ export function ProjectTimeline() {
   const [rangeStart, rangeEnd] = dateRange;
 
   // Apply filters (same as list/board views)
-  const filteredProjects = projects.filter((project) => {
-    if (filters.stages.length > 0 && !filters.stages.includes(project.currentStageId)) {
-      return false;
-    }
-    if (filters.priorities.length > 0 && !filters.priorities.includes(project.priority)) {
-      return false;
-    }
-    if (filters.owners.length > 0 && !filters.owners.includes(project.owner)) {
-      return false;
-    }
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      return (
-        project.name.toLowerCase().includes(searchLower) ||
-        project.location.toLowerCase().includes(searchLower)
-      );
-    }
-    return true;
-  });
+  const filteredProjects = projects.filter((project) => matchesProjectFilters(project, filters));
 
   const handleRangeChange = (start: Date, end: Date) => {
     setDateRange([start, end]);
@@ -17,8 +17,17 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { ModuleSelector } from './ModuleSelector';
 import { LayoutPreview } from './LayoutPreview';
+import { LayoutOptimizerPanel } from './LayoutOptimizerPanel';
 import { useDesignStore } from '@/stores/designStore';
 import { useComponentStore } from '@/stores/componentStore';
 import { useUserStore } from '@/stores/userStore';
@@ -27,10 +36,11 @@ import { squareMetersToAcres } from '@/lib/kml/parser';
 import {
   DEFAULT_LAYOUT_PARAMETERS,
   LAYOUT_PARAMETER_LIMITS,
+  LAYOUT_PARAMETER_LABELS,
   LAYOUT_PARAMETER_DESCRIPTIONS,
 } from '@/lib/types/layout';
 import type { Site } from '@/lib/types/site';
-import type { ModuleInput, LayoutParameters } from '@/lib/types/layout';
+import type { ModuleInput, LayoutParameters, MountType } from '@/lib/types/layout';
 import {
   Zap,
   Grid3X3,
@@ -40,6 +50,8 @@ import {
   Map,
   Rows3,
   ArrowLeftRight,
+  Sparkles,
+  Mountain,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import type { GeneratedLayout } from '@/lib/types/layout';
@@ -131,6 +143,7 @@ export function GenerateDesignDialog({
 
   // Calculate modules per frame for display
   const modulesPerFrame = parameters.frameRows * parameters.frameColumns;
+  const isTracker = parameters.mountType === 'single_axis_tracker';
 
   // Live estimate based on parameters
   const estimate = useMemo(() => {
@@ -147,6 +160,22 @@ export function GenerateDesignDialog({
     []
   );
 
+  const handleMountTypeChange = useCallback((mountType: MountType) => {
+    setParameters((prev) => ({ ...prev, mountType }));
+  }, []);
+
+  // Take only the swept values so other edits made after the run are kept
+  const handleApplyOptimized = useCallback((optimized: LayoutParameters) => {
+    setParameters((prev) => ({
+      ...prev,
+      tiltAngle: optimized.tiltAngle,
+      frameGapY: optimized.frameGapY,
+      frameRows: optimized.frameRows,
+      frameColumns: optimized.frameColumns,
+      azimuth: optimized.azimuth,
+    }));
+  }, []);
+
   const handleGenerate = async () => {
     if (!currentUser) {
       toast.error('You must be logged in to create designs');
@@ -199,6 +228,11 @@ export function GenerateDesignDialog({
       toast.success(
         `Design created: ${layout.summary.totalFrames.toLocaleString()} frames, ${layout.summary.dcCapacityMw.toFixed(2)} MW`
       );
+      if (layout.summary.slopeRejectedFrames) {
+        toast.info(
+          `${layout.summary.slopeRejectedFrames.toLocaleString()} frames skipped on ground steeper than the slope limits`
+        );
+      }
 
       onOpenChange(false);
 
@@ -366,21 +400,96 @@ export function GenerateDesignDialog({
               <Label className="text-sm font-medium">Tilt & Orientation</Label>
             </div>
 
-            <ParameterSlider
-              label="Tilt Angle"
-              value={parameters.tiltAngle}
-              onChange={(v) => handleParameterChange('tiltAngle', v)}
-              min={LAYOUT_PARAMETER_LIMITS.tiltAngle.min}
-              max={LAYOUT_PARAMETER_LIMITS.tiltAngle.max}
-              step={LAYOUT_PARAMETER_LIMITS.tiltAngle.step}
-              unit="°"
-              description={LAYOUT_PARAMETER_DESCRIPTIONS.tiltAngle}
-            />
-
-            <div className="text-xs text-muted-foreground flex items-center gap-1">
-              <Info className="h-3 w-3" />
-              Azimuth fixed at 180° (south-facing). More options coming soon.
+            <div className="space-y-2">
+              <Label className="text-sm">{LAYOUT_PARAMETER_LABELS.mountType}</Label>
+              <Select
+                value={parameters.mountType ?? 'fixed_tilt'}
+                onValueChange={(v) => handleMountTypeChange(v as MountType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed_tilt">Fixed tilt</SelectItem>
+                  <SelectItem value="single_axis_tracker">Single-axis tracker (N-S)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {LAYOUT_PARAMETER_DESCRIPTIONS.mountType}
+              </p>
             </div>
+
+            {isTracker ? (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <ParameterSlider
+                    label={LAYOUT_PARAMETER_LABELS.trackerMaxRotationDeg}
+                    value={parameters.trackerMaxRotationDeg ?? 60}
+                    onChange={(v) => handleParameterChange('trackerMaxRotationDeg', v)}
+                    min={LAYOUT_PARAMETER_LIMITS.trackerMaxRotationDeg.min}
+                    max={LAYOUT_PARAMETER_LIMITS.trackerMaxRotationDeg.max}
+                    step={LAYOUT_PARAMETER_LIMITS.trackerMaxRotationDeg.step}
+                    unit="°"
+                    displayValue={(v) => `±${v}`}
+                    description={LAYOUT_PARAMETER_DESCRIPTIONS.trackerMaxRotationDeg}
+                  />
+
+                  <ParameterSlider
+                    label={LAYOUT_PARAMETER_LABELS.trackerPitchM}
+                    value={parameters.trackerPitchM ?? 6}
+                    onChange={(v) => handleParameterChange('trackerPitchM', v)}
+                    min={LAYOUT_PARAMETER_LIMITS.trackerPitchM.min}
+                    max={LAYOUT_PARAMETER_LIMITS.trackerPitchM.max}
+                    step={LAYOUT_PARAMETER_LIMITS.trackerPitchM.step}
+                    unit="m"
+                    description={LAYOUT_PARAMETER_DESCRIPTIONS.trackerPitchM}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="trackerBacktracking" className="text-sm">
+                      {LAYOUT_PARAMETER_LABELS.trackerBacktracking}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      {LAYOUT_PARAMETER_DESCRIPTIONS.trackerBacktracking}
+                    </p>
+                  </div>
+                  <Switch
+                    id="trackerBacktracking"
+                    checked={parameters.trackerBacktracking ?? true}
+                    onCheckedChange={(checked) =>
+                      setParameters((prev) => ({ ...prev, trackerBacktracking: checked }))
+                    }
+                  />
+                </div>
+
+                <div className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Info className="h-3 w-3" />
+                  Tracker rows run north-south with modules in portrait ({parameters.frameRows}P).
+                </div>
+              </>
+            ) : (
+              <>
+                <ParameterSlider
+                  label="Tilt Angle"
+                  value={parameters.tiltAngle}
+                  onChange={(v) => handleParameterChange('tiltAngle', v)}
+                  min={LAYOUT_PARAMETER_LIMITS.tiltAngle.min}
+                  max={LAYOUT_PARAMETER_LIMITS.tiltAngle.max}
+                  step={LAYOUT_PARAMETER_LIMITS.tiltAngle.step}
+                  unit="°"
+                  description={LAYOUT_PARAMETER_DESCRIPTIONS.tiltAngle}
+                />
+
+                <div className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Info className="h-3 w-3" />
+                  Azimuth {parameters.azimuth}°
+                  {parameters.azimuth === 180 ? ' (south-facing)' : ''}. Use the layout optimizer to
+                  search other orientations.
+                </div>
+              </>
+            )}
           </div>
 
           <Separator />
@@ -404,16 +513,18 @@ export function GenerateDesignDialog({
                 description="Horizontal gap between frames"
               />
 
-              <ParameterSlider
-                label="Frame Gap (Y)"
-                value={parameters.frameGapY}
-                onChange={(v) => handleParameterChange('frameGapY', v)}
-                min={LAYOUT_PARAMETER_LIMITS.frameGapY.min}
-                max={LAYOUT_PARAMETER_LIMITS.frameGapY.max}
-                step={LAYOUT_PARAMETER_LIMITS.frameGapY.step}
-                unit="m"
-                description="Vertical gap between frame rows"
-              />
+              {!isTracker && (
+                <ParameterSlider
+                  label="Frame Gap (Y)"
+                  value={parameters.frameGapY}
+                  onChange={(v) => handleParameterChange('frameGapY', v)}
+                  min={LAYOUT_PARAMETER_LIMITS.frameGapY.min}
+                  max={LAYOUT_PARAMETER_LIMITS.frameGapY.max}
+                  step={LAYOUT_PARAMETER_LIMITS.frameGapY.step}
+                  unit="m"
+                  description="Vertical gap between frame rows"
+                />
+              )}
             </div>
 
             <ParameterSlider
@@ -429,6 +540,43 @@ export function GenerateDesignDialog({
             />
           </div>
 
+          {/* Terrain limits (sites with a DEM) */}
+          {site.terrain && (
+            <>
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Mountain className="h-4 w-4 text-muted-foreground" />
+                  <Label className="text-sm font-medium">Terrain</Label>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <ParameterSlider
+                    label={LAYOUT_PARAMETER_LABELS.maxSlopeNSPercent}
+                    value={parameters.maxSlopeNSPercent ?? 15}
+                    onChange={(v) => handleParameterChange('maxSlopeNSPercent', v)}
+                    min={LAYOUT_PARAMETER_LIMITS.maxSlopeNSPercent.min}
+                    max={LAYOUT_PARAMETER_LIMITS.maxSlopeNSPercent.max}
+                    step={LAYOUT_PARAMETER_LIMITS.maxSlopeNSPercent.step}
+                    unit="%"
+                    description={LAYOUT_PARAMETER_DESCRIPTIONS.maxSlopeNSPercent}
+                  />
+                  <ParameterSlider
+                    label={LAYOUT_PARAMETER_LABELS.maxSlopeEWPercent}
+                    value={parameters.maxSlopeEWPercent ?? 10}
+                    onChange={(v) => handleParameterChange('maxSlopeEWPercent', v)}
+                    min={LAYOUT_PARAMETER_LIMITS.maxSlopeEWPercent.min}
+                    max={LAYOUT_PARAMETER_LIMITS.maxSlopeEWPercent.max}
+                    step={LAYOUT_PARAMETER_LIMITS.maxSlopeEWPercent.step}
+                    unit="%"
+                    description={LAYOUT_PARAMETER_DESCRIPTIONS.maxSlopeEWPercent}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
           <Separator />
 
           {/* Corridor Configuration */}
@@ -506,7 +654,36 @@ export function GenerateDesignDialog({
 
           <Separator />
 
-          {/* Estimate summary */}
+          {/* Layout optimizer */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Sparkles className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-sm font-medium">Layout Optimizer</Label>
+            </div>
+            {isTracker ? (
+              <div className="text-xs text-muted-foreground flex items-center gap-1">
+                <Info className="h-3 w-3" />
+                The optimizer searches fixed-tilt layouts only.
+              </div>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  Sweep tilt, row gap, frame size and azimuth, scored by DC capacity, yield and
+                  LCOE. Pick a layout from the Pareto front to apply its parameters.
+                </p>
+                <LayoutOptimizerPanel
+                  site={site}
+                  module={module}
+                  parameters={parameters}
+                  onApply={handleApplyOptimized}
+                />
+              </>
+            )}
+          </div>
+
+          <Separator />
+
+                    {/* Estimate summary */}
           <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
             <div className="text-sm font-medium mb-3 text-primary">
               Estimated Output
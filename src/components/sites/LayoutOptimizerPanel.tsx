@@ -0,0 +1,300 @@
+/**
+ * LayoutOptimizerPanel - Sweep layout parameters and pick from the Pareto front
+ */
+
+import { useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useLayoutOptimizer } from '@/hooks/useLayoutOptimizer';
+import { createDefaultSearchSpace, DEFAULT_MAX_CANDIDATES } from '@/lib/layout';
+import type { LayoutCandidate, LayoutSearchSpace } from '@/lib/layout';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { Site } from '@/lib/types/site';
+import type { ModuleInput, LayoutParameters } from '@/lib/types/layout';
+import { Loader2, Sparkles, X } from 'lucide-react';
+
+interface LayoutOptimizerPanelProps {
+  site: Site;
+  module: ModuleInput;
+  parameters: LayoutParameters;
+  onApply: (parameters: LayoutParameters) => void;
+}
+
+type SweptParameter = keyof LayoutSearchSpace;
+
+const SWEPT_PARAMETERS: Array<{ key: SweptParameter; label: string }> = [
+  { key: 'tiltAngle', label: 'Tilt' },
+  { key: 'frameGapY', label: 'Row gap (pitch)' },
+  { key: 'frameRows', label: 'Frame rows' },
+  { key: 'frameColumns', label: 'Frame columns' },
+  { key: 'azimuth', label: 'Azimuth' },
+];
+
+export function LayoutOptimizerPanel({
+  site,
+  module,
+  parameters,
+  onApply,
+}: LayoutOptimizerPanelProps) {
+  const { status, progress, result, error, run, cancel } = useLayoutOptimizer();
+
+  const [swept, setSwept] = useState<Record<SweptParameter, boolean>>({
+    tiltAngle: true,
+    frameGapY: true,
+    frameRows: true,
+    frameColumns: true,
+    azimuth: false,
+  });
+  const [maxCandidates, setMaxCandidates] = useState(String(DEFAULT_MAX_CANDIDATES));
+  const [capexPerMw, setCapexPerMw] = useState(String(DEFAULT_FINANCIAL_INPUTS.capex_per_mw));
+  const [omPerMw, setOmPerMw] = useState(String(DEFAULT_FINANCIAL_INPUTS.om_cost_per_mw_year));
+  const [fixedCapex, setFixedCapex] = useState('0');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const isRunning = status === 'running';
+  const canRun = !!site.centroid && !!module.wattage && !isRunning;
+
+  const handleRun = () => {
+    if (!site.centroid) return;
+
+    // Parameters not swept stay at their current value
+    const defaults = createDefaultSearchSpace(site.centroid.latitude);
+    const searchSpace: LayoutSearchSpace = {
+      tiltAngle: swept.tiltAngle ? defaults.tiltAngle : [parameters.tiltAngle],
+      frameGapY: swept.frameGapY ? defaults.frameGapY : [parameters.frameGapY],
+      frameRows: swept.frameRows ? defaults.frameRows : [parameters.frameRows],
+      frameColumns: swept.frameColumns ? defaults.frameColumns : [parameters.frameColumns],
+      azimuth: swept.azimuth ? defaults.azimuth : [parameters.azimuth],
+    };
+
+    setSelectedId(null);
+    run({
+      site,
+      module,
+      baseParameters: parameters,
+      searchSpace,
+      maxCandidates: parseInt(maxCandidates) || DEFAULT_MAX_CANDIDATES,
+      financial: {
+        capex_per_mw: parseFloat(capexPerMw) || DEFAULT_FINANCIAL_INPUTS.capex_per_mw,
+        om_cost_per_mw_year: parseFloat(omPerMw) || DEFAULT_FINANCIAL_INPUTS.om_cost_per_mw_year,
+      },
+      fixedCapex: parseFloat(fixedCapex) || 0,
+    });
+  };
+
+  const handleApply = (candidate: LayoutCandidate) => {
+    setSelectedId(candidate.id);
+    onApply(candidate.parameters);
+  };
+
+  const toPoint = (c: LayoutCandidate) => ({
+    id: c.id,
+    mw: c.dcCapacityKw / 1000,
+    lcoe: c.lcoe,
+    candidate: c,
+  });
+  const dominated = result?.candidates.filter((c) => !c.paretoOptimal).map(toPoint) ?? [];
+  const front = result?.paretoFront.map(toPoint) ?? [];
+
+  return (
+    <div className="space-y-4">
+      {/* Search setup */}
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {SWEPT_PARAMETERS.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-2">
+            <Checkbox
+              id={`optimize-${key}`}
+              checked={swept[key]}
+              onCheckedChange={(checked) =>
+                setSwept((prev) => ({ ...prev, [key]: checked === true }))
+              }
+            />
+            <Label htmlFor={`optimize-${key}`} className="text-sm font-normal">
+              {label}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">CAPEX (€/MW)</Label>
+          <Input type="number" value={capexPerMw} onChange={(e) => setCapexPerMw(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">O&M (€/MW/yr)</Label>
+          <Input type="number" value={omPerMw} onChange={(e) => setOmPerMw(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Fixed site cost (€)</Label>
+          <Input type="number" value={fixedCapex} onChange={(e) => setFixedCapex(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Max layouts</Label>
+          <Input
+            type="number"
+            min={1}
+            value={maxCandidates}
+            onChange={(e) => setMaxCandidates(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="secondary" onClick={handleRun} disabled={!canRun}>
+          {isRunning ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Sparkles className="h-4 w-4 mr-2" />
+          )}
+          {isRunning ? 'Optimizing...' : 'Run Optimizer'}
+        </Button>
+        {isRunning && (
+          <Button size="sm" variant="ghost" onClick={cancel}>
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+        {!site.centroid && (
+          <span className="text-xs text-muted-foreground">Site needs a centroid to optimize</span>
+        )}
+      </div>
+
+      {isRunning && progress.total > 0 && (
+        <div className="space-y-1">
+          <Progress value={(progress.evaluated / progress.total) * 100} className="h-2" />
+          <div className="text-xs text-muted-foreground">
+            {progress.evaluated} / {progress.total} layouts
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      {/* Results */}
+      {result && (
+        <div className="space-y-3">
+          <div className="text-xs text-muted-foreground">
+            {result.candidates.length} layouts scored
+            {result.gridSize > result.evaluated &&
+              ` (sampled from ${result.gridSize.toLocaleString()} combinations)`}
+            , {result.paretoFront.length} on the Pareto front
+          </div>
+
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  type="number"
+                  dataKey="mw"
+                  name="DC capacity"
+                  unit=" MW"
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(v: number) => v.toFixed(1)}
+                  domain={['auto', 'auto']}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="lcoe"
+                  name="LCOE"
+                  unit=" €/MWh"
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(v: number) => v.toFixed(0)}
+                  domain={['auto', 'auto']}
+                  width={80}
+                />
+                <Tooltip
+                  formatter={(value, name) => [
+                    name === 'DC capacity'
+                      ? `${(Number(value) || 0).toFixed(2)} MW`
+                      : `${(Number(value) || 0).toFixed(1)} €/MWh`,
+                    name,
+                  ]}
+                />
+                <Legend />
+                <Scatter name="Candidates" data={dominated} fill="#94a3b8" />
+                <Scatter
+                  name="Pareto front"
+                  data={front}
+                  fill="#2563eb"
+                  line
+                  onClick={(point: { candidate?: LayoutCandidate }) => {
+                    if (point.candidate) handleApply(point.candidate);
+                  }}
+                />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="max-h-[240px] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">MW DC</TableHead>
+                  <TableHead className="text-xs">GWh/yr</TableHead>
+                  <TableHead className="text-xs">kWh/kWp</TableHead>
+                  <TableHead className="text-xs">LCOE</TableHead>
+                  <TableHead className="text-xs">Configuration</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.paretoFront.map((c) => (
+                  <TableRow
+                    key={c.id}
+                    className={c.id === selectedId ? 'bg-primary/10' : undefined}
+                  >
+                    <TableCell className="text-xs tabular-nums">
+                      {(c.dcCapacityKw / 1000).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-xs tabular-nums">
+                      {(c.annualYieldMwh / 1000).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-xs tabular-nums">
+                      {c.specificYield.toFixed(0)}
+                    </TableCell>
+                    <TableCell className="text-xs tabular-nums">
+                      {c.lcoe.toFixed(1)}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {c.parameters.tiltAngle}° · {c.parameters.frameGapY}m gap ·{' '}
+                      {c.parameters.frameRows}×{c.parameters.frameColumns} · {c.parameters.azimuth}°
+                      az · {c.rowShadingLoss.toFixed(1)}% row shading
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => handleApply(c)}>
+                        Apply
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
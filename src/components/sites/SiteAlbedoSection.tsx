@@ -0,0 +1,166 @@
+/**
+ * SiteAlbedoSection - Ground reflectance of the site (monthly values and
+ * snow cover) used for the bifacial rear-side gain
+ */
+
+import { useState } from 'react';
+import { useSiteStore } from '@/stores/siteStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { createSiteAlbedo, monthlyEffectiveAlbedo } from '@/lib/yield';
+import { MONTH_NAMES_SHORT } from '@/lib/calculator/constants';
+import { GROUND_COVER_ALBEDO, GROUND_COVER_LABELS } from '@/lib/types/site';
+import type { GroundCoverType, Site, SiteAlbedo } from '@/lib/types/site';
+import { Snowflake } from 'lucide-react';
+
+interface SiteAlbedoSectionProps {
+  site: Site;
+}
+
+interface AlbedoDraft {
+  groundCover: GroundCoverType;
+  monthly: string[];
+  snowDays: string[];
+  snowAlbedo: string;
+}
+
+function toDraft(albedo: SiteAlbedo): AlbedoDraft {
+  return {
+    groundCover: albedo.groundCover,
+    monthly: albedo.monthly.map(String),
+    snowDays: albedo.snowDays.map(String),
+    snowAlbedo: String(albedo.snowAlbedo),
+  };
+}
+
+function clamp(value: string, max: number): number {
+  const n = parseFloat(value);
+  return isFinite(n) ? Math.min(max, Math.max(0, n)) : 0;
+}
+
+export function SiteAlbedoSection({ site }: SiteAlbedoSectionProps) {
+  const updateSite = useSiteStore((state) => state.updateSite);
+  const [draft, setDraft] = useState<AlbedoDraft>(() => toDraft(site.albedo ?? createSiteAlbedo()));
+
+  const albedo: SiteAlbedo = {
+    groundCover: draft.groundCover,
+    monthly: draft.monthly.map((v) => clamp(v, 1)),
+    snowDays: draft.snowDays.map((v) => clamp(v, 31)),
+    snowAlbedo: clamp(draft.snowAlbedo, 1),
+  };
+  const effective = monthlyEffectiveAlbedo(albedo);
+  const annualMean = effective.reduce((a, b) => a + b, 0) / 12;
+
+  const handleGroundCoverChange = (groundCover: GroundCoverType) => {
+    setDraft((d) => ({
+      ...d,
+      groundCover,
+      monthly:
+        groundCover === 'custom' ? d.monthly : new Array(12).fill(String(GROUND_COVER_ALBEDO[groundCover])),
+    }));
+  };
+
+  // Editing a single month makes the profile custom
+  const handleMonthChange = (field: 'monthly' | 'snowDays', month: number, value: string) => {
+    setDraft((d) => ({
+      ...d,
+      groundCover: field === 'monthly' ? 'custom' : d.groundCover,
+      [field]: d[field].map((v, i) => (i === month ? value : v)),
+    }));
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2 flex items-center gap-2">
+        <Snowflake className="h-4 w-4" />
+        Ground Albedo
+      </h3>
+      <div className="text-sm text-muted-foreground mb-3">
+        Annual mean {annualMean.toFixed(2)}
+        {albedo.snowDays.some((d) => d > 0) && ' (with snow cover)'}
+        {!site.albedo && ' - default, not saved'}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Ground cover</Label>
+            <Select
+              value={draft.groundCover}
+              onValueChange={(v) => handleGroundCoverChange(v as GroundCoverType)}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GROUND_COVER_LABELS) as GroundCoverType[]).map((cover) => (
+                  <SelectItem key={cover} value={cover}>
+                    {GROUND_COVER_LABELS[cover]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="snow-albedo" className="text-xs text-muted-foreground">
+              Snow albedo
+            </Label>
+            <Input
+              id="snow-albedo"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.snowAlbedo}
+              onChange={(e) => setDraft((d) => ({ ...d, snowAlbedo: e.target.value }))}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Albedo / snow days per month</Label>
+          <div className="grid grid-cols-4 gap-2">
+            {MONTH_NAMES_SHORT.map((month, i) => (
+              <div key={month} className="space-y-0.5">
+                <div className="text-xs text-muted-foreground">{month}</div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  aria-label={`${month} albedo`}
+                  value={draft.monthly[i]}
+                  onChange={(e) => handleMonthChange('monthly', i, e.target.value)}
+                  className="h-7 px-1.5 text-xs"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={31}
+                  step={1}
+                  aria-label={`${month} snow days`}
+                  value={draft.snowDays[i]}
+                  onChange={(e) => handleMonthChange('snowDays', i, e.target.value)}
+                  className="h-7 px-1.5 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Button size="sm" variant="outline" onClick={() => updateSite(site.id, { albedo })}>
+          Save Albedo
+        </Button>
+      </div>
+    </div>
+  );
+}
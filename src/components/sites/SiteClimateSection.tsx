@@ -0,0 +1,122 @@
+/**
+ * SiteClimateSection - Monthly rain days, snowfall and soiling rate of the
+ * site, used for the soiling and snow yield losses
+ */
+
+import { useState } from 'react';
+import { useSiteStore } from '@/stores/siteStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { createSiteClimate, estimateMonthlySoiling } from '@/lib/yield';
+import { MONTH_NAMES_SHORT } from '@/lib/calculator/constants';
+import type { Site, SiteClimate } from '@/lib/types/site';
+import { CloudRain } from 'lucide-react';
+
+interface SiteClimateSectionProps {
+  site: Site;
+}
+
+interface ClimateDraft {
+  rainDays: string[];
+  snowfallCm: string[];
+  soilingRate: string;
+}
+
+function toDraft(climate: SiteClimate): ClimateDraft {
+  return {
+    rainDays: climate.rainDays.map(String),
+    snowfallCm: climate.snowfallCm.map(String),
+    soilingRate: String(climate.soilingRate),
+  };
+}
+
+function clamp(value: string, max: number): number {
+  const n = parseFloat(value);
+  return isFinite(n) ? Math.min(max, Math.max(0, n)) : 0;
+}
+
+export function SiteClimateSection({ site }: SiteClimateSectionProps) {
+  const updateSite = useSiteStore((state) => state.updateSite);
+  const [draft, setDraft] = useState<ClimateDraft>(() => toDraft(site.climate ?? createSiteClimate()));
+
+  const climate: SiteClimate = {
+    rainDays: draft.rainDays.map((v) => clamp(v, 31)),
+    snowfallCm: draft.snowfallCm.map((v) => clamp(v, 1000)),
+    soilingRate: clamp(draft.soilingRate, 5),
+  };
+  // Soiling with rain as the only cleaning, before any cleaning schedule
+  const rainOnlySoiling = estimateMonthlySoiling(climate.rainDays, climate.soilingRate);
+  const meanSoiling = rainOnlySoiling.reduce((a, b) => a + b, 0) / 12;
+  const annualSnowfall = climate.snowfallCm.reduce((a, b) => a + b, 0);
+
+  const handleMonthChange = (field: 'rainDays' | 'snowfallCm', month: number, value: string) => {
+    setDraft((d) => ({ ...d, [field]: d[field].map((v, i) => (i === month ? value : v)) }));
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2 flex items-center gap-2">
+        <CloudRain className="h-4 w-4" />
+        Climate (Soiling and Snow)
+      </h3>
+      <div className="text-sm text-muted-foreground mb-3">
+        {meanSoiling.toFixed(1)}% soiling with rain alone
+        {annualSnowfall > 0 && `, ${annualSnowfall.toFixed(0)} cm snowfall/year`}
+        {!site.climate && ' - default, not saved'}
+      </div>
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="soiling-rate" className="text-xs text-muted-foreground">
+            Soiling rate (% per dry day)
+          </Label>
+          <Input
+            id="soiling-rate"
+            type="number"
+            min={0}
+            max={5}
+            step={0.01}
+            value={draft.soilingRate}
+            onChange={(e) => setDraft((d) => ({ ...d, soilingRate: e.target.value }))}
+            className="h-8 w-32"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Rain days / snowfall (cm) per month</Label>
+          <div className="grid grid-cols-4 gap-2">
+            {MONTH_NAMES_SHORT.map((month, i) => (
+              <div key={month} className="space-y-0.5">
+                <div className="text-xs text-muted-foreground">{month}</div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={31}
+                  step={1}
+                  aria-label={`${month} rain days`}
+                  value={draft.rainDays[i]}
+                  onChange={(e) => handleMonthChange('rainDays', i, e.target.value)}
+                  className="h-7 px-1.5 text-xs"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  aria-label={`${month} snowfall`}
+                  value={draft.snowfallCm[i]}
+                  onChange={(e) => handleMonthChange('snowfallCm', i, e.target.value)}
+                  className="h-7 px-1.5 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Button size="sm" variant="outline" onClick={() => updateSite(site.id, { climate })}>
+          Save Climate
+        </Button>
+      </div>
+    </div>
+  );
+}
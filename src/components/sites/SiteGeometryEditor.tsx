@@ -0,0 +1,715 @@
+/**
+ * SiteGeometryEditor - Draw and edit site boundaries and exclusion zones
+ *
+ * Vertices can be dragged, inserted (click an edge midpoint) and deleted
+ * (right-click). Selected polygons can be offset by a setback, split along a
+ * line, merged with another polygon of the same kind and, for exclusion
+ * zones, given a type. Areas and the scorecard's usable % update live and
+ * every change can be undone until the edit is saved.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Polygon, Polyline, Marker, useMapEvents } from 'react-leaflet';
+import L, { LatLngBounds } from 'leaflet';
+import type { LeafletEvent, LeafletMouseEvent } from 'leaflet';
+import { useSiteStore } from '@/stores/siteStore';
+import { useUndoRedo } from '@/hooks/useUndoRedo';
+import {
+  openRing,
+  ringArea,
+  moveVertex,
+  insertVertex,
+  deleteVertex,
+  edgeMidpoints,
+  offsetRing,
+  splitRing,
+  mergeRings,
+  computeSiteAreas,
+  closeSitePolygons,
+  bufferFeature,
+} from '@/lib/sites';
+import { squareMetersToAcres } from '@/lib/kml/parser';
+import { calculateCompositeScore } from '@/lib/types/siteScorecard';
+import { EXCLUSION_ZONE_LABELS } from '@/lib/types/site';
+import type {
+  Site,
+  SiteBoundary,
+  SiteCoordinate,
+  SiteExclusionZone,
+  ExclusionZoneType,
+} from '@/lib/types/site';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  MousePointer2,
+  Pentagon,
+  Ban,
+  Undo2,
+  Redo2,
+  Save,
+  X,
+  Scissors,
+  Combine,
+  Trash2,
+  Check,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import 'leaflet/dist/leaflet.css';
+
+interface SiteGeometryEditorProps {
+  site: Site;
+  exclusionColors: Record<ExclusionZoneType, string>;
+  onClose: () => void;
+}
+
+interface EditorGeometry {
+  boundaries: SiteBoundary[];
+  exclusionZones: SiteExclusionZone[];
+}
+
+type PolygonKind = 'boundary' | 'exclusion';
+
+type EditorTool = 'select' | 'draw-boundary' | 'draw-exclusion' | 'split' | 'merge';
+
+interface Selection {
+  kind: PolygonKind;
+  id: string;
+}
+
+type LatLng = { lat: number; lng: number };
+
+const BOUNDARY_COLOR = '#22c55e';
+const SELECTED_COLOR = '#facc15';
+
+const vertexIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:10px;height:10px;background:#fff;border:2px solid #facc15;border-radius:2px"></div>',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5],
+});
+
+const midpointIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:8px;height:8px;background:#facc15;opacity:0.6;border-radius:50%"></div>',
+  iconSize: [8, 8],
+  iconAnchor: [4, 4],
+});
+
+const EXCLUSION_ZONE_TYPES = Object.keys(EXCLUSION_ZONE_LABELS) as ExclusionZoneType[];
+
+const TOOL_HINTS: Record<EditorTool, string> = {
+  select: 'Click a polygon to edit it. Drag vertices, click edge midpoints to add one, right-click to delete.',
+  'draw-boundary': 'Click to add boundary points. Double-click or Finish to close the polygon.',
+  'draw-exclusion': 'Click to add exclusion zone points. Double-click or Finish to close the polygon.',
+  split: 'Click two points to split the selected polygon along that line.',
+  merge: 'Click another polygon of the same kind to merge it into the selection.',
+};
+
+function initialGeometry(site: Site): EditorGeometry {
+  return {
+    boundaries: site.boundaries.map((b) => ({ ...b, coordinates: openRing(b.coordinates) })),
+    exclusionZones: site.exclusionZones.map((ez) => ({
+      ...ez,
+      coordinates: openRing(ez.coordinates),
+    })),
+  };
+}
+
+/**
+ * Replace the ring of one polygon. Edited terrain zones are no longer
+ * replaced when the slope analysis is re-run, and edited feature buffers
+ * become plain polygons.
+ */
+function withRing(
+  geometry: EditorGeometry,
+  selection: Selection,
+  ring: SiteCoordinate[]
+): EditorGeometry {
+  if (selection.kind === 'boundary') {
+    return {
+      ...geometry,
+      boundaries: geometry.boundaries.map((b) =>
+        b.id === selection.id ? { ...b, coordinates: ring } : b
+      ),
+    };
+  }
+  return {
+    ...geometry,
+    exclusionZones: geometry.exclusionZones.map((ez) =>
+      ez.id === selection.id
+        ? { ...ez, coordinates: ring, autoGenerated: undefined, feature: undefined }
+        : ez
+    ),
+  };
+}
+
+function findRing(geometry: EditorGeometry, selection: Selection | null): SiteCoordinate[] | null {
+  if (!selection) return null;
+  const polygons = selection.kind === 'boundary' ? geometry.boundaries : geometry.exclusionZones;
+  return polygons.find((p) => p.id === selection.id)?.coordinates ?? null;
+}
+
+/**
+ * Map click and double-click handling for the active tool
+ */
+function EditorMapEvents({
+  onClick,
+  onDoubleClick,
+}: {
+  onClick: (position: LatLng) => void;
+  onDoubleClick: () => void;
+}) {
+  useMapEvents({
+    click: (e) => onClick(e.latlng),
+    dblclick: () => onDoubleClick(),
+  });
+  return null;
+}
+
+export function SiteGeometryEditor({ site, exclusionColors, onClose }: SiteGeometryEditorProps) {
+  const updateSiteGeometry = useSiteStore((state) => state.updateSiteGeometry);
+  const { value: geometry, push, replace, undo, redo, canUndo, canRedo } =
+    useUndoRedo<EditorGeometry>(() => initialGeometry(site));
+
+  const [tool, setTool] = useState<EditorTool>('select');
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [drawing, setDrawing] = useState<LatLng[]>([]);
+  const [setbackM, setSetbackM] = useState('10');
+
+  const bounds = useMemo(() => {
+    const coords = site.boundaries.flatMap((b) => b.coordinates);
+    if (coords.length > 0) return new LatLngBounds(coords.map((c) => [c.lat, c.lng]));
+    const center = site.centroid ?? { latitude: 37.775, longitude: -122.415 };
+    return new LatLngBounds(
+      [center.latitude - 0.01, center.longitude - 0.01],
+      [center.latitude + 0.01, center.longitude + 0.01]
+    );
+  }, [site.boundaries, site.centroid]);
+
+  // Live areas and scorecard usable %
+  const areas = useMemo(() => {
+    const closed = closeSitePolygons(geometry.boundaries, geometry.exclusionZones);
+    return computeSiteAreas(closed.boundaries, closed.exclusionZones);
+  }, [geometry]);
+  const compositeScore = site.scorecard
+    ? calculateCompositeScore({ ...site.scorecard, usableAreaPercent: areas.usableAreaPercent })
+    : null;
+
+  const selectedRing = findRing(geometry, selection);
+  const selectedZone =
+    selection?.kind === 'exclusion'
+      ? geometry.exclusionZones.find((ez) => ez.id === selection.id)
+      : undefined;
+
+  const isDrawing = tool === 'draw-boundary' || tool === 'draw-exclusion';
+
+  const changeTool = (next: EditorTool) => {
+    setTool(next);
+    setDrawing([]);
+  };
+
+  const finishDrawing = () => {
+    // A double-click also fires two clicks on the same spot
+    const points = drawing.filter(
+      (p, i) => i === 0 || p.lat !== drawing[i - 1].lat || p.lng !== drawing[i - 1].lng
+    );
+    if (points.length < 3) {
+      toast.error('A polygon needs at least three points');
+      return;
+    }
+    const id = crypto.randomUUID();
+    const coordinates = points.map((p) => ({ lat: p.lat, lng: p.lng }));
+
+    if (tool === 'draw-boundary') {
+      push((g) => ({
+        ...g,
+        boundaries: [
+          ...g.boundaries,
+          { id, name: `Boundary ${g.boundaries.length + 1}`, coordinates },
+        ],
+      }));
+      setSelection({ kind: 'boundary', id });
+    } else {
+      push((g) => ({
+        ...g,
+        exclusionZones: [
+          ...g.exclusionZones,
+          {
+            id,
+            name: `Exclusion ${g.exclusionZones.length + 1}`,
+            type: 'other',
+            coordinates,
+          },
+        ],
+      }));
+      setSelection({ kind: 'exclusion', id });
+    }
+    setDrawing([]);
+    setTool('select');
+  };
+
+  const handleMapClick = (position: LatLng) => {
+    if (isDrawing) {
+      setDrawing((prev) => [...prev, position]);
+    } else if (tool === 'split') {
+      const line = [...drawing, position];
+      if (line.length < 2) {
+        setDrawing(line);
+        return;
+      }
+      applySplit(line[0], line[1]);
+    } else if (tool === 'select') {
+      setSelection(null);
+    }
+  };
+
+  const handleMapDoubleClick = () => {
+    if (isDrawing) finishDrawing();
+  };
+
+  const handlePolygonClick = (e: LeafletMouseEvent, target: Selection) => {
+    L.DomEvent.stopPropagation(e);
+    if (tool === 'merge') {
+      applyMerge(target);
+      return;
+    }
+    setSelection(target);
+  };
+
+  const applySplit = (from: LatLng, to: LatLng) => {
+    setDrawing([]);
+    setTool('select');
+    if (!selection || !selectedRing) return;
+
+    const pieces = splitRing(selectedRing, from, to);
+    if (pieces.length < 2) {
+      toast.error('The line does not cross the selected polygon');
+      return;
+    }
+
+    push((g) => {
+      const split = withRing(g, selection, pieces[0]);
+      if (selection.kind === 'boundary') {
+        const source = g.boundaries.find((b) => b.id === selection.id)!;
+        return {
+          ...split,
+          boundaries: [
+            ...split.boundaries,
+            ...pieces.slice(1).map((ring, i) => ({
+              ...source,
+              id: crypto.randomUUID(),
+              name: `${source.name} (${i + 2})`,
+              coordinates: ring,
+            })),
+          ],
+        };
+      }
+      const source = g.exclusionZones.find((ez) => ez.id === selection.id)!;
+      return {
+        ...split,
+        exclusionZones: [
+          ...split.exclusionZones,
+          ...pieces.slice(1).map((ring, i) => ({
+            ...source,
+            id: crypto.randomUUID(),
+            name: `${source.name} (${i + 2})`,
+            coordinates: ring,
+            autoGenerated: undefined,
+            feature: undefined,
+          })),
+        ],
+      };
+    });
+  };
+
+  const applyMerge = (target: Selection) => {
+    setTool('select');
+    if (!selection || !selectedRing || target.id === selection.id) return;
+    if (target.kind !== selection.kind) {
+      toast.error('Boundaries can only be merged with boundaries, zones with zones');
+      return;
+    }
+
+    const merged = mergeRings([selectedRing, findRing(geometry, target)!]);
+    if (!merged) {
+      toast.error('Polygons must overlap or touch to be merged');
+      return;
+    }
+
+    push((g) => {
+      const updated = withRing(g, selection, merged);
+      return target.kind === 'boundary'
+        ? { ...updated, boundaries: updated.boundaries.filter((b) => b.id !== target.id) }
+        : {
+            ...updated,
+            exclusionZones: updated.exclusionZones.filter((ez) => ez.id !== target.id),
+          };
+    });
+  };
+
+  const applySetback = (direction: 1 | -1) => {
+    const distance = parseFloat(setbackM);
+    if (!selection || !selectedRing || !isFinite(distance) || distance <= 0) return;
+
+    const offset = offsetRing(selectedRing, distance * direction);
+    if (!offset) {
+      toast.error('The setback removes the whole polygon');
+      return;
+    }
+    push((g) => withRing(g, selection, offset));
+  };
+
+  const applyBuffer = (bufferM: number) => {
+    const feature = selectedZone?.feature;
+    if (!selection || !feature || !isFinite(bufferM) || bufferM <= 0) return;
+    if (bufferM === feature.bufferM) return;
+
+    const rebuffered = { ...feature, bufferM };
+    const ring = bufferFeature(rebuffered);
+    if (!ring) return;
+    push((g) => ({
+      ...g,
+      exclusionZones: g.exclusionZones.map((ez) =>
+        ez.id === selection.id ? { ...ez, coordinates: openRing(ring), feature: rebuffered } : ez
+      ),
+    }));
+  };
+
+  const deleteSelected = () => {
+    if (!selection) return;
+    push((g) =>
+      selection.kind === 'boundary'
+        ? { ...g, boundaries: g.boundaries.filter((b) => b.id !== selection.id) }
+        : { ...g, exclusionZones: g.exclusionZones.filter((ez) => ez.id !== selection.id) }
+    );
+    setSelection(null);
+  };
+
+  const setZoneType = (type: ExclusionZoneType) => {
+    if (!selection) return;
+    push((g) => ({
+      ...g,
+      exclusionZones: g.exclusionZones.map((ez) =>
+        ez.id === selection.id ? { ...ez, type, autoGenerated: undefined } : ez
+      ),
+    }));
+  };
+
+  const handleSave = () => {
+    if (geometry.boundaries.length === 0) {
+      toast.error('A site needs at least one boundary');
+      return;
+    }
+    updateSiteGeometry(site.id, geometry.boundaries, geometry.exclusionZones);
+    onClose();
+  };
+
+  // Keyboard shortcuts: undo/redo, Escape to stop drawing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (mod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (e.key === 'Escape') {
+        setDrawing([]);
+        setTool('select');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const polygonInteractive = tool === 'select' || tool === 'merge';
+
+  const renderPolygon = (
+    kind: PolygonKind,
+    id: string,
+    coordinates: SiteCoordinate[],
+    color: string,
+    dashed: boolean
+  ) => {
+    const selected = selection?.kind === kind && selection.id === id;
+    return (
+      <Polygon
+        // Remount when interactivity changes (Leaflet reads it once)
+        key={`${id}-${polygonInteractive}`}
+        positions={coordinates.map((c) => [c.lat, c.lng] as [number, number])}
+        interactive={polygonInteractive}
+        pathOptions={{
+          color: selected ? SELECTED_COLOR : color,
+          weight: selected ? 3 : 2,
+          fillColor: color,
+          fillOpacity: kind === 'boundary' ? 0.05 : 0.2,
+          dashArray: dashed ? '5, 5' : undefined,
+        }}
+        eventHandlers={{ click: (e) => handlePolygonClick(e, { kind, id }) }}
+      />
+    );
+  };
+
+  return (
+    <div className="h-full w-full relative">
+      <MapContainer
+        bounds={bounds}
+        className="h-full w-full"
+        scrollWheelZoom={true}
+        doubleClickZoom={false}
+        style={{ cursor: tool === 'select' ? undefined : 'crosshair' }}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
+          url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
+        />
+        <EditorMapEvents onClick={handleMapClick} onDoubleClick={handleMapDoubleClick} />
+
+        {geometry.boundaries.map((b) =>
+          renderPolygon('boundary', b.id, b.coordinates, BOUNDARY_COLOR, false)
+        )}
+        {geometry.exclusionZones.map((ez) =>
+          renderPolygon(
+            'exclusion',
+            ez.id,
+            ez.coordinates,
+            exclusionColors[ez.type] || exclusionColors.other,
+            true
+          )
+        )}
+
+        {/* Lines and points that buffered zones were generated from */}
+        {geometry.exclusionZones
+          .filter((ez) => ez.feature?.geometry === 'line')
+          .map((ez) => (
+            <Polyline
+              key={`feature-${ez.id}`}
+              positions={ez.feature!.coordinates.map((c) => [c.lat, c.lng] as [number, number])}
+              interactive={false}
+              pathOptions={{ color: exclusionColors[ez.type] || exclusionColors.other, weight: 2 }}
+            />
+          ))}
+
+        {/* Vertex and midpoint handles of the selected polygon */}
+        {selection && selectedRing && tool === 'select' && (
+          <>
+            {selectedRing.map((c, i) => (
+              <Marker
+                key={`v-${selection.id}-${i}`}
+                position={[c.lat, c.lng]}
+                icon={vertexIcon}
+                draggable
+                eventHandlers={{
+                  dragstart: () => push((g) => g),
+                  drag: (e: LeafletEvent) => {
+                    const position = (e.target as L.Marker).getLatLng();
+                    replace((g) => withRing(g, selection, moveVertex(findRing(g, selection)!, i, position)));
+                  },
+                  contextmenu: () =>
+                    push((g) => withRing(g, selection, deleteVertex(findRing(g, selection)!, i))),
+                }}
+              />
+            ))}
+            {edgeMidpoints(selectedRing).map((m, i) => (
+              <Marker
+                key={`m-${selection.id}-${i}`}
+                position={[m.lat, m.lng]}
+                icon={midpointIcon}
+                eventHandlers={{
+                  click: (e) => {
+                    L.DomEvent.stopPropagation(e);
+                    push((g) => withRing(g, selection, insertVertex(findRing(g, selection)!, i + 1, m)));
+                  },
+                }}
+              />
+            ))}
+          </>
+        )}
+
+        {/* Polygon or split line being drawn */}
+        {drawing.length > 0 && (
+          <Polyline
+            positions={drawing.map((p) => [p.lat, p.lng] as [number, number])}
+            pathOptions={{ color: SELECTED_COLOR, weight: 2, dashArray: '4, 4' }}
+          />
+        )}
+      </MapContainer>
+
+      {/* Toolbar */}
+      <div className="absolute top-2 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-1 rounded-lg border bg-background/95 p-1 shadow-lg">
+        <Button
+          size="sm"
+          variant={tool === 'select' ? 'secondary' : 'ghost'}
+          onClick={() => changeTool('select')}
+          title="Select and edit"
+        >
+          <MousePointer2 className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant={tool === 'draw-boundary' ? 'secondary' : 'ghost'}
+          onClick={() => changeTool('draw-boundary')}
+          title="Draw boundary"
+        >
+          <Pentagon className="h-4 w-4 mr-1" />
+          Boundary
+        </Button>
+        <Button
+          size="sm"
+          variant={tool === 'draw-exclusion' ? 'secondary' : 'ghost'}
+          onClick={() => changeTool('draw-exclusion')}
+          title="Draw exclusion zone"
+        >
+          <Ban className="h-4 w-4 mr-1" />
+          Exclusion
+        </Button>
+        <div className="w-px h-6 bg-border mx-1" />
+        <Button size="sm" variant="ghost" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <div className="w-px h-6 bg-border mx-1" />
+        <Button size="sm" onClick={handleSave} disabled={!canUndo}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClose}>
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      </div>
+
+      {/* Tool hint */}
+      <div className="absolute top-14 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-2 rounded-md bg-background/90 px-3 py-1.5 text-xs shadow">
+        <span className="text-muted-foreground">{TOOL_HINTS[tool]}</span>
+        {isDrawing && (
+          <Button size="sm" className="h-6 px-2" onClick={finishDrawing} disabled={drawing.length < 3}>
+            <Check className="h-3 w-3 mr-1" />
+            Finish
+          </Button>
+        )}
+      </div>
+
+      {/* Selection panel */}
+      {selection && selectedRing && (
+        <div className="absolute top-24 right-2 z-[1000] w-56 space-y-3 rounded-lg border bg-background/95 p-3 text-xs shadow-lg">
+          <div>
+            <div className="font-medium">
+              {selection.kind === 'boundary'
+                ? geometry.boundaries.find((b) => b.id === selection.id)?.name
+                : selectedZone?.name}
+            </div>
+            <div className="text-muted-foreground">
+              {squareMetersToAcres(ringArea(selectedRing)).toFixed(2)} acres ·{' '}
+              {selectedRing.length} vertices
+            </div>
+          </div>
+
+          {selectedZone?.feature && (
+            <div className="space-y-1">
+              <div className="text-muted-foreground">
+                Buffer around {selectedZone.feature.geometry === 'line' ? 'line' : 'point'} (m)
+              </div>
+              <Input
+                key={`${selectedZone.id}-${selectedZone.feature.bufferM}`}
+                type="number"
+                min={1}
+                defaultValue={selectedZone.feature.bufferM}
+                onBlur={(e) => applyBuffer(parseFloat(e.target.value))}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="h-7 w-20 text-xs"
+              />
+            </div>
+          )}
+
+          {selectedZone && (
+            <Select value={selectedZone.type} onValueChange={(v) => setZoneType(v as ExclusionZoneType)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1100]">
+                {EXCLUSION_ZONE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {EXCLUSION_ZONE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="space-y-1">
+            <div className="text-muted-foreground">Setback (m)</div>
+            <div className="flex gap-1">
+              <Input
+                type="number"
+                min={0}
+                value={setbackM}
+                onChange={(e) => setSetbackM(e.target.value)}
+                className="h-7 w-16 text-xs"
+              />
+              <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => applySetback(-1)}>
+                Shrink
+              </Button>
+              <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => applySetback(1)}>
+                Grow
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            <Button
+              size="sm"
+              variant={tool === 'split' ? 'secondary' : 'outline'}
+              className="h-7 px-2"
+              onClick={() => changeTool('split')}
+            >
+              <Scissors className="h-3 w-3 mr-1" />
+              Split
+            </Button>
+            <Button
+              size="sm"
+              variant={tool === 'merge' ? 'secondary' : 'outline'}
+              className="h-7 px-2"
+              onClick={() => changeTool('merge')}
+            >
+              <Combine className="h-3 w-3 mr-1" />
+              Merge
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 px-2 text-destructive" onClick={deleteSelected}>
+              <Trash2 className="h-3 w-3 mr-1" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Live areas */}
+      <div className="absolute bottom-4 left-4 z-[1000] rounded-lg border bg-background/90 p-3 text-xs shadow-lg backdrop-blur">
+        <div className="font-medium mb-1">Areas</div>
+        <div className="text-muted-foreground">
+          Total: {squareMetersToAcres(areas.totalArea).toFixed(1)} acres
+        </div>
+        <div className="text-muted-foreground">
+          Usable: {squareMetersToAcres(areas.usableArea).toFixed(1)} acres ({areas.usableAreaPercent}%)
+        </div>
+        {compositeScore != null && (
+          <div className="text-muted-foreground">Score: {compositeScore}/100</div>
+        )}
+      </div>
+    </div>
+  );
+}
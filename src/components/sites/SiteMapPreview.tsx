@@ -1,5 +1,5 @@
 import { lazy, Suspense, useMemo, useRef, useState, useCallback } from 'react';
-import { MapContainer, TileLayer, Polygon, Popup } from 'react-leaflet';
+import { MapContainer, TileLayer, Polygon, Polyline, Popup } from 'react-leaflet';
 import { LatLngBounds } from 'leaflet';
 import type { Site, ExclusionZoneType } from '@/lib/types';
 import { squareMetersToAcres } from '@/lib/kml/parser';
@@ -11,9 +11,13 @@ import {
 } from '@/lib/constants';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Eye, EyeOff, Mountain, Map, Box, Loader2 } from 'lucide-react';
+import { Eye, EyeOff, Mountain, Map, Box, Loader2, PencilRuler } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
 import type { SiteTerrainViewRef } from './SiteTerrainView';
+import { useDesignStore } from '@/stores/designStore';
+import { calculateGrading } from '@/lib/terrain';
+import { usePermission } from '@/hooks/usePermission';
+import { SiteGeometryEditor } from './SiteGeometryEditor';
 
 const SiteTerrainView = lazy(() =>
   import('./SiteTerrainView').then((m) => ({ default: m.SiteTerrainView }))
@@ -68,6 +72,23 @@ export function SiteMapPreview({ site }: SiteMapPreviewProps) {
     setViewMode('3d');
   }, []);
 
+  // Cut/fill for the latest generated design on this site (3D terrain only)
+  const [showCutFill, setShowCutFill] = useState(true);
+  const canEdit = usePermission('sites', 'update', site.id);
+  const [editing, setEditing] = useState(false);
+  const designs = useDesignStore((state) => state.designs);
+  const gradedLayout = useMemo(() => {
+    if (!site.terrain) return null;
+    const siteDesigns = designs
+      .filter((d) => d.siteId === site.id && d.generatedLayout)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    return siteDesigns[0]?.generatedLayout ?? null;
+  }, [designs, site.id, site.terrain]);
+  const grading = useMemo(
+    () => (terrainMounted && gradedLayout ? calculateGrading(gradedLayout, site) : null),
+    [terrainMounted, gradedLayout, site]
+  );
+
   const exclusionTypesInSite = useMemo(() => {
     const types = new Set(site.exclusionZones.map(ez => ez.type));
     return Array.from(types) as ExclusionZoneType[];
@@ -143,11 +164,24 @@ export function SiteMapPreview({ site }: SiteMapPreviewProps) {
       positions: ez.coordinates.map((c) => [c.lat, c.lng] as [number, number]),
       area: ez.area,
       description: ez.description,
+      feature: ez.feature,
     }));
   }, [site.exclusionZones]);
 
   const is3D = viewMode === '3d' && hasElevation;
 
+  if (editing) {
+    return (
+      <div className="h-full w-full rounded-lg overflow-hidden border relative">
+        <SiteGeometryEditor
+          site={site}
+          exclusionColors={EXCLUSION_COLORS}
+          onClose={() => setEditing(false)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="h-full w-full rounded-lg overflow-hidden border relative">
       {/* Canvas area — Leaflet 2D hidden when 3D active, Three.js stays mounted once activated */}
@@ -215,6 +249,12 @@ export function SiteMapPreview({ site }: SiteMapPreviewProps) {
                       {squareMetersToAcres(poly.area).toFixed(2)} acres
                     </div>
                   )}
+                  {poly.feature && (
+                    <div className="mt-1 text-muted-foreground">
+                      {poly.feature.bufferM.toFixed(0)}m buffer around{' '}
+                      {poly.feature.geometry === 'line' ? 'line' : 'point'}
+                    </div>
+                  )}
                   {poly.description && (
                     <div className="mt-1 text-xs text-muted-foreground">
                       {poly.description}
@@ -224,6 +264,21 @@ export function SiteMapPreview({ site }: SiteMapPreviewProps) {
               </Popup>
             </Polygon>
           ))}
+
+          {/* Lines that buffered exclusion zones were generated from */}
+          {exclusionPolygons
+            .filter((poly) => visibility[poly.type] && poly.feature?.geometry === 'line')
+            .map((poly) => (
+              <Polyline
+                key={`feature-${poly.id}`}
+                positions={poly.feature!.coordinates.map((c) => [c.lat, c.lng] as [number, number])}
+                interactive={false}
+                pathOptions={{
+                  color: EXCLUSION_COLORS[poly.type] || EXCLUSION_COLORS.other,
+                  weight: 2,
+                }}
+              />
+            ))}
         </MapContainer>
       </div>
       {terrainMounted && (
@@ -236,7 +291,12 @@ export function SiteMapPreview({ site }: SiteMapPreviewProps) {
               </div>
             }
           >
-            <SiteTerrainView ref={terrainRef} site={site} visibility={visibility} />
+            <SiteTerrainView
+              ref={terrainRef}
+              site={site}
+              visibility={visibility}
+              grading={showCutFill ? grading : null}
+            />
           </Suspense>
         </div>
       )}
@@ -263,21 +323,33 @@ export function SiteMapPreview({ site }: SiteMapPreviewProps) {
         </div>
       )}
 
-      {/* View mode toggle (only when elevation data available) */}
-      {hasElevation && (
-        <div className="absolute top-[80px] left-[10px] z-[1000]">
-          <Button
-            variant="secondary"
-            size="sm"
-            className="gap-1.5 shadow-lg"
-            onClick={() => is3D ? setViewMode('2d') : activate3D()}
-          >
-            {is3D ? (
-              <><Map className="h-3.5 w-3.5" /> 2D Map</>
-            ) : (
-              <><Box className="h-3.5 w-3.5" /> 3D Terrain</>
-            )}
-          </Button>
+      {/* View mode toggle (only when elevation data available) and geometry editing */}
+      {(hasElevation || (canEdit && !is3D)) && (
+        <div className="absolute top-[80px] left-[10px] z-[1000] flex flex-col items-start gap-2">
+          {hasElevation && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="gap-1.5 shadow-lg"
+              onClick={() => is3D ? setViewMode('2d') : activate3D()}
+            >
+              {is3D ? (
+                <><Map className="h-3.5 w-3.5" /> 2D Map</>
+              ) : (
+                <><Box className="h-3.5 w-3.5" /> 3D Terrain</>
+              )}
+            </Button>
+          )}
+          {canEdit && !is3D && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="gap-1.5 shadow-lg"
+              onClick={() => setEditing(true)}
+            >
+              <PencilRuler className="h-3.5 w-3.5" /> Edit Geometry
+            </Button>
+          )}
         </div>
       )}
 
@@ -314,6 +386,28 @@ export function SiteMapPreview({ site }: SiteMapPreviewProps) {
           </span>
         </label>
 
+        {is3D && grading && (
+          <>
+            <label className="flex items-center gap-2 py-0.5 cursor-pointer hover:bg-muted/50 rounded px-1 -mx-1">
+              <Checkbox
+                checked={showCutFill}
+                onCheckedChange={() => setShowCutFill((prev) => !prev)}
+                className="h-3.5 w-3.5"
+              />
+              <div className="w-4 h-3 rounded shrink-0 bg-gradient-to-r from-blue-500 to-red-500" />
+              <span className={!showCutFill ? 'text-muted-foreground line-through' : ''}>
+                Cut / Fill
+              </span>
+            </label>
+            {showCutFill && (
+              <div className="pl-6 text-muted-foreground">
+                Cut {Math.round(grading.totalCutM3).toLocaleString()} m³ · Fill{' '}
+                {Math.round(grading.totalFillM3).toLocaleString()} m³
+              </div>
+            )}
+          </>
+        )}
+
         {exclusionTypesInSite.length > 0 && (
           <>
             <div className="border-t my-1.5" />
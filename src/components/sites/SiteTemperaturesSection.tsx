@@ -0,0 +1,81 @@
+/**
+ * SiteTemperaturesSection - Record low and high ambient temperatures of the
+ * site, used as the design limits for string sizing
+ */
+
+import { useState } from 'react';
+import { useSiteStore } from '@/stores/siteStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DEFAULT_DESIGN_TEMPERATURES } from '@/lib/electrical';
+import type { Site } from '@/lib/types/site';
+import { Thermometer } from 'lucide-react';
+
+interface SiteTemperaturesSectionProps {
+  site: Site;
+}
+
+export function SiteTemperaturesSection({ site }: SiteTemperaturesSectionProps) {
+  const updateSite = useSiteStore((state) => state.updateSite);
+  const initial = site.recordTemperatures ?? DEFAULT_DESIGN_TEMPERATURES;
+  const [recordLow, setRecordLow] = useState(initial.recordLowC.toString());
+  const [recordHigh, setRecordHigh] = useState(initial.recordHighC.toString());
+
+  const low = parseFloat(recordLow);
+  const high = parseFloat(recordHigh);
+  const isValid = Number.isFinite(low) && Number.isFinite(high) && low < high;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2 flex items-center gap-2">
+        <Thermometer className="h-4 w-4" />
+        Record Temperatures (String Sizing)
+      </h3>
+      <div className="text-sm text-muted-foreground mb-3">
+        Cold Voc and hot Vmp limits of the designs on this site
+        {!site.recordTemperatures && ' - default, not saved'}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="site-record-low" className="text-xs text-muted-foreground">
+              Record low (°C)
+            </Label>
+            <Input
+              id="site-record-low"
+              type="number"
+              step={1}
+              value={recordLow}
+              onChange={(e) => setRecordLow(e.target.value)}
+              className="h-8 w-32"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="site-record-high" className="text-xs text-muted-foreground">
+              Record high (°C)
+            </Label>
+            <Input
+              id="site-record-high"
+              type="number"
+              step={1}
+              value={recordHigh}
+              onChange={(e) => setRecordHigh(e.target.value)}
+              className="h-8 w-32"
+            />
+          </div>
+        </div>
+
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!isValid}
+          onClick={() => updateSite(site.id, { recordTemperatures: { recordLowC: low, recordHighC: high } })}
+        >
+          Save Temperatures
+        </Button>
+      </div>
+    </div>
+  );
+}
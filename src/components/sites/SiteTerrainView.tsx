@@ -4,6 +4,7 @@ import { OrbitControls, Grid, Text, Line } from '@react-three/drei';
 import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import * as THREE from 'three';
 import type { Site, SiteCoordinate, ExclusionZoneType } from '@/lib/types';
+import type { GradingResult } from '@/lib/terrain';
 import { SatelliteGround } from '@/components/designs/viewer3d/SatelliteGround';
 import {
   getTileCoordinates,
@@ -19,6 +20,7 @@ export interface SiteTerrainViewRef {
 interface SiteTerrainViewProps {
   site: Site;
   visibility: { boundaries: boolean } & Record<ExclusionZoneType, boolean>;
+  grading?: GradingResult | null; // Cut/fill heat overlay for a generated layout
 }
 
 function toLocalCoords(
@@ -174,6 +176,51 @@ function ElevationLabel({
   );
 }
 
+/** Cut/fill color: blue for fill, through white, to red for cut */
+function getCutFillColor(depth: number, maxDepth: number): THREE.Color {
+  const t = maxDepth > 0 ? Math.max(-1, Math.min(1, depth / maxDepth)) : 0;
+  return t >= 0
+    ? new THREE.Color(1, 1 - t * 0.8, 1 - t * 0.8)
+    : new THREE.Color(1 + t * 0.8, 1 + t * 0.6, 1);
+}
+
+/**
+ * Frame footprints at their design grade, colored by mean cut/fill depth
+ */
+function CutFillOverlay({ grading }: { grading: GradingResult }) {
+  const geometry = useMemo(() => {
+    const graded = grading.frames.filter((f) => f.cutM3 > 0 || f.fillM3 > 0);
+    if (graded.length === 0) return null;
+
+    const maxDepth = Math.max(...graded.map((f) => Math.abs(f.meanDepthM)));
+    const vertices: number[] = [];
+    const colors: number[] = [];
+
+    for (const frame of graded) {
+      const color = getCutFillColor(frame.meanDepthM, maxDepth);
+      // Two triangles per footprint; local north (y) maps to -Z
+      for (const i of [0, 1, 2, 0, 2, 3]) {
+        const corner = frame.corners[i];
+        vertices.push(corner.x, frame.designElevationsM[i] + 0.2, -corner.y);
+        colors.push(color.r, color.g, color.b);
+      }
+    }
+
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geom.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    return geom;
+  }, [grading]);
+
+  if (!geometry) return null;
+
+  return (
+    <mesh geometry={geometry}>
+      <meshBasicMaterial vertexColors side={THREE.DoubleSide} transparent opacity={0.85} />
+    </mesh>
+  );
+}
+
 const EXCLUSION_3D_COLORS: Record<string, string> = {
   wetland: '#3b82f6',
   setback: '#f59e0b',
@@ -192,6 +239,7 @@ const EXCLUSION_3D_COLORS: Record<string, string> = {
 function TerrainScene({
   site,
   visibility,
+  grading,
   centroid,
   elevationBase,
   elevationRange,
@@ -200,6 +248,7 @@ function TerrainScene({
 }: {
   site: Site;
   visibility: SiteTerrainViewProps['visibility'];
+  grading?: GradingResult | null;
   centroid: { latitude: number; longitude: number };
   elevationBase: number;
   elevationRange: { min: number; max: number };
@@ -342,6 +391,9 @@ function TerrainScene({
         />
       ))}
 
+      {/* Cut/fill heat overlay */}
+      {grading && <CutFillOverlay grading={grading} />}
+
       {/* Elevation labels */}
       {elevationLabels.map((label, i) => (
         <ElevationLabel
@@ -368,7 +420,7 @@ function TerrainScene({
  * Exposes zoomIn/zoomOut via ref for external zoom buttons.
  */
 export const SiteTerrainView = forwardRef<SiteTerrainViewRef, SiteTerrainViewProps>(
-  function SiteTerrainView({ site, visibility }, ref) {
+  function SiteTerrainView({ site, visibility, grading }, ref) {
     const centroid = site.centroid || { latitude: 0, longitude: 0 };
     const elevationBase = site.elevationRange?.min ?? 0;
     const elevationRange = site.elevationRange ?? { min: 0, max: 0 };
@@ -423,6 +475,7 @@ export const SiteTerrainView = forwardRef<SiteTerrainViewRef, SiteTerrainViewPro
         <TerrainScene
           site={site}
           visibility={visibility}
+          grading={grading}
           centroid={centroid}
           elevationBase={elevationBase}
           elevationRange={elevationRange}
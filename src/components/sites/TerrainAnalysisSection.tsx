@@ -0,0 +1,86 @@
+/**
+ * TerrainAnalysisSection - Slope statistics from the site DEM and
+ * automatic steep-slope exclusion zones
+ */
+
+import { useMemo, useState } from 'react';
+import { useSiteStore } from '@/stores/siteStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { analyzeTerrain, DEFAULT_MAX_SLOPE_DEG } from '@/lib/terrain';
+import type { Site } from '@/lib/types/site';
+import { Mountain } from 'lucide-react';
+
+interface TerrainAnalysisSectionProps {
+  site: Site;
+}
+
+export function TerrainAnalysisSection({ site }: TerrainAnalysisSectionProps) {
+  const createSlopeExclusions = useSiteStore((state) => state.createSlopeExclusions);
+  const [maxSlope, setMaxSlope] = useState(String(DEFAULT_MAX_SLOPE_DEG));
+
+  const terrain = site.terrain;
+  const analysis = useMemo(() => (terrain ? analyzeTerrain(terrain) : null), [terrain]);
+
+  if (!terrain || !analysis) return null;
+
+  const threshold = parseFloat(maxSlope);
+  const validThreshold = isFinite(threshold) && threshold > 0;
+  const steepPercent = validThreshold
+    ? (() => {
+        const known = analysis.slopeDeg.filter((s): s is number => s !== null);
+        return known.length > 0
+          ? (known.filter((s) => s > threshold).length / known.length) * 100
+          : 0;
+      })()
+    : 0;
+  const autoZones = site.exclusionZones.filter((zone) => zone.autoGenerated).length;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2 flex items-center gap-2">
+        <Mountain className="h-4 w-4" />
+        Terrain
+      </h3>
+      <div className="text-sm text-muted-foreground space-y-1">
+        <div>
+          DEM grid: {terrain.columns}×{terrain.rows} at {terrain.cellSize.toFixed(1)}m
+        </div>
+        <div>Mean slope: {analysis.meanSlopeDeg.toFixed(1)}°</div>
+        <div>Max slope: {analysis.maxSlopeDeg.toFixed(1)}°</div>
+        {validThreshold && (
+          <div>
+            Steeper than {threshold}°: {steepPercent.toFixed(1)}% of the area
+          </div>
+        )}
+        {autoZones > 0 && <div>{autoZones} slope exclusion zone(s) from terrain</div>}
+      </div>
+      <div className="flex items-end gap-2 mt-3">
+        <div className="space-y-1">
+          <Label htmlFor="terrain-max-slope" className="text-xs text-muted-foreground">
+            Max slope (°)
+          </Label>
+          <Input
+            id="terrain-max-slope"
+            type="number"
+            min={1}
+            max={45}
+            step={0.5}
+            value={maxSlope}
+            onChange={(e) => setMaxSlope(e.target.value)}
+            className="w-24 h-8"
+          />
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!validThreshold}
+          onClick={() => createSlopeExclusions(site.id, threshold)}
+        >
+          {autoZones > 0 ? 'Update Slope Exclusions' : 'Create Slope Exclusions'}
+        </Button>
+      </div>
+    </div>
+  );
+}
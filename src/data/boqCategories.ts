@@ -47,6 +47,9 @@ export const DEFAULT_BOQ_UNITS: Record<string, string> = {
   'Fencing (material & gateways)': 'meters',
   'CCTV security system': 'units',
   'MV transformer stations (various capacities)': 'units',
+  'Earthworks cut': 'm³',
+  'Earthworks fill': 'm³',
+  'Earthworks import/export': 'm³',
 };
 
 // Get default unit for a BOQ item
@@ -58,4 +61,10 @@ export function getDefaultBOQUnit(fieldName: string): string {
 export const DXF_EXTRACTABLE_ITEMS = [
   { name: 'PV modules', category: 'PV Equipment', unit: 'panels' },
   { name: 'Inverters', category: 'PV Equipment', unit: 'units' },
+  { name: 'DC string cables', category: 'Electrical Infrastructure', unit: 'meters' },
+  { name: 'DC main cables', category: 'Electrical Infrastructure', unit: 'meters' },
+  { name: 'AC cables', category: 'Electrical Infrastructure', unit: 'meters' },
+  { name: 'Earthworks cut', category: 'Site Infrastructure', unit: 'm³' },
+  { name: 'Earthworks fill', category: 'Site Infrastructure', unit: 'm³' },
+  { name: 'Earthworks import/export', category: 'Site Infrastructure', unit: 'm³' },
 ] as const;
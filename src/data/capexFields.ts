@@ -73,6 +73,9 @@ export const CAPEX_FIELDS: CapexCategory[] = [
       "Roads and site access",
       "Transformer foundations",
       "General earthworks & leveling",
+      "Earthworks cut",
+      "Earthworks fill",
+      "Earthworks import/export",
       "Compound area hardening",
       "Drainage system",
       "Landscaping (grass, bushes, trees)",
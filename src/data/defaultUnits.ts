@@ -55,6 +55,9 @@ export const DEFAULT_CAPEX_UNITS: Record<string, string> = {
   "Roads and site access": "meters",
   "Transformer foundations": "units",
   "General earthworks & leveling": "hectares",
+  "Earthworks cut": "m³",
+  "Earthworks fill": "m³",
+  "Earthworks import/export": "m³",
   "Compound area hardening": "m²",
   "Drainage system": "meters",
   "Landscaping (grass, bushes, trees)": "hectares",
@@ -0,0 +1,49 @@
+/**
+ * Hook for running the layout optimizer in a Web Worker
+ *
+ * Keeps the UI responsive while candidate layouts are generated and scored,
+ * and tracks progress for display (see useWorkerTask).
+ */
+
+import { useCallback } from 'react';
+import LayoutOptimizerWorker from '@/lib/layout/optimizer.worker?worker';
+import type { LayoutOptimizerInput, LayoutOptimizerResult } from '@/lib/layout/optimizer';
+import { useWorkerTask, type WorkerTaskStatus } from './useWorkerTask';
+
+export type LayoutOptimizerStatus = WorkerTaskStatus;
+
+export interface UseLayoutOptimizerReturn {
+  /** Current run status */
+  status: LayoutOptimizerStatus;
+  /** Candidates evaluated / total in the current run */
+  progress: { evaluated: number; total: number };
+  /** Result of the last completed run */
+  result: LayoutOptimizerResult | null;
+  /** Error message if the run failed */
+  error: string | null;
+  /** Start a run (cancels any run in progress) */
+  run: (input: LayoutOptimizerInput) => void;
+  /** Cancel the run in progress */
+  cancel: () => void;
+}
+
+/**
+ * Hook for layout optimization with state management
+ */
+export function useLayoutOptimizer(): UseLayoutOptimizerReturn {
+  const task = useWorkerTask<LayoutOptimizerInput, LayoutOptimizerResult>(
+    LayoutOptimizerWorker,
+    'Layout optimizer'
+  );
+  const { run: runTask } = task;
+
+  // Failures are reported through `error`, cancellations need no handling
+  const run = useCallback(
+    (input: LayoutOptimizerInput) => {
+      runTask(input).catch(() => undefined);
+    },
+    [runTask]
+  );
+
+  return { ...task, run };
+}
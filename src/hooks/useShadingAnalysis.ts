@@ -0,0 +1,42 @@
+/**
+ * Hook for running the shading analysis in a Web Worker
+ *
+ * Ray-casting every frame against every sun position can take seconds on
+ * large layouts, so it runs off the main thread with progress for display
+ * (see useWorkerTask).
+ */
+
+import { useCallback } from 'react';
+import ShadingAnalysisWorker from '@/lib/yield/shading.worker?worker';
+import type { ShadingAnalysisInput, ShadingAnalysisResult } from '@/lib/yield/shading';
+import { useWorkerTask, type WorkerTaskStatus } from './useWorkerTask';
+
+export type ShadingAnalysisStatus = WorkerTaskStatus;
+
+export interface UseShadingAnalysisReturn {
+  /** Current run status */
+  status: ShadingAnalysisStatus;
+  /** Frames evaluated / total in the current run */
+  progress: { evaluated: number; total: number };
+  /** Start a run (cancels any run in progress); resolves with the result */
+  run: (input: ShadingAnalysisInput) => Promise<ShadingAnalysisResult>;
+  /** Cancel the run in progress (its promise rejects) */
+  cancel: () => void;
+}
+
+/**
+ * Hook for shading analysis with progress tracking
+ */
+export function useShadingAnalysis(): UseShadingAnalysisReturn {
+  const { status, progress, run: runTask, cancel } = useWorkerTask<
+    ShadingAnalysisInput,
+    ShadingAnalysisResult
+  >(ShadingAnalysisWorker, 'Shading analysis');
+
+  const run = useCallback(
+    (input: ShadingAnalysisInput) => runTask(input, input.layout.frames.length),
+    [runTask]
+  );
+
+  return { status, progress, run, cancel };
+}
@@ -0,0 +1,91 @@
+/**
+ * Hook for editing a value with undo/redo history
+ *
+ * `push` records a new step. `replace` updates the current value without a
+ * new step, for continuous edits such as dragging (push once when the drag
+ * starts, then replace while it moves).
+ */
+
+import { useState, useCallback } from 'react';
+
+/** Steps kept in the undo history */
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface UseUndoRedoReturn<T> {
+  /** Current value */
+  value: T;
+  /** Record a new step (clears redo history) */
+  push: (next: T | ((current: T) => T)) => void;
+  /** Update the current step without recording history */
+  replace: (next: T | ((current: T) => T)) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const resolve = <T>(next: T | ((current: T) => T), current: T): T =>
+  typeof next === 'function' ? (next as (current: T) => T)(current) : next;
+
+/**
+ * Hook for a value with undo/redo history
+ */
+export function useUndoRedo<T>(initial: T | (() => T)): UseUndoRedoReturn<T> {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+  }));
+
+  const push = useCallback((next: T | ((current: T) => T)) => {
+    setHistory((h) => ({
+      past: [...h.past, h.present].slice(-MAX_HISTORY),
+      present: resolve(next, h.present),
+      future: [],
+    }));
+  }, []);
+
+  const replace = useCallback((next: T | ((current: T) => T)) => {
+    setHistory((h) => ({ ...h, present: resolve(next, h.present) }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((h) =>
+      h.past.length === 0
+        ? h
+        : {
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            future: [h.present, ...h.future],
+          }
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((h) =>
+      h.future.length === 0
+        ? h
+        : {
+            past: [...h.past, h.present],
+            present: h.future[0],
+            future: h.future.slice(1),
+          }
+    );
+  }, []);
+
+  return {
+    value: history.present,
+    push,
+    replace,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Hook for running a long calculation in a Web Worker
+ *
+ * The worker is expected to serve the task with serveWorkerTask. The hook
+ * tracks progress and the last result for display. Starting a new run or
+ * unmounting terminates any run in progress.
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { WorkerTaskRequest, WorkerTaskResponse } from '@/lib/workerTask';
+
+export type WorkerTaskStatus = 'idle' | 'running' | 'complete' | 'error';
+
+export interface UseWorkerTaskReturn<TInput, TResult> {
+  /** Current run status */
+  status: WorkerTaskStatus;
+  /** Items evaluated / total in the current run */
+  progress: { evaluated: number; total: number };
+  /** Result of the last completed run */
+  result: TResult | null;
+  /** Error message if the run failed */
+  error: string | null;
+  /**
+   * Start a run (cancels any run in progress); resolves with the result and
+   * rejects when the run fails or is cancelled
+   */
+  run: (input: TInput, total?: number) => Promise<TResult>;
+  /** Cancel the run in progress */
+  cancel: () => void;
+}
+
+/**
+ * Hook for a worker task with progress tracking
+ *
+ * @param WorkerConstructor - Worker class (a Vite `?worker` import)
+ * @param taskName - Name of the task in error messages (e.g. "Shading analysis")
+ */
+export function useWorkerTask<TInput, TResult>(
+  WorkerConstructor: new () => Worker,
+  taskName: string
+): UseWorkerTaskReturn<TInput, TResult> {
+  const [status, setStatus] = useState<WorkerTaskStatus>('idle');
+  const [progress, setProgress] = useState({ evaluated: 0, total: 0 });
+  const [result, setResult] = useState<TResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const rejectRef = useRef<((reason: Error) => void) | null>(null);
+
+  const terminate = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    rejectRef.current?.(new Error(`${taskName} cancelled`));
+    rejectRef.current = null;
+  }, [taskName]);
+
+  const run = useCallback(
+    (input: TInput, total = 0) => {
+      terminate();
+
+      setStatus('running');
+      setProgress({ evaluated: 0, total });
+      setError(null);
+
+      return new Promise<TResult>((resolve, reject) => {
+        const worker = new WorkerConstructor();
+        workerRef.current = worker;
+        rejectRef.current = reject;
+
+        const finish = () => {
+          rejectRef.current = null;
+          terminate();
+        };
+
+        const fail = (message: string) => {
+          setError(message);
+          setStatus('error');
+          finish();
+          reject(new Error(message));
+        };
+
+        worker.onmessage = (event: MessageEvent<WorkerTaskResponse<TResult>>) => {
+          const message = event.data;
+          switch (message.type) {
+            case 'progress':
+              setProgress({ evaluated: message.evaluated, total: message.total });
+              break;
+            case 'result':
+              setResult(message.result);
+              setStatus('complete');
+              finish();
+              resolve(message.result);
+              break;
+            case 'error':
+              fail(message.message);
+              break;
+          }
+        };
+
+        worker.onerror = (event) => {
+          fail(event.message || `${taskName} failed to start`);
+        };
+
+        const request: WorkerTaskRequest<TInput> = { type: 'run', input };
+        worker.postMessage(request);
+      });
+    },
+    [WorkerConstructor, taskName, terminate]
+  );
+
+  const cancel = useCallback(() => {
+    terminate();
+    setStatus(result ? 'complete' : 'idle');
+  }, [terminate, result]);
+
+  // Stop the worker when the component using the hook unmounts
+  useEffect(() => terminate, [terminate]);
+
+  return { status, progress, result, error, run, cancel };
+}
@@ -347,6 +347,11 @@ function normalizeModuleData(response: Record<string, unknown>): ExtractedModule
     tempCoeffPmax: normalizeField<number>(sharedRaw.tempCoeffPmax),
     tempCoeffVoc: normalizeField<number>(sharedRaw.tempCoeffVoc),
     tempCoeffIsc: normalizeField<number>(sharedRaw.tempCoeffIsc),
+    lid: normalizeField<number>(sharedRaw.lid),
+    letid: normalizeField<number>(sharedRaw.letid),
+    firstYearDegradation: normalizeField<number>(sharedRaw.firstYearDegradation),
+    annualDegradation: normalizeField<number>(sharedRaw.annualDegradation),
+    warrantyYears: normalizeField<number>(sharedRaw.warrantyYears),
   };
 
   // Normalize variants
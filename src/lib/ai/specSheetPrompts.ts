@@ -53,6 +53,13 @@ IMPORTANT: Convert dimensions to millimeters if given in other units.
 - tempCoeffVoc: Voltage temp coefficient in %/°C (typically -0.25 to -0.35)
 - tempCoeffIsc: Current temp coefficient in %/°C (typically +0.03 to +0.06)
 
+### Degradation and Power Warranty
+- lid: Light-induced degradation (LID) in % if stated separately (typically 0.5-2)
+- letid: Light and elevated temperature induced degradation (LeTID) in % if stated (typically 0.5-2)
+- firstYearDegradation: Maximum power loss in the first year from the power warranty in % (e.g., "1st year degradation ≤ 1%" → 1, "98% after the first year" → 2)
+- annualDegradation: Maximum annual power loss after the first year in % (e.g., "0.4% annual degradation" → 0.4)
+- warrantyYears: Term of the linear power warranty in years (typically 25-30, NOT the product warranty)
+
 ## Variant Specifications (extract for EACH power variant)
 
 For EACH power variant listed in the datasheet, extract:
@@ -81,7 +88,12 @@ IMPORTANT: Use STC values (1000W/m², 25°C, AM1.5), NOT NOCT values.
     "bifacialityFactor": { "value": number, "confidence": "...", "source": "..." },
     "tempCoeffPmax": { "value": number, "confidence": "...", "source": "..." },
     "tempCoeffVoc": { "value": number, "confidence": "...", "source": "..." },
-    "tempCoeffIsc": { "value": number, "confidence": "...", "source": "..." }
+    "tempCoeffIsc": { "value": number, "confidence": "...", "source": "..." },
+    "lid": { "value": number, "confidence": "...", "source": "..." },
+    "letid": { "value": number, "confidence": "...", "source": "..." },
+    "firstYearDegradation": { "value": number, "confidence": "...", "source": "..." },
+    "annualDegradation": { "value": number, "confidence": "...", "source": "..." },
+    "warrantyYears": { "value": number, "confidence": "...", "source": "..." }
   },
   "variants": [
     {
@@ -0,0 +1,253 @@
+/**
+ * BOQ → CAPEX Sync
+ *
+ * CAPEX items exported from a BOQ keep a link to their BOQ item (and the
+ * component it is priced from). Comparing linked items with the current BOQ
+ * and component prices gives the diff that flags a financial model as stale
+ * and that a re-sync applies.
+ */
+
+import type { BOQ, BOQItem } from '@/lib/types/boq';
+import type { Component } from '@/lib/types/component';
+import type { CostLineItem } from '@/lib/types/financial';
+import type { Design } from '@/lib/types';
+import type { FxRate } from '@/lib/types/currency';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import { convertAmount } from '@/lib/currency/fx';
+
+export type CapexSyncChangeKind = 'added' | 'updated' | 'removed';
+
+// Why a linked item no longer matches
+export type CapexSyncReason = 'boq' | 'component_price';
+
+export interface CapexSyncValues {
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  currency: string;
+}
+
+export interface CapexSyncChange {
+  kind: CapexSyncChangeKind;
+  name: string;
+  category: string;
+  capexItemId?: string;    // Absent for added items
+  boqItemId?: string;      // Absent for removed items
+  before?: CapexSyncValues;
+  after?: CapexSyncValues;
+  reasons: CapexSyncReason[];
+}
+
+export interface CapexSyncDiff {
+  boqId: string;
+  boqName: string;
+  changes: CapexSyncChange[];
+  designChanged: boolean;  // Layout or DXF changed since the BOQ was generated
+  amountDelta: number;     // Change in CAPEX (before margins) if re-synced
+  currency: string;        // Currency of amountDelta (the BOQ's)
+}
+
+const PRICE_TOLERANCE = 0.005;
+
+/**
+ * Whether a model has items exported from a BOQ
+ */
+export function isLinkedToBOQ(items: CostLineItem[], boqId: string): boolean {
+  return items.some((item) => item.is_capex && item.boq_link?.boq_id === boqId);
+}
+
+/**
+ * Whether the design changed since the BOQ was last generated from it
+ */
+export function hasDesignChanged(boq: BOQ, design: Design | undefined): boolean {
+  if (!design || !boq.generatedAt) return false;
+  return (
+    design.currentVersionId !== boq.sourceVersionId ||
+    design.generatedLayout?.generatedAt !== boq.sourceLayoutAt
+  );
+}
+
+function linkedComponent(item: BOQItem, components: Component[]): Component | undefined {
+  if (item.source !== 'component_library' || !item.sourceId) return undefined;
+  return components.find((c) => c.id === item.sourceId);
+}
+
+/**
+ * Unit price a BOQ item should carry: the component's current price when
+ * priced from the library, otherwise its own
+ */
+export function currentUnitPrice(item: BOQItem, components: Component[]): number {
+  return linkedComponent(item, components)?.unitPrice ?? item.unitPrice;
+}
+
+/**
+ * Currency a BOQ item should be priced in
+ */
+export function currentCurrency(item: BOQItem, boq: BOQ, components: Component[]): string {
+  return linkedComponent(item, components)?.currency ?? item.currency ?? boq.currency ?? DEFAULT_CURRENCY;
+}
+
+function findLinkedItem(items: CostLineItem[], boqId: string, boqItem: BOQItem): CostLineItem | undefined {
+  return (
+    items.find((c) => c.boq_link?.boq_id === boqId && c.boq_link.boq_item_id === boqItem.id) ??
+    // Regenerated BOQ items get new ids; fall back to the name
+    items.find((c) => c.boq_link?.boq_id === boqId && c.name === boqItem.name)
+  );
+}
+
+function values(quantity: number, unitPrice: number, currency: string): CapexSyncValues {
+  return { quantity, unitPrice, amount: quantity * unitPrice, currency };
+}
+
+/**
+ * Differences between a model's CAPEX items and the BOQ they were exported from
+ */
+export function buildCapexSyncDiff(
+  items: CostLineItem[],
+  boq: BOQ,
+  components: Component[],
+  design?: Design,
+  rates: FxRate[] = []
+): CapexSyncDiff {
+  const changes: CapexSyncChange[] = [];
+  const matched = new Set<string>();
+
+  for (const boqItem of boq.items) {
+    const unitPrice = currentUnitPrice(boqItem, components);
+    const currency = currentCurrency(boqItem, boq, components);
+    const boqCurrency = boqItem.currency ?? boq.currency ?? DEFAULT_CURRENCY;
+    const after = values(boqItem.quantity, unitPrice, currency);
+    const capexItem = findLinkedItem(items, boq.id, boqItem);
+
+    if (!capexItem) {
+      changes.push({
+        kind: 'added',
+        name: boqItem.name,
+        category: boqItem.category,
+        boqItemId: boqItem.id,
+        after,
+        reasons: ['boq'],
+      });
+      continue;
+    }
+    matched.add(capexItem.id);
+
+    // Items exported before currencies were recorded are in the BOQ's currency
+    const before = values(
+      capexItem.quantity ?? 1,
+      capexItem.unit_price ?? capexItem.amount,
+      capexItem.currency ?? boqCurrency
+    );
+    const reasons: CapexSyncReason[] = [];
+    if (
+      before.quantity !== after.quantity ||
+      Math.abs(before.unitPrice - boqItem.unitPrice) > PRICE_TOLERANCE ||
+      before.currency !== boqCurrency ||
+      capexItem.boq_link?.boq_item_id !== boqItem.id
+    ) {
+      reasons.push('boq');
+    }
+    if (Math.abs(unitPrice - boqItem.unitPrice) > PRICE_TOLERANCE || currency !== boqCurrency) {
+      reasons.push('component_price');
+    }
+    if (reasons.length > 0) {
+      changes.push({
+        kind: 'updated',
+        name: boqItem.name,
+        category: boqItem.category,
+        capexItemId: capexItem.id,
+        boqItemId: boqItem.id,
+        before,
+        after,
+        reasons,
+      });
+    }
+  }
+
+  for (const item of items) {
+    if (item.boq_link?.boq_id !== boq.id || matched.has(item.id)) continue;
+    changes.push({
+      kind: 'removed',
+      name: item.name,
+      category: item.category,
+      capexItemId: item.id,
+      before: values(item.quantity ?? 1, item.unit_price ?? item.amount, item.currency ?? boq.currency ?? DEFAULT_CURRENCY),
+      reasons: ['boq'],
+    });
+  }
+
+  const boqCurrency = boq.currency ?? DEFAULT_CURRENCY;
+  const inBOQCurrency = (v?: CapexSyncValues) =>
+    v ? (convertAmount(v.amount, v.currency, boqCurrency, rates) ?? v.amount) : 0;
+  const amountDelta = changes.reduce(
+    (sum, change) => sum + inBOQCurrency(change.after) - inBOQCurrency(change.before),
+    0
+  );
+
+  return {
+    boqId: boq.id,
+    boqName: boq.name,
+    changes,
+    designChanged: hasDesignChanged(boq, design),
+    amountDelta,
+    currency: boqCurrency,
+  };
+}
+
+/**
+ * CAPEX items after applying a sync diff. Removed items are dropped, manual
+ * items and margins are kept. BOQ item prices should already reflect the
+ * component library so the diff is clear afterwards.
+ */
+export function applyCapexSync(
+  items: CostLineItem[],
+  diff: CapexSyncDiff,
+  boq: BOQ,
+  syncedAt: string
+): CostLineItem[] {
+  const link = (boqItem: BOQItem): CostLineItem['boq_link'] => ({
+    boq_id: boq.id,
+    boq_item_id: boqItem.id,
+    component_id: boqItem.source === 'component_library' ? boqItem.sourceId : undefined,
+    synced_at: syncedAt,
+  });
+
+  const removed = new Set(diff.changes.filter((c) => c.kind === 'removed').map((c) => c.capexItemId));
+  const result = items
+    .filter((item) => !removed.has(item.id))
+    .map((item) => {
+      const change = diff.changes.find((c) => c.kind === 'updated' && c.capexItemId === item.id);
+      const boqItem = change && boq.items.find((b) => b.id === change.boqItemId);
+      if (!change?.after || !boqItem) return item;
+      return {
+        ...item,
+        name: boqItem.name,
+        category: boqItem.category,
+        quantity: change.after.quantity,
+        unit_price: change.after.unitPrice,
+        amount: change.after.amount,
+        unit: boqItem.unit,
+        currency: change.after.currency,
+        boq_link: link(boqItem),
+      };
+    });
+
+  for (const change of diff.changes) {
+    const boqItem = change.kind === 'added' && boq.items.find((b) => b.id === change.boqItemId);
+    if (!boqItem || !change.after) continue;
+    result.push({
+      id: crypto.randomUUID(),
+      name: boqItem.name,
+      amount: change.after.amount,
+      is_capex: true,
+      category: boqItem.category,
+      unit_price: change.after.unitPrice,
+      quantity: change.after.quantity,
+      unit: boqItem.unit,
+      currency: change.after.currency,
+      boq_link: link(boqItem),
+    });
+  }
+
+  return result;
+}
@@ -5,8 +5,20 @@
  * Adapted from pvfinance calculator
  */
 
-import { irr, pmt } from './financial';
-import { NORTHERN_HEMISPHERE_MONTHLY_FACTORS, MONTH_NAMES } from './constants';
+import { irr } from './financial';
+import { MONTH_NAMES } from './constants';
+import { exceedanceFactorYearT } from './uncertainty';
+import { buildDebtSchedule, type DebtSchedule } from './debt';
+import { createRevenueModel, monthlyProductionFactors, type RevenueModel } from './revenue';
+import { buildCostSchedule, type CostScheduleYear } from './costEvents';
+import { degradationFactorYearT, modulePowerYearT, warrantedPowerYearT } from './degradation';
+import { reportingAmount } from '@/lib/currency/fx';
+import {
+  allocatePartnershipFlip,
+  buildTaxSchedule,
+  type PartnershipFlipAllocation,
+  type TaxYear,
+} from './tax';
 import type {
   FinancialInputs,
   ProjectResults,
@@ -18,12 +30,35 @@ import type {
   YearlyData,
   MonthlyDataPoint,
 } from '@/lib/types/financial';
+import { DEFAULT_DEBT_TERMS, DEFAULT_YIELD_UNCERTAINTY } from '@/lib/types/financial';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
 
 export class SolarFinanceCalculator {
   private inputs: FinancialInputs;
+  private energyFactors?: number[];
+  private revenueModel: RevenueModel;
+  private monthlyFactors: number[];
+  private costSchedule: CostScheduleYear[];
+  private debtSchedule?: DebtSchedule;
+  private projectTaxSchedule?: TaxYear[];
+  private equityTaxSchedule?: TaxYear[];
 
-  constructor(inputs: FinancialInputs) {
+  /**
+   * @param energyFactors - Realised energy per operating year relative to the
+   *   P50 case (Monte Carlo runs). Debt is still sized on the inputs alone.
+   */
+  constructor(inputs: FinancialInputs, energyFactors?: number[]) {
     this.inputs = this.preprocessInputs(inputs);
+    this.energyFactors = energyFactors;
+    this.revenueModel = createRevenueModel(this.inputs);
+    this.monthlyFactors = monthlyProductionFactors(this.inputs);
+    this.costSchedule = buildCostSchedule({
+      events: this.inputs.cost_events ?? [],
+      decommissioning: this.inputs.decommissioning,
+      reserve: this.inputs.cost_reserve,
+      lifetime: this.inputs.project_lifetime,
+      escalation: this.inputs.om_escalation,
+    });
   }
 
   /**
@@ -34,16 +69,17 @@ export class SolarFinanceCalculator {
     if (inputs.capex_items && inputs.capex_items.length > 0) {
       const globalMargin = inputs.global_margin || 0;
 
-      // Calculate total CAPEX with margin applied to each item
+      // Calculate total CAPEX with margin applied to each item, in the
+      // reporting currency at the item's pinned FX rate
       const totalCapex = inputs.capex_items.reduce((sum, item) => {
         // Use item-specific margin if set, otherwise use global margin
         const marginPercent = item.margin_percent ?? globalMargin;
-        const itemTotal = item.amount * (1 + marginPercent / 100);
+        const itemTotal = reportingAmount(item) * (1 + marginPercent / 100);
         return sum + itemTotal;
       }, 0);
 
       // OPEX items don't have margin
-      const totalOpex = inputs.opex_items?.reduce((sum, item) => sum + item.amount, 0) || 0;
+      const totalOpex = inputs.opex_items?.reduce((sum, item) => sum + reportingAmount(item), 0) || 0;
 
       return {
         ...inputs,
@@ -75,13 +111,29 @@ export class SolarFinanceCalculator {
     return this.inputs.capacity * this.inputs.capex_per_mw!;
   }
 
+  private calcP50EnergyYearT(year: number): number {
+    return this.inputs.p50_year_0_yield * degradationFactorYearT(this.inputs, year);
+  }
+
   calcEnergyYearT(year: number): number {
-    return this.inputs.p50_year_0_yield * Math.pow(1 - this.inputs.degradation_rate, year - 1);
+    return this.calcP50EnergyYearT(year) * (this.energyFactors?.[year - 1] ?? 1);
   }
 
-  calcRevenueYearT(year: number): number {
-    const energy = this.calcEnergyYearT(year);
-    return energy * this.inputs.ppa_price * Math.pow(1 + this.inputs.ppa_escalation, year - 1);
+  /**
+   * Energy of the yield case used for debt sizing (1-year P-value)
+   */
+  calcDebtSizingEnergyYearT(year: number): number {
+    const level = this.inputs.debt_sizing_case ?? 'P50';
+    if (level === 'P50') {
+      return this.calcP50EnergyYearT(year);
+    }
+    const uncertainty = this.inputs.yield_uncertainty ?? DEFAULT_YIELD_UNCERTAINTY;
+    return this.calcP50EnergyYearT(year) *
+           exceedanceFactorYearT(uncertainty, level, year, this.inputs.degradation_rate);
+  }
+
+  calcRevenueYearT(year: number, energy: number = this.calcEnergyYearT(year)): number {
+    return this.revenueModel.revenue(year, energy).total;
   }
 
   calcOMYearT(year: number): number {
@@ -89,68 +141,190 @@ export class SolarFinanceCalculator {
            Math.pow(1 + this.inputs.om_escalation, year - 1);
   }
 
-  calcEBITDAYearT(year: number): number {
-    const revenue = this.calcRevenueYearT(year);
+  /**
+   * Cost events and net decommissioning falling in an operating year
+   */
+  calcScheduledCostsYearT(year: number): number {
+    return this.costSchedule[year - 1]?.total ?? 0;
+  }
+
+  /**
+   * Maintenance reserve released to pay costs (+) or funded from CFADS (-)
+   */
+  calcReserveMovementYearT(year: number): number {
+    return this.costSchedule[year - 1]?.reserveMovement ?? 0;
+  }
+
+  calcEBITDAYearT(year: number, energy: number = this.calcEnergyYearT(year)): number {
+    const revenue = this.calcRevenueYearT(year, energy);
     const om = this.calcOMYearT(year);
-    return revenue - om;
+    return revenue - om - this.calcScheduledCostsYearT(year);
+  }
+
+  /**
+   * Tax over the project lifetime for an energy case; losses carried forward
+   * make each year depend on the ones before it
+   */
+  private buildTaxSchedule(energyYearT: (year: number) => number, interest: number[]): TaxYear[] {
+    const energy: number[] = [];
+    const ebitda: number[] = [];
+    for (let year = 1; year <= this.inputs.project_lifetime; year++) {
+      energy.push(energyYearT(year));
+      ebitda.push(this.calcEBITDAYearT(year, energy[year - 1]));
+    }
+    return buildTaxSchedule({
+      ebitda,
+      energy,
+      interest,
+      totalCapex: this.calcTotalCapEx(),
+      taxRate: this.inputs.tax_rate,
+      terms: this.inputs.tax_terms,
+    });
+  }
+
+  /**
+   * Unlevered tax (no interest deduction), used for CFADS and project returns
+   */
+  private getProjectTaxSchedule(): TaxYear[] {
+    if (!this.projectTaxSchedule) {
+      this.projectTaxSchedule = this.buildTaxSchedule((year) => this.calcEnergyYearT(year), []);
+    }
+    return this.projectTaxSchedule;
+  }
+
+  /**
+   * Levered tax (interest deducted where allowed), used for equity returns
+   */
+  getTaxSchedule(): TaxYear[] {
+    if (!this.equityTaxSchedule) {
+      const interest = this.getDebtSchedule().years.map((y) => y.interest);
+      this.equityTaxSchedule = this.buildTaxSchedule((year) => this.calcEnergyYearT(year), interest);
+    }
+    return this.equityTaxSchedule;
   }
 
   calcCFADSYearT(year: number): number {
-    const ebitda = this.calcEBITDAYearT(year);
-    return ebitda * (1 - this.inputs.tax_rate);
+    const tax = this.getProjectTaxSchedule()[year - 1]?.taxPaid ?? 0;
+    return this.calcEBITDAYearT(year) - tax + this.calcReserveMovementYearT(year);
   }
 
-  calcPVofCFADS(): number {
-    let pvTotal = 0;
+  calcTaxCreditsYearT(year: number): number {
+    return this.getTaxSchedule()[year - 1]?.credits ?? 0;
+  }
+
+  /**
+   * CFADS of the debt sizing yield case over the tenor
+   */
+  private calcSizingCFADS(): number[] {
+    const tax = this.buildTaxSchedule((year) => this.calcDebtSizingEnergyYearT(year), []);
+    const sizingCFADS: number[] = [];
     for (let year = 1; year <= this.inputs.debt_tenor; year++) {
-      const cfads = this.calcCFADSYearT(year);
-      const discountFactor = Math.pow(1 + this.inputs.interest_rate, year);
-      pvTotal += cfads / discountFactor;
+      const ebitda = this.calcEBITDAYearT(year, this.calcDebtSizingEnergyYearT(year));
+      sizingCFADS.push(ebitda - (tax[year - 1]?.taxPaid ?? 0) + this.calcReserveMovementYearT(year));
     }
-    return pvTotal;
+    return sizingCFADS;
+  }
+
+  /**
+   * PV of CFADS over the tenor, on the debt sizing yield case
+   */
+  calcPVofCFADS(): number {
+    return this.calcSizingCFADS().reduce(
+      (pv, cfads, i) => pv + cfads / Math.pow(1 + this.inputs.interest_rate, i + 1),
+      0
+    );
+  }
+
+  /**
+   * Debt schedule (sizing, construction drawdown, repayment, DSRA), sized on
+   * the debt sizing yield case and built once per calculator
+   */
+  getDebtSchedule(): DebtSchedule {
+    if (!this.debtSchedule) {
+      const sizingCFADS = this.calcSizingCFADS();
+      this.debtSchedule = buildDebtSchedule({
+        totalCapex: this.calcTotalCapEx(),
+        gearingRatio: this.inputs.gearing_ratio,
+        interestRate: this.inputs.interest_rate,
+        tenor: this.inputs.debt_tenor,
+        targetDSCR: this.inputs.target_dscr,
+        sizingCFADS,
+        terms: this.inputs.debt_terms ?? DEFAULT_DEBT_TERMS,
+      });
+    }
+    return this.debtSchedule;
   }
 
   calcMaxDebtByDSCR(): number {
-    const pvCfads = this.calcPVofCFADS();
-    return pvCfads / this.inputs.target_dscr;
+    return this.getDebtSchedule().maxDebtByDSCR;
   }
 
   calcMaxDebtByGearing(): number {
-    const totalCapex = this.calcTotalCapEx();
-    return totalCapex * this.inputs.gearing_ratio;
+    return this.getDebtSchedule().maxDebtByGearing;
   }
 
   calcFinalDebt(): number {
-    const maxDebtDSCR = this.calcMaxDebtByDSCR();
-    const maxDebtGearing = this.calcMaxDebtByGearing();
-    return Math.min(maxDebtDSCR, maxDebtGearing);
+    return this.getDebtSchedule().debt;
+  }
+
+  /**
+   * Total funding requirement: CAPEX plus IDC, fees and the initial DSRA
+   */
+  calcTotalFunding(): number {
+    return this.getDebtSchedule().totalFunding;
   }
 
   calcEquity(): number {
-    const totalCapex = this.calcTotalCapEx();
-    const finalDebt = this.calcFinalDebt();
-    return totalCapex - finalDebt;
+    return this.getDebtSchedule().equity;
   }
 
+  calcDebtServiceYearT(year: number): number {
+    return this.getDebtSchedule().years[year - 1]?.debtService ?? 0;
+  }
+
+  /**
+   * Average debt service over the tenor (the annuity payment for an annuity
+   * loan without grace period)
+   */
   calcAnnualDebtService(): number {
-    const finalDebt = this.calcFinalDebt();
-    return -pmt(
-      this.inputs.interest_rate,
-      this.inputs.debt_tenor,
-      finalDebt,
-      0
-    );
+    const years = this.getDebtSchedule().years;
+    if (years.length === 0) return 0;
+    return years.reduce((sum, y) => sum + y.debtService, 0) / years.length;
+  }
+
+  calcDSRAMovementYearT(year: number): number {
+    return this.getDebtSchedule().years[year - 1]?.dsraMovement ?? 0;
   }
 
+  /**
+   * Equity cash flow: EBITDA after levered tax and credits, reserve and DSRA
+   * movements and debt service
+   */
   calcFCFtoEquityYearT(year: number): number {
-    const cfads = this.calcCFADSYearT(year);
+    const tax = this.getTaxSchedule()[year - 1];
+    const afterTax = this.calcEBITDAYearT(year) - (tax?.taxPaid ?? 0) + (tax?.credits ?? 0);
+    return afterTax + this.calcReserveMovementYearT(year) -
+           this.calcDebtServiceYearT(year) + this.calcDSRAMovementYearT(year);
+  }
 
-    if (year <= this.inputs.debt_tenor) {
-      const annualDS = this.calcAnnualDebtService();
-      return cfads - annualDS;
-    } else {
-      return cfads;
+  /**
+   * Partnership flip allocation of the equity cash flows (null without a flip)
+   */
+  getPartnershipFlip(): PartnershipFlipAllocation | null {
+    const flip = this.inputs.tax_terms?.partnership_flip;
+    if (!flip) return null;
+
+    const distributableCash: number[] = [];
+    const taxBenefits: number[] = [];
+    for (let year = 1; year <= this.inputs.project_lifetime; year++) {
+      const tax = this.getTaxSchedule()[year - 1];
+      taxBenefits.push((tax?.credits ?? 0) - (tax?.taxPaid ?? 0));
+      distributableCash.push(
+        this.calcEBITDAYearT(year) + this.calcReserveMovementYearT(year) -
+        this.calcDebtServiceYearT(year) + this.calcDSRAMovementYearT(year)
+      );
     }
+    return allocatePartnershipFlip(flip, this.calcEquity(), distributableCash, taxBenefits);
   }
 
   calcNPVofCosts(): number {
@@ -158,7 +332,7 @@ export class SolarFinanceCalculator {
     let pvOM = 0;
 
     for (let year = 1; year <= this.inputs.project_lifetime; year++) {
-      const om = this.calcOMYearT(year);
+      const om = this.calcOMYearT(year) + this.calcScheduledCostsYearT(year);
       const discountFactor = Math.pow(1 + this.inputs.discount_rate, year);
       pvOM += om / discountFactor;
     }
@@ -184,13 +358,13 @@ export class SolarFinanceCalculator {
     }
 
     const cfads = this.calcCFADSYearT(year);
-    const annualDS = this.calcAnnualDebtService();
+    const debtService = this.calcDebtServiceYearT(year);
 
-    if (annualDS === 0) {
+    if (debtService === 0) {
       return null;
     }
 
-    return cfads / annualDS;
+    return cfads / debtService;
   }
 
   // =================================================================
@@ -203,14 +377,22 @@ export class SolarFinanceCalculator {
     cashFlows.push(-totalCapex);
 
     for (let year = 1; year <= this.inputs.project_lifetime; year++) {
-      const cfads = this.calcCFADSYearT(year);
+      const cfads = this.calcCFADSYearT(year) + this.calcTaxCreditsYearT(year);
       cashFlows.push(cfads);
     }
 
     return irr(cashFlows);
   }
 
+  /**
+   * Equity IRR; the sponsor's IRR under a partnership flip
+   */
   calcEquityIRR(): number {
+    const flip = this.getPartnershipFlip();
+    if (flip) {
+      return irr([-flip.sponsorInvestment, ...flip.years.map((y) => y.sponsor)]);
+    }
+
     const cashFlows: number[] = [];
     const equity = this.calcEquity();
     cashFlows.push(-equity);
@@ -223,6 +405,12 @@ export class SolarFinanceCalculator {
     return irr(cashFlows);
   }
 
+  calcTaxEquityIRR(): number | null {
+    const flip = this.getPartnershipFlip();
+    if (!flip) return null;
+    return irr([-flip.taxEquityInvestment, ...flip.years.map((y) => y.taxEquity)]);
+  }
+
   calcLCOE(): number {
     const npvCosts = this.calcNPVofCosts();
     const npvEnergy = this.calcNPVofEnergy();
@@ -263,7 +451,7 @@ export class SolarFinanceCalculator {
     let pvCfads = 0;
 
     for (let year = 1; year <= this.inputs.project_lifetime; year++) {
-      const cfads = this.calcCFADSYearT(year);
+      const cfads = this.calcCFADSYearT(year) + this.calcTaxCreditsYearT(year);
       const discountFactor = Math.pow(1 + this.inputs.discount_rate, year);
       pvCfads += cfads / discountFactor;
     }
@@ -296,7 +484,7 @@ export class SolarFinanceCalculator {
     let prevCumulative = 0;
 
     for (let year = 1; year <= this.inputs.project_lifetime; year++) {
-      const cfads = this.calcCFADSYearT(year);
+      const cfads = this.calcCFADSYearT(year) + this.calcTaxCreditsYearT(year);
       prevCumulative = cumulativeCFADS;
       cumulativeCFADS += cfads;
 
@@ -315,14 +503,13 @@ export class SolarFinanceCalculator {
 
   calcEnergyMonthT(year: number, month: number): number {
     const annualEnergy = this.calcEnergyYearT(year);
-    const seasonalFactor = NORTHERN_HEMISPHERE_MONTHLY_FACTORS[month - 1];
+    const seasonalFactor = this.monthlyFactors[month - 1];
     return annualEnergy * seasonalFactor;
   }
 
   calcRevenueMonthT(year: number, month: number): number {
     const monthlyEnergy = this.calcEnergyMonthT(year, month);
-    const ppaPriceYear = this.inputs.ppa_price * Math.pow(1 + this.inputs.ppa_escalation, year - 1);
-    return monthlyEnergy * ppaPriceYear;
+    return this.revenueModel.revenue(year, monthlyEnergy, month).total;
   }
 
   calcOMMonthT(year: number): number {
@@ -330,38 +517,54 @@ export class SolarFinanceCalculator {
     return annualOM / 12;
   }
 
+  calcScheduledCostsMonthT(year: number): number {
+    return this.calcScheduledCostsYearT(year) / 12;
+  }
+
   calcEBITDAMonthT(year: number, month: number): number {
     const monthlyRevenue = this.calcRevenueMonthT(year, month);
     const monthlyOM = this.calcOMMonthT(year);
-    return monthlyRevenue - monthlyOM;
+    return monthlyRevenue - monthlyOM - this.calcScheduledCostsMonthT(year);
   }
 
+  /**
+   * Monthly CFADS; annual tax from the tax schedule and reserve movements are
+   * spread evenly
+   */
   calcCFADSMonthT(year: number, month: number): number {
     const monthlyEBITDA = this.calcEBITDAMonthT(year, month);
-    return monthlyEBITDA * (1 - this.inputs.tax_rate);
+    const monthlyReserve = this.calcReserveMovementYearT(year) / 12;
+    if (!this.inputs.tax_terms) {
+      return monthlyEBITDA * (1 - this.inputs.tax_rate) + monthlyReserve;
+    }
+    return monthlyEBITDA - (this.getProjectTaxSchedule()[year - 1]?.taxPaid ?? 0) / 12 + monthlyReserve;
   }
 
   calcDebtServiceMonthT(year: number): number {
-    if (year > this.inputs.debt_tenor) {
-      return 0;
-    }
-    const annualDS = this.calcAnnualDebtService();
-    return annualDS / 12;
+    return this.calcDebtServiceYearT(year) / 12;
   }
 
   calcFCFtoEquityMonthT(year: number, month: number): number {
     const monthlyCFADS = this.calcCFADSMonthT(year, month);
     const monthlyDS = this.calcDebtServiceMonthT(year);
-    return monthlyCFADS - monthlyDS;
+    // Interest tax shield and credits on top of unlevered CFADS
+    const projectTax = this.getProjectTaxSchedule()[year - 1]?.taxPaid ?? 0;
+    const equityTax = this.getTaxSchedule()[year - 1];
+    const taxAdjustment = projectTax - (equityTax?.taxPaid ?? 0) + (equityTax?.credits ?? 0);
+    return monthlyCFADS - monthlyDS + (this.calcDSRAMovementYearT(year) + taxAdjustment) / 12;
   }
 
   // =================================================================
   // REPORT GENERATION
   // =================================================================
 
+  private hasScheduledCosts(): boolean {
+    return (this.inputs.cost_events?.length ?? 0) > 0 || this.inputs.decommissioning !== undefined;
+  }
+
   generateYearlyData(): YearlyData {
     const years = Array.from({ length: this.inputs.project_lifetime }, (_, i) => i + 1);
-    const annualDebtService = this.calcAnnualDebtService();
+    const debtYears = this.getDebtSchedule().years;
 
     const energyProductionMwh: number[] = [];
     const revenue: number[] = [];
@@ -372,14 +575,42 @@ export class SolarFinanceCalculator {
     const debtService: number[] = [];
     const dscr: (number | null)[] = [];
     const cumulativeFCFToEquity: number[] = [];
+    const interestPayment: number[] = [];
+    const principalRepayment: number[] = [];
+    const debtBalance: number[] = [];
+    const dsraBalance: number[] = [];
+    const dsraMovement: number[] = [];
+    const scheduledCosts: number[] = [];
+    const reserveMovement: number[] = [];
+    const reserveBalance: number[] = [];
+    const revenueContracted: number[] = [];
+    const revenueMerchant: number[] = [];
+    const revenueCapacity: number[] = [];
+    const revenueRec: number[] = [];
+    const curtailedMwh: number[] = [];
+    const taxYears = this.getTaxSchedule();
+    const flip = this.getPartnershipFlip();
+    const profile = this.inputs.degradation_profile;
+    const warranty = profile?.warranty;
 
     const equity = this.calcEquity();
     let cumulativeFCF = -equity;
 
     for (let year = 1; year <= this.inputs.project_lifetime; year++) {
-      energyProductionMwh.push(this.calcEnergyYearT(year));
-      revenue.push(this.calcRevenueYearT(year));
+      const energy = this.calcEnergyYearT(year);
+      const breakdown = this.revenueModel.revenue(year, energy);
+      energyProductionMwh.push(energy);
+      revenue.push(breakdown.total);
+      revenueContracted.push(breakdown.contracted);
+      revenueMerchant.push(breakdown.merchant);
+      revenueCapacity.push(breakdown.capacity);
+      revenueRec.push(breakdown.rec);
+      curtailedMwh.push(breakdown.curtailedMwh);
       omCosts.push(this.calcOMYearT(year));
+      const costYear = this.costSchedule[year - 1];
+      scheduledCosts.push(costYear?.total ?? 0);
+      reserveMovement.push(costYear?.reserveMovement ?? 0);
+      reserveBalance.push(costYear?.reserveBalance ?? 0);
       ebitda.push(this.calcEBITDAYearT(year));
       cfads.push(this.calcCFADSYearT(year));
 
@@ -388,13 +619,14 @@ export class SolarFinanceCalculator {
       cumulativeFCF += fcf;
       cumulativeFCFToEquity.push(cumulativeFCF);
 
-      if (year <= this.inputs.debt_tenor) {
-        debtService.push(annualDebtService);
-        dscr.push(this.calcDSCRYearT(year));
-      } else {
-        debtService.push(0);
-        dscr.push(null);
-      }
+      const debtYear = debtYears[year - 1];
+      debtService.push(debtYear?.debtService ?? 0);
+      dscr.push(debtYear ? this.calcDSCRYearT(year) : null);
+      interestPayment.push(debtYear?.interest ?? 0);
+      principalRepayment.push(debtYear?.principal ?? 0);
+      debtBalance.push(debtYear?.closingBalance ?? 0);
+      dsraBalance.push(debtYear?.dsraBalance ?? 0);
+      dsraMovement.push(debtYear?.dsraMovement ?? 0);
     }
 
     return {
@@ -408,6 +640,38 @@ export class SolarFinanceCalculator {
       debt_service: debtService,
       dscr,
       cumulative_fcf_to_equity: cumulativeFCFToEquity,
+      interest_payment: interestPayment,
+      principal_repayment: principalRepayment,
+      debt_balance: debtBalance,
+      dsra_balance: dsraBalance,
+      dsra_movement: dsraMovement,
+      depreciation: taxYears.map((y) => y.depreciation),
+      taxable_income: taxYears.map((y) => y.taxableIncome),
+      tax_paid: taxYears.map((y) => y.taxPaid),
+      tax_credits: taxYears.map((y) => y.credits),
+      nol_balance: taxYears.map((y) => y.nolBalance),
+      ...(this.hasScheduledCosts() && {
+        scheduled_costs: scheduledCosts,
+        reserve_movement: reserveMovement,
+        reserve_balance: reserveBalance,
+      }),
+      ...(this.inputs.revenue_stack && {
+        revenue_contracted: revenueContracted,
+        revenue_merchant: revenueMerchant,
+        revenue_capacity: revenueCapacity,
+        revenue_rec: revenueRec,
+        curtailed_mwh: curtailedMwh,
+      }),
+      ...(profile && {
+        module_power: years.map((y) => modulePowerYearT(profile, this.inputs.degradation_rate, y)),
+      }),
+      ...(warranty && {
+        warranted_power: years.map((y) => warrantedPowerYearT(warranty, y)),
+      }),
+      ...(flip && {
+        tax_equity_cash_flow: flip.years.map((y) => y.taxEquity),
+        sponsor_cash_flow: flip.years.map((y) => y.sponsor),
+      }),
     };
   }
 
@@ -417,6 +681,7 @@ export class SolarFinanceCalculator {
     let cumulativeFCF = -equity;
 
     for (let year = 1; year <= this.inputs.project_lifetime; year++) {
+      const debtYear = this.getDebtSchedule().years[year - 1];
       for (let month = 1; month <= 12; month++) {
         const fcf = this.calcFCFtoEquityMonthT(year, month);
         cumulativeFCF += fcf;
@@ -433,10 +698,14 @@ export class SolarFinanceCalculator {
           energy_production_mwh: this.calcEnergyMonthT(year, month),
           revenue: this.calcRevenueMonthT(year, month),
           om_costs: this.calcOMMonthT(year),
+          ...(this.hasScheduledCosts() && { scheduled_costs: this.calcScheduledCostsMonthT(year) }),
           ebitda: this.calcEBITDAMonthT(year, month),
           cfads,
           debt_service: debtService,
           dscr,
+          interest_payment: (debtYear?.interest ?? 0) / 12,
+          principal_repayment: (debtYear?.principal ?? 0) / 12,
+          dsra_movement: (debtYear?.dsraMovement ?? 0) / 12,
           fcf_to_equity: fcf,
           cumulative_fcf_to_equity: cumulativeFCF,
         });
@@ -505,6 +774,8 @@ export class SolarFinanceCalculator {
    */
   calculate(): ProjectResults {
     const totalCapex = this.calcTotalCapEx();
+    const schedule = this.getDebtSchedule();
+    const terms = this.inputs.debt_terms ?? DEFAULT_DEBT_TERMS;
     const finalDebt = this.calcFinalDebt();
     const equity = this.calcEquity();
     const maxDebtDSCR = this.calcMaxDebtByDSCR();
@@ -539,11 +810,19 @@ export class SolarFinanceCalculator {
       max_debt_by_gearing: maxDebtGearing,
       final_debt: finalDebt,
       equity: equity,
-      actual_gearing: finalDebt / totalCapex,
+      actual_gearing: finalDebt / schedule.totalFunding,
       binding_constraint: bindingConstraint,
+      debt_sizing_case: this.inputs.debt_sizing_case ?? 'P50',
       interest_rate: this.inputs.interest_rate,
       debt_tenor: this.inputs.debt_tenor,
       annual_debt_service: this.calcAnnualDebtService(),
+      repayment_profile: terms.repayment_profile,
+      grace_period_years: schedule.gracePeriodYears,
+      construction_months: schedule.construction.length,
+      total_funding: schedule.totalFunding,
+      idc: schedule.idc,
+      financing_fees: schedule.upfrontFee + schedule.commitmentFees,
+      dsra_initial_balance: schedule.dsraInitialBalance,
     };
 
     const keyMetrics: KeyMetrics = {
@@ -557,6 +836,10 @@ export class SolarFinanceCalculator {
       equity_payback_years: this.calcEquityPaybackPeriod(),
       project_payback_years: this.calcProjectPaybackPeriod(),
     };
+    const taxEquityIRR = this.calcTaxEquityIRR();
+    if (taxEquityIRR !== null) {
+      keyMetrics.tax_equity_irr = taxEquityIRR;
+    }
 
     const firstYearOperations: FirstYearOperations = {
       energy_production_mwh: year1Energy,
@@ -571,6 +854,7 @@ export class SolarFinanceCalculator {
     const monthlyData = this.generateMonthlyData();
 
     return {
+      currency: this.inputs.currency ?? DEFAULT_CURRENCY,
       project_summary: projectSummary,
       financing_structure: financingStructure,
       key_metrics: keyMetrics,
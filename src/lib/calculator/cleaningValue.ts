@@ -0,0 +1,51 @@
+/**
+ * Cleaning Value
+ *
+ * Compares the energy that scheduled panel cleanings recover with the panel
+ * cleaning O&M cost. The recovered share comes from the soiling profile of
+ * the applied yield estimate (cleanings against rain alone) and is applied
+ * to the model's P50 yield, so manual yield edits carry through. The energy
+ * is valued at the model's first-year revenue, so a revenue stack's prices
+ * and curtailment apply.
+ */
+
+import { reportingAmount } from '@/lib/currency/fx';
+import { cleaningEnergyGain } from '@/lib/yield/soiling';
+import type { FinancialInputs } from '@/lib/types/financial';
+import { createRevenueModel } from './revenue';
+
+/** OPEX line item holding the cleaning contract (see OPEX_FIELDS) */
+export const PANEL_CLEANING_ITEM = 'Panel cleaning';
+
+export interface CleaningValue {
+  cleaningsPerYear: number;
+  recoveredMwh: number;           // First-year energy recovered by the cleanings
+  revenue: number;                // First-year revenue of the recovered energy
+  cost: number;                   // Panel cleaning OPEX per year (reporting currency)
+  net: number;                    // revenue - cost
+}
+
+/**
+ * Value of the cleaning schedules behind a model's yield estimate, or
+ * undefined when the estimate has no soiling profile
+ */
+export function calculateCleaningValue(inputs: FinancialInputs): CleaningValue | undefined {
+  const estimate = inputs.yieldEstimate;
+  if (!estimate?.soilingProfile || estimate.annualYield <= 0) return undefined;
+
+  const energy = inputs.p50_year_0_yield;
+  const recoveredMwh = (energy * cleaningEnergyGain(estimate)) / estimate.annualYield;
+  const model = createRevenueModel(inputs);
+  const revenue = model.revenue(1, energy).total - model.revenue(1, energy - recoveredMwh).total;
+  const cost = inputs.opex_items
+    .filter((item) => item.name === PANEL_CLEANING_ITEM)
+    .reduce((sum, item) => sum + reportingAmount(item), 0);
+
+  return {
+    cleaningsPerYear: estimate.soilingProfile.cleaningsPerYear,
+    recoveredMwh,
+    revenue,
+    cost,
+    net: revenue - cost,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Scheduled Costs Module
+ *
+ * One-off and periodic cost events (inverter replacement, major maintenance)
+ * and end-of-life decommissioning net of salvage, escalated from year-1
+ * money. An optional reserve account pre-funds each cost evenly from CFADS
+ * over the years before it falls due and releases the balance to pay it.
+ */
+
+import type { CostEvent, CostReserveTerms, DecommissioningTerms } from '@/lib/types/financial';
+
+export interface CostScheduleInput {
+  events: CostEvent[];
+  decommissioning?: DecommissioningTerms;
+  reserve?: CostReserveTerms;
+  lifetime: number;
+  escalation: number;                // Annual escalation from year-1 money
+}
+
+export interface CostScheduleYear {
+  year: number;                      // Operating year
+  events: number;
+  decommissioning: number;           // Net of salvage (negative when salvage exceeds cost)
+  total: number;
+  reserveContribution: number;
+  reserveRelease: number;
+  reserveMovement: number;           // Released (+) or funded from CFADS (-)
+  reserveBalance: number;            // Closing balance
+}
+
+/**
+ * Operating years in which an event occurs
+ */
+export function costEventYears(event: CostEvent, lifetime: number): number[] {
+  const first = Math.max(1, Math.round(event.year));
+  if (event.recurrence === 'once') {
+    return first <= lifetime ? [first] : [];
+  }
+  const interval = Math.max(1, Math.round(event.interval_years));
+  const years: number[] = [];
+  for (let year = first; year <= lifetime; year += interval) {
+    years.push(year);
+  }
+  return years;
+}
+
+/**
+ * Build the scheduled cost and reserve account schedule
+ */
+export function buildCostSchedule(input: CostScheduleInput): CostScheduleYear[] {
+  const { events, decommissioning, reserve, lifetime, escalation } = input;
+  const escalate = (amount: number, year: number) => amount * Math.pow(1 + escalation, year - 1);
+
+  const years: CostScheduleYear[] = Array.from({ length: lifetime }, (_, i) => ({
+    year: i + 1,
+    events: 0,
+    decommissioning: 0,
+    total: 0,
+    reserveContribution: 0,
+    reserveRelease: 0,
+    reserveMovement: 0,
+    reserveBalance: 0,
+  }));
+  if (lifetime <= 0) return years;
+
+  // Costs the reserve covers: [year, amount]
+  const reserved: Array<[number, number]> = [];
+
+  for (const event of events) {
+    for (const year of costEventYears(event, lifetime)) {
+      const amount = escalate(event.amount, year);
+      years[year - 1].events += amount;
+      reserved.push([year, amount]);
+    }
+  }
+
+  if (decommissioning) {
+    const net = escalate(decommissioning.cost - decommissioning.salvage_value, lifetime);
+    years[lifetime - 1].decommissioning = net;
+    if (reserve?.include_decommissioning && net > 0) {
+      reserved.push([lifetime, net]);
+    }
+  }
+
+  if (reserve) {
+    const fundingYears = Math.max(0, Math.round(reserve.funding_years));
+    for (const [year, amount] of reserved) {
+      const from = Math.max(1, year - fundingYears);
+      const count = year - from;
+      if (count <= 0) continue; // Falls due before it can be funded
+      for (let t = from; t < year; t++) {
+        years[t - 1].reserveContribution += amount / count;
+      }
+      years[year - 1].reserveRelease += amount;
+    }
+  }
+
+  let balance = 0;
+  for (const y of years) {
+    y.total = y.events + y.decommissioning;
+    y.reserveMovement = y.reserveRelease - y.reserveContribution;
+    balance -= y.reserveMovement;
+    y.reserveBalance = balance;
+  }
+  return years;
+}
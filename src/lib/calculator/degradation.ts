@@ -0,0 +1,156 @@
+/**
+ * Module Degradation
+ *
+ * Module power over the project life from a degradation profile: LID in the
+ * first days of operation, LeTID building up over the first years, then
+ * ageing at the model's annual degradation rate from year 2, either linear or
+ * with a rate that grows every year (nonlinear, e.g. encapsulant browning or
+ * backsheet wear in later years).
+ *
+ * Energy of each operating year follows the average of the module power at
+ * its start and at its end; LID settles in the first days, so year 1 starts
+ * from the post-LID power. Without a profile, energy declines geometrically at
+ * the annual rate. The expected power at each year end is checked against
+ * the manufacturer's linear power warranty to find the years in which a
+ * warranty claim would be triggered.
+ */
+
+import type { ModuleSpecs } from '@/lib/types/component';
+import type { DegradationProfile, FinancialInputs, PowerWarranty } from '@/lib/types/financial';
+import { DEFAULT_DEGRADATION_PROFILE } from '@/lib/types/financial';
+
+/** Operating years over which LeTID reaches its full loss */
+export const LETID_YEARS = 3;
+
+export interface WarrantyCheckYear {
+  year: number;
+  expectedPower: number;          // Expected share of nameplate power at year end
+  warrantedPower: number;         // Guaranteed share of nameplate power at year end
+  claim: boolean;                 // Expected power below the warranty
+}
+
+/**
+ * Ageing loss after a number of years at the annual rate. The nonlinear
+ * curve grows the rate by rate_acceleration every year.
+ */
+function agingLoss(profile: DegradationProfile, rate: number, years: number): number {
+  if (profile.curve === 'linear' || profile.rate_acceleration === 0) {
+    return rate * years;
+  }
+  let loss = 0;
+  for (let k = 0; k < years; k++) {
+    loss += rate * Math.pow(1 + profile.rate_acceleration, k);
+  }
+  return loss;
+}
+
+/**
+ * Expected module power at the end of an operating year.
+ *
+ * @param profile - Degradation profile of the module
+ * @param rate - Annual degradation rate from year 2
+ * @param year - Operating year (1-based, 0 = nameplate)
+ * @returns Share of nameplate power (0-1)
+ */
+export function modulePowerYearT(profile: DegradationProfile, rate: number, year: number): number {
+  if (year <= 0) return 1;
+  const letid = profile.letid * Math.min(1, year / LETID_YEARS);
+  const aging = Math.min(1, agingLoss(profile, rate, year - 1));
+  return Math.max(0, (1 - profile.lid) * (1 - letid) * (1 - aging));
+}
+
+/**
+ * Average module power over an operating year: the mean of the power at its
+ * start (after LID in year 1) and at its end.
+ *
+ * @param profile - Degradation profile of the module
+ * @param rate - Annual degradation rate from year 2
+ * @param year - Operating year (1-based)
+ * @returns Share of nameplate power (0-1)
+ */
+export function averageModulePowerYearT(profile: DegradationProfile, rate: number, year: number): number {
+  if (year <= 0) return 1;
+  const start = year === 1 ? Math.max(0, 1 - profile.lid) : modulePowerYearT(profile, rate, year - 1);
+  return (start + modulePowerYearT(profile, rate, year)) / 2;
+}
+
+/**
+ * Power guaranteed by a linear warranty at the end of an operating year, or
+ * null beyond its term
+ */
+export function warrantedPowerYearT(warranty: PowerWarranty, year: number): number | null {
+  if (year < 1 || year > warranty.years) return null;
+  return Math.max(0, warranty.first_year_power - warranty.annual_decline * (year - 1));
+}
+
+/**
+ * P50 energy of an operating year relative to p50_year_0_yield
+ */
+export function degradationFactorYearT(inputs: FinancialInputs, year: number): number {
+  const profile = inputs.degradation_profile;
+  if (!profile) {
+    return Math.pow(1 - inputs.degradation_rate, year - 1);
+  }
+  return averageModulePowerYearT(profile, inputs.degradation_rate, year);
+}
+
+/**
+ * Expected against warranted module power for each year of the warranty
+ * term within the project lifetime.
+ *
+ * @returns Empty without a degradation profile or power warranty
+ */
+export function checkPowerWarranty(inputs: FinancialInputs): WarrantyCheckYear[] {
+  const profile = inputs.degradation_profile;
+  const warranty = profile?.warranty;
+  if (!profile || !warranty) return [];
+
+  const years = Math.min(warranty.years, inputs.project_lifetime);
+  return Array.from({ length: Math.max(0, years) }, (_, i) => {
+    const year = i + 1;
+    const expectedPower = modulePowerYearT(profile, inputs.degradation_rate, year);
+    const warrantedPower = warrantedPowerYearT(warranty, year) ?? 0;
+    return { year, expectedPower, warrantedPower, claim: expectedPower < warrantedPower - 1e-9 };
+  });
+}
+
+/**
+ * Degradation profile and annual rate from a library module's datasheet.
+ *
+ * The warranted first-year loss stands in for LID when the datasheet does not
+ * state it separately; the warranted annual loss becomes the annual rate.
+ * Curve settings are kept from the current profile.
+ *
+ * @param specs - Module specs (degradation values in %)
+ * @param moduleName - Name recorded on the profile
+ * @param current - Profile whose curve settings are kept
+ */
+export function degradationProfileFromSpecs(
+  specs: ModuleSpecs,
+  moduleName: string,
+  current: DegradationProfile = DEFAULT_DEGRADATION_PROFILE
+): { profile: DegradationProfile; rate?: number } {
+  const warranty: PowerWarranty | undefined =
+    specs.firstYearDegradation !== undefined &&
+    specs.annualDegradation !== undefined &&
+    specs.warrantyYears
+      ? {
+          first_year_power: 1 - specs.firstYearDegradation / 100,
+          annual_decline: specs.annualDegradation / 100,
+          years: specs.warrantyYears,
+        }
+      : undefined;
+  const lid = specs.lid ?? specs.firstYearDegradation;
+
+  return {
+    profile: {
+      module_name: moduleName,
+      lid: lid !== undefined ? lid / 100 : current.lid,
+      letid: specs.letid !== undefined ? specs.letid / 100 : current.letid,
+      curve: current.curve,
+      rate_acceleration: current.rate_acceleration,
+      ...(warranty && { warranty }),
+    },
+    rate: specs.annualDegradation !== undefined ? specs.annualDegradation / 100 : undefined,
+  };
+}
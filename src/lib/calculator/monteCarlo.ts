@@ -0,0 +1,205 @@
+/**
+ * Monte Carlo Yield Simulation
+ *
+ * Samples realised energy (long-term model error, inter-annual variability
+ * and degradation rate) and runs each sample through SolarFinanceCalculator
+ * to build IRR and DSCR distributions. Debt stays sized on the inputs' debt
+ * sizing case; only operating cash flows vary between runs.
+ */
+
+import { SolarFinanceCalculator } from './calculator';
+import { EXCEEDANCE_LEVELS, exceedanceProbability } from './uncertainty';
+import { DEFAULT_YIELD_UNCERTAINTY } from '@/lib/types/financial';
+import type { ExceedanceLevel, FinancialInputs } from '@/lib/types/financial';
+
+export type MonteCarloMetric = 'energy_year_1' | 'avg_energy' | 'project_irr' | 'equity_irr' | 'min_dscr';
+
+export const MONTE_CARLO_METRICS: Array<{
+  key: MonteCarloMetric;
+  label: string;
+  format: 'energy' | 'percent' | 'ratio';
+}> = [
+  { key: 'energy_year_1', label: 'Year 1 Energy', format: 'energy' },
+  { key: 'avg_energy', label: 'Lifetime Avg Energy', format: 'energy' },
+  { key: 'project_irr', label: 'Project IRR', format: 'percent' },
+  { key: 'equity_irr', label: 'Equity IRR', format: 'percent' },
+  { key: 'min_dscr', label: 'Min DSCR', format: 'ratio' },
+];
+
+export interface MonteCarloOptions {
+  iterations: number;
+  seed?: number;        // Same seed → same samples
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  iterations: 1000,
+  seed: 1,
+};
+
+export interface MetricDistribution {
+  values: number[];                                   // Sorted ascending (failed runs dropped)
+  mean: number;
+  exceedance: Record<ExceedanceLevel, number>;        // Value exceeded with the level's probability
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  distributions: Record<MonteCarloMetric, MetricDistribution>;
+  dscrBelowTarget: number;                            // Share of runs with min DSCR < target
+  dscrBelowOne: number;                               // Share of runs with min DSCR < 1.0
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ExceedancePoint {
+  probability: number;  // 0-1, probability the value is exceeded
+  value: number;
+}
+
+/**
+ * Seeded uniform generator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sampler (Box-Muller)
+ */
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = Math.max(random(), Number.EPSILON);
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Realised energy per operating year relative to P50 for one run
+ */
+export function sampleEnergyFactors(inputs: FinancialInputs, normal: () => number): number[] {
+  const uncertainty = inputs.yield_uncertainty ?? DEFAULT_YIELD_UNCERTAINTY;
+  const modelError = normal() * uncertainty.model_uncertainty;
+  const degradation = Math.max(0, inputs.degradation_rate + normal() * uncertainty.degradation_uncertainty);
+  const degradationRatio = (1 - degradation) / (1 - inputs.degradation_rate);
+
+  return Array.from({ length: inputs.project_lifetime }, (_, i) => {
+    const annual = normal() * uncertainty.interannual_variability;
+    return Math.max(0, (1 + modelError) * (1 + annual)) * Math.pow(degradationRatio, i);
+  });
+}
+
+/**
+ * Value exceeded with probability p in an ascending sample
+ */
+export function exceedanceValue(sorted: number[], probability: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (1 - probability) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toDistribution(samples: number[]): MetricDistribution {
+  const values = samples.filter((v) => isFinite(v)).sort((a, b) => a - b);
+  const exceedance = {} as Record<ExceedanceLevel, number>;
+  for (const level of EXCEEDANCE_LEVELS) {
+    exceedance[level] = exceedanceValue(values, exceedanceProbability(level));
+  }
+  return {
+    values,
+    mean: values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : NaN,
+    exceedance,
+  };
+}
+
+/**
+ * Run the simulation
+ */
+export function runMonteCarlo(
+  inputs: FinancialInputs,
+  options: MonteCarloOptions = DEFAULT_MONTE_CARLO_OPTIONS
+): MonteCarloResult {
+  const normal = createNormal(createRandom(options.seed ?? Date.now()));
+  const samples: Record<MonteCarloMetric, number[]> = {
+    energy_year_1: [],
+    avg_energy: [],
+    project_irr: [],
+    equity_irr: [],
+    min_dscr: [],
+  };
+
+  for (let i = 0; i < options.iterations; i++) {
+    const factors = sampleEnergyFactors(inputs, normal);
+    const calculator = new SolarFinanceCalculator(inputs, factors);
+
+    let totalEnergy = 0;
+    for (let year = 1; year <= inputs.project_lifetime; year++) {
+      totalEnergy += calculator.calcEnergyYearT(year);
+    }
+
+    samples.energy_year_1.push(calculator.calcEnergyYearT(1));
+    samples.avg_energy.push(totalEnergy / inputs.project_lifetime);
+    samples.project_irr.push(calculator.calcProjectIRR());
+    samples.equity_irr.push(calculator.calcEquityIRR());
+    samples.min_dscr.push(calculator.calcMinimumDSCR() ?? NaN);
+  }
+
+  const distributions = {} as Record<MonteCarloMetric, MetricDistribution>;
+  for (const { key } of MONTE_CARLO_METRICS) {
+    distributions[key] = toDistribution(samples[key]);
+  }
+
+  const dscrs = distributions.min_dscr.values;
+  const share = (predicate: (v: number) => boolean) =>
+    dscrs.length > 0 ? dscrs.filter(predicate).length / dscrs.length : 0;
+
+  return {
+    iterations: options.iterations,
+    distributions,
+    dscrBelowTarget: share((v) => v < inputs.target_dscr),
+    dscrBelowOne: share((v) => v < 1),
+  };
+}
+
+/**
+ * Equal-width histogram of a sorted sample
+ */
+export function buildHistogram(sorted: number[], binCount: number = 20): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / binCount || 1;
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  }
+  return bins;
+}
+
+/**
+ * Exceedance curve: value against probability of being exceeded
+ */
+export function buildExceedanceCurve(sorted: number[], points: number = 50): ExceedancePoint[] {
+  if (sorted.length === 0) return [];
+  return Array.from({ length: points + 1 }, (_, i) => {
+    const probability = i / points;
+    return { probability, value: exceedanceValue(sorted, probability) };
+  });
+}
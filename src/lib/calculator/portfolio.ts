@@ -0,0 +1,223 @@
+/**
+ * Portfolio Roll-up
+ *
+ * Aggregates the financial models of many projects into a portfolio view:
+ * capacity and CAPEX by workflow stage, capacity-weighted IRR and LCOE, and
+ * yearly cash flows summed by operating year. Amounts are converted from each
+ * model's reporting currency to the portfolio currency with the FX table.
+ */
+
+import { costItemTotals } from './scenarios';
+import { resolveFxRate } from '@/lib/currency/fx';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import type { FxRate } from '@/lib/types/currency';
+import type { FinancialModel } from '@/lib/types/financial';
+import type { Priority, Project, Stage } from '@/lib/types';
+
+export interface PortfolioEntry {
+  project: Project;
+  model: FinancialModel;
+}
+
+export interface PortfolioProject {
+  projectId: string;
+  projectName: string;
+  modelId: string;
+  stageId: string;
+  stageName: string;
+  owner: string;
+  priority: Priority;
+  capacityMw: number;
+  totalCapex: number;          // Calculated CAPEX, or estimated from inputs when not calculated
+  projectIrr: number | null;   // null until the model is calculated
+  equityIrr: number | null;
+  lcoe: number | null;         // Per MWh
+  projectNpv: number | null;
+  calculated: boolean;
+  sourceCurrency: string;      // Reporting currency of the model
+}
+
+export interface PortfolioStage {
+  stageId: string;
+  stageName: string;
+  projectCount: number;
+  capacityMw: number;
+  totalCapex: number;
+}
+
+export interface PortfolioYear {
+  year: number;                // Operating year, aligned at COD across projects
+  energy_mwh: number;
+  revenue: number;
+  om_costs: number;
+  ebitda: number;
+  cfads: number;
+  debt_service: number;
+  fcf_to_equity: number;
+  cumulative_fcf_to_equity: number;
+}
+
+export interface PortfolioSummary {
+  currency: string;
+  projectCount: number;
+  calculatedCount: number;
+  totalCapacityMw: number;
+  totalCapex: number;
+  totalEquity: number;                // Equity invested in calculated models
+  weightedProjectIrr: number | null;  // Capacity-weighted over calculated models
+  weightedEquityIrr: number | null;
+  weightedLcoe: number | null;
+  stages: PortfolioStage[];
+  years: PortfolioYear[];
+  projects: PortfolioProject[];
+  missingRates: string[];             // Currencies converted 1:1 for lack of a rate
+}
+
+/**
+ * CAPEX of a model: calculated when results exist, otherwise estimated from
+ * its inputs the way the calculator would
+ */
+function modelCapex(model: FinancialModel): number {
+  if (model.results) return model.results.project_summary.total_capex;
+  const inputs = model.inputs;
+  if (inputs.capex_items.length > 0) return costItemTotals(inputs).capex;
+  return inputs.capacity * (inputs.capex_per_mw ?? 0);
+}
+
+function weightedAverage(values: { value: number; weight: number }[]): number | null {
+  const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+  if (totalWeight <= 0) return null;
+  return values.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight;
+}
+
+/**
+ * Roll the given projects' financial models up into a portfolio summary
+ */
+export function buildPortfolio(
+  entries: PortfolioEntry[],
+  stages: Pick<Stage, 'id' | 'name'>[],
+  rates: FxRate[],
+  currency: string = DEFAULT_CURRENCY
+): PortfolioSummary {
+  const missingRates = new Set<string>();
+  const fxRate = (from: string): number => {
+    const quote = resolveFxRate(rates, from, currency);
+    if (!quote) {
+      missingRates.add(from);
+      return 1;
+    }
+    return quote.rate;
+  };
+
+  const converted = entries.map((entry) => {
+    const sourceCurrency = entry.model.results?.currency ?? entry.model.inputs.currency ?? DEFAULT_CURRENCY;
+    return { ...entry, sourceCurrency, rate: fxRate(sourceCurrency) };
+  });
+
+  const projects: PortfolioProject[] = converted.map(({ project, model, sourceCurrency, rate }) => {
+    const metrics = model.results?.key_metrics;
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      modelId: model.id,
+      stageId: project.currentStageId,
+      stageName: stages.find((s) => s.id === project.currentStageId)?.name ?? 'Unknown',
+      owner: project.owner,
+      priority: project.priority,
+      capacityMw: model.inputs.capacity,
+      totalCapex: modelCapex(model) * rate,
+      projectIrr: metrics?.project_irr ?? null,
+      equityIrr: metrics?.equity_irr ?? null,
+      lcoe: metrics ? metrics.lcoe * rate : null,
+      projectNpv: metrics ? metrics.project_npv * rate : null,
+      calculated: metrics !== undefined,
+      sourceCurrency,
+    };
+  });
+
+  // Stages in workflow order, then any stage no longer in the workflow
+  const stageTotals = new Map<string, PortfolioStage>();
+  for (const stage of stages) {
+    stageTotals.set(stage.id, { stageId: stage.id, stageName: stage.name, projectCount: 0, capacityMw: 0, totalCapex: 0 });
+  }
+  for (const p of projects) {
+    let total = stageTotals.get(p.stageId);
+    if (!total) {
+      total = { stageId: p.stageId, stageName: p.stageName, projectCount: 0, capacityMw: 0, totalCapex: 0 };
+      stageTotals.set(p.stageId, total);
+    }
+    total.projectCount += 1;
+    total.capacityMw += p.capacityMw;
+    total.totalCapex += p.totalCapex;
+  }
+
+  // Yearly cash flows by operating year; shorter lifetimes contribute nothing after they end
+  const years: PortfolioYear[] = [];
+  for (const { model, rate } of converted) {
+    const yearly = model.results?.yearly_data;
+    if (!yearly) continue;
+    yearly.years.forEach((year, i) => {
+      let row = years.find((y) => y.year === year);
+      if (!row) {
+        row = {
+          year,
+          energy_mwh: 0,
+          revenue: 0,
+          om_costs: 0,
+          ebitda: 0,
+          cfads: 0,
+          debt_service: 0,
+          fcf_to_equity: 0,
+          cumulative_fcf_to_equity: 0,
+        };
+        years.push(row);
+      }
+      row.energy_mwh += yearly.energy_production_mwh[i] ?? 0;
+      row.revenue += (yearly.revenue[i] ?? 0) * rate;
+      row.om_costs += (yearly.om_costs[i] ?? 0) * rate;
+      row.ebitda += (yearly.ebitda[i] ?? 0) * rate;
+      row.cfads += (yearly.cfads[i] ?? 0) * rate;
+      row.debt_service += (yearly.debt_service[i] ?? 0) * rate;
+      row.fcf_to_equity += (yearly.fcf_to_equity[i] ?? 0) * rate;
+    });
+  }
+  years.sort((a, b) => a.year - b.year);
+
+  // Like each model, cumulative cash to equity starts from the equity invested
+  const totalEquity = converted.reduce(
+    (sum, { model, rate }) => sum + (model.results?.financing_structure.equity ?? 0) * rate,
+    0
+  );
+  let cumulative = -totalEquity;
+  for (const row of years) {
+    cumulative += row.fcf_to_equity;
+    row.cumulative_fcf_to_equity = cumulative;
+  }
+
+  const calculated = projects.filter((p) => p.calculated);
+  // Models whose metric has no finite value (e.g. an IRR without a sign
+  // change) are left out together with their capacity
+  const weighted = (value: (p: PortfolioProject) => number | null) =>
+    weightedAverage(
+      calculated.flatMap((p) => {
+        const v = value(p);
+        return v !== null && Number.isFinite(v) ? [{ value: v, weight: p.capacityMw }] : [];
+      })
+    );
+
+  return {
+    currency,
+    projectCount: projects.length,
+    calculatedCount: calculated.length,
+    totalCapacityMw: projects.reduce((sum, p) => sum + p.capacityMw, 0),
+    totalCapex: projects.reduce((sum, p) => sum + p.totalCapex, 0),
+    totalEquity,
+    weightedProjectIrr: weighted((p) => p.projectIrr),
+    weightedEquityIrr: weighted((p) => p.equityIrr),
+    weightedLcoe: weighted((p) => p.lcoe),
+    stages: [...stageTotals.values()],
+    years,
+    projects,
+    missingRates: [...missingRates].sort(),
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Revenue Module
+ *
+ * Pluggable revenue models consumed by SolarFinanceCalculator. Without a
+ * revenue stack all energy is sold at the escalating PPA price for the whole
+ * lifetime. A revenue stack sells curtailed output under offtake contracts
+ * covering shares of energy for their terms, with the uncontracted share on
+ * a merchant price curve at the solar capture price, plus capacity and REC
+ * revenues.
+ *
+ * Annual stack revenue is the sum of its months, so monthly curtailment and
+ * capture discounts weigh in at the seasonal production profile.
+ */
+
+import { NORTHERN_HEMISPHERE_MONTHLY_FACTORS } from './constants';
+import { monthlyTotalsFromHourly } from '@/lib/yield/hourlySimulation';
+import { HOURS_PER_YEAR } from '@/lib/yield/constants';
+import type { FinancialInputs, RevenueContract, RevenueStack } from '@/lib/types/financial';
+
+export interface RevenueBreakdown {
+  contracted: number;
+  merchant: number;
+  capacity: number;
+  rec: number;
+  curtailedMwh: number;
+  total: number;
+}
+
+export interface RevenueModel {
+  /**
+   * Revenue for the generation of an operating year, or of one month
+   * (1-12) of it
+   */
+  revenue(year: number, energy: number, month?: number): RevenueBreakdown;
+}
+
+// Relative solar output by hour of day (clear-sky half sine, 06:00-18:00)
+export const SOLAR_HOURLY_PROFILE = Array.from({ length: 24 }, (_, h) =>
+  Math.max(0, Math.sin((Math.PI * (h + 0.5 - 6)) / 12))
+);
+
+/**
+ * Share of annual energy produced in each month: the hourly (8760) profile of
+ * a simulated yield estimate when present, otherwise the generic
+ * northern-hemisphere profile
+ */
+export function monthlyProductionFactors(inputs: FinancialInputs): number[] {
+  const profile = inputs.yieldEstimate?.hourlyProfile;
+  if (profile?.length === HOURS_PER_YEAR) {
+    const monthly = monthlyTotalsFromHourly(profile);
+    const total = monthly.reduce((sum, m) => sum + m, 0);
+    if (total > 0) return monthly.map((m) => m / total);
+  }
+  return NORTHERN_HEMISPHERE_MONTHLY_FACTORS;
+}
+
+/**
+ * Relative output by hour of day: the hourly (8760) profile of a simulated
+ * yield estimate summed per hour of day when present, otherwise the generic
+ * clear-sky half sine
+ */
+export function dailyProductionProfile(inputs: FinancialInputs): number[] {
+  const profile = inputs.yieldEstimate?.hourlyProfile;
+  if (profile?.length === HOURS_PER_YEAR) {
+    const daily = new Array<number>(24).fill(0);
+    profile.forEach((value, hour) => {
+      daily[hour % 24] += value;
+    });
+    if (daily.some((value) => value > 0)) return daily;
+  }
+  return SOLAR_HOURLY_PROFILE;
+}
+
+/**
+ * Seed a revenue stack from the single-PPA inputs: the PPA covers all output
+ * for 15 years, followed by a merchant tail at the same price
+ */
+export function createRevenueStack(inputs: FinancialInputs): RevenueStack {
+  return {
+    contracts: [
+      {
+        id: crypto.randomUUID(),
+        name: 'PPA',
+        share: 1,
+        price: inputs.ppa_price,
+        escalation: inputs.ppa_escalation,
+        start_year: 1,
+        term_years: Math.min(15, inputs.project_lifetime),
+      },
+    ],
+    merchant_price: inputs.ppa_price,
+    merchant_escalation: 0.02,
+    capture_discount: 0.1,
+    curtailment: 0,
+    capacity_payment: 0,
+    capacity_escalation: 0,
+    capacity_years: inputs.project_lifetime,
+    rec_price: 0,
+    rec_escalation: 0,
+    rec_years: inputs.project_lifetime,
+  };
+}
+
+/**
+ * Generation-weighted price of an hourly price shape relative to the daily
+ * average price (below 1 when prices dip at solar hours)
+ *
+ * @param priceShape - 24 hourly prices
+ * @param outputProfile - 24 hourly output weights (see dailyProductionProfile)
+ */
+export function hourlyShapeFactor(
+  priceShape: number[],
+  outputProfile: number[] = SOLAR_HOURLY_PROFILE
+): number {
+  if (priceShape.length !== 24 || outputProfile.length !== 24) return 1;
+  const averagePrice = priceShape.reduce((sum, p) => sum + p, 0) / 24;
+  const totalOutput = outputProfile.reduce((sum, s) => sum + s, 0);
+  if (averagePrice <= 0 || totalOutput <= 0) return 1;
+  const weighted = outputProfile.reduce((sum, s, h) => sum + s * priceShape[h], 0);
+  return weighted / totalOutput / averagePrice;
+}
+
+/**
+ * Baseload merchant price in an operating year
+ */
+export function merchantPriceYearT(stack: RevenueStack, year: number): number {
+  const curve = stack.merchant_price_curve ?? [];
+  if (curve.length === 0) {
+    return stack.merchant_price * Math.pow(1 + stack.merchant_escalation, year - 1);
+  }
+  if (year <= curve.length) return curve[year - 1];
+  return curve[curve.length - 1] * Math.pow(1 + stack.merchant_escalation, year - curve.length);
+}
+
+function isContractActive(contract: RevenueContract, year: number): boolean {
+  return year >= contract.start_year && year < contract.start_year + contract.term_years;
+}
+
+/**
+ * Shares of sold energy under each active contract, capped at 100% in list
+ * order; the remainder is merchant
+ */
+function contractShares(stack: RevenueStack, year: number): Array<{ contract: RevenueContract; share: number }> {
+  let remaining = 1;
+  return stack.contracts
+    .filter((contract) => isContractActive(contract, year))
+    .map((contract) => {
+      const share = Math.min(remaining, Math.max(0, contract.share));
+      remaining -= share;
+      return { contract, share };
+    });
+}
+
+function monthlyValue(values: number[] | undefined, month: number, fallback: number): number {
+  return values?.length === 12 ? values[month - 1] : fallback;
+}
+
+/**
+ * Single PPA at the escalating PPA price
+ */
+function createPPAModel(inputs: FinancialInputs): RevenueModel {
+  return {
+    revenue(year, energy) {
+      const total = energy * inputs.ppa_price * Math.pow(1 + inputs.ppa_escalation, year - 1);
+      return { contracted: total, merchant: 0, capacity: 0, rec: 0, curtailedMwh: 0, total };
+    },
+  };
+}
+
+function createStackModel(inputs: FinancialInputs, stack: RevenueStack): RevenueModel {
+  const shapeFactor = hourlyShapeFactor(stack.hourly_price_shape ?? [], dailyProductionProfile(inputs));
+  const monthlyFactors = monthlyProductionFactors(inputs);
+  const monthlyFactorTotal = monthlyFactors.reduce((sum, f) => sum + f, 0);
+
+  const monthRevenue = (year: number, energy: number, month: number): RevenueBreakdown => {
+    const curtailment = Math.min(1, Math.max(0, monthlyValue(stack.monthly_curtailment, month, stack.curtailment)));
+    const sold = energy * (1 - curtailment);
+
+    let contracted = 0;
+    let contractedShare = 0;
+    for (const { contract, share } of contractShares(stack, year)) {
+      const price = contract.price * Math.pow(1 + contract.escalation, year - contract.start_year);
+      contracted += sold * share * price;
+      contractedShare += share;
+    }
+
+    const captureDiscount = monthlyValue(stack.monthly_capture_discounts, month, stack.capture_discount);
+    const capturePrice = merchantPriceYearT(stack, year) * (1 - captureDiscount) * shapeFactor;
+    const merchant = sold * (1 - contractedShare) * capturePrice;
+
+    const rec = year <= stack.rec_years
+      ? sold * stack.rec_price * Math.pow(1 + stack.rec_escalation, year - 1)
+      : 0;
+    const capacity = year <= stack.capacity_years
+      ? (inputs.capacity * stack.capacity_payment * Math.pow(1 + stack.capacity_escalation, year - 1)) / 12
+      : 0;
+
+    return {
+      contracted,
+      merchant,
+      capacity,
+      rec,
+      curtailedMwh: energy - sold,
+      total: contracted + merchant + capacity + rec,
+    };
+  };
+
+  return {
+    revenue(year, energy, month) {
+      if (month !== undefined) return monthRevenue(year, energy, month);
+
+      const annual: RevenueBreakdown = { contracted: 0, merchant: 0, capacity: 0, rec: 0, curtailedMwh: 0, total: 0 };
+      monthlyFactors.forEach((factor, i) => {
+        const monthly = monthRevenue(year, (energy * factor) / monthlyFactorTotal, i + 1);
+        annual.contracted += monthly.contracted;
+        annual.merchant += monthly.merchant;
+        annual.capacity += monthly.capacity;
+        annual.rec += monthly.rec;
+        annual.curtailedMwh += monthly.curtailedMwh;
+        annual.total += monthly.total;
+      });
+      return annual;
+    },
+  };
+}
+
+/**
+ * Revenue model for a set of inputs
+ */
+export function createRevenueModel(inputs: FinancialInputs): RevenueModel {
+  return inputs.revenue_stack ? createStackModel(inputs, inputs.revenue_stack) : createPPAModel(inputs);
+}
@@ -0,0 +1,231 @@
+/**
+ * Financial Scenarios
+ *
+ * Resolve a scenario's inputs from the base case and line up the results of
+ * several cases (key metrics, financing structure and yearly cash flows) with
+ * deltas against the base case.
+ */
+
+import { SolarFinanceCalculator } from './calculator';
+import { reportingAmount } from '@/lib/currency/fx';
+import type {
+  FinancialInputs,
+  FinancialScenario,
+  ProjectResults,
+  KeyMetrics,
+  FinancingStructure,
+  YearlyData,
+} from '@/lib/types/financial';
+
+/** Id used for the base case in comparisons */
+export const BASE_CASE_ID = 'base';
+
+export type ScenarioValueFormat = 'currency' | 'percent' | 'ratio' | 'years' | 'price' | 'number';
+
+/** Which direction of change improves the case (null = neither) */
+export type ScenarioDeltaDirection = 'higher' | 'lower' | null;
+
+/**
+ * Inputs a scenario can override, in display order
+ */
+export interface ScenarioOverrideField {
+  key: keyof FinancialInputs;
+  label: string;
+  unit: string;
+  step: string;
+}
+
+export const SCENARIO_OVERRIDE_FIELDS: ScenarioOverrideField[] = [
+  { key: 'capacity', label: 'Capacity', unit: 'MW', step: '0.01' },
+  { key: 'p50_year_0_yield', label: 'P50 Year 0 Yield', unit: 'MWh', step: '1' },
+  { key: 'ppa_price', label: 'PPA Price', unit: '/MWh', step: '0.01' },
+  { key: 'capex_per_mw', label: 'CAPEX per MW', unit: '/MW', step: '1000' },
+  { key: 'om_cost_per_mw_year', label: 'O&M per MW', unit: '/year', step: '100' },
+  { key: 'degradation_rate', label: 'Degradation Rate', unit: '', step: '0.001' },
+  { key: 'ppa_escalation', label: 'PPA Escalation', unit: '', step: '0.001' },
+  { key: 'om_escalation', label: 'O&M Escalation', unit: '', step: '0.001' },
+  { key: 'gearing_ratio', label: 'Gearing Ratio', unit: '', step: '0.01' },
+  { key: 'interest_rate', label: 'Interest Rate', unit: '', step: '0.001' },
+  { key: 'debt_tenor', label: 'Debt Tenor', unit: 'years', step: '1' },
+  { key: 'target_dscr', label: 'Target DSCR', unit: '', step: '0.01' },
+  { key: 'project_lifetime', label: 'Project Lifetime', unit: 'years', step: '1' },
+  { key: 'tax_rate', label: 'Tax Rate', unit: '', step: '0.01' },
+  { key: 'discount_rate', label: 'Discount Rate', unit: '', step: '0.001' },
+];
+
+/**
+ * A case to compare: the base case or a scenario, with its results
+ */
+export interface ScenarioCase {
+  id: string;
+  name: string;
+  results: ProjectResults;
+}
+
+/**
+ * One compared value across cases
+ */
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  format: ScenarioValueFormat;
+  better: ScenarioDeltaDirection;
+  values: (number | null)[];   // One per case, base case first
+  deltas: (number | null)[];   // Value minus the base case value (null for the base)
+}
+
+export interface YearlyComparison {
+  years: number[];
+  series: Array<{
+    key: keyof YearlyData;
+    label: string;
+    better: ScenarioDeltaDirection;
+    values: (number | null)[][]; // [case][year] (null past a case's lifetime)
+  }>;
+}
+
+export interface ScenarioComparison {
+  cases: Array<{ id: string; name: string }>;
+  keyMetrics: ComparisonRow[];
+  financing: ComparisonRow[];
+  yearly: YearlyComparison;
+}
+
+interface ComparisonRowDefinition<T> {
+  key: keyof T;
+  label: string;
+  format: ScenarioValueFormat;
+  better: ScenarioDeltaDirection;
+}
+
+const KEY_METRIC_ROWS: ComparisonRowDefinition<KeyMetrics>[] = [
+  { key: 'project_irr', label: 'Project IRR', format: 'percent', better: 'higher' },
+  { key: 'equity_irr', label: 'Equity IRR', format: 'percent', better: 'higher' },
+  { key: 'project_npv', label: 'Project NPV', format: 'currency', better: 'higher' },
+  { key: 'lcoe', label: 'LCOE', format: 'price', better: 'lower' },
+  { key: 'min_dscr', label: 'Min DSCR', format: 'ratio', better: 'higher' },
+  { key: 'avg_dscr', label: 'Avg DSCR', format: 'ratio', better: 'higher' },
+  { key: 'ppa_price', label: 'PPA Price', format: 'price', better: 'higher' },
+  { key: 'equity_payback_years', label: 'Equity Payback', format: 'years', better: 'lower' },
+  { key: 'project_payback_years', label: 'Project Payback', format: 'years', better: 'lower' },
+];
+
+const FINANCING_ROWS: ComparisonRowDefinition<FinancingStructure>[] = [
+  { key: 'final_debt', label: 'Debt', format: 'currency', better: null },
+  { key: 'equity', label: 'Equity', format: 'currency', better: null },
+  { key: 'actual_gearing', label: 'Gearing', format: 'percent', better: null },
+  { key: 'max_debt_by_dscr', label: 'Max Debt (DSCR)', format: 'currency', better: null },
+  { key: 'max_debt_by_gearing', label: 'Max Debt (Gearing)', format: 'currency', better: null },
+  { key: 'annual_debt_service', label: 'Annual Debt Service', format: 'currency', better: null },
+  { key: 'interest_rate', label: 'Interest Rate', format: 'percent', better: null },
+  { key: 'debt_tenor', label: 'Debt Tenor', format: 'years', better: null },
+];
+
+const YEARLY_SERIES: Array<{ key: keyof YearlyData; label: string; better: ScenarioDeltaDirection }> = [
+  { key: 'revenue', label: 'Revenue', better: 'higher' },
+  { key: 'ebitda', label: 'EBITDA', better: 'higher' },
+  { key: 'cfads', label: 'CFADS', better: 'higher' },
+  { key: 'debt_service', label: 'Debt Service', better: 'lower' },
+  { key: 'fcf_to_equity', label: 'FCF to Equity', better: 'higher' },
+  { key: 'cumulative_fcf_to_equity', label: 'Cumulative FCF to Equity', better: 'higher' },
+];
+
+/**
+ * Total CAPEX and year-1 OPEX of a case's line items (CAPEX with margin)
+ */
+export function costItemTotals(inputs: FinancialInputs): { capex: number; opex: number } {
+  const globalMargin = inputs.global_margin || 0;
+  const capex = inputs.capex_items.reduce(
+    (sum, item) => sum + reportingAmount(item) * (1 + (item.margin_percent ?? globalMargin) / 100),
+    0
+  );
+  const opex = inputs.opex_items.reduce((sum, item) => sum + reportingAmount(item), 0);
+  return { capex, opex };
+}
+
+/**
+ * Inputs of a scenario: the base case with the overrides applied.
+ *
+ * When the base case is costed from line items, a per-MW CAPEX or O&M
+ * override replaces the items (the calculator ignores per-MW costs while
+ * items are present); the cost that is not overridden keeps the items' total.
+ */
+export function resolveScenarioInputs(
+  base: FinancialInputs,
+  overrides: Partial<FinancialInputs>
+): FinancialInputs {
+  const inputs: FinancialInputs = { ...base, ...overrides };
+
+  const overridesPerMwCost =
+    overrides.capex_per_mw !== undefined || overrides.om_cost_per_mw_year !== undefined;
+  if (base.capex_items.length === 0 || overrides.capex_items || !overridesPerMwCost) {
+    return inputs;
+  }
+
+  const totals = costItemTotals(base);
+  return {
+    ...inputs,
+    capex_items: [],
+    opex_items: [],
+    capex_per_mw: overrides.capex_per_mw ?? totals.capex / base.capacity,
+    om_cost_per_mw_year: overrides.om_cost_per_mw_year ?? totals.opex / base.capacity,
+  };
+}
+
+/**
+ * Run the calculator for a scenario
+ */
+export function calculateScenario(
+  base: FinancialInputs,
+  scenario: Pick<FinancialScenario, 'overrides'>
+): ProjectResults {
+  return new SolarFinanceCalculator(resolveScenarioInputs(base, scenario.overrides)).calculate();
+}
+
+function compareRows<T>(
+  cases: ScenarioCase[],
+  rows: ComparisonRowDefinition<T>[],
+  pick: (results: ProjectResults) => T
+): ComparisonRow[] {
+  return rows.map(({ key, label, format, better }) => {
+    const values = cases.map((c) => {
+      const value = pick(c.results)[key];
+      return typeof value === 'number' && isFinite(value) ? value : null;
+    });
+    const base = values[0];
+    return {
+      key: String(key),
+      label,
+      format,
+      better,
+      values,
+      deltas: values.map((v, i) => (i === 0 || v === null || base === null ? null : v - base)),
+    };
+  });
+}
+
+/**
+ * Line up several cases against the first (the base case)
+ */
+export function compareScenarios(cases: ScenarioCase[]): ScenarioComparison {
+  const lifetime = Math.max(0, ...cases.map((c) => c.results.yearly_data?.years.length ?? 0));
+  const years = Array.from({ length: lifetime }, (_, i) => i + 1);
+
+  return {
+    cases: cases.map(({ id, name }) => ({ id, name })),
+    keyMetrics: compareRows(cases, KEY_METRIC_ROWS, (r) => r.key_metrics),
+    financing: compareRows(cases, FINANCING_ROWS, (r) => r.financing_structure),
+    yearly: {
+      years,
+      series: YEARLY_SERIES.map(({ key, label, better }) => ({
+        key,
+        label,
+        better,
+        values: cases.map((c) => {
+          const series = (c.results.yearly_data?.[key] ?? []) as (number | null)[];
+          return years.map((_, i) => series[i] ?? null);
+        }),
+      })),
+    },
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * Sensitivity Analysis
+ *
+ * Perturbs numeric financial inputs and records how the headline metrics
+ * (project IRR, equity IRR, LCOE, minimum DSCR) move. Drives the tornado
+ * chart (one input at a time, low/high) and two-way data tables (two inputs
+ * on a grid of steps).
+ */
+
+import { SolarFinanceCalculator } from './calculator';
+import { costItemTotals } from './scenarios';
+import type { FinancialInputs, KeyMetrics } from '@/lib/types/financial';
+
+/** Numeric inputs that can be perturbed */
+export type SensitivityInputKey = {
+  [K in keyof FinancialInputs]-?: FinancialInputs[K] extends number | undefined ? K : never;
+}[keyof FinancialInputs];
+
+export type SensitivityMetric = keyof Pick<KeyMetrics, 'project_irr' | 'equity_irr' | 'lcoe' | 'min_dscr'>;
+
+/** Metric values for one set of inputs (null when the case cannot be calculated) */
+export type SensitivityOutputs = Record<SensitivityMetric, number | null>;
+
+export const SENSITIVITY_INPUT_LABELS: Record<SensitivityInputKey, string> = {
+  capacity: 'Capacity',
+  p50_year_0_yield: 'Yield (P50)',
+  capex_per_mw: 'CAPEX',
+  ppa_price: 'PPA Price',
+  om_cost_per_mw_year: 'O&M Cost',
+  global_margin: 'CAPEX Margin',
+  degradation_rate: 'Degradation',
+  ppa_escalation: 'PPA Escalation',
+  om_escalation: 'O&M Escalation',
+  gearing_ratio: 'Gearing',
+  interest_rate: 'Interest Rate',
+  debt_tenor: 'Debt Tenor',
+  target_dscr: 'Target DSCR',
+  project_lifetime: 'Project Lifetime',
+  tax_rate: 'Tax Rate',
+  discount_rate: 'Discount Rate',
+};
+
+export const SENSITIVITY_METRICS: Array<{
+  key: SensitivityMetric;
+  label: string;
+  format: 'percent' | 'price' | 'ratio';
+  better: 'higher' | 'lower';
+}> = [
+  { key: 'project_irr', label: 'Project IRR', format: 'percent', better: 'higher' },
+  { key: 'equity_irr', label: 'Equity IRR', format: 'percent', better: 'higher' },
+  { key: 'lcoe', label: 'LCOE', format: 'price', better: 'lower' },
+  { key: 'min_dscr', label: 'Min DSCR', format: 'ratio', better: 'higher' },
+];
+
+/** Inputs counted in whole units (rounded after perturbation) */
+const INTEGER_INPUTS: SensitivityInputKey[] = ['debt_tenor', 'project_lifetime'];
+
+export interface SensitivitySettings {
+  variationPercent: number;          // ± change applied for the tornado (%)
+  variables: SensitivityInputKey[];  // Inputs shown on the tornado
+  twoWay: {
+    rowKey: SensitivityInputKey;
+    colKey: SensitivityInputKey;
+    stepsPercent: number[];          // Changes applied along both axes (%)
+  };
+}
+
+export const DEFAULT_SENSITIVITY_SETTINGS: SensitivitySettings = {
+  variationPercent: 10,
+  variables: ['capex_per_mw', 'p50_year_0_yield', 'ppa_price', 'interest_rate'],
+  twoWay: {
+    rowKey: 'capex_per_mw',
+    colKey: 'ppa_price',
+    stepsPercent: [-20, -10, 0, 10, 20],
+  },
+};
+
+export interface TornadoBar {
+  key: SensitivityInputKey;
+  label: string;
+  lowInput: number;                  // Input value at -variation
+  highInput: number;                 // Input value at +variation
+  low: SensitivityOutputs;
+  high: SensitivityOutputs;
+}
+
+export interface TornadoResult {
+  variationPercent: number;
+  base: SensitivityOutputs;
+  bars: TornadoBar[];
+}
+
+export interface TwoWayTable {
+  rowKey: SensitivityInputKey;
+  colKey: SensitivityInputKey;
+  stepsPercent: number[];
+  rowInputs: number[];               // Row input value at each step
+  colInputs: number[];               // Column input value at each step
+  cells: SensitivityOutputs[][];     // [row step][column step]
+}
+
+const EMPTY_OUTPUTS: SensitivityOutputs = {
+  project_irr: null,
+  equity_irr: null,
+  lcoe: null,
+  min_dscr: null,
+};
+
+/**
+ * Effective value of an input. Per-MW costs come from the line items when
+ * the model is itemised.
+ */
+export function getSensitivityInputValue(inputs: FinancialInputs, key: SensitivityInputKey): number {
+  if (inputs.capex_items.length > 0 && (key === 'capex_per_mw' || key === 'om_cost_per_mw_year')) {
+    const totals = costItemTotals(inputs);
+    return (key === 'capex_per_mw' ? totals.capex : totals.opex) / inputs.capacity;
+  }
+  return inputs[key] ?? 0;
+}
+
+/**
+ * Scale one input by a factor. Per-MW costs of an itemised model scale the
+ * line items, since the calculator derives per-MW costs from them.
+ */
+export function perturbInput(
+  inputs: FinancialInputs,
+  key: SensitivityInputKey,
+  factor: number
+): FinancialInputs {
+  const itemised = inputs.capex_items.length > 0;
+
+  if (itemised && key === 'capex_per_mw') {
+    return {
+      ...inputs,
+      capex_items: inputs.capex_items.map((item) => ({
+        ...item,
+        amount: item.amount * factor,
+        unit_price: item.unit_price !== undefined ? item.unit_price * factor : undefined,
+      })),
+    };
+  }
+  if (itemised && key === 'om_cost_per_mw_year') {
+    return {
+      ...inputs,
+      opex_items: inputs.opex_items.map((item) => ({ ...item, amount: item.amount * factor })),
+    };
+  }
+
+  // Contract prices of a revenue stack move with the PPA price
+  if (key === 'ppa_price' && inputs.revenue_stack) {
+    const stack = inputs.revenue_stack;
+    return {
+      ...inputs,
+      ppa_price: inputs.ppa_price * factor,
+      revenue_stack: {
+        ...stack,
+        contracts: stack.contracts.map((contract) => ({ ...contract, price: contract.price * factor })),
+      },
+    };
+  }
+
+  const scaled = (inputs[key] ?? 0) * factor;
+  return {
+    ...inputs,
+    [key]: INTEGER_INPUTS.includes(key) ? Math.max(1, Math.round(scaled)) : scaled,
+  };
+}
+
+/**
+ * Headline metrics for a set of inputs (only these, not the full results)
+ */
+export function evaluateSensitivity(inputs: FinancialInputs): SensitivityOutputs {
+  try {
+    const calculator = new SolarFinanceCalculator(inputs);
+    const finite = (value: number | null | undefined) =>
+      typeof value === 'number' && isFinite(value) ? value : null;
+    return {
+      project_irr: finite(calculator.calcProjectIRR()),
+      equity_irr: finite(calculator.calcEquityIRR()),
+      lcoe: finite(calculator.calcLCOE()),
+      min_dscr: finite(calculator.calcMinimumDSCR()),
+    };
+  } catch {
+    return { ...EMPTY_OUTPUTS };
+  }
+}
+
+/**
+ * One-at-a-time sensitivities at ±variation for the tornado chart
+ */
+export function runTornado(
+  inputs: FinancialInputs,
+  keys: SensitivityInputKey[],
+  variationPercent: number
+): TornadoResult {
+  const variation = variationPercent / 100;
+  return {
+    variationPercent,
+    base: evaluateSensitivity(inputs),
+    bars: keys.map((key) => {
+      const lowInputs = perturbInput(inputs, key, 1 - variation);
+      const highInputs = perturbInput(inputs, key, 1 + variation);
+      return {
+        key,
+        label: SENSITIVITY_INPUT_LABELS[key],
+        lowInput: getSensitivityInputValue(lowInputs, key),
+        highInput: getSensitivityInputValue(highInputs, key),
+        low: evaluateSensitivity(lowInputs),
+        high: evaluateSensitivity(highInputs),
+      };
+    }),
+  };
+}
+
+/**
+ * Swing of a metric across a tornado bar (for ordering, widest first)
+ */
+export function tornadoSwing(bar: TornadoBar, metric: SensitivityMetric): number {
+  const low = bar.low[metric];
+  const high = bar.high[metric];
+  return low === null || high === null ? 0 : Math.abs(high - low);
+}
+
+/**
+ * Two-way data table: every combination of row and column steps
+ */
+export function runTwoWayTable(
+  inputs: FinancialInputs,
+  rowKey: SensitivityInputKey,
+  colKey: SensitivityInputKey,
+  stepsPercent: number[]
+): TwoWayTable {
+  const factors = stepsPercent.map((step) => 1 + step / 100);
+  return {
+    rowKey,
+    colKey,
+    stepsPercent,
+    rowInputs: factors.map((f) => getSensitivityInputValue(perturbInput(inputs, rowKey, f), rowKey)),
+    colInputs: factors.map((f) => getSensitivityInputValue(perturbInput(inputs, colKey, f), colKey)),
+    cells: factors.map((rowFactor) =>
+      factors.map((colFactor) =>
+        evaluateSensitivity(perturbInput(perturbInput(inputs, rowKey, rowFactor), colKey, colFactor))
+      )
+    ),
+  };
+}
+
+/**
+ * Tornado and two-way table for a set of settings (as shown on the page and
+ * in the PDF report)
+ */
+export interface SensitivityReport {
+  tornado: TornadoResult;
+  twoWay: TwoWayTable;
+}
+
+export function runSensitivityAnalysis(
+  inputs: FinancialInputs,
+  settings: SensitivitySettings
+): SensitivityReport {
+  const { rowKey, colKey, stepsPercent } = settings.twoWay;
+  return {
+    tornado: runTornado(inputs, settings.variables, settings.variationPercent),
+    twoWay: runTwoWayTable(inputs, rowKey, colKey, stepsPercent),
+  };
+}
+
+/** Inputs stored as decimal fractions (0.05 = 5%) */
+const FRACTION_INPUTS: SensitivityInputKey[] = [
+  'degradation_rate',
+  'ppa_escalation',
+  'om_escalation',
+  'gearing_ratio',
+  'interest_rate',
+  'tax_rate',
+  'discount_rate',
+];
+
+/**
+ * Display an input value in its own unit
+ */
+export function formatSensitivityInput(key: SensitivityInputKey, value: number): string {
+  if (FRACTION_INPUTS.includes(key)) return `${(value * 100).toFixed(2)}%`;
+  if (key === 'global_margin') return `${value.toFixed(1)}%`;
+  if (key === 'target_dscr') return `${value.toFixed(2)}x`;
+  return value.toLocaleString('en-US', { maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 2 });
+}
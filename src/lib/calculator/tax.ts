@@ -0,0 +1,183 @@
+/**
+ * Tax Module
+ *
+ * Corporate tax on operating income after tax depreciation (MACRS 5-year,
+ * straight-line, bonus), interest and net operating loss (NOL) carry-forward,
+ * plus ITC/PTC tax credits and a simple partnership-flip allocation between
+ * a tax equity investor and the sponsor.
+ *
+ * Without tax terms the legacy flat tax on EBITDA applies. Credits are taken
+ * as cash in the year they are earned (tax equity or credit transfer).
+ */
+
+import type { PartnershipFlipTerms, TaxTerms } from '@/lib/types/financial';
+
+// IRS MACRS 5-year GDS rates, half-year convention
+export const MACRS_5_YEAR_RATES = [0.2, 0.32, 0.192, 0.1152, 0.1152, 0.0576];
+
+export interface TaxScheduleInput {
+  ebitda: number[];                // Operating years 1..lifetime
+  energy: number[];                // MWh per operating year (PTC)
+  interest: number[];              // Deductible interest per year (empty for unlevered tax)
+  totalCapex: number;
+  taxRate: number;
+  terms?: TaxTerms;                // Flat tax on EBITDA if not set
+}
+
+export interface TaxYear {
+  year: number;                    // Operating year (1 = first year after COD)
+  depreciation: number;
+  interest: number;                // Interest deducted
+  taxableIncome: number;           // After deductions and NOL utilisation
+  nolUsed: number;
+  nolBalance: number;              // Closing loss carry-forward
+  taxPaid: number;                 // Negative when losses offset other income
+  itc: number;
+  ptc: number;
+  credits: number;                 // ITC + PTC
+}
+
+export interface PartnershipFlipYear {
+  year: number;
+  taxEquity: number;               // Cash plus tax benefits allocated to the tax equity investor
+  sponsor: number;
+}
+
+export interface PartnershipFlipAllocation {
+  taxEquityInvestment: number;
+  sponsorInvestment: number;
+  years: PartnershipFlipYear[];
+}
+
+/**
+ * Eligible (depreciable and credit-eligible) cost basis
+ */
+function eligibleBasis(totalCapex: number, terms: TaxTerms): number {
+  return totalCapex * Math.min(1, Math.max(0, terms.depreciable_share));
+}
+
+/**
+ * Depreciable basis after the ITC basis reduction (half the credit)
+ */
+export function depreciableBasis(totalCapex: number, terms: TaxTerms): number {
+  const itcRate = terms.tax_credit === 'itc' ? terms.itc_rate : 0;
+  return eligibleBasis(totalCapex, terms) * (1 - itcRate / 2);
+}
+
+/**
+ * Tax depreciation per operating year; bonus depreciation is taken in year 1
+ * and the remaining basis follows the selected method
+ */
+export function depreciationSchedule(basis: number, terms: TaxTerms, lifetime: number): number[] {
+  const schedule = new Array<number>(lifetime).fill(0);
+  if (terms.depreciation_method === 'none' || lifetime <= 0) return schedule;
+
+  const bonus = basis * Math.min(1, Math.max(0, terms.bonus_depreciation));
+  const remaining = basis - bonus;
+  schedule[0] += bonus;
+
+  if (terms.depreciation_method === 'macrs_5') {
+    MACRS_5_YEAR_RATES.forEach((rate, i) => {
+      if (i < lifetime) schedule[i] += remaining * rate;
+    });
+  } else {
+    const years = Math.max(1, Math.round(terms.straight_line_years));
+    for (let i = 0; i < Math.min(years, lifetime); i++) {
+      schedule[i] += remaining / years;
+    }
+  }
+  return schedule;
+}
+
+/**
+ * Build the tax schedule for one set of operating cash flows
+ */
+export function buildTaxSchedule(input: TaxScheduleInput): TaxYear[] {
+  const { ebitda, energy, interest, totalCapex, taxRate, terms } = input;
+
+  if (!terms) {
+    return ebitda.map((value, i) => ({
+      year: i + 1,
+      depreciation: 0,
+      interest: 0,
+      taxableIncome: value,
+      nolUsed: 0,
+      nolBalance: 0,
+      taxPaid: value * taxRate,
+      itc: 0,
+      ptc: 0,
+      credits: 0,
+    }));
+  }
+
+  const depreciation = depreciationSchedule(depreciableBasis(totalCapex, terms), terms, ebitda.length);
+  const itc = terms.tax_credit === 'itc' ? eligibleBasis(totalCapex, terms) * terms.itc_rate : 0;
+  const nolLimit = Math.min(1, Math.max(0, terms.nol_utilisation_limit));
+
+  const years: TaxYear[] = [];
+  let nolBalance = 0;
+  for (let i = 0; i < ebitda.length; i++) {
+    const year = i + 1;
+    const deductibleInterest = terms.interest_deductible ? (interest[i] ?? 0) : 0;
+    let taxableIncome = ebitda[i] - depreciation[i] - deductibleInterest;
+    let nolUsed = 0;
+
+    if (terms.nol_carryforward) {
+      if (taxableIncome < 0) {
+        nolBalance -= taxableIncome;
+        taxableIncome = 0;
+      } else {
+        nolUsed = Math.min(nolBalance, taxableIncome * nolLimit);
+        nolBalance -= nolUsed;
+        taxableIncome -= nolUsed;
+      }
+    }
+
+    const ptc = terms.tax_credit === 'ptc' && year <= terms.ptc_years
+      ? (energy[i] ?? 0) * terms.ptc_rate * Math.pow(1 + terms.ptc_escalation, year - 1)
+      : 0;
+    const yearItc = year === 1 ? itc : 0;
+
+    years.push({
+      year,
+      depreciation: depreciation[i],
+      interest: deductibleInterest,
+      taxableIncome,
+      nolUsed,
+      nolBalance,
+      taxPaid: taxableIncome * taxRate,
+      itc: yearItc,
+      ptc,
+      credits: yearItc + ptc,
+    });
+  }
+  return years;
+}
+
+/**
+ * Split equity cash flows between the tax equity investor and the sponsor.
+ * Distributable cash (after debt service) and tax benefits (credits less tax)
+ * are allocated separately until the flip year, then at the post-flip share.
+ */
+export function allocatePartnershipFlip(
+  flip: PartnershipFlipTerms,
+  equity: number,
+  distributableCash: number[],
+  taxBenefits: number[]
+): PartnershipFlipAllocation {
+  const taxEquityInvestment = equity * Math.min(1, Math.max(0, flip.investment_share));
+
+  return {
+    taxEquityInvestment,
+    sponsorInvestment: equity - taxEquityInvestment,
+    years: distributableCash.map((cash, i) => {
+      const year = i + 1;
+      const benefit = taxBenefits[i] ?? 0;
+      const preFlip = year <= flip.flip_year;
+      const cashShare = preFlip ? flip.pre_flip_cash_allocation : flip.post_flip_allocation;
+      const taxShare = preFlip ? flip.pre_flip_tax_allocation : flip.post_flip_allocation;
+      const taxEquity = cash * cashShare + benefit * taxShare;
+      return { year, taxEquity, sponsor: cash + benefit - taxEquity };
+    }),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Yield Uncertainty
+ *
+ * Exceedance (P-value) yields from a P50 estimate, assuming normally
+ * distributed uncertainty. Inter-annual variability averages out over
+ * longer horizons; model uncertainty does not. Degradation uncertainty
+ * grows with project age.
+ */
+
+import type { ExceedanceLevel, YieldUncertainty } from '@/lib/types/financial';
+
+export const EXCEEDANCE_LEVELS: ExceedanceLevel[] = ['P50', 'P75', 'P90', 'P99'];
+
+/** One-sided standard normal quantiles (yield exceeded with the given probability) */
+const Z_SCORES: Record<ExceedanceLevel, number> = {
+  P50: 0,
+  P75: 0.6745,
+  P90: 1.2816,
+  P99: 2.3263,
+};
+
+/** Probability that a P-value is exceeded (P90 → 0.9) */
+export function exceedanceProbability(level: ExceedanceLevel): number {
+  return parseInt(level.slice(1), 10) / 100;
+}
+
+/**
+ * Combined relative uncertainty of the average yield over a horizon
+ * (e.g. 1-year or 10-year P90)
+ */
+export function combinedUncertainty(uncertainty: YieldUncertainty, horizonYears: number = 1): number {
+  return Math.sqrt(
+    uncertainty.model_uncertainty ** 2 +
+      uncertainty.interannual_variability ** 2 / Math.max(1, horizonYears)
+  );
+}
+
+/**
+ * Yield at an exceedance level as a fraction of P50 (P90 ≈ 0.92 for 6.4%)
+ */
+export function exceedanceFactor(
+  uncertainty: YieldUncertainty,
+  level: ExceedanceLevel,
+  horizonYears: number = 1
+): number {
+  return Math.max(0, 1 - Z_SCORES[level] * combinedUncertainty(uncertainty, horizonYears));
+}
+
+/**
+ * 1-year exceedance factor for a given operating year. Degradation
+ * uncertainty compounds with age: (year - 1) × σ relative to (1 - rate).
+ */
+export function exceedanceFactorYearT(
+  uncertainty: YieldUncertainty,
+  level: ExceedanceLevel,
+  year: number,
+  degradationRate: number
+): number {
+  const degradationSigma =
+    ((year - 1) * uncertainty.degradation_uncertainty) / Math.max(1e-9, 1 - degradationRate);
+  const sigma = Math.sqrt(combinedUncertainty(uncertainty, 1) ** 2 + degradationSigma ** 2);
+  return Math.max(0, 1 - Z_SCORES[level] * sigma);
+}
+
+export interface ExceedanceYield {
+  level: ExceedanceLevel;
+  oneYear: number;   // MWh, 1-year P-value
+  tenYear: number;   // MWh, 10-year average P-value
+}
+
+/**
+ * Year-0 exceedance yields for every level
+ */
+export function calcExceedanceYields(
+  p50Yield: number,
+  uncertainty: YieldUncertainty
+): ExceedanceYield[] {
+  return EXCEEDANCE_LEVELS.map((level) => ({
+    level,
+    oneYear: p50Yield * exceedanceFactor(uncertainty, level, 1),
+    tenYear: p50Yield * exceedanceFactor(uncertainty, level, 10),
+  }));
+}
@@ -0,0 +1,188 @@
+/**
+ * FX Conversion
+ *
+ * Resolves rates from the FX table (the latest rate effective on a date,
+ * directly, inverted or crossed through a common currency) and pins them on
+ * foreign-currency cost line items. The calculator only reads pinned rates,
+ * so results stay reproducible until the rates are refreshed.
+ */
+
+import type { CostLineItem } from '@/lib/types/financial';
+import type { FxQuote, FxRate } from '@/lib/types/currency';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+
+function todayISO(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Latest rate from one currency to another in effect on a date
+ */
+function latestRate(rates: FxRate[], from: string, to: string, asOf: string): FxRate | undefined {
+  let latest: FxRate | undefined;
+  for (const rate of rates) {
+    if (rate.from !== from || rate.to !== to || rate.effectiveDate > asOf || rate.rate <= 0) continue;
+    if (!latest || rate.effectiveDate > latest.effectiveDate) latest = rate;
+  }
+  return latest;
+}
+
+function directQuote(rates: FxRate[], from: string, to: string, asOf: string): FxQuote | null {
+  const direct = latestRate(rates, from, to, asOf);
+  if (direct) return { rate: direct.rate, effectiveDate: direct.effectiveDate };
+  const inverse = latestRate(rates, to, from, asOf);
+  if (inverse) return { rate: 1 / inverse.rate, effectiveDate: inverse.effectiveDate };
+  return null;
+}
+
+/**
+ * Rate to convert from one currency to another on a date (today by default),
+ * or null when the FX table has no path between them
+ */
+export function resolveFxRate(
+  rates: FxRate[],
+  from: string,
+  to: string,
+  asOf: string = todayISO()
+): FxQuote | null {
+  if (from === to) return { rate: 1 };
+
+  const direct = directQuote(rates, from, to, asOf);
+  if (direct) return direct;
+
+  // Cross through a currency quoted against both
+  const pivots = new Set(rates.flatMap((r) => [r.from, r.to]));
+  for (const pivot of pivots) {
+    if (pivot === from || pivot === to) continue;
+    const first = directQuote(rates, from, pivot, asOf);
+    const second = first && directQuote(rates, pivot, to, asOf);
+    if (first && second) {
+      return {
+        rate: first.rate * second.rate,
+        // The older of the two legs dates the cross rate
+        effectiveDate: first.effectiveDate! < second.effectiveDate! ? first.effectiveDate : second.effectiveDate,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert an amount, or null when no rate is available
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRate[],
+  asOf?: string
+): number | null {
+  const quote = resolveFxRate(rates, from, to, asOf);
+  return quote ? amount * quote.rate : null;
+}
+
+/**
+ * Sum amounts in one currency. Amounts without a rate add 1:1 and their
+ * currencies are listed as missing.
+ */
+export function sumInCurrency(
+  amounts: { amount: number; currency: string }[],
+  to: string,
+  rates: FxRate[],
+  asOf?: string
+): { total: number; missingRates: string[] } {
+  const missingRates = new Set<string>();
+  const total = amounts.reduce((sum, { amount, currency }) => {
+    const converted = convertAmount(amount, currency, to, rates, asOf);
+    if (converted === null) missingRates.add(currency);
+    return sum + (converted ?? amount);
+  }, 0);
+  return { total, missingRates: [...missingRates].sort() };
+}
+
+function isForeign(item: CostLineItem, reportingCurrency: string): item is CostLineItem & { currency: string } {
+  return item.currency !== undefined && item.currency !== reportingCurrency;
+}
+
+/**
+ * Whether an item's pinned rate is missing or no longer matches its
+ * currency and the reporting currency
+ */
+export function needsFxPin(item: CostLineItem, reportingCurrency: string): boolean {
+  if (!isForeign(item, reportingCurrency)) return item.fx !== undefined;
+  return !item.fx || item.fx.from !== item.currency || item.fx.to !== reportingCurrency;
+}
+
+/**
+ * Pin the FX table's rate on a line item (clears it for reporting-currency
+ * items). Items without a rate convert 1:1 and are flagged as missing.
+ */
+export function pinFxRate(
+  item: CostLineItem,
+  reportingCurrency: string,
+  rates: FxRate[],
+  asOf?: string
+): CostLineItem {
+  if (!isForeign(item, reportingCurrency)) {
+    return item.fx ? { ...item, fx: undefined } : item;
+  }
+  const quote = resolveFxRate(rates, item.currency, reportingCurrency, asOf);
+  return {
+    ...item,
+    fx: quote
+      ? { from: item.currency, to: reportingCurrency, rate: quote.rate, effective_date: quote.effectiveDate }
+      : { from: item.currency, to: reportingCurrency, rate: 1, missing: true },
+  };
+}
+
+/**
+ * Pin rates on items that need one, or re-pin every item from the current
+ * FX table when refreshing
+ */
+export function pinFxRates(
+  items: CostLineItem[],
+  reportingCurrency: string,
+  rates: FxRate[],
+  options: { refresh?: boolean; asOf?: string } = {}
+): CostLineItem[] {
+  return items.map((item) =>
+    options.refresh || needsFxPin(item, reportingCurrency)
+      ? pinFxRate(item, reportingCurrency, rates, options.asOf)
+      : item
+  );
+}
+
+/**
+ * Line item amount in the model's reporting currency
+ */
+export function reportingAmount(item: CostLineItem): number {
+  return item.amount * (item.fx?.rate ?? 1);
+}
+
+/**
+ * Symbol of a currency (e.g. '€'), or its code when it has none
+ */
+export function currencySymbol(currency: string = DEFAULT_CURRENCY): string {
+  try {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+    return parts.find((part) => part.type === 'currency')?.value ?? currency;
+  } catch {
+    return currency;
+  }
+}
+
+/**
+ * Format an amount in a currency (e.g. "€1,234")
+ */
+export function formatMoney(value: number, currency: string = DEFAULT_CURRENCY, decimals: number = 0): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(value);
+  } catch {
+    return `${currency} ${value.toFixed(decimals)}`;
+  }
+}
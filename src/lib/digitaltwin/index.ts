@@ -33,6 +33,7 @@ export {
   calculateSolarNoon,
   calculateHourAngle,
   calculateSolarAltitude,
+  calculateSolarAzimuth,
   calculateAirMass,
   calculateClearSkyGHI,
   applyCloudAttenuation,
@@ -86,6 +86,34 @@ export function calculateSolarAltitude(
   return toDegrees(Math.asin(Math.max(-1, Math.min(1, sinAltitude))));
 }
 
+/**
+ * Calculate solar azimuth angle in degrees (compass convention)
+ * 0 = North, 90 = East, 180 = South, 270 = West
+ */
+export function calculateSolarAzimuth(
+  latitude: number,
+  declination: number,
+  hourAngle: number,
+  solarAltitude: number
+): number {
+  const latRad = toRadians(latitude);
+  const decRad = toRadians(declination);
+  const altRad = toRadians(solarAltitude);
+
+  const denominator = Math.cos(altRad) * Math.cos(latRad);
+  if (Math.abs(denominator) < 1e-9) {
+    // Sun at zenith or observer at a pole - azimuth is undefined, point south
+    return 180;
+  }
+
+  const cosAzimuth =
+    (Math.sin(decRad) - Math.sin(altRad) * Math.sin(latRad)) / denominator;
+  const azimuth = toDegrees(Math.acos(Math.max(-1, Math.min(1, cosAzimuth))));
+
+  // Morning sun is east of the meridian, afternoon sun is west
+  return hourAngle > 0 ? 360 - azimuth : azimuth;
+}
+
 /**
  * Calculate air mass (optical path length through atmosphere)
  * Higher air mass = more atmospheric absorption
@@ -3,6 +3,17 @@
  */
 
 import { useDesignStore } from '@/stores/designStore';
+import { useSiteStore } from '@/stores/siteStore';
+import { useComponentStore } from '@/stores/componentStore';
+import { generatedLayoutToParsedData } from '@/lib/layout/toParsedData';
+import { getPlanOptionsFromStringing, planElectricalBlocks } from '@/lib/electrical/blockPlanner';
+import {
+  calculateDesignCableSchedule,
+  resolveDesignElectricalSpecs,
+} from '@/lib/electrical/cableSchedule';
+import type { CableScheduleResult } from '@/lib/electrical/types';
+import { calculateGrading, type GradingResult } from '@/lib/terrain';
+import type { Design } from '@/lib/types';
 import { blobCache } from '@/lib/blobCache';
 import { db, getBlob } from '@/lib/db';
 import { parseDXFFile } from './parser';
@@ -22,11 +33,14 @@ export interface ExtractedInverterData {
 export interface ExtractedComponentData {
   modules: ExtractedModuleData | null;
   inverters: ExtractedInverterData | null;
+  cables?: CableScheduleResult | null;
+  earthworks?: GradingResult | null;  // Generated layouts on sites with terrain only
   error?: string;
 }
 
 /**
- * Extract component data from a design's DXF file
+ * Extract component data from a design's DXF file, or from its generated layout
+ * (with a cut/fill estimate when its site has terrain)
  */
 export async function extractComponentsFromDesign(designId: string): Promise<ExtractedComponentData> {
   try {
@@ -36,36 +50,35 @@ export async function extractComponentsFromDesign(designId: string): Promise<Ext
       return { modules: null, inverters: null, error: 'Design not found' };
     }
 
-    // Get current version from IndexedDB
+    // Generated designs have no DXF file - use the layout and its planned electrical blocks
     const versionId = design.currentVersionId;
-    if (!versionId) {
-      return { modules: null, inverters: null, error: 'No version uploaded for this design' };
+    if (!versionId && design.generatedLayout) {
+      const site = useSiteStore.getState().sites.find((s) => s.id === design.siteId);
+      if (!site) {
+        return { modules: null, inverters: null, error: 'Source site for generated layout not found' };
+      }
+      const planOptions = getPlanOptionsFromStringing(design.stringing);
+      const parsedData = generatedLayoutToParsedData(design.generatedLayout, site, planOptions);
+      const earthworks = site.terrain
+        ? calculateGrading(design.generatedLayout, site, {
+            blocks: planElectricalBlocks(design.generatedLayout, site, planOptions).blocks,
+          })
+        : null;
+      return { ...extractWithCables(parsedData, design), earthworks };
     }
 
-    const version = await db.designVersions.get(versionId);
-    if (!version) {
-      return { modules: null, inverters: null, error: 'Design version not found' };
-    }
-
-    // Check file type
-    if (version.fileType !== 'dxf') {
-      return { modules: null, inverters: null, error: 'Only DXF files are supported' };
+    // Get current version from IndexedDB
+    if (!versionId) {
+      return { modules: null, inverters: null, error: 'No version uploaded for this design' };
     }
 
-    // Load blob from IndexedDB
-    const blobId = version.fileBlob;
-    const url = await blobCache.get(blobId, getBlob);
-    if (!url) {
-      return { modules: null, inverters: null, error: 'Failed to load design file' };
+    const loaded = await loadDesignVersionDXF(versionId);
+    if ('error' in loaded) {
+      return { modules: null, inverters: null, error: loaded.error };
     }
 
-    // Fetch and parse the DXF content
-    const response = await fetch(url);
-    const text = await response.text();
-    const parsedData = await parseDXFFile(text);
-
     // Extract component data
-    return extractFromParsedData(parsedData);
+    return extractWithCables(loaded.parsedData, design);
   } catch (error) {
     console.error('Failed to extract components from design:', error);
     return {
@@ -76,6 +89,53 @@ export async function extractComponentsFromDesign(designId: string): Promise<Ext
   }
 }
 
+/**
+ * Load and parse the DXF file of a design version
+ *
+ * @returns The parsed drawing, or an error message when the version has no readable DXF file
+ */
+export async function loadDesignVersionDXF(
+  versionId: string
+): Promise<{ parsedData: DXFParsedData } | { error: string }> {
+  const version = await db.designVersions.get(versionId);
+  if (!version) {
+    return { error: 'Design version not found' };
+  }
+
+  // Check file type
+  if (version.fileType !== 'dxf') {
+    return { error: 'Only DXF files are supported' };
+  }
+
+  // Load blob from IndexedDB
+  const url = await blobCache.get(version.fileBlob, getBlob);
+  if (!url) {
+    return { error: 'Failed to load design file' };
+  }
+
+  // Fetch and parse the DXF content
+  const response = await fetch(url);
+  const text = await response.text();
+  return { parsedData: await parseDXFFile(text) };
+}
+
+/**
+ * Extract component data plus the cable schedule sized for the design's
+ * module and inverter
+ */
+function extractWithCables(parsedData: DXFParsedData, design: Design): ExtractedComponentData {
+  const specs = resolveDesignElectricalSpecs(design, useComponentStore.getState().components);
+  return {
+    ...extractFromParsedData(parsedData),
+    cables: calculateDesignCableSchedule(
+      parsedData,
+      specs.module,
+      specs.inverter,
+      specs.modulesPerString
+    ),
+  };
+}
+
 /**
  * Extract component data from already-parsed DXF data
  */
@@ -42,6 +42,12 @@ export interface PanelGeometry {
   moduleHeight?: number; // Height of single module
   gapX?: number; // Horizontal gap between modules
   gapY?: number; // Vertical gap between modules
+  // Single-axis tracker (table rotates about its centre line; mountingHeight is the axis height)
+  tracker?: {
+    maxRotationDeg: number;
+    backtracking: boolean;
+    gcr: number;
+  };
 }
 
 export interface MountingGeometry {
@@ -63,6 +69,8 @@ export interface ElectricalComponent {
   width?: number;
   height?: number;
   depth?: number;
+  // Position is the equipment centre rather than a DXF block insert point
+  centered?: boolean;
 }
 
 export interface BoundaryGeometry {
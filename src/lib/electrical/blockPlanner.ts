@@ -0,0 +1,402 @@
+/**
+ * Electrical Block Planner
+ *
+ * Groups the frames of a generated layout into strings, combiner boxes,
+ * inverters and transformer blocks, places each piece of equipment in the
+ * corridor nearest its group's centroid and routes cables along rows and
+ * corridors.
+ *
+ * Groups are formed by recursive bisection so every block stays compact.
+ * Output uses the same local coordinates as generatedLayoutToParsedData
+ * (x east, y north, meters from the site centroid).
+ */
+
+import type { GeneratedLayout, FramePlacement } from '@/lib/types/layout';
+import type { Site } from '@/lib/types/site';
+import type { ElectricalComponent } from '@/lib/dxf/types';
+import { createLocalProjection } from '@/lib/layout/geometry';
+import type {
+  ElectricalBlock,
+  ElectricalBlockPlan,
+  ElectricalBlockPlanOptions,
+  StringingConfig,
+} from './types';
+
+export const DEFAULT_MODULES_PER_STRING = 28;
+const DEFAULT_STRINGS_PER_INVERTER = 20;
+const DEFAULT_STRINGS_PER_COMBINER = 16;
+const DEFAULT_INVERTERS_PER_TRANSFORMER = 10;
+
+/** Layer names used for planned equipment and cables */
+export const GENERATED_ELECTRICAL_LAYERS = {
+  dcCables: 'GEN_DC_CABLES',
+  acCables: 'GEN_AC_CABLES',
+  equipment: 'GEN_EQUIPMENT',
+} as const;
+
+/** Inverters above this DC size are drawn as central inverter skids */
+const CENTRAL_INVERTER_THRESHOLD_KW = 500;
+const CENTRAL_INVERTER_DIMS = { width: 6, height: 2.5, depth: 2.5 };
+
+/** Row gaps this much wider than the narrowest gap are treated as corridors */
+const CORRIDOR_GAP_FACTOR = 1.2;
+
+/** Position in layout axes: u along the rows, v across them (meters) */
+interface AxisPoint {
+  u: number;
+  v: number;
+}
+
+interface PlacedFrame extends AxisPoint {
+  frame: FramePlacement;
+}
+
+interface PlannedString extends AxisPoint {
+  frameIndices: number[];
+}
+
+function centroidOf(points: AxisPoint[]): AxisPoint {
+  let u = 0;
+  let v = 0;
+  for (const p of points) {
+    u += p.u;
+    v += p.v;
+  }
+  return { u: u / points.length, v: v / points.length };
+}
+
+/**
+ * Split items into compact groups of at most groupSize by recursively
+ * bisecting along the longer extent. All groups but one are full.
+ */
+function partition<T extends AxisPoint>(items: T[], groupSize: number): T[][] {
+  if (items.length <= groupSize) return [items];
+
+  let minU = Infinity, maxU = -Infinity;
+  let minV = Infinity, maxV = -Infinity;
+  for (const item of items) {
+    if (item.u < minU) minU = item.u;
+    if (item.u > maxU) maxU = item.u;
+    if (item.v < minV) minV = item.v;
+    if (item.v > maxV) maxV = item.v;
+  }
+
+  const alongRows = maxU - minU >= maxV - minV;
+  const sorted = [...items].sort((a, b) => (alongRows ? a.u - b.u : a.v - b.v));
+  const groupCount = Math.ceil(items.length / groupSize);
+  const splitAt = Math.floor(groupCount / 2) * groupSize;
+
+  return [
+    ...partition(sorted.slice(0, splitAt), groupSize),
+    ...partition(sorted.slice(splitAt), groupSize),
+  ];
+}
+
+/**
+ * Group frames into rows by their cross-row position.
+ * Frames within a quarter of the frame depth share a row.
+ */
+function groupRows(placed: PlacedFrame[], frameDepth: number): PlacedFrame[][] {
+  const sorted = [...placed].sort((a, b) => a.v - b.v);
+  const rows: PlacedFrame[][] = [];
+  const tolerance = frameDepth / 4;
+
+  for (const item of sorted) {
+    const current = rows[rows.length - 1];
+    if (current && item.v - current[0].v <= tolerance) {
+      current.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Cross-row positions of corridor centre lines. Gaps noticeably wider than
+ * the regular row gap are maintenance corridors; without any, every row gap
+ * is used.
+ */
+function findCorridorLines(rowCentres: number[], frameDepth: number): number[] {
+  if (rowCentres.length === 1) {
+    const offset = frameDepth / 2 + 1;
+    return [rowCentres[0] - offset, rowCentres[0] + offset];
+  }
+
+  const gaps = rowCentres.slice(1).map((v, i) => v - rowCentres[i]);
+  const minGap = Math.min(...gaps);
+  const corridors: number[] = [];
+  const midpoints: number[] = [];
+
+  gaps.forEach((gap, i) => {
+    const mid = (rowCentres[i] + rowCentres[i + 1]) / 2;
+    midpoints.push(mid);
+    if (gap > minGap * CORRIDOR_GAP_FACTOR) corridors.push(mid);
+  });
+
+  return corridors.length > 0 ? corridors : midpoints;
+}
+
+function snapToCorridor(point: AxisPoint, corridors: number[]): AxisPoint {
+  let best = corridors[0];
+  for (const line of corridors) {
+    if (Math.abs(line - point.v) < Math.abs(best - point.v)) best = line;
+  }
+  return { u: point.u, v: best };
+}
+
+/** Route along the row first, then across rows */
+function route(from: AxisPoint, to: AxisPoint): AxisPoint[] {
+  return [from, { u: to.u, v: from.v }, to];
+}
+
+function routeLength(points: AxisPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.abs(points[i].u - points[i - 1].u) + Math.abs(points[i].v - points[i - 1].v);
+  }
+  return length;
+}
+
+/**
+ * Planner options from a design's saved string configuration
+ */
+export function getPlanOptionsFromStringing(
+  stringing: StringingConfig | undefined
+): ElectricalBlockPlanOptions | undefined {
+  if (!stringing) return undefined;
+  return {
+    modulesPerString: stringing.modulesPerString,
+    stringsPerInverter: stringing.stringsPerInverter,
+  };
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Plan strings, combiners, inverters and transformers for a generated layout.
+ *
+ * @param layout - Generated layout (frame-based)
+ * @param site - Source site (its centroid is the local origin)
+ * @param options - Grouping sizes; defaults suit a utility-scale string design
+ * @returns Equipment and cable components, transformer blocks and a summary
+ */
+export function planElectricalBlocks(
+  layout: GeneratedLayout,
+  site: Site,
+  options: ElectricalBlockPlanOptions = {}
+): ElectricalBlockPlan {
+  const modulesPerString = Math.max(1, options.modulesPerString ?? DEFAULT_MODULES_PER_STRING);
+  const stringsPerInverter = Math.max(1, options.stringsPerInverter ?? DEFAULT_STRINGS_PER_INVERTER);
+  const stringsPerCombiner = Math.max(1, options.stringsPerCombiner ?? DEFAULT_STRINGS_PER_COMBINER);
+  const invertersPerTransformer = Math.max(
+    1,
+    options.invertersPerTransformer ?? DEFAULT_INVERTERS_PER_TRANSFORMER
+  );
+
+  const components: ElectricalComponent[] = [];
+  const blocks: ElectricalBlock[] = [];
+  const summary = {
+    stringCount: 0,
+    unstrungModules: 0,
+    combinerCount: 0,
+    inverterCount: 0,
+    transformerCount: 0,
+    stringCableLengthM: 0,
+    dcFeederLengthM: 0,
+    acCableLengthM: 0,
+  };
+
+  const frames = layout.frames ?? [];
+  if (frames.length === 0) {
+    return { components, blocks, summary };
+  }
+
+  const centroid = site.centroid;
+  if (!centroid) {
+    throw new Error('Site must have a centroid for electrical planning');
+  }
+  const projection = createLocalProjection({ lat: centroid.latitude, lng: centroid.longitude });
+
+  // Layout axes from the frame rotation
+  const rotationRad = (frames[0].rotationDeg * Math.PI) / 180;
+  const rowDir = { x: Math.cos(rotationRad), y: Math.sin(rotationRad) };
+  const perpDir = { x: -rowDir.y, y: rowDir.x };
+  const toVertex = (p: AxisPoint): [number, number, number] => [
+    p.u * rowDir.x + p.v * perpDir.x,
+    p.u * rowDir.y + p.v * perpDir.y,
+    0,
+  ];
+
+  const placed: PlacedFrame[] = frames.map((frame) => {
+    const local = projection.toLocal(frame.centerCoord);
+    return {
+      frame,
+      u: local.x * rowDir.x + local.y * rowDir.y,
+      v: local.x * perpDir.x + local.y * perpDir.y,
+    };
+  });
+
+  const frameDepth = frames[0].heightM;
+  const rows = groupRows(placed, frameDepth);
+  const corridors = findCorridorLines(
+    rows.map((row) => row[0].v),
+    frameDepth
+  );
+
+  // Build strings by walking the rows in serpentine order
+  const strings: PlannedString[] = [];
+  let pending = { modules: 0, u: 0, v: 0, frameIndices: [] as number[] };
+
+  rows.forEach((row, r) => {
+    const ordered = [...row].sort((a, b) => (r % 2 === 0 ? a.u - b.u : b.u - a.u));
+    for (const item of ordered) {
+      let remaining = item.frame.frameRows * item.frame.frameColumns;
+      while (remaining > 0) {
+        const take = Math.min(remaining, modulesPerString - pending.modules);
+        pending.modules += take;
+        pending.u += item.u * take;
+        pending.v += item.v * take;
+        if (!pending.frameIndices.includes(item.frame.index)) {
+          pending.frameIndices.push(item.frame.index);
+        }
+        remaining -= take;
+
+        if (pending.modules === modulesPerString) {
+          strings.push({
+            u: pending.u / modulesPerString,
+            v: pending.v / modulesPerString,
+            frameIndices: pending.frameIndices,
+          });
+          pending = { modules: 0, u: 0, v: 0, frameIndices: [] };
+        }
+      }
+    }
+  });
+  summary.unstrungModules = pending.modules;
+  summary.stringCount = strings.length;
+
+  const stringKw = (modulesPerString * layout.module.wattage) / 1000;
+  const addCable = (
+    id: string,
+    type: ElectricalComponent['type'],
+    label: string,
+    path: AxisPoint[]
+  ): number => {
+    const vertices = path.map(toVertex);
+    components.push({
+      id,
+      type,
+      position: vertices[0],
+      vertices,
+      layer: type === 'ac_cable' ? GENERATED_ELECTRICAL_LAYERS.acCables : GENERATED_ELECTRICAL_LAYERS.dcCables,
+      label,
+    });
+    return routeLength(path);
+  };
+
+  // Transformer blocks, then inverters within each block, then combiners
+  const transformerGroups = partition(strings, stringsPerInverter * invertersPerTransformer);
+  transformerGroups.forEach((blockStrings, b) => {
+    if (blockStrings.length === 0) return;
+
+    const blockLabel = pad(b + 1);
+    const transformerId = `gen-tx-${b + 1}`;
+    const transformerPoint = snapToCorridor(centroidOf(blockStrings), corridors);
+    const block: ElectricalBlock = {
+      id: transformerId,
+      label: `Block ${blockLabel}`,
+      frameIndices: [...new Set(blockStrings.flatMap((s) => s.frameIndices))],
+      inverterIds: [],
+      combinerIds: [],
+      stringCount: blockStrings.length,
+      dcCapacityKw: blockStrings.length * stringKw,
+    };
+
+    partition(blockStrings, stringsPerInverter).forEach((inverterStrings, i) => {
+      const inverterLabel = `INV-${blockLabel}-${pad(i + 1)}`;
+      const inverterId = `gen-inv-${b + 1}-${i + 1}`;
+      const inverterPoint = snapToCorridor(centroidOf(inverterStrings), corridors);
+      const inverterKw = inverterStrings.length * stringKw;
+
+      components.push({
+        id: inverterId,
+        type: 'inverter',
+        position: toVertex(inverterPoint),
+        layer: GENERATED_ELECTRICAL_LAYERS.equipment,
+        label: inverterLabel,
+        centered: true,
+        ...(inverterKw > CENTRAL_INVERTER_THRESHOLD_KW ? CENTRAL_INVERTER_DIMS : {}),
+      });
+      block.inverterIds.push(inverterId);
+      summary.inverterCount++;
+
+      // Strings home-run to the inverter unless it needs combiner boxes,
+      // which are loaded evenly
+      const combinerCount = Math.ceil(inverterStrings.length / stringsPerCombiner);
+      const stringGroups =
+        combinerCount > 1
+          ? partition(inverterStrings, Math.ceil(inverterStrings.length / combinerCount))
+          : [inverterStrings];
+      const useCombiners = stringGroups.length > 1;
+
+      stringGroups.forEach((groupStrings, c) => {
+        let targetPoint = inverterPoint;
+        let targetLabel = inverterLabel;
+
+        if (useCombiners) {
+          const combinerId = `gen-cb-${b + 1}-${i + 1}-${c + 1}`;
+          targetLabel = `CB-${blockLabel}-${pad(i + 1)}-${c + 1}`;
+          targetPoint = snapToCorridor(centroidOf(groupStrings), corridors);
+
+          components.push({
+            id: combinerId,
+            type: 'combiner',
+            position: toVertex(targetPoint),
+            layer: GENERATED_ELECTRICAL_LAYERS.equipment,
+            label: targetLabel,
+            centered: true,
+          });
+          block.combinerIds.push(combinerId);
+          summary.combinerCount++;
+
+          summary.dcFeederLengthM += addCable(
+            `gen-dc-${b + 1}-${i + 1}-${c + 1}`,
+            'cable',
+            `${targetLabel} → ${inverterLabel}`,
+            route(targetPoint, inverterPoint)
+          );
+        }
+
+        groupStrings.forEach((s, k) => {
+          summary.stringCableLengthM += addCable(
+            `gen-str-${b + 1}-${i + 1}-${c + 1}-${k + 1}`,
+            'string',
+            `${targetLabel} S${pad(k + 1)}`,
+            route(s, targetPoint)
+          );
+        });
+      });
+
+      summary.acCableLengthM += addCable(
+        `gen-ac-${b + 1}-${i + 1}`,
+        'ac_cable',
+        `${inverterLabel} → TX-${blockLabel}`,
+        route(inverterPoint, transformerPoint)
+      );
+    });
+
+    components.push({
+      id: transformerId,
+      type: 'transformer',
+      position: toVertex(transformerPoint),
+      layer: GENERATED_ELECTRICAL_LAYERS.equipment,
+      label: `TX-${blockLabel}`,
+      centered: true,
+    });
+    summary.transformerCount++;
+    blocks.push(block);
+  });
+
+  return { components, blocks, summary };
+}
@@ -0,0 +1,359 @@
+/**
+ * Cable Schedule
+ *
+ * Measures cable runs from DXF or generated electrical geometry, sizes the
+ * conductors for current and allowable voltage drop and reports the DC and
+ * AC ohmic losses.
+ *
+ * Circuits of one kind share an average operating current (e.g. all DC
+ * feeders carry total string current / feeder count) since the geometry does
+ * not record which strings feed which combiner. Each circuit is then sized
+ * for its own length.
+ *
+ * - DC circuits: two conductors, ΔV = 2·L·I·ρ / A
+ * - AC circuits: three-phase, three single-core conductors, ΔV = √3·L·I·ρ / A
+ */
+
+import type { ModuleSpecs, InverterSpecs, Component } from '@/lib/types/component';
+import { DEFAULT_MODULE_SPECS, DEFAULT_INVERTER_SPECS } from '@/lib/types/component';
+import type { Design } from '@/lib/types';
+import type { DXFParsedData, ElectricalComponent } from '@/lib/dxf/types';
+import type {
+  CableCircuit,
+  CableCircuitKind,
+  CableQuantity,
+  CableScheduleInput,
+  CableScheduleResult,
+  ConductorMaterial,
+} from './types';
+import { DEFAULT_MODULES_PER_STRING } from './blockPlanner';
+
+/** Default allowable voltage drop (%) */
+export const DEFAULT_MAX_VOLTAGE_DROP_DC = 1.5;
+export const DEFAULT_MAX_VOLTAGE_DROP_AC = 1.0;
+
+/** Extra length for terminations, slack and vertical runs */
+export const CABLE_SLACK_FACTOR = 1.05;
+
+/**
+ * Ohmic loss scales with current squared, so the annual energy lost in
+ * cables is lower than the loss at STC. Ratio of annual energy loss to STC
+ * power loss for a typical irradiance distribution.
+ */
+export const CABLE_ENERGY_LOSS_FACTOR = 0.6;
+
+/** Sizing margin applied to the operating current for ampacity */
+const AMPACITY_SAFETY_FACTOR = 1.25;
+
+/** Resistivity at 70°C operating temperature (Ω·mm²/m) */
+const RESISTIVITY: Record<ConductorMaterial, number> = {
+  copper: 0.0214,
+  aluminium: 0.0351,
+};
+
+/** Indicative conductor price (per mm² per meter of single-core cable) */
+export const CONDUCTOR_PRICE_PER_MM2_M: Record<ConductorMaterial, number> = {
+  copper: 0.09,
+  aluminium: 0.03,
+};
+
+/** Standard cross sections (mm²) with copper ampacity (A), buried in duct */
+const CONDUCTOR_SIZES: Array<{ size: number; ampacity: number }> = [
+  { size: 4, ampacity: 45 },
+  { size: 6, ampacity: 57 },
+  { size: 10, ampacity: 78 },
+  { size: 16, ampacity: 104 },
+  { size: 25, ampacity: 135 },
+  { size: 35, ampacity: 165 },
+  { size: 50, ampacity: 197 },
+  { size: 70, ampacity: 245 },
+  { size: 95, ampacity: 296 },
+  { size: 120, ampacity: 341 },
+  { size: 150, ampacity: 387 },
+  { size: 185, ampacity: 443 },
+  { size: 240, ampacity: 523 },
+  { size: 300, ampacity: 600 },
+  { size: 400, ampacity: 700 },
+  { size: 500, ampacity: 800 },
+  { size: 630, ampacity: 920 },
+];
+
+/** Aluminium carries about 78% of the current of copper of the same size */
+const ALUMINIUM_AMPACITY_RATIO = 0.78;
+
+/** Smallest aluminium conductor commonly used */
+const MIN_ALUMINIUM_SIZE = 16;
+
+const MATERIAL_BY_KIND: Record<CableCircuitKind, ConductorMaterial> = {
+  dc_string: 'copper',
+  dc_feeder: 'aluminium',
+  ac: 'aluminium',
+};
+
+const CONDUCTORS_PER_RUN: Record<CableCircuitKind, number> = {
+  dc_string: 2,
+  dc_feeder: 2,
+  ac: 3,
+};
+
+/** Polyline length in meters (horizontal and vertical) */
+export function measurePolyline(vertices: [number, number, number][]): number {
+  let length = 0;
+  for (let i = 1; i < vertices.length; i++) {
+    const dx = vertices[i][0] - vertices[i - 1][0];
+    const dy = vertices[i][1] - vertices[i - 1][1];
+    const dz = vertices[i][2] - vertices[i - 1][2];
+    length += Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+  return length;
+}
+
+function circuitKind(component: ElectricalComponent): CableCircuitKind | null {
+  switch (component.type) {
+    case 'string':
+      return 'dc_string';
+    case 'cable':
+      return 'dc_feeder';
+    case 'ac_cable':
+      return 'ac';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Voltage drop (%) for a single run of the given size
+ */
+function voltageDropPercent(
+  kind: CableCircuitKind,
+  lengthM: number,
+  currentA: number,
+  voltageV: number,
+  sizeMm2: number,
+  material: ConductorMaterial
+): number {
+  const factor = kind === 'ac' ? Math.sqrt(3) : 2;
+  const drop = (factor * lengthM * currentA * RESISTIVITY[material]) / sizeMm2;
+  return (drop / voltageV) * 100;
+}
+
+/**
+ * Size a conductor for current and voltage drop, using parallel runs when
+ * the current exceeds the largest standard size.
+ */
+function sizeCircuit(
+  id: string,
+  label: string | undefined,
+  kind: CableCircuitKind,
+  lengthM: number,
+  currentA: number,
+  voltageV: number,
+  maxVoltageDrop: number
+): CableCircuit {
+  const material = MATERIAL_BY_KIND[kind];
+  const ampacityRatio = material === 'aluminium' ? ALUMINIUM_AMPACITY_RATIO : 1;
+  const sizes = CONDUCTOR_SIZES.filter(
+    (c) => material === 'copper' || c.size >= MIN_ALUMINIUM_SIZE
+  );
+  const largest = sizes[sizes.length - 1];
+  const designCurrent = currentA * AMPACITY_SAFETY_FACTOR;
+  const parallelRuns = Math.max(1, Math.ceil(designCurrent / (largest.ampacity * ampacityRatio)));
+  const runCurrent = currentA / parallelRuns;
+
+  const chosen =
+    sizes.find(
+      (c) =>
+        c.ampacity * ampacityRatio >= designCurrent / parallelRuns &&
+        voltageDropPercent(kind, lengthM, runCurrent, voltageV, c.size, material) <= maxVoltageDrop
+    ) ?? largest;
+
+  const resistance = (lengthM * RESISTIVITY[material]) / chosen.size; // Ω per conductor
+  const lossW =
+    parallelRuns * (kind === 'ac' ? 3 : 2) * runCurrent * runCurrent * resistance;
+
+  return {
+    id,
+    label,
+    kind,
+    lengthM,
+    currentA,
+    voltageV,
+    material,
+    crossSectionMm2: chosen.size,
+    parallelRuns,
+    ampacityA: chosen.ampacity * ampacityRatio * parallelRuns,
+    voltageDropPercent: voltageDropPercent(
+      kind,
+      lengthM,
+      runCurrent,
+      voltageV,
+      chosen.size,
+      material
+    ),
+    lossW,
+  };
+}
+
+/**
+ * Build the cable schedule for a set of electrical components.
+ *
+ * @param input - Cable geometry plus module, inverter and stringing data
+ * @returns Sized circuits, conductor quantities and DC/AC losses
+ */
+export function calculateCableSchedule(input: CableScheduleInput): CableScheduleResult {
+  const { module, inverter, electrical } = input;
+  const maxDropDc = input.maxVoltageDropDc ?? DEFAULT_MAX_VOLTAGE_DROP_DC;
+  const maxDropAc = input.maxVoltageDropAc ?? DEFAULT_MAX_VOLTAGE_DROP_AC;
+
+  const runs = electrical
+    .map((component) => ({ component, kind: circuitKind(component) }))
+    .filter(
+      (run): run is { component: ElectricalComponent; kind: CableCircuitKind } =>
+        run.kind !== null && (run.component.vertices?.length ?? 0) >= 2
+    );
+  const countOf = (kind: CableCircuitKind) => runs.filter((r) => r.kind === kind).length;
+
+  // Plant operating point (STC)
+  const stringCount = Math.floor(input.totalModules / Math.max(1, input.modulesPerString));
+  const stringVoltage = input.modulesPerString * module.vmp;
+  const dcPowerW = stringCount * input.modulesPerString * module.powerRating;
+  const inverterCount = Math.max(1, input.inverterCount ?? countOf('ac'));
+  const acPowerW = Math.min(dcPowerW, inverterCount * inverter.acPowerRating * 1000);
+
+  const currentByKind: Record<CableCircuitKind, number> = {
+    dc_string: module.imp,
+    dc_feeder: (stringCount * module.imp) / Math.max(1, countOf('dc_feeder')),
+    ac: acPowerW / Math.max(1, countOf('ac')) / (Math.sqrt(3) * inverter.acVoltage),
+  };
+  const voltageByKind: Record<CableCircuitKind, number> = {
+    dc_string: stringVoltage,
+    dc_feeder: stringVoltage,
+    ac: inverter.acVoltage,
+  };
+
+  const circuits = runs.map(({ component, kind }) =>
+    sizeCircuit(
+      component.id,
+      component.label,
+      kind,
+      measurePolyline(component.vertices ?? []) * CABLE_SLACK_FACTOR,
+      currentByKind[kind],
+      voltageByKind[kind],
+      kind === 'ac' ? maxDropAc : maxDropDc
+    )
+  );
+
+  // Conductor quantities by kind, material and size
+  const quantityMap = new Map<string, CableQuantity>();
+  for (const circuit of circuits) {
+    const key = `${circuit.kind}-${circuit.material}-${circuit.crossSectionMm2}`;
+    const conductorLength =
+      circuit.lengthM * CONDUCTORS_PER_RUN[circuit.kind] * circuit.parallelRuns;
+    const existing = quantityMap.get(key);
+    if (existing) {
+      existing.conductorLengthM += conductorLength;
+      existing.routeLengthM += circuit.lengthM;
+      existing.circuitCount++;
+    } else {
+      quantityMap.set(key, {
+        kind: circuit.kind,
+        material: circuit.material,
+        crossSectionMm2: circuit.crossSectionMm2,
+        conductorLengthM: conductorLength,
+        routeLengthM: circuit.lengthM,
+        circuitCount: 1,
+      });
+    }
+  }
+  const quantities = [...quantityMap.values()].sort(
+    (a, b) => a.kind.localeCompare(b.kind) || a.crossSectionMm2 - b.crossSectionMm2
+  );
+
+  const trenchLengthM = electrical
+    .filter((e) => e.type === 'trench' && e.vertices)
+    .reduce((sum, e) => sum + measurePolyline(e.vertices ?? []), 0);
+
+  const dcLossW = circuits.filter((c) => c.kind !== 'ac').reduce((sum, c) => sum + c.lossW, 0);
+  const acLossW = circuits.filter((c) => c.kind === 'ac').reduce((sum, c) => sum + c.lossW, 0);
+  const dcLossPercent = dcPowerW > 0 ? (dcLossW / dcPowerW) * 100 : 0;
+  const acLossPercent = acPowerW > 0 ? (acLossW / acPowerW) * 100 : 0;
+  const stcLoss = (1 - (1 - dcLossPercent / 100) * (1 - acLossPercent / 100)) * 100;
+
+  return {
+    circuits,
+    quantities,
+    dcLengthM: circuits.filter((c) => c.kind !== 'ac').reduce((sum, c) => sum + c.lengthM, 0),
+    acLengthM: circuits.filter((c) => c.kind === 'ac').reduce((sum, c) => sum + c.lengthM, 0),
+    trenchLengthM,
+    maxVoltageDropDc: Math.max(0, ...circuits.filter((c) => c.kind !== 'ac').map((c) => c.voltageDropPercent)),
+    maxVoltageDropAc: Math.max(0, ...circuits.filter((c) => c.kind === 'ac').map((c) => c.voltageDropPercent)),
+    dcLossPercent,
+    acLossPercent,
+    wiringLoss: stcLoss * CABLE_ENERGY_LOSS_FACTOR,
+  };
+}
+
+/**
+ * Cable schedule for parsed DXF or generated design data. Returns null when
+ * the geometry has no measurable cables.
+ *
+ * @param parsedData - Parsed design (panels give the module count)
+ * @param module - Module specs (e.g. from the design's string configuration)
+ * @param inverter - Inverter specs
+ * @param modulesPerString - Modules per string
+ */
+export function calculateDesignCableSchedule(
+  parsedData: DXFParsedData,
+  module: ModuleSpecs,
+  inverter: InverterSpecs,
+  modulesPerString: number
+): CableScheduleResult | null {
+  const hasCables = parsedData.electrical.some(
+    (e) => circuitKind(e) !== null && (e.vertices?.length ?? 0) >= 2
+  );
+  if (!hasCables) return null;
+
+  const totalModules = parsedData.panels.reduce(
+    (sum, p) => sum + (p.moduleRows || 1) * (p.moduleColumns || 1),
+    0
+  );
+  const inverterCount = parsedData.electrical.filter((e) => e.type === 'inverter').length;
+
+  return calculateCableSchedule({
+    electrical: parsedData.electrical,
+    module,
+    inverter,
+    modulesPerString,
+    totalModules,
+    inverterCount: inverterCount || undefined,
+  });
+}
+
+/**
+ * Module, inverter and string length for a design's cable schedule: the
+ * saved string configuration first, then components linked to the design,
+ * then library defaults.
+ *
+ * @param design - Design to resolve
+ * @param components - Component library
+ */
+export function resolveDesignElectricalSpecs(
+  design: Design,
+  components: Component[]
+): { module: ModuleSpecs; inverter: InverterSpecs; modulesPerString: number } {
+  const linked = (type: Component['type'], id?: string) =>
+    components.find((c) => c.type === type && c.id === id) ??
+    components.find(
+      (c) => c.type === type && c.linkedDesigns?.some((d) => d.designId === design.id)
+    );
+
+  const moduleComponent = linked('module', design.stringing?.moduleComponentId);
+  const inverterComponent = linked('inverter', design.stringing?.inverterComponentId);
+
+  return {
+    module: moduleComponent?.type === 'module' ? moduleComponent.specs : DEFAULT_MODULE_SPECS,
+    inverter:
+      inverterComponent?.type === 'inverter' ? inverterComponent.specs : DEFAULT_INVERTER_SPECS,
+    modulesPerString: design.stringing?.modulesPerString ?? DEFAULT_MODULES_PER_STRING,
+  };
+}
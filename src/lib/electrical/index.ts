@@ -0,0 +1,69 @@
+/**
+ * Electrical Design Module
+ *
+ * String and inverter sizing, automatic electrical block planning for
+ * generated layouts, and cable sizing with DC/AC losses.
+ *
+ * Usage:
+ * ```typescript
+ * import { sizeStrings } from '@/lib/electrical';
+ *
+ * const result = sizeStrings({
+ *   module: moduleComponent.specs,
+ *   inverter: inverterComponent.specs,
+ *   temperatures: { recordLowC: -10, recordHighC: 40 },
+ *   layout: design.generatedLayout,
+ * });
+ * ```
+ */
+
+// Types
+export type {
+  DesignTemperatures,
+  StringSizingInput,
+  StringingIssueSeverity,
+  StringingIssueCode,
+  StringingIssue,
+  ModuleDesignValues,
+  StringSizingResult,
+  StringingConfig,
+  ElectricalBlockPlanOptions,
+  ElectricalPlanSummary,
+  ElectricalBlock,
+  ElectricalBlockPlan,
+  ConductorMaterial,
+  CableCircuitKind,
+  CableScheduleInput,
+  CableCircuit,
+  CableQuantity,
+  CableScheduleResult,
+} from './types';
+
+// String sizing
+export {
+  calculateModuleDesignValues,
+  sizeStrings,
+  DEFAULT_TARGET_DC_AC_RATIO,
+  DEFAULT_DESIGN_TEMPERATURES,
+} from './stringSizing';
+
+// Block planning
+export {
+  planElectricalBlocks,
+  getPlanOptionsFromStringing,
+  GENERATED_ELECTRICAL_LAYERS,
+  DEFAULT_MODULES_PER_STRING,
+} from './blockPlanner';
+
+// Cable schedule
+export {
+  calculateCableSchedule,
+  calculateDesignCableSchedule,
+  resolveDesignElectricalSpecs,
+  measurePolyline,
+  DEFAULT_MAX_VOLTAGE_DROP_DC,
+  DEFAULT_MAX_VOLTAGE_DROP_AC,
+  CABLE_SLACK_FACTOR,
+  CABLE_ENERGY_LOSS_FACTOR,
+  CONDUCTOR_PRICE_PER_MM2_M,
+} from './cableSchedule';
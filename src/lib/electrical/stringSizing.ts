@@ -0,0 +1,234 @@
+/**
+ * String Sizing
+ *
+ * Checks that a module and an inverter fit together at the site's design
+ * temperatures and sizes strings, MPPT loading and inverter count for a
+ * generated layout.
+ *
+ * Voltage limits follow the usual practice:
+ * - Cold Voc (record low, cells at ambient) must stay below maxDcVoltage
+ * - Hot Vmp (record high, cells under full sun) should stay above mpptVoltageMin
+ * - Cold Vmp should stay below mpptVoltageMax
+ */
+
+import type { ModuleSpecs } from '@/lib/types/component';
+import { calculateCellTemperature } from '@/lib/digitaltwin/irradianceModel';
+import type {
+  DesignTemperatures,
+  ModuleDesignValues,
+  StringingIssue,
+  StringSizingInput,
+  StringSizingResult,
+} from './types';
+
+/** Fallback temperature coefficients (%/°C) when the datasheet omits them */
+const DEFAULT_TEMP_COEFF_VOC = -0.28;
+const DEFAULT_TEMP_COEFF_PMAX = -0.35;
+const DEFAULT_TEMP_COEFF_ISC = 0.05;
+
+/** Default DC/AC ratio target for sizing strings per inverter */
+export const DEFAULT_TARGET_DC_AC_RATIO = 1.25;
+
+/** DC/AC ratios outside this band are flagged */
+const DC_AC_RATIO_MIN = 1.0;
+const DC_AC_RATIO_MAX = 1.5;
+
+/** Default design temperatures when the site has none recorded */
+export const DEFAULT_DESIGN_TEMPERATURES: DesignTemperatures = {
+  recordLowC: -10,
+  recordHighC: 40,
+};
+
+/**
+ * Temperature-correct module Voc, Vmp and Isc for the design temperatures.
+ *
+ * @param module - Module datasheet values (STC)
+ * @param temperatures - Record low/high ambient temperatures
+ * @returns Voltages and current at the limiting conditions
+ */
+export function calculateModuleDesignValues(
+  module: ModuleSpecs,
+  temperatures: DesignTemperatures
+): ModuleDesignValues {
+  const coeffVoc = (module.tempCoeffVoc ?? DEFAULT_TEMP_COEFF_VOC) / 100;
+  // Vmp coefficient is not on most datasheets; Pmax is a close approximation
+  const coeffVmp = (module.tempCoeffPmax ?? DEFAULT_TEMP_COEFF_PMAX) / 100;
+  const coeffIsc = (module.tempCoeffIsc ?? DEFAULT_TEMP_COEFF_ISC) / 100;
+
+  // At dawn on the coldest day the cells are still at ambient temperature
+  const coldCellTemp = temperatures.recordLowC;
+  const hotCellTempC = calculateCellTemperature(temperatures.recordHighC, 1000);
+
+  return {
+    coldVoc: module.voc * (1 + coeffVoc * (coldCellTemp - 25)),
+    coldVmp: module.vmp * (1 + coeffVmp * (coldCellTemp - 25)),
+    hotVmp: module.vmp * (1 + coeffVmp * (hotCellTempC - 25)),
+    hotIsc: module.isc * (1 + coeffIsc * (hotCellTempC - 25)),
+    hotCellTempC,
+  };
+}
+
+/**
+ * Size strings and inverters and check the configuration against the
+ * inverter's voltage, current and power limits.
+ *
+ * @param input - Module, inverter, temperatures, layout and optional chosen values
+ * @returns Allowed ranges, chosen configuration, plant totals and issues
+ */
+export function sizeStrings(input: StringSizingInput): StringSizingResult {
+  const { module, inverter, temperatures } = input;
+  const issues: StringingIssue[] = [];
+  const values = calculateModuleDesignValues(module, temperatures);
+
+  // String length limits
+  const maxModulesPerString = Math.max(0, Math.floor(inverter.maxDcVoltage / values.coldVoc));
+  const maxModulesInMpptRange = Math.max(0, Math.floor(inverter.mpptVoltageMax / values.coldVmp));
+  const minModulesPerString = Math.max(1, Math.ceil(inverter.mpptVoltageMin / values.hotVmp));
+
+  if (minModulesPerString > maxModulesPerString) {
+    issues.push({
+      code: 'no_valid_string_length',
+      severity: 'error',
+      message: `No string length fits: at least ${minModulesPerString} modules are needed to reach the MPPT window but only ${maxModulesPerString} stay below ${inverter.maxDcVoltage} V`,
+    });
+  }
+
+  // Prefer the longest string that keeps cold Vmp inside the MPPT window
+  const recommendedLength = Math.max(
+    minModulesPerString,
+    Math.min(maxModulesPerString, maxModulesInMpptRange)
+  );
+  const modulesPerString = Math.max(
+    1,
+    input.modulesPerString ?? Math.min(recommendedLength, Math.max(1, maxModulesPerString))
+  );
+
+  const stringColdVoc = modulesPerString * values.coldVoc;
+  const stringColdVmp = modulesPerString * values.coldVmp;
+  const stringHotVmp = modulesPerString * values.hotVmp;
+
+  if (stringColdVoc > inverter.maxDcVoltage) {
+    issues.push({
+      code: 'cold_voc_exceeds_max_dc_voltage',
+      severity: 'error',
+      message: `String Voc at ${temperatures.recordLowC}°C is ${stringColdVoc.toFixed(0)} V, above the inverter maximum of ${inverter.maxDcVoltage} V`,
+    });
+  }
+  if (stringHotVmp < inverter.mpptVoltageMin) {
+    issues.push({
+      code: 'hot_vmp_below_mppt_min',
+      severity: 'warning',
+      message: `String Vmp at ${values.hotCellTempC.toFixed(0)}°C cell temperature is ${stringHotVmp.toFixed(0)} V, below the MPPT minimum of ${inverter.mpptVoltageMin} V`,
+    });
+  }
+  if (stringColdVmp > inverter.mpptVoltageMax) {
+    issues.push({
+      code: 'cold_vmp_above_mppt_max',
+      severity: 'warning',
+      message: `String Vmp at ${temperatures.recordLowC}°C is ${stringColdVmp.toFixed(0)} V, above the MPPT maximum of ${inverter.mpptVoltageMax} V`,
+    });
+  }
+
+  // Strings per MPPT limited by input current
+  const mpptCount = Math.max(1, inverter.mpptCount);
+  const currentPerMppt = inverter.maxDcCurrent / mpptCount;
+  const stringsByCurrent = Math.floor(currentPerMppt / values.hotIsc);
+  const maxStringsPerMppt = Math.max(
+    0,
+    Math.min(inverter.stringsPerMppt ?? stringsByCurrent, stringsByCurrent)
+  );
+
+  // Strings per inverter from the DC/AC target, within input and DC power limits
+  const stringPowerKw = (modulesPerString * module.powerRating) / 1000;
+  const targetRatio = input.targetDcAcRatio ?? DEFAULT_TARGET_DC_AC_RATIO;
+  const maxInputs = mpptCount * maxStringsPerMppt;
+  const maxByDcPower = Math.floor(inverter.maxDcPower / stringPowerKw);
+  const recommendedStrings = Math.max(
+    1,
+    Math.min(
+      Math.round((targetRatio * inverter.acPowerRating) / stringPowerKw),
+      maxInputs > 0 ? maxInputs : Infinity,
+      maxByDcPower > 0 ? maxByDcPower : Infinity
+    )
+  );
+  const stringsPerInverter = Math.max(1, input.stringsPerInverter ?? recommendedStrings);
+  const stringsPerMppt = Math.ceil(stringsPerInverter / mpptCount);
+
+  if (stringsPerMppt * values.hotIsc > currentPerMppt) {
+    issues.push({
+      code: 'string_current_exceeds_mppt',
+      severity: 'error',
+      message: `${stringsPerMppt} strings per MPPT draw ${(stringsPerMppt * values.hotIsc).toFixed(1)} A, above the ${currentPerMppt.toFixed(1)} A available per MPPT`,
+    });
+  } else if (inverter.stringsPerMppt !== undefined && stringsPerMppt > inverter.stringsPerMppt) {
+    issues.push({
+      code: 'strings_exceed_inverter_inputs',
+      severity: 'error',
+      message: `${stringsPerMppt} strings per MPPT exceeds the ${inverter.stringsPerMppt} inputs available`,
+    });
+  }
+
+  const inverterDcKw = stringsPerInverter * stringPowerKw;
+  if (inverterDcKw > inverter.maxDcPower) {
+    issues.push({
+      code: 'dc_power_exceeds_inverter_max',
+      severity: 'error',
+      message: `${inverterDcKw.toFixed(0)} kW DC per inverter exceeds the maximum DC input of ${inverter.maxDcPower} kW`,
+    });
+  }
+
+  // Plant totals
+  const totalModules = input.totalModules ?? input.layout?.summary.totalPanels ?? 0;
+  const totalStrings = Math.floor(totalModules / modulesPerString);
+  const unstrungModules = totalModules - totalStrings * modulesPerString;
+  const inverterCount = totalStrings > 0 ? Math.ceil(totalStrings / stringsPerInverter) : 0;
+  const dcCapacityKw = totalStrings * stringPowerKw;
+  const acCapacityKw = inverterCount * inverter.acPowerRating;
+  const dcAcRatio =
+    acCapacityKw > 0 ? dcCapacityKw / acCapacityKw : inverterDcKw / inverter.acPowerRating;
+
+  if (unstrungModules > 0) {
+    issues.push({
+      code: 'unstrung_modules',
+      severity: 'warning',
+      message: `${unstrungModules} modules do not fill a complete string of ${modulesPerString}`,
+    });
+  }
+  if (dcAcRatio > DC_AC_RATIO_MAX) {
+    issues.push({
+      code: 'dc_ac_ratio_high',
+      severity: 'warning',
+      message: `DC/AC ratio of ${dcAcRatio.toFixed(2)} will cause significant clipping`,
+    });
+  } else if (dcAcRatio < DC_AC_RATIO_MIN) {
+    issues.push({
+      code: 'dc_ac_ratio_low',
+      severity: 'warning',
+      message: `DC/AC ratio of ${dcAcRatio.toFixed(2)} leaves inverter capacity unused`,
+    });
+  }
+
+  return {
+    moduleValues: values,
+    minModulesPerString,
+    maxModulesPerString,
+    maxModulesInMpptRange,
+    maxStringsPerMppt,
+    modulesPerString,
+    stringsPerMppt,
+    stringsPerInverter,
+    stringColdVoc,
+    stringHotVmp,
+    stringColdVmp,
+    totalModules,
+    totalStrings,
+    unstrungModules,
+    inverterCount,
+    dcCapacityKw,
+    acCapacityKw,
+    dcAcRatio,
+    issues,
+    isValid: !issues.some((issue) => issue.severity === 'error'),
+  };
+}
+
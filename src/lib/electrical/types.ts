@@ -0,0 +1,211 @@
+/**
+ * Electrical Design Types
+ *
+ * Types for string/inverter sizing and electrical block planning of
+ * generated layouts.
+ */
+
+import type { ModuleSpecs, InverterSpecs } from '@/lib/types/component';
+import type { GeneratedLayout } from '@/lib/types/layout';
+import type { ElectricalComponent } from '@/lib/dxf/types';
+
+/** Site design temperatures used for voltage limits */
+export interface DesignTemperatures {
+  recordLowC: number;             // °C - record low ambient (cold Voc, cells at ambient)
+  recordHighC: number;            // °C - record high ambient (hot Vmp, cells under irradiance)
+}
+
+/** Input for string sizing */
+export interface StringSizingInput {
+  module: ModuleSpecs;
+  inverter: InverterSpecs;
+  temperatures: DesignTemperatures;
+  layout?: GeneratedLayout;       // Module count for plant-level totals
+  totalModules?: number;          // Overrides the layout module count
+
+  // Chosen configuration (optional - recommended values are used when omitted)
+  modulesPerString?: number;
+  stringsPerInverter?: number;
+  targetDcAcRatio?: number;       // Default: 1.25
+}
+
+export type StringingIssueSeverity = 'error' | 'warning';
+
+export type StringingIssueCode =
+  | 'no_valid_string_length'
+  | 'cold_voc_exceeds_max_dc_voltage'
+  | 'hot_vmp_below_mppt_min'
+  | 'cold_vmp_above_mppt_max'
+  | 'string_current_exceeds_mppt'
+  | 'strings_exceed_inverter_inputs'
+  | 'dc_power_exceeds_inverter_max'
+  | 'dc_ac_ratio_high'
+  | 'dc_ac_ratio_low'
+  | 'unstrung_modules';
+
+/** A violation or warning found while checking a string configuration */
+export interface StringingIssue {
+  code: StringingIssueCode;
+  severity: StringingIssueSeverity;
+  message: string;
+}
+
+/** Temperature-corrected module electrical values */
+export interface ModuleDesignValues {
+  coldVoc: number;                // V at record low
+  coldVmp: number;                // V at record low
+  hotVmp: number;                 // V at record high cell temperature
+  hotIsc: number;                 // A at record high cell temperature
+  hotCellTempC: number;           // °C
+}
+
+/** Result of string sizing */
+export interface StringSizingResult {
+  moduleValues: ModuleDesignValues;
+
+  // Allowed ranges
+  minModulesPerString: number;
+  maxModulesPerString: number;    // Limited by maxDcVoltage
+  maxModulesInMpptRange: number;  // Limited by mpptVoltageMax
+  maxStringsPerMppt: number;
+
+  // Chosen configuration
+  modulesPerString: number;
+  stringsPerMppt: number;         // Largest MPPT loading for the chosen strings per inverter
+  stringsPerInverter: number;
+
+  // String electrical values for the chosen configuration
+  stringColdVoc: number;          // V
+  stringHotVmp: number;           // V
+  stringColdVmp: number;          // V
+
+  // Plant totals (0 when no module count is available)
+  totalModules: number;
+  totalStrings: number;
+  unstrungModules: number;
+  inverterCount: number;
+  dcCapacityKw: number;
+  acCapacityKw: number;
+  dcAcRatio: number;              // Per inverter when no module count is available
+
+  issues: StringingIssue[];
+  isValid: boolean;               // No errors (warnings allowed)
+}
+
+/** String configuration saved on a design */
+export interface StringingConfig {
+  moduleComponentId?: string;
+  inverterComponentId?: string;
+  moduleName: string;
+  inverterName: string;
+  temperatures: DesignTemperatures;
+
+  modulesPerString: number;
+  stringsPerMppt: number;
+  stringsPerInverter: number;
+  totalStrings: number;
+  inverterCount: number;
+  dcCapacityKw: number;
+  acCapacityKw: number;
+  dcAcRatio: number;
+  stringColdVoc: number;          // V - for documentation / checks
+  issueCount: number;             // Warnings accepted when saving
+
+  savedAt: string;                // ISO date
+  savedBy: string;                // User's full name
+}
+
+/** Options for the automatic electrical block planner */
+export interface ElectricalBlockPlanOptions {
+  modulesPerString?: number;        // Default: 28
+  stringsPerInverter?: number;      // Default: 20
+  stringsPerCombiner?: number;      // Default: 16 - combiners only when an inverter takes more strings
+  invertersPerTransformer?: number; // Default: 10
+}
+
+/** Counts and cable lengths of a planned electrical layout */
+export interface ElectricalPlanSummary {
+  stringCount: number;
+  unstrungModules: number;
+  combinerCount: number;
+  inverterCount: number;
+  transformerCount: number;
+  stringCableLengthM: number;       // String to combiner/inverter (DC)
+  dcFeederLengthM: number;          // Combiner to inverter (DC)
+  acCableLengthM: number;           // Inverter to transformer (AC)
+}
+
+/** A transformer block: the frames, inverters and combiners feeding one transformer */
+export interface ElectricalBlock {
+  id: string;                       // Transformer component ID
+  label: string;                    // e.g. "Block 01"
+  frameIndices: number[];           // FramePlacement.index values in this block
+  inverterIds: string[];
+  combinerIds: string[];
+  stringCount: number;
+  dcCapacityKw: number;
+}
+
+/** Result of electrical block planning */
+export interface ElectricalBlockPlan {
+  components: ElectricalComponent[]; // Equipment and cable polylines in local coordinates
+  blocks: ElectricalBlock[];
+  summary: ElectricalPlanSummary;
+}
+
+export type ConductorMaterial = 'copper' | 'aluminium';
+
+/** Circuit kind: string home-run, combiner feeder or inverter AC output */
+export type CableCircuitKind = 'dc_string' | 'dc_feeder' | 'ac';
+
+/** Input for the cable schedule */
+export interface CableScheduleInput {
+  electrical: ElectricalComponent[]; // Cable polylines ('string', 'cable', 'ac_cable', 'trench')
+  module: ModuleSpecs;
+  inverter: InverterSpecs;
+  modulesPerString: number;
+  totalModules: number;
+  inverterCount?: number;         // Default: one per AC cable
+  maxVoltageDropDc?: number;      // % (default: 1.5)
+  maxVoltageDropAc?: number;      // % (default: 1.0)
+}
+
+/** A single sized cable run */
+export interface CableCircuit {
+  id: string;                     // ElectricalComponent ID
+  label?: string;
+  kind: CableCircuitKind;
+  lengthM: number;                // Route length including slack
+  currentA: number;               // Operating current at STC
+  voltageV: number;
+  material: ConductorMaterial;
+  crossSectionMm2: number;
+  parallelRuns: number;
+  ampacityA: number;              // Combined for all parallel runs
+  voltageDropPercent: number;     // %
+  lossW: number;                  // Ohmic loss at STC
+}
+
+/** Conductor quantity for one kind, material and size */
+export interface CableQuantity {
+  kind: CableCircuitKind;
+  material: ConductorMaterial;
+  crossSectionMm2: number;
+  conductorLengthM: number;       // All conductors of all runs
+  routeLengthM: number;
+  circuitCount: number;
+}
+
+/** Result of the cable schedule */
+export interface CableScheduleResult {
+  circuits: CableCircuit[];
+  quantities: CableQuantity[];
+  dcLengthM: number;              // Route meters
+  acLengthM: number;              // Route meters
+  trenchLengthM: number;
+  maxVoltageDropDc: number;       // %
+  maxVoltageDropAc: number;       // %
+  dcLossPercent: number;          // % of DC power at STC
+  acLossPercent: number;          // % of AC power at STC
+  wiringLoss: number;             // % annual energy (for the yield loss breakdown)
+}
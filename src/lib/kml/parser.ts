@@ -4,7 +4,13 @@ import type {
   SiteExclusionZone,
   ExclusionZoneType,
   KMLParseResult,
+  ExclusionZoneFeature,
 } from '@/lib/types/site';
+import {
+  DEFAULT_FEATURE_BUFFER_M,
+  bufferFeature,
+  parseBufferDistance,
+} from '@/lib/sites/featureBuffer';
 
 /**
  * Get the folder path for a placemark by traversing up the DOM tree
@@ -96,6 +102,7 @@ export async function parseKMLFile(content: string): Promise<KMLParseResult> {
 
   const boundaries: SiteBoundary[] = [];
   const exclusionZones: SiteExclusionZone[] = [];
+  const featurePlacemarks = new Set<Element>();
 
   // Find all Placemark elements
   const placemarks = doc.querySelectorAll('Placemark');
@@ -113,6 +120,16 @@ export async function parseKMLFile(content: string): Promise<KMLParseResult> {
       return;
     }
 
+    // Lines and points become buffered exclusion zones (overhead lines, roads, wells)
+    if (!placemark.querySelector('Polygon, LinearRing')) {
+      const zones = extractFeatureZones(placemark, name, description, folderPath, folderCategory);
+      if (zones.length > 0) {
+        exclusionZones.push(...zones);
+        featurePlacemarks.add(placemark);
+      }
+      return;
+    }
+
     // Process Polygon elements
     const polygons = placemark.querySelectorAll('Polygon');
     polygons.forEach((polygon) => {
@@ -246,6 +263,7 @@ export async function parseKMLFile(content: string): Promise<KMLParseResult> {
   let pointCentroid: { latitude: number; longitude: number } | undefined;
   placemarks.forEach((placemark) => {
     if (pointCentroid) return; // only need the first one
+    if (featurePlacemarks.has(placemark)) return; // buffered point exclusions
     const point = placemark.querySelector('Point coordinates');
     if (point) {
       const coords = parseCoordinateString(point.textContent || '');
@@ -300,6 +318,87 @@ export async function parseKMZFile(file: File): Promise<KMLParseResult> {
   return parseKMLFile(kmlContent);
 }
 
+/**
+ * Build buffered exclusion zones from a placemark's LineString and Point
+ * geometries. Features are only kept when they are in an exclusion folder,
+ * their name/description names a constraint, or they carry a buffer
+ * distance; other points (e.g. parcel markers) are left alone.
+ */
+function extractFeatureZones(
+  placemark: Element,
+  name: string,
+  description: string,
+  folderPath: string[],
+  folderCategory: 'boundary' | 'exclusion' | null
+): SiteExclusionZone[] {
+  if (folderCategory === 'boundary') return [];
+
+  const explicitBuffer = getPlacemarkBuffer(placemark, name, description);
+
+  const features: Array<Omit<ExclusionZoneFeature, 'bufferM'>> = [];
+  placemark.querySelectorAll('LineString coordinates').forEach((el) => {
+    const coordinates = parseCoordinateString(el.textContent || '');
+    if (coordinates.length >= 2) features.push({ geometry: 'line', coordinates });
+  });
+  placemark.querySelectorAll('Point coordinates').forEach((el) => {
+    const coordinates = parseCoordinateString(el.textContent || '');
+    if (coordinates.length >= 1) features.push({ geometry: 'point', coordinates: coordinates.slice(0, 1) });
+  });
+
+  const zones: SiteExclusionZone[] = [];
+  for (const feature of features) {
+    let zoneType: ExclusionZoneType | 'skip' | null =
+      folderCategory === 'exclusion' ? detectZoneTypeFromFolder(folderPath) : null;
+    if (!zoneType) zoneType = detectZoneType(name, description);
+    if (zoneType === 'skip') continue;
+    if (!zoneType) {
+      if (folderCategory !== 'exclusion' && explicitBuffer === null) continue;
+      // Lines with a buffer are usually rights-of-way
+      zoneType = feature.geometry === 'line' ? 'easement' : 'other';
+    }
+
+    const zoneFeature: ExclusionZoneFeature = {
+      ...feature,
+      bufferM: explicitBuffer ?? DEFAULT_FEATURE_BUFFER_M[feature.geometry],
+    };
+    const coordinates = bufferFeature(zoneFeature);
+    if (!coordinates) continue;
+
+    zones.push({
+      id: crypto.randomUUID(),
+      name,
+      type: zoneType,
+      coordinates,
+      area: calculatePolygonArea(coordinates),
+      description: description || undefined,
+      feature: zoneFeature,
+    });
+  }
+
+  return zones;
+}
+
+/**
+ * Buffer distance of a placemark in meters, from an ExtendedData field
+ * (buffer, setback, radius or offset; "_ft" names are in feet) or from a
+ * distance in its name/description such as "30 m easement"
+ */
+function getPlacemarkBuffer(placemark: Element, name: string, description: string): number | null {
+  const fields = Array.from(placemark.querySelectorAll('ExtendedData Data, ExtendedData SimpleData'));
+  for (const field of fields) {
+    const key = field.getAttribute('name') || '';
+    if (!/buffer|setback|radius|offset/i.test(key)) continue;
+
+    const value =
+      (field.tagName === 'Data' ? field.querySelector('value')?.textContent : field.textContent) || '';
+    const inFeet = /(^|[^a-z])(ft|feet)([^a-z]|$)/i.test(key) && !/[a-z]/i.test(value);
+    const distance = parseBufferDistance(inFeet ? `${value} ft` : value, true);
+    if (distance !== null) return distance;
+  }
+
+  return parseBufferDistance(`${name} ${description}`);
+}
+
 /**
  * Extract coordinates from a Polygon element
  */
@@ -475,7 +574,7 @@ function calculatePolygonArea(
 /**
  * Calculate centroid of all boundaries
  */
-function calculateCentroid(
+export function calculateCentroid(
   boundaries: SiteBoundary[]
 ): { latitude: number; longitude: number } | undefined {
   if (boundaries.length === 0) return undefined;
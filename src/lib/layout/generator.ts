@@ -4,13 +4,14 @@
  * Uses frame-based placement with corridor support
  */
 
-import type { Site } from '@/lib/types/site';
+import type { Site, SiteTerrainGrid } from '@/lib/types/site';
 import type {
   ModuleInput,
   LayoutParameters,
   PanelRow,
   FramePlacement,
   GeneratedLayout,
+  TrackerConfig,
 } from '@/lib/types/layout';
 import {
   createLocalProjection,
@@ -21,6 +22,86 @@ import {
   frameFullyContained,
   type LocalCoord,
 } from './geometry';
+import {
+  isTrackerLayout,
+  TRACKER_AXIS_HEIGHT_M,
+  DEFAULT_TRACKER_MAX_ROTATION_DEG,
+  DEFAULT_TRACKER_PITCH_M,
+} from './tracker';
+import { fitGroundPlane } from '@/lib/terrain/terrainAnalysis';
+
+/**
+ * Frame footprint derived from module size and layout parameters
+ */
+interface FrameDimensions {
+  frameWidth: number; // Along the row (m)
+  frameHeightPhysical: number; // Across the row, measured on the module plane (m)
+  effectiveFrameHeight: number; // Across the row, projected on the ground (m)
+  frameGapY: number; // Gap between rows of frames (m)
+  rotationDeg: number; // Row rotation (see generateFrameGrid)
+}
+
+/**
+ * Terrain under the layout and the structural slope limits of a frame
+ */
+interface TerrainLimits {
+  grid: SiteTerrainGrid;
+  maxSlopeNSPercent: number;
+  maxSlopeEWPercent: number;
+}
+
+/**
+ * Calculate frame dimensions, row gap and rotation for a mount type.
+ *
+ * Fixed-tilt frames hold modules in landscape and are projected by the tilt.
+ * Tracker frames hold modules in portrait across the axis (1P/2P), lie flat
+ * at stow and use the tracker pitch to derive the gap between rows, which
+ * always run north-south.
+ */
+function getFrameDimensions(module: ModuleInput, parameters: LayoutParameters): FrameDimensions {
+  const moduleLengthM = module.lengthMm / 1000;
+  const moduleWidthM = module.widthMm / 1000;
+
+  if (isTrackerLayout(parameters)) {
+    const pitch = parameters.trackerPitchM ?? DEFAULT_TRACKER_PITCH_M;
+    const frameWidth =
+      parameters.frameColumns * moduleWidthM +
+      (parameters.frameColumns - 1) * parameters.moduleGapM;
+    const frameHeightPhysical =
+      parameters.frameRows * moduleLengthM +
+      (parameters.frameRows - 1) * parameters.moduleGapM;
+
+    return {
+      frameWidth,
+      frameHeightPhysical,
+      effectiveFrameHeight: frameHeightPhysical,
+      frameGapY: pitch - frameHeightPhysical,
+      // Rows run north-south
+      rotationDeg: 90,
+    };
+  }
+
+  // Calculate frame dimensions
+  const frameWidth =
+    parameters.frameColumns * moduleLengthM +
+    (parameters.frameColumns - 1) * parameters.moduleGapM;
+
+  // Apply tilt to frame height
+  const tiltRad = (parameters.tiltAngle * Math.PI) / 180;
+  const frameHeightPhysical =
+    parameters.frameRows * moduleWidthM +
+    (parameters.frameRows - 1) * parameters.moduleGapM;
+
+  return {
+    frameWidth,
+    frameHeightPhysical,
+    effectiveFrameHeight: frameHeightPhysical * Math.cos(tiltRad),
+    frameGapY: parameters.frameGapY,
+    // Calculate rotation from azimuth
+    // Azimuth 180 (south) = rows run east-west = 0° rotation
+    rotationDeg: parameters.azimuth - 180,
+  };
+}
 
 /**
  * Generate a panel layout for a site using frame-based placement
@@ -46,7 +127,8 @@ export function generatePanelLayout(
     lng: site.centroid.longitude,
   });
 
-  // Convert exclusion zones to local coordinates (shared across all boundaries)
+  // Convert exclusion zones to local coordinates (shared across all boundaries).
+  // Line/point zones hold their buffer polygon, computed at import or edit time.
   const localExclusions: LocalCoord[][] = site.exclusionZones.map((zone) =>
     zone.coordinates.map((c) => projection.toLocal({ lat: c.lat, lng: c.lng }))
   );
@@ -55,26 +137,38 @@ export function generatePanelLayout(
   const moduleLengthM = module.lengthMm / 1000;
   const moduleWidthM = module.widthMm / 1000;
 
-  // Calculate frame dimensions
-  const frameWidth =
-    parameters.frameColumns * moduleLengthM +
-    (parameters.frameColumns - 1) * parameters.moduleGapM;
+  const isTracker = isTrackerLayout(parameters);
+  const {
+    frameWidth,
+    frameHeightPhysical,
+    effectiveFrameHeight,
+    frameGapY,
+    rotationDeg,
+  } = getFrameDimensions(module, parameters);
+
+  if (isTracker && frameGapY <= 0) {
+    throw new Error(
+      `Tracker pitch must be larger than the tracker width (${frameHeightPhysical.toFixed(2)}m)`
+    );
+  }
 
-  // Apply tilt to frame height
-  const tiltRad = (parameters.tiltAngle * Math.PI) / 180;
-  const frameHeightPhysical =
-    parameters.frameRows * moduleWidthM +
-    (parameters.frameRows - 1) * parameters.moduleGapM;
-  const effectiveFrameHeight = frameHeightPhysical * Math.cos(tiltRad);
+  // Row gap used by the grid (trackers derive it from the pitch)
+  const gridParameters: LayoutParameters = { ...parameters, frameGapY };
 
-  // Calculate rotation from azimuth
-  // Azimuth 180 (south) = rows run east-west = 0° rotation
-  const rotationDeg = parameters.azimuth - 180;
+  // Follow the terrain when the site has a DEM grid
+  const terrain: TerrainLimits | undefined = site.terrain
+    ? {
+        grid: site.terrain,
+        maxSlopeNSPercent: parameters.maxSlopeNSPercent ?? 15,
+        maxSlopeEWPercent: parameters.maxSlopeEWPercent ?? 10,
+      }
+    : undefined;
 
   // Generate frames for ALL boundaries
   const allFrames: FramePlacement[] = [];
   let totalCoveredAreaSqm = 0;
   let globalFrameIndex = 0;
+  let slopeRejectedFrames = 0;
 
   for (const boundary of site.boundaries) {
     // Convert boundary to local coordinates
@@ -94,20 +188,22 @@ export function generatePanelLayout(
     totalCoveredAreaSqm += boundaryArea;
 
     // Generate frames for this boundary
-    const boundaryFrames = generateFrameGrid(
+    const { frames: boundaryFrames, slopeRejected } = generateFrameGrid(
       localBoundary,
       localExclusions,
       frameWidth,
       effectiveFrameHeight,
-      parameters,
+      gridParameters,
       rotationDeg,
       projection,
-      globalFrameIndex
+      globalFrameIndex,
+      terrain
     );
 
     // Add frames with updated global indices
     allFrames.push(...boundaryFrames);
     globalFrameIndex += boundaryFrames.length;
+    slopeRejectedFrames += slopeRejected;
   }
 
   // Calculate summary statistics
@@ -124,12 +220,24 @@ export function generatePanelLayout(
   // Create legacy PanelRow format for backward compatibility
   const rows = framesToLegacyRows(allFrames, modulesPerFrame);
 
+  const tracker: TrackerConfig | undefined = isTracker
+    ? {
+        axisAzimuth: 0,
+        maxRotationDeg: parameters.trackerMaxRotationDeg ?? DEFAULT_TRACKER_MAX_ROTATION_DEG,
+        backtracking: parameters.trackerBacktracking ?? true,
+        pitchM: frameHeightPhysical + frameGapY,
+        gcr: frameHeightPhysical / (frameHeightPhysical + frameGapY),
+        axisHeightM: TRACKER_AXIS_HEIGHT_M,
+      }
+    : undefined;
+
   return {
     siteId: site.id,
     module,
     parameters,
     frames: allFrames,
     rows,
+    tracker,
     summary: {
       totalPanels,
       totalFrames: allFrames.length,
@@ -139,6 +247,7 @@ export function generatePanelLayout(
       actualGcr,
       coveredAreaSqm: totalCoveredAreaSqm,
       moduleAreaSqm,
+      slopeRejectedFrames: terrain ? slopeRejectedFrames : undefined,
     },
     generatedAt: new Date().toISOString(),
   };
@@ -147,6 +256,8 @@ export function generatePanelLayout(
 /**
  * Generate frame grid positions within the boundary
  * @param startIndex - Starting frame index for global numbering across boundaries
+ * @param terrain - When given, frames get their ground elevation and slopes,
+ *   and frames on ground steeper than the limits are rejected
  */
 function generateFrameGrid(
   boundary: LocalCoord[],
@@ -156,9 +267,11 @@ function generateFrameGrid(
   parameters: LayoutParameters,
   rotationDeg: number,
   projection: ReturnType<typeof createLocalProjection>,
-  startIndex: number = 0
-): FramePlacement[] {
+  startIndex: number = 0,
+  terrain?: TerrainLimits
+): { frames: FramePlacement[]; slopeRejected: number } {
   const frames: FramePlacement[] = [];
+  let slopeRejected = 0;
 
   // Get bounding box of the boundary
   const bbox = getBoundingBox(boundary);
@@ -254,6 +367,20 @@ function generateFrameGrid(
 
       // Check if frame is fully contained
       if (frameFullyContained(corners, boundary, exclusions)) {
+        // Fit the ground under the frame and check the structural limits
+        const ground = terrain
+          ? fitGroundPlane(terrain.grid, [...corners, frameCenter])
+          : null;
+        if (
+          ground &&
+          terrain &&
+          (Math.abs(ground.slopeNSPercent) > terrain.maxSlopeNSPercent ||
+            Math.abs(ground.slopeEWPercent) > terrain.maxSlopeEWPercent)
+        ) {
+          slopeRejected++;
+          continue;
+        }
+
         // Convert center to global coordinates
         const centerGlobal = projection.toGlobal(frameCenter);
 
@@ -270,6 +397,11 @@ function generateFrameGrid(
           widthM: frameWidth,
           heightM: frameHeight,
           rotationDeg,
+          ...(ground && {
+            groundElevationM: ground.elevationM,
+            groundSlopeNSPercent: ground.slopeNSPercent,
+            groundSlopeEWPercent: ground.slopeEWPercent,
+          }),
         });
 
         frameIndex++;
@@ -277,7 +409,7 @@ function generateFrameGrid(
     }
   }
 
-  return frames;
+  return { frames, slopeRejected };
 }
 
 /**
@@ -339,27 +471,17 @@ export function estimatePanelCount(
   dcCapacityKw: number;
   dcCapacityMw: number;
 } {
-  const moduleLengthM = module.lengthMm / 1000;
-  const moduleWidthM = module.widthMm / 1000;
-
-  // Calculate frame dimensions
-  const frameWidth =
-    parameters.frameColumns * moduleLengthM +
-    (parameters.frameColumns - 1) * parameters.moduleGapM;
-
-  const tiltRad = (parameters.tiltAngle * Math.PI) / 180;
-  const frameHeightPhysical =
-    parameters.frameRows * moduleWidthM +
-    (parameters.frameRows - 1) * parameters.moduleGapM;
-  const effectiveFrameHeight = frameHeightPhysical * Math.cos(tiltRad);
+  // Calculate frame dimensions (tracker rows take their gap from the pitch)
+  const { frameWidth, effectiveFrameHeight, frameGapY } = getFrameDimensions(module, parameters);
+  const rowGap = Math.max(0, frameGapY);
 
   // Calculate effective frame footprint including average spacing
   const avgGapX = parameters.corridorEveryNFramesX > 0
     ? (parameters.frameGapX * (parameters.corridorEveryNFramesX - 1) + parameters.corridorWidth) / parameters.corridorEveryNFramesX
     : parameters.frameGapX;
   const avgGapY = parameters.corridorEveryNFramesY > 0
-    ? (parameters.frameGapY * (parameters.corridorEveryNFramesY - 1) + parameters.corridorWidth) / parameters.corridorEveryNFramesY
-    : parameters.frameGapY;
+    ? (rowGap * (parameters.corridorEveryNFramesY - 1) + parameters.corridorWidth) / parameters.corridorEveryNFramesY
+    : rowGap;
 
   const effectiveFrameAreaWithSpacing = (frameWidth + avgGapX) * (effectiveFrameHeight + avgGapY);
 
@@ -1,4 +1,26 @@
 // Layout generation module
 export { generatePanelLayout, estimatePanelCount, estimatePanelCountLegacy } from './generator';
-export { generatedLayoutToParsedData } from './toParsedData';
+export { generatedLayoutToParsedData, GENERATED_MOUNTING_HEIGHT_M } from './toParsedData';
 export * from './geometry';
+export {
+  TRACKER_AXIS_HEIGHT_M,
+  isTrackerLayout,
+  calculateTrueTrackingAngle,
+  applyBacktracking,
+  calculateTrackerRotation,
+  calculateRowShadingFraction,
+} from './tracker';
+export {
+  optimizeLayout,
+  findParetoFront,
+  createDefaultSearchSpace,
+  DEFAULT_MAX_CANDIDATES,
+} from './optimizer';
+export type {
+  LayoutSearchSpace,
+  LayoutOptimizerInput,
+  LayoutCandidate,
+  LayoutOptimizerResult,
+  LayoutOptimizerRequest,
+  LayoutOptimizerResponse,
+} from './optimizer';
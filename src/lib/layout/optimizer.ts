@@ -0,0 +1,361 @@
+/**
+ * Layout Optimizer
+ *
+ * Sweeps tilt, row gap (pitch), frame configuration and azimuth within
+ * LAYOUT_PARAMETER_LIMITS, generates a layout for each candidate and scores
+ * it by DC capacity, estimated annual yield and LCOE. The non-dominated
+ * candidates form the Pareto front the user picks from.
+ *
+ * Yield uses the offline GHI lookup scaled by a clear-sky plane-of-array
+ * factor that accounts for orientation and row-to-row shading (infinite
+ * row model), relative to an unshaded array at the optimal tilt.
+ *
+ * Runs synchronously - call it from optimizer.worker.ts for large sites.
+ */
+
+import type { Site } from '@/lib/types/site';
+import type { ModuleInput, LayoutParameters } from '@/lib/types/layout';
+import { LAYOUT_PARAMETER_LIMITS } from '@/lib/types/layout';
+import type { FinancialInputs } from '@/lib/types/financial';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { estimateYieldFromLookup, getOptimalTilt, getOptimalAzimuth } from '@/lib/yield/ghiLookup';
+import { calculatePerformanceRatio } from '@/lib/yield/performanceRatio';
+import { buildSunPath } from '@/lib/yield/shading';
+import { toRadians } from '@/lib/yield/constants';
+import type { WorkerTaskRequest, WorkerTaskResponse } from '@/lib/workerTask';
+import { generatePanelLayout } from './generator';
+import { isTrackerLayout } from './tracker';
+
+/** Default cap on the number of layouts generated in one run */
+export const DEFAULT_MAX_CANDIDATES = 300;
+
+/** Share of horizontal irradiance that is direct beam */
+const BEAM_FRACTION = 0.75;
+
+/** Values swept for each parameter */
+export interface LayoutSearchSpace {
+  tiltAngle: number[];            // degrees
+  frameGapY: number[];            // m
+  frameRows: number[];
+  frameColumns: number[];
+  azimuth: number[];              // compass degrees
+}
+
+export interface LayoutOptimizerInput {
+  site: Site;
+  module: ModuleInput;
+  /** Parameters not being swept (setback, corridors, gaps...) */
+  baseParameters: LayoutParameters;
+  /** Defaults to createDefaultSearchSpace for the site latitude */
+  searchSpace?: LayoutSearchSpace;
+  /** Layouts generated at most; larger grids are sampled (default: 300) */
+  maxCandidates?: number;
+  /** Financial assumptions for LCOE (capacity and yield are set per candidate) */
+  financial?: Partial<FinancialInputs>;
+  /** Site costs independent of capacity, e.g. land and grid connection (€) */
+  fixedCapex?: number;
+  /** Performance ratio excluding row shading (default: calculatePerformanceRatio without shading) */
+  performanceRatio?: number;
+}
+
+export interface LayoutCandidate {
+  id: string;
+  parameters: LayoutParameters;
+  frameCount: number;
+  panelCount: number;
+  dcCapacityKw: number;
+  gcr: number;                    // Module area / covered area
+  planeOfArrayFactor: number;     // Energy vs unshaded array at optimal tilt (ratio)
+  rowShadingLoss: number;         // % of plane-of-array energy
+  annualYieldMwh: number;
+  specificYield: number;          // kWh/kWp
+  lcoe: number;                   // €/MWh
+  paretoOptimal: boolean;
+}
+
+export interface LayoutOptimizerResult {
+  candidates: LayoutCandidate[];  // All scored candidates with frames
+  paretoFront: LayoutCandidate[]; // Non-dominated candidates, by capacity
+  evaluated: number;
+  gridSize: number;               // Size of the full search grid
+  calculatedAt: string;           // ISO date
+}
+
+/** Messages exchanged with optimizer.worker.ts */
+export type LayoutOptimizerRequest = WorkerTaskRequest<LayoutOptimizerInput>;
+
+export type LayoutOptimizerResponse = WorkerTaskResponse<LayoutOptimizerResult>;
+
+type SunPath = ReturnType<typeof buildSunPath>;
+
+function range(min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  for (let v = min; v <= max + 1e-9; v += step) {
+    values.push(Math.round(v * 100) / 100);
+  }
+  return values;
+}
+
+function clampToLimits(values: number[], limits: { min: number; max: number }): number[] {
+  return [...new Set(values.filter((v) => v >= limits.min && v <= limits.max))];
+}
+
+/**
+ * Coarse search grid within LAYOUT_PARAMETER_LIMITS, with azimuths within
+ * ±30° of the equator-facing direction.
+ *
+ * @param latitude - Site latitude in degrees
+ */
+export function createDefaultSearchSpace(latitude: number): LayoutSearchSpace {
+  const limits = LAYOUT_PARAMETER_LIMITS;
+  const facing = getOptimalAzimuth(latitude);
+
+  return {
+    tiltAngle: range(limits.tiltAngle.min, limits.tiltAngle.max, 5),
+    frameGapY: range(limits.frameGapY.min, limits.frameGapY.max, 1.5),
+    frameRows: range(limits.frameRows.min, limits.frameRows.max, 1),
+    frameColumns: clampToLimits([8, 16, 24, 32], limits.frameColumns),
+    azimuth: [-30, -15, 0, 15, 30].map((offset) => (facing + offset + 360) % 360),
+  };
+}
+
+/**
+ * Mulberry32 - small seeded PRNG so sampled runs are repeatable
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Expand the search space into parameter sets, sampling the grid when it
+ * exceeds maxCandidates.
+ */
+function buildCandidateGrid(
+  space: LayoutSearchSpace,
+  base: LayoutParameters,
+  maxCandidates: number
+): { grid: LayoutParameters[]; gridSize: number } {
+  const grid: LayoutParameters[] = [];
+  for (const tiltAngle of space.tiltAngle) {
+    for (const frameGapY of space.frameGapY) {
+      for (const frameRows of space.frameRows) {
+        for (const frameColumns of space.frameColumns) {
+          for (const azimuth of space.azimuth) {
+            grid.push({ ...base, tiltAngle, frameGapY, frameRows, frameColumns, azimuth });
+          }
+        }
+      }
+    }
+  }
+
+  const gridSize = grid.length;
+  if (gridSize <= maxCandidates) return { grid, gridSize };
+
+  // Partial Fisher-Yates shuffle to pick maxCandidates distinct entries
+  const random = seededRandom(gridSize);
+  for (let i = 0; i < maxCandidates; i++) {
+    const j = i + Math.floor(random() * (gridSize - i));
+    [grid[i], grid[j]] = [grid[j], grid[i]];
+  }
+  return { grid: grid.slice(0, maxCandidates), gridSize };
+}
+
+/**
+ * Clear-sky plane-of-array energy per unit module area for fixed-tilt rows.
+ *
+ * Beam on the lower rows is reduced by the shadow of the row in front
+ * (infinite rows, shaded fraction of the slope length); diffuse light is
+ * isotropic and scaled by the sky view factor.
+ *
+ * @param pitchM - Row-to-row distance on the ground; omit for an unshaded array
+ * @returns Total energy and the beam lost to row shading (arbitrary units)
+ */
+function planeOfArrayEnergy(
+  sunPath: SunPath,
+  tiltDeg: number,
+  azimuthDeg: number,
+  slopeLengthM: number,
+  pitchM?: number
+): { energy: number; shaded: number } {
+  const tiltRad = toRadians(tiltDeg);
+  const azRad = toRadians(azimuthDeg);
+  const skyView = (1 + Math.cos(tiltRad)) / 2;
+  const diffuseRatio = (1 - BEAM_FRACTION) / BEAM_FRACTION;
+
+  let energy = 0;
+  let shaded = 0;
+
+  for (const sun of sunPath) {
+    const altRad = toRadians(sun.altitude);
+    const relative = Math.cos(toRadians(sun.azimuth) - azRad);
+    const cosIncidence =
+      Math.sin(altRad) * Math.cos(tiltRad) + Math.cos(altRad) * Math.sin(tiltRad) * relative;
+    const beam = sun.dni * Math.max(0, cosIncidence) * sun.hours;
+
+    // Shadow of the row in front, from the sun's profile angle across the rows
+    let shadedFraction = 0;
+    if (pitchM !== undefined && beam > 0 && relative > 0 && tiltDeg > 0) {
+      const profile = Math.atan(Math.tan(altRad) / relative);
+      shadedFraction =
+        1 - (pitchM * Math.sin(profile)) / (slopeLengthM * Math.sin(profile + tiltRad));
+      shadedFraction = Math.max(0, Math.min(1, shadedFraction));
+    }
+
+    const diffuse = sun.dni * Math.sin(altRad) * diffuseRatio * sun.hours;
+    energy += beam * (1 - shadedFraction) + diffuse * skyView;
+    shaded += beam * shadedFraction;
+  }
+
+  return { energy, shaded };
+}
+
+/**
+ * Levelized cost of energy for a candidate via SolarFinanceCalculator
+ */
+function calculateCandidateLCOE(
+  dcCapacityMw: number,
+  annualYieldMwh: number,
+  financial: FinancialInputs,
+  fixedCapex: number
+): number {
+  const capexPerMw = financial.capex_per_mw ?? DEFAULT_FINANCIAL_INPUTS.capex_per_mw!;
+  const calculator = new SolarFinanceCalculator({
+    ...financial,
+    capacity: dcCapacityMw,
+    p50_year_0_yield: annualYieldMwh,
+    capex_per_mw: capexPerMw + fixedCapex / dcCapacityMw,
+    capex_items: [],
+    opex_items: [],
+  });
+  return calculator.calcLCOE();
+}
+
+/**
+ * Mark and return the candidates not dominated on capacity, yield and LCOE.
+ *
+ * A candidate is dominated when another is at least as good on all three
+ * objectives and strictly better on one.
+ *
+ * @param candidates - Scored candidates (paretoOptimal is updated in place)
+ * @returns Pareto front sorted by DC capacity
+ */
+export function findParetoFront(candidates: LayoutCandidate[]): LayoutCandidate[] {
+  const dominates = (a: LayoutCandidate, b: LayoutCandidate) =>
+    a.dcCapacityKw >= b.dcCapacityKw &&
+    a.annualYieldMwh >= b.annualYieldMwh &&
+    a.lcoe <= b.lcoe &&
+    (a.dcCapacityKw > b.dcCapacityKw || a.annualYieldMwh > b.annualYieldMwh || a.lcoe < b.lcoe);
+
+  for (const candidate of candidates) {
+    candidate.paretoOptimal = !candidates.some((other) => dominates(other, candidate));
+  }
+
+  return candidates
+    .filter((c) => c.paretoOptimal)
+    .sort((a, b) => a.dcCapacityKw - b.dcCapacityKw);
+}
+
+/**
+ * Run the layout optimizer.
+ *
+ * @param input - Site, module, base parameters, search space and financial assumptions
+ * @param onProgress - Called after each candidate layout
+ * @returns Scored candidates and their Pareto front
+ */
+export function optimizeLayout(
+  input: LayoutOptimizerInput,
+  onProgress?: (evaluated: number, total: number) => void
+): LayoutOptimizerResult {
+  const { site, module, baseParameters } = input;
+
+  if (!site.centroid) {
+    throw new Error('Site must have a centroid for layout optimization');
+  }
+  if (isTrackerLayout(baseParameters)) {
+    throw new Error('Layout optimization is only available for fixed-tilt layouts');
+  }
+
+  const latitude = site.centroid.latitude;
+  const space = input.searchSpace ?? createDefaultSearchSpace(latitude);
+  const { grid, gridSize } = buildCandidateGrid(
+    space,
+    baseParameters,
+    Math.max(1, input.maxCandidates ?? DEFAULT_MAX_CANDIDATES)
+  );
+
+  const financial: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS, ...input.financial };
+  const fixedCapex = input.fixedCapex ?? 0;
+  const performanceRatio =
+    input.performanceRatio ?? calculatePerformanceRatio({ shadingLoss: 0 }).performanceRatio;
+
+  // Lookup yields assume an unshaded array at the optimal tilt
+  const sunPath = buildSunPath(latitude);
+  const reference = planeOfArrayEnergy(
+    sunPath,
+    getOptimalTilt(latitude),
+    getOptimalAzimuth(latitude),
+    1
+  ).energy;
+
+  const candidates: LayoutCandidate[] = [];
+
+  grid.forEach((parameters, i) => {
+    const layout = generatePanelLayout(site, module, parameters);
+    const { summary } = layout;
+
+    if (summary.totalFrames > 0 && reference > 0) {
+      const slopeLengthM =
+        (parameters.frameRows * module.widthMm) / 1000 +
+        (parameters.frameRows - 1) * parameters.moduleGapM;
+      const pitchM = slopeLengthM * Math.cos(toRadians(parameters.tiltAngle)) + parameters.frameGapY;
+      const poa = planeOfArrayEnergy(
+        sunPath,
+        parameters.tiltAngle,
+        parameters.azimuth,
+        slopeLengthM,
+        pitchM
+      );
+      const planeOfArrayFactor = poa.energy / reference;
+
+      const annualYieldMwh =
+        (estimateYieldFromLookup(latitude, summary.dcCapacityKw, performanceRatio).annualYield *
+          planeOfArrayFactor) /
+        1000;
+
+      candidates.push({
+        id: `candidate-${i}`,
+        parameters,
+        frameCount: summary.totalFrames,
+        panelCount: summary.totalPanels,
+        dcCapacityKw: summary.dcCapacityKw,
+        gcr: summary.actualGcr,
+        planeOfArrayFactor,
+        rowShadingLoss: poa.energy + poa.shaded > 0 ? (poa.shaded / (poa.energy + poa.shaded)) * 100 : 0,
+        annualYieldMwh,
+        specificYield: (annualYieldMwh * 1000) / summary.dcCapacityKw,
+        lcoe: calculateCandidateLCOE(summary.dcCapacityMw, annualYieldMwh, financial, fixedCapex),
+        paretoOptimal: false,
+      });
+    }
+
+    onProgress?.(i + 1, grid.length);
+  });
+
+  const paretoFront = findParetoFront(candidates);
+
+  return {
+    candidates,
+    paretoFront,
+    evaluated: grid.length,
+    gridSize,
+    calculatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Layout Optimizer Worker
+ *
+ * Runs optimizeLayout off the main thread and reports progress.
+ */
+
+import { serveWorkerTask } from '@/lib/workerTask';
+import { optimizeLayout } from './optimizer';
+
+serveWorkerTask(optimizeLayout, 'Layout optimization failed');
@@ -3,16 +3,24 @@
  */
 
 import type { GeneratedLayout } from '@/lib/types/layout';
-import type { DXFParsedData, PanelGeometry, BoundingBox } from '@/lib/dxf/types';
+import type { DXFParsedData, PanelGeometry, BoundingBox, LayerInfo } from '@/lib/dxf/types';
 import type { Site } from '@/lib/types/site';
+import type { ElectricalBlockPlanOptions } from '@/lib/electrical/types';
+import { planElectricalBlocks, GENERATED_ELECTRICAL_LAYERS } from '@/lib/electrical/blockPlanner';
 import { createLocalProjection } from './geometry';
 
+/** Height of the lower edge of generated frames above ground (meters) */
+export const GENERATED_MOUNTING_HEIGHT_M = 0.5;
+
 /**
- * Convert a generated layout to DXF parsed data format for 3D rendering
+ * Convert a generated layout to DXF parsed data format for 3D rendering.
+ * Strings, combiners, inverters, transformers and cables are planned
+ * automatically (see planElectricalBlocks).
  */
 export function generatedLayoutToParsedData(
   layout: GeneratedLayout,
-  site: Site
+  site: Site,
+  electricalOptions?: ElectricalBlockPlanOptions
 ): DXFParsedData {
   const panels: PanelGeometry[] = [];
 
@@ -31,13 +39,21 @@ export function generatedLayoutToParsedData(
   const moduleLengthM = layout.module.lengthMm / 1000;
   const moduleWidthM = layout.module.widthMm / 1000;
 
-  // Tilt angle
-  const tiltAngle = layout.parameters.tiltAngle;
+  // Tilt angle (trackers are exported in their flat stow position)
+  const tracker = layout.tracker;
+  const tiltAngle = tracker ? 0 : layout.parameters.tiltAngle;
+  const mountingHeight = tracker ? tracker.axisHeightM : GENERATED_MOUNTING_HEIGHT_M;
 
   // Track bounds
   let minX = Infinity, minY = Infinity;
   let maxX = -Infinity, maxY = -Infinity;
-  const minZ = 0, maxZ = 0;
+  let minZ = 0, maxZ = 0;
+
+  // Terrain-following frames sit at their ground elevation above the lowest frame
+  const frameElevations = (layout.frames ?? [])
+    .map((frame) => frame.groundElevationM)
+    .filter((z): z is number => z !== undefined);
+  const baseElevation = frameElevations.length > 0 ? Math.min(...frameElevations) : 0;
 
   let panelIndex = 0;
 
@@ -57,7 +73,7 @@ export function generatedLayoutToParsedData(
       // Create a panel geometry for this frame (represents the entire table)
       const x = centerLocal.x;
       const y = centerLocal.y;
-      const z = 0;
+      const z = frame.groundElevationM !== undefined ? frame.groundElevationM - baseElevation : 0;
 
       // Update bounds
       const halfWidth = frame.widthM / 2;
@@ -66,6 +82,8 @@ export function generatedLayoutToParsedData(
       if (x + halfWidth > maxX) maxX = x + halfWidth;
       if (y - halfHeight < minY) minY = y - halfHeight;
       if (y + halfHeight > maxY) maxY = y + halfHeight;
+      if (z < minZ) minZ = z;
+      if (z > maxZ) maxZ = z;
 
       panels.push({
         id: `gen-frame-${panelIndex}`,
@@ -79,9 +97,17 @@ export function generatedLayoutToParsedData(
         tableHeight: frame.heightM,
         moduleRows: frame.frameRows,
         moduleColumns: frame.frameColumns,
-        mountingHeight: 0.5, // Default mounting height
-        moduleWidth: moduleLengthM,
-        moduleHeight: moduleWidthM,
+        mountingHeight,
+        // Tracker modules are in portrait across the axis
+        moduleWidth: tracker ? moduleWidthM : moduleLengthM,
+        moduleHeight: tracker ? moduleLengthM : moduleWidthM,
+        tracker: tracker
+          ? {
+              maxRotationDeg: tracker.maxRotationDeg,
+              backtracking: tracker.backtracking,
+              gcr: tracker.gcr,
+            }
+          : undefined,
       });
 
       panelIndex++;
@@ -139,7 +165,7 @@ export function generatedLayoutToParsedData(
           tableHeight: moduleWidthM,
           moduleRows: 1,
           moduleColumns: 1,
-          mountingHeight: 0.5, // Default mounting height
+          mountingHeight: GENERATED_MOUNTING_HEIGHT_M,
           moduleWidth: moduleLengthM,
           moduleHeight: moduleWidthM,
         });
@@ -156,6 +182,17 @@ export function generatedLayoutToParsedData(
   maxX += padding;
   maxY += padding;
 
+  // Electrical equipment and cables
+  const { components: electrical } = planElectricalBlocks(layout, site, electricalOptions);
+  const electricalLayers: LayerInfo[] = Object.values(GENERATED_ELECTRICAL_LAYERS)
+    .map((name) => ({
+      name,
+      entityCount: electrical.filter((e) => e.layer === name).length,
+      classification: 'electrical' as const,
+      visible: true,
+    }))
+    .filter((layer) => layer.entityCount > 0);
+
   const bounds: BoundingBox = {
     min: [minX, minY, minZ],
     max: [maxX, maxY, maxZ],
@@ -166,7 +203,7 @@ export function generatedLayoutToParsedData(
   return {
     panels,
     mounting: [],
-    electrical: [],
+    electrical,
     boundaries: [],
     trees: [],
     bounds,
@@ -177,6 +214,7 @@ export function generatedLayoutToParsedData(
         classification: 'panels',
         visible: true,
       },
+      ...electricalLayers,
     ],
     units: 'meters',
     geoData: {
@@ -0,0 +1,111 @@
+/**
+ * Single-Axis Tracker Geometry
+ *
+ * Rotation angle of horizontal single-axis trackers following the sun,
+ * with rotation limits and backtracking, plus the row-to-row shading that
+ * remains when backtracking is disabled.
+ *
+ * Angle convention: 0° = modules horizontal, positive = modules facing west
+ * (afternoon), negative = facing east (morning).
+ */
+
+import type { LayoutParameters, TrackerConfig } from '@/lib/types/layout';
+import { toRadians } from '@/lib/yield/constants';
+
+/** Default height of the tracker rotation axis above ground (meters) */
+export const TRACKER_AXIS_HEIGHT_M = 1.5;
+
+/** Fallbacks for layouts whose parameters predate tracker support */
+export const DEFAULT_TRACKER_MAX_ROTATION_DEG = 60;
+export const DEFAULT_TRACKER_PITCH_M = 6;
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Whether layout parameters describe a single-axis tracker plant
+ */
+export function isTrackerLayout(parameters: LayoutParameters): boolean {
+  return parameters.mountType === 'single_axis_tracker';
+}
+
+/**
+ * Sun-facing (true-tracking) rotation for a horizontal axis.
+ *
+ * @param sunAzimuth - Solar azimuth in degrees (compass: 0 = N, 90 = E)
+ * @param sunAltitude - Solar altitude in degrees
+ * @param axisAzimuth - Compass direction of the rotation axis (0 = north-south)
+ * @returns Rotation in degrees that points the module normal at the sun
+ *          projected onto the plane perpendicular to the axis
+ */
+export function calculateTrueTrackingAngle(
+  sunAzimuth: number,
+  sunAltitude: number,
+  axisAzimuth: number = 0
+): number {
+  const altRad = toRadians(sunAltitude);
+  const relAzRad = toRadians(sunAzimuth - axisAzimuth);
+
+  // Sun component perpendicular to the axis, positive towards the west side
+  const across = -Math.cos(altRad) * Math.sin(relAzRad);
+  const up = Math.sin(altRad);
+
+  return toDegrees(Math.atan2(across, up));
+}
+
+/**
+ * Rotate back from the true-tracking angle so a row does not shade its
+ * neighbour (flat ground).
+ *
+ * @param trueAngle - True-tracking angle in degrees
+ * @param gcr - Ground coverage ratio (tracker width / pitch)
+ */
+export function applyBacktracking(trueAngle: number, gcr: number): number {
+  if (gcr <= 0) return trueAngle;
+
+  const ratio = Math.cos(toRadians(trueAngle)) / gcr;
+  if (ratio >= 1) return trueAngle;
+
+  const correction = -Math.sign(trueAngle) * toDegrees(Math.acos(Math.max(-1, ratio)));
+  return trueAngle + correction;
+}
+
+/**
+ * Tracker rotation for a sun position, honouring rotation limits and
+ * backtracking. Trackers stow flat when the sun is below the horizon.
+ *
+ * @returns Rotation in degrees (positive = facing west)
+ */
+export function calculateTrackerRotation(
+  sunAzimuth: number,
+  sunAltitude: number,
+  config: Pick<TrackerConfig, 'axisAzimuth' | 'maxRotationDeg' | 'backtracking' | 'gcr'>
+): number {
+  if (sunAltitude <= 0) return 0;
+
+  let angle = calculateTrueTrackingAngle(sunAzimuth, sunAltitude, config.axisAzimuth);
+  if (config.backtracking) {
+    angle = applyBacktracking(angle, config.gcr);
+  }
+
+  return Math.max(-config.maxRotationDeg, Math.min(config.maxRotationDeg, angle));
+}
+
+/**
+ * Fraction of a tracker row shaded by its neighbour (flat ground, infinite rows).
+ *
+ * @param trueAngle - Sun angle projected into the plane perpendicular to the axis (degrees)
+ * @param rotation - Actual tracker rotation (degrees)
+ * @param gcr - Ground coverage ratio (tracker width / pitch)
+ * @returns Shaded fraction of the tracker width (0-1)
+ */
+export function calculateRowShadingFraction(
+  trueAngle: number,
+  rotation: number,
+  gcr: number
+): number {
+  const projectedWidth = Math.cos(toRadians(trueAngle - rotation));
+  if (projectedWidth <= 0 || gcr <= 0) return 0;
+
+  const shaded = 1 - Math.cos(toRadians(trueAngle)) / (gcr * projectedWidth);
+  return Math.max(0, Math.min(1, shaded));
+}
@@ -9,13 +9,24 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import html2canvas from 'html2canvas';
 import type { ProjectResults, CostLineItem } from '@/lib/types/financial';
+import {
+  SENSITIVITY_INPUT_LABELS,
+  SENSITIVITY_METRICS,
+  formatSensitivityInput,
+  tornadoSwing,
+  type SensitivityMetric,
+  type SensitivityReport,
+} from '@/lib/calculator/sensitivity';
 import { formatCurrency, formatPercent, formatNumber, formatWithSuffix } from './formatter';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import { currencySymbol, reportingAmount } from '@/lib/currency/fx';
 
 export interface PDFExportOptions {
   includeRevenueChart?: boolean;
   includeCashFlowChart?: boolean;
   includeYearlyTable?: boolean;
   includeMonthlyView?: boolean;  // If true, uses monthly charts instead of yearly
+  sensitivity?: SensitivityReport; // Tornado + two-way tables (section omitted when absent)
 }
 
 // Colors for professional report styling
@@ -28,12 +39,25 @@ const COLORS = {
   WHITE: [255, 255, 255] as [number, number, number],
   STRIPED_ROW: [249, 250, 251] as [number, number, number],
   GREEN: [16, 185, 129] as [number, number, number],
+  TORNADO_LOW: [59, 130, 246] as [number, number, number],
+  TORNADO_HIGH: [245, 158, 11] as [number, number, number],
 };
 
+/**
+ * Format a sensitivity metric value (IRRs as %, LCOE per MWh, DSCR as x)
+ */
+function formatSensitivityMetric(value: number | null, metric: SensitivityMetric, currency: string): string {
+  if (value === null) return '—';
+  if (metric === 'lcoe') return `${formatNumber(value, 2)} ${currencySymbol(currency)}/MWh`;
+  if (metric === 'min_dscr') return formatWithSuffix(value, 2, 'x');
+  return formatPercent(value);
+}
+
 export class PDFReportGenerator {
   private doc!: jsPDF;
   private currentY: number = 20;
   private globalMargin: number = 0;
+  private currency: string = DEFAULT_CURRENCY;
   private readonly PAGE_HEIGHT = 297; // A4 height in mm
   private readonly MARGIN_BOTTOM = 20;
   private readonly MARGIN_TOP = 20;
@@ -134,6 +158,7 @@ export class PDFReportGenerator {
     });
     this.currentY = this.MARGIN_TOP;
     this.globalMargin = globalMargin;
+    this.currency = results.currency ?? DEFAULT_CURRENCY;
 
     // Page 1: Title + Project Summary + Key Metrics
     this.addTitle();
@@ -194,6 +219,25 @@ export class PDFReportGenerator {
     if (results.yearly_data && options.includeYearlyTable !== false) {
       this.startNewPage();
       this.addYearlyProjections(results.yearly_data);
+
+      if (results.yearly_data.interest_payment) {
+        this.startNewPage();
+        this.addDebtSchedule(results.yearly_data);
+      }
+
+      const yearly = results.yearly_data;
+      if ([...(yearly.depreciation ?? []), ...(yearly.tax_credits ?? [])].some((v) => v > 0.5)) {
+        this.startNewPage();
+        this.addTaxSchedule(yearly);
+      }
+    }
+
+    // Sensitivity analysis: tornado page, then the two-way tables
+    if (options.sensitivity) {
+      this.startNewPage();
+      this.addTornado(options.sensitivity.tornado);
+      this.startNewPage();
+      this.addTwoWayTables(options.sensitivity.twoWay);
     }
 
     // Assessment section on its own page
@@ -238,8 +282,8 @@ export class PDFReportGenerator {
       ['Capacity Factor', formatPercent(summary.capacity_factor)],
       ['P50 Year 0 Yield', `${formatNumber(summary.p50_year_0_yield_mwh, 0)} MWh`],
       ['Project Lifetime', `${summary.project_lifetime} years`],
-      ['Total CapEx', formatCurrency(summary.total_capex)],
-      ['CapEx per MW', formatCurrency(summary.capex_per_mw)]
+      ['Total CapEx', formatCurrency(summary.total_capex, this.currency)],
+      ['CapEx per MW', formatCurrency(summary.capex_per_mw, this.currency)]
     ];
 
     autoTable(this.doc, {
@@ -269,12 +313,13 @@ export class PDFReportGenerator {
 
     const data = [
       ['Project IRR', formatPercent(metrics.project_irr)],
-      ['Equity IRR', formatPercent(metrics.equity_irr)],
-      ['LCOE', `${formatNumber(metrics.lcoe, 2)} €/MWh`],
+      [metrics.tax_equity_irr !== undefined ? 'Sponsor Equity IRR' : 'Equity IRR', formatPercent(metrics.equity_irr)],
+      ...(metrics.tax_equity_irr !== undefined ? [['Tax Equity IRR', formatPercent(metrics.tax_equity_irr)]] : []),
+      ['LCOE', `${formatNumber(metrics.lcoe, 2)} ${currencySymbol(this.currency)}/MWh`],
       ['Minimum DSCR', formatWithSuffix(metrics.min_dscr, 2, 'x')],
       ['Average DSCR', formatWithSuffix(metrics.avg_dscr, 2, 'x')],
-      ['Project NPV', formatCurrency(metrics.project_npv)],
-      ['PPA Price', `${formatNumber(metrics.ppa_price, 2)} €/MWh`],
+      ['Project NPV', formatCurrency(metrics.project_npv, this.currency)],
+      ['PPA Price', `${formatNumber(metrics.ppa_price, 2)} ${currencySymbol(this.currency)}/MWh`],
       ['Equity Payback', metrics.equity_payback_years ? `${formatNumber(metrics.equity_payback_years, 1)} years` : '—'],
       ['Project Payback', metrics.project_payback_years ? `${formatNumber(metrics.project_payback_years, 1)} years` : '—']
     ];
@@ -305,17 +350,36 @@ export class PDFReportGenerator {
     this.addSectionHeader('Financing Structure');
 
     const data = [
-      ['Max Debt by DSCR', formatCurrency(financing.max_debt_by_dscr)],
-      ['Max Debt by Gearing', formatCurrency(financing.max_debt_by_gearing)],
-      ['Final Debt', formatCurrency(financing.final_debt)],
-      ['Equity', formatCurrency(financing.equity)],
+      ['Max Debt by DSCR', formatCurrency(financing.max_debt_by_dscr, this.currency)],
+      ['Max Debt by Gearing', formatCurrency(financing.max_debt_by_gearing, this.currency)],
+      ['Final Debt', formatCurrency(financing.final_debt, this.currency)],
+      ['Equity', formatCurrency(financing.equity, this.currency)],
       ['Actual Gearing', formatPercent(financing.actual_gearing)],
       ['Binding Constraint', financing.binding_constraint],
       ['Interest Rate', formatPercent(financing.interest_rate)],
       ['Debt Tenor', `${financing.debt_tenor} years`],
-      ['Annual Debt Service', formatCurrency(financing.annual_debt_service)]
+      ['Annual Debt Service', formatCurrency(financing.annual_debt_service, this.currency)]
     ];
 
+    // Debt terms (results calculated before debt schedules lack these)
+    if (financing.repayment_profile) {
+      data.push(
+        ['Repayment Profile', financing.repayment_profile === 'sculpted' ? 'Sculpted to target DSCR' : 'Annuity'],
+        ['Grace Period', `${financing.grace_period_years ?? 0} years`]
+      );
+    }
+    if (financing.total_funding !== undefined && financing.total_funding > 0) {
+      if (financing.construction_months) {
+        data.push(['Construction Period', `${financing.construction_months} months`]);
+      }
+      data.push(
+        ['Interest During Construction', formatCurrency(financing.idc ?? 0, this.currency)],
+        ['Financing Fees', formatCurrency(financing.financing_fees ?? 0, this.currency)],
+        ['Initial DSRA Balance', formatCurrency(financing.dsra_initial_balance ?? 0, this.currency)],
+        ['Total Funding Requirement', formatCurrency(financing.total_funding, this.currency)]
+      );
+    }
+
     autoTable(this.doc, {
       startY: this.currentY,
       head: [['Parameter', 'Value']],
@@ -343,10 +407,10 @@ export class PDFReportGenerator {
 
     const data = [
       ['Energy Production', `${formatNumber(firstYear.energy_production_mwh, 0)} MWh`],
-      ['Revenue', formatCurrency(firstYear.revenue)],
-      ['O&M Costs', formatCurrency(firstYear.om_costs)],
-      ['EBITDA', formatCurrency(firstYear.ebitda)],
-      ['CFADS', formatCurrency(firstYear.cfads)]
+      ['Revenue', formatCurrency(firstYear.revenue, this.currency)],
+      ['O&M Costs', formatCurrency(firstYear.om_costs, this.currency)],
+      ['EBITDA', formatCurrency(firstYear.ebitda, this.currency)],
+      ['CFADS', formatCurrency(firstYear.cfads, this.currency)]
     ];
 
     autoTable(this.doc, {
@@ -388,22 +452,24 @@ export class PDFReportGenerator {
       let totalWithMargin = 0;
 
       const capexData = capexItems.map((item: CostLineItem) => {
+        // Price and subtotal in the item's currency, total in the reporting currency
+        const itemCurrency = item.currency ?? this.currency;
         const subtotal = item.amount;
         const marginPercent = item.margin_percent ?? this.globalMargin;
-        const total = subtotal * (1 + marginPercent / 100);
+        const total = reportingAmount(item) * (1 + marginPercent / 100);
 
-        totalBeforeMargin += subtotal;
+        totalBeforeMargin += reportingAmount(item);
         totalWithMargin += total;
 
         if (item.unit_price && item.quantity) {
           return [
             item.name,
-            formatCurrency(item.unit_price),
+            formatCurrency(item.unit_price, itemCurrency),
             formatNumber(item.quantity, 0),
             item.unit || '—',
-            formatCurrency(subtotal),
+            formatCurrency(subtotal, itemCurrency),
             `${formatNumber(marginPercent, 1)}%`,
-            formatCurrency(total)
+            formatCurrency(total, this.currency)
           ];
         } else {
           return [
@@ -411,9 +477,9 @@ export class PDFReportGenerator {
             '—',
             '—',
             item.unit || '—',
-            formatCurrency(subtotal),
+            formatCurrency(subtotal, itemCurrency),
             `${formatNumber(marginPercent, 1)}%`,
-            formatCurrency(total)
+            formatCurrency(total, this.currency)
           ];
         }
       });
@@ -449,12 +515,12 @@ export class PDFReportGenerator {
       // Total CapEx (before and after margin)
       this.doc.setFontSize(10);
       this.doc.setFont('helvetica', 'normal');
-      this.doc.text(`Total CapEx (before margin): ${formatCurrency(totalBeforeMargin)}`, 14, this.currentY);
+      this.doc.text(`Total CapEx (before margin): ${formatCurrency(totalBeforeMargin, this.currency)}`, 14, this.currentY);
       this.currentY += 5;
 
       this.doc.setFont('helvetica', 'bold');
       this.doc.setTextColor(...COLORS.GREEN);
-      this.doc.text(`Total CapEx (with margin): ${formatCurrency(totalWithMargin)}`, 14, this.currentY);
+      this.doc.text(`Total CapEx (with margin): ${formatCurrency(totalWithMargin, this.currency)}`, 14, this.currentY);
       this.doc.setFont('helvetica', 'normal');
       this.doc.setTextColor(...COLORS.GRAY_DARK);
       this.currentY += 5;
@@ -479,7 +545,7 @@ export class PDFReportGenerator {
       const opexData = opexItems.map((item: CostLineItem) => [
         item.name,
         item.unit || '—',
-        formatCurrency(item.amount)
+        formatCurrency(item.amount, item.currency ?? this.currency)
       ]);
 
       autoTable(this.doc, {
@@ -508,7 +574,7 @@ export class PDFReportGenerator {
       // Total OpEx
       this.doc.setFontSize(11);
       this.doc.setFont('helvetica', 'bold');
-      this.doc.text(`Total OpEx (Year 1): ${formatCurrency(costBreakdown.total_opex_year_1)}`, 14, this.currentY);
+      this.doc.text(`Total OpEx (Year 1): ${formatCurrency(costBreakdown.total_opex_year_1, this.currency)}`, 14, this.currentY);
       this.doc.setFont('helvetica', 'normal');
     }
   }
@@ -517,19 +583,20 @@ export class PDFReportGenerator {
    * Section 7: Yearly Projections (10-column table)
    */
   private addYearlyProjections(yearlyData: NonNullable<ProjectResults['yearly_data']>): void {
+    const symbol = currencySymbol(this.currency);
     this.addSectionHeader('Yearly Financial Projections');
 
     const headers = [
       'Year',
       'Energy\n(MWh)',
-      'Revenue\n(€)',
-      'O&M\n(€)',
-      'EBITDA\n(€)',
-      'CFADS\n(€)',
-      'Debt Svc\n(€)',
+      `Revenue\n(${symbol})`,
+      `O&M\n(${symbol})`,
+      `EBITDA\n(${symbol})`,
+      `CFADS\n(${symbol})`,
+      `Debt Svc\n(${symbol})`,
       'DSCR',
-      'FCF to Eq\n(€)',
-      'Cumul FCF\n(€)'
+      `FCF to Eq\n(${symbol})`,
+      `Cumul FCF\n(${symbol})`
     ];
 
     const body = yearlyData.years.map((year: number, i: number) => [
@@ -579,7 +646,308 @@ export class PDFReportGenerator {
   }
 
   /**
-   * Section 8: Project Assessment
+   * Section 7b: Debt Schedule (tenor years only)
+   */
+  private addDebtSchedule(yearlyData: NonNullable<ProjectResults['yearly_data']>): void {
+    const symbol = currencySymbol(this.currency);
+    this.addSectionHeader('Debt Schedule');
+
+    const headers = [
+      'Year',
+      `Interest\n(${symbol})`,
+      `Principal\n(${symbol})`,
+      `Debt Svc\n(${symbol})`,
+      `Closing Bal.\n(${symbol})`,
+      'DSCR',
+      `DSRA Bal.\n(${symbol})`,
+      `DSRA +/-\n(${symbol})`
+    ];
+
+    const body = yearlyData.years
+      .map((year: number, i: number) => ({ year, i }))
+      .filter(({ i }) => yearlyData.debt_service[i] > 0 || Math.abs(yearlyData.dsra_movement?.[i] ?? 0) > 0.5)
+      .map(({ year, i }) => [
+        year.toString(),
+        formatNumber(yearlyData.interest_payment?.[i] ?? 0, 0),
+        formatNumber(yearlyData.principal_repayment?.[i] ?? 0, 0),
+        formatNumber(yearlyData.debt_service[i], 0),
+        formatNumber(yearlyData.debt_balance?.[i] ?? 0, 0),
+        yearlyData.dscr[i] !== null ? `${formatNumber(yearlyData.dscr[i]!, 2)}x` : '—',
+        formatNumber(yearlyData.dsra_balance?.[i] ?? 0, 0),
+        formatNumber(yearlyData.dsra_movement?.[i] ?? 0, 0)
+      ]);
+
+    autoTable(this.doc, {
+      startY: this.currentY,
+      head: [headers],
+      body: body,
+      theme: 'striped',
+      styles: {
+        fontSize: 8,
+        cellPadding: 2,
+        halign: 'right'
+      },
+      headStyles: {
+        fillColor: COLORS.SECONDARY_BLUE,
+        textColor: COLORS.WHITE,
+        fontStyle: 'bold',
+        halign: 'center'
+      },
+      columnStyles: {
+        0: { halign: 'center' }
+      },
+      alternateRowStyles: {
+        fillColor: COLORS.STRIPED_ROW
+      }
+    });
+  }
+
+  /**
+   * Section 7c: Tax Schedule (depreciation, taxable income, credits, losses carried
+   * forward and the partnership flip split when modelled)
+   */
+  private addTaxSchedule(yearlyData: NonNullable<ProjectResults['yearly_data']>): void {
+    const symbol = currencySymbol(this.currency);
+    this.addSectionHeader('Tax Schedule');
+
+    const hasFlip = yearlyData.tax_equity_cash_flow !== undefined;
+    const headers = [
+      'Year',
+      `Depreciation\n(${symbol})`,
+      `Taxable Inc.\n(${symbol})`,
+      `Tax Paid\n(${symbol})`,
+      `Credits\n(${symbol})`,
+      `NOL Bal.\n(${symbol})`,
+      ...(hasFlip ? [`Tax Equity\n(${symbol})`, `Sponsor\n(${symbol})`] : [])
+    ];
+
+    const body = yearlyData.years.map((year: number, i: number) => [
+      year.toString(),
+      formatNumber(yearlyData.depreciation?.[i] ?? 0, 0),
+      formatNumber(yearlyData.taxable_income?.[i] ?? 0, 0),
+      formatNumber(yearlyData.tax_paid?.[i] ?? 0, 0),
+      formatNumber(yearlyData.tax_credits?.[i] ?? 0, 0),
+      formatNumber(yearlyData.nol_balance?.[i] ?? 0, 0),
+      ...(hasFlip
+        ? [
+            formatNumber(yearlyData.tax_equity_cash_flow?.[i] ?? 0, 0),
+            formatNumber(yearlyData.sponsor_cash_flow?.[i] ?? 0, 0)
+          ]
+        : [])
+    ]);
+
+    autoTable(this.doc, {
+      startY: this.currentY,
+      head: [headers],
+      body: body,
+      theme: 'striped',
+      styles: {
+        fontSize: 8,
+        cellPadding: 2,
+        halign: 'right'
+      },
+      headStyles: {
+        fillColor: COLORS.SECONDARY_BLUE,
+        textColor: COLORS.WHITE,
+        fontStyle: 'bold',
+        halign: 'center'
+      },
+      columnStyles: {
+        0: { halign: 'center' }
+      },
+      alternateRowStyles: {
+        fillColor: COLORS.STRIPED_ROW
+      }
+    });
+  }
+
+  /**
+   * Section 8: Sensitivity Tornado (drawn natively, Project IRR swing per input)
+   */
+  private addTornado(tornado: SensitivityReport['tornado']): void {
+    const metric: SensitivityMetric = 'project_irr';
+    const variation = tornado.variationPercent;
+    this.addSectionHeader(`Sensitivity Analysis (±${variation}%)`);
+
+    const base = tornado.base[metric];
+    const bars = [...tornado.bars].sort((a, b) => tornadoSwing(b, metric) - tornadoSwing(a, metric));
+
+    this.doc.setFontSize(10);
+    this.doc.setTextColor(...COLORS.GRAY_DARK);
+    this.doc.text(`Project IRR change vs base case (${formatSensitivityMetric(base, metric, this.currency)})`, 14, this.currentY);
+    this.currentY += 8;
+
+    if (bars.length > 0 && base !== null) {
+      const labelWidth = 40;
+      const chartLeft = 14 + labelWidth;
+      const chartWidth = 182 - labelWidth;
+      const centerX = chartLeft + chartWidth / 2;
+      const rowHeight = 10;
+      const barHeight = 6;
+
+      const maxDelta = Math.max(
+        1e-9,
+        ...bars.flatMap((bar) =>
+          [bar.low[metric], bar.high[metric]].map((v) => (v === null ? 0 : Math.abs(v - base)))
+        )
+      );
+      const scale = (chartWidth / 2 - 18) / maxDelta;
+
+      const top = this.currentY;
+      bars.forEach((bar, i) => {
+        const y = top + i * rowHeight;
+        this.doc.setFontSize(9);
+        this.doc.setTextColor(...COLORS.GRAY_DARK);
+        this.doc.text(bar.label, 14, y + barHeight / 2 + 1.5);
+
+        [
+          { value: bar.low[metric], color: COLORS.TORNADO_LOW },
+          { value: bar.high[metric], color: COLORS.TORNADO_HIGH },
+        ].forEach(({ value, color }) => {
+          if (value === null) return;
+          const delta = value - base;
+          const width = Math.abs(delta) * scale;
+          const x = delta < 0 ? centerX - width : centerX;
+          this.doc.setFillColor(...color);
+          this.doc.rect(x, y, Math.max(width, 0.2), barHeight, 'F');
+
+          const text = `${delta >= 0 ? '+' : '-'}${formatNumber(Math.abs(delta) * 100, 2)} pp`;
+          this.doc.setFontSize(7);
+          if (delta < 0) {
+            this.doc.text(text, x - 1, y + barHeight / 2 + 1, { align: 'right' });
+          } else {
+            this.doc.text(text, x + width + 1, y + barHeight / 2 + 1);
+          }
+        });
+      });
+
+      // Base case axis
+      const bottom = top + bars.length * rowHeight;
+      this.doc.setDrawColor(...COLORS.GRAY_DARK);
+      this.doc.line(centerX, top - 2, centerX, bottom);
+
+      // Legend
+      this.doc.setFontSize(8);
+      this.doc.setFillColor(...COLORS.TORNADO_LOW);
+      this.doc.rect(chartLeft, bottom + 3, 4, 3, 'F');
+      this.doc.text(`-${variation}% input`, chartLeft + 6, bottom + 5.5);
+      this.doc.setFillColor(...COLORS.TORNADO_HIGH);
+      this.doc.rect(chartLeft + 40, bottom + 3, 4, 3, 'F');
+      this.doc.text(`+${variation}% input`, chartLeft + 46, bottom + 5.5);
+
+      this.currentY = bottom + 14;
+    }
+
+    const body = tornado.bars.map((bar) => [
+      bar.label,
+      `${formatSensitivityInput(bar.key, bar.lowInput)} / ${formatSensitivityInput(bar.key, bar.highInput)}`,
+      ...SENSITIVITY_METRICS.map(
+        (m) => `${formatSensitivityMetric(bar.low[m.key], m.key, this.currency)} / ${formatSensitivityMetric(bar.high[m.key], m.key, this.currency)}`
+      ),
+    ]);
+
+    autoTable(this.doc, {
+      startY: this.currentY,
+      head: [[
+        'Input',
+        `-${variation}% / +${variation}%`,
+        ...SENSITIVITY_METRICS.map((m) => m.label),
+      ]],
+      body: [
+        [
+          'Base Case',
+          '—',
+          ...SENSITIVITY_METRICS.map((m) => formatSensitivityMetric(tornado.base[m.key], m.key, this.currency)),
+        ],
+        ...body,
+      ],
+      theme: 'grid',
+      styles: {
+        fontSize: 8,
+        cellPadding: 2
+      },
+      headStyles: {
+        fillColor: COLORS.SECONDARY_BLUE,
+        textColor: COLORS.WHITE,
+        fontStyle: 'bold'
+      },
+      didParseCell: (data) => {
+        if (data.section === 'body' && data.row.index === 0) {
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+
+    this.currentY = (this.doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  /**
+   * Section 9: Two-Way Sensitivity Tables (one per metric)
+   */
+  private addTwoWayTables(twoWay: SensitivityReport['twoWay']): void {
+    const rowLabel = SENSITIVITY_INPUT_LABELS[twoWay.rowKey];
+    const colLabel = SENSITIVITY_INPUT_LABELS[twoWay.colKey];
+    this.addSectionHeader(`Two-Way Sensitivity: ${rowLabel} vs ${colLabel}`);
+
+    const stepLabel = (step: number) => (step === 0 ? 'Base' : `${step > 0 ? '+' : ''}${step}%`);
+    const baseIndex = twoWay.stepsPercent.indexOf(0);
+
+    SENSITIVITY_METRICS.forEach((metric) => {
+      this.ensureSpace(20 + twoWay.cells.length * 8);
+
+      this.doc.setFontSize(11);
+      this.doc.setTextColor(...COLORS.GRAY_DARK);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.text(metric.label, 14, this.currentY);
+      this.doc.setFont('helvetica', 'normal');
+      this.currentY += 3;
+
+      autoTable(this.doc, {
+        startY: this.currentY,
+        head: [[
+          `${rowLabel} (rows) / ${colLabel} (cols)`,
+          ...twoWay.stepsPercent.map(
+            (step, i) => `${stepLabel(step)}\n${formatSensitivityInput(twoWay.colKey, twoWay.colInputs[i])}`
+          ),
+        ]],
+        body: twoWay.cells.map((row, i) => [
+          `${stepLabel(twoWay.stepsPercent[i])}\n${formatSensitivityInput(twoWay.rowKey, twoWay.rowInputs[i])}`,
+          ...row.map((cell) => formatSensitivityMetric(cell[metric.key], metric.key, this.currency)),
+        ]),
+        theme: 'grid',
+        styles: {
+          fontSize: 8,
+          cellPadding: 2,
+          halign: 'right'
+        },
+        headStyles: {
+          fillColor: COLORS.GRAY_LIGHT,
+          textColor: COLORS.GRAY_DARK,
+          fontStyle: 'bold'
+        },
+        columnStyles: {
+          0: { halign: 'left', fontStyle: 'bold' }
+        },
+        didParseCell: (data) => {
+          // Highlight the base case cell
+          if (
+            data.section === 'body' &&
+            baseIndex >= 0 &&
+            data.row.index === baseIndex &&
+            data.column.index === baseIndex + 1
+          ) {
+            data.cell.styles.fillColor = COLORS.GRAY_LIGHT;
+            data.cell.styles.fontStyle = 'bold';
+          }
+        }
+      });
+
+      this.currentY = (this.doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+    });
+  }
+
+  /**
+   * Section 10: Project Assessment
    */
   private addAssessment(assessment: ProjectResults['assessment']): void {
     this.addSectionHeader('Project Assessment');
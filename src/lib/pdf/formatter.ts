@@ -4,11 +4,14 @@
  * Currency, percentage, and number formatting for PDF reports
  */
 
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import { currencySymbol } from '@/lib/currency/fx';
+
 /**
- * Format number as currency (€)
+ * Format number as currency (€ unless another currency is given)
  */
-export function formatCurrency(value: number): string {
-  return `€${formatNumber(value, 0)}`;
+export function formatCurrency(value: number, currency: string = DEFAULT_CURRENCY): string {
+  return `${currencySymbol(currency)}${formatNumber(value, 0)}`;
 }
 
 /**
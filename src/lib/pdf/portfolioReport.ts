@@ -0,0 +1,205 @@
+/**
+ * Portfolio Report PDF Generator
+ *
+ * Summary of the portfolio roll-up: headline metrics, capacity by stage,
+ * per-project metrics and the aggregated yearly cash flows
+ */
+
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { PortfolioSummary } from '@/lib/calculator/portfolio';
+import { PRIORITY_LABELS } from '@/lib/constants';
+import { currencySymbol } from '@/lib/currency/fx';
+import { formatCurrency, formatNumber, formatPercent } from './formatter';
+
+const PRIMARY_BLUE: [number, number, number] = [29, 78, 216];
+const SECONDARY_BLUE: [number, number, number] = [37, 99, 235];
+
+type AutoTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+function sectionHeader(doc: jsPDF, title: string, y: number): number {
+  doc.setFontSize(14);
+  doc.setTextColor(...PRIMARY_BLUE);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, 14, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(0, 0, 0);
+  return y + 6;
+}
+
+const optionalPercent = (value: number | null) => (value === null ? '—' : formatPercent(value));
+
+export async function downloadPortfolioReport(
+  summary: PortfolioSummary,
+  filterSummary: string,
+  ownerName: (ownerId: string) => string = (ownerId) => ownerId,
+  filename?: string
+): Promise<void> {
+  const doc = new jsPDF({
+    orientation: 'landscape',
+    unit: 'mm',
+    format: 'a4',
+  });
+  const currency = summary.currency;
+  const symbol = currencySymbol(currency);
+
+  // Title
+  doc.setFontSize(18);
+  doc.text('Portfolio Summary', 14, 20);
+
+  // Metadata
+  doc.setFontSize(10);
+  doc.text(`Generated: ${new Date().toLocaleString()}`, 14, 28);
+  doc.text(`Filters: ${filterSummary}`, 14, 34);
+  doc.text(
+    `Currency: ${currency}${summary.missingRates.length > 0 ? ` (no FX rate for ${summary.missingRates.join(', ')}; converted 1:1)` : ''}`,
+    14,
+    40
+  );
+
+  // Headline metrics
+  let y = sectionHeader(doc, 'Key Metrics', 50);
+  autoTable(doc, {
+    startY: y,
+    head: [['Projects', 'Capacity', 'Total CAPEX', 'Project IRR*', 'Equity IRR*', 'LCOE*']],
+    body: [
+      [
+        `${summary.projectCount} (${summary.calculatedCount} calculated)`,
+        `${formatNumber(summary.totalCapacityMw, 1)} MW`,
+        formatCurrency(summary.totalCapex, currency),
+        optionalPercent(summary.weightedProjectIrr),
+        optionalPercent(summary.weightedEquityIrr),
+        summary.weightedLcoe === null ? '—' : `${formatNumber(summary.weightedLcoe, 2)} ${symbol}/MWh`,
+      ],
+    ],
+    theme: 'grid',
+    styles: { fontSize: 10, cellPadding: 3 },
+    headStyles: { fillColor: SECONDARY_BLUE },
+  });
+  y = (doc as AutoTableDoc).lastAutoTable.finalY + 4;
+  doc.setFontSize(8);
+  doc.setTextColor(128, 128, 128);
+  doc.text('* Capacity-weighted over calculated models', 14, y);
+
+  // Capacity by stage
+  y = sectionHeader(doc, 'Capacity by Stage', y + 10);
+  autoTable(doc, {
+    startY: y,
+    head: [['Stage', 'Projects', 'Capacity (MW)', `CAPEX (${symbol})`]],
+    body: summary.stages
+      .filter((stage) => stage.projectCount > 0)
+      .map((stage) => [
+        stage.stageName,
+        stage.projectCount.toString(),
+        formatNumber(stage.capacityMw, 1),
+        formatNumber(stage.totalCapex, 0),
+      ]),
+    theme: 'striped',
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: SECONDARY_BLUE },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } },
+  });
+
+  // Projects
+  doc.addPage();
+  y = sectionHeader(doc, 'Projects', 20);
+  autoTable(doc, {
+    startY: y,
+    head: [[
+      'Project',
+      'Stage',
+      'Owner',
+      'Priority',
+      'MW',
+      `CAPEX (${symbol})`,
+      'Project IRR',
+      'Equity IRR',
+      `LCOE (${symbol}/MWh)`,
+      `NPV (${symbol})`,
+    ]],
+    body: summary.projects.map((p) => [
+      p.projectName,
+      p.stageName,
+      ownerName(p.owner),
+      PRIORITY_LABELS[p.priority] ?? '',
+      formatNumber(p.capacityMw, 1),
+      formatNumber(p.totalCapex, 0),
+      optionalPercent(p.projectIrr),
+      optionalPercent(p.equityIrr),
+      p.lcoe === null ? '—' : formatNumber(p.lcoe, 2),
+      p.projectNpv === null ? '—' : formatNumber(p.projectNpv, 0),
+    ]),
+    theme: 'striped',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: SECONDARY_BLUE },
+    columnStyles: {
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+      8: { halign: 'right' },
+      9: { halign: 'right' },
+    },
+  });
+
+  // Aggregated cash flows
+  if (summary.years.length > 0) {
+    doc.addPage();
+    y = sectionHeader(doc, 'Aggregated Yearly Cash Flows (by operating year)', 20);
+    autoTable(doc, {
+      startY: y,
+      head: [[
+        'Year',
+        'Energy (MWh)',
+        `Revenue (${symbol})`,
+        `O&M (${symbol})`,
+        `EBITDA (${symbol})`,
+        `CFADS (${symbol})`,
+        `Debt Svc (${symbol})`,
+        `FCF to Eq (${symbol})`,
+        `Cumul FCF (${symbol})`,
+      ]],
+      body: summary.years.map((row) => [
+        row.year.toString(),
+        formatNumber(row.energy_mwh, 0),
+        formatNumber(row.revenue, 0),
+        formatNumber(row.om_costs, 0),
+        formatNumber(row.ebitda, 0),
+        formatNumber(row.cfads, 0),
+        formatNumber(row.debt_service, 0),
+        formatNumber(row.fcf_to_equity, 0),
+        formatNumber(row.cumulative_fcf_to_equity, 0),
+      ]),
+      theme: 'striped',
+      styles: { fontSize: 8, halign: 'right' },
+      headStyles: { fillColor: SECONDARY_BLUE, halign: 'center' },
+      columnStyles: { 0: { halign: 'center' } },
+    });
+  }
+
+  // Footer with page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(128, 128, 128);
+    doc.text(
+      `Page ${page} of ${pageCount}`,
+      doc.internal.pageSize.getWidth() / 2,
+      doc.internal.pageSize.getHeight() - 10,
+      { align: 'center' }
+    );
+  }
+
+  // Download
+  const blob = doc.output('blob');
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download =
+    filename || `Portfolio_Summary_${new Date().toISOString().slice(0, 10)}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
@@ -0,0 +1,25 @@
+import type { Filters, Project } from './types';
+
+/**
+ * Whether a project passes the project filters (stage, priority, owner, search)
+ * shared by the list, board, timeline and portfolio views
+ */
+export function matchesProjectFilters(project: Project, filters: Filters): boolean {
+  if (filters.stages.length > 0 && !filters.stages.includes(project.currentStageId)) {
+    return false;
+  }
+  if (filters.priorities.length > 0 && !filters.priorities.includes(project.priority)) {
+    return false;
+  }
+  if (filters.owners.length > 0 && !filters.owners.includes(project.owner)) {
+    return false;
+  }
+  if (filters.search) {
+    const searchLower = filters.search.toLowerCase();
+    return (
+      project.name.toLowerCase().includes(searchLower) ||
+      project.location.toLowerCase().includes(searchLower)
+    );
+  }
+  return true;
+}
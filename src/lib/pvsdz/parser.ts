@@ -1,7 +1,12 @@
-import type { KMLParseResult, SiteImportMetadata } from '@/lib/types/site';
+import type { KMLParseResult, SiteImportMetadata, SiteTerrainGrid } from '@/lib/types/site';
 import { parseKMLFile } from '@/lib/kml/parser';
 import { parseGeoTIFFMeta, utmZoneFromEPSG, sampleElevation } from './geotiff';
 import { latLngToUTM } from './utm';
+import { createLocalProjection, getBoundingBox } from '@/lib/layout/geometry';
+import { buildTerrainGrid } from '@/lib/terrain/terrainAnalysis';
+
+/** Margin around the boundaries covered by the stored terrain grid (m) */
+const TERRAIN_GRID_PADDING_M = 30;
 
 /**
  * Metadata from a PVSDZ export's metadata.json
@@ -86,6 +91,8 @@ export async function parsePVSDZFile(file: File): Promise<PVSDZParseResult> {
     }
   }
 
+  let terrain: SiteTerrainGrid | undefined;
+
   if (tifBuffer) {
     try {
       const meta = parseGeoTIFFMeta(tifBuffer);
@@ -121,6 +128,36 @@ export async function parsePVSDZFile(file: File): Promise<PVSDZParseResult> {
           sampled,
           missed,
         });
+
+        // Keep a resampled DEM grid around the boundaries for terrain analysis
+        if (kmlResult.centroid) {
+          const buffer = tifBuffer;
+          const projection = createLocalProjection({
+            lat: kmlResult.centroid.latitude,
+            lng: kmlResult.centroid.longitude,
+          });
+          const localBoundary = kmlResult.boundaries.flatMap(b =>
+            b.coordinates.map(c => projection.toLocal({ lat: c.lat, lng: c.lng }))
+          );
+
+          if (localBoundary.length > 0) {
+            const bbox = getBoundingBox(localBoundary);
+            terrain = buildTerrainGrid(
+              {
+                minX: bbox.minX - TERRAIN_GRID_PADDING_M,
+                minY: bbox.minY - TERRAIN_GRID_PADDING_M,
+                maxX: bbox.maxX + TERRAIN_GRID_PADDING_M,
+                maxY: bbox.maxY + TERRAIN_GRID_PADDING_M,
+              },
+              Math.max(Math.abs(meta.pixelScaleX), Math.abs(meta.pixelScaleY)),
+              (point) => {
+                const { lat, lng } = projection.toGlobal(point);
+                const utm = latLngToUTM(lat, lng, utmInfo.zone);
+                return sampleElevation(utm.easting, utm.northing, meta, buffer);
+              }
+            );
+          }
+        }
       } else {
         console.warn(
           '[PVSDZ Parser] Unrecognised CRS in GeoTIFF (EPSG:' + meta.epsgCode + '), using KML elevations',
@@ -143,6 +180,7 @@ export async function parsePVSDZFile(file: File): Promise<PVSDZParseResult> {
 
   return {
     ...kmlResult,
+    terrain,
     pvsdzMetadata,
     importMetadata,
   };
@@ -0,0 +1,70 @@
+/**
+ * Feature Buffers
+ *
+ * Exclusion zones generated from line and point features (overhead lines,
+ * roads, pipelines, wells) with a regulatory buffer. The buffer polygon is
+ * stored as the zone's coordinates so area calculations, the map and the
+ * layout generator treat it like any drawn zone.
+ */
+
+import * as turf from '@turf/turf';
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import type { SiteCoordinate, ExclusionZoneFeature } from '@/lib/types/site';
+import { closeRing, openRing } from './polygonEditing';
+
+/** Buffer used when a feature does not specify one (m) */
+export const DEFAULT_FEATURE_BUFFER_M: Record<ExclusionZoneFeature['geometry'], number> = {
+  line: 15,
+  point: 10,
+};
+
+const FEET_TO_METERS = 0.3048;
+
+/**
+ * Buffer polygon around a line or point
+ *
+ * @returns Closed ring of the buffer, or null for an empty feature or buffer
+ */
+export function bufferFeature(feature: ExclusionZoneFeature): SiteCoordinate[] | null {
+  if (feature.bufferM <= 0) return null;
+
+  const coords = feature.coordinates.map((c) => [c.lng, c.lat]);
+  let geometry;
+  if (feature.geometry === 'point') {
+    if (coords.length === 0) return null;
+    geometry = turf.point(coords[0]);
+  } else {
+    if (coords.length < 2) return null;
+    geometry = turf.lineString(coords);
+  }
+
+  const buffered = turf.buffer(geometry, feature.bufferM, { units: 'meters' }) as
+    | Feature<Polygon | MultiPolygon>
+    | undefined;
+  if (!buffered) return null;
+
+  // Holes (a looped line) are dropped and split pieces fall back to their
+  // convex hull: both over-exclude rather than let frames in
+  const outer =
+    buffered.geometry.type === 'Polygon'
+      ? buffered.geometry.coordinates[0]
+      : (turf.convex(buffered)?.geometry.coordinates[0] ?? []);
+  if (outer.length < 4) return null;
+
+  return closeRing(openRing(outer.map(([lng, lat]) => ({ lat, lng }))));
+}
+
+/**
+ * Read a buffer distance from text such as "30 m", "30m buffer" or "100 ft".
+ * Bare numbers are taken as meters when `allowUnitless` is set (attribute
+ * values); free text needs a unit.
+ */
+export function parseBufferDistance(text: string, allowUnitless = false): number | null {
+  for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*(m|meters?|metres?|ft|feet|foot)?\b/gi)) {
+    const value = parseFloat(match[1]);
+    const unit = match[2]?.toLowerCase();
+    if ((!unit && !allowUnitless) || value <= 0) continue;
+    return unit?.startsWith('f') ? value * FEET_TO_METERS : value;
+  }
+  return null;
+}
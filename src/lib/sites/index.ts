@@ -0,0 +1,42 @@
+/**
+ * Sites Module
+ *
+ * Site area calculations, the polygon operations behind the site map
+ * editor, and buffered exclusion zones from line and point features.
+ *
+ * Usage:
+ * ```typescript
+ * import { computeSiteAreas, offsetRing, closeRing } from '@/lib/sites';
+ *
+ * const shrunk = offsetRing(ring, -10);
+ * const { usableArea, usableAreaPercent } = computeSiteAreas(boundaries, zones);
+ * ```
+ */
+
+export type { SiteAreas } from './siteAreas';
+
+export {
+  calculateUsableArea,
+  getUsableAreaPercent,
+  computeSiteAreas,
+  closeSitePolygons,
+} from './siteAreas';
+
+export {
+  openRing,
+  closeRing,
+  ringArea,
+  moveVertex,
+  insertVertex,
+  deleteVertex,
+  edgeMidpoints,
+  offsetRing,
+  splitRing,
+  mergeRings,
+} from './polygonEditing';
+
+export {
+  DEFAULT_FEATURE_BUFFER_M,
+  bufferFeature,
+  parseBufferDistance,
+} from './featureBuffer';
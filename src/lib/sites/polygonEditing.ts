@@ -0,0 +1,176 @@
+/**
+ * Polygon Editing
+ *
+ * Pure operations on site polygons for the map editor: vertex edits, setback
+ * offsets, splitting along a line and merging. Rings are open (the first
+ * vertex is not repeated at the end); use closeRing before storing them on
+ * a site.
+ */
+
+import * as turf from '@turf/turf';
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import type { SiteCoordinate } from '@/lib/types/site';
+import { createLocalProjection } from '@/lib/layout/geometry';
+
+/** Pieces smaller than this are dropped after split/offset (m²) */
+const MIN_PIECE_AREA_SQM = 1;
+
+/**
+ * Drop the repeated closing vertex, if any
+ */
+export function openRing(coordinates: SiteCoordinate[]): SiteCoordinate[] {
+  if (coordinates.length < 2) return coordinates.slice();
+  const first = coordinates[0];
+  const last = coordinates[coordinates.length - 1];
+  return first.lat === last.lat && first.lng === last.lng
+    ? coordinates.slice(0, -1)
+    : coordinates.slice();
+}
+
+/**
+ * Repeat the first vertex at the end (the form KML imports use)
+ */
+export function closeRing(coordinates: SiteCoordinate[]): SiteCoordinate[] {
+  const ring = openRing(coordinates);
+  return ring.length > 0 ? [...ring, { ...ring[0] }] : ring;
+}
+
+/**
+ * Area of a ring in square meters
+ */
+export function ringArea(coordinates: SiteCoordinate[]): number {
+  const ring = openRing(coordinates);
+  if (ring.length < 3) return 0;
+  return turf.area(toPolygon(ring));
+}
+
+/**
+ * Move one vertex
+ */
+export function moveVertex(
+  ring: SiteCoordinate[],
+  index: number,
+  position: { lat: number; lng: number }
+): SiteCoordinate[] {
+  return ring.map((c, i) => (i === index ? { lat: position.lat, lng: position.lng } : c));
+}
+
+/**
+ * Insert a vertex before the given index (index = ring.length appends)
+ */
+export function insertVertex(
+  ring: SiteCoordinate[],
+  index: number,
+  position: { lat: number; lng: number }
+): SiteCoordinate[] {
+  return [...ring.slice(0, index), { lat: position.lat, lng: position.lng }, ...ring.slice(index)];
+}
+
+/**
+ * Delete a vertex; polygons keep at least three vertices
+ */
+export function deleteVertex(ring: SiteCoordinate[], index: number): SiteCoordinate[] {
+  if (ring.length <= 3) return ring;
+  return ring.filter((_, i) => i !== index);
+}
+
+/**
+ * Midpoint of each edge (edge i runs from vertex i to vertex i + 1)
+ */
+export function edgeMidpoints(ring: SiteCoordinate[]): Array<{ lat: number; lng: number }> {
+  return ring.map((c, i) => {
+    const next = ring[(i + 1) % ring.length];
+    return { lat: (c.lat + next.lat) / 2, lng: (c.lng + next.lng) / 2 };
+  });
+}
+
+function toPolygon(ring: SiteCoordinate[]): Feature<Polygon> {
+  const coords = ring.map((c) => [c.lng, c.lat]);
+  return turf.polygon([[...coords, coords[0]]]);
+}
+
+/**
+ * Outer rings of a (multi)polygon, largest first, without slivers
+ */
+function outerRings(feature: Feature<Polygon | MultiPolygon> | null | undefined): SiteCoordinate[][] {
+  if (!feature) return [];
+  const polygons =
+    feature.geometry.type === 'Polygon'
+      ? [feature.geometry.coordinates]
+      : feature.geometry.coordinates;
+
+  return polygons
+    .map((poly) => turf.polygon(poly))
+    .map((poly) => ({ poly, area: turf.area(poly) }))
+    .filter(({ area }) => area >= MIN_PIECE_AREA_SQM)
+    .sort((a, b) => b.area - a.area)
+    .map(({ poly }) =>
+      openRing(poly.geometry.coordinates[0].map(([lng, lat]) => ({ lat, lng })))
+    );
+}
+
+/**
+ * Offset a polygon outward (positive) or inward (negative) by a distance
+ *
+ * @param distanceM - Setback distance in meters; negative shrinks the polygon
+ * @returns The offset ring (largest piece if it splits), or null if it vanishes
+ */
+export function offsetRing(ring: SiteCoordinate[], distanceM: number): SiteCoordinate[] | null {
+  if (ring.length < 3) return null;
+  if (distanceM === 0) return ring;
+  const buffered = turf.buffer(toPolygon(ring), distanceM, { units: 'meters' });
+  return outerRings(buffered as Feature<Polygon | MultiPolygon> | undefined)[0] ?? null;
+}
+
+/**
+ * Split a polygon along the infinite line through two points
+ *
+ * @returns The pieces (two or more), or an empty array if the line misses
+ */
+export function splitRing(
+  ring: SiteCoordinate[],
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+): SiteCoordinate[][] {
+  if (ring.length < 3) return [];
+
+  const projection = createLocalProjection(from);
+  const end = projection.toLocal(to);
+  const length = Math.hypot(end.x, end.y);
+  if (length < 1e-6) return [];
+
+  // Half-planes either side of the line, large enough to cover the polygon
+  const local = ring.map((c) => projection.toLocal(c));
+  const reach = 2 * Math.max(...local.map((p) => Math.hypot(p.x, p.y)), length) + 1;
+  const dir = { x: end.x / length, y: end.y / length };
+  const normal = { x: -dir.y, y: dir.x };
+  const halfPlane = (side: 1 | -1) => {
+    const corners = [
+      { x: -dir.x * reach, y: -dir.y * reach },
+      { x: dir.x * reach, y: dir.y * reach },
+      { x: dir.x * reach + normal.x * reach * side, y: dir.y * reach + normal.y * reach * side },
+      { x: -dir.x * reach + normal.x * reach * side, y: -dir.y * reach + normal.y * reach * side },
+    ].map((p) => projection.toGlobal(p));
+    return toPolygon(corners);
+  };
+
+  const polygon = toPolygon(ring);
+  const pieces = [1, -1].flatMap((side) =>
+    outerRings(turf.intersect(turf.featureCollection([polygon, halfPlane(side as 1 | -1)])))
+  );
+  return pieces.length >= 2 ? pieces : [];
+}
+
+/**
+ * Merge overlapping or touching polygons into one
+ *
+ * @returns The merged ring, or null if the polygons do not form one piece
+ */
+export function mergeRings(rings: SiteCoordinate[][]): SiteCoordinate[] | null {
+  const polygons = rings.filter((r) => r.length >= 3).map(toPolygon);
+  if (polygons.length < 2) return null;
+
+  const merged = turf.union(turf.featureCollection(polygons));
+  if (!merged || merged.geometry.type !== 'Polygon') return null;
+  return outerRings(merged)[0] ?? null;
+}
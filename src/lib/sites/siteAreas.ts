@@ -0,0 +1,147 @@
+/**
+ * Site Areas
+ *
+ * Total and usable area of a site's boundaries and exclusion zones, plus the
+ * scorecard's usable-area percentage. Cheap enough to run live while
+ * polygons are edited.
+ */
+
+import * as turf from '@turf/turf';
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import type { SiteBoundary, SiteExclusionZone, SiteCoordinate } from '@/lib/types/site';
+import { closeRing, ringArea } from './polygonEditing';
+
+export interface SiteAreas {
+  totalArea: number;                // Sum of boundary areas (m²)
+  usableArea: number;               // Total minus exclusions clipped to the boundaries (m²)
+  usableAreaPercent: number;        // Rounded, as on the scorecard
+}
+
+/**
+ * Closed GeoJSON ring ([lng, lat]) from site coordinates
+ */
+function toClosedRing(coordinates: SiteCoordinate[]): number[][] {
+  const coords = coordinates.map((c) => [c.lng, c.lat]);
+  if (
+    coords[0][0] !== coords[coords.length - 1][0] ||
+    coords[0][1] !== coords[coords.length - 1][1]
+  ) {
+    coords.push(coords[0]);
+  }
+  return coords;
+}
+
+/**
+ * Calculate usable area by clipping exclusion zones to boundary
+ * and subtracting only the overlapping portions
+ */
+export function calculateUsableArea(
+  boundaries: SiteBoundary[],
+  exclusionZones: SiteExclusionZone[],
+  totalArea: number
+): number {
+  if (boundaries.length === 0 || exclusionZones.length === 0) {
+    return totalArea;
+  }
+
+  try {
+    // Create boundary polygon(s)
+    const boundaryPolygons = boundaries
+      .filter((b) => b.coordinates.length >= 4)
+      .map((b) => turf.polygon([toClosedRing(b.coordinates)]));
+
+    if (boundaryPolygons.length === 0) {
+      return totalArea;
+    }
+
+    // Union all boundaries into one (may result in Polygon or MultiPolygon)
+    let boundaryUnion: Feature<Polygon | MultiPolygon> = boundaryPolygons[0];
+    for (let i = 1; i < boundaryPolygons.length; i++) {
+      const result = turf.union(turf.featureCollection([boundaryUnion, boundaryPolygons[i]]));
+      if (result) boundaryUnion = result;
+    }
+
+    // Build exclusion polygons and union them (to handle overlaps)
+    const exclusionPolygons: Feature<Polygon>[] = [];
+    for (const ez of exclusionZones) {
+      if (ez.coordinates.length < 4) continue;
+      try {
+        exclusionPolygons.push(turf.polygon([toClosedRing(ez.coordinates)]));
+      } catch {
+        // Skip invalid polygons
+      }
+    }
+
+    if (exclusionPolygons.length === 0) {
+      return totalArea;
+    }
+
+    let exclusionUnion: Feature<Polygon | MultiPolygon> = exclusionPolygons[0];
+    for (let i = 1; i < exclusionPolygons.length; i++) {
+      try {
+        const result = turf.union(turf.featureCollection([exclusionUnion, exclusionPolygons[i]]));
+        if (result) exclusionUnion = result;
+      } catch {
+        // Skip if union fails
+      }
+    }
+
+    // Clip the merged exclusion to the boundary
+    const clippedExclusion = turf.intersect(turf.featureCollection([boundaryUnion, exclusionUnion]));
+    const clippedExclusionArea = clippedExclusion ? turf.area(clippedExclusion) : 0;
+
+    return Math.max(0, totalArea - clippedExclusionArea);
+  } catch (error) {
+    console.error('[calculateUsableArea] Error:', error);
+    // Fallback to simple calculation
+    const exclusionArea = exclusionZones.reduce((sum, ez) => sum + (ez.area || 0), 0);
+    return Math.max(0, totalArea - exclusionArea);
+  }
+}
+
+/**
+ * Usable area percentage as stored on the site scorecard
+ */
+export function getUsableAreaPercent(usableArea: number | undefined, totalArea: number | undefined): number {
+  return totalArea && totalArea > 0
+    ? Math.round(((usableArea ?? totalArea) / totalArea) * 100)
+    : 100;
+}
+
+/**
+ * Total area, usable area and usable % for a set of boundaries and zones.
+ * Boundary areas are taken from the polygons' `area` fields.
+ */
+export function computeSiteAreas(
+  boundaries: SiteBoundary[],
+  exclusionZones: SiteExclusionZone[]
+): SiteAreas {
+  const totalArea = boundaries.reduce((sum, b) => sum + (b.area || 0), 0);
+  const usableArea = calculateUsableArea(boundaries, exclusionZones, totalArea);
+  return {
+    totalArea,
+    usableArea,
+    usableAreaPercent: getUsableAreaPercent(usableArea, totalArea),
+  };
+}
+
+/**
+ * Close edited rings and recompute each polygon's area, ready to store
+ */
+export function closeSitePolygons(
+  boundaries: SiteBoundary[],
+  exclusionZones: SiteExclusionZone[]
+): { boundaries: SiteBoundary[]; exclusionZones: SiteExclusionZone[] } {
+  return {
+    boundaries: boundaries.map((b) => ({
+      ...b,
+      coordinates: closeRing(b.coordinates),
+      area: ringArea(b.coordinates),
+    })),
+    exclusionZones: exclusionZones.map((ez) => ({
+      ...ez,
+      coordinates: closeRing(ez.coordinates),
+      area: ringArea(ez.coordinates),
+    })),
+  };
+}
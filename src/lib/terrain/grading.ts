@@ -0,0 +1,240 @@
+/**
+ * Grading (Cut/Fill) Estimate
+ *
+ * Each frame needs a straight pile-top line: piles follow a design plane
+ * through the ground under the frame, within the structure's slope limits.
+ * Piles absorb terrain deviations up to the reveal tolerance; beyond that the
+ * ground is cut down or filled up to the design plane.
+ *
+ * Terrain is the site's DEM grid (resampled from the GeoTIFF with
+ * sampleElevation on import).
+ */
+
+import type { Site, SiteTerrainGrid } from '@/lib/types/site';
+import type { GeneratedLayout, FramePlacement } from '@/lib/types/layout';
+import type { ElectricalBlock } from '@/lib/electrical/types';
+import { createLocalProjection, calculateFrameCorners, type LocalCoord } from '@/lib/layout/geometry';
+import { terrainElevationAt, fitGroundPlane } from './terrainAnalysis';
+
+/** Terrain deviation from the pile-top line absorbed by pile reveal (m) */
+export const DEFAULT_PILE_REVEAL_TOLERANCE_M = 0.3;
+
+/** Spacing of terrain samples under a frame (m) */
+export const DEFAULT_GRADING_SAMPLE_SPACING_M = 1;
+
+/** Indicative earthworks prices (€/m³) */
+export const EARTHWORKS_PRICE_PER_M3 = {
+  cut: 6,            // Excavate and spread on site
+  fill: 9,           // Place and compact
+  haul: 15,          // Import or export of the net imbalance
+};
+
+export interface GradingOptions {
+  toleranceM?: number;              // Default: 0.3
+  sampleSpacingM?: number;          // Default: 1
+  blocks?: ElectricalBlock[];       // Group results per electrical block
+}
+
+/** Earthworks under one frame */
+export interface FrameGrading {
+  frameIndex: number;
+  corners: LocalCoord[];            // Footprint in local meters
+  designElevationsM: number[];      // Pile-top line ground level at each corner
+  cutM3: number;
+  fillM3: number;
+  maxCutM: number;                  // Deepest cut below terrain
+  maxFillM: number;                 // Highest fill above terrain
+  meanDepthM: number;               // Signed mean depth over the footprint (+ cut, - fill)
+}
+
+/** Earthworks for an electrical block (or the frames outside any block) */
+export interface BlockGrading {
+  blockId: string;
+  label: string;
+  frameCount: number;
+  gradedFrames: number;
+  cutM3: number;
+  fillM3: number;
+}
+
+export interface GradingResult {
+  frames: FrameGrading[];
+  blocks: BlockGrading[];
+  totalCutM3: number;
+  totalFillM3: number;
+  netM3: number;                    // Cut - fill (+ export surplus, - import deficit)
+  gradedFrames: number;             // Frames needing any earthworks
+  toleranceM: number;
+}
+
+/** Design plane under a frame: elevation at the centre and slopes */
+interface DesignPlane {
+  center: LocalCoord;
+  elevationM: number;
+  slopeNSPercent: number;
+  slopeEWPercent: number;
+}
+
+const clamp = (value: number, limit: number) => Math.max(-limit, Math.min(limit, value));
+
+function planeElevationAt(plane: DesignPlane, point: LocalCoord): number {
+  return (
+    plane.elevationM +
+    ((point.x - plane.center.x) * plane.slopeEWPercent) / 100 +
+    ((point.y - plane.center.y) * plane.slopeNSPercent) / 100
+  );
+}
+
+/**
+ * Design plane for a frame: the ground plane from placement when available,
+ * otherwise fitted to the terrain, with slopes held to the structural limits.
+ */
+function designPlaneFor(
+  frame: FramePlacement,
+  center: LocalCoord,
+  corners: LocalCoord[],
+  grid: SiteTerrainGrid,
+  layout: GeneratedLayout
+): DesignPlane | null {
+  const fitted =
+    frame.groundElevationM !== undefined
+      ? {
+          elevationM: frame.groundElevationM,
+          slopeNSPercent: frame.groundSlopeNSPercent ?? 0,
+          slopeEWPercent: frame.groundSlopeEWPercent ?? 0,
+        }
+      : fitGroundPlane(grid, [...corners, center]);
+  if (!fitted) return null;
+
+  return {
+    center,
+    elevationM: fitted.elevationM,
+    slopeNSPercent: clamp(fitted.slopeNSPercent, layout.parameters.maxSlopeNSPercent ?? 15),
+    slopeEWPercent: clamp(fitted.slopeEWPercent, layout.parameters.maxSlopeEWPercent ?? 10),
+  };
+}
+
+/**
+ * Estimate cut and fill for a generated layout on the site terrain.
+ *
+ * @param layout - Generated layout (frame-based)
+ * @param site - Site with a centroid and DEM terrain grid
+ * @param options - Pile reveal tolerance, sample spacing and electrical blocks
+ * @returns Per-frame, per-block and total volumes, or null without terrain
+ */
+export function calculateGrading(
+  layout: GeneratedLayout,
+  site: Site,
+  options: GradingOptions = {}
+): GradingResult | null {
+  const grid = site.terrain;
+  if (!grid || !site.centroid) return null;
+
+  const toleranceM = Math.max(0, options.toleranceM ?? DEFAULT_PILE_REVEAL_TOLERANCE_M);
+  const spacing = Math.max(0.25, options.sampleSpacingM ?? DEFAULT_GRADING_SAMPLE_SPACING_M);
+  const projection = createLocalProjection({
+    lat: site.centroid.latitude,
+    lng: site.centroid.longitude,
+  });
+
+  const frames: FrameGrading[] = [];
+
+  for (const frame of layout.frames) {
+    const center = projection.toLocal(frame.centerCoord);
+    const corners = calculateFrameCorners(center, frame.widthM, frame.heightM, frame.rotationDeg);
+    const plane = designPlaneFor(frame, center, corners, grid, layout);
+    if (!plane) continue;
+
+    // Sample the footprint on a regular grid along and across the row
+    const nu = Math.max(1, Math.ceil(frame.widthM / spacing));
+    const nv = Math.max(1, Math.ceil(frame.heightM / spacing));
+    const cellArea = (frame.widthM / nu) * (frame.heightM / nv);
+    const rad = (frame.rotationDeg * Math.PI) / 180;
+    const along = { x: Math.cos(rad), y: Math.sin(rad) };
+    const across = { x: -along.y, y: along.x };
+
+    let cutM3 = 0;
+    let fillM3 = 0;
+    let maxCutM = 0;
+    let maxFillM = 0;
+    let signedSum = 0;
+
+    for (let i = 0; i < nu; i++) {
+      const u = ((i + 0.5) / nu - 0.5) * frame.widthM;
+      for (let j = 0; j < nv; j++) {
+        const v = ((j + 0.5) / nv - 0.5) * frame.heightM;
+        const point = {
+          x: center.x + along.x * u + across.x * v,
+          y: center.y + along.y * u + across.y * v,
+        };
+        const terrainZ = terrainElevationAt(grid, point);
+        if (terrainZ === null) continue;
+
+        // Positive: terrain above the pile-top line (cut)
+        const deviation = terrainZ - planeElevationAt(plane, point);
+        const depth = Math.sign(deviation) * Math.max(0, Math.abs(deviation) - toleranceM);
+        if (depth > 0) {
+          cutM3 += depth * cellArea;
+          maxCutM = Math.max(maxCutM, depth);
+        } else if (depth < 0) {
+          fillM3 += -depth * cellArea;
+          maxFillM = Math.max(maxFillM, -depth);
+        }
+        signedSum += depth * cellArea;
+      }
+    }
+
+    frames.push({
+      frameIndex: frame.index,
+      corners,
+      designElevationsM: corners.map((c) => planeElevationAt(plane, c)),
+      cutM3,
+      fillM3,
+      maxCutM,
+      maxFillM,
+      meanDepthM: signedSum / (frame.widthM * frame.heightM),
+    });
+  }
+
+  // Group per electrical block
+  const byFrame = new Map(frames.map((f) => [f.frameIndex, f]));
+  const assigned = new Set<number>();
+  const blocks: BlockGrading[] = [];
+  const summarize = (blockId: string, label: string, frameIndices: number[]): BlockGrading => {
+    const graded = frameIndices
+      .map((index) => byFrame.get(index))
+      .filter((f): f is FrameGrading => f !== undefined);
+    return {
+      blockId,
+      label,
+      frameCount: frameIndices.length,
+      gradedFrames: graded.filter((f) => f.cutM3 > 0 || f.fillM3 > 0).length,
+      cutM3: graded.reduce((sum, f) => sum + f.cutM3, 0),
+      fillM3: graded.reduce((sum, f) => sum + f.fillM3, 0),
+    };
+  };
+
+  for (const block of options.blocks ?? []) {
+    block.frameIndices.forEach((index) => assigned.add(index));
+    blocks.push(summarize(block.id, block.label, block.frameIndices));
+  }
+  const unassigned = layout.frames.map((f) => f.index).filter((index) => !assigned.has(index));
+  if (unassigned.length > 0) {
+    blocks.push(
+      summarize('unassigned', options.blocks?.length ? 'Unassigned' : 'All frames', unassigned)
+    );
+  }
+
+  const totalCutM3 = frames.reduce((sum, f) => sum + f.cutM3, 0);
+  const totalFillM3 = frames.reduce((sum, f) => sum + f.fillM3, 0);
+
+  return {
+    frames,
+    blocks,
+    totalCutM3,
+    totalFillM3,
+    netM3: totalCutM3 - totalFillM3,
+    gradedFrames: frames.filter((f) => f.cutM3 > 0 || f.fillM3 > 0).length,
+    toleranceM,
+  };
+}
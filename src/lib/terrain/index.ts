@@ -0,0 +1,42 @@
+/**
+ * Terrain Module
+ *
+ * Slope and aspect analysis on a site's DEM terrain grid, ground planes
+ * under frames, automatic steep-slope exclusion zones and cut/fill
+ * estimates for generated layouts.
+ *
+ * Usage:
+ * ```typescript
+ * import { analyzeTerrain, createSlopeExclusionZones } from '@/lib/terrain';
+ *
+ * const { maxSlopeDeg } = analyzeTerrain(site.terrain);
+ * const zones = createSlopeExclusionZones(site, 10);
+ * ```
+ */
+
+export type { TerrainAnalysis, GroundPlane } from './terrainAnalysis';
+
+export {
+  buildTerrainGrid,
+  terrainElevationAt,
+  analyzeTerrain,
+  fitGroundPlane,
+  createSlopeExclusionZones,
+  DEFAULT_MAX_GRID_NODES_PER_SIDE,
+  DEFAULT_MAX_SLOPE_DEG,
+  DEFAULT_MIN_SLOPE_ZONE_AREA_SQM,
+} from './terrainAnalysis';
+
+export type {
+  GradingOptions,
+  FrameGrading,
+  BlockGrading,
+  GradingResult,
+} from './grading';
+
+export {
+  calculateGrading,
+  DEFAULT_PILE_REVEAL_TOLERANCE_M,
+  DEFAULT_GRADING_SAMPLE_SPACING_M,
+  EARTHWORKS_PRICE_PER_M3,
+} from './grading';
@@ -0,0 +1,350 @@
+/**
+ * Terrain Analysis
+ *
+ * Works on the DEM grid stored on a site (SiteTerrainGrid): builds the grid
+ * from a DEM sampler, interpolates elevations, derives slope and aspect
+ * rasters, fits the ground plane under a frame and turns steep areas into
+ * 'slope' exclusion zones.
+ *
+ * Slopes use Horn's 3×3 gradient where all neighbours have data and central
+ * (or one-sided) differences otherwise.
+ */
+
+import * as turf from '@turf/turf';
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import type { Site, SiteExclusionZone, SiteTerrainGrid } from '@/lib/types/site';
+import { createLocalProjection, type LocalCoord } from '@/lib/layout/geometry';
+
+/** Grid nodes per side at most - keeps the persisted grid small */
+export const DEFAULT_MAX_GRID_NODES_PER_SIDE = 120;
+
+/** Default slope above which ground is excluded (degrees) */
+export const DEFAULT_MAX_SLOPE_DEG = 10;
+
+/** Steep areas smaller than this are ignored (m²) */
+export const DEFAULT_MIN_SLOPE_ZONE_AREA_SQM = 500;
+
+export interface TerrainAnalysis {
+  slopeDeg: (number | null)[];       // Per grid node, degrees from horizontal
+  aspectDeg: (number | null)[];      // Per grid node, compass direction the slope faces (null = flat)
+  slopeNSPercent: (number | null)[]; // Per grid node, rise towards north (%)
+  slopeEWPercent: (number | null)[]; // Per grid node, rise towards east (%)
+  maxSlopeDeg: number;
+  meanSlopeDeg: number;
+}
+
+/** Ground plane fitted under a frame */
+export interface GroundPlane {
+  elevationM: number;                // At the centroid of the sample points
+  slopeNSPercent: number;            // Rise towards north (%)
+  slopeEWPercent: number;            // Rise towards east (%)
+}
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Resample a DEM onto a regular grid covering the given local bounds.
+ *
+ * @param bounds - Area to cover in local meters
+ * @param cellSize - Desired node spacing (m); enlarged to respect maxNodesPerSide
+ * @param sampleAt - Elevation at a local point, null when outside the DEM or no data
+ * @param maxNodesPerSide - Upper bound on columns and rows
+ */
+export function buildTerrainGrid(
+  bounds: { minX: number; minY: number; maxX: number; maxY: number },
+  cellSize: number,
+  sampleAt: (point: LocalCoord) => number | null,
+  maxNodesPerSide: number = DEFAULT_MAX_GRID_NODES_PER_SIDE
+): SiteTerrainGrid {
+  const width = Math.max(0, bounds.maxX - bounds.minX);
+  const height = Math.max(0, bounds.maxY - bounds.minY);
+  const spacing = Math.max(
+    cellSize,
+    width / (maxNodesPerSide - 1),
+    height / (maxNodesPerSide - 1),
+    0.1
+  );
+
+  const columns = Math.floor(width / spacing) + 1;
+  const rows = Math.floor(height / spacing) + 1;
+  const elevations: (number | null)[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const z = sampleAt({ x: bounds.minX + c * spacing, y: bounds.minY + r * spacing });
+      elevations.push(z === null || !isFinite(z) ? null : Math.round(z * 100) / 100);
+    }
+  }
+
+  return {
+    originX: bounds.minX,
+    originY: bounds.minY,
+    cellSize: spacing,
+    columns,
+    rows,
+    elevations,
+  };
+}
+
+function nodeAt(grid: SiteTerrainGrid, row: number, col: number): number | null {
+  if (row < 0 || row >= grid.rows || col < 0 || col >= grid.columns) return null;
+  return grid.elevations[row * grid.columns + col];
+}
+
+/**
+ * Elevation at a local point (bilinear interpolation).
+ *
+ * Falls back to the average of the surrounding nodes that have data, and
+ * returns null outside the grid.
+ */
+export function terrainElevationAt(grid: SiteTerrainGrid, point: LocalCoord): number | null {
+  const fx = (point.x - grid.originX) / grid.cellSize;
+  const fy = (point.y - grid.originY) / grid.cellSize;
+  if (fx < 0 || fy < 0 || fx > grid.columns - 1 || fy > grid.rows - 1) return null;
+
+  const c0 = Math.min(Math.floor(fx), grid.columns - 2 < 0 ? 0 : grid.columns - 2);
+  const r0 = Math.min(Math.floor(fy), grid.rows - 2 < 0 ? 0 : grid.rows - 2);
+  const tx = grid.columns > 1 ? fx - c0 : 0;
+  const ty = grid.rows > 1 ? fy - r0 : 0;
+
+  const corners = [
+    { z: nodeAt(grid, r0, c0), w: (1 - tx) * (1 - ty) },
+    { z: nodeAt(grid, r0, c0 + 1), w: tx * (1 - ty) },
+    { z: nodeAt(grid, r0 + 1, c0), w: (1 - tx) * ty },
+    { z: nodeAt(grid, r0 + 1, c0 + 1), w: tx * ty },
+  ];
+
+  const known = corners.filter((corner) => corner.z !== null);
+  if (known.length === 0) return null;
+  if (known.length < corners.length) {
+    return known.reduce((sum, corner) => sum + corner.z!, 0) / known.length;
+  }
+  return corners.reduce((sum, corner) => sum + corner.z! * corner.w, 0);
+}
+
+/**
+ * Elevation gradient (dz/dx, dz/dy) at a grid node, or null without data.
+ */
+function gradientAt(
+  grid: SiteTerrainGrid,
+  row: number,
+  col: number
+): { dzdx: number; dzdy: number } | null {
+  const h = grid.cellSize;
+  const z = (dr: number, dc: number) => nodeAt(grid, row + dr, col + dc);
+  if (z(0, 0) === null) return null;
+
+  // Horn's method when the full 3×3 window has data
+  const window = [-1, 0, 1].flatMap((dr) => [-1, 0, 1].map((dc) => z(dr, dc)));
+  if (window.every((v) => v !== null)) {
+    const [sw, s, se, w, , e, nw, n, ne] = window as number[];
+    return {
+      dzdx: (ne + 2 * e + se - (nw + 2 * w + sw)) / (8 * h),
+      dzdy: (nw + 2 * n + ne - (sw + 2 * s + se)) / (8 * h),
+    };
+  }
+
+  // Central or one-sided differences
+  const axis = (minus: number | null, centre: number, plus: number | null): number | null => {
+    if (minus !== null && plus !== null) return (plus - minus) / (2 * h);
+    if (plus !== null) return (plus - centre) / h;
+    if (minus !== null) return (centre - minus) / h;
+    return null;
+  };
+  const centre = z(0, 0)!;
+  const dzdx = axis(z(0, -1), centre, z(0, 1));
+  const dzdy = axis(z(-1, 0), centre, z(1, 0));
+  if (dzdx === null && dzdy === null) return null;
+  return { dzdx: dzdx ?? 0, dzdy: dzdy ?? 0 };
+}
+
+/**
+ * Derive slope, aspect and directional slope rasters from a terrain grid.
+ *
+ * @param grid - Site terrain grid
+ * @returns Rasters aligned with the grid nodes plus summary statistics
+ */
+export function analyzeTerrain(grid: SiteTerrainGrid): TerrainAnalysis {
+  const count = grid.rows * grid.columns;
+  const slopeDeg: (number | null)[] = new Array(count).fill(null);
+  const aspectDeg: (number | null)[] = new Array(count).fill(null);
+  const slopeNSPercent: (number | null)[] = new Array(count).fill(null);
+  const slopeEWPercent: (number | null)[] = new Array(count).fill(null);
+
+  let maxSlope = 0;
+  let slopeSum = 0;
+  let slopeCount = 0;
+
+  for (let r = 0; r < grid.rows; r++) {
+    for (let c = 0; c < grid.columns; c++) {
+      const gradient = gradientAt(grid, r, c);
+      if (!gradient) continue;
+
+      const i = r * grid.columns + c;
+      const { dzdx, dzdy } = gradient;
+      const slope = toDegrees(Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)));
+
+      slopeDeg[i] = slope;
+      slopeEWPercent[i] = dzdx * 100;
+      slopeNSPercent[i] = dzdy * 100;
+      // Downslope direction as a compass bearing
+      aspectDeg[i] = slope < 0.01 ? null : (toDegrees(Math.atan2(-dzdx, -dzdy)) + 360) % 360;
+
+      maxSlope = Math.max(maxSlope, slope);
+      slopeSum += slope;
+      slopeCount++;
+    }
+  }
+
+  return {
+    slopeDeg,
+    aspectDeg,
+    slopeNSPercent,
+    slopeEWPercent,
+    maxSlopeDeg: maxSlope,
+    meanSlopeDeg: slopeCount > 0 ? slopeSum / slopeCount : 0,
+  };
+}
+
+/**
+ * Fit a ground plane (least squares) through terrain samples at the given
+ * points, e.g. a frame's corners and centre.
+ *
+ * @returns The plane, or null when a point has no terrain data
+ */
+export function fitGroundPlane(grid: SiteTerrainGrid, points: LocalCoord[]): GroundPlane | null {
+  if (points.length < 3) return null;
+
+  const samples: Array<{ x: number; y: number; z: number }> = [];
+  for (const p of points) {
+    const z = terrainElevationAt(grid, p);
+    if (z === null) return null;
+    samples.push({ x: p.x, y: p.y, z });
+  }
+
+  const n = samples.length;
+  const mx = samples.reduce((s, p) => s + p.x, 0) / n;
+  const my = samples.reduce((s, p) => s + p.y, 0) / n;
+  const mz = samples.reduce((s, p) => s + p.z, 0) / n;
+
+  let sxx = 0, syy = 0, sxy = 0, sxz = 0, syz = 0;
+  for (const p of samples) {
+    const dx = p.x - mx;
+    const dy = p.y - my;
+    const dz = p.z - mz;
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+    sxz += dx * dz;
+    syz += dy * dz;
+  }
+
+  const det = sxx * syy - sxy * sxy;
+  if (Math.abs(det) < 1e-9) return null;
+
+  const b = (sxz * syy - syz * sxy) / det;
+  const c = (syz * sxx - sxz * sxy) / det;
+
+  return { elevationM: mz, slopeNSPercent: c * 100, slopeEWPercent: b * 100 };
+}
+
+/**
+ * Create 'slope' exclusion zones where the terrain is steeper than a threshold.
+ *
+ * Steep grid cells are merged into rectangles, unioned into polygons and
+ * converted to site coordinates. Small areas are dropped to avoid speckle.
+ *
+ * @param site - Site with a centroid and terrain grid
+ * @param maxSlopeDeg - Slope above which ground is excluded
+ * @param minAreaSqm - Smallest zone kept (default: 500 m²)
+ * @returns New exclusion zones (autoGenerated), largest first
+ */
+export function createSlopeExclusionZones(
+  site: Site,
+  maxSlopeDeg: number = DEFAULT_MAX_SLOPE_DEG,
+  minAreaSqm: number = DEFAULT_MIN_SLOPE_ZONE_AREA_SQM
+): SiteExclusionZone[] {
+  const grid = site.terrain;
+  if (!grid || !site.centroid) return [];
+
+  const projection = createLocalProjection({
+    lat: site.centroid.latitude,
+    lng: site.centroid.longitude,
+  });
+  const { slopeDeg } = analyzeTerrain(grid);
+  const steep = (r: number, c: number) => {
+    const s = slopeDeg[r * grid.columns + c];
+    return s !== null && s > maxSlopeDeg;
+  };
+
+  // Merge runs of steep nodes into rectangles that grow while the run repeats
+  type Rect = { c0: number; c1: number; r0: number; r1: number };
+  const rects: Rect[] = [];
+  let open = new Map<string, Rect>();
+  for (let r = 0; r < grid.rows; r++) {
+    const next = new Map<string, Rect>();
+    let c = 0;
+    while (c < grid.columns) {
+      if (!steep(r, c)) {
+        c++;
+        continue;
+      }
+      const start = c;
+      while (c < grid.columns && steep(r, c)) c++;
+      const key = `${start}:${c - 1}`;
+      const rect = open.get(key);
+      if (rect) {
+        rect.r1 = r;
+        next.set(key, rect);
+      } else {
+        const created = { c0: start, c1: c - 1, r0: r, r1: r };
+        rects.push(created);
+        next.set(key, created);
+      }
+    }
+    open = next;
+  }
+  if (rects.length === 0) return [];
+
+  // Each node stands for the cell centred on it
+  const half = grid.cellSize / 2;
+  const toLngLat = (x: number, y: number) => {
+    const g = projection.toGlobal({ x, y });
+    return [g.lng, g.lat];
+  };
+  const polygons = rects.map((rect) => {
+    const x0 = grid.originX + rect.c0 * grid.cellSize - half;
+    const x1 = grid.originX + rect.c1 * grid.cellSize + half;
+    const y0 = grid.originY + rect.r0 * grid.cellSize - half;
+    const y1 = grid.originY + rect.r1 * grid.cellSize + half;
+    return turf.polygon([
+      [toLngLat(x0, y0), toLngLat(x1, y0), toLngLat(x1, y1), toLngLat(x0, y1), toLngLat(x0, y0)],
+    ]);
+  });
+
+  const merged: Feature<Polygon | MultiPolygon> | null =
+    polygons.length === 1 ? polygons[0] : turf.union(turf.featureCollection(polygons));
+  if (!merged) return [];
+
+  const rings =
+    merged.geometry.type === 'Polygon'
+      ? [merged.geometry.coordinates[0]]
+      : merged.geometry.coordinates.map((poly) => poly[0]);
+
+  return rings
+    .map((ring) => ({ ring, area: turf.area(turf.polygon([ring])) }))
+    .filter(({ area }) => area >= minAreaSqm)
+    .sort((a, b) => b.area - a.area)
+    .map(({ ring, area }, i) => ({
+      id: crypto.randomUUID(),
+      name: `Steep slope ${i + 1}`,
+      type: 'slope' as const,
+      coordinates: ring.map(([lng, lat]) => {
+        const elevation = terrainElevationAt(grid, projection.toLocal({ lat, lng }));
+        return elevation === null ? { lat, lng } : { lat, lng, elevation };
+      }),
+      area,
+      description: `Slope above ${maxSlopeDeg}° (from terrain model)`,
+      autoGenerated: true,
+    }));
+}
@@ -2,6 +2,7 @@
 
 import type { NtpChecklist } from './types/ntpChecklist';
 import type { GeneratedLayout } from './types/layout';
+import type { StringingConfig } from './electrical/types';
 
 export type Priority = 0 | 1 | 2 | 3 | 4;
 // 0 = On Hold, 1 = Urgent, 2 = High, 3 = Medium, 4 = Low
@@ -163,9 +164,11 @@ export type {
   SiteBoundary,
   SiteExclusionZone,
   ExclusionZoneType,
+  ExclusionZoneFeature,
   KMLParseResult,
   SiteImportMetadata,
   ElevationRange,
+  SiteTerrainGrid,
 } from './types/site';
 export { EXCLUSION_ZONE_LABELS } from './types/site';
 
@@ -179,6 +182,8 @@ export type {
   PanelRow,
   LayoutSummary,
   GeneratedLayout,
+  MountType,
+  TrackerConfig,
 } from './types/layout';
 export {
   DEFAULT_LAYOUT_PARAMETERS,
@@ -230,6 +235,7 @@ export interface Design {
   // Generated layout fields (for Site-to-Design conversion)
   siteId?: string; // Link to source site
   generatedLayout?: GeneratedLayout; // Auto-generated panel layout
+  stringing?: StringingConfig; // Chosen string/inverter configuration
 }
 
 export interface DesignVersion {
@@ -328,6 +334,7 @@ export {
   RECURRENCE_LABELS,
   MAINTENANCE_CATEGORY_COLORS,
   MAINTENANCE_CATEGORY_ORDER,
+  RECURRENCE_INTERVAL_DAYS,
   calculateNextDueDate,
 } from './types/maintenance';
 
@@ -22,6 +22,7 @@ export interface BOQItem {
   totalPrice: number;       // Calculated: quantity × unitPrice
   source: BOQItemSource;    // Where this item came from
   sourceId?: string;        // Component ID if from component_library
+  currency?: string;        // Currency of unitPrice/totalPrice (the BOQ's currency if not set)
   notes?: string;           // Optional notes/description
 }
 
@@ -32,7 +33,9 @@ export interface BOQ {
   projectId: string;        // Denormalized for easier querying
   name: string;             // e.g., "Solar Farm A - BOQ"
   items: BOQItem[];
-  totalValue: number;       // Sum of all item totalPrice values
+  totalValue: number;       // Sum of all item totalPrice values, in the BOQ's currency
+  currency?: string;        // Currency of totalValue (DEFAULT_CURRENCY if not set)
+  missingFxRates?: string[]; // Item currencies without an FX rate, added 1:1 to totalValue
 
   // Metadata
   createdBy: string;
@@ -40,6 +43,11 @@ export interface BOQ {
   createdAt: string;
   updatedAt: string;
 
+  // Design snapshot at the last generation (detects layout changes since)
+  generatedAt?: string;
+  sourceVersionId?: string;     // Design.currentVersionId when generated
+  sourceLayoutAt?: string;      // Design.generatedLayout.generatedAt when generated
+
   // Export tracking
   lastExportedAt?: string;  // When last exported to CAPEX
   lastExportedBy?: string;  // Who exported it
@@ -49,6 +57,8 @@ export interface BOQ {
 export interface BOQGenerationOptions {
   includeModules: boolean;
   includeInverters: boolean;
+  includeCables: boolean;              // DC/AC cable meters from the cable schedule
+  includeEarthworks: boolean;          // Cut/fill volumes from the terrain grading estimate
   useComponentLibraryPrices: boolean;  // Pull prices from linked components
   defaultModulePrice?: number;         // Fallback price if no component linked
   defaultInverterPrice?: number;       // Fallback price if no component linked
@@ -68,6 +78,7 @@ export interface BOQExportPreview {
   items: BOQExportItem[];
   totalNewValue: number;
   totalUpdateValue: number;
+  currency: string;           // Currency of the totals (the BOQ's)
   hasFinancialModel: boolean;
 }
 
@@ -75,6 +86,8 @@ export interface BOQExportPreview {
 export const DEFAULT_GENERATION_OPTIONS: BOQGenerationOptions = {
   includeModules: true,
   includeInverters: true,
+  includeCables: true,
+  includeEarthworks: true,
   useComponentLibraryPrices: true,
   defaultModulePrice: 100,    // Default €100/panel
   defaultInverterPrice: 5000, // Default €5000/inverter
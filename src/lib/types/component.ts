@@ -24,6 +24,12 @@ export interface ModuleSpecs {
   tempCoeffPmax?: number;   // %/°C
   tempCoeffVoc?: number;    // %/°C
   tempCoeffIsc?: number;    // %/°C
+  // Degradation and power warranty
+  lid?: number;             // % first-year light-induced degradation
+  letid?: number;           // % light and elevated temperature induced degradation
+  firstYearDegradation?: number; // % max. power loss in year 1 (warranty)
+  annualDegradation?: number;    // %/year max. power loss after year 1 (warranty)
+  warrantyYears?: number;   // Linear power warranty term
 }
 
 export interface InverterSpecs {
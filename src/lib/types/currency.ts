@@ -0,0 +1,31 @@
+/**
+ * Currency types
+ *
+ * Amounts are entered in the currency of their source (component, BOQ item,
+ * cost line) and converted to a financial model's reporting currency with a
+ * user-maintained table of FX rates that take effect from a date.
+ */
+
+/** FX rate between two currencies, effective from a date until superseded */
+export interface FxRate {
+  id: string;
+  from: string;             // ISO 4217 code, e.g. 'USD'
+  to: string;               // ISO 4217 code, e.g. 'EUR'
+  rate: number;             // Units of `to` per unit of `from`
+  effectiveDate: string;    // YYYY-MM-DD
+  notes?: string;           // e.g. source of the rate
+
+  // Metadata
+  createdBy: string;
+  creatorId: string;
+  createdAt: string;
+}
+
+/** Rate used to convert an amount, as resolved from the FX table */
+export interface FxQuote {
+  rate: number;
+  effectiveDate?: string;   // Absent for same-currency conversions
+}
+
+/** Currency assumed where none is recorded (prices, BOQs and models predate currencies) */
+export const DEFAULT_CURRENCY = 'EUR';
@@ -12,6 +12,160 @@ export interface CostLineItem {
   quantity?: number; // Number of items (CapEx only)
   unit?: string; // Display unit (e.g., "MW", "panels", "meters")
   margin_percent?: number; // CapEx-only: margin override (uses global if undefined)
+  boq_link?: CostItemBOQLink; // Set when exported from a BOQ (kept in sync on re-sync)
+  currency?: string; // Currency of amount/unit_price (model reporting currency if not set)
+  fx?: CostItemFx; // Rate pinned to convert to the reporting currency (foreign items only)
+}
+
+// FX rate pinned on a foreign-currency line item so results are reproducible
+// until the rates are refreshed from the FX table
+export interface CostItemFx {
+  from: string;
+  to: string;
+  rate: number; // Units of `to` per unit of `from`
+  effective_date?: string; // Effective date of the FX table rate (absent when no rate was found)
+  missing?: boolean; // No rate in the FX table: converted 1:1
+}
+
+// Link from a CAPEX item to the BOQ item it was exported from
+export interface CostItemBOQLink {
+  boq_id: string;
+  boq_item_id: string;
+  component_id?: string; // Component library item the BOQ item is priced from
+  synced_at: string; // ISO timestamp of the last export or re-sync
+}
+
+// Yield exceedance level (probability that the yield is exceeded)
+export type ExceedanceLevel = 'P50' | 'P75' | 'P90' | 'P99';
+
+// Energy yield uncertainty (standard deviations, normal distribution)
+export interface YieldUncertainty {
+  interannual_variability: number; // 1-year resource variability as fraction of P50 (e.g. 0.04)
+  model_uncertainty: number; // Long-term resource, model and loss uncertainty as fraction of P50
+  degradation_uncertainty: number; // Uncertainty of the annual degradation rate (absolute, e.g. 0.001)
+}
+
+// Debt repayment: flat annuity (pmt) or sculpted to CFADS at the target DSCR
+export type DebtRepaymentProfile = 'annuity' | 'sculpted';
+
+// CAPEX spend profile over the construction period
+export type DrawdownCurve = 'linear' | 's_curve' | 'front_loaded' | 'back_loaded';
+
+// Project-finance loan terms beyond rate/tenor/gearing
+export interface DebtTerms {
+  repayment_profile: DebtRepaymentProfile;
+  grace_period_years: number; // Interest-only years after COD (within the tenor)
+  construction_months: number; // Construction period before COD (0 = debt drawn at COD)
+  drawdown_curve: DrawdownCurve; // CAPEX spend profile over construction
+  upfront_fee: number; // Arrangement fee as fraction of debt (e.g. 0.015)
+  commitment_fee: number; // Annual fee on undrawn debt during construction (fraction)
+  dsra_months: number; // Months of forward debt service held in the DSRA (0 = none)
+}
+
+// Tax depreciation method for the project's depreciable basis
+export type DepreciationMethod = 'macrs_5' | 'straight_line' | 'none';
+
+// Federal-style tax credit claimed by the project
+export type TaxCreditType = 'none' | 'itc' | 'ptc';
+
+// Simple partnership flip: tax equity investor allocations around a fixed flip year
+export interface PartnershipFlipTerms {
+  investment_share: number; // Tax equity share of the equity investment at COD
+  pre_flip_tax_allocation: number; // Share of taxable income/loss and credits before the flip (e.g. 0.99)
+  pre_flip_cash_allocation: number; // Share of distributable cash before the flip (e.g. 0.35)
+  post_flip_allocation: number; // Share of tax items and cash after the flip (e.g. 0.05)
+  flip_year: number; // Last operating year with pre-flip allocations
+}
+
+// Tax depreciation, credits and loss carry-forward
+export interface TaxTerms {
+  depreciation_method: DepreciationMethod;
+  straight_line_years: number; // Recovery period for straight-line depreciation
+  bonus_depreciation: number; // Fraction of the basis expensed in year 1 (0-1)
+  depreciable_share: number; // Fraction of CAPEX that is depreciable and credit-eligible (e.g. 0.95)
+  interest_deductible: boolean; // Deduct debt interest from taxable income
+  tax_credit: TaxCreditType;
+  itc_rate: number; // ITC as fraction of eligible basis (basis reduced by half the ITC)
+  ptc_rate: number; // PTC per MWh in year 1
+  ptc_escalation: number; // Annual PTC escalation (inflation adjustment)
+  ptc_years: number; // Years the PTC is earned
+  nol_carryforward: boolean; // Carry losses forward; otherwise losses offset other income (negative tax)
+  nol_utilisation_limit: number; // Max share of taxable income offset by carried losses each year
+  partnership_flip?: PartnershipFlipTerms;
+}
+
+// Offtake contract covering a share of sold energy for a term
+export interface RevenueContract {
+  id: string;
+  name: string;
+  share: number; // Share of sold energy (0-1)
+  price: number; // Price per MWh in the contract's first year
+  escalation: number; // Annual price escalation
+  start_year: number; // First operating year of the contract
+  term_years: number;
+}
+
+// Revenue stack: offtake contracts, merchant tail, capacity and REC revenues
+export interface RevenueStack {
+  contracts: RevenueContract[];
+  merchant_price: number; // Baseload price per MWh in year 1
+  merchant_escalation: number; // Applied from year 1, or beyond the end of the price curve
+  merchant_price_curve?: number[]; // Baseload price per MWh by operating year
+  capture_discount: number; // Solar capture price discount to baseload (e.g. 0.1)
+  monthly_capture_discounts?: number[]; // 12 values, replace capture_discount by month
+  hourly_price_shape?: number[]; // 24 hourly prices relative to the daily average
+  curtailment: number; // Share of energy curtailed (e.g. 0.02)
+  monthly_curtailment?: number[]; // 12 values, replace curtailment by month
+  capacity_payment: number; // Per MW per year
+  capacity_escalation: number;
+  capacity_years: number;
+  rec_price: number; // Per MWh sold
+  rec_escalation: number;
+  rec_years: number;
+}
+
+// Scheduled one-off or periodic cost (inverter replacement, major maintenance)
+export type CostEventRecurrence = 'once' | 'periodic';
+
+export interface CostEvent {
+  id: string;
+  name: string;
+  amount: number; // Cost per occurrence in year-1 money (escalated at om_escalation)
+  recurrence: CostEventRecurrence;
+  year: number; // Operating year of the (first) occurrence
+  interval_years: number; // Periodic: years between occurrences
+}
+
+// End-of-life decommissioning, incurred in the final operating year
+export interface DecommissioningTerms {
+  cost: number; // Year-1 money, escalated at om_escalation
+  salvage_value: number; // Recovered against the cost (same escalation)
+}
+
+// Maintenance reserve account pre-funding scheduled costs from CFADS
+export interface CostReserveTerms {
+  funding_years: number; // Years before each cost over which it is funded
+  include_decommissioning: boolean;
+}
+
+// Module degradation: annual rate constant (linear) or growing with age (nonlinear)
+export type DegradationCurve = 'linear' | 'nonlinear';
+
+// Manufacturer's linear power warranty (fractions of nameplate power)
+export interface PowerWarranty {
+  first_year_power: number; // Guaranteed power at the end of year 1 (e.g. 0.99)
+  annual_decline: number; // Guaranteed decline per year after year 1 (e.g. 0.004)
+  years: number; // Warranty term
+}
+
+// Degradation profile of the installed module, on top of degradation_rate
+export interface DegradationProfile {
+  module_name?: string; // Library module the profile was taken from
+  lid: number; // Light-induced degradation in the first days of operation (e.g. 0.01)
+  letid: number; // LeTID, building up over the first operating years (e.g. 0.01)
+  curve: DegradationCurve;
+  rate_acceleration: number; // Nonlinear: growth of the annual rate per year (e.g. 0.03)
+  warranty?: PowerWarranty;
 }
 
 // Financial model inputs
@@ -23,23 +177,35 @@ export interface FinancialInputs {
   ppa_price: number;
   om_cost_per_mw_year?: number; // Optional if using cost_items
 
+  currency?: string; // Reporting currency of the model (DEFAULT_CURRENCY if not set)
+
   // Cost line items (detailed mode)
   capex_items: CostLineItem[];
   opex_items: CostLineItem[];
   global_margin: number; // CapEx margin percentage
 
   // Technical parameters
-  degradation_rate: number;
+  degradation_rate: number; // Annual rate from year 2
+  degradation_profile?: DegradationProfile; // Geometric degradation_rate without LID if not set
 
   // Economic parameters
   ppa_escalation: number;
   om_escalation: number;
+  revenue_stack?: RevenueStack; // Single PPA at ppa_price for the whole lifetime if not set
+  cost_events?: CostEvent[];
+  decommissioning?: DecommissioningTerms;
+  cost_reserve?: CostReserveTerms; // Scheduled costs paid from CFADS as incurred if not set
 
   // Financing parameters
   gearing_ratio: number;
   interest_rate: number;
   debt_tenor: number;
   target_dscr: number;
+  debt_sizing_case?: ExceedanceLevel; // Yield case for DSCR debt sizing (P50 if not set)
+  debt_terms?: DebtTerms; // Annuity loan drawn at COD, no fees or DSRA if not set
+
+  // Yield uncertainty (optional - defaults used for P-value cases and Monte Carlo)
+  yield_uncertainty?: YieldUncertainty;
 
   // Project timeline
   project_lifetime: number;
@@ -47,6 +213,7 @@ export interface FinancialInputs {
   // Tax and discount
   tax_rate: number;
   discount_rate: number;
+  tax_terms?: TaxTerms; // Tax on EBITDA at tax_rate (no depreciation or credits) if not set
 
   // Yield estimation (optional - calculated from location)
   yieldEstimate?: YieldEstimate;
@@ -73,9 +240,18 @@ export interface FinancingStructure {
   equity: number;
   actual_gearing: number;
   binding_constraint: string;
+  debt_sizing_case?: ExceedanceLevel; // Yield case the DSCR constraint was sized on
   interest_rate: number;
   debt_tenor: number;
-  annual_debt_service: number;
+  annual_debt_service: number; // Average over the tenor (the annuity payment for annuity loans)
+  // Debt terms (absent in results calculated before debt schedules)
+  repayment_profile?: DebtRepaymentProfile;
+  grace_period_years?: number;
+  construction_months?: number;
+  total_funding?: number; // CAPEX + IDC + fees + initial DSRA
+  idc?: number; // Interest during construction (capitalised)
+  financing_fees?: number; // Upfront + commitment fees
+  dsra_initial_balance?: number; // DSRA funded at COD
 }
 
 export interface KeyMetrics {
@@ -88,6 +264,7 @@ export interface KeyMetrics {
   ppa_price: number;
   equity_payback_years: number | null;
   project_payback_years: number | null;
+  tax_equity_irr?: number; // Partnership flip only; equity_irr is then the sponsor's
 }
 
 export interface FirstYearOperations {
@@ -122,6 +299,33 @@ export interface YearlyData {
   debt_service: number[];
   dscr: (number | null)[];
   cumulative_fcf_to_equity: number[];
+  // Debt schedule lines (absent in results calculated before debt schedules)
+  interest_payment?: number[];
+  principal_repayment?: number[];
+  debt_balance?: number[]; // Closing balance
+  dsra_balance?: number[]; // Closing balance
+  dsra_movement?: number[]; // Released to equity (+) or funded from CFADS (-)
+  // Scheduled cost lines (absent without cost events or decommissioning)
+  scheduled_costs?: number[]; // Cost events and net decommissioning, included in EBITDA
+  reserve_movement?: number[]; // Released to pay costs (+) or funded from CFADS (-)
+  reserve_balance?: number[];
+  // Revenue stack lines (absent without a revenue stack)
+  revenue_contracted?: number[];
+  revenue_merchant?: number[];
+  revenue_capacity?: number[];
+  revenue_rec?: number[];
+  curtailed_mwh?: number[];
+  // Module power lines (absent without a degradation profile)
+  module_power?: number[]; // Expected share of nameplate power at year end
+  warranted_power?: (number | null)[]; // Power warranty (absent without one, null beyond its term)
+  // Tax lines (absent in results calculated before the tax module)
+  depreciation?: number[];
+  taxable_income?: number[]; // After interest and loss carry-forward
+  tax_paid?: number[]; // Negative when losses offset other income
+  tax_credits?: number[]; // ITC + PTC
+  nol_balance?: number[]; // Closing loss carry-forward
+  tax_equity_cash_flow?: number[]; // Partnership flip: cash + tax benefits to the tax equity investor
+  sponsor_cash_flow?: number[]; // Partnership flip: remainder to the sponsor
 }
 
 export interface MonthlyDataPoint {
@@ -131,15 +335,20 @@ export interface MonthlyDataPoint {
   energy_production_mwh: number;
   revenue: number;
   om_costs: number;
+  scheduled_costs?: number; // Annual scheduled costs spread evenly
   ebitda: number;
   cfads: number;
   debt_service: number;
   dscr: number | null;  // DSCR for this month (null if no debt service)
+  interest_payment?: number;
+  principal_repayment?: number;
+  dsra_movement?: number; // Released to equity (+) or funded from CFADS (-)
   fcf_to_equity: number;
   cumulative_fcf_to_equity: number;
 }
 
 export interface ProjectResults {
+  currency?: string; // Reporting currency the results are in
   project_summary: ProjectSummary;
   financing_structure: FinancingStructure;
   key_metrics: KeyMetrics;
@@ -150,13 +359,25 @@ export interface ProjectResults {
   monthly_data?: MonthlyDataPoint[];
 }
 
+// Named case (e.g. "High CAPEX") run against the model's base inputs
+export interface FinancialScenario {
+  id: string;
+  name: string;
+  description?: string;
+  overrides: Partial<FinancialInputs>; // Inputs that differ from the base case
+  results?: ProjectResults; // Cached results (cleared when base inputs or overrides change)
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Financial Model entity (linked to a Project)
 export interface FinancialModel {
   id: string;
   projectId: string; // Foreign key to Project
   name: string;
-  inputs: FinancialInputs;
+  inputs: FinancialInputs; // Base case
   results?: ProjectResults; // Cached calculation results
+  scenarios?: FinancialScenario[];
   createdBy: string;
   creatorId: string;
   createdAt: string;
@@ -185,3 +406,54 @@ export const DEFAULT_FINANCIAL_INPUTS: FinancialInputs = {
   tax_rate: 0.25,
   discount_rate: 0.08,
 };
+
+// Typical uncertainty for a bankable yield assessment with on-site or satellite data
+export const DEFAULT_YIELD_UNCERTAINTY: YieldUncertainty = {
+  interannual_variability: 0.04,
+  model_uncertainty: 0.05,
+  degradation_uncertainty: 0.001,
+};
+
+// Typical mono-Si module: 1% LID, linear ageing at degradation_rate, no warranty set
+export const DEFAULT_DEGRADATION_PROFILE: DegradationProfile = {
+  lid: 0.01,
+  letid: 0,
+  curve: 'linear',
+  rate_acceleration: 0.03,
+};
+
+// Plain annuity loan drawn at COD (matches models created before debt terms)
+export const DEFAULT_DEBT_TERMS: DebtTerms = {
+  repayment_profile: 'annuity',
+  grace_period_years: 0,
+  construction_months: 0,
+  drawdown_curve: 's_curve',
+  upfront_fee: 0,
+  commitment_fee: 0,
+  dsra_months: 0,
+};
+
+// US-style defaults: MACRS 5-year with a 30% ITC and losses carried forward
+export const DEFAULT_TAX_TERMS: TaxTerms = {
+  depreciation_method: 'macrs_5',
+  straight_line_years: 20,
+  bonus_depreciation: 0,
+  depreciable_share: 0.95,
+  interest_deductible: true,
+  tax_credit: 'itc',
+  itc_rate: 0.3,
+  ptc_rate: 27.5,
+  ptc_escalation: 0.02,
+  ptc_years: 10,
+  nol_carryforward: true,
+  nol_utilisation_limit: 0.8,
+};
+
+// Typical yield-based flip structure
+export const DEFAULT_PARTNERSHIP_FLIP: PartnershipFlipTerms = {
+  investment_share: 0.4,
+  pre_flip_tax_allocation: 0.99,
+  pre_flip_cash_allocation: 0.35,
+  post_flip_allocation: 0.05,
+  flip_year: 7,
+};
@@ -14,13 +14,23 @@ export interface ModuleInput {
   wattage: number; // Module wattage in W (e.g., 665)
 }
 
+/**
+ * Mounting structure type
+ * - fixed_tilt: static tables at tiltAngle facing azimuth
+ * - single_axis_tracker: north-south rows rotating east-west about a horizontal axis
+ */
+export type MountType = 'fixed_tilt' | 'single_axis_tracker';
+
 /**
  * Layout generation parameters
  */
 export interface LayoutParameters {
+  // Mounting structure (optional for layouts generated before trackers were supported)
+  mountType?: MountType; // Default 'fixed_tilt'
+
   // Tilt & Orientation
-  tiltAngle: number; // Degrees (0-45), default 20
-  azimuth: number; // Degrees (0-360), default 180 (south-facing)
+  tiltAngle: number; // Degrees (0-45), default 20 - ignored for trackers
+  azimuth: number; // Degrees (0-360), default 180 (south-facing) - ignored for trackers
 
   // Frame configuration - modules grouped into frames/tables
   frameRows: number; // Number of module rows per frame (default: 2)
@@ -37,6 +47,15 @@ export interface LayoutParameters {
   corridorEveryNFramesX: number; // Corridor every N frames horizontally (0 = disabled)
   corridorEveryNFramesY: number; // Corridor every N frame rows vertically (0 = disabled)
 
+  // Single-axis tracker configuration (used when mountType === 'single_axis_tracker')
+  trackerMaxRotationDeg?: number; // Rotation limit either side of horizontal (default: 60)
+  trackerPitchM?: number; // Axis-to-axis distance between tracker rows (default: 6m)
+  trackerBacktracking?: boolean; // Backtrack to avoid row-to-row shading (default: true)
+
+  // Structural terrain limits (applied when the site has a DEM terrain grid)
+  maxSlopeNSPercent?: number; // Max ground slope under a frame, north-south (default: 15%)
+  maxSlopeEWPercent?: number; // Max ground slope under a frame, east-west (default: 10%)
+
   // Legacy - kept for backwards compatibility but deprecated
   gcr: number; // Ground Coverage Ratio - now calculated from frame params
   rowGapM: number; // Deprecated - use frameGapY instead
@@ -58,6 +77,10 @@ export interface FramePlacement {
   heightM: number;
   // Rotation angle in degrees (from azimuth)
   rotationDeg: number;
+  // Ground under the frame (only when the site has a DEM terrain grid)
+  groundElevationM?: number; // Elevation at the frame centre (m above sea level)
+  groundSlopeNSPercent?: number; // Rise towards north (%)
+  groundSlopeEWPercent?: number; // Rise towards east (%)
 }
 
 /**
@@ -74,6 +97,18 @@ export interface PanelRow {
   lengthM: number;
 }
 
+/**
+ * Single-axis tracker geometry carried on a generated layout
+ */
+export interface TrackerConfig {
+  axisAzimuth: number; // Compass direction of the rotation axis (0 = north-south)
+  maxRotationDeg: number; // Rotation limit either side of horizontal
+  backtracking: boolean;
+  pitchM: number; // Axis-to-axis row distance
+  gcr: number; // Tracker width across the axis / pitch
+  axisHeightM: number; // Height of the rotation axis above ground
+}
+
 /**
  * Summary statistics for generated layout
  */
@@ -86,6 +121,7 @@ export interface LayoutSummary {
   actualGcr: number;
   coveredAreaSqm: number; // Usable area after setbacks
   moduleAreaSqm: number; // Total panel surface area
+  slopeRejectedFrames?: number; // Frames dropped for exceeding the terrain slope limits
 }
 
 /**
@@ -104,6 +140,9 @@ export interface GeneratedLayout {
   /** @deprecated Use frames instead */
   rows: PanelRow[];
 
+  // Tracker geometry (only present for single-axis tracker layouts)
+  tracker?: TrackerConfig;
+
   // Summary statistics
   summary: LayoutSummary;
 
@@ -115,6 +154,9 @@ export interface GeneratedLayout {
  * Default layout parameters
  */
 export const DEFAULT_LAYOUT_PARAMETERS: LayoutParameters = {
+  // Mounting structure
+  mountType: 'fixed_tilt',
+
   // Tilt & Orientation
   tiltAngle: 20,
   azimuth: 180,
@@ -134,6 +176,15 @@ export const DEFAULT_LAYOUT_PARAMETERS: LayoutParameters = {
   corridorEveryNFramesX: 0, // Disabled by default (horizontal corridors less common)
   corridorEveryNFramesY: 4, // Corridor every 4 rows of frames
 
+  // Tracker
+  trackerMaxRotationDeg: 60,
+  trackerPitchM: 6,
+  trackerBacktracking: true,
+
+  // Terrain
+  maxSlopeNSPercent: 15,
+  maxSlopeEWPercent: 10,
+
   // Legacy (deprecated)
   gcr: 0.4,
   rowGapM: 3,
@@ -162,6 +213,14 @@ export const LAYOUT_PARAMETER_LIMITS = {
   corridorEveryNFramesX: { min: 0, max: 20, step: 1 },
   corridorEveryNFramesY: { min: 0, max: 10, step: 1 },
 
+  // Tracker
+  trackerMaxRotationDeg: { min: 30, max: 60, step: 5 },
+  trackerPitchM: { min: 3, max: 15, step: 0.5 },
+
+  // Terrain
+  maxSlopeNSPercent: { min: 1, max: 40, step: 1 },
+  maxSlopeEWPercent: { min: 1, max: 40, step: 1 },
+
   // Legacy (deprecated)
   gcr: { min: 0.2, max: 0.7, step: 0.01 },
   rowGapM: { min: 1, max: 10, step: 0.5 },
@@ -171,6 +230,7 @@ export const LAYOUT_PARAMETER_LIMITS = {
  * Labels for layout parameters
  */
 export const LAYOUT_PARAMETER_LABELS: Record<keyof LayoutParameters, string> = {
+  mountType: 'Mount Type',
   tiltAngle: 'Tilt Angle',
   azimuth: 'Azimuth (Orientation)',
   frameRows: 'Frame Rows',
@@ -182,6 +242,11 @@ export const LAYOUT_PARAMETER_LABELS: Record<keyof LayoutParameters, string> = {
   corridorWidth: 'Corridor Width',
   corridorEveryNFramesX: 'Corridor Every N Columns',
   corridorEveryNFramesY: 'Corridor Every N Rows',
+  trackerMaxRotationDeg: 'Tracker Rotation Limit',
+  trackerPitchM: 'Tracker Row Pitch',
+  trackerBacktracking: 'Backtracking',
+  maxSlopeNSPercent: 'Max Slope N-S',
+  maxSlopeEWPercent: 'Max Slope E-W',
   gcr: 'Ground Coverage Ratio (GCR)',
   rowGapM: 'Row Gap (Legacy)',
 };
@@ -190,6 +255,7 @@ export const LAYOUT_PARAMETER_LABELS: Record<keyof LayoutParameters, string> = {
  * Descriptions for layout parameters
  */
 export const LAYOUT_PARAMETER_DESCRIPTIONS: Record<keyof LayoutParameters, string> = {
+  mountType: 'Fixed-tilt tables or north-south single-axis trackers',
   tiltAngle: 'Panel tilt angle in degrees from horizontal',
   azimuth: '0° = North, 90° = East, 180° = South, 270° = West',
   frameRows: 'Number of module rows per frame/table',
@@ -201,6 +267,11 @@ export const LAYOUT_PARAMETER_DESCRIPTIONS: Record<keyof LayoutParameters, strin
   corridorWidth: 'Width of maintenance vehicle corridors',
   corridorEveryNFramesX: 'Insert corridor after every N columns (0 = disabled)',
   corridorEveryNFramesY: 'Insert corridor after every N rows (0 = disabled)',
+  trackerMaxRotationDeg: 'Maximum rotation either side of horizontal',
+  trackerPitchM: 'Axis-to-axis distance between tracker rows',
+  trackerBacktracking: 'Rotate back at low sun angles to avoid row-to-row shading',
+  maxSlopeNSPercent: 'Frames on steeper north-south ground are not placed (needs site terrain)',
+  maxSlopeEWPercent: 'Frames on steeper east-west ground are not placed (needs site terrain)',
   gcr: 'Ratio of panel area to ground area (calculated automatically)',
   rowGapM: 'Legacy parameter - use frameGapY instead',
 };
@@ -94,6 +94,15 @@ export const MAINTENANCE_CATEGORY_ORDER: MaintenanceCategory[] = [
   'replacement',
 ];
 
+// Days between occurrences of a recurring schedule
+export const RECURRENCE_INTERVAL_DAYS: Record<Exclude<RecurrenceType, 'once'>, number> = {
+  weekly: 7,
+  monthly: 30,
+  quarterly: 91,
+  semi_annual: 182,
+  annual: 365,
+};
+
 // Helper to calculate next due date from recurrence
 export function calculateNextDueDate(
   startDate: string,
@@ -108,15 +117,7 @@ export function calculateNextDueDate(
   const current = new Date(fromDate);
   let next = new Date(start);
 
-  const intervals: Record<Exclude<RecurrenceType, 'once'>, number> = {
-    weekly: 7,
-    monthly: 30,
-    quarterly: 91,
-    semi_annual: 182,
-    annual: 365,
-  };
-
-  const daysInterval = intervals[recurrence as Exclude<RecurrenceType, 'once'>];
+  const daysInterval = RECURRENCE_INTERVAL_DAYS[recurrence as Exclude<RecurrenceType, 'once'>];
 
   while (next <= current) {
     next.setDate(next.getDate() + daysInterval);
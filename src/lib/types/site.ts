@@ -7,6 +7,7 @@
 
 import type { SiteScorecard } from './siteScorecard';
 import type { SiteComment } from './siteComment';
+import type { DesignTemperatures } from '../electrical/types';
 
 /** A single coordinate point with optional elevation (meters above sea level) */
 export interface SiteCoordinate {
@@ -33,6 +34,13 @@ export type ExclusionZoneType =
   | 'water_body'
   | 'other';
 
+/** Line or point feature that a buffered exclusion zone was generated from */
+export interface ExclusionZoneFeature {
+  geometry: 'line' | 'point';
+  coordinates: SiteCoordinate[];   // Line vertices, or the single point
+  bufferM: number;                 // Buffer radius around the feature (m)
+}
+
 export interface SiteExclusionZone {
   id: string;
   name: string;
@@ -40,6 +48,8 @@ export interface SiteExclusionZone {
   coordinates: SiteCoordinate[];
   area?: number; // Area in square meters
   description?: string;
+  autoGenerated?: boolean; // Created by terrain analysis - replaced when re-run
+  feature?: ExclusionZoneFeature; // Buffered line/point - coordinates hold the buffer polygon
 }
 
 export interface SiteImportMetadata {
@@ -55,6 +65,52 @@ export interface ElevationRange {
   avg: number;
 }
 
+/**
+ * Elevation grid resampled from a DEM, in the site's local frame
+ * (meters east/north of the centroid). Nodes run west to east within a
+ * row and rows run south to north.
+ */
+export interface SiteTerrainGrid {
+  originX: number;                 // Local x of the south-west node (m)
+  originY: number;                 // Local y of the south-west node (m)
+  cellSize: number;                // Node spacing (m)
+  columns: number;
+  rows: number;
+  elevations: (number | null)[];   // Row-major, meters above sea level (null = no data)
+}
+
+/** Ground surface under the array, for default albedo values */
+export type GroundCoverType =
+  | 'grass'
+  | 'dry_grass'
+  | 'bare_soil'
+  | 'sand'
+  | 'gravel'
+  | 'concrete'
+  | 'white_membrane'
+  | 'custom';
+
+/**
+ * Ground reflectance of a site. Snow cover raises the effective albedo of a
+ * month in proportion to the days with snow on the ground.
+ */
+export interface SiteAlbedo {
+  groundCover: GroundCoverType;
+  monthly: number[];               // 12 snow-free ground reflectance values (0-1)
+  snowDays: number[];              // 12 values, days with snow on the ground per month
+  snowAlbedo: number;              // Reflectance of snow cover (0-1)
+}
+
+/**
+ * Monthly climate of a site for the soiling and snow loss models. Rain days
+ * count days with enough rain (about 5 mm) to wash the modules.
+ */
+export interface SiteClimate {
+  rainDays: number[];              // 12 values, cleaning rain days per month
+  snowfallCm: number[];            // 12 values, snowfall per month (cm)
+  soilingRate: number;             // % output lost per dry day
+}
+
 export interface Site {
   id: string;
   projectId: string;
@@ -83,6 +139,10 @@ export interface Site {
   totalArea?: number; // Total boundary area in square meters
   usableArea?: number; // Total minus exclusions
   elevationRange?: ElevationRange;
+  terrain?: SiteTerrainGrid; // DEM grid (PVSDZ imports with a GeoTIFF)
+  albedo?: SiteAlbedo; // Ground reflectance for bifacial yield (default grass)
+  climate?: SiteClimate; // Rain and snowfall for soiling and snow losses
+  recordTemperatures?: DesignTemperatures; // String sizing (DEFAULT_DESIGN_TEMPERATURES if not set)
 
   // Optional link to design
   linkedDesignId?: string;
@@ -99,6 +159,7 @@ export interface KMLParseResult {
   exclusionZones: SiteExclusionZone[];
   centroid?: { latitude: number; longitude: number };
   totalArea?: number;
+  terrain?: SiteTerrainGrid;
 }
 
 export const EXCLUSION_ZONE_LABELS: Record<ExclusionZoneType, string> = {
@@ -112,3 +173,28 @@ export const EXCLUSION_ZONE_LABELS: Record<ExclusionZoneType, string> = {
   water_body: 'Water Body',
   other: 'Other',
 };
+
+export const GROUND_COVER_LABELS: Record<GroundCoverType, string> = {
+  grass: 'Grass',
+  dry_grass: 'Dry Grass',
+  bare_soil: 'Bare Soil',
+  sand: 'Sand',
+  gravel: 'Gravel',
+  concrete: 'Concrete',
+  white_membrane: 'White Membrane',
+  custom: 'Custom',
+};
+
+/** Typical snow-free albedo of each ground cover */
+export const GROUND_COVER_ALBEDO: Record<GroundCoverType, number> = {
+  grass: 0.2,
+  dry_grass: 0.28,
+  bare_soil: 0.17,
+  sand: 0.35,
+  gravel: 0.25,
+  concrete: 0.3,
+  white_membrane: 0.6,
+  custom: 0.2,
+};
+
+export const DEFAULT_SNOW_ALBEDO = 0.8;
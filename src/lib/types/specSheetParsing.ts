@@ -61,6 +61,18 @@ export interface SharedModuleSpecs {
   tempCoeffVoc: ExtractedField<number>;
   /** Current temperature coefficient in %/°C */
   tempCoeffIsc: ExtractedField<number>;
+
+  // Degradation and Power Warranty
+  /** Light-induced degradation in % */
+  lid: ExtractedField<number>;
+  /** Light and elevated temperature induced degradation in % */
+  letid: ExtractedField<number>;
+  /** Warranted maximum power loss in year 1 in % */
+  firstYearDegradation: ExtractedField<number>;
+  /** Warranted maximum annual power loss after year 1 in % */
+  annualDegradation: ExtractedField<number>;
+  /** Linear power warranty term in years */
+  warrantyYears: ExtractedField<number>;
 }
 
 /**
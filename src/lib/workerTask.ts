@@ -0,0 +1,54 @@
+/**
+ * Worker Task
+ *
+ * Message protocol and worker-side runner for long calculations that run in
+ * a Web Worker and report progress (see useWorkerTask for the main thread).
+ */
+
+/** Progress callback of a task: items evaluated / total */
+export type WorkerTaskProgress = (evaluated: number, total: number) => void;
+
+export type WorkerTaskRequest<TInput> = { type: 'run'; input: TInput };
+
+export type WorkerTaskResponse<TResult> =
+  | { type: 'progress'; evaluated: number; total: number }
+  | { type: 'result'; result: TResult }
+  | { type: 'error'; message: string };
+
+/** Minimum interval between progress messages (ms) */
+const PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Run a task for every 'run' message received by the current worker, posting
+ * throttled progress and then its result or error.
+ *
+ * @param task - Calculation to run, reporting progress through its callback
+ * @param failureMessage - Error message when the task throws a non-Error
+ */
+export function serveWorkerTask<TInput, TResult>(
+  task: (input: TInput, onProgress: WorkerTaskProgress) => TResult,
+  failureMessage: string
+): void {
+  const post = (message: WorkerTaskResponse<TResult>) => self.postMessage(message);
+
+  self.onmessage = (event: MessageEvent<WorkerTaskRequest<TInput>>) => {
+    if (event.data.type !== 'run') return;
+
+    let lastProgress = 0;
+    try {
+      const result = task(event.data.input, (evaluated, total) => {
+        const now = Date.now();
+        if (now - lastProgress >= PROGRESS_INTERVAL_MS || evaluated === total) {
+          lastProgress = now;
+          post({ type: 'progress', evaluated, total });
+        }
+      });
+      post({ type: 'result', result });
+    } catch (error) {
+      post({
+        type: 'error',
+        message: error instanceof Error ? error.message : failureMessage,
+      });
+    }
+  };
+}
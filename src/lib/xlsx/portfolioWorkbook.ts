@@ -0,0 +1,132 @@
+/**
+ * Portfolio Workbook
+ *
+ * XLSX export of the portfolio roll-up: a summary sheet, capacity by stage,
+ * per-project metrics and the aggregated yearly cash flows
+ */
+
+import type { PortfolioSummary } from '@/lib/calculator/portfolio';
+import { PRIORITY_LABELS } from '@/lib/constants';
+import { buildWorkbook, type XlsxSheet } from './workbook';
+
+/**
+ * Sheets of the portfolio workbook (amounts unformatted, in the portfolio currency)
+ */
+export function portfolioSheets(
+  summary: PortfolioSummary,
+  filterSummary: string,
+  ownerName: (ownerId: string) => string = (ownerId) => ownerId
+): XlsxSheet[] {
+  const c = summary.currency;
+  return [
+    {
+      name: 'Summary',
+      header: ['Metric', 'Value'],
+      columnWidths: [36, 24],
+      rows: [
+        ['Generated', new Date().toLocaleString()],
+        ['Filters', filterSummary],
+        ['Currency', c],
+        ['Projects', summary.projectCount],
+        ['Calculated models', summary.calculatedCount],
+        ['Total capacity (MW)', summary.totalCapacityMw],
+        [`Total CAPEX (${c})`, summary.totalCapex],
+        [`Total equity (${c})`, summary.totalEquity],
+        ['Capacity-weighted project IRR', summary.weightedProjectIrr],
+        ['Capacity-weighted equity IRR', summary.weightedEquityIrr],
+        [`Capacity-weighted LCOE (${c}/MWh)`, summary.weightedLcoe],
+        ['Currencies without FX rate (converted 1:1)', summary.missingRates.join(', ') || null],
+      ],
+    },
+    {
+      name: 'By Stage',
+      header: ['Stage', 'Projects', 'Capacity (MW)', `CAPEX (${c})`],
+      columnWidths: [28, 12, 16, 20],
+      rows: summary.stages.map((stage) => [
+        stage.stageName,
+        stage.projectCount,
+        stage.capacityMw,
+        stage.totalCapex,
+      ]),
+    },
+    {
+      name: 'Projects',
+      header: [
+        'Project',
+        'Stage',
+        'Owner',
+        'Priority',
+        'Capacity (MW)',
+        `CAPEX (${c})`,
+        'Project IRR',
+        'Equity IRR',
+        `LCOE (${c}/MWh)`,
+        `NPV (${c})`,
+        'Model currency',
+        'Calculated',
+      ],
+      columnWidths: [32, 20, 20, 10, 14, 18, 12, 12, 16, 18, 14, 11],
+      rows: summary.projects.map((p) => [
+        p.projectName,
+        p.stageName,
+        ownerName(p.owner),
+        PRIORITY_LABELS[p.priority] ?? null,
+        p.capacityMw,
+        p.totalCapex,
+        p.projectIrr,
+        p.equityIrr,
+        p.lcoe,
+        p.projectNpv,
+        p.sourceCurrency,
+        p.calculated ? 'Yes' : 'No',
+      ]),
+    },
+    {
+      name: 'Cash Flows',
+      header: [
+        'Operating year',
+        'Energy (MWh)',
+        `Revenue (${c})`,
+        `O&M (${c})`,
+        `EBITDA (${c})`,
+        `CFADS (${c})`,
+        `Debt service (${c})`,
+        `FCF to equity (${c})`,
+        `Cumulative FCF (${c})`,
+      ],
+      columnWidths: [14, 16, 18, 18, 18, 18, 18, 18, 20],
+      rows: summary.years.map((row) => [
+        row.year,
+        row.energy_mwh,
+        row.revenue,
+        row.om_costs,
+        row.ebitda,
+        row.cfads,
+        row.debt_service,
+        row.fcf_to_equity,
+        row.cumulative_fcf_to_equity,
+      ]),
+    },
+  ];
+}
+
+/**
+ * Generate and download the portfolio workbook
+ */
+export async function downloadPortfolioWorkbook(
+  summary: PortfolioSummary,
+  filterSummary: string,
+  ownerName?: (ownerId: string) => string,
+  filename?: string
+): Promise<void> {
+  const blob = await buildWorkbook(portfolioSheets(summary, filterSummary, ownerName));
+
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename || `Portfolio_Summary_${new Date().toISOString().slice(0, 10)}.xlsx`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
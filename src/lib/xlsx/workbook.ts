@@ -0,0 +1,151 @@
+/**
+ * XLSX Workbook Writer
+ *
+ * Minimal Office Open XML spreadsheet writer: one or more sheets of string
+ * and number cells with a bold header row, zipped with JSZip. Enough for data
+ * exports that open in Excel, LibreOffice and Google Sheets.
+ */
+
+export type XlsxCell = string | number | null;
+
+export interface XlsxSheet {
+  name: string;              // Max 31 characters, no []:*?/\
+  header: string[];          // Bold first row
+  rows: XlsxCell[][];
+  columnWidths?: number[];   // In characters
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters of a zero-based index (0 -> A, 26 -> AA)
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+}
+
+function cellXml(value: XlsxCell, ref: string, style: number): string {
+  if (value === null || (typeof value === 'number' && !Number.isFinite(value))) {
+    return style ? `<c r="${ref}" s="${style}"/>` : '';
+  }
+  const s = style ? ` s="${style}"` : '';
+  if (typeof value === 'number') {
+    return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+  const rows = [sheet.header, ...sheet.rows].map((row, r) => {
+    const cells = row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 0));
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths
+        .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+        .join('')}</cols>`
+    : '';
+  return (
+    XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+    cols +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+const STYLES_XML =
+  XML_HEADER +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * Build an .xlsx file from sheets
+ */
+export async function buildWorkbook(sheets: XlsxSheet[]): Promise<Blob> {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+
+  zip.file(
+    '[Content_Types].xml',
+    XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets
+        .map(
+          (_, i) =>
+            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join('') +
+      '</Types>'
+  );
+
+  zip.file(
+    '_rels/.rels',
+    XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>'
+  );
+
+  zip.file(
+    'xl/workbook.xml',
+    XML_HEADER +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+      sheets
+        .map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+        .join('') +
+      '</sheets></workbook>'
+  );
+
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      sheets
+        .map(
+          (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        )
+        .join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+  );
+
+  zip.file('xl/styles.xml', STYLES_XML);
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet)));
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
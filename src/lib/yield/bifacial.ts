@@ -0,0 +1,416 @@
+/**
+ * Bifacial Rear-Side Irradiance
+ *
+ * Estimates the irradiance reaching the rear of bifacial modules with a 2D
+ * view-factor model of infinitely long rows (cross-section perpendicular to
+ * the rows), and the resulting energy gain over the front side.
+ *
+ * The ground between rows is sampled across one pitch: each point receives
+ * beam light unless it lies in a row's shadow, and sky diffuse light reduced
+ * by the rows that block its view of the sky. The rear surface sees this
+ * ground through its view factor, so low mounting heights see mostly the
+ * shadow under their own row and higher mountings a wider, brighter strip.
+ * Rear sky diffuse is isotropic, and beam reaches the rear when the sun is
+ * behind the modules.
+ *
+ * The rear irradiance is weighted by the module bifaciality and reduced by
+ * a rear loss for structure shading and rear mismatch.
+ */
+
+import type { GeneratedLayout, TrackerConfig } from '@/lib/types/layout';
+import type { SiteAlbedo, GroundCoverType } from '@/lib/types/site';
+import type { BifacialGeometry, YieldCalculationInput, YieldEstimate } from './types';
+import { GROUND_COVER_ALBEDO, DEFAULT_SNOW_ALBEDO } from '@/lib/types/site';
+import { GENERATED_MOUNTING_HEIGHT_M } from '@/lib/layout/toParsedData';
+import {
+  calculateTrueTrackingAngle,
+  calculateTrackerRotation,
+  calculateRowShadingFraction,
+} from '@/lib/layout/tracker';
+import { buildSunPath } from './shading';
+import { DAYS_IN_MONTH, toRadians } from './constants';
+
+/** Default rear loss (%) for structure shading and rear mismatch */
+export const DEFAULT_REAR_LOSS = 5;
+
+const DEFAULT_ALBEDO = 0.2;
+const GROUND_SAMPLES = 24;        // Ground points per pitch
+const REAR_SAMPLES = 5;           // Points along the collector width
+const SKY_BLOCKING_ROWS = 8;       // Rows each side that can block the ground's sky view
+const REAR_VIEW_ROWS = 4;         // Pitches each side of the rear's detailed ground view
+
+/** Point in the row cross-section: s along the facing direction, z up (m) */
+interface SectionPoint {
+  s: number;
+  z: number;
+}
+
+/**
+ * Cross-section of one row (centred at s = 0) and the row pitch. The front
+ * faces +s and the lower edge is on the facing side.
+ */
+export interface RowSection {
+  lower: SectionPoint;
+  upper: SectionPoint;
+  pitch: number;
+  tiltRad: number;
+}
+
+export interface BifacialGainResult {
+  monthlyGain: number[];          // 12 ratios of (front + rear) / front energy
+  annualGain: number;             // % energy gain from the rear side
+  rearIrradiance: number;         // Rear irradiance before bifaciality and rear loss, % of front
+}
+
+/**
+ * Default site albedo for a ground cover, without snow
+ */
+export function createSiteAlbedo(groundCover: GroundCoverType = 'grass'): SiteAlbedo {
+  return {
+    groundCover,
+    monthly: new Array<number>(12).fill(GROUND_COVER_ALBEDO[groundCover]),
+    snowDays: new Array<number>(12).fill(0),
+    snowAlbedo: DEFAULT_SNOW_ALBEDO,
+  };
+}
+
+/**
+ * Effective monthly albedo of a site: the ground reflectance blended with
+ * the snow albedo by the share of days with snow cover.
+ *
+ * @param albedo - Site albedo (grass without snow when absent)
+ * @returns 12 albedo values (0-1)
+ */
+export function monthlyEffectiveAlbedo(albedo?: SiteAlbedo): number[] {
+  const site = albedo ?? createSiteAlbedo();
+  return DAYS_IN_MONTH.map((days, m) => {
+    const snowShare = Math.min(1, Math.max(0, (site.snowDays[m] ?? 0) / days));
+    const ground = site.monthly[m] ?? GROUND_COVER_ALBEDO[site.groundCover];
+    return ground * (1 - snowShare) + site.snowAlbedo * snowShare;
+  });
+}
+
+/**
+ * Monthly albedo of a yield calculation: the monthly values when given,
+ * otherwise the single albedo (default 0.2) for every month.
+ */
+export function resolveMonthlyAlbedo(
+  input: Pick<YieldCalculationInput, 'albedo' | 'monthlyAlbedo'>
+): number[] {
+  if (input.monthlyAlbedo?.length === 12) return input.monthlyAlbedo;
+  return new Array<number>(12).fill(input.albedo ?? DEFAULT_ALBEDO);
+}
+
+/**
+ * Row geometry of a generated layout for the rear-side model.
+ *
+ * Fixed-tilt pitch is the projected frame depth plus LayoutParameters.frameGapY;
+ * trackers use their configured pitch and axis height.
+ *
+ * @param layout - Generated layout
+ * @param bifacialityFactor - Module bifaciality (ModuleSpecs.bifacialityFactor)
+ */
+export function bifacialGeometryFromLayout(
+  layout: GeneratedLayout,
+  bifacialityFactor: number
+): BifacialGeometry {
+  const { parameters, module, tracker } = layout;
+  // Fixed tilt holds modules in landscape, trackers in portrait across the axis
+  const moduleDepthM = (tracker ? module.lengthMm : module.widthMm) / 1000;
+  const collectorWidthM =
+    parameters.frameRows * moduleDepthM + (parameters.frameRows - 1) * parameters.moduleGapM;
+
+  if (tracker) {
+    return {
+      bifacialityFactor,
+      collectorWidthM,
+      pitchM: tracker.pitchM,
+      mountingHeightM: tracker.axisHeightM,
+    };
+  }
+
+  return {
+    bifacialityFactor,
+    collectorWidthM,
+    pitchM: collectorWidthM * Math.cos(toRadians(parameters.tiltAngle)) + parameters.frameGapY,
+    mountingHeightM: GENERATED_MOUNTING_HEIGHT_M,
+  };
+}
+
+/**
+ * Cross-section of a row at a surface tilt.
+ *
+ * @param geometry - Row geometry
+ * @param tiltRad - Surface tilt (tracker: absolute rotation)
+ * @param tracker - Mounting height is the axis height (centre) rather than the lower edge
+ */
+export function buildRowSection(
+  geometry: BifacialGeometry,
+  tiltRad: number,
+  tracker: boolean = false
+): RowSection {
+  const half = geometry.collectorWidthM / 2;
+  const centreHeight = tracker
+    ? geometry.mountingHeightM
+    : geometry.mountingHeightM + half * Math.sin(tiltRad);
+
+  return {
+    lower: { s: half * Math.cos(tiltRad), z: Math.max(0, centreHeight - half * Math.sin(tiltRad)) },
+    upper: { s: -half * Math.cos(tiltRad), z: centreHeight + half * Math.sin(tiltRad) },
+    pitch: Math.max(geometry.pitchM, geometry.collectorWidthM * Math.cos(tiltRad)),
+    tiltRad,
+  };
+}
+
+/**
+ * Share of the sky seen from a ground point, after the rows that block it.
+ */
+function groundSkyView(section: RowSection, g: number): number {
+  const blocked: Array<[number, number]> = [];
+  for (let k = -SKY_BLOCKING_ROWS; k <= SKY_BLOCKING_ROWS; k++) {
+    const offset = k * section.pitch - g;
+    // Angles from the zenith, positive towards +s
+    const a = Math.atan2(section.lower.s + offset, section.lower.z);
+    const b = Math.atan2(section.upper.s + offset, section.upper.z);
+    blocked.push([Math.min(a, b), Math.max(a, b)]);
+  }
+  blocked.sort((p, q) => p[0] - q[0]);
+
+  let blockedView = 0;
+  let start = blocked[0][0];
+  let end = blocked[0][1];
+  for (const [a, b] of blocked.slice(1)) {
+    if (a > end) {
+      blockedView += (Math.sin(end) - Math.sin(start)) / 2;
+      start = a;
+    }
+    end = Math.max(end, b);
+  }
+  blockedView += (Math.sin(end) - Math.sin(start)) / 2;
+
+  return Math.max(0, 1 - blockedView);
+}
+
+/**
+ * Irradiance on the ground across one pitch (W/m², ground samples centred
+ * on the row).
+ */
+function groundIrradiance(
+  section: RowSection,
+  sunS: number,
+  sunZ: number,
+  dni: number,
+  dhi: number
+): number[] {
+  const { pitch } = section;
+
+  // Shadow of the row on the ground, projected along the sun
+  let shadowStart = 0;
+  let shadowLength = 0;
+  if (sunZ > 0) {
+    const a = section.lower.s - (section.lower.z * sunS) / sunZ;
+    const b = section.upper.s - (section.upper.z * sunS) / sunZ;
+    shadowStart = Math.min(a, b);
+    shadowLength = Math.abs(a - b);
+  }
+  const beam = sunZ > 0 ? dni * sunZ : 0;
+
+  return Array.from({ length: GROUND_SAMPLES }, (_, i) => {
+    const g = ((i + 0.5) / GROUND_SAMPLES - 0.5) * pitch;
+    const intoShadow = (((g - shadowStart) % pitch) + pitch) % pitch;
+    const lit = shadowLength < pitch && intoShadow >= shadowLength;
+    return (lit ? beam : 0) + dhi * groundSkyView(section, g);
+  });
+}
+
+/**
+ * Sine of the angle from the rear normal to a ground point, clamped to the
+ * rear's field of view.
+ */
+function rearViewSine(point: SectionPoint, normal: SectionPoint, g: number): number {
+  const v = { s: g - point.s, z: -point.z };
+  const angle = Math.atan2(normal.s * v.z - normal.z * v.s, normal.s * v.s + normal.z * v.z);
+  return Math.sin(Math.max(-Math.PI / 2, Math.min(Math.PI / 2, angle)));
+}
+
+/**
+ * Irradiance on the rear of a row (W/m², before bifaciality and rear loss).
+ *
+ * @param section - Row cross-section (see buildRowSection)
+ * @param sunS - Sun direction component along the facing direction
+ * @param sunZ - Sun direction vertical component (sine of the altitude)
+ * @param dni - Direct normal irradiance (W/m²)
+ * @param dhi - Diffuse horizontal irradiance (W/m²)
+ * @param albedo - Ground reflectance (0-1)
+ */
+export function calculateRearIrradiance(
+  section: RowSection,
+  sunS: number,
+  sunZ: number,
+  dni: number,
+  dhi: number,
+  albedo: number
+): number {
+  const { pitch, tiltRad } = section;
+  const ground = groundIrradiance(section, sunS, sunZ, dni, dhi);
+  const meanGround = ground.reduce((a, b) => a + b, 0) / ground.length;
+
+  const normal = { s: -Math.sin(tiltRad), z: -Math.cos(tiltRad) };
+  const groundView = (1 + Math.cos(tiltRad)) / 2;
+  const step = pitch / GROUND_SAMPLES;
+  const reach = REAR_VIEW_ROWS * pitch;
+
+  let reflected = 0;
+  for (let j = 0; j < REAR_SAMPLES; j++) {
+    const t = (j + 0.5) / REAR_SAMPLES;
+    const point = {
+      s: section.lower.s + t * (section.upper.s - section.lower.s),
+      z: section.lower.z + t * (section.upper.z - section.lower.z),
+    };
+
+    // Ground within reach in detail, the rest at the mean ground irradiance
+    let seen = 0;
+    let viewed = 0;
+    let previous = rearViewSine(point, normal, -reach - pitch / 2);
+    for (let g = -reach - pitch / 2 + step; g <= reach + pitch / 2 + step / 2; g += step) {
+      const current = rearViewSine(point, normal, g);
+      const view = Math.abs(current - previous) / 2;
+      const index = Math.floor((((g - step / 2 + pitch / 2) % pitch) + pitch) % pitch / step);
+      seen += view * ground[Math.min(GROUND_SAMPLES - 1, index)];
+      viewed += view;
+      previous = current;
+    }
+    seen += Math.max(0, groundView - viewed) * meanGround;
+    reflected += (albedo * seen) / REAR_SAMPLES;
+  }
+
+  const sky = dhi * ((1 - Math.cos(tiltRad)) / 2);
+  const rearCos = -(Math.sin(tiltRad) * sunS + Math.cos(tiltRad) * sunZ);
+  const beam = sunZ > 0 ? dni * Math.max(0, rearCos) : 0;
+
+  return reflected + sky + beam;
+}
+
+/**
+ * Calculate the monthly bifacial gain over a representative clear-sky year.
+ *
+ * @param latitude - Site latitude in degrees
+ * @param tiltAngle - Fixed tilt in degrees (ignored for trackers)
+ * @param azimuth - Fixed azimuth (compass, 180 = south; ignored for trackers)
+ * @param geometry - Bifaciality and row geometry
+ * @param monthlyAlbedo - 12 ground reflectance values (see monthlyEffectiveAlbedo)
+ * @param tracker - Single-axis tracker geometry (from GeneratedLayout.tracker)
+ * @param beamFraction - Share of horizontal irradiance that is direct beam (default: 0.75)
+ * @returns Monthly gain factors and annual summary
+ */
+export function calculateBifacialGain(
+  latitude: number,
+  tiltAngle: number,
+  azimuth: number,
+  geometry: BifacialGeometry,
+  monthlyAlbedo: number[],
+  tracker?: TrackerConfig,
+  beamFraction: number = 0.75
+): BifacialGainResult {
+  const diffuseRatio = (1 - beamFraction) / Math.max(beamFraction, 0.01);
+  const rearFactor = geometry.bifacialityFactor * (1 - (geometry.rearLoss ?? DEFAULT_REAR_LOSS) / 100);
+
+  const fixedTiltRad = toRadians(tiltAngle);
+  const fixedAzRad = toRadians(azimuth);
+  const fixedFacing = { x: Math.sin(fixedAzRad), y: Math.cos(fixedAzRad) };
+  const fixedSection = buildRowSection(geometry, fixedTiltRad);
+
+  const axisRad = toRadians(tracker?.axisAzimuth ?? 0);
+  const west = { x: -Math.cos(axisRad), y: Math.sin(axisRad) };
+
+  const front = new Array<number>(12).fill(0);
+  const rear = new Array<number>(12).fill(0);
+
+  for (const sun of buildSunPath(latitude)) {
+    const albedo = monthlyAlbedo[sun.month] ?? DEFAULT_ALBEDO;
+    const dhi = sun.dni * sun.direction.z * diffuseRatio;
+    const ghi = sun.dni * sun.direction.z + dhi;
+
+    let section = fixedSection;
+    let facing = fixedFacing;
+    let beamShading = 0;
+    if (tracker) {
+      const rotation = calculateTrackerRotation(sun.azimuth, sun.altitude, tracker);
+      const rotRad = toRadians(rotation);
+      section = buildRowSection(geometry, Math.abs(rotRad), true);
+      facing = rotation < 0 ? { x: -west.x, y: -west.y } : west;
+      beamShading = calculateRowShadingFraction(
+        calculateTrueTrackingAngle(sun.azimuth, sun.altitude, tracker.axisAzimuth),
+        rotation,
+        tracker.gcr
+      );
+    }
+
+    const sunS = facing.x * sun.direction.x + facing.y * sun.direction.y;
+    const frontCos = Math.max(0, Math.sin(section.tiltRad) * sunS + Math.cos(section.tiltRad) * sun.direction.z);
+    const frontIrradiance =
+      sun.dni * frontCos * (1 - beamShading) +
+      dhi * ((1 + Math.cos(section.tiltRad)) / 2) +
+      ghi * albedo * ((1 - Math.cos(section.tiltRad)) / 2);
+
+    front[sun.month] += frontIrradiance * sun.hours;
+    rear[sun.month] +=
+      rearFactor * calculateRearIrradiance(section, sunS, sun.direction.z, sun.dni, dhi, albedo) * sun.hours;
+  }
+
+  const monthlyGain = front.map((f, m) => (f > 0 ? 1 + rear[m] / f : 1));
+  // Weight months by their front energy for the annual figure
+  const totalFront = front.reduce((a, b) => a + b, 0);
+  const totalRear = rear.reduce((a, b) => a + b, 0);
+  const annualGain = totalFront > 0 ? (totalRear / totalFront) * 100 : 0;
+
+  return {
+    monthlyGain,
+    annualGain,
+    rearIrradiance: rearFactor > 0 ? annualGain / rearFactor : 0,
+  };
+}
+
+/**
+ * Add the rear-side gain to a monthly estimate.
+ *
+ * The gain is an irradiance gain on the plane-of-array reference, so the
+ * performance ratio grows with it and the breakdown reports it separately.
+ */
+export function applyBifacialProfile(
+  estimate: YieldEstimate,
+  geometry: BifacialGeometry,
+  monthlyAlbedo: number[],
+  tracker?: TrackerConfig
+): YieldEstimate {
+  const monofacialTotal = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+  if (monofacialTotal <= 0 || geometry.bifacialityFactor <= 0) return estimate;
+
+  const gain = calculateBifacialGain(
+    estimate.latitude,
+    estimate.tiltAngle,
+    estimate.azimuth,
+    geometry,
+    monthlyAlbedo,
+    tracker
+  );
+  const monthlyYield = estimate.monthlyYield.map((m, i) => m * gain.monthlyGain[i]);
+  const annualYield = monthlyYield.reduce((a, b) => a + b, 0);
+  const gainFactor = annualYield / monofacialTotal;
+  const performanceRatio = estimate.performanceRatio * gainFactor;
+
+  return {
+    ...estimate,
+    annualYield,
+    monthlyYield,
+    monthlyFactors: monthlyYield.map((m) => (annualYield > 0 ? m / annualYield : 0)),
+    performanceRatio,
+    losses: {
+      ...estimate.losses,
+      bifacialGain: (gainFactor - 1) * 100,
+      totalLoss: (1 - performanceRatio) * 100,
+    },
+    bifacialityFactor: geometry.bifacialityFactor,
+    monthlyAlbedo,
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Inverter Clipping and Export Limit
+ *
+ * Estimates the energy lost when DC output exceeds the inverter AC rating
+ * (high DC/AC ratios) or AC output exceeds a grid export limit at the point
+ * of interconnection, for estimates without an hourly profile.
+ *
+ * Each month is modelled as a spread of days between overcast and clear:
+ * the clear-sky plane-of-array shape is sampled every 15 minutes over the
+ * month's representative day, and daily clearness is uniformly distributed
+ * around the level that reproduces the month's energy. Clipping is the
+ * output above the limit, summed over the distribution.
+ */
+
+import type { TrackerConfig } from '@/lib/types/layout';
+import type { InverterSpecs } from '@/lib/types/component';
+import type { YieldEstimate } from './types';
+import { calculateTrackerRotation } from '@/lib/layout/tracker';
+import { DEFAULT_TARGET_DC_AC_RATIO } from '@/lib/electrical/stringSizing';
+import { buildSunPath } from './shading';
+import { DAYS_IN_MONTH, toRadians } from './constants';
+
+const SAMPLE_MINUTES = 15;
+const CLEARNESS_LEVELS = 20;
+const DIFFUSE_RATIO = 1 / 3;      // Clear-sky diffuse / beam on the horizontal
+
+export interface ClippingInput {
+  latitude: number;
+  tiltAngle: number;
+  azimuth: number;                // Compass, 180 = south
+  tracker?: TrackerConfig;
+  capacityKwp: number;            // DC capacity
+  acCapacityKw?: number;          // Inverter AC rating (no inverter clipping when absent)
+  exportLimitKw?: number;         // Grid export limit at the point of interconnection
+  monthlyYield: number[];         // 12 values in kWh before clipping
+  performanceRatio: number;       // 0-1, relative to plane-of-array irradiance
+}
+
+export interface ClippingResult {
+  monthlyYield: number[];         // 12 values in kWh after clipping and export limit
+  clippedEnergy: number;          // kWh/year lost to inverter clipping
+  exportLimitedEnergy: number;    // kWh/year lost to the export limit
+  clippingLoss: number;           // % of energy before clipping
+  exportLimitLoss: number;        // % of energy after inverter clipping
+}
+
+export interface InverterSizing {
+  inverterCount: number;
+  acCapacityKw: number;
+  dcAcRatio: number;
+}
+
+/**
+ * AC capacity of a design: the saved inverter count when strings are sized,
+ * otherwise as many inverters as the DC capacity needs at the default target
+ * DC/AC ratio, capped at the inverter's maximum DC input.
+ *
+ * @param dcCapacityKw - Design DC capacity (LayoutSummary.dcCapacityKw)
+ * @param inverter - Linked inverter specs
+ * @param inverterCount - Inverter count from the saved string configuration
+ */
+export function sizeInverters(
+  dcCapacityKw: number,
+  inverter: Pick<InverterSpecs, 'acPowerRating' | 'maxDcPower'>,
+  inverterCount?: number
+): InverterSizing {
+  const targetDcKw = DEFAULT_TARGET_DC_AC_RATIO * inverter.acPowerRating;
+  const dcPerInverterKw = inverter.maxDcPower > 0 ? Math.min(targetDcKw, inverter.maxDcPower) : targetDcKw;
+  const count =
+    inverterCount && inverterCount > 0
+      ? inverterCount
+      : Math.max(1, Math.ceil(dcCapacityKw / Math.max(dcPerInverterKw, 1)));
+  const acCapacityKw = count * inverter.acPowerRating;
+  return {
+    inverterCount: count,
+    acCapacityKw,
+    dcAcRatio: acCapacityKw > 0 ? dcCapacityKw / acCapacityKw : 0,
+  };
+}
+
+/**
+ * Clear-sky plane-of-array irradiance (W/m²) for each month, sampled every
+ * 15 minutes over the representative day.
+ */
+function clearSkyPlaneProfile(
+  latitude: number,
+  tiltAngle: number,
+  azimuth: number,
+  tracker?: TrackerConfig
+): number[][] {
+  const tiltRad = toRadians(tiltAngle);
+  const azRad = toRadians(azimuth);
+  const axisRad = toRadians(tracker?.axisAzimuth ?? 0);
+  const west = { x: -Math.cos(axisRad), y: Math.sin(axisRad) };
+
+  const months: number[][] = Array.from({ length: 12 }, () => []);
+  for (const sun of buildSunPath(latitude, SAMPLE_MINUTES)) {
+    let normal = {
+      x: Math.sin(tiltRad) * Math.sin(azRad),
+      y: Math.sin(tiltRad) * Math.cos(azRad),
+      z: Math.cos(tiltRad),
+    };
+    let surfaceTilt = tiltRad;
+    if (tracker) {
+      const rotRad = toRadians(calculateTrackerRotation(sun.azimuth, sun.altitude, tracker));
+      normal = { x: west.x * Math.sin(rotRad), y: west.y * Math.sin(rotRad), z: Math.cos(rotRad) };
+      surfaceTilt = Math.abs(rotRad);
+    }
+
+    const cosAoi = Math.max(
+      0,
+      normal.x * sun.direction.x + normal.y * sun.direction.y + normal.z * sun.direction.z
+    );
+    const diffuse = sun.dni * sun.direction.z * DIFFUSE_RATIO;
+    months[sun.month].push(sun.dni * cosAoi + diffuse * ((1 + Math.cos(surfaceTilt)) / 2));
+  }
+  return months;
+}
+
+/**
+ * Estimate inverter clipping and export-limit losses for a monthly yield.
+ *
+ * @param input - Plant geometry, capacities and the unclipped monthly yield
+ * @returns Monthly yield after clipping, with clipped energy and loss percentages
+ */
+export function estimateClipping(input: ClippingInput): ClippingResult {
+  const acLimit = input.acCapacityKw ?? Infinity;
+  const exportLimit = input.exportLimitKw ?? Infinity;
+  const stepHours = SAMPLE_MINUTES / 60;
+  const profile = clearSkyPlaneProfile(input.latitude, input.tiltAngle, input.azimuth, input.tracker);
+
+  let clippedEnergy = 0;
+  let exportLimitedEnergy = 0;
+  const monthlyYield = input.monthlyYield.map((energy, m) => {
+    // Clear-day plant output (kW) per sample
+    const clearPower = profile[m].map((poa) => (input.capacityKwp * poa * input.performanceRatio) / 1000);
+    const clearDayEnergy = clearPower.reduce((sum, p) => sum + p * stepHours, 0);
+    if (energy <= 0 || clearDayEnergy <= 0) return energy;
+
+    // Uniform daily clearness with the mean that matches the month's energy
+    const meanClearness = Math.min(1, energy / DAYS_IN_MONTH[m] / clearDayEnergy);
+    const low = Math.max(0, 2 * meanClearness - 1);
+    const high = Math.min(1, 2 * meanClearness);
+
+    let unclipped = 0;
+    let afterInverter = 0;
+    let afterExport = 0;
+    for (let i = 0; i < CLEARNESS_LEVELS; i++) {
+      const clearness = low + ((high - low) * (i + 0.5)) / CLEARNESS_LEVELS;
+      for (const power of clearPower) {
+        const output = clearness * power;
+        const inverterOutput = Math.min(output, acLimit);
+        unclipped += output;
+        afterInverter += inverterOutput;
+        afterExport += Math.min(inverterOutput, exportLimit);
+      }
+    }
+    if (unclipped <= 0) return energy;
+
+    const clipped = energy * (1 - afterInverter / unclipped);
+    const exportLimited = energy * ((afterInverter - afterExport) / unclipped);
+    clippedEnergy += clipped;
+    exportLimitedEnergy += exportLimited;
+    return energy - clipped - exportLimited;
+  });
+
+  const total = input.monthlyYield.reduce((a, b) => a + b, 0);
+  return {
+    monthlyYield,
+    clippedEnergy,
+    exportLimitedEnergy,
+    clippingLoss: total > 0 ? (clippedEnergy / total) * 100 : 0,
+    exportLimitLoss: total - clippedEnergy > 0 ? (exportLimitedEnergy / (total - clippedEnergy)) * 100 : 0,
+  };
+}
+
+/**
+ * Apply inverter clipping and the export limit to a monthly estimate.
+ *
+ * The estimate's inverter loss stays the efficiency loss; clipping and the
+ * export limit are separate entries in the loss breakdown.
+ */
+export function applyClippingProfile(
+  estimate: YieldEstimate,
+  capacityKwp: number,
+  acCapacityKw?: number,
+  exportLimitKw?: number,
+  tracker?: TrackerConfig
+): YieldEstimate {
+  if (acCapacityKw === undefined && exportLimitKw === undefined) return estimate;
+
+  const unclippedTotal = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+  if (unclippedTotal <= 0) return estimate;
+
+  const clipping = estimateClipping({
+    latitude: estimate.latitude,
+    tiltAngle: estimate.tiltAngle,
+    azimuth: estimate.azimuth,
+    tracker,
+    capacityKwp,
+    acCapacityKw,
+    exportLimitKw,
+    monthlyYield: estimate.monthlyYield,
+    performanceRatio: estimate.performanceRatio,
+  });
+  const annualYield = clipping.monthlyYield.reduce((a, b) => a + b, 0);
+  const performanceRatio = estimate.performanceRatio * (annualYield / unclippedTotal);
+
+  return {
+    ...estimate,
+    annualYield,
+    monthlyYield: clipping.monthlyYield,
+    monthlyFactors: clipping.monthlyYield.map((m) => (annualYield > 0 ? m / annualYield : 0)),
+    performanceRatio,
+    losses: {
+      ...estimate.losses,
+      clippingLoss: clipping.clippingLoss,
+      exportLimitLoss: clipping.exportLimitLoss,
+      totalLoss: (1 - performanceRatio) * 100,
+    },
+    acCapacityKw,
+    exportLimitKw,
+    dcAcRatio: acCapacityKw ? capacityKwp / acCapacityKw : undefined,
+    clippedEnergy: clipping.clippedEnergy,
+    exportLimitedEnergy: clipping.exportLimitedEnergy,
+  };
+}
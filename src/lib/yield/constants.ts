@@ -0,0 +1,25 @@
+/**
+ * Yield Constants
+ *
+ * Calendar of the non-leap year used by the monthly and hourly yield models,
+ * and angle conversion shared by the sun geometry helpers.
+ */
+
+export const HOURS_PER_YEAR = 8760;
+
+/** Days per month of a non-leap year */
+export const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Month (0-11) of an hour of a non-leap year
+ */
+export function monthOfHour(hourOfYear: number): number {
+  let remaining = Math.floor(hourOfYear / 24);
+  for (let m = 0; m < 12; m++) {
+    if (remaining < DAYS_IN_MONTH[m]) return m;
+    remaining -= DAYS_IN_MONTH[m];
+  }
+  return 11;
+}
+
+export const toRadians = (deg: number) => (deg * Math.PI) / 180;
@@ -0,0 +1,410 @@
+/**
+ * Hourly Yield Simulation
+ *
+ * Simulates a PV system hour by hour over a typical meteorological year
+ * (8760 hours) and returns a YieldEstimate carrying the hourly AC profile.
+ *
+ * Per hour:
+ * 1. Sun position at mid-hour (solar time from the file's time base)
+ * 2. Erbs decomposition when the file has no DNI/DHI
+ * 3. Hay-Davies transposition to the plane of array, plus ground reflection
+ * 4. Soiling, snow cover and shading on the irradiance (monthly soiling
+ *    profiles per month, see soiling.ts), plus the rear-side irradiance of
+ *    bifacial modules (see bifacial.ts)
+ * 5. NOCT cell temperature and the module temperature coefficient
+ * 6. Mismatch and DC wiring losses
+ * 7. Part-load inverter efficiency (PVWatts curve) and AC clipping
+ * 8. Availability and other losses
+ * 9. Grid export limit at the point of interconnection
+ *
+ * The loss breakdown is energy-weighted over the year, so it multiplies out
+ * to the simulated performance ratio.
+ */
+
+import type {
+  TMYData,
+  TMYHour,
+  YieldCalculationInput,
+  YieldCalculationResult,
+  YieldEstimate,
+  YieldLossBreakdown,
+} from './types';
+import { DEFAULT_LOSSES, DEFAULT_SYSTEM_CONFIG } from './types';
+import { calculateCellTemperature } from './performanceRatio';
+import {
+  buildRowSection,
+  calculateRearIrradiance,
+  resolveMonthlyAlbedo,
+  DEFAULT_REAR_LOSS,
+} from './bifacial';
+import { getOptimalTilt, getOptimalAzimuth, isValidCoordinates } from './ghiLookup';
+import {
+  calculateSolarDeclination,
+  calculateEquationOfTime,
+  calculateSolarNoon,
+  calculateHourAngle,
+  calculateSolarAltitude,
+  calculateSolarAzimuth,
+} from '@/lib/digitaltwin/irradianceModel';
+import {
+  calculateTrueTrackingAngle,
+  calculateTrackerRotation,
+  calculateRowShadingFraction,
+} from '@/lib/layout/tracker';
+import { HOURS_PER_YEAR, DAYS_IN_MONTH, monthOfHour, toRadians } from './constants';
+
+const SOLAR_CONSTANT = 1361;      // W/m²
+
+// PVWatts inverter part-load curve, normalised to the nominal efficiency
+const INVERTER_REFERENCE_EFFICIENCY = 0.9637;
+
+interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Day of year (1-365) of a date in a non-leap year
+ */
+function dayOfYear(month: number, day: number): number {
+  return DAYS_IN_MONTH.slice(0, month - 1).reduce((sum, d) => sum + d, 0) + day;
+}
+
+/**
+ * Sum an 8760 profile into 12 monthly totals.
+ *
+ * @param hourly - 8760 hourly values from 1 January 00:00
+ * @returns 12 monthly totals
+ */
+export function monthlyTotalsFromHourly(hourly: number[]): number[] {
+  const totals = new Array<number>(12).fill(0);
+  hourly.forEach((value, h) => {
+    totals[monthOfHour(h)] += value;
+  });
+  return totals;
+}
+
+/**
+ * Split global horizontal irradiance into beam and diffuse (Erbs model).
+ */
+function decomposeGHI(ghi: number, cosZenith: number, extraterrestrial: number): { dni: number; dhi: number } {
+  if (ghi <= 0) return { dni: 0, dhi: 0 };
+  if (cosZenith <= 0.065) return { dni: 0, dhi: ghi };
+
+  const kt = Math.min(1, ghi / (extraterrestrial * cosZenith));
+  const diffuseFraction =
+    kt <= 0.22
+      ? 1 - 0.09 * kt
+      : kt <= 0.8
+        ? 0.9511 - 0.1604 * kt + 4.388 * kt ** 2 - 16.638 * kt ** 3 + 12.336 * kt ** 4
+        : 0.165;
+
+  const dhi = ghi * diffuseFraction;
+  return { dni: (ghi - dhi) / cosZenith, dhi };
+}
+
+/**
+ * Plane-of-array irradiance (Hay-Davies sky diffuse, isotropic ground reflection).
+ */
+function transpose(
+  ghi: number,
+  dni: number,
+  dhi: number,
+  cosIncidence: number,
+  cosZenith: number,
+  tiltRad: number,
+  extraterrestrial: number,
+  albedo: number,
+  beamShading: number = 0
+): number {
+  const cosAoi = Math.max(0, cosIncidence);
+  const sunUp = cosZenith > 0;
+  const anisotropy = sunUp ? Math.min(1, dni / extraterrestrial) : 0;
+  // Limit the beam ratio near sunrise/sunset (zenith > 85°)
+  const beamRatio = sunUp ? cosAoi / Math.max(cosZenith, 0.0872) : 0;
+
+  const beam = sunUp ? dni * cosAoi * (1 - beamShading) : 0;
+  const sky = dhi * (anisotropy * beamRatio + (1 - anisotropy) * ((1 + Math.cos(tiltRad)) / 2));
+  const ground = ghi * albedo * ((1 - Math.cos(tiltRad)) / 2);
+
+  return beam + sky + ground;
+}
+
+/**
+ * AC output of the inverter for a DC input (PVWatts part-load curve),
+ * before clipping at the AC rating.
+ */
+function inverterOutput(dcKw: number, acCapacityKw: number, nominalEfficiency: number): number {
+  if (dcKw <= 0) return 0;
+  const dcRating = acCapacityKw / nominalEfficiency;
+  const load = dcKw / dcRating;
+  const efficiency =
+    (nominalEfficiency / INVERTER_REFERENCE_EFFICIENCY) * (-0.0162 * load - 0.0059 / load + 0.9858);
+  return Math.max(0, dcKw * efficiency);
+}
+
+/**
+ * Sun position for the middle of a weather hour.
+ */
+function sunAt(
+  hour: TMYHour,
+  latitude: number,
+  longitude: number,
+  timezone: number
+): { altitude: number; azimuth: number; direction: Vec3; doy: number } {
+  const doy = dayOfYear(hour.month, hour.day);
+  const declination = calculateSolarDeclination(doy);
+  const solarNoon = calculateSolarNoon(longitude, timezone) - calculateEquationOfTime(doy) / 60;
+
+  // Wrap to ±180° (UTC stamps far from Greenwich)
+  const rawAngle = calculateHourAngle(hour.hour + 0.5, solarNoon);
+  const hourAngle = ((((rawAngle + 180) % 360) + 360) % 360) - 180;
+
+  const altitude = calculateSolarAltitude(latitude, declination, hourAngle);
+  const azimuth = calculateSolarAzimuth(latitude, declination, hourAngle, altitude);
+  const altRad = toRadians(altitude);
+  const azRad = toRadians(azimuth);
+
+  return {
+    altitude,
+    azimuth,
+    doy,
+    direction: {
+      x: Math.cos(altRad) * Math.sin(azRad),
+      y: Math.cos(altRad) * Math.cos(azRad),
+      z: Math.sin(altRad),
+    },
+  };
+}
+
+/**
+ * Simulate hourly energy production over a typical meteorological year.
+ *
+ * @param input - System configuration and losses (monthly shading and soiling profiles apply per hour)
+ * @param weather - Parsed TMY data (see parseTMYFile)
+ * @param weatherFile - Name of the weather file, kept on the estimate
+ * @returns Calculation result with an estimate carrying the 8760 AC profile
+ */
+export function simulateHourlyYield(
+  input: YieldCalculationInput,
+  weather: TMYData,
+  weatherFile?: string
+): YieldCalculationResult {
+  if (!isValidCoordinates(input.latitude, input.longitude)) {
+    return { success: false, source: 'tmy', error: 'Invalid coordinates provided' };
+  }
+  if (!input.capacityKwp || input.capacityKwp <= 0) {
+    return { success: false, source: 'tmy', error: 'System capacity must be greater than 0' };
+  }
+  if (weather.hours.length !== HOURS_PER_YEAR) {
+    return { success: false, source: 'tmy', error: `Weather data must have ${HOURS_PER_YEAR} hours` };
+  }
+
+  const tiltAngle = input.tiltAngle ?? getOptimalTilt(input.latitude);
+  const azimuth = input.azimuth ?? getOptimalAzimuth(input.latitude);
+  const monthlyAlbedo = resolveMonthlyAlbedo(input);
+  const tempCoeff = input.moduleSpecs?.tempCoeffPmax ?? DEFAULT_SYSTEM_CONFIG.tempCoeffPmax;
+  const noct = input.moduleSpecs?.noct ?? DEFAULT_SYSTEM_CONFIG.noct;
+  const inverterEfficiency = (input.inverterEfficiency ?? DEFAULT_SYSTEM_CONFIG.inverterEfficiency) / 100;
+  // The part-load curve needs a rating; clipping only applies to a given one
+  const inverterRatingKw = input.acCapacityKw ?? input.capacityKwp;
+  const clipLimitKw = input.acCapacityKw ?? Infinity;
+  const exportLimitKw = input.exportLimitKw ?? Infinity;
+
+  const soilingProfile = input.soilingProfile;
+  const flatSoiling = input.soilingLoss ?? DEFAULT_LOSSES.soiling;
+  const monthlyShading = input.monthlyShadingLoss?.length === 12 ? input.monthlyShadingLoss : undefined;
+  const flatShading = input.shadingLoss ?? DEFAULT_LOSSES.shading;
+  const mismatch = DEFAULT_LOSSES.mismatch / 100;
+  const wiring = (input.wiringLoss ?? DEFAULT_LOSSES.wiring) / 100;
+  const availability = DEFAULT_LOSSES.availability / 100;
+  const other = DEFAULT_LOSSES.other / 100;
+
+  // Local standard time of the profile (UTC files: nearest whole-hour zone)
+  const localShift = weather.timeReference === 'utc' ? Math.round(input.longitude / 15) : 0;
+
+  const fixedTiltRad = toRadians(tiltAngle);
+  const fixedAzRad = toRadians(azimuth);
+  const fixedNormal: Vec3 = {
+    x: Math.sin(fixedTiltRad) * Math.sin(fixedAzRad),
+    y: Math.sin(fixedTiltRad) * Math.cos(fixedAzRad),
+    z: Math.cos(fixedTiltRad),
+  };
+
+  const tracker = input.tracker;
+  const axisRad = toRadians(tracker?.axisAzimuth ?? 0);
+  const west = { x: -Math.cos(axisRad), y: Math.sin(axisRad) };
+
+  // Bifacial rear side: fixed rows keep one cross-section, trackers rotate theirs
+  const bifacial = input.bifacial;
+  const rearFactor = bifacial
+    ? bifacial.bifacialityFactor * (1 - (bifacial.rearLoss ?? DEFAULT_REAR_LOSS) / 100)
+    : 0;
+  const fixedSection = bifacial ? buildRowSection(bifacial, fixedTiltRad) : undefined;
+  const fixedFacing = { x: Math.sin(fixedAzRad), y: Math.cos(fixedAzRad) };
+
+  const hourlyProfile = new Array<number>(HOURS_PER_YEAR).fill(0);
+  const totals = {
+    ghi: 0,
+    poa: 0,
+    fixedPoa: 0,
+    nominal: 0,        // kWp × POA
+    soiled: 0,         // After soiling
+    snowed: 0,         // After snow cover
+    shaded: 0,         // After shading
+    bifacial: 0,       // After adding the rear side
+    thermal: 0,        // After cell temperature
+    dc: 0,             // After mismatch and wiring
+    inverter: 0,       // After inverter efficiency
+    clipped: 0,        // After AC clipping
+    delivered: 0,      // After availability and other losses
+    exported: 0,       // After the export limit
+  };
+
+  weather.hours.forEach((hour, index) => {
+    const sun = sunAt(hour, input.latitude, input.longitude, weather.timezone);
+    const extraterrestrial = SOLAR_CONSTANT * (1 + 0.033 * Math.cos((2 * Math.PI * sun.doy) / 365));
+    const cosZenith = sun.direction.z;
+    const components =
+      hour.dni !== undefined && hour.dhi !== undefined
+        ? { dni: hour.dni, dhi: hour.dhi }
+        : decomposeGHI(hour.ghi, cosZenith, extraterrestrial);
+    const month = hour.month - 1;
+    const albedo = monthlyAlbedo[month];
+
+    const fixedCos =
+      fixedNormal.x * sun.direction.x + fixedNormal.y * sun.direction.y + fixedNormal.z * sun.direction.z;
+    const fixedPoa = transpose(
+      hour.ghi, components.dni, components.dhi, fixedCos, cosZenith, fixedTiltRad, extraterrestrial, albedo
+    );
+
+    let poa = fixedPoa;
+    let section = fixedSection;
+    let facing = fixedFacing;
+    if (tracker) {
+      const rotation = calculateTrackerRotation(sun.azimuth, sun.altitude, tracker);
+      const rotRad = toRadians(rotation);
+      section = bifacial ? buildRowSection(bifacial, Math.abs(rotRad), true) : undefined;
+      facing = rotation < 0 ? { x: -west.x, y: -west.y } : west;
+      const trackerCos =
+        west.x * Math.sin(rotRad) * sun.direction.x +
+        west.y * Math.sin(rotRad) * sun.direction.y +
+        Math.cos(rotRad) * sun.direction.z;
+      const rowShading = sun.altitude > 0
+        ? calculateRowShadingFraction(
+            calculateTrueTrackingAngle(sun.azimuth, sun.altitude, tracker.axisAzimuth),
+            rotation,
+            tracker.gcr
+          )
+        : 0;
+      poa = transpose(
+        hour.ghi, components.dni, components.dhi, trackerCos, cosZenith,
+        Math.abs(rotRad), extraterrestrial, albedo, rowShading
+      );
+    }
+
+    const soiling = (soilingProfile ? soilingProfile.monthlySoilingLoss[month] : flatSoiling) / 100;
+    const snow = soilingProfile ? soilingProfile.monthlySnowLoss[month] / 100 : 0;
+    const shading = (monthlyShading ? monthlyShading[month] : flatShading) / 100;
+    const rear = section && hour.ghi > 0
+      ? calculateRearIrradiance(
+          section,
+          facing.x * sun.direction.x + facing.y * sun.direction.y,
+          cosZenith,
+          components.dni,
+          components.dhi,
+          albedo
+        )
+      : 0;
+
+    const nominal = (input.capacityKwp * poa) / 1000;
+    const soiled = nominal * (1 - soiling);
+    const snowed = soiled * (1 - snow);
+    const shaded = snowed * (1 - shading);
+    const withRear = shaded + (input.capacityKwp * rear * rearFactor) / 1000;
+    const cellTemp = calculateCellTemperature(hour.tAmb, poa, noct);
+    const thermal = withRear * Math.max(0, 1 + (tempCoeff / 100) * (cellTemp - 25));
+    const dc = thermal * (1 - mismatch) * (1 - wiring);
+    const inverter = inverterOutput(dc, inverterRatingKw, inverterEfficiency);
+    const clipped = Math.min(inverter, clipLimitKw);
+    const delivered = clipped * (1 - availability) * (1 - other);
+    const ac = Math.min(delivered, exportLimitKw);
+
+    totals.ghi += hour.ghi;
+    totals.poa += poa;
+    totals.fixedPoa += fixedPoa;
+    totals.nominal += nominal;
+    totals.soiled += soiled;
+    totals.snowed += snowed;
+    totals.shaded += shaded;
+    totals.bifacial += withRear;
+    totals.thermal += thermal;
+    totals.dc += dc;
+    totals.inverter += inverter;
+    totals.clipped += clipped;
+    totals.delivered += delivered;
+    totals.exported += ac;
+
+    const localIndex = (((index + localShift) % HOURS_PER_YEAR) + HOURS_PER_YEAR) % HOURS_PER_YEAR;
+    hourlyProfile[localIndex] = Math.round(ac * 10) / 10;
+  });
+
+  const monthlyYield = monthlyTotalsFromHourly(hourlyProfile);
+  const annualYield = monthlyYield.reduce((a, b) => a + b, 0);
+  if (annualYield <= 0 || totals.nominal <= 0) {
+    return { success: false, source: 'tmy', error: 'Weather file has no usable irradiance' };
+  }
+
+  const ratioLoss = (after: number, before: number) => (before > 0 ? (1 - after / before) * 100 : 0);
+  const performanceRatio = annualYield / totals.nominal;
+  const losses: YieldLossBreakdown = {
+    temperatureLoss: ratioLoss(totals.thermal, totals.bifacial),
+    soilingLoss: ratioLoss(totals.soiled, totals.nominal),
+    snowLoss: soilingProfile ? ratioLoss(totals.snowed, totals.soiled) : undefined,
+    shadingLoss: ratioLoss(totals.shaded, totals.snowed),
+    bifacialGain: bifacial ? (totals.bifacial / totals.shaded - 1) * 100 : undefined,
+    wiringLoss: wiring * 100,
+    mismatchLoss: mismatch * 100,
+    inverterLoss: ratioLoss(totals.inverter, totals.dc),
+    clippingLoss: ratioLoss(totals.clipped, totals.inverter),
+    availabilityLoss: availability * 100,
+    otherLoss: other * 100,
+    exportLimitLoss: ratioLoss(totals.exported, totals.delivered),
+    totalLoss: (1 - performanceRatio) * 100,
+  };
+
+  const estimate: YieldEstimate = {
+    source: 'tmy',
+    calculatedAt: new Date().toISOString(),
+    latitude: input.latitude,
+    longitude: input.longitude,
+    tiltAngle,
+    azimuth,
+    systemLosses: losses.totalLoss,
+    annualYield,
+    annualGHI: totals.ghi / 1000,
+    annualPOA: totals.poa / 1000,
+    monthlyYield,
+    monthlyFactors: monthlyYield.map((m) => m / annualYield),
+    performanceRatio,
+    losses,
+    monthlyShadingLoss: monthlyShading,
+    soilingProfile,
+    mountType: tracker ? 'single_axis_tracker' : undefined,
+    // Irradiance gain on the tracker plane over the fixed-tilt reference
+    trackerGain: tracker && totals.fixedPoa > 0 ? (totals.poa / totals.fixedPoa - 1) * 100 : undefined,
+    bifacialityFactor: bifacial?.bifacialityFactor,
+    monthlyAlbedo: bifacial ? monthlyAlbedo : undefined,
+    acCapacityKw: input.acCapacityKw,
+    dcAcRatio: input.acCapacityKw ? input.capacityKwp / input.acCapacityKw : undefined,
+    exportLimitKw: input.exportLimitKw,
+    clippedEnergy: totals.inverter - totals.clipped,
+    exportLimitedEnergy: totals.delivered - totals.exported,
+    hourlyProfile,
+    weatherFile,
+    weatherFormat: weather.format,
+  };
+
+  return { success: true, source: 'tmy', estimate };
+}
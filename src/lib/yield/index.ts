@@ -7,6 +7,12 @@
  * - PVGIS API integration for accurate yield estimates
  * - Offline fallback using latitude-based GHI lookup tables
  * - Performance Ratio calculation from component specs
+ * - Horizon and near-shading analysis for generated layouts
+ * - Single-axis tracker energy gain
+ * - Bifacial rear-side gain from albedo and row geometry
+ * - Monthly soiling and snow losses from climate and cleaning schedules
+ * - Hourly (8760) simulation from imported TMY weather files
+ * - Inverter clipping (DC/AC ratio) and grid export limits
  * - Caching for API responses
  *
  * Usage:
@@ -35,6 +41,11 @@ export type {
   PVGISResponse,
   GHILookupEntry,
   YieldCacheEntry,
+  TMYFormat,
+  TMYHour,
+  TMYData,
+  BifacialGeometry,
+  SoilingProfile,
 } from './types';
 
 export {
@@ -64,6 +75,61 @@ export {
 } from './performanceRatio';
 export type { PRCalculationInput, PRCalculationResult } from './performanceRatio';
 
+// Shading analysis
+export {
+  analyzeShading,
+  applyMonthlyShading,
+  buildSunPath,
+  projectTreesToSite,
+  HORIZON_BINS,
+} from './shading';
+export type {
+  ShadingAnalysisInput,
+  ShadingAnalysisResult,
+  ShadingAnalysisRequest,
+  ShadingAnalysisResponse,
+  FrameShadingResult,
+} from './shading';
+
+// Single-axis tracker gain
+export { calculateTrackerGain } from './tracker';
+export type { TrackerGainResult } from './tracker';
+
+// Bifacial rear-side gain
+export {
+  calculateBifacialGain,
+  applyBifacialProfile,
+  bifacialGeometryFromLayout,
+  createSiteAlbedo,
+  monthlyEffectiveAlbedo,
+  resolveMonthlyAlbedo,
+  DEFAULT_REAR_LOSS,
+} from './bifacial';
+export type { BifacialGainResult } from './bifacial';
+
+// Soiling and snow losses
+export {
+  buildSoilingProfile,
+  applySoilingProfile,
+  cleaningDaysFromSchedules,
+  cleaningEnergyGain,
+  createSiteClimate,
+  estimateMonthlySoiling,
+  estimateMonthlySnowLoss,
+  monthlySnowDaysFromLogs,
+  DEFAULT_SOILING_RATE,
+} from './soiling';
+export type { SoilingProfileInput } from './soiling';
+
+// Inverter clipping and export limit
+export { estimateClipping, applyClippingProfile, sizeInverters } from './clipping';
+export type { ClippingInput, ClippingResult, InverterSizing } from './clipping';
+
+// TMY weather import and hourly simulation
+export { parseTMYFile, detectTMYFormat, getTMYFormatLabel } from './tmy';
+export { simulateHourlyYield, monthlyTotalsFromHourly } from './hourlySimulation';
+export { HOURS_PER_YEAR, DAYS_IN_MONTH, monthOfHour } from './constants';
+
 // PVGIS API client
 export {
   fetchPVGIS,
@@ -244,7 +244,8 @@ export function getPRQualityDescription(pr: number): {
 }
 
 /**
- * Format loss breakdown for display.
+ * Format loss breakdown for display. The bifacial gain is listed with the
+ * losses and formatted with a plus sign.
  *
  * @param losses - Loss breakdown object
  * @returns Array of formatted loss items for display
@@ -257,10 +258,14 @@ export function formatLossBreakdown(losses: YieldLossBreakdown): Array<{
   return [
     { name: 'Temperature', value: losses.temperatureLoss, formatted: `${losses.temperatureLoss.toFixed(1)}%` },
     { name: 'Soiling', value: losses.soilingLoss, formatted: `${losses.soilingLoss.toFixed(1)}%` },
+    { name: 'Snow', value: losses.snowLoss ?? 0, formatted: `${(losses.snowLoss ?? 0).toFixed(1)}%` },
     { name: 'Shading', value: losses.shadingLoss, formatted: `${losses.shadingLoss.toFixed(1)}%` },
+    { name: 'Bifacial gain', value: losses.bifacialGain ?? 0, formatted: `+${(losses.bifacialGain ?? 0).toFixed(1)}%` },
     { name: 'Wiring (DC/AC)', value: losses.wiringLoss, formatted: `${losses.wiringLoss.toFixed(1)}%` },
     { name: 'Module mismatch', value: losses.mismatchLoss, formatted: `${losses.mismatchLoss.toFixed(1)}%` },
     { name: 'Inverter', value: losses.inverterLoss, formatted: `${losses.inverterLoss.toFixed(1)}%` },
+    { name: 'Inverter clipping', value: losses.clippingLoss ?? 0, formatted: `${(losses.clippingLoss ?? 0).toFixed(1)}%` },
+    { name: 'Export limit', value: losses.exportLimitLoss ?? 0, formatted: `${(losses.exportLimitLoss ?? 0).toFixed(1)}%` },
     { name: 'Availability', value: losses.availabilityLoss, formatted: `${losses.availabilityLoss.toFixed(1)}%` },
     { name: 'Other', value: losses.otherLoss, formatted: `${losses.otherLoss.toFixed(1)}%` },
   ].filter(item => item.value > 0); // Only show non-zero losses
@@ -0,0 +1,735 @@
+/**
+ * Shading Loss Engine
+ *
+ * Estimates horizon (far) and near shading losses for a generated layout by
+ * casting rays from sample points on every frame towards the sun over a
+ * representative year.
+ *
+ * Obstacles considered:
+ * - Terrain horizon built from SiteCoordinate.elevation samples
+ * - Neighbouring frames (row-to-row and table-to-table shading)
+ * - Trees from DXFParsedData.trees (crown modelled as an ellipsoid)
+ *
+ * Diffuse light is treated as isotropic: it is only reduced by the sky
+ * view lost to the horizon, never by near obstacles.
+ *
+ * Single-axis tracker rows are modelled flat (stow position) and do not
+ * shade each other here; row-to-row effects are part of the tracker gain
+ * model (see tracker.ts).
+ *
+ * All geometry uses the same local projection as generatedLayoutToParsedData
+ * (meters east/north of the site centroid, z up).
+ */
+
+import type { Site } from '@/lib/types/site';
+import type { GeneratedLayout, FramePlacement } from '@/lib/types/layout';
+import type { DXFParsedData, TreeGeometry } from '@/lib/dxf/types';
+import { createLocalProjection, type LocalCoord } from '@/lib/layout/geometry';
+import { GENERATED_MOUNTING_HEIGHT_M } from '@/lib/layout/toParsedData';
+import type { WorkerTaskRequest, WorkerTaskResponse } from '@/lib/workerTask';
+import {
+  calculateSolarDeclination,
+  calculateHourAngle,
+  calculateSolarAltitude,
+  calculateSolarAzimuth,
+  calculateAirMass,
+} from '@/lib/digitaltwin/irradianceModel';
+import { toRadians } from './constants';
+
+/** Day of year used as the representative day for each month (15th) */
+const REPRESENTATIVE_DAYS = [15, 46, 74, 105, 135, 166, 196, 227, 258, 288, 319, 349];
+
+/** Number of azimuth bins in a horizon profile (10° each) */
+export const HORIZON_BINS = 36;
+
+/** Terrain samples closer than this are treated as local ground, not horizon */
+const MIN_HORIZON_DISTANCE_M = 20;
+
+/** Upper bound on terrain points used (large PVSDZ boundaries are decimated) */
+const MAX_TERRAIN_POINTS = 400;
+
+/** Sun positions below this altitude are ignored (negligible beam energy) */
+const MIN_SUN_ALTITUDE_DEG = 2;
+
+/**
+ * Cap on how far a shadow-casting frame or tree is searched for.
+ * Anything further away is covered by the terrain horizon.
+ */
+const MAX_SHADOW_SEARCH_M = 60;
+
+/** Shortest sun path time step (non-positive steps would never end the day) */
+const MIN_TIME_STEP_MINUTES = 1;
+
+/** Spatial hash cell size for frame lookup */
+const GRID_CELL_M = 20;
+
+export interface ShadingAnalysisInput {
+  layout: GeneratedLayout;
+  site: Site;
+  /** Trees in the layout's local frame (e.g. from DXFParsedData.trees) */
+  trees?: TreeGeometry[];
+  /** Optional far-horizon profile (degrees above horizon, HORIZON_BINS values from North clockwise) */
+  horizonProfile?: number[];
+  /** Height of the lower frame edge above ground (m). Default matches 3D rendering */
+  mountingHeight?: number;
+  /** Time step over the representative day in minutes (default: 30, at least 1) */
+  timeStepMinutes?: number;
+  /** Sample points per frame along its width (default: 3) */
+  samplesAlongWidth?: number;
+  /** Sample points per frame up the module slope (default: 2) */
+  samplesUpSlope?: number;
+  /** Share of plane-of-array irradiance that is direct beam (default: 0.75) */
+  beamFraction?: number;
+}
+
+export interface FrameShadingResult {
+  frameIndex: number;
+  monthlyLoss: number[];          // 12 values, % of plane-of-array energy
+  annualLoss: number;             // %
+}
+
+export interface ShadingAnalysisResult {
+  frames: FrameShadingResult[];
+  monthlyLoss: number[];          // 12 values, % plant-wide
+  annualLoss: number;             // % plant-wide (energy-weighted)
+  horizonLoss: number;            // % of annual loss caused by the terrain horizon
+  nearShadingLoss: number;        // % of annual loss caused by frames and trees
+  horizonProfile: number[];       // Site horizon (degrees) per azimuth bin, from centroid
+  sunPositionsEvaluated: number;
+  calculatedAt: string;           // ISO date
+}
+
+/** Worker messages (see shading.worker.ts) */
+export type ShadingAnalysisRequest = WorkerTaskRequest<ShadingAnalysisInput>;
+
+export type ShadingAnalysisResponse = WorkerTaskResponse<ShadingAnalysisResult>;
+
+interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface TerrainPoint extends LocalCoord {
+  z: number;
+}
+
+/** A frame surface in 3D, ready for ray intersection tests */
+interface FrameSolid {
+  frameIndex: number;
+  center: LocalCoord;
+  lowEdge: Vec3;                  // Center of the lower (front) edge
+  rowDir: Vec3;                   // Unit vector along the frame width
+  slopeDir: Vec3;                 // Unit vector up the module slope
+  normal: Vec3;
+  halfWidth: number;
+  slopeLength: number;
+  topZ: number;
+  radius: number;                 // Horizontal bounding radius
+  facingAzimuth: number;          // Compass degrees the modules face
+  tiltDeg: number;
+  moduleCount: number;
+}
+
+interface SunPosition {
+  month: number;                  // 0-11
+  altitude: number;               // degrees
+  azimuth: number;                // compass degrees
+  direction: Vec3;                // Unit vector towards the sun
+  dni: number;                    // W/m² clear-sky direct normal irradiance
+  hours: number;                  // Duration represented by this sample
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+/**
+ * Clear-sky direct normal irradiance (Meinel model).
+ */
+function clearSkyDNI(solarAltitude: number): number {
+  const airMass = calculateAirMass(solarAltitude);
+  if (!isFinite(airMass)) return 0;
+  return 1361 * Math.pow(0.7, Math.pow(airMass, 0.678));
+}
+
+/**
+ * Build the list of sun positions for a representative year
+ * (one representative day per month, sampled in local solar time).
+ */
+export function buildSunPath(latitude: number, timeStepMinutes: number = 30): SunPosition[] {
+  const positions: SunPosition[] = [];
+  const stepMinutes = Number.isFinite(timeStepMinutes)
+    ? Math.max(timeStepMinutes, MIN_TIME_STEP_MINUTES)
+    : MIN_TIME_STEP_MINUTES;
+  const stepHours = stepMinutes / 60;
+
+  REPRESENTATIVE_DAYS.forEach((dayOfYear, month) => {
+    const declination = calculateSolarDeclination(dayOfYear);
+
+    for (let solarHour = stepHours / 2; solarHour < 24; solarHour += stepHours) {
+      const hourAngle = calculateHourAngle(solarHour, 12);
+      const altitude = calculateSolarAltitude(latitude, declination, hourAngle);
+      if (altitude < MIN_SUN_ALTITUDE_DEG) continue;
+
+      const azimuth = calculateSolarAzimuth(latitude, declination, hourAngle, altitude);
+      const altRad = toRadians(altitude);
+      const azRad = toRadians(azimuth);
+
+      positions.push({
+        month,
+        altitude,
+        azimuth,
+        direction: {
+          x: Math.cos(altRad) * Math.sin(azRad),
+          y: Math.cos(altRad) * Math.cos(azRad),
+          z: Math.sin(altRad),
+        },
+        dni: clearSkyDNI(altitude),
+        hours: stepHours,
+      });
+    }
+  });
+
+  return positions;
+}
+
+/**
+ * Collect terrain samples (local coordinates) from site geometry elevations
+ * and, when available, the site's DEM grid.
+ */
+function collectTerrainPoints(
+  site: Site,
+  projection: ReturnType<typeof createLocalProjection>
+): TerrainPoint[] {
+  const coords = [
+    ...site.boundaries.flatMap((b) => b.coordinates),
+    ...site.exclusionZones.flatMap((z) => z.coordinates),
+  ].filter((c) => c.elevation !== undefined && isFinite(c.elevation));
+
+  const stride = Math.max(1, Math.ceil(coords.length / MAX_TERRAIN_POINTS));
+  const points: TerrainPoint[] = [];
+
+  for (let i = 0; i < coords.length; i += stride) {
+    const c = coords[i];
+    const local = projection.toLocal({ lat: c.lat, lng: c.lng });
+    points.push({ x: local.x, y: local.y, z: c.elevation! });
+  }
+
+  // DEM grid nodes (the grid shares the site centroid projection)
+  const grid = site.terrain;
+  if (grid) {
+    const nodeStride = Math.max(1, Math.ceil(Math.sqrt(grid.elevations.length / MAX_TERRAIN_POINTS)));
+    for (let r = 0; r < grid.rows; r += nodeStride) {
+      for (let c = 0; c < grid.columns; c += nodeStride) {
+        const z = grid.elevations[r * grid.columns + c];
+        if (z === null) continue;
+        points.push({ x: grid.originX + c * grid.cellSize, y: grid.originY + r * grid.cellSize, z });
+      }
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Interpolate ground elevation at a point (inverse distance weighting).
+ * Returns 0 when no terrain data is available.
+ */
+function groundElevationAt(point: LocalCoord, terrain: TerrainPoint[]): number {
+  if (terrain.length === 0) return 0;
+
+  let weightSum = 0;
+  let valueSum = 0;
+
+  for (const t of terrain) {
+    const dx = t.x - point.x;
+    const dy = t.y - point.y;
+    const distSq = dx * dx + dy * dy;
+    if (distSq < 1e-6) return t.z;
+    const weight = 1 / distSq;
+    weightSum += weight;
+    valueSum += weight * t.z;
+  }
+
+  return valueSum / weightSum;
+}
+
+/**
+ * Horizon elevation angle per azimuth bin as seen from a point.
+ */
+function computeHorizonProfile(
+  origin: LocalCoord,
+  originZ: number,
+  terrain: TerrainPoint[],
+  farHorizon?: number[]
+): number[] {
+  const profile = new Array<number>(HORIZON_BINS).fill(0);
+
+  for (const t of terrain) {
+    const dx = t.x - origin.x;
+    const dy = t.y - origin.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < MIN_HORIZON_DISTANCE_M) continue;
+
+    const elevationAngle = (Math.atan2(t.z - originZ, dist) * 180) / Math.PI;
+    if (elevationAngle <= 0) continue;
+
+    const azimuth = ((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360;
+    const bin = Math.floor(azimuth / (360 / HORIZON_BINS)) % HORIZON_BINS;
+    profile[bin] = Math.max(profile[bin], elevationAngle);
+  }
+
+  if (farHorizon && farHorizon.length === HORIZON_BINS) {
+    for (let i = 0; i < HORIZON_BINS; i++) {
+      profile[i] = Math.max(profile[i], farHorizon[i] ?? 0);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Fraction of isotropic sky diffuse lost to the horizon on a horizontal plane.
+ */
+function horizonDiffuseLoss(profile: number[]): number {
+  const sum = profile.reduce((acc, h) => acc + Math.pow(Math.sin(toRadians(h)), 2), 0);
+  return sum / profile.length;
+}
+
+function horizonAt(profile: number[], azimuth: number): number {
+  const bin = Math.floor((((azimuth % 360) + 360) % 360) / (360 / HORIZON_BINS)) % HORIZON_BINS;
+  return profile[bin];
+}
+
+/**
+ * Build the 3D surface of a frame.
+ *
+ * The footprint follows the generator (rotationDeg, widthM, heightM as the
+ * horizontal depth); the modules slope up away from the side that faces the
+ * layout azimuth.
+ */
+function buildFrameSolid(
+  frame: FramePlacement,
+  center: LocalCoord,
+  groundZ: number,
+  tiltDeg: number,
+  layoutAzimuth: number,
+  mountingHeight: number
+): FrameSolid {
+  const rotRad = toRadians(frame.rotationDeg);
+  const rowDir2 = { x: Math.cos(rotRad), y: Math.sin(rotRad) };
+  const perp = { x: -rowDir2.y, y: rowDir2.x };
+
+  // Pick the footprint side that best matches the compass facing direction
+  const azRad = toRadians(layoutAzimuth);
+  const compassFacing = { x: Math.sin(azRad), y: Math.cos(azRad) };
+  const sign = perp.x * compassFacing.x + perp.y * compassFacing.y >= 0 ? 1 : -1;
+  const facing = { x: perp.x * sign, y: perp.y * sign };
+
+  const tiltRad = toRadians(tiltDeg);
+  const depth = frame.heightM;
+  const slopeLength = tiltRad < Math.PI / 2 ? depth / Math.cos(tiltRad) : depth;
+  const rise = slopeLength * Math.sin(tiltRad);
+
+  const lowEdge: Vec3 = {
+    x: center.x + facing.x * (depth / 2),
+    y: center.y + facing.y * (depth / 2),
+    z: groundZ + mountingHeight,
+  };
+
+  const rowDir: Vec3 = { x: rowDir2.x, y: rowDir2.y, z: 0 };
+  const slopeDir: Vec3 = {
+    x: (-facing.x * depth) / slopeLength,
+    y: (-facing.y * depth) / slopeLength,
+    z: rise / slopeLength,
+  };
+  const normal = cross(rowDir, slopeDir);
+
+  return {
+    frameIndex: frame.index,
+    center,
+    lowEdge,
+    rowDir,
+    slopeDir,
+    normal,
+    halfWidth: frame.widthM / 2,
+    slopeLength,
+    topZ: lowEdge.z + rise,
+    radius: Math.sqrt((frame.widthM / 2) ** 2 + (depth / 2) ** 2),
+    facingAzimuth: ((Math.atan2(facing.x, facing.y) * 180) / Math.PI + 360) % 360,
+    tiltDeg,
+    moduleCount: frame.frameRows * frame.frameColumns,
+  };
+}
+
+/**
+ * Ray / frame rectangle intersection test.
+ */
+function rayHitsFrame(origin: Vec3, dir: Vec3, solid: FrameSolid): boolean {
+  const denom = dot(solid.normal, dir);
+  if (Math.abs(denom) < 1e-9) return false;
+
+  const diff = {
+    x: solid.lowEdge.x - origin.x,
+    y: solid.lowEdge.y - origin.y,
+    z: solid.lowEdge.z - origin.z,
+  };
+  const t = dot(solid.normal, diff) / denom;
+  if (t <= 1e-6) return false;
+
+  const hit = {
+    x: origin.x + dir.x * t - solid.lowEdge.x,
+    y: origin.y + dir.y * t - solid.lowEdge.y,
+    z: origin.z + dir.z * t - solid.lowEdge.z,
+  };
+  const u = dot(hit, solid.rowDir);
+  const s = dot(hit, solid.slopeDir);
+
+  return Math.abs(u) <= solid.halfWidth && s >= 0 && s <= solid.slopeLength;
+}
+
+/**
+ * Ray / tree crown intersection test (crown as an axis-aligned ellipsoid).
+ */
+function rayHitsTree(origin: Vec3, dir: Vec3, tree: TreeGeometry, baseZ: number): boolean {
+  const rh = tree.crownDiameter / 2;
+  const rv = tree.crownHeight / 2;
+  if (rh <= 0 || rv <= 0) return false;
+
+  const center = {
+    x: tree.position[0],
+    y: tree.position[1],
+    z: baseZ + tree.trunkHeight + rv,
+  };
+
+  // Scale space so the ellipsoid becomes a unit sphere
+  const o = { x: (origin.x - center.x) / rh, y: (origin.y - center.y) / rh, z: (origin.z - center.z) / rv };
+  const d = { x: dir.x / rh, y: dir.y / rh, z: dir.z / rv };
+
+  const a = dot(d, d);
+  const b = 2 * dot(o, d);
+  const c = dot(o, o) - 1;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return false;
+
+  const sqrtD = Math.sqrt(discriminant);
+  const t1 = (-b - sqrtD) / (2 * a);
+  const t2 = (-b + sqrtD) / (2 * a);
+  return t1 > 1e-6 || t2 > 1e-6;
+}
+
+/**
+ * Sample points spread over the frame surface.
+ */
+function frameSamplePoints(solid: FrameSolid, alongWidth: number, upSlope: number): Vec3[] {
+  const points: Vec3[] = [];
+
+  for (let i = 0; i < alongWidth; i++) {
+    const u = ((i + 0.5) / alongWidth - 0.5) * 2 * solid.halfWidth;
+    for (let j = 0; j < upSlope; j++) {
+      const s = ((j + 0.5) / upSlope) * solid.slopeLength;
+      points.push({
+        x: solid.lowEdge.x + solid.rowDir.x * u + solid.slopeDir.x * s,
+        y: solid.lowEdge.y + solid.rowDir.y * u + solid.slopeDir.y * s,
+        z: solid.lowEdge.z + solid.rowDir.z * u + solid.slopeDir.z * s,
+      });
+    }
+  }
+
+  return points;
+}
+
+function cellKey(x: number, y: number): string {
+  return `${Math.floor(x / GRID_CELL_M)}:${Math.floor(y / GRID_CELL_M)}`;
+}
+
+/**
+ * Run the shading analysis for a generated layout.
+ *
+ * @param input - Layout, site terrain, trees and sampling options
+ * @param onProgress - Called after each frame
+ * @returns Per-frame and plant-wide monthly shading losses (%)
+ */
+export function analyzeShading(
+  input: ShadingAnalysisInput,
+  onProgress?: (evaluated: number, total: number) => void
+): ShadingAnalysisResult {
+  const { layout, site } = input;
+
+  if (!site.centroid) {
+    throw new Error('Site must have a centroid for shading analysis');
+  }
+
+  const isTracker = !!layout.tracker;
+  const mountingHeight =
+    input.mountingHeight ?? layout.tracker?.axisHeightM ?? GENERATED_MOUNTING_HEIGHT_M;
+  const alongWidth = Math.max(1, input.samplesAlongWidth ?? 3);
+  const upSlope = Math.max(1, input.samplesUpSlope ?? 2);
+  const beamFraction = Math.min(1, Math.max(0, input.beamFraction ?? 0.75));
+  const trees = input.trees ?? [];
+
+  const projection = createLocalProjection({
+    lat: site.centroid.latitude,
+    lng: site.centroid.longitude,
+  });
+
+  const terrain = collectTerrainPoints(site, projection);
+  const sunPath = buildSunPath(site.centroid.latitude, input.timeStepMinutes ?? 30);
+
+  // Site-level horizon (from the centroid) for reporting
+  const centroidZ = groundElevationAt({ x: 0, y: 0 }, terrain);
+  const siteHorizon = computeHorizonProfile({ x: 0, y: 0 }, centroidZ, terrain, input.horizonProfile);
+
+  // Build frame solids and spatial hash
+  const solids: FrameSolid[] = layout.frames.map((frame) => {
+    const center = projection.toLocal(frame.centerCoord);
+    return buildFrameSolid(
+      frame,
+      center,
+      frame.groundElevationM ?? groundElevationAt(center, terrain),
+      isTracker ? 0 : layout.parameters.tiltAngle,
+      layout.parameters.azimuth,
+      mountingHeight
+    );
+  });
+
+  const grid = new Map<string, number[]>();
+  solids.forEach((solid, i) => {
+    const key = cellKey(solid.center.x, solid.center.y);
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(i);
+    else grid.set(key, [i]);
+  });
+
+  const treeBases = trees.map((tree) =>
+    groundElevationAt({ x: tree.position[0], y: tree.position[1] }, terrain)
+  );
+
+  // Neighbouring frames and trees that could ever shade each frame
+  const cellRange = Math.ceil(MAX_SHADOW_SEARCH_M / GRID_CELL_M) + 1;
+  const neighbours: FrameSolid[][] = solids.map((solid, i) => {
+    if (isTracker) return [];
+    const cx = Math.floor(solid.center.x / GRID_CELL_M);
+    const cy = Math.floor(solid.center.y / GRID_CELL_M);
+    const result: FrameSolid[] = [];
+    for (let ox = -cellRange; ox <= cellRange; ox++) {
+      for (let oy = -cellRange; oy <= cellRange; oy++) {
+        const bucket = grid.get(`${cx + ox}:${cy + oy}`);
+        if (!bucket) continue;
+        for (const idx of bucket) {
+          if (idx === i) continue;
+          const other = solids[idx];
+          const dx = other.center.x - solid.center.x;
+          const dy = other.center.y - solid.center.y;
+          if (Math.sqrt(dx * dx + dy * dy) <= MAX_SHADOW_SEARCH_M + solid.radius + other.radius) {
+            result.push(other);
+          }
+        }
+      }
+    }
+    return result;
+  });
+
+  const treeNeighbours = solids.map((solid) =>
+    trees
+      .map((tree, i) => ({ tree, baseZ: treeBases[i] }))
+      .filter(({ tree }) => {
+        const dx = tree.position[0] - solid.center.x;
+        const dy = tree.position[1] - solid.center.y;
+        return Math.sqrt(dx * dx + dy * dy) <= MAX_SHADOW_SEARCH_M + solid.radius + tree.crownDiameter / 2;
+      })
+  );
+
+  const frameResults: FrameShadingResult[] = [];
+  const plantMonthlyEnergy = new Array<number>(12).fill(0);
+  const plantMonthlyShaded = new Array<number>(12).fill(0);
+  let plantHorizonShaded = 0;
+  let plantNearShaded = 0;
+  let plantEnergy = 0;
+
+  solids.forEach((solid, solidIndex) => {
+    const samples = frameSamplePoints(solid, alongWidth, upSlope);
+    const groundZ = solid.lowEdge.z - mountingHeight;
+    const horizon = terrain.length > 0 || input.horizonProfile
+      ? computeHorizonProfile(solid.center, groundZ, terrain, input.horizonProfile)
+      : new Array<number>(HORIZON_BINS).fill(0);
+    const diffuseLoss = horizonDiffuseLoss(horizon);
+
+    const tiltRad = toRadians(solid.tiltDeg);
+    const facingRad = toRadians(solid.facingAzimuth);
+
+    const monthlyBeam = new Array<number>(12).fill(0);
+    const monthlyBeamHorizon = new Array<number>(12).fill(0);
+    const monthlyBeamNear = new Array<number>(12).fill(0);
+
+    for (const sun of sunPath) {
+      const altRad = toRadians(sun.altitude);
+      const cosIncidence =
+        Math.sin(altRad) * Math.cos(tiltRad) +
+        Math.cos(altRad) * Math.sin(tiltRad) * Math.cos(toRadians(sun.azimuth) - facingRad);
+      if (cosIncidence <= 0) continue;
+
+      const beamEnergy = sun.dni * cosIncidence * sun.hours;
+      monthlyBeam[sun.month] += beamEnergy;
+
+      if (sun.altitude <= horizonAt(horizon, sun.azimuth)) {
+        monthlyBeamHorizon[sun.month] += beamEnergy;
+        continue;
+      }
+
+      // Candidate obstacles: in front of the frame along the sun's horizontal
+      // direction, tall enough and close enough to cast a shadow on it
+      const tanAlt = Math.tan(altRad);
+      const horizLen = Math.sqrt(sun.direction.x ** 2 + sun.direction.y ** 2) || 1;
+      const hx = sun.direction.x / horizLen;
+      const hy = sun.direction.y / horizLen;
+
+      const inShadowReach = (dx: number, dy: number, reach: number, obstacleRadius: number) => {
+        const along = dx * hx + dy * hy;
+        const across = Math.abs(dx * hy - dy * hx);
+        return (
+          along >= -(solid.radius + obstacleRadius) &&
+          along <= reach + solid.radius + obstacleRadius &&
+          across <= solid.radius + obstacleRadius
+        );
+      };
+
+      const candidates = neighbours[solidIndex].filter((c) => {
+        const rise = c.topZ - solid.lowEdge.z;
+        if (rise <= 0) return false;
+        return inShadowReach(c.center.x - solid.center.x, c.center.y - solid.center.y, rise / tanAlt, c.radius);
+      });
+
+      const nearTrees = treeNeighbours[solidIndex].filter(({ tree, baseZ }) => {
+        const rise = baseZ + tree.totalHeight - solid.lowEdge.z;
+        if (rise <= 0) return false;
+        return inShadowReach(
+          tree.position[0] - solid.center.x,
+          tree.position[1] - solid.center.y,
+          rise / tanAlt,
+          tree.crownDiameter / 2
+        );
+      });
+
+      if (candidates.length === 0 && nearTrees.length === 0) continue;
+
+      let shadedSamples = 0;
+      for (const sample of samples) {
+        const blocked =
+          candidates.some((c) => rayHitsFrame(sample, sun.direction, c)) ||
+          nearTrees.some(({ tree, baseZ }) => rayHitsTree(sample, sun.direction, tree, baseZ));
+        if (blocked) shadedSamples++;
+      }
+
+      monthlyBeamNear[sun.month] += beamEnergy * (shadedSamples / samples.length);
+    }
+
+    // Combine beam and diffuse into a plane-of-array loss per month. Energy is
+    // scaled to the sun's exposure on the plane, so an all-diffuse sky
+    // (beamFraction 0) has no beam loss rather than an undefined total
+    const monthlyLoss: number[] = [];
+    let frameEnergy = 0;
+    let frameShaded = 0;
+
+    for (let m = 0; m < 12; m++) {
+      const totalPOA = monthlyBeam[m];
+      if (totalPOA <= 0) {
+        monthlyLoss.push(0);
+        continue;
+      }
+
+      const diffuse = totalPOA * (1 - beamFraction);
+      const horizonShaded = monthlyBeamHorizon[m] * beamFraction + diffuse * diffuseLoss;
+      const nearShaded = monthlyBeamNear[m] * beamFraction;
+      const shaded = horizonShaded + nearShaded;
+
+      monthlyLoss.push((shaded / totalPOA) * 100);
+      frameEnergy += totalPOA;
+      frameShaded += shaded;
+
+      const weight = solid.moduleCount;
+      plantMonthlyEnergy[m] += totalPOA * weight;
+      plantMonthlyShaded[m] += shaded * weight;
+      plantHorizonShaded += horizonShaded * weight;
+      plantNearShaded += nearShaded * weight;
+      plantEnergy += totalPOA * weight;
+    }
+
+    frameResults.push({
+      frameIndex: solid.frameIndex,
+      monthlyLoss,
+      annualLoss: frameEnergy > 0 ? (frameShaded / frameEnergy) * 100 : 0,
+    });
+    onProgress?.(solidIndex + 1, solids.length);
+  });
+
+  const monthlyLoss = plantMonthlyEnergy.map((energy, m) =>
+    energy > 0 ? (plantMonthlyShaded[m] / energy) * 100 : 0
+  );
+
+  return {
+    frames: frameResults,
+    monthlyLoss,
+    annualLoss: plantEnergy > 0 ? ((plantHorizonShaded + plantNearShaded) / plantEnergy) * 100 : 0,
+    horizonLoss: plantEnergy > 0 ? (plantHorizonShaded / plantEnergy) * 100 : 0,
+    nearShadingLoss: plantEnergy > 0 ? (plantNearShaded / plantEnergy) * 100 : 0,
+    horizonProfile: siteHorizon,
+    sunPositionsEvaluated: sunPath.length,
+    calculatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Move the trees of a DXF drawing into the local frame of a site.
+ *
+ * The drawing centre is placed at the design's GPS coordinates, as in the 3D
+ * viewer, so trees line up with a generated layout shown on the same site.
+ *
+ * @param parsedData - Parsed DXF (trees and drawing bounds, meters)
+ * @param anchor - GPS coordinates of the drawing centre
+ * @param site - Site whose centroid is the origin of the local frame
+ * @returns Trees with positions in meters east/north of the site centroid
+ */
+export function projectTreesToSite(
+  parsedData: Pick<DXFParsedData, 'trees' | 'bounds'>,
+  anchor: { latitude: number; longitude: number },
+  site: Site
+): TreeGeometry[] {
+  if (!site.centroid || parsedData.trees.length === 0) return [];
+
+  const projection = createLocalProjection({
+    lat: site.centroid.latitude,
+    lng: site.centroid.longitude,
+  });
+  const origin = projection.toLocal({ lat: anchor.latitude, lng: anchor.longitude });
+  const [centerX, centerY] = parsedData.bounds.center;
+
+  return parsedData.trees.map((tree) => ({
+    ...tree,
+    position: [
+      origin.x + tree.position[0] - centerX,
+      origin.y + tree.position[1] - centerY,
+      tree.position[2],
+    ],
+  }));
+}
+
+/**
+ * Apply monthly shading losses to a monthly yield profile.
+ *
+ * @param monthlyYield - 12 unshaded monthly values
+ * @param monthlyLoss - 12 shading losses in %
+ * @returns 12 shaded monthly values
+ */
+export function applyMonthlyShading(monthlyYield: number[], monthlyLoss: number[]): number[] {
+  return monthlyYield.map((value, m) => value * (1 - (monthlyLoss[m] ?? 0) / 100));
+}
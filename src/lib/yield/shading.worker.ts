@@ -0,0 +1,10 @@
+/**
+ * Shading Analysis Worker
+ *
+ * Runs analyzeShading off the main thread and reports progress.
+ */
+
+import { serveWorkerTask } from '@/lib/workerTask';
+import { analyzeShading } from './shading';
+
+serveWorkerTask(analyzeShading, 'Shading analysis failed');
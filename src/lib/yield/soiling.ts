@@ -0,0 +1,274 @@
+/**
+ * Soiling and Snow Losses
+ *
+ * Monthly soiling and snow loss profiles from the site climate and the
+ * project's cleaning schedules, replacing the flat soiling assumption.
+ *
+ * Soiling accumulates at a constant rate per dry day up to a ceiling (Kimber
+ * model) and is washed off by rain days and scheduled cleanings. Rain days
+ * are spread evenly over each month and cleanings repeat from their schedule
+ * start; the monthly loss is the mean daily loss of a steady-state year. The
+ * same year without cleanings gives the energy a cleaning contract recovers.
+ *
+ * Snow covers the modules after each snowfall event until it slides off or
+ * melts. Sliding follows the Marion model (a share of the module slant height
+ * per hour, proportional to the sine of the tilt), so steep modules shed snow
+ * within a day while flat ones wait for the melt. Trackers stow at their
+ * rotation limit to shed snow. Snow days recorded in the project's
+ * performance logs replace the modelled cover for the months they cover.
+ */
+
+import type { TrackerConfig } from '@/lib/types/layout';
+import type { MaintenanceSchedule } from '@/lib/types/maintenance';
+import type { PerformanceLog } from '@/lib/types/performanceLog';
+import type { SiteClimate } from '@/lib/types/site';
+import type { SoilingProfile, YieldEstimate } from './types';
+import { RECURRENCE_INTERVAL_DAYS } from '@/lib/types/maintenance';
+import { DAYS_IN_MONTH, toRadians } from './constants';
+
+/** Default soiling rate (% output lost per dry day) */
+export const DEFAULT_SOILING_RATE = 0.1;
+
+const DAYS_PER_YEAR = 365;
+const MAX_SOILING_LOSS = 20;      // % ceiling of accumulated soiling
+const DEFAULT_RAIN_DAYS = 6;      // Cleaning rain days per month
+const SNOW_EVENT_DEPTH_CM = 10;   // Snowfall per covering event
+const SNOW_SLIDE_RATE = 0.197;    // Share of the slant height sliding per hour at 90° (Marion)
+const SLIDING_HOURS_PER_DAY = 4;  // Hours warm or sunny enough for snow to slide
+const SNOW_MELT_DAYS = 7;         // Days until a cover melts without sliding
+
+export interface SoilingProfileInput {
+  climate: SiteClimate;
+  tiltAngle: number;              // Fixed tilt (ignored for trackers)
+  tracker?: TrackerConfig;
+  schedules?: MaintenanceSchedule[];  // Project schedules (active cleaning ones are used)
+  performanceLogs?: PerformanceLog[]; // Project logs with recorded snow days
+}
+
+/**
+ * Default site climate: regular rain and no snow
+ */
+export function createSiteClimate(): SiteClimate {
+  return {
+    rainDays: new Array<number>(12).fill(DEFAULT_RAIN_DAYS),
+    snowfallCm: new Array<number>(12).fill(0),
+    soilingRate: DEFAULT_SOILING_RATE,
+  };
+}
+
+/**
+ * Day of the year (0-364) of an ISO date, 31 December of leap years folded
+ * onto 30 December
+ */
+function dayOfYear(isoDate: string): number {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return 0;
+  const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const day = Math.floor((date.getTime() - start) / 86_400_000);
+  return Math.min(DAYS_PER_YEAR - 1, Math.max(0, day));
+}
+
+/**
+ * Days of a typical year (0-364) on which the project's active cleaning
+ * schedules clean the modules. One-time cleanings do not recur and are left
+ * out of the long-term profile.
+ *
+ * @param schedules - Maintenance schedules of the project
+ * @returns Sorted distinct days of the year
+ */
+export function cleaningDaysFromSchedules(schedules: MaintenanceSchedule[]): number[] {
+  const days = new Set<number>();
+  for (const schedule of schedules) {
+    if (schedule.category !== 'cleaning' || !schedule.isActive || schedule.recurrence === 'once') {
+      continue;
+    }
+    const interval = RECURRENCE_INTERVAL_DAYS[schedule.recurrence];
+    for (let day = dayOfYear(schedule.startDate) % interval; day < DAYS_PER_YEAR; day += interval) {
+      days.add(day);
+    }
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+/**
+ * Monthly soiling loss of a steady-state year.
+ *
+ * @param rainDays - 12 values, cleaning rain days per month
+ * @param soilingRate - % output lost per dry day
+ * @param cleaningDays - Days of the year (0-364) with a scheduled cleaning
+ * @returns 12 monthly losses in %
+ */
+export function estimateMonthlySoiling(
+  rainDays: number[],
+  soilingRate: number,
+  cleaningDays: number[] = []
+): number[] {
+  const washed = new Array<boolean>(DAYS_PER_YEAR).fill(false);
+  cleaningDays.forEach((day) => {
+    if (day >= 0 && day < DAYS_PER_YEAR) washed[day] = true;
+  });
+
+  let monthStart = 0;
+  DAYS_IN_MONTH.forEach((days, m) => {
+    const count = Math.min(days, Math.max(0, Math.round(rainDays[m] ?? 0)));
+    for (let k = 0; k < count; k++) {
+      washed[monthStart + Math.floor(((k + 0.5) * days) / count)] = true;
+    }
+    monthStart += days;
+  });
+
+  // The second pass starts from the soiling carried over the year end
+  const daily = new Array<number>(DAYS_PER_YEAR).fill(0);
+  const rate = Math.max(0, soilingRate);
+  let loss = 0;
+  for (let pass = 0; pass < 2; pass++) {
+    for (let day = 0; day < DAYS_PER_YEAR; day++) {
+      if (washed[day]) loss = 0;
+      daily[day] = loss;
+      loss = Math.min(MAX_SOILING_LOSS, loss + rate);
+    }
+  }
+
+  monthStart = 0;
+  return DAYS_IN_MONTH.map((days) => {
+    const total = daily.slice(monthStart, monthStart + days).reduce((a, b) => a + b, 0);
+    monthStart += days;
+    return total / days;
+  });
+}
+
+/**
+ * Monthly snow loss from snowfall and module tilt.
+ *
+ * Sliding snow uncovers the modules gradually, so a covering event costs on
+ * average half the output of the days until it is cleared. Recorded snow
+ * days count as days with the modules fully covered.
+ *
+ * @param snowfallCm - 12 values, snowfall per month (cm)
+ * @param tiltAngle - Module tilt in degrees (stow angle for trackers)
+ * @param observedSnowDays - 12 recorded snow days per month, undefined where not recorded
+ * @returns 12 monthly losses in %
+ */
+export function estimateMonthlySnowLoss(
+  snowfallCm: number[],
+  tiltAngle: number,
+  observedSnowDays?: Array<number | undefined>
+): number[] {
+  const slidePerDay =
+    SNOW_SLIDE_RATE * Math.sin(toRadians(Math.min(90, Math.abs(tiltAngle)))) * SLIDING_HOURS_PER_DAY;
+  const clearDays = slidePerDay > 0 ? Math.min(SNOW_MELT_DAYS, 1 / slidePerDay) : SNOW_MELT_DAYS;
+
+  return DAYS_IN_MONTH.map((days, m) => {
+    const observed = observedSnowDays?.[m];
+    const coveredDays =
+      observed !== undefined
+        ? observed
+        : (Math.max(0, snowfallCm[m] ?? 0) / SNOW_EVENT_DEPTH_CM) * clearDays * 0.5;
+    return Math.min(100, (coveredDays / days) * 100);
+  });
+}
+
+/**
+ * Average snow days per calendar month recorded in performance logs.
+ *
+ * Logs are counted in the month they start; each month is averaged over the
+ * years that recorded snow days for it.
+ *
+ * @param logs - Performance logs of the project
+ * @returns 12 values (undefined for months without records), or undefined without any record
+ */
+export function monthlySnowDaysFromLogs(
+  logs: PerformanceLog[]
+): Array<number | undefined> | undefined {
+  const byMonth = new Map<string, number>();
+  for (const log of logs) {
+    if (log.snowDays === undefined) continue;
+    const key = log.startDate.slice(0, 7);
+    byMonth.set(key, (byMonth.get(key) ?? 0) + log.snowDays);
+  }
+  if (byMonth.size === 0) return undefined;
+
+  const sums = new Array<number>(12).fill(0);
+  const counts = new Array<number>(12).fill(0);
+  byMonth.forEach((days, key) => {
+    const m = parseInt(key.slice(5, 7), 10) - 1;
+    if (m >= 0 && m < 12) {
+      sums[m] += days;
+      counts[m]++;
+    }
+  });
+  return sums.map((sum, m) =>
+    counts[m] > 0 ? Math.min(DAYS_IN_MONTH[m], sum / counts[m]) : undefined
+  );
+}
+
+/**
+ * Monthly soiling and snow losses of a site, with and without the project's
+ * cleaning schedules.
+ */
+export function buildSoilingProfile(input: SoilingProfileInput): SoilingProfile {
+  const { climate } = input;
+  const cleaningDays = cleaningDaysFromSchedules(input.schedules ?? []);
+  const snowTilt = input.tracker ? input.tracker.maxRotationDeg : input.tiltAngle;
+
+  return {
+    monthlySoilingLoss: estimateMonthlySoiling(climate.rainDays, climate.soilingRate, cleaningDays),
+    monthlyUncleanedLoss: estimateMonthlySoiling(climate.rainDays, climate.soilingRate),
+    monthlySnowLoss: estimateMonthlySnowLoss(
+      climate.snowfallCm,
+      snowTilt,
+      monthlySnowDaysFromLogs(input.performanceLogs ?? [])
+    ),
+    cleaningsPerYear: cleaningDays.length,
+  };
+}
+
+/**
+ * Apply a soiling profile to an estimate without soiling losses.
+ *
+ * Monthly yields are reduced by the soiling and snow losses of each month,
+ * and the annual losses are the yield-weighted averages so that the loss
+ * breakdown and PR stay consistent.
+ */
+export function applySoilingProfile(
+  estimate: YieldEstimate,
+  profile: SoilingProfile
+): YieldEstimate {
+  const cleanTotal = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+  if (cleanTotal <= 0) return estimate;
+
+  const soiled = estimate.monthlyYield.map((m, i) => m * (1 - profile.monthlySoilingLoss[i] / 100));
+  const monthlyYield = soiled.map((m, i) => m * (1 - profile.monthlySnowLoss[i] / 100));
+  const soiledTotal = soiled.reduce((a, b) => a + b, 0);
+  const annualYield = monthlyYield.reduce((a, b) => a + b, 0);
+  const performanceRatio = estimate.performanceRatio * (annualYield / cleanTotal);
+
+  return {
+    ...estimate,
+    annualYield,
+    monthlyYield,
+    monthlyFactors: monthlyYield.map((m) => (annualYield > 0 ? m / annualYield : 0)),
+    performanceRatio,
+    soilingProfile: profile,
+    losses: {
+      ...estimate.losses,
+      soilingLoss: (1 - soiledTotal / cleanTotal) * 100,
+      snowLoss: soiledTotal > 0 ? (1 - annualYield / soiledTotal) * 100 : 0,
+      totalLoss: (1 - performanceRatio) * 100,
+    },
+  };
+}
+
+/**
+ * Energy (kWh/year) the scheduled cleanings of an estimate's soiling profile
+ * recover over rain alone.
+ */
+export function cleaningEnergyGain(estimate: YieldEstimate): number {
+  const profile = estimate.soilingProfile;
+  if (!profile) return 0;
+  return estimate.monthlyYield.reduce((sum, m, i) => {
+    const cleaned = 1 - profile.monthlySoilingLoss[i] / 100;
+    const uncleaned = 1 - profile.monthlyUncleanedLoss[i] / 100;
+    return sum + (cleaned > 0 ? m * (1 - uncleaned / cleaned) : 0);
+  }, 0);
+}
@@ -0,0 +1,314 @@
+/**
+ * TMY Weather File Parser
+ *
+ * Reads typical meteorological year files into 8760 hourly records for the
+ * hourly yield simulation. Supported formats:
+ * - PVGIS TMY JSON and CSV (hour stamps in UTC)
+ * - NSRDB / SAM CSV (two metadata lines, then a column header row)
+ * - EnergyPlus EPW (hour stamps 1-24 mark the end of each hour)
+ *
+ * Leap days are dropped so that every year has 8760 hours.
+ */
+
+import type { TMYData, TMYFormat, TMYHour } from './types';
+import { HOURS_PER_YEAR } from './constants';
+
+// EPW data columns (0-based)
+const EPW_COLUMNS = {
+  month: 1,
+  day: 2,
+  hour: 3,
+  dryBulb: 6,
+  ghi: 13,
+  dni: 14,
+  dhi: 15,
+  windSpeed: 21,
+} as const;
+
+// EPW missing-value markers: a field at or above its marker is missing
+const EPW_MISSING = {
+  dryBulb: 99.9,
+  windSpeed: 999,
+  irradiance: 9999,
+} as const;
+
+// NSRDB / SAM column names (lower case) for each field
+const NSRDB_ALIASES = {
+  month: ['month'],
+  day: ['day'],
+  hour: ['hour'],
+  ghi: ['ghi', 'glo'],
+  dni: ['dni', 'dn'],
+  dhi: ['dhi', 'df'],
+  temperature: ['temperature', 'tdry', 'temp', 'dry bulb'],
+  windSpeed: ['wind speed', 'wspd'],
+} as const;
+
+/**
+ * Number from a file field, or the fallback for blanks and values at or above
+ * the missing-value marker
+ */
+function toNumber(value: unknown, fallback: number = 0, missing: number = 9999): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(n) || Math.abs(n) >= missing) return fallback;
+  return n;
+}
+
+function irradiance(value: unknown): number {
+  return Math.max(0, toNumber(value, 0, EPW_MISSING.irradiance));
+}
+
+/**
+ * Parse a PVGIS "YYYYMMDD:HHMM" stamp
+ */
+function parsePVGISTime(stamp: string): Pick<TMYHour, 'month' | 'day' | 'hour'> {
+  const match = /^\d{4}(\d{2})(\d{2}):(\d{2})/.exec(stamp.trim());
+  if (!match) throw new Error(`Invalid PVGIS time stamp: ${stamp}`);
+  return { month: Number(match[1]), day: Number(match[2]), hour: Number(match[3]) };
+}
+
+/**
+ * Drop leap days, order the hours and check for a full year
+ */
+function completeYear(hours: TMYHour[]): TMYHour[] {
+  const year = hours
+    .filter((h) => !(h.month === 2 && h.day === 29))
+    .sort((a, b) => a.month - b.month || a.day - b.day || a.hour - b.hour);
+
+  if (year.length !== HOURS_PER_YEAR) {
+    throw new Error(`Expected ${HOURS_PER_YEAR} hourly records, found ${year.length}`);
+  }
+  return year;
+}
+
+/**
+ * Detect the format of a TMY file from its content
+ */
+export function detectTMYFormat(content: string): TMYFormat | null {
+  const text = content.trimStart();
+  if (text.startsWith('{')) return 'pvgis_json';
+  if (/^LOCATION,/i.test(text)) return 'epw';
+  if (text.includes('time(UTC)')) return 'pvgis_csv';
+
+  const lines = text.split(/\r?\n/, 10).map((line) => line.toLowerCase());
+  if (lines.some((line) => /(^|,)month,day,hour(,|$)/.test(line.replace(/\s+/g, '')))) {
+    return 'nsrdb_csv';
+  }
+  return null;
+}
+
+function parsePVGISJson(content: string): TMYData {
+  const json = JSON.parse(content);
+  const rows: Array<Record<string, unknown>> | undefined = json?.outputs?.tmy_hourly;
+  if (!Array.isArray(rows)) throw new Error('Not a PVGIS TMY file (outputs.tmy_hourly missing)');
+
+  const location = json.inputs?.location ?? {};
+  return {
+    format: 'pvgis_json',
+    latitude: toNumber(location.latitude, NaN),
+    longitude: toNumber(location.longitude, NaN),
+    elevation: toNumber(location.elevation, NaN),
+    timeReference: 'utc',
+    timezone: 0,
+    hours: completeYear(
+      rows.map((row) => ({
+        ...parsePVGISTime(String(row['time(UTC)'] ?? '')),
+        ghi: irradiance(row['G(h)']),
+        dni: irradiance(row['Gb(n)']),
+        dhi: irradiance(row['Gd(h)']),
+        tAmb: toNumber(row.T2m),
+        windSpeed: toNumber(row.WS10m),
+      }))
+    ),
+  };
+}
+
+function parsePVGISCsv(content: string): TMYData {
+  const lines = content.split(/\r?\n/);
+  const meta = (label: string) => {
+    const line = lines.find((l) => l.toLowerCase().startsWith(label));
+    const match = line ? /:\s*,?\s*(-?[\d.]+)/.exec(line) : null;
+    return match ? Number(match[1]) : NaN;
+  };
+
+  const headerIndex = lines.findIndex((l) => l.startsWith('time(UTC)'));
+  if (headerIndex < 0) throw new Error('Not a PVGIS TMY file (time(UTC) header missing)');
+  const columns = lines[headerIndex].split(',').map((c) => c.trim());
+  const col = (name: string) => columns.indexOf(name);
+  const [ghi, dni, dhi, temp, wind] = ['G(h)', 'Gb(n)', 'Gd(h)', 'T2m', 'WS10m'].map(col);
+  if (ghi < 0) throw new Error('PVGIS TMY file has no G(h) column');
+
+  const hours: TMYHour[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    // Data rows start with a YYYYMMDD:HHMM stamp; the footer explains the columns
+    if (!/^\d{8}:\d{4}/.test(line)) continue;
+    const fields = line.split(',');
+    hours.push({
+      ...parsePVGISTime(fields[0]),
+      ghi: irradiance(fields[ghi]),
+      dni: dni >= 0 ? irradiance(fields[dni]) : undefined,
+      dhi: dhi >= 0 ? irradiance(fields[dhi]) : undefined,
+      tAmb: temp >= 0 ? toNumber(fields[temp]) : 20,
+      windSpeed: wind >= 0 ? toNumber(fields[wind]) : 1,
+    });
+  }
+
+  return {
+    format: 'pvgis_csv',
+    latitude: meta('latitude'),
+    longitude: meta('longitude'),
+    elevation: meta('elevation'),
+    timeReference: 'utc',
+    timezone: 0,
+    hours: completeYear(hours),
+  };
+}
+
+function parseNSRDBCsv(content: string): TMYData {
+  const rows = content.split(/\r?\n/).map((line) => line.split(',').map((f) => f.trim()));
+  const headerIndex = rows.findIndex((fields) => {
+    const names = fields.map((f) => f.toLowerCase());
+    return names.includes('month') && names.includes('day') && names.includes('hour');
+  });
+  if (headerIndex < 0) throw new Error('No Month,Day,Hour column header found');
+
+  const columns = rows[headerIndex].map((c) => c.toLowerCase().replace(/\s*\(.*\)$/, ''));
+  const col = (aliases: readonly string[]) => columns.findIndex((c) => aliases.includes(c));
+  const index = {
+    month: col(NSRDB_ALIASES.month),
+    day: col(NSRDB_ALIASES.day),
+    hour: col(NSRDB_ALIASES.hour),
+    ghi: col(NSRDB_ALIASES.ghi),
+    dni: col(NSRDB_ALIASES.dni),
+    dhi: col(NSRDB_ALIASES.dhi),
+    temperature: col(NSRDB_ALIASES.temperature),
+    windSpeed: col(NSRDB_ALIASES.windSpeed),
+  };
+  if (index.ghi < 0) throw new Error('Weather file has no GHI column');
+
+  // Location metadata: a name row followed by a value row above the column header
+  let latitude = NaN;
+  let longitude = NaN;
+  let elevation = NaN;
+  let timezone = 0;
+  if (headerIndex >= 2) {
+    const names = rows[headerIndex - 2].map((n) => n.toLowerCase());
+    const values = rows[headerIndex - 1];
+    const value = (name: string) => {
+      const i = names.indexOf(name);
+      return i >= 0 ? toNumber(values[i], NaN) : NaN;
+    };
+    latitude = value('latitude');
+    longitude = value('longitude');
+    elevation = value('elevation');
+    timezone = toNumber(value('time zone'), 0);
+  }
+
+  const hours: TMYHour[] = rows
+    .slice(headerIndex + 1)
+    .filter((fields) => fields.length > index.ghi && fields[index.month] !== '')
+    .map((fields) => ({
+      month: toNumber(fields[index.month]),
+      day: toNumber(fields[index.day]),
+      hour: toNumber(fields[index.hour]),
+      ghi: irradiance(fields[index.ghi]),
+      dni: index.dni >= 0 ? irradiance(fields[index.dni]) : undefined,
+      dhi: index.dhi >= 0 ? irradiance(fields[index.dhi]) : undefined,
+      tAmb: index.temperature >= 0 ? toNumber(fields[index.temperature]) : 20,
+      windSpeed: index.windSpeed >= 0 ? toNumber(fields[index.windSpeed]) : 1,
+    }));
+
+  // Sub-hourly files (e.g. 30-minute NSRDB) are not supported
+  const unique = new Set(hours.map((h) => `${h.month}-${h.day}-${h.hour}`));
+  if (unique.size !== hours.length) throw new Error('Only hourly weather files are supported');
+
+  return {
+    format: 'nsrdb_csv',
+    latitude,
+    longitude,
+    elevation,
+    timeReference: 'local',
+    timezone,
+    hours: completeYear(hours),
+  };
+}
+
+function parseEPW(content: string): TMYData {
+  const lines = content.split(/\r?\n/);
+  const location = lines[0].split(',');
+  if (location[0].toUpperCase() !== 'LOCATION') throw new Error('Not an EPW file (LOCATION line missing)');
+
+  const hours: TMYHour[] = [];
+  // Missing temperatures and wind speeds repeat the previous hour
+  let previousTemp = 20;
+  let previousWind = 1;
+  for (const line of lines.slice(8)) {
+    const fields = line.split(',');
+    if (fields.length <= EPW_COLUMNS.windSpeed) continue;
+
+    const tAmb = toNumber(fields[EPW_COLUMNS.dryBulb], previousTemp, EPW_MISSING.dryBulb);
+    const windSpeed = toNumber(fields[EPW_COLUMNS.windSpeed], previousWind, EPW_MISSING.windSpeed);
+    previousTemp = tAmb;
+    previousWind = windSpeed;
+    hours.push({
+      month: toNumber(fields[EPW_COLUMNS.month]),
+      day: toNumber(fields[EPW_COLUMNS.day]),
+      hour: toNumber(fields[EPW_COLUMNS.hour]) - 1,
+      ghi: irradiance(fields[EPW_COLUMNS.ghi]),
+      dni: irradiance(fields[EPW_COLUMNS.dni]),
+      dhi: irradiance(fields[EPW_COLUMNS.dhi]),
+      tAmb,
+      windSpeed,
+    });
+  }
+
+  return {
+    format: 'epw',
+    latitude: toNumber(location[6], NaN),
+    longitude: toNumber(location[7], NaN),
+    elevation: toNumber(location[9], NaN),
+    timeReference: 'local',
+    timezone: toNumber(location[8], 0),
+    hours: completeYear(hours),
+  };
+}
+
+/**
+ * Parse a TMY weather file.
+ *
+ * @param content - File content as text
+ * @param format - File format (detected from the content when omitted)
+ * @returns 8760 hourly weather records with the file's location metadata
+ * @throws Error when the format is not recognised or the year is incomplete
+ */
+export function parseTMYFile(content: string, format?: TMYFormat): TMYData {
+  const resolved = format ?? detectTMYFormat(content);
+  switch (resolved) {
+    case 'pvgis_json':
+      return parsePVGISJson(content);
+    case 'pvgis_csv':
+      return parsePVGISCsv(content);
+    case 'nsrdb_csv':
+      return parseNSRDBCsv(content);
+    case 'epw':
+      return parseEPW(content);
+    default:
+      throw new Error('Unrecognised weather file format (expected PVGIS TMY, NSRDB/SAM CSV or EPW)');
+  }
+}
+
+/**
+ * Display name of a TMY format
+ */
+export function getTMYFormatLabel(format: TMYFormat): string {
+  switch (format) {
+    case 'pvgis_json':
+      return 'PVGIS TMY (JSON)';
+    case 'pvgis_csv':
+      return 'PVGIS TMY (CSV)';
+    case 'nsrdb_csv':
+      return 'NSRDB / SAM CSV';
+    case 'epw':
+      return 'EnergyPlus EPW';
+  }
+}
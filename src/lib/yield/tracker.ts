@@ -0,0 +1,106 @@
+/**
+ * Single-Axis Tracker Energy Gain
+ *
+ * Compares plane-of-array irradiance on a horizontal single-axis tracker
+ * with a fixed-tilt reference over a representative clear-sky year, and
+ * returns monthly gain factors to apply to a fixed-tilt yield estimate.
+ *
+ * The tracker model honours rotation limits and backtracking. Without
+ * backtracking, the beam blocked by the neighbouring row is deducted.
+ * Diffuse light is isotropic and scaled by each surface's sky view factor.
+ */
+
+import type { TrackerConfig } from '@/lib/types/layout';
+import {
+  calculateTrueTrackingAngle,
+  calculateTrackerRotation,
+  calculateRowShadingFraction,
+} from '@/lib/layout/tracker';
+import { buildSunPath } from './shading';
+import { toRadians } from './constants';
+
+export interface TrackerGainResult {
+  monthlyGain: number[];          // 12 ratios of tracker / fixed-tilt energy
+  annualGain: number;             // % energy gain over fixed tilt
+  rowShadingLoss: number;         // % of tracker beam lost to row-to-row shading
+}
+
+/**
+ * Calculate the energy gain of a single-axis tracker over a fixed-tilt reference.
+ *
+ * @param latitude - Site latitude in degrees
+ * @param tracker - Tracker geometry (from GeneratedLayout.tracker)
+ * @param fixedTilt - Tilt of the fixed reference in degrees
+ * @param fixedAzimuth - Azimuth of the fixed reference (compass, 180 = south)
+ * @param beamFraction - Share of horizontal irradiance that is direct beam (default: 0.75)
+ * @returns Monthly gain factors and annual summary
+ */
+export function calculateTrackerGain(
+  latitude: number,
+  tracker: TrackerConfig,
+  fixedTilt: number,
+  fixedAzimuth: number,
+  beamFraction: number = 0.75
+): TrackerGainResult {
+  const sunPath = buildSunPath(latitude);
+  const diffuseRatio = (1 - beamFraction) / Math.max(beamFraction, 0.01);
+
+  const fixedTiltRad = toRadians(fixedTilt);
+  const fixedAzRad = toRadians(fixedAzimuth);
+  const fixedSkyView = (1 + Math.cos(fixedTiltRad)) / 2;
+
+  // Rotation axis and the horizontal direction the tracker tilts towards at +angle
+  const axisRad = toRadians(tracker.axisAzimuth);
+  const west = { x: -Math.cos(axisRad), y: Math.sin(axisRad) };
+
+  const trackerEnergy = new Array<number>(12).fill(0);
+  const fixedEnergy = new Array<number>(12).fill(0);
+  let trackerBeam = 0;
+  let trackerBeamShaded = 0;
+
+  for (const sun of sunPath) {
+    const altRad = toRadians(sun.altitude);
+    const diffuse = sun.dni * Math.sin(altRad) * diffuseRatio * sun.hours;
+
+    // Fixed-tilt reference
+    const fixedCos =
+      Math.sin(altRad) * Math.cos(fixedTiltRad) +
+      Math.cos(altRad) * Math.sin(fixedTiltRad) * Math.cos(toRadians(sun.azimuth) - fixedAzRad);
+    fixedEnergy[sun.month] +=
+      sun.dni * Math.max(0, fixedCos) * sun.hours + diffuse * fixedSkyView;
+
+    // Tracker
+    const rotation = calculateTrackerRotation(sun.azimuth, sun.altitude, tracker);
+    const rotRad = toRadians(rotation);
+    const normal = {
+      x: west.x * Math.sin(rotRad),
+      y: west.y * Math.sin(rotRad),
+      z: Math.cos(rotRad),
+    };
+    const trackerCos = Math.max(
+      0,
+      normal.x * sun.direction.x + normal.y * sun.direction.y + normal.z * sun.direction.z
+    );
+
+    const beam = sun.dni * trackerCos * sun.hours;
+    const trueAngle = calculateTrueTrackingAngle(sun.azimuth, sun.altitude, tracker.axisAzimuth);
+    const shaded = beam * calculateRowShadingFraction(trueAngle, rotation, tracker.gcr);
+
+    trackerBeam += beam;
+    trackerBeamShaded += shaded;
+    trackerEnergy[sun.month] +=
+      beam - shaded + diffuse * ((1 + Math.cos(rotRad)) / 2);
+  }
+
+  const monthlyGain = trackerEnergy.map((energy, m) =>
+    fixedEnergy[m] > 0 ? energy / fixedEnergy[m] : 1
+  );
+  const totalTracker = trackerEnergy.reduce((a, b) => a + b, 0);
+  const totalFixed = fixedEnergy.reduce((a, b) => a + b, 0);
+
+  return {
+    monthlyGain,
+    annualGain: totalFixed > 0 ? (totalTracker / totalFixed - 1) * 100 : 0,
+    rowShadingLoss: trackerBeam > 0 ? (trackerBeamShaded / trackerBeam) * 100 : 0,
+  };
+}
@@ -5,8 +5,10 @@
  * with offline fallback via latitude-based GHI lookup tables.
  */
 
+import type { MountType, TrackerConfig } from '@/lib/types/layout';
+
 /** Source of the yield estimate */
-export type YieldSource = 'manual' | 'pvgis' | 'lookup';
+export type YieldSource = 'manual' | 'pvgis' | 'lookup' | 'tmy';
 
 /** Yield estimate stored in financial model */
 export interface YieldEstimate {
@@ -33,19 +35,45 @@ export interface YieldEstimate {
 
   // Loss breakdown (for transparency)
   losses: YieldLossBreakdown;
+  monthlyShadingLoss?: number[];  // 12 values in % (when a shading analysis was applied)
+  soilingProfile?: SoilingProfile; // Monthly soiling and snow losses (when modelled from the site climate)
+
+  // Mounting (absent = fixed tilt)
+  mountType?: MountType;
+  trackerGain?: number;           // % energy gain of the tracker over the fixed-tilt reference
 
   // Component used for calculation (if any)
   componentId?: string;
+
+  // Inverter clipping and grid export limit (when modelled)
+  acCapacityKw?: number;          // Inverter AC rating used for clipping
+  dcAcRatio?: number;
+  exportLimitKw?: number;         // Grid export limit at the point of interconnection
+  clippedEnergy?: number;         // kWh/year lost to inverter clipping
+  exportLimitedEnergy?: number;   // kWh/year lost to the export limit
+
+  // Bifacial modules (when modelled, the gain is losses.bifacialGain)
+  bifacialityFactor?: number;     // Rear/front efficiency ratio used
+  monthlyAlbedo?: number[];       // 12 ground reflectance values used (including snow)
+
+  // Hourly simulation (source 'tmy')
+  hourlyProfile?: number[];       // 8760 values in kWh (AC), hour 0 = 00:00-01:00 1 Jan local standard time
+  weatherFile?: string;           // Name of the imported TMY file
+  weatherFormat?: TMYFormat;
 }
 
 /** Breakdown of system losses */
 export interface YieldLossBreakdown {
   temperatureLoss: number;        // % loss from cell temperature > 25°C
   soilingLoss: number;            // % loss from dust/dirt
+  snowLoss?: number;              // % loss from snow cover
   shadingLoss: number;            // % loss from shading
+  bifacialGain?: number;          // % gain from rear-side irradiance (a gain, not a loss)
   wiringLoss: number;             // % loss from DC/AC wiring
   mismatchLoss: number;           // % loss from module mismatch
   inverterLoss: number;           // % loss from inverter efficiency
+  clippingLoss?: number;          // % loss from inverter AC clipping (DC/AC ratio)
+  exportLimitLoss?: number;       // % loss from the grid export limit
   availabilityLoss: number;       // % loss from downtime
   otherLoss: number;              // % other losses
   totalLoss: number;              // Combined loss %
@@ -76,6 +104,66 @@ export interface YieldCalculationInput {
   avgAmbientTemp?: number;        // °C (will be estimated if not provided)
   soilingLoss?: number;           // % (default: 2)
   shadingLoss?: number;           // % (default: 3)
+  monthlyShadingLoss?: number[];  // 12 values in % from analyzeShading (overrides shadingLoss)
+  soilingProfile?: SoilingProfile; // Monthly soiling and snow losses (overrides soilingLoss)
+  wiringLoss?: number;            // % (default: 2) - e.g. CableScheduleResult.wiringLoss
+
+  // Single-axis tracker (optional, from GeneratedLayout.tracker)
+  tracker?: TrackerConfig;        // tiltAngle/azimuth then describe the fixed-tilt reference
+
+  // Inverter clipping and export limit (optional, no clipping when absent)
+  acCapacityKw?: number;          // Inverter AC rating
+  exportLimitKw?: number;         // Grid export limit at the point of interconnection
+
+  // Bifacial modules (optional, no rear-side gain when absent)
+  bifacial?: BifacialGeometry;
+
+  // Ground reflectance (optional)
+  albedo?: number;                // 0-1 (default: 0.2)
+  monthlyAlbedo?: number[];       // 12 values including snow, e.g. from the site (overrides albedo)
+}
+
+/** Module bifaciality and row geometry for the rear-side irradiance model */
+export interface BifacialGeometry {
+  bifacialityFactor: number;      // Rear/front efficiency ratio 0-1 (ModuleSpecs.bifacialityFactor)
+  collectorWidthM: number;        // Frame depth across the row, on the module plane (m)
+  pitchM: number;                 // Row-to-row distance (m)
+  mountingHeightM: number;        // Lower module edge (fixed tilt) or tracker axis height (m)
+  rearLoss?: number;              // % of rear irradiance lost to structure shading and rear mismatch (default: 5)
+}
+
+/** Monthly soiling and snow losses from the site climate and cleaning schedules */
+export interface SoilingProfile {
+  monthlySoilingLoss: number[];   // 12 values in %, washed by rain and scheduled cleanings
+  monthlyUncleanedLoss: number[]; // 12 values in %, washed by rain only
+  monthlySnowLoss: number[];      // 12 values in %
+  cleaningsPerYear: number;       // Scheduled cleanings in a typical year
+}
+
+/** Supported typical meteorological year file formats */
+export type TMYFormat = 'pvgis_json' | 'pvgis_csv' | 'nsrdb_csv' | 'epw';
+
+/** One hour of a typical meteorological year */
+export interface TMYHour {
+  month: number;                  // 1-12
+  day: number;                    // 1-31
+  hour: number;                   // 0-23, start of the hour
+  ghi: number;                    // W/m² global horizontal
+  dni?: number;                   // W/m² direct normal (decomposed from GHI when absent)
+  dhi?: number;                   // W/m² diffuse horizontal (decomposed from GHI when absent)
+  tAmb: number;                   // °C ambient (dry bulb) temperature
+  windSpeed: number;              // m/s
+}
+
+/** Parsed typical meteorological year */
+export interface TMYData {
+  format: TMYFormat;
+  latitude?: number;
+  longitude?: number;
+  elevation?: number;             // m
+  timeReference: 'utc' | 'local'; // Time base of the hour stamps
+  timezone: number;               // UTC offset in hours of local standard time (0 when unknown)
+  hours: TMYHour[];               // 8760 hours from 1 January (29 February dropped)
 }
 
 /** Result from yield calculation */
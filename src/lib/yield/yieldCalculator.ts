@@ -24,10 +24,16 @@ import type {
   YieldEstimate,
   YieldSource,
 } from './types';
-import { DEFAULT_SYSTEM_CONFIG } from './types';
+import type { TrackerConfig } from '@/lib/types/layout';
+import { DEFAULT_LOSSES, DEFAULT_SYSTEM_CONFIG } from './types';
 import { fetchPVGIS, extractYieldData, isPVGISCoverageArea } from './pvgisClient';
 import { estimateYieldFromLookup, getOptimalTilt, getOptimalAzimuth, isValidCoordinates } from './ghiLookup';
 import { calculatePerformanceRatio } from './performanceRatio';
+import { applyMonthlyShading } from './shading';
+import { calculateTrackerGain } from './tracker';
+import { applyClippingProfile } from './clipping';
+import { applyBifacialProfile, resolveMonthlyAlbedo } from './bifacial';
+import { applySoilingProfile } from './soiling';
 
 /**
  * Calculate solar yield for a PV system.
@@ -37,7 +43,10 @@ import { calculatePerformanceRatio } from './performanceRatio';
  * 2. Tries PVGIS API first (if location is likely covered)
  * 3. Falls back to lookup table if PVGIS fails
  * 4. Calculates performance ratio from component specs
- * 5. Returns a complete YieldEstimate
+ * 5. Adds the bifacial rear-side gain when given
+ * 6. Applies monthly shading, soiling and snow profiles when given
+ * 7. Applies inverter clipping and the export limit when given
+ * 8. Returns a complete YieldEstimate
  *
  * @param input - Calculation inputs
  * @returns Calculation result with estimate or error
@@ -70,7 +79,10 @@ export async function calculateYield(
   // Determine system configuration
   const tiltAngle = input.tiltAngle ?? getOptimalTilt(input.latitude);
   const azimuth = input.azimuth ?? getOptimalAzimuth(input.latitude);
-  const systemLosses = input.systemLosses ?? DEFAULT_SYSTEM_CONFIG.systemLosses;
+  const systemLosses = adjustSystemLossesForWiring(
+    input.systemLosses ?? DEFAULT_SYSTEM_CONFIG.systemLosses,
+    input.wiringLoss
+  );
   console.log('[YieldCalc] Config:', { tiltAngle, azimuth, systemLosses });
 
   // Calculate performance ratio from component specs
@@ -79,8 +91,10 @@ export async function calculateYield(
     noct: input.moduleSpecs?.noct,
     inverterEfficiency: input.inverterEfficiency,
     avgAmbientTemp: input.avgAmbientTemp,
-    soilingLoss: input.soilingLoss,
-    shadingLoss: input.shadingLoss,
+    // Monthly shading and soiling profiles are applied after the fact
+    soilingLoss: input.soilingProfile ? 0 : input.soilingLoss,
+    shadingLoss: input.monthlyShadingLoss ? 0 : input.shadingLoss,
+    wiringLoss: input.wiringLoss,
   });
   console.log('[YieldCalc] PR result:', prResult);
 
@@ -94,11 +108,26 @@ export async function calculateYield(
     return {
       success: true,
       source: 'pvgis',
-      estimate: {
-        ...pvgisResult.estimate,
-        performanceRatio: prResult.performanceRatio,
-        losses: prResult.losses,
-      },
+      estimate: applyInverterLimits(
+        applySoiling(
+          applyShadingProfile(
+            applyBifacialGain(
+              applyTrackerProfile(
+                {
+                  ...pvgisResult.estimate,
+                  performanceRatio: prResult.performanceRatio,
+                  losses: prResult.losses,
+                },
+                input.tracker
+              ),
+              input
+            ),
+            input.monthlyShadingLoss
+          ),
+          input
+        ),
+        input
+      ),
     };
   }
 
@@ -126,6 +155,15 @@ export async function calculateYield(
   };
 }
 
+/**
+ * PVGIS lumps wiring into its system losses - swap the default wiring share
+ * for a computed one (e.g. from the cable schedule).
+ */
+function adjustSystemLossesForWiring(systemLosses: number, wiringLoss?: number): number {
+  if (wiringLoss === undefined) return systemLosses;
+  return Math.max(0, systemLosses - DEFAULT_LOSSES.wiring + wiringLoss);
+}
+
 /**
  * Try to get yield estimate from PVGIS API.
  */
@@ -248,7 +286,16 @@ function tryLookupTable(
     return {
       success: true,
       source: 'lookup',
-      estimate,
+      estimate: applyInverterLimits(
+        applySoiling(
+          applyShadingProfile(
+            applyBifacialGain(applyTrackerProfile(estimate, input.tracker), input),
+            input.monthlyShadingLoss
+          ),
+          input
+        ),
+        input
+      ),
     };
   } catch (error) {
     return {
@@ -259,6 +306,121 @@ function tryLookupTable(
   }
 }
 
+/**
+ * Convert a fixed-tilt estimate into a single-axis tracker estimate.
+ *
+ * The estimate's tilt and azimuth are used as the fixed reference for the
+ * monthly gain factors, so PVGIS and lookup results are treated alike.
+ */
+function applyTrackerProfile(
+  estimate: YieldEstimate,
+  tracker?: TrackerConfig
+): YieldEstimate {
+  if (!tracker) return estimate;
+
+  const fixedTotal = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+  if (fixedTotal <= 0) return estimate;
+
+  const gain = calculateTrackerGain(
+    estimate.latitude,
+    tracker,
+    estimate.tiltAngle,
+    estimate.azimuth
+  );
+  const monthlyYield = estimate.monthlyYield.map((m, i) => m * gain.monthlyGain[i]);
+  const annualYield = monthlyYield.reduce((a, b) => a + b, 0);
+  const gainFactor = annualYield / fixedTotal;
+
+  return {
+    ...estimate,
+    annualYield,
+    monthlyYield,
+    monthlyFactors: monthlyYield.map((m) => (annualYield > 0 ? m / annualYield : 0)),
+    // PR is relative to plane-of-array irradiance, which grows with the energy
+    annualPOA: estimate.annualPOA !== undefined ? estimate.annualPOA * gainFactor : undefined,
+    mountType: 'single_axis_tracker',
+    trackerGain: (gainFactor - 1) * 100,
+  };
+}
+
+/**
+ * Add the rear-side gain of bifacial modules, as an irradiance gain before
+ * shading and the inverters.
+ */
+function applyBifacialGain(
+  estimate: YieldEstimate,
+  input: YieldCalculationInput
+): YieldEstimate {
+  if (!input.bifacial) return estimate;
+  return applyBifacialProfile(estimate, input.bifacial, resolveMonthlyAlbedo(input), input.tracker);
+}
+
+/**
+ * Apply the monthly soiling and snow losses of the site climate in place of
+ * the flat soiling loss.
+ */
+function applySoiling(
+  estimate: YieldEstimate,
+  input: YieldCalculationInput
+): YieldEstimate {
+  if (!input.soilingProfile) return estimate;
+  return applySoilingProfile(estimate, input.soilingProfile);
+}
+
+/**
+ * Apply inverter clipping and the grid export limit last, on the energy that
+ * reaches the inverters.
+ */
+function applyInverterLimits(
+  estimate: YieldEstimate,
+  input: YieldCalculationInput
+): YieldEstimate {
+  return applyClippingProfile(
+    estimate,
+    input.capacityKwp,
+    input.acCapacityKw,
+    input.exportLimitKw,
+    input.tracker
+  );
+}
+
+/**
+ * Apply a monthly shading profile (from analyzeShading) to an unshaded estimate.
+ *
+ * Monthly yields are reduced month by month, and the annual shading loss is
+ * the yield-weighted average so that the loss breakdown and PR stay consistent.
+ */
+function applyShadingProfile(
+  estimate: YieldEstimate,
+  monthlyShadingLoss?: number[]
+): YieldEstimate {
+  if (!monthlyShadingLoss || monthlyShadingLoss.length !== 12) {
+    return estimate;
+  }
+
+  const unshadedTotal = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+  if (unshadedTotal <= 0) return estimate;
+
+  const monthlyYield = applyMonthlyShading(estimate.monthlyYield, monthlyShadingLoss);
+  const annualYield = monthlyYield.reduce((a, b) => a + b, 0);
+  const shadingFactor = annualYield / unshadedTotal;
+  const performanceRatio = estimate.performanceRatio * shadingFactor;
+
+  return {
+    ...estimate,
+    annualYield,
+    monthlyYield,
+    monthlyFactors: monthlyYield.map((m) => (annualYield > 0 ? m / annualYield : 0)),
+    performanceRatio,
+    monthlyShadingLoss,
+    losses: {
+      ...estimate.losses,
+      shadingLoss: (1 - shadingFactor) * 100,
+      totalLoss: (1 - performanceRatio) * 100,
+    },
+  };
+}
+
 /**
  * Calculate yield using only the lookup table (no API call).
  *
@@ -299,8 +461,10 @@ export function calculateYieldOffline(
     noct: input.moduleSpecs?.noct,
     inverterEfficiency: input.inverterEfficiency,
     avgAmbientTemp: input.avgAmbientTemp,
-    soilingLoss: input.soilingLoss,
-    shadingLoss: input.shadingLoss,
+    // Monthly shading and soiling profiles are applied after the fact
+    soilingLoss: input.soilingProfile ? 0 : input.soilingLoss,
+    shadingLoss: input.monthlyShadingLoss ? 0 : input.shadingLoss,
+    wiringLoss: input.wiringLoss,
   });
 
   return tryLookupTable(
@@ -401,6 +565,8 @@ export function getSourceDescription(source: YieldSource): string {
       return 'PVGIS (EU Joint Research Centre)';
     case 'lookup':
       return 'Estimated from latitude (offline)';
+    case 'tmy':
+      return 'Hourly simulation from TMY weather file';
     case 'manual':
       return 'Manual entry';
     default:
@@ -176,6 +176,12 @@ export function Components() {
       tempCoeffPmax: extractValue(shared.tempCoeffPmax),
       tempCoeffVoc: extractValue(shared.tempCoeffVoc),
       tempCoeffIsc: extractValue(shared.tempCoeffIsc),
+      // From shared (degradation and warranty)
+      lid: extractValue(shared.lid),
+      letid: extractValue(shared.letid),
+      firstYearDegradation: extractValue(shared.firstYearDegradation),
+      annualDegradation: extractValue(shared.annualDegradation),
+      warrantyYears: extractValue(shared.warrantyYears),
     };
   };
 
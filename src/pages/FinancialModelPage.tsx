@@ -21,9 +21,12 @@ import {
 import { FinancialInputForm } from '@/components/financials/FinancialInputForm';
 import { FinancialResults } from '@/components/financials/FinancialResults';
 import { ExportPDFDialog } from '@/components/financials/ExportPDFDialog';
-import { ProjectBOQsSection } from '@/components/boq';
+import { ScenarioManager } from '@/components/financials/ScenarioManager';
+import { SensitivityAnalysis } from '@/components/financials/SensitivityAnalysis';
+import { CapexSyncBanner, ProjectBOQsSection } from '@/components/boq';
 import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
-import { ArrowLeft, DollarSign, Plus, Settings, BarChart3, FileDown, Trash2, ClipboardList } from 'lucide-react';
+import { DEFAULT_SENSITIVITY_SETTINGS, type SensitivitySettings } from '@/lib/calculator/sensitivity';
+import { ArrowLeft, DollarSign, Plus, Settings, BarChart3, FileDown, Trash2, ClipboardList, Layers, Wind } from 'lucide-react';
 import { toast } from 'sonner';
 
 export function FinancialModelPage() {
@@ -43,9 +46,11 @@ export function FinancialModelPage() {
   const canDelete = usePermission('financials', 'delete');
 
   const [isCalculating, setIsCalculating] = useState(false);
-  const [activeTab, setActiveTab] = useState<'inputs' | 'results' | 'boqs'>(model?.results ? 'results' : 'inputs');
+  const [activeTab, setActiveTab] = useState<'inputs' | 'results' | 'scenarios' | 'sensitivity' | 'boqs'>(model?.results ? 'results' : 'inputs');
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  // Shared by the Sensitivity tab and the PDF export
+  const [sensitivitySettings, setSensitivitySettings] = useState<SensitivitySettings>(DEFAULT_SENSITIVITY_SETTINGS);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   // Check if current user can modify this model
@@ -155,7 +160,7 @@ export function FinancialModelPage() {
             </Card>
           ) : (
             // Model exists - show tabs with inputs and results
-            <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'inputs' | 'results' | 'boqs')} className="space-y-6">
+            <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'inputs' | 'results' | 'scenarios' | 'sensitivity' | 'boqs')} className="space-y-6">
               <div className="flex items-center justify-between">
                 <TabsList>
                   <TabsTrigger value="inputs" className="gap-2">
@@ -169,6 +174,17 @@ export function FinancialModelPage() {
                       <span className="text-xs text-muted-foreground ml-1">(Calculate first)</span>
                     )}
                   </TabsTrigger>
+                  <TabsTrigger value="scenarios" className="gap-2">
+                    <Layers className="h-4 w-4" />
+                    Scenarios
+                    {(model.scenarios?.length ?? 0) > 0 && (
+                      <span className="text-xs text-muted-foreground ml-1">({model.scenarios!.length})</span>
+                    )}
+                  </TabsTrigger>
+                  <TabsTrigger value="sensitivity" className="gap-2">
+                    <Wind className="h-4 w-4" />
+                    Sensitivity
+                  </TabsTrigger>
                   <TabsTrigger value="boqs" className="gap-2">
                     <ClipboardList className="h-4 w-4" />
                     Design BOQs
@@ -183,6 +199,11 @@ export function FinancialModelPage() {
               </div>
 
               <TabsContent value="inputs" className="mt-6">
+                <CapexSyncBanner
+                  projectId={projectId!}
+                  capexItems={model.inputs.capex_items}
+                  canEdit={canModifyModel()}
+                />
                 <FinancialInputForm
                   modelId={model.id}
                   projectId={projectId!}
@@ -194,7 +215,7 @@ export function FinancialModelPage() {
 
               <TabsContent value="results" className="mt-6">
                 {model.results ? (
-                  <FinancialResults results={model.results} />
+                  <FinancialResults results={model.results} inputs={model.inputs} />
                 ) : (
                   <Card>
                     <CardContent className="py-12 text-center">
@@ -211,6 +232,18 @@ export function FinancialModelPage() {
                 )}
               </TabsContent>
 
+              <TabsContent value="scenarios" className="mt-6">
+                <ScenarioManager model={model} canEdit={canModifyModel()} />
+              </TabsContent>
+
+              <TabsContent value="sensitivity" className="mt-6">
+                <SensitivityAnalysis
+                  inputs={model.inputs}
+                  settings={sensitivitySettings}
+                  onSettingsChange={setSensitivitySettings}
+                />
+              </TabsContent>
+
               <TabsContent value="boqs" className="mt-6">
                 <ProjectBOQsSection projectId={projectId!} />
               </TabsContent>
@@ -225,6 +258,8 @@ export function FinancialModelPage() {
           open={showExportDialog}
           onOpenChange={setShowExportDialog}
           results={model.results}
+          inputs={model.inputs}
+          sensitivitySettings={sensitivitySettings}
           globalMargin={model.inputs.global_margin}
           projectName={project?.name}
         />
@@ -37,7 +37,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { DollarSign, Calculator, MoreHorizontal, Pencil, Trash2, ExternalLink } from 'lucide-react';
+import { DollarSign, Calculator, MoreHorizontal, Pencil, Trash2, ExternalLink, PieChart } from 'lucide-react';
 
 export function Financials() {
   const navigate = useNavigate();
@@ -117,6 +117,14 @@ export function Financials() {
             <Calculator className="h-4 w-4" />
             <span>Manage financial analysis for your projects</span>
           </div>
+          {financialModels.length > 0 && (
+            <Button variant="outline" asChild>
+              <Link to="/financials/portfolio">
+                <PieChart className="mr-2 h-4 w-4" />
+                Portfolio
+              </Link>
+            </Button>
+          )}
           {canCreate && projectsWithoutModels.length > 0 && (
             <Button onClick={() => setCreateDialogOpen(true)}>
               New Financial Model
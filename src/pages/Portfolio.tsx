@@ -0,0 +1,438 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Header } from '@/components/layout/Header';
+import { SearchInput } from '@/components/projects/SearchInput';
+import { FilterBar } from '@/components/projects/FilterBar';
+import { ActiveFilters } from '@/components/projects/ActiveFilters';
+import { RevenueChart } from '@/components/financials/RevenueChart';
+import { CumulativeFCFChart } from '@/components/financials/CumulativeFCFChart';
+import { useFinancialStore } from '@/stores/financialStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { useFilterStore } from '@/stores/filterStore';
+import { useWorkflowStore } from '@/stores/workflowStore';
+import { useUserStore } from '@/stores/userStore';
+import { useFxStore } from '@/stores/fxStore';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Briefcase,
+  DollarSign,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  Gauge,
+  Layers,
+  TrendingUp,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { buildPortfolio, type PortfolioYear } from '@/lib/calculator/portfolio';
+import { matchesProjectFilters } from '@/lib/projectFilters';
+import { downloadPortfolioReport } from '@/lib/pdf/portfolioReport';
+import { downloadPortfolioWorkbook } from '@/lib/xlsx/portfolioWorkbook';
+import { formatMoney } from '@/lib/currency/fx';
+import { getUserDisplayName } from '@/lib/userUtils';
+import { PRIORITY_LABELS } from '@/lib/constants';
+import { CURRENCIES } from '@/lib/types/component';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import type { YearlyData } from '@/lib/types/financial';
+
+/**
+ * Shape aggregated years like a model's yearly data so the model charts can plot them
+ */
+function toYearlyData(years: PortfolioYear[]): YearlyData {
+  return {
+    years: years.map((y) => y.year),
+    energy_production_mwh: years.map((y) => y.energy_mwh),
+    revenue: years.map((y) => y.revenue),
+    om_costs: years.map((y) => y.om_costs),
+    ebitda: years.map((y) => y.ebitda),
+    cfads: years.map((y) => y.cfads),
+    fcf_to_equity: years.map((y) => y.fcf_to_equity),
+    debt_service: years.map((y) => y.debt_service),
+    dscr: years.map(() => null),
+    cumulative_fcf_to_equity: years.map((y) => y.cumulative_fcf_to_equity),
+  };
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(2)}%`;
+}
+
+function formatCompact(value: number, currency: string): string {
+  if (Math.abs(value) >= 1_000_000) {
+    return `${formatMoney(value / 1_000_000, currency, 1)}M`;
+  }
+  return formatMoney(value, currency);
+}
+
+interface SummaryTileProps {
+  label: string;
+  value: string;
+  subValue?: string;
+  icon: React.ReactNode;
+}
+
+function SummaryTile({ label, value, subValue, icon }: SummaryTileProps) {
+  return (
+    <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
+      <div className="p-2 rounded-md bg-background">{icon}</div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-muted-foreground">{label}</p>
+        <p className="text-lg font-semibold">{value}</p>
+        {subValue && <p className="text-xs text-muted-foreground mt-0.5">{subValue}</p>}
+      </div>
+    </div>
+  );
+}
+
+export function Portfolio() {
+  const financialModels = useFinancialStore((state) => state.financialModels);
+  const projects = useProjectStore((state) => state.projects);
+  const filters = useFilterStore((state) => state.filters);
+  const workflow = useWorkflowStore((state) => state.workflow);
+  const users = useUserStore((state) => state.users);
+  const rates = useFxStore((state) => state.rates);
+
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [exporting, setExporting] = useState(false);
+
+  const summary = useMemo(() => {
+    const entries = financialModels.flatMap((model) => {
+      const project = projects.find((p) => p.id === model.projectId);
+      return project && matchesProjectFilters(project, filters) ? [{ project, model }] : [];
+    });
+    return buildPortfolio(entries, workflow.stages, rates, currency);
+  }, [financialModels, projects, filters, workflow.stages, rates, currency]);
+
+  const yearlyData = useMemo(() => toYearlyData(summary.years), [summary.years]);
+  const maxStageCapacity = Math.max(...summary.stages.map((s) => s.capacityMw), 0);
+  const ownerName = (ownerId: string) => getUserDisplayName(ownerId, users);
+
+  const filterSummary = () => {
+    const parts: string[] = [];
+    if (filters.stages.length > 0) {
+      parts.push(
+        `Stage: ${filters.stages.map((id) => workflow.stages.find((s) => s.id === id)?.name ?? 'Unknown').join(', ')}`
+      );
+    }
+    if (filters.priorities.length > 0) {
+      parts.push(`Priority: ${filters.priorities.map((p) => PRIORITY_LABELS[p]).join(', ')}`);
+    }
+    if (filters.owners.length > 0) {
+      parts.push(`Owner: ${filters.owners.map(ownerName).join(', ')}`);
+    }
+    if (filters.search) parts.push(`Search: "${filters.search}"`);
+    return parts.length > 0 ? parts.join(' | ') : 'No filters applied';
+  };
+
+  const handleExport = async (format: 'pdf' | 'xlsx') => {
+    setExporting(true);
+    try {
+      if (format === 'pdf') {
+        await downloadPortfolioReport(summary, filterSummary(), ownerName);
+      } else {
+        await downloadPortfolioWorkbook(summary, filterSummary(), ownerName);
+      }
+    } catch (error) {
+      console.error('Portfolio export failed:', error);
+      toast.error('Failed to export portfolio summary');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <Header title="Portfolio">
+        <div className="flex gap-2 flex-1 max-w-2xl">
+          <SearchInput />
+          <FilterBar />
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-[120px]" aria-label="Portfolio currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((c) => (
+                <SelectItem key={c.value} value={c.value}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={exporting || summary.projectCount === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('pdf')}>
+                <FileText className="mr-2 h-4 w-4" />
+                PDF summary
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Excel workbook (.xlsx)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </Header>
+      <ActiveFilters />
+
+      <div className="flex-1 overflow-auto">
+        <div className="container mx-auto p-6 space-y-6">
+          <Button variant="ghost" size="sm" asChild className="-ml-2">
+            <Link to="/financials">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Financial Models
+            </Link>
+          </Button>
+
+          {summary.projectCount === 0 ? (
+            <div className="text-center py-12">
+              <Briefcase className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No financial models in the portfolio</h3>
+              <p className="text-muted-foreground">
+                {financialModels.length > 0
+                  ? 'Try adjusting your filters to include more projects.'
+                  : 'Create financial models for your projects to see them rolled up here.'}
+              </p>
+            </div>
+          ) : (
+            <>
+              {(summary.missingRates.length > 0 || summary.calculatedCount < summary.projectCount) && (
+                <div className="flex items-start gap-3 p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg text-sm">
+                  <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                  <div className="space-y-1 text-muted-foreground">
+                    {summary.calculatedCount < summary.projectCount && (
+                      <p>
+                        {summary.projectCount - summary.calculatedCount} model(s) have not been calculated. Their
+                        capacity and estimated CAPEX are included, but not their returns or cash flows.
+                      </p>
+                    )}
+                    {summary.missingRates.length > 0 && (
+                      <p>
+                        No FX rate to {currency} for {summary.missingRates.join(', ')}; those amounts are
+                        converted 1:1.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <Card>
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Gauge className="h-5 w-5 text-primary" />
+                    Portfolio Summary
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                    <SummaryTile
+                      label="Projects"
+                      value={summary.projectCount.toString()}
+                      subValue={`${summary.calculatedCount} calculated`}
+                      icon={<Briefcase className="h-4 w-4 text-primary" />}
+                    />
+                    <SummaryTile
+                      label="Total Capacity"
+                      value={`${summary.totalCapacityMw.toLocaleString('en-US', { maximumFractionDigits: 1 })} MW`}
+                      icon={<Layers className="h-4 w-4 text-primary" />}
+                    />
+                    <SummaryTile
+                      label="Total CAPEX"
+                      value={formatCompact(summary.totalCapex, currency)}
+                      subValue={`Equity ${formatCompact(summary.totalEquity, currency)}`}
+                      icon={<DollarSign className="h-4 w-4 text-primary" />}
+                    />
+                    <SummaryTile
+                      label="Project IRR"
+                      value={formatPercent(summary.weightedProjectIrr)}
+                      subValue="Capacity-weighted"
+                      icon={<TrendingUp className="h-4 w-4 text-primary" />}
+                    />
+                    <SummaryTile
+                      label="Equity IRR"
+                      value={formatPercent(summary.weightedEquityIrr)}
+                      subValue="Capacity-weighted"
+                      icon={<TrendingUp className="h-4 w-4 text-primary" />}
+                    />
+                    <SummaryTile
+                      label="LCOE"
+                      value={
+                        summary.weightedLcoe === null
+                          ? '—'
+                          : `${formatMoney(summary.weightedLcoe, currency, 2)}/MWh`
+                      }
+                      subValue="Capacity-weighted"
+                      icon={<Gauge className="h-4 w-4 text-primary" />}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Layers className="h-5 w-5 text-primary" />
+                    Capacity by Stage
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Stage</TableHead>
+                        <TableHead className="text-right">Projects</TableHead>
+                        <TableHead className="text-right">Capacity</TableHead>
+                        <TableHead className="w-[30%]"></TableHead>
+                        <TableHead className="text-right">CAPEX</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.stages.map((stage) => (
+                        <TableRow key={stage.stageId} className={stage.projectCount === 0 ? 'text-muted-foreground' : ''}>
+                          <TableCell className="font-medium">{stage.stageName}</TableCell>
+                          <TableCell className="text-right">{stage.projectCount}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {stage.capacityMw.toLocaleString('en-US', { maximumFractionDigits: 1 })} MW
+                          </TableCell>
+                          <TableCell>
+                            <div className="h-2 rounded-full bg-muted overflow-hidden">
+                              <div
+                                className="h-full bg-primary"
+                                style={{
+                                  width: `${maxStageCapacity > 0 ? (stage.capacityMw / maxStageCapacity) * 100 : 0}%`,
+                                }}
+                              />
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatCompact(stage.totalCapex, currency)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {summary.years.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-4">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5 text-primary" />
+                      Aggregated Cash Flows
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Summed by operating year, with each project's first operating year aligned
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-8">
+                    <div className="space-y-4">
+                      <h3 className="text-sm font-medium text-muted-foreground">
+                        Annual Revenue & Costs ({currency})
+                      </h3>
+                      <RevenueChart yearlyData={yearlyData} />
+                    </div>
+                    <div className="space-y-4">
+                      <h3 className="text-sm font-medium text-muted-foreground">
+                        Cumulative Free Cash Flow to Equity ({currency})
+                      </h3>
+                      <CumulativeFCFChart yearlyData={yearlyData} equityPaybackYears={null} />
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Briefcase className="h-5 w-5 text-primary" />
+                    Projects
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Project</TableHead>
+                        <TableHead>Stage</TableHead>
+                        <TableHead>Owner</TableHead>
+                        <TableHead className="text-right">Capacity</TableHead>
+                        <TableHead className="text-right">CAPEX</TableHead>
+                        <TableHead className="text-right">Project IRR</TableHead>
+                        <TableHead className="text-right">Equity IRR</TableHead>
+                        <TableHead className="text-right">LCOE</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.projects.map((p) => (
+                        <TableRow key={p.modelId}>
+                          <TableCell>
+                            <Link
+                              to={`/financials/${p.projectId}`}
+                              className="font-medium hover:underline"
+                            >
+                              {p.projectName}
+                            </Link>
+                            {p.sourceCurrency !== currency && (
+                              <span className="ml-2 text-xs text-muted-foreground">({p.sourceCurrency})</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{p.stageName}</TableCell>
+                          <TableCell className="text-muted-foreground">{ownerName(p.owner)}</TableCell>
+                          <TableCell className="text-right font-mono">{p.capacityMw} MW</TableCell>
+                          <TableCell className="text-right font-mono">{formatCompact(p.totalCapex, currency)}</TableCell>
+                          {p.calculated ? (
+                            <>
+                              <TableCell className="text-right font-mono">{formatPercent(p.projectIrr)}</TableCell>
+                              <TableCell className="text-right font-mono">{formatPercent(p.equityIrr)}</TableCell>
+                              <TableCell className="text-right font-mono">
+                                {p.lcoe === null ? '—' : formatMoney(p.lcoe, currency, 2)}
+                              </TableCell>
+                            </>
+                          ) : (
+                            <TableCell colSpan={3} className="text-right text-xs text-muted-foreground">
+                              Not calculated
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
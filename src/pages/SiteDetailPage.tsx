@@ -26,6 +26,10 @@ import {
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { GenerateDesignDialog } from '@/components/sites/GenerateDesignDialog';
+import { TerrainAnalysisSection } from '@/components/sites/TerrainAnalysisSection';
+import { SiteAlbedoSection } from '@/components/sites/SiteAlbedoSection';
+import { SiteClimateSection } from '@/components/sites/SiteClimateSection';
+import { SiteTemperaturesSection } from '@/components/sites/SiteTemperaturesSection';
 
 interface LocationState {
   highlightCommentId?: string;
@@ -258,6 +262,18 @@ export default function SiteDetailPage() {
                   </div>
                 )}
 
+                {/* Terrain */}
+                <TerrainAnalysisSection site={site} />
+
+                {/* Ground albedo (bifacial yield) */}
+                <SiteAlbedoSection key={site.id} site={site} />
+
+                {/* Rain and snowfall (soiling and snow losses) */}
+                <SiteClimateSection key={site.id} site={site} />
+
+                {/* Record temperatures (string sizing) */}
+                <SiteTemperaturesSection key={site.id} site={site} />
+
                 {/* Source file info */}
                 {(site.sourceFileName || site.kmlFileName) && (
                   <div>
@@ -7,6 +7,7 @@ import DocumentViewerPage from '@/pages/DocumentViewerPage';
 import SiteDetailPage from '@/pages/SiteDetailPage';
 import { Financials } from '@/pages/Financials';
 import { FinancialModelPage } from '@/pages/FinancialModelPage';
+import { Portfolio } from '@/pages/Portfolio';
 import { Components } from '@/pages/Components';
 import { WorkflowSettings } from '@/pages/WorkflowSettings';
 import { Users } from '@/pages/Users';
@@ -28,6 +29,7 @@ export const router = createBrowserRouter([
       { path: 'documents/:documentId', element: <DocumentViewerPage /> },
       { path: 'sites/:siteId', element: <SiteDetailPage /> },
       { path: 'financials', element: <Financials /> },
+      { path: 'financials/portfolio', element: <Portfolio /> },
       { path: 'financials/:projectId', element: <FinancialModelPage /> },
       { path: 'components', element: <Components /> },
       { path: 'workflow', element: <WorkflowSettings /> },
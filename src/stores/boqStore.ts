@@ -9,12 +9,20 @@ import type {
 } from '@/lib/types/boq';
 import { DEFAULT_GENERATION_OPTIONS } from '@/lib/types/boq';
 import type { CostLineItem } from '@/lib/types/financial';
+import { applyCapexSync, buildCapexSyncDiff } from '@/lib/boq/capexSync';
+import { sumInCurrency } from '@/lib/currency/fx';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import { logAdminAction } from '@/lib/adminLogger';
 import { useUserStore } from './userStore';
 import { useDesignStore } from './designStore';
 import { useComponentStore } from './componentStore';
 import { useFinancialStore } from './financialStore';
+import { useFxStore } from './fxStore';
 import { resolvePermissions } from '@/lib/permissions/permissionResolver';
 import { extractComponentsFromDesign } from '@/lib/dxf/componentExtractor';
+import { CONDUCTOR_PRICE_PER_MM2_M } from '@/lib/electrical/cableSchedule';
+import type { CableCircuitKind } from '@/lib/electrical/types';
+import { EARTHWORKS_PRICE_PER_M3 } from '@/lib/terrain';
 // Categories and units are used by UI components, not directly in store
 import { toast } from 'sonner';
 
@@ -52,6 +60,7 @@ interface BOQState {
   // Export Actions
   previewExportToCapex: (boqId: string) => BOQExportPreview | null;
   exportToCapex: (boqId: string) => boolean;
+  syncToCapex: (boqId: string) => boolean;
 
   // Helpers
   getBOQByDesign: (designId: string) => BOQ | undefined;
@@ -64,8 +73,18 @@ function calculateItemTotal(quantity: number, unitPrice: number): number {
   return quantity * unitPrice;
 }
 
-function calculateBOQTotal(items: BOQItem[]): number {
-  return items.reduce((sum, item) => sum + item.totalPrice, 0);
+// Items priced in other currencies convert at today's FX table rate (1:1 without
+// one, listed in missingFxRates)
+function calculateBOQTotals(
+  items: BOQItem[],
+  currency: string = DEFAULT_CURRENCY
+): Pick<BOQ, 'totalValue' | 'missingFxRates'> {
+  const { total, missingRates } = sumInCurrency(
+    items.map((item) => ({ amount: item.totalPrice, currency: item.currency ?? currency })),
+    currency,
+    useFxStore.getState().rates
+  );
+  return { totalValue: total, missingFxRates: missingRates.length > 0 ? missingRates : undefined };
 }
 
 export const useBOQStore = create<BOQState>()(
@@ -119,6 +138,7 @@ export const useBOQStore = create<BOQState>()(
           name: name || `${design.name} - BOQ`,
           items: [],
           totalValue: 0,
+          currency: useFinancialStore.getState().getModelByProject(design.projectId)?.inputs.currency,
           createdBy: userFullName,
           creatorId: currentUser.id,
           createdAt: now,
@@ -270,7 +290,7 @@ export const useBOQStore = create<BOQState>()(
             return {
               ...b,
               items: newItems,
-              totalValue: calculateBOQTotal(newItems),
+              ...calculateBOQTotals(newItems, b.currency),
               updatedAt: new Date().toISOString(),
             };
           }),
@@ -330,7 +350,7 @@ export const useBOQStore = create<BOQState>()(
             return {
               ...b,
               items: newItems,
-              totalValue: calculateBOQTotal(newItems),
+              ...calculateBOQTotals(newItems, b.currency),
               updatedAt: new Date().toISOString(),
             };
           }),
@@ -380,7 +400,7 @@ export const useBOQStore = create<BOQState>()(
             return {
               ...b,
               items: newItems,
-              totalValue: calculateBOQTotal(newItems),
+              ...calculateBOQTotals(newItems, b.currency),
               updatedAt: new Date().toISOString(),
             };
           }),
@@ -456,11 +476,13 @@ export const useBOQStore = create<BOQState>()(
           if (options.includeModules && extracted.modules) {
             let modulePrice = options.defaultModulePrice || 100;
             let moduleSourceId: string | undefined;
+            let moduleCurrency: string | undefined;
 
             if (options.useComponentLibraryPrices && linkedModules.length > 0) {
               const linkedModule = linkedModules[0];
               modulePrice = linkedModule.unitPrice || modulePrice;
               moduleSourceId = linkedModule.id;
+              moduleCurrency = linkedModule.currency;
             }
 
             newItems.push({
@@ -473,6 +495,7 @@ export const useBOQStore = create<BOQState>()(
               totalPrice: calculateItemTotal(extracted.modules.count, modulePrice),
               source: moduleSourceId ? 'component_library' : 'dxf_extraction',
               sourceId: moduleSourceId,
+              currency: moduleCurrency,
             });
           }
 
@@ -480,11 +503,13 @@ export const useBOQStore = create<BOQState>()(
           if (options.includeInverters && extracted.inverters) {
             let inverterPrice = options.defaultInverterPrice || 5000;
             let inverterSourceId: string | undefined;
+            let inverterCurrency: string | undefined;
 
             if (options.useComponentLibraryPrices && linkedInverters.length > 0) {
               const linkedInverter = linkedInverters[0];
               inverterPrice = linkedInverter.unitPrice || inverterPrice;
               inverterSourceId = linkedInverter.id;
+              inverterCurrency = linkedInverter.currency;
             }
 
             newItems.push({
@@ -497,15 +522,109 @@ export const useBOQStore = create<BOQState>()(
               totalPrice: calculateItemTotal(extracted.inverters.count, inverterPrice),
               source: inverterSourceId ? 'component_library' : 'dxf_extraction',
               sourceId: inverterSourceId,
+              currency: inverterCurrency,
             });
           }
 
+          // Generate cable items (conductor meters per circuit kind, sizes in notes)
+          if (options.includeCables && extracted.cables) {
+            const cableItemNames: Record<CableCircuitKind, string> = {
+              dc_string: 'DC string cables',
+              dc_feeder: 'DC main cables',
+              ac: 'AC cables',
+            };
+
+            for (const kind of Object.keys(cableItemNames) as CableCircuitKind[]) {
+              const quantities = extracted.cables.quantities.filter((q) => q.kind === kind);
+              if (quantities.length === 0) continue;
+
+              const meters = Math.ceil(
+                quantities.reduce((sum, q) => sum + q.conductorLengthM, 0)
+              );
+              // No conductor length to price per meter (e.g. zero-length circuits)
+              if (meters <= 0) continue;
+              const cost = quantities.reduce(
+                (sum, q) =>
+                  sum +
+                  q.conductorLengthM * q.crossSectionMm2 * CONDUCTOR_PRICE_PER_MM2_M[q.material],
+                0
+              );
+              const unitPrice = Math.round((cost / meters) * 100) / 100;
+
+              newItems.push({
+                id: crypto.randomUUID(),
+                name: cableItemNames[kind],
+                category: 'Electrical Infrastructure',
+                quantity: meters,
+                unit: 'meters',
+                unitPrice,
+                totalPrice: calculateItemTotal(meters, unitPrice),
+                source: 'dxf_extraction',
+                notes: quantities
+                  .map(
+                    (q) =>
+                      `${q.circuitCount} × ${q.crossSectionMm2} mm² ${q.material}: ${Math.round(q.conductorLengthM)} m`
+                  )
+                  .join('; '),
+              });
+            }
+          }
+
+          // Generate earthworks items (cut/fill on the site terrain, per block in notes)
+          if (options.includeEarthworks && extracted.earthworks) {
+            const { blocks, totalCutM3, totalFillM3, netM3 } = extracted.earthworks;
+            const blockNotes = (volume: (b: (typeof blocks)[number]) => number) =>
+              blocks
+                .filter((b) => volume(b) >= 1)
+                .map((b) => `${b.label}: ${Math.round(volume(b))} m³`)
+                .join('; ');
+
+            const earthworks: Array<{ name: string; volume: number; unitPrice: number; notes?: string }> = [
+              {
+                name: 'Earthworks cut',
+                volume: totalCutM3,
+                unitPrice: EARTHWORKS_PRICE_PER_M3.cut,
+                notes: blockNotes((b) => b.cutM3),
+              },
+              {
+                name: 'Earthworks fill',
+                volume: totalFillM3,
+                unitPrice: EARTHWORKS_PRICE_PER_M3.fill,
+                notes: blockNotes((b) => b.fillM3),
+              },
+              {
+                name: 'Earthworks import/export',
+                volume: Math.abs(netM3),
+                unitPrice: EARTHWORKS_PRICE_PER_M3.haul,
+                notes: netM3 > 0 ? 'Surplus cut exported off site' : 'Fill imported to site',
+              },
+            ];
+
+            for (const item of earthworks) {
+              const quantity = Math.ceil(item.volume);
+              if (quantity === 0) continue;
+              newItems.push({
+                id: crypto.randomUUID(),
+                name: item.name,
+                category: 'Site Infrastructure',
+                quantity,
+                unit: 'm³',
+                unitPrice: item.unitPrice,
+                totalPrice: calculateItemTotal(quantity, item.unitPrice),
+                source: 'dxf_extraction',
+                notes: item.notes || undefined,
+              });
+            }
+          }
+
           if (newItems.length === 0) {
             toast.warning('No components found in design to generate BOQ items');
             return false;
           }
 
           // Replace extracted items, keep manual items
+          const design = useDesignStore.getState().designs.find((d) => d.id === boq.designId);
+          const now = new Date().toISOString();
           set((state) => ({
             boqs: state.boqs.map((b) => {
               if (b.id !== boqId) return b;
@@ -514,8 +633,11 @@ export const useBOQStore = create<BOQState>()(
               return {
                 ...b,
                 items: allItems,
-                totalValue: calculateBOQTotal(allItems),
-                updatedAt: new Date().toISOString(),
+                ...calculateBOQTotals(allItems, b.currency),
+                updatedAt: now,
+                generatedAt: now,
+                sourceVersionId: design?.currentVersionId,
+                sourceLayoutAt: design?.generatedLayout?.generatedAt,
               };
             }),
           }));
@@ -557,7 +679,10 @@ export const useBOQStore = create<BOQState>()(
               }
 
               const component = componentStore.getComponentById(item.sourceId);
-              if (!component || component.unitPrice === item.unitPrice) {
+              if (
+                !component ||
+                (component.unitPrice === item.unitPrice && component.currency === item.currency)
+              ) {
                 return item;
               }
 
@@ -567,13 +692,14 @@ export const useBOQStore = create<BOQState>()(
                 ...item,
                 unitPrice: newUnitPrice,
                 totalPrice: calculateItemTotal(item.quantity, newUnitPrice),
+                currency: component.currency,
               };
             });
 
             return {
               ...b,
               items: newItems,
-              totalValue: calculateBOQTotal(newItems),
+              ...calculateBOQTotals(newItems, b.currency),
               updatedAt: new Date().toISOString(),
             };
           }),
@@ -614,7 +740,7 @@ export const useBOQStore = create<BOQState>()(
               isNew: false,
               existingQuantity: existingItem.quantity,
             });
-            totalUpdateValue += boqItem.totalPrice;
+            totalUpdateValue += calculateBOQTotals([boqItem], boq.currency).totalValue;
           } else {
             items.push({
               boqItem,
@@ -622,7 +748,7 @@ export const useBOQStore = create<BOQState>()(
               capexName: boqItem.name,
               isNew: true,
             });
-            totalNewValue += boqItem.totalPrice;
+            totalNewValue += calculateBOQTotals([boqItem], boq.currency).totalValue;
           }
         }
 
@@ -630,6 +756,7 @@ export const useBOQStore = create<BOQState>()(
           items,
           totalNewValue,
           totalUpdateValue,
+          currency: boq.currency ?? DEFAULT_CURRENCY,
           hasFinancialModel: !!financialModel,
         };
       },
@@ -681,12 +808,18 @@ export const useBOQStore = create<BOQState>()(
         // Build new CAPEX items from BOQ
         const existingCapexItems = [...financialModel.inputs.capex_items];
         const newCapexItems: CostLineItem[] = [];
+        const now = new Date().toISOString();
 
         for (const boqItem of boq.items) {
-          // Check if item already exists by name
-          const existingIndex = existingCapexItems.findIndex(
-            (c) => c.name === boqItem.name && c.is_capex
+          // Check if item already exists by BOQ link, then by name
+          let existingIndex = existingCapexItems.findIndex(
+            (c) => c.boq_link?.boq_id === boqId && c.boq_link.boq_item_id === boqItem.id
           );
+          if (existingIndex < 0) {
+            existingIndex = existingCapexItems.findIndex(
+              (c) => c.name === boqItem.name && c.is_capex
+            );
+          }
 
           const capexItem: CostLineItem = {
             id: existingIndex >= 0 ? existingCapexItems[existingIndex].id : crypto.randomUUID(),
@@ -697,6 +830,13 @@ export const useBOQStore = create<BOQState>()(
             unit_price: boqItem.unitPrice,
             quantity: boqItem.quantity,
             unit: boqItem.unit,
+            currency: boqItem.currency ?? boq.currency ?? DEFAULT_CURRENCY,
+            boq_link: {
+              boq_id: boqId,
+              boq_item_id: boqItem.id,
+              component_id: boqItem.source === 'component_library' ? boqItem.sourceId : undefined,
+              synced_at: now,
+            },
           };
 
           if (existingIndex >= 0) {
@@ -715,7 +855,6 @@ export const useBOQStore = create<BOQState>()(
         });
 
         // Update BOQ export tracking
-        const now = new Date().toISOString();
         const userFullName = `${currentUser.firstName} ${currentUser.lastName}`;
 
         set((state) => ({
@@ -730,6 +869,97 @@ export const useBOQStore = create<BOQState>()(
         return true;
       },
 
+      syncToCapex: (boqId) => {
+        const userState = useUserStore.getState();
+        const currentUser = userState.currentUser;
+
+        if (!currentUser) {
+          toast.error('You must be logged in to sync CAPEX');
+          return false;
+        }
+
+        const boq = get().boqs.find((b) => b.id === boqId);
+        if (!boq) {
+          toast.error('BOQ not found');
+          return false;
+        }
+
+        const financialStore = useFinancialStore.getState();
+        const financialModel = financialStore.getModelByProject(boq.projectId);
+        if (!financialModel) {
+          toast.error('No financial model to sync');
+          return false;
+        }
+
+        const components = useComponentStore.getState().components;
+        const design = useDesignStore.getState().designs.find((d) => d.id === boq.designId);
+        const diff = buildCapexSyncDiff(
+          financialModel.inputs.capex_items,
+          boq,
+          components,
+          design,
+          useFxStore.getState().rates
+        );
+        if (diff.changes.length === 0) {
+          toast.info('CAPEX is up to date with the BOQ');
+          return true;
+        }
+
+        // Bring BOQ prices in line with the component library first, so the
+        // synced CAPEX matches the BOQ afterwards
+        const now = new Date().toISOString();
+        const pricedItems = boq.items.map((item) => {
+          if (item.source !== 'component_library' || !item.sourceId) return item;
+          const component = components.find((c) => c.id === item.sourceId);
+          if (!component || (component.unitPrice === item.unitPrice && component.currency === item.currency)) {
+            return item;
+          }
+          return {
+            ...item,
+            unitPrice: component.unitPrice,
+            totalPrice: calculateItemTotal(item.quantity, component.unitPrice),
+            currency: component.currency,
+          };
+        });
+        const repriced = pricedItems.some((item, i) => item !== boq.items[i]);
+        const pricedBOQ: BOQ = { ...boq, items: pricedItems, ...calculateBOQTotals(pricedItems, boq.currency) };
+
+        // The BOQ is only repriced and stamped once the CAPEX update went through
+        const updated = financialStore.updateInputs(financialModel.id, {
+          capex_items: applyCapexSync(financialModel.inputs.capex_items, diff, pricedBOQ, now),
+        });
+        if (!updated) return false;
+
+        const userFullName = `${currentUser.firstName} ${currentUser.lastName}`;
+        set((state) => ({
+          boqs: state.boqs.map((b) =>
+            b.id === boqId
+              ? {
+                  ...pricedBOQ,
+                  updatedAt: repriced ? now : b.updatedAt,
+                  lastExportedAt: now,
+                  lastExportedBy: userFullName,
+                }
+              : b
+          ),
+        }));
+
+        const count = (kind: string) => diff.changes.filter((c) => c.kind === kind).length;
+        logAdminAction('update', 'financials', financialModel.id, financialModel.name, {
+          action: 'capex_resync',
+          boqId: boq.id,
+          boqName: boq.name,
+          added: count('added'),
+          updated: count('updated'),
+          removed: count('removed'),
+          amountDelta: diff.amountDelta,
+          changes: diff.changes,
+        });
+
+        toast.success(`Re-synced ${diff.changes.length} CAPEX item(s) from ${boq.name}`);
+        return true;
+      },
+
       getBOQByDesign: (designId) => {
         return get().boqs.find((b) => b.designId === designId);
       },
@@ -1,14 +1,60 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { FinancialModel, FinancialInputs, ProjectResults } from '@/lib/types/financial';
+import type {
+  FinancialModel,
+  FinancialInputs,
+  FinancialScenario,
+  ProjectResults,
+} from '@/lib/types/financial';
 import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
-import type { YieldEstimate, YieldCalculationInput } from '@/lib/yield/types';
-import { calculateYield } from '@/lib/yield';
+import { DEFAULT_CURRENCY } from '@/lib/types/currency';
+import { pinFxRates } from '@/lib/currency/fx';
+import type { YieldEstimate, YieldCalculationInput, TMYData } from '@/lib/yield/types';
+import { calculateYield, simulateHourlyYield } from '@/lib/yield';
 import { useUserStore } from './userStore';
+import { useFxStore } from './fxStore';
 import { resolvePermissions } from '@/lib/permissions/permissionResolver';
 import { logAdminAction } from '@/lib/adminLogger';
 import { toast } from 'sonner';
 
+/**
+ * Check that the current user may update a model (admins any, users their own)
+ */
+function canUpdateModel(model: FinancialModel): boolean {
+  const userState = useUserStore.getState();
+  const currentUser = userState.currentUser;
+
+  if (!currentUser) {
+    toast.error('You must be logged in to update financial models');
+    return false;
+  }
+
+  const permissions = resolvePermissions(
+    currentUser,
+    'financials',
+    model.id,
+    userState.permissionOverrides,
+    userState.roles
+  );
+
+  const isAdmin = currentUser.roleId === 'role-admin';
+  const isCreator = model.creatorId === currentUser.id;
+
+  if (!permissions.update || (!isAdmin && !isCreator)) {
+    toast.error('Permission denied');
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Scenario results depend on the base inputs, so drop them when those change
+ */
+function clearScenarioResults(scenarios: FinancialScenario[] | undefined): FinancialScenario[] | undefined {
+  return scenarios?.map((s) => (s.results ? { ...s, results: undefined } : s));
+}
+
 interface FinancialState {
   // State
   financialModels: FinancialModel[];
@@ -20,14 +66,30 @@ interface FinancialState {
     inputs?: Partial<FinancialInputs>
   ) => string | undefined;
   updateFinancialModel: (id: string, updates: Partial<FinancialModel>) => void;
-  updateInputs: (id: string, inputs: Partial<FinancialInputs>) => void;
+  updateInputs: (id: string, inputs: Partial<FinancialInputs>) => boolean;
   updateResults: (id: string, results: ProjectResults) => void;
+  refreshFxRates: (id: string) => void;
   deleteFinancialModel: (id: string) => void;
 
+  // Scenario actions
+  addScenario: (
+    modelId: string,
+    name: string,
+    overrides?: Partial<FinancialInputs>
+  ) => string | undefined;
+  updateScenario: (
+    modelId: string,
+    scenarioId: string,
+    updates: Partial<Pick<FinancialScenario, 'name' | 'description' | 'overrides'>>
+  ) => void;
+  updateScenarioResults: (modelId: string, scenarioId: string, results: ProjectResults) => void;
+  deleteScenario: (modelId: string, scenarioId: string) => void;
+
   // Yield calculation actions
   calculateYieldForModel: (
     id: string,
-    input: Omit<YieldCalculationInput, 'capacityKwp'>
+    input: Omit<YieldCalculationInput, 'capacityKwp'>,
+    weather?: { data: TMYData; fileName: string }
   ) => Promise<YieldEstimate | null>;
   applyYieldEstimate: (id: string, estimate: YieldEstimate) => void;
   clearYieldEstimate: (id: string) => void;
@@ -37,6 +99,19 @@ interface FinancialState {
   getModelById: (id: string) => FinancialModel | undefined;
 }
 
+/**
+ * Pin FX rates on foreign-currency line items (all of them when refreshing)
+ */
+function withFxRates(inputs: FinancialInputs, refresh: boolean = false): FinancialInputs {
+  const currency = inputs.currency ?? DEFAULT_CURRENCY;
+  const rates = useFxStore.getState().rates;
+  return {
+    ...inputs,
+    capex_items: pinFxRates(inputs.capex_items, currency, rates, { refresh }),
+    opex_items: pinFxRates(inputs.opex_items, currency, rates, { refresh }),
+  };
+}
+
 export const useFinancialStore = create<FinancialState>()(
   persist(
     (set, get) => ({
@@ -157,13 +232,13 @@ export const useFinancialStore = create<FinancialState>()(
 
         if (!currentUser) {
           toast.error('You must be logged in to update financial models');
-          return;
+          return false;
         }
 
         const model = get().financialModels.find((m) => m.id === id);
         if (!model) {
           toast.error('Financial model not found');
-          return;
+          return false;
         }
 
         const permissions = resolvePermissions(
@@ -180,13 +255,13 @@ export const useFinancialStore = create<FinancialState>()(
 
         if (!permissions.update) {
           toast.error('Permission denied');
-          return;
+          return false;
         }
 
         // Non-admin users can only update their own models
         if (!isAdmin && !isCreator) {
           toast.error('Permission denied: You can only update your own financial models');
-          return;
+          return false;
         }
 
         set((state) => ({
@@ -194,8 +269,9 @@ export const useFinancialStore = create<FinancialState>()(
             m.id === id
               ? {
                   ...m,
-                  inputs: { ...m.inputs, ...inputUpdates },
+                  inputs: withFxRates({ ...m.inputs, ...inputUpdates }),
                   results: undefined, // Clear cached results when inputs change
+                  scenarios: clearScenarioResults(m.scenarios),
                   updatedAt: new Date().toISOString(),
                 }
               : m
@@ -205,6 +281,45 @@ export const useFinancialStore = create<FinancialState>()(
         logAdminAction('update', 'financials', id, model.name, {
           updatedInputs: Object.keys(inputUpdates),
         });
+        return true;
+      },
+
+      refreshFxRates: (id) => {
+        const model = get().financialModels.find((m) => m.id === id);
+        if (!model) {
+          toast.error('Financial model not found');
+          return;
+        }
+        if (!canUpdateModel(model)) return;
+
+        const inputs = withFxRates(model.inputs, true);
+        set((state) => ({
+          financialModels: state.financialModels.map((m) =>
+            m.id === id
+              ? {
+                  ...m,
+                  inputs,
+                  results: undefined,
+                  scenarios: clearScenarioResults(m.scenarios),
+                  updatedAt: new Date().toISOString(),
+                }
+              : m
+          ),
+        }));
+
+        const missing = [...inputs.capex_items, ...inputs.opex_items].filter((item) => item.fx?.missing);
+        logAdminAction('update', 'financials', id, model.name, {
+          action: 'refresh_fx_rates',
+          rates: [...inputs.capex_items, ...inputs.opex_items]
+            .filter((item) => item.fx && !item.fx.missing)
+            .map((item) => ({ item: item.name, pair: `${item.fx!.from}/${item.fx!.to}`, rate: item.fx!.rate })),
+        });
+
+        if (missing.length > 0) {
+          toast.warning(`No FX rate for ${missing.length} item(s); converted 1:1`);
+        } else {
+          toast.success('FX rates updated');
+        }
       },
 
       updateResults: (id, results) => {
@@ -264,8 +379,126 @@ export const useFinancialStore = create<FinancialState>()(
         toast.success('Financial model deleted');
       },
 
+      // Scenario actions
+      addScenario: (modelId, name, overrides = {}) => {
+        const model = get().financialModels.find((m) => m.id === modelId);
+        if (!model) {
+          toast.error('Financial model not found');
+          return;
+        }
+        if (!canUpdateModel(model)) return;
+
+        const now = new Date().toISOString();
+        const scenario: FinancialScenario = {
+          id: crypto.randomUUID(),
+          name,
+          overrides,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set((state) => ({
+          financialModels: state.financialModels.map((m) =>
+            m.id === modelId
+              ? { ...m, scenarios: [...(m.scenarios ?? []), scenario], updatedAt: now }
+              : m
+          ),
+        }));
+
+        logAdminAction('update', 'financials', modelId, model.name, {
+          action: 'add_scenario',
+          scenario: name,
+        });
+
+        toast.success(`Scenario "${name}" created`);
+        return scenario.id;
+      },
+
+      updateScenario: (modelId, scenarioId, updates) => {
+        const model = get().financialModels.find((m) => m.id === modelId);
+        const scenario = model?.scenarios?.find((s) => s.id === scenarioId);
+        if (!model || !scenario) {
+          toast.error('Scenario not found');
+          return;
+        }
+        if (!canUpdateModel(model)) return;
+
+        const now = new Date().toISOString();
+        set((state) => ({
+          financialModels: state.financialModels.map((m) =>
+            m.id === modelId
+              ? {
+                  ...m,
+                  scenarios: m.scenarios?.map((s) =>
+                    s.id === scenarioId
+                      ? {
+                          ...s,
+                          ...updates,
+                          // Clear cached results when overrides change
+                          results: updates.overrides ? undefined : s.results,
+                          updatedAt: now,
+                        }
+                      : s
+                  ),
+                  updatedAt: now,
+                }
+              : m
+          ),
+        }));
+
+        logAdminAction('update', 'financials', modelId, model.name, {
+          action: 'update_scenario',
+          scenario: updates.name ?? scenario.name,
+          updatedFields: Object.keys(updates),
+        });
+      },
+
+      updateScenarioResults: (modelId, scenarioId, results) => {
+        set((state) => ({
+          financialModels: state.financialModels.map((m) =>
+            m.id === modelId
+              ? {
+                  ...m,
+                  scenarios: m.scenarios?.map((s) =>
+                    s.id === scenarioId ? { ...s, results } : s
+                  ),
+                }
+              : m
+          ),
+        }));
+      },
+
+      deleteScenario: (modelId, scenarioId) => {
+        const model = get().financialModels.find((m) => m.id === modelId);
+        const scenario = model?.scenarios?.find((s) => s.id === scenarioId);
+        if (!model || !scenario) {
+          toast.error('Scenario not found');
+          return;
+        }
+        if (!canUpdateModel(model)) return;
+
+        set((state) => ({
+          financialModels: state.financialModels.map((m) =>
+            m.id === modelId
+              ? {
+                  ...m,
+                  scenarios: m.scenarios?.filter((s) => s.id !== scenarioId),
+                  updatedAt: new Date().toISOString(),
+                }
+              : m
+          ),
+        }));
+
+        logAdminAction('update', 'financials', modelId, model.name, {
+          action: 'delete_scenario',
+          scenario: scenario.name,
+        });
+
+        toast.success('Scenario deleted');
+      },
+
       // Yield calculation actions
-      calculateYieldForModel: async (id, input) => {
+      calculateYieldForModel: async (id, input, weather) => {
         console.log('[Store] calculateYieldForModel called', { id, input });
         const userState = useUserStore.getState();
         const currentUser = userState.currentUser;
@@ -307,10 +540,13 @@ export const useFinancialStore = create<FinancialState>()(
 
         try {
           console.log('[Store] Calling calculateYield...');
-          const result = await calculateYield({
-            ...input,
-            capacityKwp,
-          });
+          // An imported TMY file runs the hourly simulation instead of PVGIS
+          const result = weather
+            ? simulateHourlyYield({ ...input, capacityKwp }, weather.data, weather.fileName)
+            : await calculateYield({
+                ...input,
+                capacityKwp,
+              });
           console.log('[Store] calculateYield result:', result);
 
           if (result.success && result.estimate) {
@@ -371,6 +607,7 @@ export const useFinancialStore = create<FinancialState>()(
                     yieldEstimate: estimate,
                   },
                   results: undefined, // Clear cached results
+                  scenarios: clearScenarioResults(m.scenarios),
                   updatedAt: new Date().toISOString(),
                 }
               : m
@@ -381,6 +618,9 @@ export const useFinancialStore = create<FinancialState>()(
           action: 'apply_yield_estimate',
           source: estimate.source,
           annualYield: estimate.annualYield,
+          bifacialGain: estimate.losses.bifacialGain,
+          soilingLoss: estimate.losses.soilingLoss,
+          snowLoss: estimate.losses.snowLoss,
         });
 
         toast.success('Yield estimate applied');
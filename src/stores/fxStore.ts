@@ -0,0 +1,123 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { FxRate } from '@/lib/types/currency';
+import { useUserStore } from './userStore';
+import { resolvePermissions } from '@/lib/permissions/permissionResolver';
+import { logAdminAction } from '@/lib/adminLogger';
+import { toast } from 'sonner';
+
+type FxRateData = Pick<FxRate, 'from' | 'to' | 'rate' | 'effectiveDate' | 'notes'>;
+
+interface FxState {
+  // State
+  rates: FxRate[];
+
+  // Actions
+  addRate: (data: FxRateData) => string | undefined;
+  updateRate: (id: string, updates: Partial<FxRateData>) => void;
+  deleteRate: (id: string) => void;
+}
+
+function rateName(rate: Pick<FxRate, 'from' | 'to' | 'effectiveDate'>): string {
+  return `${rate.from}/${rate.to} from ${rate.effectiveDate}`;
+}
+
+/**
+ * Check the current user may maintain FX rates (financial model permissions)
+ */
+function canMaintainRates(action: 'create' | 'update' | 'delete'): boolean {
+  const userState = useUserStore.getState();
+  const currentUser = userState.currentUser;
+
+  if (!currentUser) {
+    toast.error('You must be logged in to manage FX rates');
+    return false;
+  }
+
+  const permissions = resolvePermissions(
+    currentUser,
+    'financials',
+    undefined,
+    userState.permissionOverrides,
+    userState.roles
+  );
+
+  if (!permissions[action]) {
+    toast.error('Permission denied: You do not have permission to manage FX rates');
+    return false;
+  }
+  return true;
+}
+
+function isValidRate(data: Partial<FxRateData>): boolean {
+  if (data.rate !== undefined && !(data.rate > 0)) {
+    toast.error('FX rate must be greater than 0');
+    return false;
+  }
+  if (data.from !== undefined && data.to !== undefined && data.from === data.to) {
+    toast.error('FX rate must be between two different currencies');
+    return false;
+  }
+  return true;
+}
+
+export const useFxStore = create<FxState>()(
+  persist(
+    (set, get) => ({
+      rates: [],
+
+      addRate: (data) => {
+        if (!canMaintainRates('create') || !isValidRate(data)) return;
+
+        const currentUser = useUserStore.getState().currentUser!;
+        const newRate: FxRate = {
+          id: crypto.randomUUID(),
+          ...data,
+          createdBy: `${currentUser.firstName} ${currentUser.lastName}`,
+          creatorId: currentUser.id,
+          createdAt: new Date().toISOString(),
+        };
+
+        set((state) => ({ rates: [...state.rates, newRate] }));
+
+        logAdminAction('create', 'financials', newRate.id, rateName(newRate), {
+          fxRate: newRate.rate,
+        });
+
+        return newRate.id;
+      },
+
+      updateRate: (id, updates) => {
+        const rate = get().rates.find((r) => r.id === id);
+        if (!rate) {
+          toast.error('FX rate not found');
+          return;
+        }
+        if (!canMaintainRates('update') || !isValidRate({ ...rate, ...updates })) return;
+
+        set((state) => ({
+          rates: state.rates.map((r) => (r.id === id ? { ...r, ...updates } : r)),
+        }));
+
+        logAdminAction('update', 'financials', id, rateName({ ...rate, ...updates }), {
+          previousRate: rate.rate,
+          updatedFields: Object.keys(updates),
+        });
+      },
+
+      deleteRate: (id) => {
+        const rate = get().rates.find((r) => r.id === id);
+        if (!rate) {
+          toast.error('FX rate not found');
+          return;
+        }
+        if (!canMaintainRates('delete')) return;
+
+        set((state) => ({ rates: state.rates.filter((r) => r.id !== id) }));
+
+        logAdminAction('delete', 'financials', id, rateName(rate));
+      },
+    }),
+    { name: 'fx-storage' }
+  )
+);
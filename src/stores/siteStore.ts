@@ -1,7 +1,5 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import * as turf from '@turf/turf';
-import type { Feature, Polygon, MultiPolygon } from 'geojson';
 import type {
   Site,
   KMLParseResult,
@@ -23,132 +21,14 @@ import { useUserStore } from './userStore';
 import { resolvePermissions } from '@/lib/permissions/permissionResolver';
 import { logAdminAction } from '@/lib/adminLogger';
 import { toast } from 'sonner';
-
-/**
- * Calculate usable area by clipping exclusion zones to boundary
- * and subtracting only the overlapping portions
- */
-function calculateUsableArea(
-  boundaries: SiteBoundary[],
-  exclusionZones: SiteExclusionZone[],
-  totalArea: number
-): number {
-  console.log('[calculateUsableArea] Starting calculation:', {
-    boundaryCount: boundaries.length,
-    exclusionCount: exclusionZones.length,
-    totalArea,
-    exclusionTypes: exclusionZones.map(ez => ez.type),
-  });
-
-  if (boundaries.length === 0 || exclusionZones.length === 0) {
-    console.log('[calculateUsableArea] No exclusions - returning full area');
-    return totalArea;
-  }
-
-  try {
-    // Create boundary polygon(s)
-    const boundaryPolygons = boundaries
-      .filter(b => b.coordinates.length >= 4)
-      .map(b => {
-        const coords = b.coordinates.map(c => [c.lng, c.lat]);
-        // Ensure polygon is closed
-        if (coords[0][0] !== coords[coords.length - 1][0] ||
-            coords[0][1] !== coords[coords.length - 1][1]) {
-          coords.push(coords[0]);
-        }
-        return turf.polygon([coords]);
-      });
-
-    if (boundaryPolygons.length === 0) {
-      console.log('[calculateUsableArea] No valid boundary polygons');
-      return totalArea;
-    }
-
-    // Union all boundaries into one (may result in Polygon or MultiPolygon)
-    let boundaryUnion: Feature<Polygon | MultiPolygon> = boundaryPolygons[0];
-    for (let i = 1; i < boundaryPolygons.length; i++) {
-      const result = turf.union(turf.featureCollection([boundaryUnion, boundaryPolygons[i]]));
-      if (result) boundaryUnion = result;
-    }
-
-    const boundaryUnionArea = turf.area(boundaryUnion);
-    console.log('[calculateUsableArea] Boundary union area:', boundaryUnionArea);
-
-    // Build exclusion polygons and union them (to handle overlaps)
-    const exclusionPolygons: Feature<Polygon>[] = [];
-    const exclusionDetails: Array<{ name: string; type: string; area: number }> = [];
-
-    for (const ez of exclusionZones) {
-      if (ez.coordinates.length < 4) continue;
-
-      try {
-        const coords = ez.coordinates.map(c => [c.lng, c.lat]);
-        // Ensure polygon is closed
-        if (coords[0][0] !== coords[coords.length - 1][0] ||
-            coords[0][1] !== coords[coords.length - 1][1]) {
-          coords.push(coords[0]);
-        }
-        const poly = turf.polygon([coords]);
-        exclusionPolygons.push(poly);
-        exclusionDetails.push({
-          name: ez.name,
-          type: ez.type,
-          area: turf.area(poly),
-        });
-      } catch {
-        // Skip invalid polygons
-      }
-    }
-
-    if (exclusionPolygons.length === 0) {
-      console.log('[calculateUsableArea] No valid exclusion polygons');
-      return totalArea;
-    }
-
-    console.log('[calculateUsableArea] Exclusion details:', exclusionDetails);
-
-    // Union all exclusion zones to handle overlaps
-    let exclusionUnion: Feature<Polygon | MultiPolygon> = exclusionPolygons[0];
-    for (let i = 1; i < exclusionPolygons.length; i++) {
-      try {
-        const result = turf.union(turf.featureCollection([exclusionUnion, exclusionPolygons[i]]));
-        if (result) exclusionUnion = result;
-      } catch {
-        // Skip if union fails
-      }
-    }
-
-    const rawExclusionArea = exclusionDetails.reduce((sum, d) => sum + d.area, 0);
-    const mergedExclusionArea = turf.area(exclusionUnion);
-    const overlapArea = rawExclusionArea - mergedExclusionArea;
-
-    // Clip the merged exclusion to the boundary
-    const clippedExclusion = turf.intersect(turf.featureCollection([boundaryUnion, exclusionUnion]));
-    const clippedExclusionArea = clippedExclusion ? turf.area(clippedExclusion) : 0;
-    const outsideBoundaryArea = mergedExclusionArea - clippedExclusionArea;
-
-    const usableArea = Math.max(0, totalArea - clippedExclusionArea);
-    const usablePercent = totalArea > 0 ? ((usableArea / totalArea) * 100).toFixed(1) : 0;
-
-    console.log('[calculateUsableArea] Calculation breakdown:', {
-      step1_totalBoundaryArea: totalArea,
-      step2_rawExclusionArea: rawExclusionArea,
-      step3_mergedExclusionArea: mergedExclusionArea,
-      step4_exclusionOverlapRemoved: overlapArea,
-      step5_clippedToSiteBoundary: clippedExclusionArea,
-      step6_exclusionOutsideBoundary: outsideBoundaryArea,
-      step7_finalUsableArea: usableArea,
-      usablePercent: `${usablePercent}%`,
-    });
-
-    return usableArea;
-  } catch (error) {
-    console.error('[calculateUsableArea] Error:', error);
-    // Fallback to simple calculation
-    const exclusionArea = exclusionZones.reduce((sum, ez) => sum + (ez.area || 0), 0);
-    return Math.max(0, totalArea - exclusionArea);
-  }
-}
+import { createSlopeExclusionZones } from '@/lib/terrain';
+import { calculateCentroid } from '@/lib/kml/parser';
+import {
+  calculateUsableArea,
+  computeSiteAreas,
+  getUsableAreaPercent,
+  closeSitePolygons,
+} from '@/lib/sites';
 
 /**
  * Compute elevation range from all boundary coordinates
@@ -197,6 +77,16 @@ interface SiteState {
     importMetadata?: SiteImportMetadata
   ) => string | undefined;
 
+  // Geometry editing - recomputes areas and the scorecard's usable area %
+  updateSiteGeometry: (
+    siteId: string,
+    boundaries: SiteBoundary[],
+    exclusionZones: SiteExclusionZone[]
+  ) => void;
+
+  // Terrain analysis - returns the number of slope zones created
+  createSlopeExclusions: (siteId: string, maxSlopeDeg: number) => number | undefined;
+
   // Design linking
   linkSiteToDesign: (siteId: string, designId: string) => void;
   unlinkSiteFromDesign: (siteId: string) => void;
@@ -377,7 +267,7 @@ export const useSiteStore = create<SiteState>()(
         parseResult,
         importMetadata
       ) => {
-        const { boundaries, exclusionZones, centroid, totalArea } = parseResult;
+        const { boundaries, exclusionZones, centroid, totalArea, terrain } = parseResult;
 
         // Calculate usable area using proper polygon intersection
         // This clips exclusion zones to the boundary so areas outside don't count
@@ -409,9 +299,67 @@ export const useSiteStore = create<SiteState>()(
           totalArea,
           usableArea,
           elevationRange,
+          terrain,
         });
       },
 
+      updateSiteGeometry: (siteId, boundaries, exclusionZones) => {
+        const site = get().sites.find((s) => s.id === siteId);
+        if (!site) {
+          toast.error('Site not found');
+          return;
+        }
+
+        const { boundaries: closedBoundaries, exclusionZones: closedZones } = closeSitePolygons(
+          boundaries,
+          exclusionZones
+        );
+        const { totalArea, usableArea, usableAreaPercent } = computeSiteAreas(
+          closedBoundaries,
+          closedZones
+        );
+
+        let scorecard = site.scorecard;
+        if (scorecard) {
+          scorecard = { ...scorecard, usableAreaPercent, updatedAt: new Date().toISOString() };
+          scorecard.compositeScore = calculateCompositeScore(scorecard);
+        }
+
+        // The centroid is kept: the terrain grid is in its local frame
+        get().updateSite(siteId, {
+          boundaries: closedBoundaries,
+          exclusionZones: closedZones,
+          totalArea,
+          usableArea,
+          centroid: site.centroid ?? calculateCentroid(closedBoundaries),
+          elevationRange:
+            computeElevationRange(closedBoundaries, closedZones) ?? site.elevationRange,
+          scorecard,
+        });
+      },
+
+      createSlopeExclusions: (siteId, maxSlopeDeg) => {
+        const site = get().sites.find((s) => s.id === siteId);
+        if (!site?.terrain) {
+          toast.error('Site has no terrain data');
+          return;
+        }
+
+        // Re-running replaces the zones from the previous analysis
+        const slopeZones = createSlopeExclusionZones(site, maxSlopeDeg);
+        const exclusionZones = [
+          ...site.exclusionZones.filter((zone) => !zone.autoGenerated),
+          ...slopeZones,
+        ];
+
+        get().updateSite(siteId, {
+          exclusionZones,
+          usableArea: calculateUsableArea(site.boundaries, exclusionZones, site.totalArea || 0),
+        });
+
+        return slopeZones.length;
+      },
+
       linkSiteToDesign: (siteId, designId) => {
         get().updateSite(siteId, { linkedDesignId: designId });
       },
@@ -432,13 +380,7 @@ export const useSiteStore = create<SiteState>()(
           return;
         }
 
-        // Calculate usable area percentage
-        const usableAreaPercent =
-          site.totalArea && site.totalArea > 0
-            ? Math.round((site.usableArea || site.totalArea) / site.totalArea * 100)
-            : 100;
-
-        const scorecard = createEmptyScorecard(usableAreaPercent);
+        const scorecard = createEmptyScorecard(getUsableAreaPercent(site.usableArea, site.totalArea));
         get().updateSite(siteId, { scorecard });
       },
 
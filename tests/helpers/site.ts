@@ -0,0 +1,40 @@
+import type { Site } from '@/lib/types/site';
+
+const METERS_PER_DEGREE = 111139;
+
+/**
+ * Square site of the given side length (meters) centred on 35°N, 110°W.
+ * Overrides replace site fields, e.g. a DEM grid in `terrain`.
+ */
+export function makeSquareSite(sideM: number, overrides: Partial<Site> = {}): Site {
+  const lat = 35;
+  const lng = -110;
+  const dLat = sideM / 2 / METERS_PER_DEGREE;
+  const dLng = sideM / 2 / (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180));
+
+  return {
+    id: 'site-1',
+    projectId: 'project-1',
+    name: 'Test Site',
+    description: '',
+    createdBy: 'Admin User',
+    creatorId: 'user-1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    boundaries: [
+      {
+        id: 'boundary-1',
+        name: 'Boundary',
+        coordinates: [
+          { lat: lat - dLat, lng: lng - dLng },
+          { lat: lat - dLat, lng: lng + dLng },
+          { lat: lat + dLat, lng: lng + dLng },
+          { lat: lat + dLat, lng: lng - dLng },
+        ],
+      },
+    ],
+    exclusionZones: [],
+    centroid: { latitude: lat, longitude: lng },
+    ...overrides,
+  };
+}
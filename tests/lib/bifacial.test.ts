@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyBifacialProfile,
+  bifacialGeometryFromLayout,
+  calculateBifacialGain,
+  createSiteAlbedo,
+  monthlyEffectiveAlbedo,
+} from '@/lib/yield/bifacial';
+import { estimateYieldFromLookup } from '@/lib/yield/ghiLookup';
+import { formatLossBreakdown } from '@/lib/yield/performanceRatio';
+import { DEFAULT_LAYOUT_PARAMETERS } from '@/lib/types/layout';
+import type { GeneratedLayout } from '@/lib/types/layout';
+import type { BifacialGeometry, YieldEstimate } from '@/lib/yield/types';
+
+const GEOMETRY: BifacialGeometry = {
+  bifacialityFactor: 0.7,
+  collectorWidthM: 2.27,
+  pitchM: 5,
+  mountingHeightM: 0.5,
+};
+const GRASS = new Array<number>(12).fill(0.2);
+
+const gain = (geometry: Partial<BifacialGeometry>, albedo: number[] = GRASS) =>
+  calculateBifacialGain(40, 25, 180, { ...GEOMETRY, ...geometry }, albedo).annualGain;
+
+describe('bifacial gain', () => {
+  it('blends snow cover into the monthly albedo', () => {
+    const albedo = { ...createSiteAlbedo('grass'), snowDays: [31, 14, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0] };
+    const monthly = monthlyEffectiveAlbedo(albedo);
+
+    expect(monthly[0]).toBeCloseTo(0.8, 10);
+    expect(monthly[1]).toBeCloseTo(0.2 + 0.6 * (14 / 28), 10);
+    expect(monthly[6]).toBeCloseTo(0.2, 10);
+    expect(monthlyEffectiveAlbedo()).toEqual(GRASS);
+  });
+
+  it('grows with albedo, mounting height and row spacing', () => {
+    const base = gain({});
+    expect(base).toBeGreaterThan(2);
+    expect(base).toBeLessThan(10);
+
+    expect(gain({}, new Array(12).fill(0.6))).toBeGreaterThan(base * 2);
+    expect(gain({ mountingHeightM: 1.5 })).toBeGreaterThan(base);
+    expect(gain({ pitchM: 3 })).toBeLessThan(base);
+    expect(gain({ bifacialityFactor: 0 })).toBe(0);
+  });
+
+  it('reads the row pitch from the layout gap', () => {
+    const layout = {
+      module: { source: 'manual', name: 'Test', widthMm: 1134, lengthMm: 2278, wattage: 580 },
+      parameters: { ...DEFAULT_LAYOUT_PARAMETERS, tiltAngle: 30, frameRows: 2, moduleGapM: 0.02, frameGapY: 4 },
+    } as GeneratedLayout;
+    const geometry = bifacialGeometryFromLayout(layout, 0.7);
+
+    expect(geometry.collectorWidthM).toBeCloseTo(2.288, 10);
+    expect(geometry.pitchM).toBeCloseTo(2.288 * Math.cos(Math.PI / 6) + 4, 10);
+  });
+
+  it('adds a separate gain line and keeps PR consistent', () => {
+    const lookup = estimateYieldFromLookup(40, 1000, 0.8);
+    const estimate: YieldEstimate = {
+      source: 'lookup',
+      calculatedAt: '2026-01-01T00:00:00Z',
+      latitude: 40,
+      longitude: -3.5,
+      tiltAngle: 25,
+      azimuth: 180,
+      systemLosses: 14,
+      annualYield: lookup.annualYield,
+      annualGHI: lookup.annualGHI,
+      monthlyYield: lookup.monthlyYield,
+      monthlyFactors: lookup.monthlyFactors,
+      performanceRatio: 0.8,
+      losses: {
+        temperatureLoss: 5,
+        soilingLoss: 2,
+        shadingLoss: 3,
+        wiringLoss: 2,
+        mismatchLoss: 2,
+        inverterLoss: 3,
+        availabilityLoss: 3,
+        otherLoss: 0,
+        totalLoss: 20,
+      },
+    };
+
+    const bifacial = applyBifacialProfile(estimate, GEOMETRY, GRASS);
+    const before = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+    const gainPercent = bifacial.losses.bifacialGain!;
+
+    expect(gainPercent).toBeGreaterThan(0);
+    expect(bifacial.annualYield).toBeCloseTo(before * (1 + gainPercent / 100), 3);
+    expect(bifacial.performanceRatio).toBeCloseTo(0.8 * (1 + gainPercent / 100), 10);
+    expect(formatLossBreakdown(bifacial.losses).find((l) => l.name === 'Bifacial gain')?.formatted)
+      .toBe(`+${gainPercent.toFixed(1)}%`);
+  });
+});
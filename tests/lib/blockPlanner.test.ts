@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { planElectricalBlocks } from '@/lib/electrical';
+import { generatePanelLayout } from '@/lib/layout/generator';
+import { generatedLayoutToParsedData } from '@/lib/layout/toParsedData';
+import { extractFromParsedData } from '@/lib/dxf/componentExtractor';
+import { DEFAULT_LAYOUT_PARAMETERS } from '@/lib/types/layout';
+import type { ModuleInput } from '@/lib/types/layout';
+import { makeSquareSite } from '../helpers/site';
+
+const module: ModuleInput = {
+  source: 'manual',
+  name: 'Test 550W',
+  widthMm: 1134,
+  lengthMm: 2278,
+  wattage: 550,
+};
+
+const site = makeSquareSite(300);
+const layout = generatePanelLayout(site, module, DEFAULT_LAYOUT_PARAMETERS);
+
+describe('planElectricalBlocks', () => {
+  it('should string every module except an incomplete final string', () => {
+    const plan = planElectricalBlocks(layout, site, { modulesPerString: 28 });
+
+    expect(plan.summary.stringCount).toBe(Math.floor(layout.summary.totalPanels / 28));
+    expect(plan.summary.unstrungModules).toBe(layout.summary.totalPanels % 28);
+  });
+
+  it('should size inverter and transformer groups from the options', () => {
+    const plan = planElectricalBlocks(layout, site, {
+      modulesPerString: 28,
+      stringsPerInverter: 10,
+      invertersPerTransformer: 4,
+    });
+    const { summary } = plan;
+
+    expect(summary.inverterCount).toBe(Math.ceil(summary.stringCount / 10));
+    expect(summary.transformerCount).toBe(Math.ceil(summary.inverterCount / 4));
+    expect(plan.blocks).toHaveLength(summary.transformerCount);
+    expect(plan.blocks.reduce((sum, b) => sum + b.stringCount, 0)).toBe(summary.stringCount);
+    // 10 strings per inverter fit without combiners
+    expect(summary.combinerCount).toBe(0);
+  });
+
+  it('should add combiners when an inverter takes more strings than a combiner', () => {
+    const plan = planElectricalBlocks(layout, site, {
+      stringsPerInverter: 40,
+      stringsPerCombiner: 16,
+    });
+
+    expect(plan.summary.combinerCount).toBeGreaterThan(0);
+    expect(plan.components.some((c) => c.type === 'cable')).toBe(true);
+  });
+
+  it('should route every cable as a polyline with a positive length', () => {
+    const plan = planElectricalBlocks(layout, site);
+    const cables = plan.components.filter((c) => c.vertices);
+
+    expect(cables.length).toBeGreaterThan(0);
+    expect(cables.every((c) => (c.vertices?.length ?? 0) >= 2)).toBe(true);
+    expect(plan.summary.stringCableLengthM).toBeGreaterThan(0);
+    expect(plan.summary.acCableLengthM).toBeGreaterThan(0);
+  });
+
+  it('should make inverters available to BOQ extraction of generated designs', () => {
+    const parsed = generatedLayoutToParsedData(layout, site, { stringsPerInverter: 10 });
+    const extracted = extractFromParsedData(parsed);
+
+    expect(extracted.modules?.count).toBe(layout.summary.totalPanels);
+    expect(extracted.inverters?.count).toBe(
+      parsed.electrical.filter((e) => e.type === 'inverter').length
+    );
+    expect(extracted.inverters?.count).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCableSchedule,
+  measurePolyline,
+  CABLE_ENERGY_LOSS_FACTOR,
+  DEFAULT_MAX_VOLTAGE_DROP_DC,
+} from '@/lib/electrical';
+import { DEFAULT_MODULE_SPECS, DEFAULT_INVERTER_SPECS } from '@/lib/types/component';
+import type { ElectricalComponent } from '@/lib/dxf/types';
+
+function cable(
+  id: string,
+  type: ElectricalComponent['type'],
+  lengthM: number
+): ElectricalComponent {
+  return {
+    id,
+    type,
+    position: [0, 0, 0],
+    vertices: [
+      [0, 0, 0],
+      [lengthM, 0, 0],
+    ],
+    layer: 'TEST',
+  };
+}
+
+const MODULES_PER_STRING = 28;
+
+describe('measurePolyline', () => {
+  it('sums segment lengths', () => {
+    expect(
+      measurePolyline([
+        [0, 0, 0],
+        [3, 4, 0],
+        [3, 4, 12],
+      ])
+    ).toBeCloseTo(17);
+  });
+});
+
+describe('calculateCableSchedule', () => {
+  it('sizes short string runs within the DC voltage drop limit', () => {
+    const result = calculateCableSchedule({
+      electrical: [cable('s1', 'string', 50), cable('s2', 'string', 80)],
+      module: DEFAULT_MODULE_SPECS,
+      inverter: DEFAULT_INVERTER_SPECS,
+      modulesPerString: MODULES_PER_STRING,
+      totalModules: MODULES_PER_STRING * 2,
+      inverterCount: 1,
+    });
+
+    expect(result.circuits).toHaveLength(2);
+    expect(result.maxVoltageDropDc).toBeLessThanOrEqual(DEFAULT_MAX_VOLTAGE_DROP_DC);
+    expect(result.circuits.every((c) => c.material === 'copper')).toBe(true);
+    // Two conductors per DC run
+    const conductor = result.quantities.reduce((sum, q) => sum + q.conductorLengthM, 0);
+    expect(conductor).toBeCloseTo(result.dcLengthM * 2);
+  });
+
+  it('uses a larger conductor for a longer run', () => {
+    const base = {
+      module: DEFAULT_MODULE_SPECS,
+      inverter: DEFAULT_INVERTER_SPECS,
+      modulesPerString: MODULES_PER_STRING,
+      totalModules: MODULES_PER_STRING * 20,
+      inverterCount: 1,
+    };
+    const short = calculateCableSchedule({ ...base, electrical: [cable('f', 'cable', 20)] });
+    const long = calculateCableSchedule({ ...base, electrical: [cable('f', 'cable', 400)] });
+
+    expect(long.circuits[0].crossSectionMm2).toBeGreaterThan(short.circuits[0].crossSectionMm2);
+    expect(long.dcLossPercent).toBeGreaterThan(short.dcLossPercent);
+  });
+
+  it('derives the energy wiring loss from the STC ohmic loss', () => {
+    const result = calculateCableSchedule({
+      electrical: [
+        cable('s1', 'string', 60),
+        cable('f1', 'cable', 150),
+        cable('ac1', 'ac_cable', 300),
+      ],
+      module: DEFAULT_MODULE_SPECS,
+      inverter: DEFAULT_INVERTER_SPECS,
+      modulesPerString: MODULES_PER_STRING,
+      totalModules: MODULES_PER_STRING * 16,
+      inverterCount: 1,
+    });
+
+    const stcLoss =
+      (1 - (1 - result.dcLossPercent / 100) * (1 - result.acLossPercent / 100)) * 100;
+    expect(result.acLossPercent).toBeGreaterThan(0);
+    expect(result.wiringLoss).toBeCloseTo(stcLoss * CABLE_ENERGY_LOSS_FACTOR);
+    expect(result.circuits.find((c) => c.kind === 'ac')?.material).toBe('aluminium');
+  });
+
+  it('ignores components without a cable path', () => {
+    const result = calculateCableSchedule({
+      electrical: [{ id: 'inv', type: 'inverter', position: [0, 0, 0], layer: 'TEST' }],
+      module: DEFAULT_MODULE_SPECS,
+      inverter: DEFAULT_INVERTER_SPECS,
+      modulesPerString: MODULES_PER_STRING,
+      totalModules: MODULES_PER_STRING,
+    });
+
+    expect(result.circuits).toHaveLength(0);
+    expect(result.wiringLoss).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { applyCapexSync, buildCapexSyncDiff, hasDesignChanged } from '@/lib/boq/capexSync';
+import type { BOQ, BOQItem } from '@/lib/types/boq';
+import type { Component } from '@/lib/types/component';
+import type { CostLineItem } from '@/lib/types/financial';
+import type { Design } from '@/lib/types';
+
+const modules: BOQItem = {
+  id: 'boq-modules',
+  name: 'PV Modules',
+  category: 'PV Equipment',
+  quantity: 1000,
+  unit: 'panels',
+  unitPrice: 100,
+  totalPrice: 100_000,
+  source: 'component_library',
+  sourceId: 'cmp-module',
+};
+
+const cables: BOQItem = {
+  id: 'boq-cables',
+  name: 'DC Cables',
+  category: 'Electrical',
+  quantity: 500,
+  unit: 'm',
+  unitPrice: 2,
+  totalPrice: 1000,
+  source: 'dxf_extraction',
+};
+
+const boq = {
+  id: 'boq-1',
+  name: 'Site A - BOQ',
+  items: [modules, cables],
+  generatedAt: '2026-01-01T00:00:00Z',
+  sourceVersionId: 'v1',
+} as BOQ;
+
+const linked = (item: BOQItem, id: string): CostLineItem => ({
+  id,
+  name: item.name,
+  amount: item.totalPrice,
+  is_capex: true,
+  category: item.category,
+  unit_price: item.unitPrice,
+  quantity: item.quantity,
+  unit: item.unit,
+  boq_link: { boq_id: boq.id, boq_item_id: item.id, synced_at: '2026-01-01T00:00:00Z' },
+});
+
+const components = [{ id: 'cmp-module', unitPrice: 100 }] as Component[];
+const manual: CostLineItem = { id: 'manual', name: 'Permits', amount: 5000, is_capex: true, category: 'Development' };
+
+describe('BOQ to CAPEX sync', () => {
+  it('is clean when linked items match the BOQ and component prices', () => {
+    const items = [linked(modules, 'c1'), linked(cables, 'c2'), manual];
+    const diff = buildCapexSyncDiff(items, boq, components);
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.amountDelta).toBe(0);
+  });
+
+  it('detects component price, quantity, added and removed changes', () => {
+    const stale = { ...linked(cables, 'c2'), quantity: 400, amount: 800 };
+    const orphan = { ...linked(cables, 'c3'), name: 'Fencing', boq_link: { ...linked(cables, 'c3').boq_link!, boq_item_id: 'gone' } };
+    const items = [stale, orphan, manual];
+    const diff = buildCapexSyncDiff(items, boq, [{ id: 'cmp-module', unitPrice: 90 } as Component]);
+
+    const byName = Object.fromEntries(diff.changes.map((c) => [c.name, c]));
+    expect(byName['PV Modules'].kind).toBe('added');
+    expect(byName['PV Modules'].after?.amount).toBe(90_000);
+    expect(byName['DC Cables'].kind).toBe('updated');
+    expect(byName['Fencing'].kind).toBe('removed');
+    expect(diff.amountDelta).toBeCloseTo(90_000 + 200 - 1000, 6);
+
+    const priced = buildCapexSyncDiff([linked(modules, 'c1')], boq, [{ id: 'cmp-module', unitPrice: 90 } as Component]);
+    expect(priced.changes[0].reasons).toEqual(['component_price']);
+  });
+
+  it('applies a diff keeping manual items and links', () => {
+    const items = [{ ...linked(cables, 'c2'), quantity: 400, amount: 800 }, manual];
+    const diff = buildCapexSyncDiff(items, boq, components);
+    const synced = applyCapexSync(items, diff, boq, '2026-02-01T00:00:00Z');
+
+    expect(synced).toContainEqual(manual);
+    expect(synced.find((c) => c.id === 'c2')?.amount).toBe(1000);
+    expect(synced.find((c) => c.name === 'PV Modules')?.boq_link?.component_id).toBe('cmp-module');
+    expect(buildCapexSyncDiff(synced, boq, components).changes).toEqual([]);
+  });
+
+  it('flags design changes since generation', () => {
+    const design = { currentVersionId: 'v1' } as Design;
+    expect(hasDesignChanged(boq, design)).toBe(false);
+    expect(hasDesignChanged(boq, { ...design, currentVersionId: 'v2' })).toBe(true);
+    expect(hasDesignChanged({ ...boq, generatedAt: undefined }, { ...design, currentVersionId: 'v2' })).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { estimateClipping, applyClippingProfile, sizeInverters } from '@/lib/yield/clipping';
+import { estimateYieldFromLookup } from '@/lib/yield/ghiLookup';
+import type { YieldEstimate } from '@/lib/yield/types';
+
+const CAPACITY_KWP = 1000;
+
+function lookupEstimate(): YieldEstimate {
+  const lookup = estimateYieldFromLookup(40, CAPACITY_KWP, 0.82);
+  return {
+    source: 'lookup',
+    calculatedAt: '2026-01-01T00:00:00Z',
+    latitude: 40,
+    longitude: -3.5,
+    tiltAngle: 30,
+    azimuth: 180,
+    systemLosses: 14,
+    annualYield: lookup.annualYield,
+    annualGHI: lookup.annualGHI,
+    monthlyYield: lookup.monthlyYield,
+    monthlyFactors: lookup.monthlyFactors,
+    performanceRatio: 0.82,
+    losses: {
+      temperatureLoss: 5,
+      soilingLoss: 2,
+      shadingLoss: 3,
+      wiringLoss: 2,
+      mismatchLoss: 2,
+      inverterLoss: 3,
+      availabilityLoss: 0,
+      otherLoss: 0,
+      totalLoss: 18,
+    },
+  };
+}
+
+describe('inverter clipping', () => {
+  it('sizes inverters from the DC capacity or the saved string configuration', () => {
+    const inverter = { acPowerRating: 250, maxDcPower: 330 };
+    expect(sizeInverters(1000, inverter)).toEqual({ inverterCount: 4, acCapacityKw: 1000, dcAcRatio: 1 });
+    expect(sizeInverters(1000, inverter, 3).dcAcRatio).toBeCloseTo(1000 / 750, 10);
+  });
+
+  it('sizes inverters at the target DC/AC ratio without a string configuration', () => {
+    // OND-style inverter whose maximum DC input allows a 1.5 ratio
+    expect(sizeInverters(1000, { acPowerRating: 100, maxDcPower: 150 })).toEqual({
+      inverterCount: 8,
+      acCapacityKw: 800,
+      dcAcRatio: 1.25,
+    });
+    // Capped at the maximum DC input
+    expect(sizeInverters(1000, { acPowerRating: 100, maxDcPower: 110 }).inverterCount).toBe(10);
+  });
+
+  it('grows with the DC/AC ratio and conserves energy', () => {
+    const estimate = lookupEstimate();
+    const clip = (ratio: number) =>
+      estimateClipping({
+        latitude: 40,
+        tiltAngle: 30,
+        azimuth: 180,
+        capacityKwp: CAPACITY_KWP,
+        acCapacityKw: CAPACITY_KWP / ratio,
+        monthlyYield: estimate.monthlyYield,
+        performanceRatio: estimate.performanceRatio,
+      });
+
+    const low = clip(1.0);
+    const mid = clip(1.3);
+    const high = clip(1.6);
+    expect(low.clippingLoss).toBeLessThan(0.5);
+    expect(mid.clippingLoss).toBeGreaterThan(low.clippingLoss);
+    expect(high.clippingLoss).toBeGreaterThan(mid.clippingLoss);
+
+    const before = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+    const after = high.monthlyYield.reduce((a, b) => a + b, 0);
+    expect(after + high.clippedEnergy).toBeCloseTo(before, 3);
+  });
+
+  it('adds the export limit as a separate loss and keeps PR consistent', () => {
+    const estimate = lookupEstimate();
+    expect(applyClippingProfile(estimate, CAPACITY_KWP)).toBe(estimate);
+
+    const before = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+    const limited = applyClippingProfile(estimate, CAPACITY_KWP, 800, 600);
+    expect(limited.losses.clippingLoss).toBeGreaterThan(0);
+    expect(limited.losses.exportLimitLoss).toBeGreaterThan(0);
+    expect(limited.dcAcRatio).toBeCloseTo(1.25, 10);
+    expect(limited.annualYield + limited.clippedEnergy! + limited.exportLimitedEnergy!).toBeCloseTo(before, 3);
+    expect(limited.performanceRatio / estimate.performanceRatio).toBeCloseTo(limited.annualYield / before, 10);
+  });
+});
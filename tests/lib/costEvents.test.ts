@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { buildCostSchedule, costEventYears } from '@/lib/calculator/costEvents';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { CostEvent, FinancialInputs } from '@/lib/types/financial';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+const inverter: CostEvent = {
+  id: 'inv',
+  name: 'Inverter replacement',
+  amount: 100_000,
+  recurrence: 'once',
+  year: 13,
+  interval_years: 10,
+};
+
+describe('scheduled costs', () => {
+  it('schedules one-off and periodic events within the lifetime', () => {
+    expect(costEventYears(inverter, 25)).toEqual([13]);
+    expect(costEventYears(inverter, 10)).toEqual([]);
+    expect(costEventYears({ ...inverter, recurrence: 'periodic', year: 5, interval_years: 5 }, 22)).toEqual([5, 10, 15, 20]);
+  });
+
+  it('escalates costs and nets salvage against decommissioning', () => {
+    const years = buildCostSchedule({
+      events: [inverter],
+      decommissioning: { cost: 50_000, salvage_value: 20_000 },
+      lifetime: 25,
+      escalation: 0.02,
+    });
+
+    expect(years[12].events).toBeCloseTo(100_000 * 1.02 ** 12, 6);
+    expect(years[24].decommissioning).toBeCloseTo(30_000 * 1.02 ** 24, 6);
+    expect(years.every((y) => y.reserveMovement === 0)).toBe(true);
+  });
+
+  it('pre-funds the reserve and releases it when costs fall due', () => {
+    const years = buildCostSchedule({
+      events: [inverter],
+      decommissioning: { cost: 50_000, salvage_value: 0 },
+      reserve: { funding_years: 4, include_decommissioning: true },
+      lifetime: 25,
+      escalation: 0,
+    });
+
+    expect(years[8].reserveContribution).toBeCloseTo(25_000, 6);
+    expect(years[11].reserveBalance).toBeCloseTo(100_000, 6);
+    expect(years[12].reserveMovement).toBeCloseTo(100_000, 6);
+    expect(years[12].reserveBalance).toBeCloseTo(0, 6);
+    expect(years[24].reserveRelease).toBeCloseTo(50_000, 6);
+    expect(years[24].reserveBalance).toBeCloseTo(0, 6);
+  });
+
+  it('includes scheduled costs in EBITDA and the LCOE, smoothing CFADS with a reserve', () => {
+    const withCosts: FinancialInputs = { ...base, cost_events: [inverter] };
+    const plain = new SolarFinanceCalculator(base);
+    const calculator = new SolarFinanceCalculator(withCosts);
+
+    expect(plain.calcEBITDAYearT(13) - calculator.calcEBITDAYearT(13)).toBeCloseTo(
+      100_000 * (1 + base.om_escalation) ** 12,
+      4
+    );
+    expect(calculator.calcLCOE()).toBeGreaterThan(plain.calcLCOE());
+    expect(calculator.generateYearlyData().scheduled_costs![12]).toBeGreaterThan(0);
+
+    const reserved = new SolarFinanceCalculator({
+      ...withCosts,
+      cost_reserve: { funding_years: 5, include_decommissioning: false },
+    });
+    const dip = (c: SolarFinanceCalculator) => c.calcCFADSYearT(12) - c.calcCFADSYearT(13);
+    expect(dip(reserved)).toBeLessThan(dip(calculator));
+  });
+});
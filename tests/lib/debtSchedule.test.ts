@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { drawdownProfile } from '@/lib/calculator/debt';
+import { pmt } from '@/lib/calculator/financial';
+import { DEFAULT_DEBT_TERMS, DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { FinancialInputs } from '@/lib/types/financial';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+describe('debt schedule', () => {
+  it('keeps a flat annuity without debt terms', () => {
+    const calculator = new SolarFinanceCalculator(base);
+    const debt = calculator.calcFinalDebt();
+    const annuity = -pmt(base.interest_rate, base.debt_tenor, debt, 0);
+    const yearly = calculator.generateYearlyData();
+
+    for (let i = 0; i < base.debt_tenor; i++) {
+      expect(yearly.debt_service[i]).toBeCloseTo(annuity, 2);
+    }
+    expect(yearly.debt_balance![base.debt_tenor - 1]).toBeCloseTo(0, 2);
+    expect(calculator.calcTotalFunding()).toBe(calculator.calcTotalCapEx());
+  });
+
+  it('sculpts repayment to the target DSCR after an interest-only grace period', () => {
+    const inputs: FinancialInputs = {
+      ...base,
+      gearing_ratio: 0.95, // DSCR-constrained
+      debt_terms: { ...DEFAULT_DEBT_TERMS, repayment_profile: 'sculpted', grace_period_years: 2 },
+    };
+    const calculator = new SolarFinanceCalculator(inputs);
+    const debt = calculator.calcFinalDebt();
+    const yearly = calculator.generateYearlyData();
+
+    expect(calculator.calculate().financing_structure.binding_constraint).toBe('DSCR');
+    expect(yearly.principal_repayment![0]).toBe(0);
+    expect(yearly.interest_payment![1]).toBeCloseTo(debt * inputs.interest_rate, 2);
+    expect(yearly.debt_balance![1]).toBeCloseTo(debt, 2);
+    for (let year = 3; year <= inputs.debt_tenor; year++) {
+      expect(yearly.dscr[year - 1]!).toBeCloseTo(inputs.target_dscr, 6);
+    }
+    expect(yearly.debt_balance![inputs.debt_tenor - 1]).toBeCloseTo(0, 2);
+  });
+
+  it('capitalises construction interest and fees and releases the DSRA', () => {
+    const inputs: FinancialInputs = {
+      ...base,
+      debt_terms: {
+        ...DEFAULT_DEBT_TERMS,
+        construction_months: 18,
+        upfront_fee: 0.015,
+        commitment_fee: 0.005,
+        dsra_months: 6,
+      },
+    };
+    const calculator = new SolarFinanceCalculator(inputs);
+    const schedule = calculator.getDebtSchedule();
+    const structure = calculator.calculate().financing_structure;
+
+    expect(schedule.idc).toBeGreaterThan(0);
+    expect(schedule.commitmentFees).toBeGreaterThan(0);
+    expect(schedule.totalFunding).toBeCloseTo(
+      calculator.calcTotalCapEx() + schedule.idc + schedule.upfrontFee + schedule.commitmentFees + schedule.dsraInitialBalance,
+      0
+    );
+    expect(structure.equity + structure.final_debt).toBeCloseTo(schedule.totalFunding, 2);
+    expect(schedule.dsraInitialBalance).toBeCloseTo(schedule.years[0].debtService / 2, 2);
+
+    const released = schedule.years.reduce((sum, y) => sum + y.dsraMovement, 0);
+    expect(released).toBeCloseTo(schedule.dsraInitialBalance, 2);
+    expect(schedule.years[schedule.years.length - 1].dsraBalance).toBe(0);
+    // Debt drawn pro rata through construction; its share of the DSRA is drawn at COD
+    const debtShare = schedule.debt / schedule.totalFunding;
+    expect(schedule.construction[schedule.construction.length - 1].debtBalance).toBeCloseTo(
+      schedule.debt - schedule.dsraInitialBalance * debtShare,
+      0
+    );
+  });
+
+  it('spreads CAPEX over construction by the drawdown curve', () => {
+    for (const curve of ['linear', 's_curve', 'front_loaded', 'back_loaded'] as const) {
+      const shares = drawdownProfile(curve, 12);
+      expect(shares.reduce((sum, s) => sum + s, 0)).toBeCloseTo(1, 10);
+    }
+    const sCurve = drawdownProfile('s_curve', 12);
+    expect(sCurve[5]).toBeGreaterThan(sCurve[0]);
+    expect(drawdownProfile('front_loaded', 12)[0]).toBeGreaterThan(drawdownProfile('back_loaded', 12)[0]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import {
+  averageModulePowerYearT,
+  checkPowerWarranty,
+  degradationProfileFromSpecs,
+  modulePowerYearT,
+  warrantedPowerYearT,
+} from '@/lib/calculator/degradation';
+import { DEFAULT_DEGRADATION_PROFILE, DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { DegradationProfile, FinancialInputs } from '@/lib/types/financial';
+import { DEFAULT_MODULE_SPECS } from '@/lib/types/component';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+const profile: DegradationProfile = {
+  lid: 0.01,
+  letid: 0.006,
+  curve: 'linear',
+  rate_acceleration: 0.05,
+  warranty: { first_year_power: 0.98, annual_decline: 0.0055, years: 25 },
+};
+
+describe('module degradation', () => {
+  it('applies LID in year 1, ramps LeTID and ages from year 2', () => {
+    expect(modulePowerYearT(profile, 0.004, 0)).toBe(1);
+    expect(modulePowerYearT(profile, 0.004, 1)).toBeCloseTo(0.99 * (1 - 0.002), 10);
+    expect(modulePowerYearT(profile, 0.004, 3)).toBeCloseTo(0.99 * 0.994 * (1 - 0.008), 10);
+    expect(modulePowerYearT(profile, 0.004, 10)).toBeCloseTo(0.99 * 0.994 * (1 - 0.036), 10);
+
+    const nonlinear = { ...profile, curve: 'nonlinear' as const };
+    expect(modulePowerYearT(nonlinear, 0.004, 2)).toBeCloseTo(modulePowerYearT(profile, 0.004, 2), 10);
+    expect(modulePowerYearT(nonlinear, 0.004, 25)).toBeLessThan(modulePowerYearT(profile, 0.004, 25));
+  });
+
+  it('projects yearly energy with the profile and keeps the legacy curve without one', () => {
+    const legacy = new SolarFinanceCalculator(base).generateYearlyData();
+    expect(legacy.energy_production_mwh[4]).toBeCloseTo(base.p50_year_0_yield * 0.996 ** 4, 6);
+    expect(legacy.module_power).toBeUndefined();
+
+    // Energy follows the average of start and end of year power (after LID in year 1)
+    const yearly = new SolarFinanceCalculator({ ...base, degradation_profile: profile }).generateYearlyData();
+    expect(averageModulePowerYearT(profile, base.degradation_rate, 1)).toBeCloseTo((0.99 + 0.99 * 0.998) / 2, 10);
+    expect(yearly.energy_production_mwh[0]).toBeCloseTo(
+      base.p50_year_0_yield * ((1 - profile.lid) + yearly.module_power![0]) / 2,
+      6
+    );
+    expect(yearly.energy_production_mwh[9]).toBeCloseTo(
+      base.p50_year_0_yield * (yearly.module_power![8] + yearly.module_power![9]) / 2,
+      6
+    );
+    expect(yearly.module_power![9]).toBeCloseTo(modulePowerYearT(profile, base.degradation_rate, 10), 10);
+    expect(yearly.warranted_power![0]).toBeCloseTo(0.98, 10);
+    expect(yearly.warranted_power![24]).toBeCloseTo(0.98 - 24 * 0.0055, 10);
+  });
+
+  it('flags the years a warranty claim would be triggered', () => {
+    expect(warrantedPowerYearT(profile.warranty!, 26)).toBeNull();
+    expect(checkPowerWarranty({ ...base, degradation_profile: profile }).some((y) => y.claim)).toBe(false);
+
+    const checks = checkPowerWarranty({ ...base, degradation_rate: 0.007, degradation_profile: profile });
+    const claims = checks.filter((y) => y.claim).map((y) => y.year);
+    expect(checks).toHaveLength(25);
+    expect(claims[0]).toBeGreaterThan(1);
+    expect(claims).toEqual(checks.slice(claims[0] - 1).map((y) => y.year));
+
+    expect(checkPowerWarranty({ ...base, project_lifetime: 20, degradation_profile: profile })).toHaveLength(20);
+    expect(checkPowerWarranty(base)).toEqual([]);
+  });
+
+  it('reads the profile and warranty from the module datasheet', () => {
+    const { profile: fromSpecs, rate } = degradationProfileFromSpecs(
+      { ...DEFAULT_MODULE_SPECS, firstYearDegradation: 1, annualDegradation: 0.4, warrantyYears: 30 },
+      'Test Module'
+    );
+    expect(rate).toBeCloseTo(0.004, 10);
+    expect(fromSpecs.lid).toBeCloseTo(0.01, 10);
+    expect(fromSpecs.warranty).toEqual({ first_year_power: 0.99, annual_decline: 0.004, years: 30 });
+
+    const withoutWarranty = degradationProfileFromSpecs({ ...DEFAULT_MODULE_SPECS, lid: 2 }, 'Other');
+    expect(withoutWarranty.rate).toBeUndefined();
+    expect(withoutWarranty.profile.lid).toBeCloseTo(0.02, 10);
+    expect(withoutWarranty.profile.letid).toBe(DEFAULT_DEGRADATION_PROFILE.letid);
+    expect(withoutWarranty.profile.warranty).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { pinFxRates, reportingAmount, resolveFxRate, sumInCurrency } from '@/lib/currency/fx';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { CostLineItem, FinancialInputs } from '@/lib/types/financial';
+import type { FxRate } from '@/lib/types/currency';
+
+const rate = (from: string, to: string, value: number, effectiveDate: string): FxRate => ({
+  id: `${from}${to}${effectiveDate}`,
+  from,
+  to,
+  rate: value,
+  effectiveDate,
+  createdBy: 'Test User',
+  creatorId: 'user-1',
+  createdAt: '2026-01-01T00:00:00Z',
+});
+
+const rates: FxRate[] = [
+  rate('USD', 'EUR', 0.9, '2026-01-01'),
+  rate('USD', 'EUR', 0.8, '2026-06-01'),
+  rate('EUR', 'GBP', 0.85, '2026-01-01'),
+];
+
+const modules: CostLineItem = {
+  id: 'c1',
+  name: 'Modules',
+  amount: 100_000_000,
+  is_capex: true,
+  category: 'PV',
+  currency: 'USD',
+};
+
+describe('FX rates', () => {
+  it('resolves the latest effective rate directly, inverted or crossed', () => {
+    expect(resolveFxRate(rates, 'USD', 'EUR', '2026-03-01')).toEqual({ rate: 0.9, effectiveDate: '2026-01-01' });
+    expect(resolveFxRate(rates, 'USD', 'EUR', '2026-07-01')?.rate).toBe(0.8);
+    expect(resolveFxRate(rates, 'EUR', 'USD', '2026-07-01')?.rate).toBeCloseTo(1.25, 10);
+    expect(resolveFxRate(rates, 'USD', 'GBP', '2026-07-01')?.rate).toBeCloseTo(0.8 * 0.85, 10);
+    expect(resolveFxRate(rates, 'USD', 'EUR', '2025-12-31')).toBeNull();
+    expect(resolveFxRate(rates, 'JPY', 'EUR')).toBeNull();
+  });
+
+  it('sums amounts in a currency and lists those without a rate', () => {
+    const sum = sumInCurrency(
+      [
+        { amount: 1000, currency: 'USD' },
+        { amount: 500, currency: 'EUR' },
+        { amount: 200, currency: 'JPY' },
+        { amount: 100, currency: 'CHF' },
+        { amount: 100, currency: 'JPY' },
+      ],
+      'EUR',
+      rates,
+      '2026-03-01'
+    );
+
+    expect(sum.total).toBeCloseTo(900 + 500 + 200 + 100 + 100, 6);
+    expect(sum.missingRates).toEqual(['CHF', 'JPY']);
+    expect(sumInCurrency([{ amount: 1000, currency: 'USD' }], 'EUR', rates, '2026-03-01').missingRates).toEqual([]);
+  });
+
+  it('pins rates on foreign items and flags missing ones', () => {
+    const items = pinFxRates(
+      [modules, { ...modules, id: 'c2', currency: 'JPY' }, { ...modules, id: 'c3', currency: 'EUR' }],
+      'EUR',
+      rates,
+      { asOf: '2026-03-01' }
+    );
+
+    expect(items[0].fx).toEqual({ from: 'USD', to: 'EUR', rate: 0.9, effective_date: '2026-01-01' });
+    expect(reportingAmount(items[0])).toBeCloseTo(90_000_000, 6);
+    expect(items[1].fx?.missing).toBe(true);
+    expect(reportingAmount(items[1])).toBe(100_000_000);
+    expect(items[2].fx).toBeUndefined();
+
+    // Pinned rates are kept until refreshed
+    const later = pinFxRates(items, 'EUR', rates, { asOf: '2026-07-01' });
+    expect(later[0].fx?.rate).toBe(0.9);
+    expect(pinFxRates(items, 'EUR', rates, { asOf: '2026-07-01', refresh: true })[0].fx?.rate).toBe(0.8);
+  });
+
+  it('converts foreign CAPEX into the reporting currency', () => {
+    const inputs: FinancialInputs = {
+      ...DEFAULT_FINANCIAL_INPUTS,
+      currency: 'EUR',
+      global_margin: 0,
+      capex_items: pinFxRates([modules], 'EUR', rates, { asOf: '2026-03-01' }),
+    };
+    const results = new SolarFinanceCalculator(inputs).calculate();
+
+    expect(results.currency).toBe('EUR');
+    expect(results.project_summary.total_capex).toBeCloseTo(90_000_000, 0);
+  });
+});
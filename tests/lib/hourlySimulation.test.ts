@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { parseTMYFile, detectTMYFormat } from '@/lib/yield/tmy';
+import { simulateHourlyYield, monthlyTotalsFromHourly } from '@/lib/yield/hourlySimulation';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { TMYHour } from '@/lib/yield/types';
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/** Synthetic clear-ish year: half-sine days, larger in summer, 06:00-18:00 */
+function syntheticYear(): TMYHour[] {
+  const hours: TMYHour[] = [];
+  DAYS_IN_MONTH.forEach((days, m) => {
+    const season = 0.6 + 0.4 * Math.sin((Math.PI * m) / 11);
+    for (let day = 1; day <= days; day++) {
+      for (let hour = 0; hour < 24; hour++) {
+        const ghi = Math.round(Math.max(0, 900 * season * Math.sin((Math.PI * (hour + 0.5 - 6)) / 12)));
+        hours.push({ month: m + 1, day, hour, ghi, dni: ghi, dhi: Math.round(ghi * 0.25), tAmb: 5 + 20 * season, windSpeed: 2 });
+      }
+    }
+  });
+  return hours;
+}
+
+function toEPW(hours: TMYHour[]): string {
+  const header = [
+    'LOCATION,Madrid,-,ESP,IWEC,082210,40.45,-3.55,1.0,582.0',
+    ...Array.from({ length: 7 }, (_, i) => `HEADER${i}`),
+  ];
+  const rows = hours.map((h) => {
+    const fields = new Array(35).fill('0');
+    fields[0] = '2005';
+    fields[1] = String(h.month);
+    fields[2] = String(h.day);
+    fields[3] = String(h.hour + 1);
+    fields[6] = String(h.tAmb);
+    fields[13] = String(h.ghi);
+    fields[14] = String(h.dni);
+    fields[15] = String(h.dhi);
+    fields[21] = String(h.windSpeed);
+    return fields.join(',');
+  });
+  return [...header, ...rows].join('\n');
+}
+
+function toNSRDB(hours: TMYHour[]): string {
+  const rows = hours.map((h) => `2019,${h.month},${h.day},${h.hour},30,${h.ghi},${h.tAmb},${h.windSpeed}`);
+  // A leap day that should be dropped
+  const leap = Array.from({ length: 24 }, (_, hour) => `2019,2,29,${hour},30,0,5,1`);
+  return [
+    'Source,Location ID,Latitude,Longitude,Time Zone,Elevation',
+    'NSRDB,123,40.45,-3.55,1,582',
+    'Year,Month,Day,Hour,Minute,GHI,Temperature,Wind Speed',
+    ...rows.slice(0, 1416),
+    ...leap,
+    ...rows.slice(1416),
+  ].join('\n');
+}
+
+const weather = parseTMYFile(toEPW(syntheticYear()));
+
+describe('TMY weather import', () => {
+  it('parses EPW and NSRDB files into 8760 hours with location metadata', () => {
+    expect(detectTMYFormat(toEPW(syntheticYear()))).toBe('epw');
+    expect(weather.hours.length).toBe(8760);
+    expect(weather.latitude).toBe(40.45);
+    expect(weather.timezone).toBe(1);
+    expect(weather.hours[12]).toMatchObject({ month: 1, day: 1, hour: 12 });
+
+    const nsrdb = parseTMYFile(toNSRDB(syntheticYear()));
+    expect(nsrdb.format).toBe('nsrdb_csv');
+    expect(nsrdb.hours.length).toBe(8760);
+    expect(nsrdb.longitude).toBe(-3.55);
+    // No DNI/DHI columns: the simulation decomposes GHI
+    expect(nsrdb.hours[12].dni).toBeUndefined();
+  });
+
+  it('falls back on EPW missing-value markers', () => {
+    const year = syntheticYear();
+    const lines = toEPW(year).split('\n');
+    const fields = lines[8 + 12].split(',');
+    fields[6] = '99.9';
+    fields[13] = '9999';
+    fields[21] = '999';
+    lines[8 + 12] = fields.join(',');
+
+    const hour = parseTMYFile(lines.join('\n')).hours[12];
+    expect(hour.tAmb).toBe(year[11].tAmb);
+    expect(hour.windSpeed).toBe(year[11].windSpeed);
+    expect(hour.ghi).toBe(0);
+  });
+
+  it('parses PVGIS TMY CSV with UTC stamps', () => {
+    const rows = syntheticYear().map((h) => {
+      const stamp = `2010${String(h.month).padStart(2, '0')}${String(h.day).padStart(2, '0')}:${String(h.hour).padStart(2, '0')}00`;
+      return `${stamp},${h.tAmb},50,${h.ghi},${h.dni},${h.dhi},300,${h.windSpeed},180,100000`;
+    });
+    const csv = [
+      'Latitude (decimal degrees):,40.450',
+      'Longitude (decimal degrees):,-3.550',
+      'Elevation (m):,582',
+      'time(UTC),T2m,RH,G(h),Gb(n),Gd(h),IR(h),WS10m,WD10m,SP',
+      ...rows,
+      'T2m: 2-m air temperature (degree Celsius)',
+    ].join('\n');
+
+    const data = parseTMYFile(csv);
+    expect(data.format).toBe('pvgis_csv');
+    expect(data.timeReference).toBe('utc');
+    expect(data.latitude).toBe(40.45);
+    expect(data.hours[12].ghi).toBe(syntheticYear()[12].ghi);
+  });
+});
+
+describe('hourly yield simulation', () => {
+  const input = { latitude: 40.45, longitude: -3.55, capacityKwp: 1000, tiltAngle: 30, azimuth: 180 };
+
+  it('returns a consistent 8760 profile and loss breakdown', () => {
+    const { estimate } = simulateHourlyYield(input, weather, 'madrid.epw');
+
+    expect(estimate?.source).toBe('tmy');
+    expect(estimate!.hourlyProfile!.length).toBe(8760);
+    const total = estimate!.hourlyProfile!.reduce((a, b) => a + b, 0);
+    expect(estimate!.annualYield).toBeCloseTo(total, 3);
+    expect(monthlyTotalsFromHourly(estimate!.hourlyProfile!)).toEqual(estimate!.monthlyYield);
+
+    const l = estimate!.losses;
+    const product = [l.temperatureLoss, l.soilingLoss, l.shadingLoss, l.wiringLoss, l.mismatchLoss,
+      l.inverterLoss, l.clippingLoss ?? 0, l.availabilityLoss, l.otherLoss]
+      .reduce((pr, loss) => pr * (1 - loss / 100), 1);
+    expect(product).toBeCloseTo(estimate!.performanceRatio, 3);
+  });
+
+  it('clips at the inverter AC rating', () => {
+    const unclipped = simulateHourlyYield(input, weather).estimate!;
+    const clipped = simulateHourlyYield({ ...input, acCapacityKw: 500 }, weather).estimate!;
+
+    expect(Math.max(...clipped.hourlyProfile!)).toBeLessThanOrEqual(500);
+    expect(clipped.losses.clippingLoss).toBeGreaterThan(unclipped.losses.clippingLoss ?? 0);
+    expect(clipped.annualYield).toBeLessThan(unclipped.annualYield);
+  });
+
+  it('adds the bifacial rear side as a gain on the front irradiance', () => {
+    const bifacial = { bifacialityFactor: 0.7, collectorWidthM: 2.27, pitchM: 5, mountingHeightM: 0.5 };
+    const monofacial = simulateHourlyYield(input, weather).estimate!;
+    const estimate = simulateHourlyYield({ ...input, bifacial }, weather).estimate!;
+
+    const l = estimate.losses;
+    expect(l.bifacialGain).toBeGreaterThan(0);
+    expect(estimate.annualYield).toBeGreaterThan(monofacial.annualYield);
+    const product = [l.temperatureLoss, l.soilingLoss, l.shadingLoss, l.wiringLoss, l.mismatchLoss,
+      l.inverterLoss, l.clippingLoss ?? 0, l.availabilityLoss, l.otherLoss]
+      .reduce((pr, loss) => pr * (1 - loss / 100), 1 + l.bifacialGain! / 100);
+    expect(product).toBeCloseTo(estimate.performanceRatio, 3);
+  });
+
+  it('drives the monthly financial breakdown from the hourly profile', () => {
+    const estimate = simulateHourlyYield(input, weather).estimate!;
+    const results = new SolarFinanceCalculator({ ...DEFAULT_FINANCIAL_INPUTS, yieldEstimate: estimate }).calculate();
+    const firstYear = results.monthly_data!.filter((m) => m.year === 1);
+    const annual = firstYear.reduce((sum, m) => sum + m.energy_production_mwh, 0);
+
+    firstYear.forEach((m, i) => {
+      expect(m.energy_production_mwh / annual).toBeCloseTo(estimate.monthlyFactors[i], 6);
+    });
+  });
+});
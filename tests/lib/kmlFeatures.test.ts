@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { parseKMLFile } from '@/lib/kml/parser';
+import { parseBufferDistance, ringArea } from '@/lib/sites';
+import { generatePanelLayout, createLocalProjection, calculateFrameCorners } from '@/lib/layout';
+import { DEFAULT_LAYOUT_PARAMETERS } from '@/lib/types/layout';
+import type { ModuleInput } from '@/lib/types/layout';
+import type { Site } from '@/lib/types/site';
+
+const LAT = 35;
+const LNG = -110;
+const D = 0.002; // ~180m east-west, ~220m north-south
+
+const kml = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <Folder>
+      <name>Parcel Boundary</name>
+      <Placemark>
+        <name>Parcel</name>
+        <Polygon><outerBoundaryIs><LinearRing><coordinates>
+          ${LNG - D},${LAT - D} ${LNG + D},${LAT - D} ${LNG + D},${LAT + D} ${LNG - D},${LAT + D} ${LNG - D},${LAT - D}
+        </coordinates></LinearRing></outerBoundaryIs></Polygon>
+      </Placemark>
+      <Placemark>
+        <name>Parcel Marker</name>
+        <Point><coordinates>${LNG},${LAT}</coordinates></Point>
+      </Placemark>
+    </Folder>
+    <Placemark>
+      <name>Overhead line</name>
+      <ExtendedData><Data name="buffer_m"><value>30</value></Data></ExtendedData>
+      <LineString><coordinates>${LNG},${LAT - 2 * D} ${LNG},${LAT + 2 * D}</coordinates></LineString>
+    </Placemark>
+    <Placemark>
+      <name>Water well</name>
+      <description>50 ft wellhead setback</description>
+      <Point><coordinates>${LNG + D / 2},${LAT + D / 2}</coordinates></Point>
+    </Placemark>
+    <Placemark>
+      <name>Survey pin</name>
+      <Point><coordinates>${LNG - D / 2},${LAT - D / 2}</coordinates></Point>
+    </Placemark>
+  </Document>
+</kml>`;
+
+const module: ModuleInput = {
+  source: 'manual',
+  name: 'Test 550W',
+  widthMm: 1134,
+  lengthMm: 2278,
+  wattage: 550,
+};
+
+describe('buffer distances', () => {
+  it('reads distances with units from text and bare numbers from attributes', () => {
+    expect(parseBufferDistance('Line 2, 30 m easement')).toBe(30);
+    expect(parseBufferDistance('100 ft setback')).toBeCloseTo(30.48, 5);
+    expect(parseBufferDistance('Line 2')).toBeNull();
+    expect(parseBufferDistance('25', true)).toBe(25);
+  });
+});
+
+describe('KML line and point features', () => {
+  it('imports lines and points as buffered exclusion zones', async () => {
+    const result = await parseKMLFile(kml);
+
+    expect(result.boundaries.length).toBe(1);
+    // Parcel markers and unlabelled points are not excluded
+    expect(result.exclusionZones.map((z) => z.name)).toEqual(['Overhead line', 'Water well']);
+
+    const [line, well] = result.exclusionZones;
+    expect(line.type).toBe('easement');
+    expect(line.feature).toMatchObject({ geometry: 'line', bufferM: 30 });
+    // 60m wide corridor along a ~890m line, plus round caps
+    const lineLength = 4 * D * 111139;
+    expect(ringArea(line.coordinates)).toBeGreaterThan(60 * lineLength);
+    expect(ringArea(line.coordinates)).toBeLessThan(1.01 * (60 * lineLength + Math.PI * 30 * 30));
+
+    expect(well.feature).toMatchObject({ geometry: 'point' });
+    expect(well.feature!.bufferM).toBeCloseTo(15.24, 5);
+    expect(ringArea(well.coordinates)).toBeCloseTo(Math.PI * 15.24 * 15.24, -1);
+  });
+
+  it('keeps frames clear of the buffer', async () => {
+    const result = await parseKMLFile(kml);
+    const site: Site = {
+      id: 'site-1',
+      projectId: 'project-1',
+      name: 'Feature Site',
+      description: '',
+      createdBy: 'Admin User',
+      creatorId: 'user-1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      boundaries: result.boundaries,
+      exclusionZones: result.exclusionZones,
+      centroid: { latitude: LAT, longitude: LNG },
+    };
+
+    const layout = generatePanelLayout(site, module, DEFAULT_LAYOUT_PARAMETERS);
+    const projection = createLocalProjection({ lat: LAT, lng: LNG });
+
+    expect(layout.frames.length).toBeGreaterThan(0);
+    for (const frame of layout.frames) {
+      const center = projection.toLocal(frame.centerCoord);
+      for (const corner of calculateFrameCorners(center, frame.widthM, frame.heightM, frame.rotationDeg)) {
+        // The line runs north-south through the centroid (x = 0)
+        expect(Math.abs(corner.x)).toBeGreaterThan(29.5);
+      }
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeLayout, findParetoFront } from '@/lib/layout';
+import type { LayoutCandidate, LayoutSearchSpace } from '@/lib/layout';
+import { DEFAULT_LAYOUT_PARAMETERS } from '@/lib/types/layout';
+import type { ModuleInput } from '@/lib/types/layout';
+import { makeSquareSite } from '../helpers/site';
+
+const module: ModuleInput = {
+  source: 'manual',
+  name: 'Test 550W',
+  widthMm: 1134,
+  lengthMm: 2278,
+  wattage: 550,
+};
+
+const site = makeSquareSite(150);
+
+const searchSpace: LayoutSearchSpace = {
+  tiltAngle: [10, 30],
+  frameGapY: [1, 6],
+  frameRows: [2],
+  frameColumns: [12],
+  azimuth: [180],
+};
+
+function candidate(id: string, kw: number, mwh: number, lcoe: number): LayoutCandidate {
+  return {
+    id,
+    parameters: DEFAULT_LAYOUT_PARAMETERS,
+    frameCount: 1,
+    panelCount: 1,
+    dcCapacityKw: kw,
+    gcr: 0.4,
+    planeOfArrayFactor: 1,
+    rowShadingLoss: 0,
+    annualYieldMwh: mwh,
+    specificYield: (mwh * 1000) / kw,
+    lcoe,
+    paretoOptimal: false,
+  };
+}
+
+describe('findParetoFront', () => {
+  it('should keep only non-dominated candidates sorted by capacity', () => {
+    const candidates = [
+      candidate('big', 1000, 1500, 60),
+      candidate('cheap', 800, 1300, 50),
+      candidate('dominated', 700, 1100, 55),
+    ];
+
+    const front = findParetoFront(candidates);
+
+    expect(front.map((c) => c.id)).toEqual(['cheap', 'big']);
+    expect(candidates.find((c) => c.id === 'dominated')?.paretoOptimal).toBe(false);
+  });
+});
+
+describe('optimizeLayout', () => {
+  const result = optimizeLayout({
+    site,
+    module,
+    baseParameters: DEFAULT_LAYOUT_PARAMETERS,
+    searchSpace,
+  });
+
+  it('should score every combination of the search space', () => {
+    expect(result.gridSize).toBe(4);
+    expect(result.candidates).toHaveLength(4);
+    expect(result.paretoFront.length).toBeGreaterThan(0);
+    for (const c of result.candidates) {
+      expect(c.dcCapacityKw).toBeGreaterThan(0);
+      expect(c.annualYieldMwh).toBeGreaterThan(0);
+      expect(c.lcoe).toBeGreaterThan(0);
+    }
+  });
+
+  it('should trade capacity for row shading as rows get closer', () => {
+    const find = (tilt: number, gap: number) =>
+      result.candidates.find(
+        (c) => c.parameters.tiltAngle === tilt && c.parameters.frameGapY === gap
+      )!;
+    const tight = find(30, 1);
+    const wide = find(30, 6);
+
+    expect(tight.dcCapacityKw).toBeGreaterThan(wide.dcCapacityKw);
+    expect(tight.rowShadingLoss).toBeGreaterThan(wide.rowShadingLoss);
+    expect(tight.specificYield).toBeLessThan(wide.specificYield);
+  });
+
+  it('should sample the grid down to maxCandidates', () => {
+    const sampled = optimizeLayout({
+      site,
+      module,
+      baseParameters: DEFAULT_LAYOUT_PARAMETERS,
+      searchSpace,
+      maxCandidates: 2,
+    });
+
+    expect(sampled.gridSize).toBe(4);
+    expect(sampled.evaluated).toBe(2);
+  });
+
+  it('should reject tracker layouts', () => {
+    expect(() =>
+      optimizeLayout({
+        site,
+        module,
+        baseParameters: { ...DEFAULT_LAYOUT_PARAMETERS, mountType: 'single_axis_tracker' },
+      })
+    ).toThrow(/fixed-tilt/);
+  });
+});
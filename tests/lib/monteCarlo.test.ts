@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { calcExceedanceYields, exceedanceFactor } from '@/lib/calculator/uncertainty';
+import { buildHistogram, exceedanceValue, runMonteCarlo } from '@/lib/calculator/monteCarlo';
+import { DEFAULT_FINANCIAL_INPUTS, DEFAULT_YIELD_UNCERTAINTY } from '@/lib/types/financial';
+import type { FinancialInputs } from '@/lib/types/financial';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+describe('exceedance yields', () => {
+  it('derives P-values from the combined uncertainty', () => {
+    const uncertainty = { interannual_variability: 0.04, model_uncertainty: 0.03, degradation_uncertainty: 0 };
+    // σ = 5% for a single year, so P90 = 1 - 1.2816 × 0.05
+    expect(exceedanceFactor(uncertainty, 'P90', 1)).toBeCloseTo(1 - 1.2816 * 0.05, 6);
+    expect(exceedanceFactor(uncertainty, 'P50', 1)).toBe(1);
+
+    const [p50, , p90, p99] = calcExceedanceYields(100_000, uncertainty);
+    expect(p50.oneYear).toBe(100_000);
+    expect(p99.oneYear).toBeLessThan(p90.oneYear);
+    // Inter-annual variability averages out over ten years
+    expect(p90.tenYear).toBeGreaterThan(p90.oneYear);
+  });
+
+  it('sizes less debt on P90 than on P50', () => {
+    const p50 = new SolarFinanceCalculator(base).calculate();
+    const p90 = new SolarFinanceCalculator({ ...base, debt_sizing_case: 'P90' }).calculate();
+
+    expect(p90.financing_structure.max_debt_by_dscr).toBeLessThan(p50.financing_structure.max_debt_by_dscr);
+    expect(p90.financing_structure.debt_sizing_case).toBe('P90');
+    // Operating cash flows stay on P50
+    expect(p90.first_year_operations.energy_production_mwh).toBe(base.p50_year_0_yield);
+  });
+});
+
+describe('Monte Carlo simulation', () => {
+  it('is reproducible for a seed and centred on the P50 case', () => {
+    const a = runMonteCarlo(base, { iterations: 300, seed: 42 });
+    const b = runMonteCarlo(base, { iterations: 300, seed: 42 });
+    expect(a.distributions.equity_irr.values).toEqual(b.distributions.equity_irr.values);
+
+    const energy = a.distributions.energy_year_1;
+    const sigma = Math.hypot(
+      DEFAULT_YIELD_UNCERTAINTY.interannual_variability,
+      DEFAULT_YIELD_UNCERTAINTY.model_uncertainty
+    );
+    expect(energy.mean / base.p50_year_0_yield).toBeCloseTo(1, 1);
+    expect(energy.exceedance.P90).toBeLessThan(energy.exceedance.P50);
+    expect(energy.exceedance.P90 / base.p50_year_0_yield).toBeGreaterThan(1 - 2 * 1.2816 * sigma);
+
+    const irr = a.distributions.project_irr;
+    const deterministic = new SolarFinanceCalculator(base).calcProjectIRR();
+    expect(irr.exceedance.P90).toBeLessThan(deterministic);
+    expect(irr.exceedance.P50).toBeCloseTo(deterministic, 2);
+  });
+
+  it('builds histograms and exceedance values from a sample', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(exceedanceValue(sorted, 0.5)).toBeCloseTo(5.5, 10);
+    expect(exceedanceValue(sorted, 1)).toBe(1);
+
+    const bins = buildHistogram(sorted, 5);
+    expect(bins.length).toBe(5);
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(10);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { buildPortfolio } from '@/lib/calculator/portfolio';
+import { matchesProjectFilters } from '@/lib/projectFilters';
+import { portfolioSheets } from '@/lib/xlsx/portfolioWorkbook';
+import { columnName } from '@/lib/xlsx/workbook';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { FinancialInputs, FinancialModel } from '@/lib/types/financial';
+import type { FxRate } from '@/lib/types/currency';
+import type { Project } from '@/lib/types';
+
+const stages = [
+  { id: 'stage-dev', name: 'Development' },
+  { id: 'stage-build', name: 'Construction' },
+];
+
+const project = (id: string, stageId: string, owner: string): Project => ({
+  id,
+  name: `Project ${id}`,
+  location: 'Spain',
+  priority: 2,
+  owner,
+  currentStageId: stageId,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  stages: {},
+  attachments: [],
+  milestones: [],
+});
+
+const model = (projectId: string, inputs: Partial<FinancialInputs>, calculate = true): FinancialModel => {
+  const modelInputs = { ...DEFAULT_FINANCIAL_INPUTS, ...inputs };
+  return {
+    id: `model-${projectId}`,
+    projectId,
+    name: `Model ${projectId}`,
+    inputs: modelInputs,
+    results: calculate ? new SolarFinanceCalculator(modelInputs).calculate() : undefined,
+    createdBy: 'Test User',
+    creatorId: 'user-1',
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  };
+};
+
+const small = { project: project('a', 'stage-dev', 'user-1'), model: model('a', { capacity: 100, p50_year_0_yield: 192_640 }) };
+const large = { project: project('b', 'stage-build', 'user-2'), model: model('b', { capacity: 300, project_lifetime: 30 }) };
+
+describe('portfolio roll-up', () => {
+  it('weights returns by capacity and totals capacity by stage', () => {
+    const summary = buildPortfolio([small, large], stages, []);
+    const a = small.model.results!.key_metrics;
+    const b = large.model.results!.key_metrics;
+
+    expect(summary.totalCapacityMw).toBe(400);
+    expect(summary.weightedProjectIrr).toBeCloseTo((a.project_irr * 100 + b.project_irr * 300) / 400, 10);
+    expect(summary.weightedLcoe).toBeCloseTo((a.lcoe * 100 + b.lcoe * 300) / 400, 8);
+    expect(summary.stages.map((s) => [s.stageName, s.capacityMw])).toEqual([
+      ['Development', 100],
+      ['Construction', 300],
+    ]);
+  });
+
+  it('leaves models without a finite return out of the weighting', () => {
+    const results = small.model.results!;
+    const noIrr = {
+      ...small,
+      model: { ...small.model, results: { ...results, key_metrics: { ...results.key_metrics, project_irr: NaN } } },
+    };
+    const summary = buildPortfolio([noIrr, large], stages, []);
+
+    expect(summary.weightedProjectIrr).toBeCloseTo(large.model.results!.key_metrics.project_irr, 10);
+    expect(summary.weightedLcoe).not.toBeNull();
+  });
+
+  it('sums cash flows by operating year across lifetimes', () => {
+    const summary = buildPortfolio([small, large], stages, []);
+    const smallYearly = small.model.results!.yearly_data!;
+    const largeYearly = large.model.results!.yearly_data!;
+
+    expect(summary.years.length).toBe(30);
+    expect(summary.years[0].revenue).toBeCloseTo(smallYearly.revenue[0] + largeYearly.revenue[0], 4);
+    expect(summary.years[29].revenue).toBeCloseTo(largeYearly.revenue[29], 4);
+    expect(summary.years[29].cumulative_fcf_to_equity).toBeCloseTo(
+      smallYearly.cumulative_fcf_to_equity[24] + largeYearly.cumulative_fcf_to_equity[29],
+      2
+    );
+  });
+
+  it('converts model currencies and estimates CAPEX of uncalculated models', () => {
+    const rates: FxRate[] = [
+      { id: 'r1', from: 'USD', to: 'EUR', rate: 0.5, effectiveDate: '2020-01-01', createdBy: 'T', creatorId: 'u', createdAt: '' },
+    ];
+    const usd = { project: project('c', 'stage-dev', 'user-1'), model: model('c', { currency: 'USD', capacity: 100 }, false) };
+    const gbp = { project: project('d', 'stage-dev', 'user-1'), model: model('d', { currency: 'GBP', capacity: 100 }, false) };
+    const summary = buildPortfolio([usd, gbp], stages, rates, 'EUR');
+
+    expect(summary.calculatedCount).toBe(0);
+    expect(summary.weightedProjectIrr).toBeNull();
+    expect(summary.projects[0].totalCapex).toBeCloseTo(100 * 850_000 * 0.5, 6);
+    expect(summary.missingRates).toEqual(['GBP']);
+  });
+
+  it('applies the project list filters and lays out the workbook', () => {
+    const filters = { stages: ['stage-build'], priorities: [], owners: [], search: '' };
+    expect(matchesProjectFilters(small.project, filters)).toBe(false);
+    expect(matchesProjectFilters(large.project, { ...filters, stages: [], owners: ['user-2'] })).toBe(true);
+
+    const sheets = portfolioSheets(buildPortfolio([large], stages, []), 'No filters applied');
+    expect(sheets.map((s) => s.name)).toEqual(['Summary', 'By Stage', 'Projects', 'Cash Flows']);
+    expect(sheets[3].rows.length).toBe(30);
+    expect([columnName(0), columnName(25), columnName(26), columnName(701)]).toEqual(['A', 'Z', 'AA', 'ZZ']);
+  });
+});
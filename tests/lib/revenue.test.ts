@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import {
+  createRevenueModel,
+  dailyProductionProfile,
+  hourlyShapeFactor,
+  merchantPriceYearT,
+  SOLAR_HOURLY_PROFILE,
+} from '@/lib/calculator/revenue';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { FinancialInputs, RevenueStack } from '@/lib/types/financial';
+import type { YieldEstimate } from '@/lib/yield/types';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+const stack: RevenueStack = {
+  contracts: [
+    { id: 'ppa', name: 'PPA', share: 0.7, price: 60, escalation: 0.01, start_year: 1, term_years: 10 },
+  ],
+  merchant_price: 50,
+  merchant_escalation: 0.02,
+  capture_discount: 0.1,
+  curtailment: 0,
+  capacity_payment: 0,
+  capacity_escalation: 0,
+  capacity_years: 30,
+  rec_price: 0,
+  rec_escalation: 0,
+  rec_years: 30,
+};
+
+describe('revenue model', () => {
+  it('sells all energy at the escalating PPA price without a revenue stack', () => {
+    const model = createRevenueModel({ ...base, ppa_escalation: 0.02 });
+    expect(model.revenue(3, 1000).total).toBeCloseTo(1000 * base.ppa_price * 1.02 ** 2, 6);
+  });
+
+  it('splits output between contracts and a merchant tail', () => {
+    const model = createRevenueModel({ ...base, revenue_stack: stack });
+
+    const year2 = model.revenue(2, 1000);
+    expect(year2.contracted).toBeCloseTo(700 * 60 * 1.01, 6);
+    expect(year2.merchant).toBeCloseTo(300 * 50 * 1.02 * 0.9, 6);
+
+    // Contract expired: everything merchant
+    const year11 = model.revenue(11, 1000);
+    expect(year11.contracted).toBe(0);
+    expect(year11.merchant).toBeCloseTo(1000 * 50 * 1.02 ** 10 * 0.9, 6);
+  });
+
+  it('applies curtailment, capacity and REC revenues, and sums months to the year', () => {
+    const inputs: FinancialInputs = {
+      ...base,
+      revenue_stack: { ...stack, curtailment: 0.05, capacity_payment: 1000, rec_price: 2 },
+    };
+    const model = createRevenueModel(inputs);
+    const annual = model.revenue(1, 12_000);
+
+    expect(annual.curtailedMwh).toBeCloseTo(600, 6);
+    expect(annual.capacity).toBeCloseTo(inputs.capacity * 1000, 6);
+    expect(annual.rec).toBeCloseTo(11_400 * 2, 6);
+
+    const calculator = new SolarFinanceCalculator(inputs);
+    let monthly = 0;
+    for (let month = 1; month <= 12; month++) monthly += calculator.calcRevenueMonthT(1, month);
+    expect(monthly).toBeCloseTo(calculator.calcRevenueYearT(1), 0);
+    expect(calculator.generateYearlyData().revenue_merchant![0]).toBeGreaterThan(0);
+  });
+
+  it('discounts capture prices by month and hourly shape', () => {
+    const flat = hourlyShapeFactor(new Array(24).fill(1));
+    expect(flat).toBeCloseTo(1, 10);
+    // Prices halve during daylight: solar captures about half the average
+    const duck = Array.from({ length: 24 }, (_, h) => (h >= 6 && h < 18 ? 0.5 : 1.5));
+    expect(hourlyShapeFactor(duck)).toBeCloseTo(0.5, 10);
+
+    const monthly = { ...stack, contracts: [], monthly_capture_discounts: new Array(12).fill(0.3) };
+    const revenue = createRevenueModel({ ...base, revenue_stack: monthly }).revenue(1, 1000, 6);
+    expect(revenue.merchant).toBeCloseTo(1000 * 50 * 0.7, 6);
+
+    expect(merchantPriceYearT({ ...stack, merchant_price_curve: [40, 45] }, 2)).toBe(45);
+    expect(merchantPriceYearT({ ...stack, merchant_price_curve: [40, 45] }, 3)).toBeCloseTo(45 * 1.02, 10);
+  });
+
+  it('weights the hourly price shape with the simulated hourly profile', () => {
+    // Output only at noon, when the price dips to half of the other hours
+    const hourlyProfile = Array.from({ length: 8760 }, (_, h) => (h % 24 === 12 ? 1 : 0));
+    const inputs = { ...base, yieldEstimate: { hourlyProfile } as YieldEstimate };
+    const noonDip = Array.from({ length: 24 }, (_, h) => (h === 12 ? 0.5 : 1));
+
+    const profile = dailyProductionProfile(inputs);
+    expect(profile[12]).toBe(365);
+    expect(profile.filter((value) => value > 0)).toHaveLength(1);
+    expect(hourlyShapeFactor(noonDip, profile)).toBeCloseTo(0.5 / (23.5 / 24), 10);
+
+    // Without a simulated profile the half sine applies
+    expect(dailyProductionProfile(base)).toBe(SOLAR_HOURLY_PROFILE);
+
+    const merchantOnly = { ...stack, contracts: [], capture_discount: 0, hourly_price_shape: noonDip };
+    const simulated = createRevenueModel({ ...inputs, revenue_stack: merchantOnly }).revenue(1, 1000, 6);
+    const generic = createRevenueModel({ ...base, revenue_stack: merchantOnly }).revenue(1, 1000, 6);
+    expect(simulated.merchant).toBeLessThan(generic.merchant);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import {
+  BASE_CASE_ID,
+  resolveScenarioInputs,
+  calculateScenario,
+  compareScenarios,
+} from '@/lib/calculator/scenarios';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { FinancialInputs } from '@/lib/types/financial';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+describe('scenario inputs', () => {
+  it('applies overrides on top of the base case', () => {
+    const inputs = resolveScenarioInputs(base, { ppa_price: 55 });
+
+    expect(inputs.ppa_price).toBe(55);
+    expect(inputs.capex_per_mw).toBe(base.capex_per_mw);
+  });
+
+  it('replaces line items when a per-MW cost is overridden', () => {
+    const itemised: FinancialInputs = {
+      ...base,
+      capex_per_mw: undefined,
+      om_cost_per_mw_year: undefined,
+      global_margin: 10,
+      capex_items: [
+        { id: 'c1', name: 'Modules', amount: 150_000_000, is_capex: true, category: 'PV' },
+      ],
+      opex_items: [
+        { id: 'o1', name: 'O&M', amount: 3_000_000, is_capex: false, category: 'O&M' },
+      ],
+    };
+    const inputs = resolveScenarioInputs(itemised, { capex_per_mw: 1_000_000 });
+
+    expect(inputs.capex_items).toEqual([]);
+    expect(inputs.capex_per_mw).toBe(1_000_000);
+    expect(inputs.om_cost_per_mw_year).toBeCloseTo(3_000_000 / 300, 6);
+    // Other overrides leave the items in place
+    expect(resolveScenarioInputs(itemised, { ppa_price: 70 }).capex_items.length).toBe(1);
+  });
+});
+
+describe('scenario comparison', () => {
+  it('lines up metrics and cash flows with deltas against the base case', () => {
+    const baseResults = new SolarFinanceCalculator(base).calculate();
+    const highCapex = calculateScenario(base, { overrides: { capex_per_mw: 1_000_000 } });
+    const lowPpa = calculateScenario(base, { overrides: { ppa_price: 55 } });
+
+    const comparison = compareScenarios([
+      { id: BASE_CASE_ID, name: 'Base Case', results: baseResults },
+      { id: 'high-capex', name: 'High CAPEX', results: highCapex },
+      { id: 'low-ppa', name: 'Low PPA', results: lowPpa },
+    ]);
+
+    const irr = comparison.keyMetrics.find((r) => r.key === 'project_irr')!;
+    expect(irr.values[0]).toBeCloseTo(baseResults.key_metrics.project_irr, 10);
+    expect(irr.deltas[0]).toBeNull();
+    expect(irr.deltas[1]).toBeLessThan(0);
+    expect(irr.deltas[2]).toBeLessThan(0);
+
+    const equity = comparison.financing.find((r) => r.key === 'equity')!;
+    expect(equity.deltas[1]).toBeCloseTo(
+      highCapex.financing_structure.equity - baseResults.financing_structure.equity,
+      3
+    );
+
+    const revenue = comparison.yearly.series.find((s) => s.key === 'revenue')!;
+    expect(comparison.yearly.years.length).toBe(base.project_lifetime);
+    expect(revenue.values[1]).toEqual(baseResults.yearly_data!.revenue);
+    expect(revenue.values[2][0]).toBeCloseTo(base.p50_year_0_yield * 55, 3);
+  });
+});
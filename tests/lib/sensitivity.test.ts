@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateSensitivity,
+  getSensitivityInputValue,
+  perturbInput,
+  runTornado,
+  runTwoWayTable,
+} from '@/lib/calculator/sensitivity';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { FinancialInputs } from '@/lib/types/financial';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+describe('sensitivity inputs', () => {
+  it('scales line items when perturbing CAPEX of an itemised model', () => {
+    const itemised: FinancialInputs = {
+      ...base,
+      capex_per_mw: undefined,
+      global_margin: 10,
+      capex_items: [
+        { id: 'c1', name: 'Modules', amount: 150_000_000, is_capex: true, category: 'PV', unit_price: 0.2 },
+      ],
+    };
+    const perturbed = perturbInput(itemised, 'capex_per_mw', 1.1);
+
+    expect(perturbed.capex_items[0].amount).toBeCloseTo(165_000_000, 3);
+    expect(perturbed.capex_items[0].unit_price).toBeCloseTo(0.22, 10);
+    expect(getSensitivityInputValue(perturbed, 'capex_per_mw')).toBeCloseTo(
+      (165_000_000 * 1.1) / itemised.capacity,
+      3
+    );
+    // Integer inputs stay whole
+    expect(perturbInput(base, 'debt_tenor', 1.1).debt_tenor).toBe(Math.round(base.debt_tenor * 1.1));
+  });
+});
+
+describe('sensitivity runs', () => {
+  it('moves IRR and LCOE in the expected direction on the tornado', () => {
+    const tornado = runTornado(base, ['capex_per_mw', 'ppa_price', 'p50_year_0_yield'], 10);
+    const [capex, ppa, yieldBar] = tornado.bars;
+
+    expect(tornado.base.project_irr).not.toBeNull();
+    expect(capex.high.project_irr!).toBeLessThan(tornado.base.project_irr!);
+    expect(capex.high.lcoe!).toBeGreaterThan(tornado.base.lcoe!);
+    expect(ppa.high.equity_irr!).toBeGreaterThan(ppa.low.equity_irr!);
+    // PPA price does not affect the cost of energy
+    expect(ppa.high.lcoe!).toBeCloseTo(ppa.low.lcoe!, 6);
+    expect(yieldBar.high.lcoe!).toBeLessThan(yieldBar.low.lcoe!);
+    expect(ppa.highInput).toBeCloseTo(base.ppa_price * 1.1, 10);
+  });
+
+  it('reproduces the base case at the centre of the two-way grid', () => {
+    const table = runTwoWayTable(base, 'capex_per_mw', 'interest_rate', [-10, 0, 10]);
+    const baseOutputs = evaluateSensitivity(base);
+
+    expect(table.cells.length).toBe(3);
+    expect(table.cells[1][1].project_irr).toBeCloseTo(baseOutputs.project_irr!, 10);
+    expect(table.cells[1][1].min_dscr).toBeCloseTo(baseOutputs.min_dscr!, 10);
+    expect(table.colInputs[2]).toBeCloseTo(base.interest_rate * 1.1, 10);
+    expect(table.cells[0][0].equity_irr!).toBeGreaterThan(table.cells[2][2].equity_irr!);
+  });
+});
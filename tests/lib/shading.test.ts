@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeShading,
+  applyMonthlyShading,
+  buildSunPath,
+  projectTreesToSite,
+} from '@/lib/yield/shading';
+import type { GeneratedLayout, FramePlacement } from '@/lib/types/layout';
+import { DEFAULT_LAYOUT_PARAMETERS } from '@/lib/types/layout';
+import type { Site } from '@/lib/types/site';
+import type { BoundingBox, TreeGeometry } from '@/lib/dxf/types';
+
+const CENTROID = { latitude: 45, longitude: 5 };
+const METERS_PER_DEGREE_LAT = 111139;
+
+const site: Site = {
+  id: 'site-1',
+  projectId: 'project-1',
+  name: 'Test Site',
+  description: '',
+  createdBy: 'Admin User',
+  creatorId: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  boundaries: [],
+  exclusionZones: [],
+  centroid: CENTROID,
+};
+
+/** South-facing frame centred `northM` meters north of the site centroid */
+function makeFrame(index: number, northM: number): FramePlacement {
+  const tilt = (20 * Math.PI) / 180;
+  return {
+    index,
+    rowIndex: index,
+    colIndex: 0,
+    frameRows: 2,
+    frameColumns: 12,
+    centerCoord: {
+      lat: CENTROID.latitude + northM / METERS_PER_DEGREE_LAT,
+      lng: CENTROID.longitude,
+    },
+    widthM: 13.6,
+    heightM: 4.5 * Math.cos(tilt),
+    rotationDeg: 0,
+  };
+}
+
+function makeLayout(frames: FramePlacement[]): GeneratedLayout {
+  return {
+    siteId: site.id,
+    module: { source: 'manual', name: 'Test 550W', widthMm: 1134, lengthMm: 2250, wattage: 550 },
+    parameters: { ...DEFAULT_LAYOUT_PARAMETERS, tiltAngle: 20, azimuth: 180 },
+    frames,
+    rows: [],
+    summary: {
+      totalPanels: frames.length * 24,
+      totalFrames: frames.length,
+      totalRows: frames.length,
+      dcCapacityKw: frames.length * 24 * 0.55,
+      dcCapacityMw: (frames.length * 24 * 0.55) / 1000,
+      actualGcr: 0.4,
+      coveredAreaSqm: 0,
+      moduleAreaSqm: 0,
+    },
+    generatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+describe('shading analysis', () => {
+  it('should report no loss for a single unobstructed frame', () => {
+    const result = analyzeShading({ layout: makeLayout([makeFrame(0, 0)]), site });
+
+    expect(result.frames).toHaveLength(1);
+    expect(result.monthlyLoss).toHaveLength(12);
+    expect(result.annualLoss).toBeCloseTo(0, 5);
+  });
+
+  it('should shade the rear row when rows are tightly spaced', () => {
+    const result = analyzeShading({
+      layout: makeLayout([makeFrame(0, 0), makeFrame(1, 5)]),
+      site,
+    });
+
+    const [front, rear] = result.frames;
+    expect(front.annualLoss).toBeCloseTo(0, 5);
+    expect(rear.annualLoss).toBeGreaterThan(0);
+    // Winter sun is lower, so December loses more than June
+    expect(rear.monthlyLoss[11]).toBeGreaterThan(rear.monthlyLoss[5]);
+    expect(result.nearShadingLoss).toBeGreaterThan(0);
+  });
+
+  it('should report no near shading when the sky is all diffuse', () => {
+    const result = analyzeShading({
+      layout: makeLayout([makeFrame(0, 0), makeFrame(1, 5)]),
+      site,
+      beamFraction: 0,
+    });
+
+    const rear = result.frames[1];
+    expect(rear.monthlyLoss.every(Number.isFinite)).toBe(true);
+    expect(rear.annualLoss).toBeCloseTo(0, 5);
+    expect(result.monthlyLoss.every(Number.isFinite)).toBe(true);
+    expect(result.nearShadingLoss).toBeCloseTo(0, 5);
+  });
+
+  it('should shade a frame with a tall tree to its south', () => {
+    const tree: TreeGeometry = {
+      id: 'tree-1',
+      position: [0, -10, 0],
+      treeType: 'simple',
+      trunkDiameter: 0.5,
+      trunkHeight: 4,
+      crownDiameter: 8,
+      crownHeight: 8,
+      totalHeight: 12,
+      layer: 'TREES',
+    };
+
+    const result = analyzeShading({
+      layout: makeLayout([makeFrame(0, 0)]),
+      site,
+      trees: [tree],
+    });
+
+    expect(result.annualLoss).toBeGreaterThan(0);
+  });
+
+  it('should shade a frame with a DXF tree placed on the site', () => {
+    // Drawing centred on (1000, 2000), anchored 30 m north of the site centroid;
+    // the tree sits 10 m south of the drawing centre, next to the frame
+    const bounds: BoundingBox = {
+      min: [900, 1900, 0],
+      max: [1100, 2100, 0],
+      center: [1000, 2000, 0],
+      size: [200, 200, 0],
+    };
+    const tree: TreeGeometry = {
+      id: 'tree-1',
+      position: [1000, 1990, 0],
+      treeType: 'simple',
+      trunkDiameter: 0.5,
+      trunkHeight: 4,
+      crownDiameter: 8,
+      crownHeight: 8,
+      totalHeight: 12,
+      layer: 'TREES',
+    };
+    const anchor = { latitude: CENTROID.latitude + 30 / METERS_PER_DEGREE_LAT, longitude: CENTROID.longitude };
+
+    const trees = projectTreesToSite({ trees: [tree], bounds }, anchor, site);
+    expect(trees[0].position[0]).toBeCloseTo(0, 1);
+    expect(trees[0].position[1]).toBeCloseTo(20, 1);
+
+    const layout = makeLayout([makeFrame(0, 30)]);
+    const unshaded = analyzeShading({ layout, site });
+    const shaded = analyzeShading({ layout, site, trees });
+
+    const [before] = unshaded.frames;
+    const [after] = shaded.frames;
+    expect(after.monthlyLoss[11]).toBeGreaterThan(before.monthlyLoss[11]);
+    expect(after.annualLoss).toBeGreaterThan(before.annualLoss);
+  });
+
+  it('should count a high horizon as horizon loss', () => {
+    const result = analyzeShading({
+      layout: makeLayout([makeFrame(0, 0)]),
+      site,
+      horizonProfile: new Array(36).fill(15),
+    });
+
+    expect(result.horizonLoss).toBeGreaterThan(0);
+    expect(result.nearShadingLoss).toBeCloseTo(0, 5);
+  });
+});
+
+describe('sun path', () => {
+  it('should only contain positions above the horizon', () => {
+    const positions = buildSunPath(45, 60);
+    expect(positions.length).toBeGreaterThan(0);
+    expect(positions.every((p) => p.altitude > 0)).toBe(true);
+  });
+
+  it('should clamp non-positive time steps to the minimum step', () => {
+    const minimum = buildSunPath(45, 1);
+    expect(buildSunPath(45, 0)).toEqual(minimum);
+    expect(buildSunPath(45, -15)).toEqual(minimum);
+    expect(buildSunPath(45, NaN)).toEqual(minimum);
+  });
+});
+
+describe('applyMonthlyShading', () => {
+  it('should reduce each month by its loss percentage', () => {
+    const monthly = new Array(12).fill(100);
+    const loss = new Array(12).fill(0);
+    loss[0] = 10;
+
+    const shaded = applyMonthlyShading(monthly, loss);
+    expect(shaded[0]).toBeCloseTo(90);
+    expect(shaded[1]).toBeCloseTo(100);
+  });
+});
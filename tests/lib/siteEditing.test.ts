@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  openRing,
+  closeRing,
+  ringArea,
+  insertVertex,
+  deleteVertex,
+  offsetRing,
+  splitRing,
+  mergeRings,
+  computeSiteAreas,
+  closeSitePolygons,
+} from '@/lib/sites';
+import type { SiteCoordinate } from '@/lib/types/site';
+
+const METERS_PER_DEGREE = 111139;
+const LAT = 35;
+const LNG = -110;
+
+/** Open square ring with the given side (meters), offset east by `eastM` */
+function square(sideM: number, eastM = 0): SiteCoordinate[] {
+  const dLat = sideM / 2 / METERS_PER_DEGREE;
+  const mPerDegLng = METERS_PER_DEGREE * Math.cos((LAT * Math.PI) / 180);
+  const dLng = sideM / 2 / mPerDegLng;
+  const lng = LNG + eastM / mPerDegLng;
+  return [
+    { lat: LAT - dLat, lng: lng - dLng },
+    { lat: LAT - dLat, lng: lng + dLng },
+    { lat: LAT + dLat, lng: lng + dLng },
+    { lat: LAT + dLat, lng: lng - dLng },
+  ];
+}
+
+describe('vertex editing', () => {
+  it('opens and closes rings', () => {
+    const ring = square(100);
+    const closed = closeRing(ring);
+
+    expect(closed.length).toBe(5);
+    expect(closed[4]).toEqual(closed[0]);
+    expect(openRing(closed)).toEqual(ring);
+    expect(closeRing(closed)).toEqual(closed);
+  });
+
+  it('inserts and deletes vertices but keeps a triangle', () => {
+    const ring = square(100);
+    const inserted = insertVertex(ring, 1, { lat: LAT - 0.001, lng: LNG });
+
+    expect(inserted.length).toBe(5);
+    expect(inserted[1]).toEqual({ lat: LAT - 0.001, lng: LNG });
+    expect(deleteVertex(inserted, 1)).toEqual(ring);
+    expect(deleteVertex(ring.slice(0, 3), 0).length).toBe(3);
+  });
+});
+
+describe('polygon operations', () => {
+  it('offsets a polygon by a setback', () => {
+    const ring = square(100);
+    const shrunk = offsetRing(ring, -10)!;
+    const grown = offsetRing(ring, 10)!;
+
+    expect(ringArea(ring)).toBeCloseTo(10000, -2);
+    expect(ringArea(shrunk)).toBeCloseTo(80 * 80, -2);
+    // Rounded corners add π·r² to the 120m square minus its corners
+    expect(ringArea(grown)).toBeGreaterThan(100 * 100 + 4 * 100 * 10);
+    expect(ringArea(grown)).toBeLessThan(120 * 120);
+    expect(offsetRing(ring, -60)).toBeNull();
+  });
+
+  it('splits a polygon along a line', () => {
+    const ring = square(100);
+    const north = { lat: LAT + 0.01, lng: LNG };
+    const south = { lat: LAT - 0.01, lng: LNG };
+    const pieces = splitRing(ring, south, north);
+
+    expect(pieces.length).toBe(2);
+    expect(ringArea(pieces[0])).toBeCloseTo(5000, -2);
+    expect(ringArea(pieces[1])).toBeCloseTo(5000, -2);
+    // A line east of the polygon misses it
+    const east = { lat: LAT, lng: LNG + 0.01 };
+    expect(splitRing(ring, east, { lat: LAT + 0.01, lng: LNG + 0.01 })).toEqual([]);
+  });
+
+  it('merges overlapping polygons and rejects disjoint ones', () => {
+    const merged = mergeRings([square(100), square(100, 50)])!;
+
+    expect(ringArea(merged)).toBeCloseTo(150 * 100, -2);
+    expect(mergeRings([square(100), square(100, 500)])).toBeNull();
+  });
+});
+
+describe('site areas', () => {
+  it('subtracts exclusions clipped to the boundary', () => {
+    const { boundaries, exclusionZones } = closeSitePolygons(
+      [{ id: 'b1', name: 'Boundary', coordinates: square(100) }],
+      [{ id: 'ez1', name: 'Pond', type: 'water_body', coordinates: square(40, 50) }]
+    );
+    const areas = computeSiteAreas(boundaries, exclusionZones);
+
+    expect(boundaries[0].coordinates.length).toBe(5);
+    expect(areas.totalArea).toBeCloseTo(10000, -2);
+    // Half of the pond lies outside the boundary
+    expect(areas.usableArea).toBeCloseTo(10000 - 20 * 40, -2);
+    expect(areas.usableAreaPercent).toBe(92);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySoilingProfile,
+  buildSoilingProfile,
+  cleaningDaysFromSchedules,
+  cleaningEnergyGain,
+  estimateMonthlySnowLoss,
+  estimateMonthlySoiling,
+  monthlySnowDaysFromLogs,
+} from '@/lib/yield/soiling';
+import { estimateYieldFromLookup } from '@/lib/yield/ghiLookup';
+import { formatLossBreakdown } from '@/lib/yield/performanceRatio';
+import { calculateCleaningValue, PANEL_CLEANING_ITEM } from '@/lib/calculator/cleaningValue';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
+import type { MaintenanceSchedule } from '@/lib/types/maintenance';
+import type { PerformanceLog } from '@/lib/types/performanceLog';
+import type { YieldEstimate } from '@/lib/yield/types';
+
+const schedule = (overrides: Partial<MaintenanceSchedule>): MaintenanceSchedule => ({
+  id: 's1',
+  projectId: 'p1',
+  name: 'Module washing',
+  category: 'cleaning',
+  recurrence: 'quarterly',
+  startDate: '2026-01-15',
+  isActive: true,
+  taskTemplates: [],
+  createdBy: 'Test User',
+  creatorId: 'u1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const snowLog = (startDate: string, snowDays: number) =>
+  ({ startDate, snowDays }) as PerformanceLog;
+
+const DRY = new Array<number>(12).fill(0);
+const RAINY = new Array<number>(12).fill(8);
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+function lookupEstimate(): YieldEstimate {
+  const lookup = estimateYieldFromLookup(40, 1000, 0.82);
+  return {
+    source: 'lookup',
+    calculatedAt: '2026-01-01T00:00:00Z',
+    latitude: 40,
+    longitude: -3.5,
+    tiltAngle: 30,
+    azimuth: 180,
+    systemLosses: 14,
+    annualYield: lookup.annualYield,
+    annualGHI: lookup.annualGHI,
+    monthlyYield: lookup.monthlyYield,
+    monthlyFactors: lookup.monthlyFactors,
+    performanceRatio: 0.82,
+    losses: {
+      temperatureLoss: 5,
+      soilingLoss: 0,
+      shadingLoss: 3,
+      wiringLoss: 2,
+      mismatchLoss: 2,
+      inverterLoss: 3,
+      availabilityLoss: 3,
+      otherLoss: 0,
+      totalLoss: 18,
+    },
+  };
+}
+
+describe('soiling and snow losses', () => {
+  it('repeats active cleaning schedules over a typical year', () => {
+    expect(cleaningDaysFromSchedules([schedule({})])).toEqual([14, 105, 196, 287]);
+    expect(
+      cleaningDaysFromSchedules([
+        schedule({ isActive: false }),
+        schedule({ category: 'inspection' }),
+        schedule({ recurrence: 'once' }),
+      ])
+    ).toEqual([]);
+  });
+
+  it('accumulates soiling between rain events and cleanings', () => {
+    const dry = estimateMonthlySoiling(DRY, 0.1);
+    const rainy = estimateMonthlySoiling(RAINY, 0.1);
+    const cleaned = estimateMonthlySoiling(DRY, 0.1, cleaningDaysFromSchedules([schedule({ recurrence: 'monthly' })]));
+
+    expect(dry[11]).toBeCloseTo(20, 10);
+    expect(mean(rainy)).toBeLessThan(0.5);
+    expect(mean(cleaned)).toBeGreaterThan(1);
+    expect(mean(cleaned)).toBeLessThan(mean(dry) / 5);
+    expect(estimateMonthlySoiling(DRY, 0)).toEqual(DRY);
+  });
+
+  it('sheds snow faster at steeper tilts and uses recorded snow days', () => {
+    const snowfall = [40, 30, 10, 0, 0, 0, 0, 0, 0, 0, 10, 30];
+    const flat = estimateMonthlySnowLoss(snowfall, 0);
+    const steep = estimateMonthlySnowLoss(snowfall, 40);
+
+    expect(flat[5]).toBe(0);
+    expect(flat[0]).toBeGreaterThan(steep[0]);
+    expect(steep[0]).toBeGreaterThan(0);
+
+    const observed = monthlySnowDaysFromLogs([
+      snowLog('2024-01-01', 10),
+      snowLog('2025-01-01', 6),
+      snowLog('2025-02-01', 4),
+      snowLog('2025-02-15', 3),
+    ]);
+    expect(observed?.slice(0, 3)).toEqual([8, 7, undefined]);
+    expect(monthlySnowDaysFromLogs([{ startDate: '2025-01-01' } as PerformanceLog])).toBeUndefined();
+
+    const withLogs = estimateMonthlySnowLoss(snowfall, 40, observed);
+    expect(withLogs[0]).toBeCloseTo((8 / 31) * 100, 10);
+    expect(withLogs[2]).toBe(steep[2]);
+  });
+
+  it('adds the losses to the breakdown and values the cleanings', () => {
+    const estimate = lookupEstimate();
+    const profile = buildSoilingProfile({
+      climate: { rainDays: new Array(12).fill(2), snowfallCm: [30, 20, 0, 0, 0, 0, 0, 0, 0, 0, 0, 20], soilingRate: 0.15 },
+      tiltAngle: 30,
+      schedules: [schedule({ recurrence: 'monthly' })],
+    });
+    const soiled = applySoilingProfile(estimate, profile);
+    const before = estimate.monthlyYield.reduce((a, b) => a + b, 0);
+
+    expect(profile.cleaningsPerYear).toBe(12);
+    expect(soiled.losses.soilingLoss).toBeGreaterThan(0);
+    expect(soiled.losses.snowLoss).toBeGreaterThan(0);
+    expect(soiled.performanceRatio / estimate.performanceRatio).toBeCloseTo(soiled.annualYield / before, 10);
+    expect(soiled.annualYield).toBeCloseTo(
+      before * (1 - soiled.losses.soilingLoss / 100) * (1 - soiled.losses.snowLoss! / 100),
+      3
+    );
+    expect(formatLossBreakdown(soiled.losses).map((l) => l.name)).toContain('Snow');
+
+    const gain = cleaningEnergyGain(soiled);
+    expect(gain).toBeGreaterThan(0);
+
+    const value = calculateCleaningValue({
+      ...DEFAULT_FINANCIAL_INPUTS,
+      p50_year_0_yield: soiled.annualYield / 1000,
+      yieldEstimate: soiled,
+      opex_items: [{ name: PANEL_CLEANING_ITEM, amount: 5000, category: 'Operations & Maintenance' }],
+    });
+    expect(value?.recoveredMwh).toBeCloseTo(gain / 1000, 6);
+    expect(value?.revenue).toBeCloseTo((gain / 1000) * DEFAULT_FINANCIAL_INPUTS.ppa_price, 6);
+    expect(value?.net).toBeCloseTo(value!.revenue - 5000, 6);
+    expect(calculateCleaningValue({ ...DEFAULT_FINANCIAL_INPUTS, yieldEstimate: estimate })).toBeUndefined();
+  });
+});
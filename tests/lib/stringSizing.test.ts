@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { sizeStrings, calculateModuleDesignValues } from '@/lib/electrical';
+import { DEFAULT_MODULE_SPECS, DEFAULT_INVERTER_SPECS } from '@/lib/types/component';
+import type { InverterSpecs } from '@/lib/types/component';
+
+const temperatures = { recordLowC: -10, recordHighC: 40 };
+
+const inverter: InverterSpecs = {
+  ...DEFAULT_INVERTER_SPECS,
+  maxDcPower: 150,
+  maxDcVoltage: 1500,
+  mpptVoltageMin: 500,
+  mpptVoltageMax: 1500,
+  maxDcCurrent: 180,
+  mpptCount: 6,
+  stringsPerMppt: 2,
+  acPowerRating: 100,
+};
+
+describe('calculateModuleDesignValues', () => {
+  it('should raise Voc in the cold and lower Vmp in the heat', () => {
+    const values = calculateModuleDesignValues(DEFAULT_MODULE_SPECS, temperatures);
+    expect(values.coldVoc).toBeGreaterThan(DEFAULT_MODULE_SPECS.voc);
+    expect(values.hotVmp).toBeLessThan(DEFAULT_MODULE_SPECS.vmp);
+    expect(values.hotCellTempC).toBeGreaterThan(temperatures.recordHighC);
+  });
+});
+
+describe('sizeStrings', () => {
+  it('should recommend a string length within the voltage limits', () => {
+    const result = sizeStrings({
+      module: DEFAULT_MODULE_SPECS,
+      inverter,
+      temperatures,
+      totalModules: 10000,
+    });
+
+    expect(result.modulesPerString).toBeGreaterThanOrEqual(result.minModulesPerString);
+    expect(result.modulesPerString).toBeLessThanOrEqual(result.maxModulesPerString);
+    expect(result.stringColdVoc).toBeLessThanOrEqual(inverter.maxDcVoltage);
+    expect(result.stringsPerMppt).toBeLessThanOrEqual(result.maxStringsPerMppt);
+    expect(result.inverterCount).toBe(Math.ceil(result.totalStrings / result.stringsPerInverter));
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should flag cold Voc above the inverter maximum', () => {
+    const result = sizeStrings({
+      module: DEFAULT_MODULE_SPECS,
+      inverter,
+      temperatures,
+      modulesPerString: 40,
+      totalModules: 400,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.issues.map((i) => i.code)).toContain('cold_voc_exceeds_max_dc_voltage');
+  });
+
+  it('should flag more strings than the MPPT inputs allow', () => {
+    const result = sizeStrings({
+      module: DEFAULT_MODULE_SPECS,
+      inverter,
+      temperatures,
+      stringsPerInverter: 30,
+    });
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it('should report modules left over from incomplete strings', () => {
+    const base = sizeStrings({ module: DEFAULT_MODULE_SPECS, inverter, temperatures });
+    const result = sizeStrings({
+      module: DEFAULT_MODULE_SPECS,
+      inverter,
+      temperatures,
+      totalModules: base.modulesPerString * 10 + 3,
+    });
+
+    expect(result.totalStrings).toBe(10);
+    expect(result.unstrungModules).toBe(3);
+    expect(result.issues.map((i) => i.code)).toContain('unstrung_modules');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { SolarFinanceCalculator } from '@/lib/calculator/calculator';
+import { MACRS_5_YEAR_RATES, buildTaxSchedule, depreciationSchedule } from '@/lib/calculator/tax';
+import { DEFAULT_FINANCIAL_INPUTS, DEFAULT_PARTNERSHIP_FLIP, DEFAULT_TAX_TERMS } from '@/lib/types/financial';
+import type { FinancialInputs, TaxTerms } from '@/lib/types/financial';
+
+const base: FinancialInputs = { ...DEFAULT_FINANCIAL_INPUTS };
+
+describe('tax schedule', () => {
+  it('keeps the flat tax on EBITDA without tax terms', () => {
+    const calculator = new SolarFinanceCalculator(base);
+    const yearly = calculator.generateYearlyData();
+
+    expect(yearly.cfads[0]).toBeCloseTo(yearly.ebitda[0] * (1 - base.tax_rate), 6);
+    expect(yearly.tax_credits!.every((v) => v === 0)).toBe(true);
+    expect(calculator.calculate().key_metrics.tax_equity_irr).toBeUndefined();
+  });
+
+  it('depreciates the full basis with MACRS and bonus depreciation', () => {
+    const terms: TaxTerms = { ...DEFAULT_TAX_TERMS, bonus_depreciation: 0.6 };
+    const schedule = depreciationSchedule(1_000_000, terms, 25);
+
+    expect(MACRS_5_YEAR_RATES.reduce((sum, r) => sum + r, 0)).toBeCloseTo(1, 10);
+    expect(schedule[0]).toBeCloseTo(600_000 + 400_000 * 0.2, 6);
+    expect(schedule.reduce((sum, v) => sum + v, 0)).toBeCloseTo(1_000_000, 6);
+    expect(schedule[6]).toBe(0);
+
+    const straightLine = depreciationSchedule(1_000_000, { ...terms, depreciation_method: 'straight_line', bonus_depreciation: 0 }, 25);
+    expect(straightLine[19]).toBeCloseTo(50_000, 6);
+    expect(straightLine[20]).toBe(0);
+  });
+
+  it('carries losses forward within the utilisation limit', () => {
+    const terms: TaxTerms = {
+      ...DEFAULT_TAX_TERMS,
+      depreciation_method: 'straight_line',
+      straight_line_years: 1,
+      depreciable_share: 1,
+      tax_credit: 'none',
+    };
+    const years = buildTaxSchedule({
+      ebitda: [100, 100, 100],
+      energy: [],
+      interest: [],
+      totalCapex: 250,
+      taxRate: 0.25,
+      terms,
+    });
+
+    expect(years[0].nolBalance).toBe(150);
+    expect(years[0].taxPaid).toBe(0);
+    expect(years[1].nolUsed).toBe(80);
+    expect(years[1].taxPaid).toBeCloseTo(5, 10);
+    expect(years[2].nolUsed).toBe(70);
+    expect(years[2].nolBalance).toBe(0);
+  });
+
+  it('adds ITC and escalating PTC credits to equity cash flows', () => {
+    const itc = new SolarFinanceCalculator({ ...base, tax_terms: DEFAULT_TAX_TERMS });
+    const eligible = itc.calcTotalCapEx() * DEFAULT_TAX_TERMS.depreciable_share;
+    expect(itc.calcTaxCreditsYearT(1)).toBeCloseTo(eligible * DEFAULT_TAX_TERMS.itc_rate, 2);
+    expect(itc.calcTaxCreditsYearT(2)).toBe(0);
+    expect(itc.calcProjectIRR()).toBeGreaterThan(new SolarFinanceCalculator(base).calcProjectIRR());
+
+    const ptcTerms: TaxTerms = { ...DEFAULT_TAX_TERMS, tax_credit: 'ptc' };
+    const ptc = new SolarFinanceCalculator({ ...base, tax_terms: ptcTerms });
+    expect(ptc.calcTaxCreditsYearT(2)).toBeCloseTo(
+      ptc.calcEnergyYearT(2) * ptcTerms.ptc_rate * (1 + ptcTerms.ptc_escalation),
+      2
+    );
+    expect(ptc.calcTaxCreditsYearT(ptcTerms.ptc_years + 1)).toBe(0);
+  });
+
+  it('splits equity cash flows under a partnership flip', () => {
+    const inputs: FinancialInputs = {
+      ...base,
+      tax_terms: { ...DEFAULT_TAX_TERMS, partnership_flip: DEFAULT_PARTNERSHIP_FLIP },
+    };
+    const calculator = new SolarFinanceCalculator(inputs);
+    const yearly = calculator.generateYearlyData();
+    const metrics = calculator.calculate().key_metrics;
+
+    for (let i = 0; i < inputs.project_lifetime; i++) {
+      expect(yearly.tax_equity_cash_flow![i] + yearly.sponsor_cash_flow![i]).toBeCloseTo(yearly.fcf_to_equity[i], 4);
+    }
+    expect(metrics.tax_equity_irr).toBeDefined();
+    expect(isFinite(metrics.equity_irr)).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTerrainGrid,
+  terrainElevationAt,
+  analyzeTerrain,
+  fitGroundPlane,
+  createSlopeExclusionZones,
+  calculateGrading,
+} from '@/lib/terrain';
+import { generatePanelLayout } from '@/lib/layout';
+import { DEFAULT_LAYOUT_PARAMETERS } from '@/lib/types/layout';
+import type { ModuleInput } from '@/lib/types/layout';
+import type { Site } from '@/lib/types/site';
+import type { LocalCoord } from '@/lib/layout/geometry';
+import { makeSquareSite } from '../helpers/site';
+
+const bounds = { minX: -120, minY: -120, maxX: 120, maxY: 120 };
+
+/** Ground rising 5% to the north */
+const tiltedPlane = (p: LocalCoord) => 100 + 0.05 * p.y;
+
+/** Gentle rise with 1m ripples every 40m east-west */
+const ripples = (p: LocalCoord) => 100 + 0.02 * p.y + Math.sin((p.x * Math.PI) / 20);
+
+/** Flat in the west half, rising 40% to the east in the east half */
+const hillside = (p: LocalCoord) => 100 + (p.x > 0 ? 0.4 * p.x : 0);
+
+const module: ModuleInput = {
+  source: 'manual',
+  name: 'Test 550W',
+  widthMm: 1134,
+  lengthMm: 2278,
+  wattage: 550,
+};
+
+describe('terrain grid', () => {
+  it('interpolates elevations and returns null outside the grid', () => {
+    const grid = buildTerrainGrid(bounds, 10, tiltedPlane);
+
+    expect(grid.columns).toBe(25);
+    expect(grid.rows).toBe(25);
+    expect(terrainElevationAt(grid, { x: 3, y: 17 })).toBeCloseTo(100.85, 2);
+    expect(terrainElevationAt(grid, { x: 0, y: 500 })).toBeNull();
+  });
+
+  it('derives slope and aspect from a tilted plane', () => {
+    const grid = buildTerrainGrid(bounds, 10, tiltedPlane);
+    const analysis = analyzeTerrain(grid);
+    const centre = 12 * grid.columns + 12;
+
+    expect(analysis.slopeNSPercent[centre]).toBeCloseTo(5, 5);
+    expect(analysis.slopeEWPercent[centre]).toBeCloseTo(0, 5);
+    expect(analysis.slopeDeg[centre]).toBeCloseTo((Math.atan(0.05) * 180) / Math.PI, 5);
+    // Rising to the north means the slope faces south
+    expect(analysis.aspectDeg[centre]).toBeCloseTo(180, 5);
+  });
+
+  it('fits the ground plane under a frame', () => {
+    const grid = buildTerrainGrid(bounds, 10, tiltedPlane);
+    const plane = fitGroundPlane(grid, [
+      { x: -5, y: -2 },
+      { x: 5, y: -2 },
+      { x: 5, y: 2 },
+      { x: -5, y: 2 },
+    ]);
+
+    expect(plane).not.toBeNull();
+    expect(plane!.elevationM).toBeCloseTo(100, 5);
+    expect(plane!.slopeNSPercent).toBeCloseTo(5, 5);
+    expect(plane!.slopeEWPercent).toBeCloseTo(0, 5);
+  });
+});
+
+describe('slope exclusions', () => {
+  it('excludes the steep half of a hillside', () => {
+    const site = makeSquareSite(200, { terrain: buildTerrainGrid(bounds, 10, hillside) });
+    const zones = createSlopeExclusionZones(site, 10);
+
+    expect(zones.length).toBe(1);
+    expect(zones[0].type).toBe('slope');
+    expect(zones[0].autoGenerated).toBe(true);
+    // East half of the 240m grid, plus half a cell either side of the fold
+    expect(zones[0].area).toBeGreaterThan(120 * 240 * 0.9);
+    expect(zones[0].area).toBeLessThan(130 * 250 * 1.05);
+  });
+
+  it('creates no zones on gentle ground', () => {
+    const site = makeSquareSite(200, { terrain: buildTerrainGrid(bounds, 10, tiltedPlane) });
+    expect(createSlopeExclusionZones(site, 10)).toEqual([]);
+  });
+});
+
+describe('terrain-following layout', () => {
+  it('rejects frames on ground steeper than the structural limits', () => {
+    const site = makeSquareSite(200, { terrain: buildTerrainGrid(bounds, 10, hillside) });
+    const flatSite: Site = { ...site, terrain: undefined };
+
+    const layout = generatePanelLayout(site, module, DEFAULT_LAYOUT_PARAMETERS);
+    const flatLayout = generatePanelLayout(flatSite, module, DEFAULT_LAYOUT_PARAMETERS);
+
+    expect(layout.summary.slopeRejectedFrames).toBeGreaterThan(0);
+    expect(layout.summary.totalFrames + layout.summary.slopeRejectedFrames!).toBe(
+      flatLayout.summary.totalFrames
+    );
+    expect(flatLayout.summary.slopeRejectedFrames).toBeUndefined();
+
+    for (const frame of layout.frames) {
+      expect(frame.groundElevationM).toBeDefined();
+      expect(Math.abs(frame.groundSlopeEWPercent!)).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('places frames at their ground elevation', () => {
+    const site = makeSquareSite(200, { terrain: buildTerrainGrid(bounds, 10, tiltedPlane) });
+    const layout = generatePanelLayout(site, module, DEFAULT_LAYOUT_PARAMETERS);
+
+    expect(layout.summary.slopeRejectedFrames).toBe(0);
+    const elevations = layout.frames.map((f) => f.groundElevationM!);
+    // 5% over roughly 190m of rows
+    expect(Math.max(...elevations) - Math.min(...elevations)).toBeGreaterThan(8);
+    expect(layout.frames[0].groundSlopeNSPercent).toBeCloseTo(5, 3);
+  });
+});
+
+describe('grading', () => {
+  it('needs no earthworks on a plane', () => {
+    const site = makeSquareSite(200, { terrain: buildTerrainGrid(bounds, 10, tiltedPlane) });
+    const layout = generatePanelLayout(site, module, DEFAULT_LAYOUT_PARAMETERS);
+    const grading = calculateGrading(layout, site)!;
+
+    expect(grading.frames.length).toBe(layout.frames.length);
+    expect(grading.totalCutM3).toBeCloseTo(0, 3);
+    expect(grading.totalFillM3).toBeCloseTo(0, 3);
+    expect(grading.gradedFrames).toBe(0);
+  });
+
+  it('balances cut and fill under frames on rippled ground', () => {
+    const site = makeSquareSite(200, { terrain: buildTerrainGrid(bounds, 2, ripples) });
+    const layout = generatePanelLayout(site, module, DEFAULT_LAYOUT_PARAMETERS);
+    const grading = calculateGrading(layout, site)!;
+    const loose = calculateGrading(layout, site, { toleranceM: 0.6 })!;
+
+    expect(grading.totalCutM3).toBeGreaterThan(100);
+    expect(grading.totalFillM3).toBeGreaterThan(100);
+    expect(Math.abs(grading.netM3)).toBeLessThan(0.2 * grading.totalCutM3);
+    expect(loose.totalCutM3).toBeLessThan(grading.totalCutM3);
+    expect(calculateGrading(layout, { ...site, terrain: undefined })).toBeNull();
+  });
+
+  it('groups volumes per electrical block', () => {
+    const site = makeSquareSite(200, { terrain: buildTerrainGrid(bounds, 2, ripples) });
+    const layout = generatePanelLayout(site, module, DEFAULT_LAYOUT_PARAMETERS);
+    const half = Math.floor(layout.frames.length / 2);
+    const grading = calculateGrading(layout, site, {
+      blocks: [
+        {
+          id: 'tx-1',
+          label: 'Block 01',
+          frameIndices: layout.frames.slice(0, half).map((f) => f.index),
+          inverterIds: [],
+          combinerIds: [],
+          stringCount: 0,
+          dcCapacityKw: 0,
+        },
+      ],
+    })!;
+
+    expect(grading.blocks.map((b) => b.label)).toEqual(['Block 01', 'Unassigned']);
+    expect(grading.blocks[0].frameCount).toBe(half);
+    const blockCut = grading.blocks.reduce((sum, b) => sum + b.cutM3, 0);
+    expect(blockCut).toBeCloseTo(grading.totalCutM3, 6);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTrueTrackingAngle,
+  applyBacktracking,
+  calculateTrackerRotation,
+  calculateRowShadingFraction,
+} from '@/lib/layout/tracker';
+import { generatePanelLayout } from '@/lib/layout/generator';
+import { calculateTrackerGain } from '@/lib/yield/tracker';
+import { DEFAULT_LAYOUT_PARAMETERS } from '@/lib/types/layout';
+import type { ModuleInput, TrackerConfig } from '@/lib/types/layout';
+import { makeSquareSite } from '../helpers/site';
+
+const module: ModuleInput = {
+  source: 'manual',
+  name: 'Test 550W',
+  widthMm: 1134,
+  lengthMm: 2278,
+  wattage: 550,
+};
+
+const tracker: TrackerConfig = {
+  axisAzimuth: 0,
+  maxRotationDeg: 60,
+  backtracking: true,
+  pitchM: 6,
+  gcr: 0.38,
+  axisHeightM: 1.5,
+};
+
+describe('tracker geometry', () => {
+  it('should face east in the morning and west in the afternoon', () => {
+    expect(calculateTrueTrackingAngle(90, 30)).toBeLessThan(0);
+    expect(calculateTrueTrackingAngle(270, 30)).toBeGreaterThan(0);
+    expect(calculateTrueTrackingAngle(180, 60)).toBeCloseTo(0, 5);
+  });
+
+  it('should limit rotation and stow at night', () => {
+    const noBacktracking = { ...tracker, backtracking: false };
+    expect(calculateTrackerRotation(90, 5, noBacktracking)).toBe(-60);
+    expect(calculateTrackerRotation(270, -5, tracker)).toBe(0);
+  });
+
+  it('should backtrack towards horizontal at low sun angles', () => {
+    const backtracked = applyBacktracking(80, 0.4);
+    expect(backtracked).toBeGreaterThan(0);
+    expect(backtracked).toBeLessThan(80);
+
+    // Backtracked rows do not shade each other
+    expect(calculateRowShadingFraction(80, backtracked, 0.4)).toBeCloseTo(0, 5);
+    // True tracking at the same angle does
+    expect(calculateRowShadingFraction(80, 80, 0.4)).toBeGreaterThan(0);
+  });
+});
+
+describe('tracker layout generation', () => {
+  it('should lay out north-south rows at the tracker pitch', () => {
+    const layout = generatePanelLayout(makeSquareSite(200), module, {
+      ...DEFAULT_LAYOUT_PARAMETERS,
+      mountType: 'single_axis_tracker',
+      frameRows: 1,
+      frameColumns: 28,
+      trackerPitchM: 6,
+      corridorEveryNFramesY: 0,
+    });
+
+    expect(layout.frames.length).toBeGreaterThan(0);
+    expect(layout.frames.every((f) => f.rotationDeg === 90)).toBe(true);
+    expect(layout.tracker).toBeDefined();
+    expect(layout.tracker?.pitchM).toBeCloseTo(6, 5);
+    expect(layout.tracker?.gcr).toBeCloseTo(2.278 / 6, 5);
+  });
+
+  it('should reject a pitch narrower than the tracker', () => {
+    expect(() =>
+      generatePanelLayout(makeSquareSite(200), module, {
+        ...DEFAULT_LAYOUT_PARAMETERS,
+        mountType: 'single_axis_tracker',
+        frameRows: 2,
+        trackerPitchM: 4,
+      })
+    ).toThrow('Tracker pitch must be larger than the tracker width');
+  });
+
+  it('should not add tracker data to fixed-tilt layouts', () => {
+    const layout = generatePanelLayout(makeSquareSite(200), module, DEFAULT_LAYOUT_PARAMETERS);
+    expect(layout.tracker).toBeUndefined();
+  });
+});
+
+describe('tracker energy gain', () => {
+  it('should gain energy over a fixed-tilt reference', () => {
+    const result = calculateTrackerGain(35, tracker, 30, 180);
+
+    expect(result.monthlyGain).toHaveLength(12);
+    expect(result.annualGain).toBeGreaterThan(5);
+    expect(result.annualGain).toBeLessThan(40);
+    expect(result.rowShadingLoss).toBeCloseTo(0, 5);
+  });
+
+  it('should report row shading when backtracking is disabled', () => {
+    const result = calculateTrackerGain(35, { ...tracker, backtracking: false }, 30, 180);
+    expect(result.rowShadingLoss).toBeGreaterThan(0);
+  });
+});
@@ -1,8 +1,17 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { useBOQStore } from '@/stores/boqStore';
 import { useUserStore } from '@/stores/userStore';
 import { useDesignStore } from '@/stores/designStore';
+import { useFxStore } from '@/stores/fxStore';
+import { useFinancialStore } from '@/stores/financialStore';
+import { DEFAULT_FINANCIAL_INPUTS } from '@/lib/types/financial';
 import { seedRoles } from '@/data/seedUserData';
+import { extractComponentsFromDesign } from '@/lib/dxf/componentExtractor';
+
+// Mock the design extraction (no DXF files or IndexedDB in tests)
+vi.mock('@/lib/dxf/componentExtractor', () => ({
+  extractComponentsFromDesign: vi.fn(),
+}));
 
 describe('boqStore', () => {
   const adminUser = {
@@ -141,6 +150,25 @@ describe('boqStore', () => {
       expect(boq?.items).toHaveLength(2);
       expect(boq?.totalValue).toBe(2000); // (10*100) + (5*200)
     });
+
+    it('should flag item currencies without an FX rate', () => {
+      useFxStore.setState({ rates: [] });
+      const boqId = useBOQStore.getState().createBOQ('design-1')!;
+
+      useBOQStore.getState().addItem(boqId, {
+        name: 'Trackers',
+        category: 'Mounting',
+        quantity: 10,
+        unit: 'units',
+        unitPrice: 100,
+        source: 'manual',
+        currency: 'JPY',
+      });
+
+      const boq = useBOQStore.getState().getBOQById(boqId);
+      expect(boq?.totalValue).toBe(1000); // Added 1:1
+      expect(boq?.missingFxRates).toEqual(['JPY']);
+    });
   });
 
   describe('updateItem', () => {
@@ -265,6 +293,54 @@ describe('boqStore', () => {
     });
   });
 
+  describe('generateFromDesign', () => {
+    it('should skip cable items without conductor length', async () => {
+      vi.mocked(extractComponentsFromDesign).mockResolvedValue({
+        modules: null,
+        inverters: null,
+        cables: {
+          circuits: [],
+          quantities: [
+            {
+              kind: 'dc_string',
+              material: 'copper',
+              crossSectionMm2: 6,
+              conductorLengthM: 1200,
+              routeLengthM: 600,
+              circuitCount: 10,
+            },
+            {
+              kind: 'ac',
+              material: 'aluminium',
+              crossSectionMm2: 240,
+              conductorLengthM: 0,
+              routeLengthM: 0,
+              circuitCount: 1,
+            },
+          ],
+          dcLengthM: 600,
+          acLengthM: 0,
+          trenchLengthM: 0,
+          maxVoltageDropDc: 1,
+          maxVoltageDropAc: 0,
+          dcLossPercent: 1,
+          acLossPercent: 0,
+          wiringLoss: 1,
+        },
+      });
+      const boqId = useBOQStore.getState().createBOQ('design-1')!;
+
+      const success = await useBOQStore.getState().generateFromDesign(boqId);
+
+      expect(success).toBe(true);
+      const boq = useBOQStore.getState().getBOQById(boqId)!;
+      expect(boq.items.map((i) => i.name)).toEqual(['DC string cables']);
+      expect(boq.items[0].quantity).toBe(1200);
+      expect(Number.isFinite(boq.items[0].unitPrice)).toBe(true);
+      expect(Number.isFinite(boq.totalValue)).toBe(true);
+    });
+  });
+
   describe('permission checks', () => {
     it('should not allow guest to create BOQ', () => {
       const guestUser = {
@@ -299,5 +375,40 @@ describe('boqStore', () => {
       // Should fail - not creator and not admin
       expect(itemId).toBeUndefined();
     });
+
+    it('should not sync CAPEX into a model the user cannot update', () => {
+      const boqId = useBOQStore.getState().createBOQ('design-1')!;
+      useBOQStore.getState().addItem(boqId, {
+        name: 'PV modules',
+        category: 'PV Equipment',
+        quantity: 100,
+        unit: 'panels',
+        unitPrice: 150,
+        source: 'manual',
+      });
+      useFinancialStore.setState({
+        financialModels: [
+          {
+            id: 'model-1',
+            projectId: 'project-1',
+            name: 'Test Model',
+            inputs: { ...DEFAULT_FINANCIAL_INPUTS, capex_items: [] },
+            createdBy: 'Test Admin',
+            creatorId: adminUser.id,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+          },
+        ],
+      });
+
+      // The model belongs to the admin
+      useUserStore.setState({ currentUser: regularUser });
+
+      const synced = useBOQStore.getState().syncToCapex(boqId);
+
+      expect(synced).toBe(false);
+      expect(useFinancialStore.getState().financialModels[0].inputs.capex_items).toHaveLength(0);
+      expect(useBOQStore.getState().getBOQById(boqId)?.lastExportedAt).toBeUndefined();
+    });
   });
 });